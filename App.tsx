@@ -1,6 +1,16 @@
 // App.tsx
 // ═══════════════════════════════════════════════════════════════
 // Main application shell — orchestration only.
+// v5.12 — 2026-03-07 — Restore confirmation names every language version restored / deleted
+// v5.11 — 2026-03-07 — Hidden chart export containers removed (DOCX charts come from chartSvgService)
+// v5.10 — 2026-03-07 — DOCX proposal import (DocxImportModal) from the dashboard and project toolbars
+// v5.9 — 2026-03-07 — XLIFF export / import (XliffModal) from the project toolbar
+// v5.8 — 2026-03-07 — Translation glossary: GlossaryModal opened from the project toolbar
+// v5.7 — 2026-03-07 — Language registry: language state is any registered LanguageCode, UI text via getText()
+// v5.6 — 2026-03-07 — AI suggestions: pass aiSuggestions + accept/reject handlers to ProjectDisplay
+// v5.5 — 2026-03-07 — Version history: restore (with confirmation) + named snapshots in ProjectListModal
+// v5.4 — 2026-03-07 — Streaming: pass streamPreview to ProjectDisplay
+// v5.3 — 2026-03-07 — Quality gates: pass qualityReport + onDismissQualityReport to ProjectDisplay
 // v5.2 — 2026-03-06 — EO-039: Pass onFieldAIGenerate to ProjectDisplay
 // v5.1 - Undo/Redo gumbi + Ctrl+Z/Y + Clone handler (EO-037, EO-038)
 // v5.2 — 2026-03-06 — EO-039: Pass onFieldAIGenerate to ProjectDisplay 
@@ -33,9 +43,6 @@
 import React, { useState, useMemo, useEffect } from 'react';
 import ProjectDisplay from './components/ProjectDisplay.tsx';
 import PrintLayout from './components/PrintLayout.tsx';
-import GanttChart from './components/GanttChart.tsx';
-import PERTChart from './components/PERTChart.tsx';
-import Organigram from './components/Organigram.tsx';
 import ConfirmationModal from './components/ConfirmationModal.tsx';
 import AuthScreen from './components/AuthScreen.tsx';
 import AdminPanel from './components/AdminPanel.tsx';
@@ -45,11 +52,15 @@ import DashboardPanel from './components/DashboardPanel.tsx';
 import DashboardHome from './components/DashboardHome.tsx';
 import Sidebar from './components/Sidebar.tsx';
 import SummaryModal from './components/SummaryModal.tsx';
+import GlossaryModal from './components/GlossaryModal.tsx';
+import XliffModal from './components/XliffModal.tsx';
+import DocxImportModal from './components/DocxImportModal.tsx';
 import { useAdmin } from './hooks/useAdmin.ts';
 import { useOrganization } from './hooks/useOrganization.ts';
 import { ensureGlobalInstructionsLoaded } from './services/globalInstructionsService.ts';
 import { ICONS, getSteps, BRAND_ASSETS } from './constants.tsx';
-import { TEXT } from './locales.ts';
+import { getText } from './locales.ts';
+import type { LanguageCode } from './languages.ts';
 import { isStepCompleted } from './utils.ts';
 import { colors as lightColors, darkColors, shadows, radii, spacing, animation, typography } from './design/theme.ts';
 import { initTheme, getThemeMode, onThemeChange } from './services/themeService.ts';
@@ -104,8 +115,8 @@ const ToolbarSeparator = ({ colors: c }: { colors: ColorScheme }) => (
   <div style={{ width: 1, height: 24, background: c.border.light, margin: `0 ${spacing.xs}`, flexShrink: 0 }} />
 );
 
-const ApiWarningBanner = ({ onDismiss, onOpenSettings, language }: { onDismiss: () => void; onOpenSettings: () => void; language: 'en' | 'si'; }) => {
-  const t = TEXT[language || 'en'].auth;
+const ApiWarningBanner = ({ onDismiss, onOpenSettings, language }: { onDismiss: () => void; onOpenSettings: () => void; language: LanguageCode; }) => {
+  const t = getText(language).auth;
   return (
     <div className="bg-amber-100 border-b border-amber-200 text-amber-800 px-4 py-2 text-sm flex justify-between items-center z-[100] relative print:hidden">
       <div className="flex items-center gap-2">
@@ -129,13 +140,16 @@ const ApiWarningBanner = ({ onDismiss, onOpenSettings, language }: { onDismiss:
 /* ═══ MAIN APP COMPONENT ═══ */
 
 const App = () => {
-  const [language, setLanguage] = useState<'en' | 'si'>('en');
+  const [language, setLanguage] = useState<LanguageCode>('en');
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [adminPanelInitialTab, setAdminPanelInitialTab] = useState<string | undefined>(undefined);
   const [isProjectListOpen, setIsProjectListOpen] = useState(false);
   const [isAdminPanelOpen, setIsAdminPanelOpen] = useState(false);
   const [isDashboardOpen, setIsDashboardOpen] = useState(false);
+  const [isGlossaryOpen, setIsGlossaryOpen] = useState(false);
+  const [isXliffOpen, setIsXliffOpen] = useState(false);
+  const [isDocxImportOpen, setIsDocxImportOpen] = useState(false);
   const [activeView, setActiveView] = useState<'dashboard' | 'project'>('dashboard');
   const adminHook = useAdmin();
   const orgHook = useOrganization();
@@ -237,7 +251,7 @@ const App = () => {
   }, [activeView]);
 
   /* ═══ DERIVED STATE ═══ */
-  const t = TEXT[language] || TEXT['en'];
+  const t = getText(language);
   const STEPS = getSteps(language);
   const completedStepsStatus = useMemo(() => STEPS.map((step) => isStepCompleted(pm.projectData, step.key)), [pm.projectData, language, STEPS]);
   const currentProjectMeta = pm.userProjects.find((p: any) => p.id === pm.currentProjectId);
@@ -292,6 +306,39 @@ const App = () => {
         generation.setError(e.message);
       }
     };
+    // ★ v5.5: Restore a saved project version (current state is auto-snapshotted first)
+    var handleRestoreVersionWrapped = async function(projectId: string, versionId: string) {
+      var plan = await pm.getRestoreLanguagePlan(projectId, versionId);
+      var restoredList = plan.restored.map(function(l) { return l.toUpperCase(); }).join(', ');
+      var removedList = plan.removed.map(function(l) { return l.toUpperCase(); }).join(', ');
+      setModalConfig({
+        isOpen: true,
+        title: language === 'si' ? 'Obnovi različico' : 'Restore Version',
+        message: (language === 'si'
+          ? 'Obnovim izbrano različico projekta v vseh jezikovnih različicah (' + restoredList + ')? Trenutno stanje bo pred tem samodejno shranjeno v zgodovino.'
+            + (removedList ? '\n\nJezikovne različice, ustvarjene po tej različici, bodo izbrisane: ' + removedList + '. Ostanejo v samodejnem posnetku trenutnega stanja.' : '')
+          : 'Restore the selected project version in all its language versions (' + restoredList + ')? The current state will be saved to the history first.'
+            + (removedList ? '\n\nLanguage versions created after this version will be deleted: ' + removedList + '. They stay in the automatic snapshot of the current state.' : '')),
+        confirmText: language === 'si' ? 'Obnovi' : 'Restore',
+        cancelText: language === 'si' ? 'Prekliči' : 'Cancel',
+        secondaryText: '',
+        onSecondary: null,
+        onConfirm: async function() {
+          closeModal();
+          try {
+            generation.setIsLoading(language === 'si' ? 'Obnavljam različico...' : 'Restoring version...');
+            await pm.handleRestoreVersion(projectId, versionId);
+            generation.setIsLoading(false);
+            setIsProjectListOpen(false);
+            setActiveView('project');
+          } catch (e: any) {
+            generation.setIsLoading(false);
+            generation.setError(e.message);
+          }
+        },
+        onCancel: function() { closeModal(); },
+      });
+    };
     // ★ EO-030: Delete confirmation for all remove operations
   var REMOVE_ITEM_LABELS = {
     en: {
@@ -405,7 +452,7 @@ const App = () => {
         <AdminPanel isOpen={isSettingsOpen} onClose={handleSettingsClose} language={language} initialTab="ai" />
         <AuthScreen
           onLoginSuccess={auth.handleLoginSuccess} language={language}
-          setLanguage={(lang: string) => setLanguage(lang as 'en' | 'si')}
+          setLanguage={(lang: string) => setLanguage(lang)}
           onOpenSettings={() => { setAdminPanelInitialTab('ai'); setIsSettingsOpen(true); }}
           needsMFAVerify={auth.needsMFAVerify} mfaFactorId={auth.mfaFactorId}
           onMFAVerified={auth.handleMFAVerified} onMFACancel={handleLogout}
@@ -426,6 +473,8 @@ const App = () => {
         projects={pm.userProjects} currentProjectId={pm.currentProjectId}
         onSelectProject={handleSwitchProjectAndClose} onCreateProject={handleCreateProjectAndClose}
         onDeleteProject={handleDeleteProjectWrapped} onCloneProject={handleCloneProjectWrapped}
+        onRestoreVersion={handleRestoreVersionWrapped} onCreateSnapshot={pm.handleCreateSnapshot}
+        currentData={{ ...pm.projectVersions, [language]: pm.projectData }}
         language={language}
       />
       <SummaryModal
@@ -434,6 +483,18 @@ const App = () => {
         onRegenerate={generation.runSummaryGeneration} onDownloadDocx={generation.handleDownloadSummaryDocx}
         language={language}
       />
+      <GlossaryModal
+        isOpen={isGlossaryOpen} onClose={() => setIsGlossaryOpen(false)}
+        projectId={pm.currentProjectId} language={language}
+      />
+      <XliffModal
+        isOpen={isXliffOpen} onClose={() => setIsXliffOpen(false)} language={language}
+        onExport={translation.handleExportXliff} onImport={translation.handleImportXliff}
+      />
+      <DocxImportModal
+        isOpen={isDocxImportOpen} onClose={() => setIsDocxImportOpen(false)} language={language}
+        onCreate={async (data, projectLanguage) => { await pm.handleImportProposal(data, projectLanguage); setActiveView('project'); }}
+      />
 
       {/* ═══ MAIN APP LAYOUT ═══ */}
       <div style={{
@@ -635,6 +696,10 @@ const App = () => {
                       <ICONS.IMPORT style={{ width: 20, height: 20 }} />
                       <input type="file" accept=".json" onChange={handleImportProject} style={{ display: 'none' }} />
                     </label>
+                    <ToolbarButton colors={colors} onClick={() => setIsDocxImportOpen(true)}
+                      title={language === 'si' ? 'Uvozi predlog iz DOCX' : 'Import proposal from DOCX'}
+                      icon={<svg style={{ width: 20, height: 20 }} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}><path strokeLinecap="round" strokeLinejoin="round" d="M19.5 14.25v-2.625a3.375 3.375 0 00-3.375-3.375h-1.5A1.125 1.125 0 0113.5 7.125v-1.5a3.375 3.375 0 00-3.375-3.375H8.25m6.75 12l-3 3m0 0l-3-3m3 3v-6m-1.5-9H5.625c-.621 0-1.125.504-1.125 1.125v17.25c0 .621.504 1.125 1.125 1.125h12.75c.621 0 1.125-.504 1.125-1.125V11.25a9 9 0 00-9-9z" /></svg>}
+                    />
                     {!isMobile && <ToolbarSeparator colors={colors} />}
                     {!isMobile && (
                       <ToolbarButton colors={colors} onClick={() => setIsProjectListOpen(true)}
@@ -676,6 +741,10 @@ const App = () => {
                       <ICONS.IMPORT style={{ width: 20, height: 20 }} />
                       <input ref={pm.importInputRef} type="file" accept=".json" onChange={handleImportProject} style={{ display: 'none' }} />
                     </label>
+                    <ToolbarButton colors={colors} onClick={() => setIsDocxImportOpen(true)}
+                      title={language === 'si' ? 'Uvozi predlog iz DOCX' : 'Import proposal from DOCX'}
+                      icon={<svg style={{ width: 20, height: 20 }} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}><path strokeLinecap="round" strokeLinejoin="round" d="M19.5 14.25v-2.625a3.375 3.375 0 00-3.375-3.375h-1.5A1.125 1.125 0 0113.5 7.125v-1.5a3.375 3.375 0 00-3.375-3.375H8.25m6.75 12l-3 3m0 0l-3-3m3 3v-6m-1.5-9H5.625c-.621 0-1.125.504-1.125 1.125v17.25c0 .621.504 1.125 1.125 1.125h12.75c.621 0 1.125-.504 1.125-1.125V11.25a9 9 0 00-9-9z" /></svg>}
+                    />
                     {!isMobile && (
                       <>
                         <ToolbarSeparator colors={colors} />
@@ -689,6 +758,14 @@ const App = () => {
                         <ToolbarButton colors={colors} onClick={handlePrint} title={t.print}
                           icon={<ICONS.PRINT style={{ width: 20, height: 20 }} />}
                         />
+                        <ToolbarButton colors={colors} onClick={() => setIsGlossaryOpen(true)}
+                          title={language === 'si' ? 'Glosar prevajanja' : 'Translation glossary'}
+                          icon={<svg style={{ width: 20, height: 20 }} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}><path strokeLinecap="round" strokeLinejoin="round" d="M12 6.042A8.967 8.967 0 006 3.75c-1.052 0-2.062.18-3 .512v14.25A8.987 8.987 0 016 18c2.305 0 4.408.867 6 2.292m0-14.25a8.966 8.966 0 016-2.292c1.052 0 2.062.18 3 .512v14.25A8.987 8.987 0 0018 18a8.967 8.967 0 00-6 2.292m0-14.25v14.25" /></svg>}
+                        />
+                        <ToolbarButton colors={colors} onClick={() => setIsXliffOpen(true)}
+                          title={language === 'si' ? 'XLIFF za prevajalce' : 'XLIFF for translators'}
+                          icon={<svg style={{ width: 20, height: 20 }} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}><path strokeLinecap="round" strokeLinejoin="round" d="M10.5 21l5.25-11.25L21 21m-9-3h7.5M3 5.621a48.474 48.474 0 016-.371m0 0c1.12 0 2.233.038 3.334.114M9 5.25V3m3.334 2.364C11.176 10.658 7.69 15.08 3 17.502m9.334-12.138c.896.061 1.785.147 2.666.257m-4.589 8.495a18.023 18.023 0 01-3.827-5.802" /></svg>}
+                        />
                       </>
                     )}
                   </>
@@ -731,6 +808,14 @@ const App = () => {
                   completedStepsStatus={completedStepsStatus}
                   onStepClick={(stepId: number) => pm.setCurrentStepId(stepId)}
                   onCancelGeneration={generation.cancelGeneration}
+                  qualityReport={generation.qualityReport}
+                  onDismissQualityReport={generation.clearQualityReport}
+                  streamPreview={generation.streamPreview}
+                  aiSuggestions={generation.aiSuggestions}
+                  onAcceptSuggestion={generation.acceptSuggestion}
+                  onRejectSuggestion={generation.rejectSuggestion}
+                  onAcceptAllSuggestions={generation.acceptAllSuggestions}
+                  onRejectAllSuggestions={generation.rejectAllSuggestions}
                   onOpenSettings={() => setIsSettingsOpen(true)}
               />
               )}
@@ -751,18 +836,6 @@ const App = () => {
       <div id="print-layout-container" style={{ display: 'none' }}>
         <PrintLayout projectData={pm.projectData} language={language} logo={auth.appLogo} />
       </div>
-      {/* ═══ HIDDEN EXPORT CONTAINERS ═══ */}
-      <div style={{ position: 'absolute', left: '-9999px', top: '-9999px', pointerEvents: 'none' }}>
-        <div id="gantt-chart-export" style={{ width: '2400px', background: 'white', padding: '20px', overflow: 'visible' }}>
-          <GanttChart activities={pm.projectData.activities} language={language} forceViewMode="project" containerWidth={2400} printMode={true} id="gantt-export" />
-        </div>
-        <div id="pert-chart-export" style={{ width: '1200px', background: 'white', padding: '20px' }}>
-          <PERTChart activities={pm.projectData.activities} language={language} forceViewMode={true} containerWidth={1200} printMode={true} />
-        </div>
-        <div id="organigram-export" style={{ width: '1000px', background: 'white', padding: '20px' }}>
-          <Organigram projectManagement={pm.projectData.projectManagement} activities={pm.projectData.activities} language={language} forceViewMode={true} containerWidth={1000} printMode={true} />
-        </div>
-      </div>
     </>
   );
 };
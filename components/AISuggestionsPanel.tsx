@@ -0,0 +1,228 @@
+// components/AISuggestionsPanel.tsx
+// v1.0 — 2026-03-07 — Inline review of staged AI suggestions (aiSuggestionService)
+//   - Accept all / Reject all + accept / reject per suggestion
+//   - Modified text shown as word-level diff, added / removed items as field lists
+// v1.1 — 2026-03-07 — Field changes reviewed next to the field
+//   - FieldSuggestionsProvider + FieldSuggestion: accept / reject under the edited field
+//   - Banner keeps Accept all / Reject all and lists only suggestions no field shows
+//     (added / removed items, numbers, fields on other steps)
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { formatFieldPath, type AISuggestion } from '../services/aiSuggestionService.ts';
+import type { LanguageCode } from '../languages.ts';
+
+interface AISuggestionsPanelProps {
+  suggestions: AISuggestion[];
+  language: LanguageCode;
+  onAccept: (key: string) => void;
+  onReject: (key: string) => void;
+  onAcceptAll: () => void;
+  onRejectAll: () => void;
+}
+
+interface FieldSuggestionsValue {
+  suggestions: AISuggestion[];
+  language: LanguageCode;
+  onAccept: (key: string) => void;
+  onReject: (key: string) => void;
+  inlineKeys: Record<string, number>;          // suggestion key → mounted fields showing it
+  registerInline: (key: string) => () => void;
+}
+
+const FieldSuggestionsContext = createContext<FieldSuggestionsValue | null>(null);
+
+export const FieldSuggestionsProvider: React.FC<{
+  suggestions: AISuggestion[];
+  language: LanguageCode;
+  onAccept: (key: string) => void;
+  onReject: (key: string) => void;
+  children: React.ReactNode;
+}> = ({ suggestions, language, onAccept, onReject, children }) => {
+  const [inlineKeys, setInlineKeys] = useState<Record<string, number>>({});
+
+  const registerInline = useCallback((key: string) => {
+    setInlineKeys((prev) => ({ ...prev, [key]: (prev[key] || 0) + 1 }));
+    return () => setInlineKeys((prev) => {
+      const { [key]: count, ...rest } = prev;
+      return count > 1 ? { ...rest, [key]: count - 1 } : rest;
+    });
+  }, []);
+
+  const value = useMemo(
+    () => ({ suggestions, language, onAccept, onReject, inlineKeys, registerInline }),
+    [suggestions, language, onAccept, onReject, inlineKeys, registerInline]
+  );
+  return <FieldSuggestionsContext.Provider value={value}>{children}</FieldSuggestionsContext.Provider>;
+};
+
+const TYPE_LABELS = {
+  added: { en: 'Add', si: 'Dodaj', className: 'bg-emerald-100 text-emerald-800' },
+  removed: { en: 'Remove', si: 'Odstrani', className: 'bg-red-100 text-red-800' },
+  modified: { en: 'Change', si: 'Spremeni', className: 'bg-amber-100 text-amber-800' },
+};
+
+const SuggestionBody: React.FC<{ suggestion: AISuggestion }> = ({ suggestion }) => {
+  if (suggestion.type === 'modified') {
+    const entry = suggestion.fields[0];
+    if (entry.words) {
+      return (
+        <p className="text-xs leading-relaxed text-slate-700 whitespace-pre-wrap break-words">
+          {entry.words.map((part, idx) => (
+            <span
+              key={idx}
+              className={
+                part.type === 'added'
+                  ? 'bg-emerald-100 text-emerald-900'
+                  : part.type === 'removed'
+                    ? 'bg-red-100 text-red-800 line-through'
+                    : ''
+              }
+            >
+              {part.text}
+            </span>
+          ))}
+        </p>
+      );
+    }
+    return (
+      <p className="text-xs leading-relaxed text-slate-700 break-words">
+        <span className="bg-red-100 text-red-800 line-through">{entry.oldValue}</span>
+        {' → '}
+        <span className="bg-emerald-100 text-emerald-900">{entry.newValue}</span>
+      </p>
+    );
+  }
+
+  return (
+    <ul className="text-xs leading-relaxed text-slate-700 space-y-0.5">
+      {suggestion.fields.map((f, idx) => (
+        <li key={idx} className="break-words">
+          {suggestion.fields.length > 1 && (
+            <span className="font-mono text-[10px] text-slate-400 mr-1">{f.label.slice(suggestion.label.length).replace(/^ › /, '')}</span>
+          )}
+          <span className={suggestion.type === 'added' ? 'bg-emerald-100 text-emerald-900' : 'bg-red-100 text-red-800 line-through'}>
+            {suggestion.type === 'added' ? f.newValue : f.oldValue}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+const SuggestionActions: React.FC<{ suggestionKey: string; language: LanguageCode; onAccept: (key: string) => void; onReject: (key: string) => void }> = ({
+  suggestionKey, language, onAccept, onReject
+}) => (
+  <>
+    <button
+      onClick={() => onAccept(suggestionKey)}
+      className="text-xs font-semibold text-emerald-700 hover:text-emerald-900 flex-shrink-0"
+      title={language === 'si' ? 'Sprejmi' : 'Accept'}
+    >
+      ✓ {language === 'si' ? 'Sprejmi' : 'Accept'}
+    </button>
+    <button
+      onClick={() => onReject(suggestionKey)}
+      className="text-xs font-semibold text-slate-500 hover:text-red-700 flex-shrink-0"
+      title={language === 'si' ? 'Zavrni' : 'Reject'}
+    >
+      ✕
+    </button>
+  </>
+);
+
+// Pending change of ONE field, rendered by the field itself (ProjectDisplay TextArea)
+export const FieldSuggestion: React.FC<{ path: (string | number)[] }> = ({ path }) => {
+  const ctx = useContext(FieldSuggestionsContext);
+  const fieldPath = formatFieldPath(path);
+  const suggestion = ctx?.suggestions.find((s) => s.type === 'modified' && s.path === fieldPath);
+  const registerInline = ctx?.registerInline;
+
+  useEffect(() => {
+    if (!suggestion || !registerInline) return;
+    return registerInline(suggestion.key);
+  }, [suggestion?.key, registerInline]);
+
+  if (!ctx || !suggestion) return null;
+
+  return (
+    <div className="mt-1.5 flex items-start gap-3 px-3 py-2 rounded-lg border border-indigo-200 bg-indigo-50 animate-fadeIn">
+      <span className={`text-[10px] font-bold uppercase rounded-full px-2 py-0.5 flex-shrink-0 mt-0.5 ${TYPE_LABELS.modified.className}`}>
+        {ctx.language === 'si' ? 'Predlog UI' : 'AI suggestion'}
+      </span>
+      <div className="flex-1 min-w-0">
+        <SuggestionBody suggestion={suggestion} />
+      </div>
+      <SuggestionActions suggestionKey={suggestion.key} language={ctx.language} onAccept={ctx.onAccept} onReject={ctx.onReject} />
+    </div>
+  );
+};
+
+const AISuggestionsPanel: React.FC<AISuggestionsPanelProps> = ({
+  suggestions, language, onAccept, onReject, onAcceptAll, onRejectAll
+}) => {
+  const inlineKeys = useContext(FieldSuggestionsContext)?.inlineKeys || {};
+  if (suggestions.length === 0) return null;
+
+  const inlineCount = suggestions.filter((s) => inlineKeys[s.key]).length;
+  const listed = suggestions.filter((s) => !inlineKeys[s.key]);
+
+  return (
+    <div className="mx-6 mt-4 mb-2 rounded-xl border border-indigo-200 bg-indigo-50 shadow-sm animate-fadeIn" role="region">
+      <div className="flex items-center gap-3 px-4 py-3 border-b border-indigo-100">
+        <span className="text-lg flex-shrink-0">✨</span>
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-semibold text-indigo-900">
+            {language === 'si'
+              ? `Predlogi UI: ${suggestions.length}`
+              : `AI suggestions: ${suggestions.length}`}
+          </p>
+          <p className="text-xs text-indigo-700">
+            {language === 'si'
+              ? 'UI bi spremenil obstoječo vsebino. Spremembe se shranijo šele, ko jih sprejmete.'
+              : 'The AI would change existing content. Nothing is saved until you accept it.'}
+            {inlineCount > 0 && (
+              <>
+                {' '}
+                {language === 'si'
+                  ? `Spremembe polj (${inlineCount}) so prikazane pod posameznim poljem.`
+                  : `Field changes (${inlineCount}) are shown below each field.`}
+              </>
+            )}
+          </p>
+        </div>
+        <button
+          onClick={onAcceptAll}
+          className="px-3 py-1.5 text-xs font-bold bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 active:scale-95 transition-all shadow-sm flex-shrink-0"
+        >
+          {language === 'si' ? 'Sprejmi vse' : 'Accept all'}
+        </button>
+        <button
+          onClick={onRejectAll}
+          className="px-3 py-1.5 text-xs font-bold bg-white text-slate-700 border border-slate-300 rounded-lg hover:bg-slate-50 active:scale-95 transition-all flex-shrink-0"
+        >
+          {language === 'si' ? 'Zavrni vse' : 'Reject all'}
+        </button>
+      </div>
+      {listed.length > 0 && (
+        <div className="max-h-96 overflow-y-auto divide-y divide-indigo-100">
+          {listed.map((s) => {
+            const typeLabel = TYPE_LABELS[s.type];
+            return (
+              <div key={s.key} className="flex items-start gap-3 px-4 py-2.5 bg-white/60">
+                <span className={`text-[10px] font-bold uppercase rounded-full px-2 py-0.5 flex-shrink-0 mt-0.5 ${typeLabel.className}`}>
+                  {language === 'si' ? typeLabel.si : typeLabel.en}
+                </span>
+                <div className="flex-1 min-w-0">
+                  <p className="text-[11px] font-mono text-slate-500 truncate mb-0.5" title={s.path}>{s.label}</p>
+                  <SuggestionBody suggestion={s} />
+                </div>
+                <SuggestionActions suggestionKey={s.key} language={language} onAccept={onAccept} onReject={onReject} />
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AISuggestionsPanel;
@@ -1,6 +1,8 @@
 // components/AdminPanel.tsx
 // ═══════════════════════════════════════════════════════════════
 // Unified Admin / Settings Panel
+// v5.4 - Local LLM provider (Ollama / OpenAI-compatible) in AI tab — base URL, API format, model discovery
+// v5.3 - Quality gate auto-retry toggle in AI tab
 // v5.2 - Web Search simplified — checkbox only, no Serper key (EO-042 fix)
 // v5.1 - Web Search settings in AI tab (EO-042) (REPLACED by v5.2)
 // v5.0 - Changelog Admin filtering (EO-033)
@@ -43,7 +45,7 @@ import { colors as lightColors, darkColors, shadows, radii, animation, typograph
 import { getThemeMode, onThemeChange } from '../services/themeService.ts';
 import { TEXT } from '../locales.ts';
 import { storageService } from '../services/storageService.ts';
-import { validateProviderKey, OPENROUTER_MODELS, GEMINI_MODELS, OPENAI_MODELS, RECOMMENDED_LIGHT_MODELS, getModelsForProvider, type AIProviderType } from '../services/aiProvider.ts';
+import { validateProviderKey, OPENROUTER_MODELS, GEMINI_MODELS, OPENAI_MODELS, RECOMMENDED_LIGHT_MODELS, getModelsForProvider, discoverLocalModels, getDefaultModel, LOCAL_DEFAULT_BASE_URLS, type AIProviderType, type LocalApiFormat } from '../services/aiProvider.ts';
 import {
   getFullInstructions, getDefaultInstructions, saveAppInstructions, resetAppInstructions,
   LANGUAGE_DIRECTIVES, LANGUAGE_MISMATCH_TEMPLATE, ACADEMIC_RIGOR_RULES, HUMANIZATION_RULES,
@@ -58,10 +60,11 @@ import { supabase } from '../services/supabaseClient.ts';
 import { knowledgeBaseService, type KBDocument } from '../services/knowledgeBaseService.ts';
 import { getAllGuideKeys, getFieldGuide, fetchGuideOverrides, saveGuideOverrides, invalidateGuideOverridesCache, buildGuideOverrideKey } from '../services/guideContent.ts';
 import { changelogService, TYPE_CONFIG, type ChangelogEntry, type VersionGroup } from '../services/changelogService.ts';
+import type { LanguageCode } from '../languages.ts';
 interface AdminPanelProps {
   isOpen: boolean;
   onClose: () => void;
-  language: 'en' | 'si';
+  language: LanguageCode;
   initialTab?: string;
 }
 
@@ -552,11 +555,17 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ isOpen, onClose, language, init
   const [geminiKey, setGeminiKey] = useState('');
   const [openRouterKey, setOpenRouterKey] = useState('');
   const [openaiKey, setOpenaiKey] = useState('');
+  const [localBaseUrl, setLocalBaseUrl] = useState('');
+  const [localApiKey, setLocalApiKey] = useState('');
+  const [localApiFormat, setLocalApiFormat] = useState<LocalApiFormat>('openai');
+  const [localModels, setLocalModels] = useState<{ id: string; name: string; description: string }[]>([]);
+  const [isDiscoveringModels, setIsDiscoveringModels] = useState(false);
   const [modelName, setModelName] = useState('');
   const [secondaryModelName, setSecondaryModelName] = useState('');
   const [isValidating, setIsValidating] = useState(false);
   const [settingsLoading, setSettingsLoading] = useState(false);
   const [webSearchEnabled, setWebSearchEnabled] = useState(false);
+  const [qualityAutoRetry, setQualityAutoRetry] = useState(false);
 
   const [customLogo, setCustomLogo] = useState<string | null>(null);
   const [newPassword, setNewPassword] = useState('');
@@ -979,11 +988,16 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ isOpen, onClose, language, init
       setGeminiKey(storageService.getApiKey() || '');
       setOpenRouterKey(storageService.getOpenRouterKey() || '');
       setOpenaiKey(storageService.getOpenAIKey() || '');
+      setLocalApiFormat(storageService.getLocalApiFormat());
+      setLocalBaseUrl(storageService.getLocalBaseUrl() || LOCAL_DEFAULT_BASE_URLS[storageService.getLocalApiFormat()]);
+      setLocalApiKey(storageService.getLocalApiKey() || '');
+      setLocalModels([]);
       const model = storageService.getCustomModel();
-      setModelName(model || (provider === 'gemini' ? 'gemini-3-pro-preview' : provider === 'openai' ? 'gpt-5.2' : 'deepseek/deepseek-v3.2'));
+      setModelName(model || getDefaultModel(provider));
       setSecondaryModelName(storageService.getSecondaryModel() || '');
       setCustomLogo(storageService.getCustomLogo());
       setWebSearchEnabled(storageService.getWebSearchEnabled());
+      setQualityAutoRetry(storageService.getQualityAutoRetryEnabled());
       setAppInstructions(JSON.parse(JSON.stringify(getFullInstructions())));
       setInstructionsChanged(false);
       try { const { totp } = await storageService.getMFAFactors(); setMfaFactors(totp.filter((f: any) => f.status === 'verified')); } catch { setMfaFactors([]); }
@@ -1121,9 +1135,24 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ isOpen, onClose, language, init
     if (provider === 'gemini') setModelName('gemini-3-pro-preview');
     else if (provider === 'openai') setModelName('gpt-5.2');
     else if (provider === 'openrouter') setModelName('deepseek/deepseek-v3.2');
+    else if (provider === 'local') setModelName(getDefaultModel('local'));
     setSecondaryModelName('');
   };
 
+  // ★ v5.4: Query the local endpoint for installed models
+  const handleDiscoverLocalModels = async () => {
+    setIsDiscoveringModels(true); setMessage(''); setIsError(false);
+    const models = await discoverLocalModels(localBaseUrl, localApiFormat, localApiKey);
+    setIsDiscoveringModels(false);
+    setLocalModels(models);
+    if (models.length === 0) {
+      setIsError(true);
+      setMessage(language === 'si' ? 'Lokalni stre\u017Enik ni dosegljiv ali nima name\u0161\u010Denih modelov.' : 'Local endpoint is unreachable or has no models installed.');
+    } else if (!models.some(m => m.id === modelName)) {
+      setModelName(models[0].id);
+    }
+  };
+
   const handleAISave = async () => {
     setIsValidating(true); setMessage(tAuth.validating || "Validating..."); setIsError(false);
     await storageService.setAIProvider(aiProvider);
@@ -1132,12 +1161,19 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ isOpen, onClose, language, init
     await storageService.setApiKey(geminiKey.trim());
     await storageService.setOpenRouterKey(openRouterKey.trim());
     await storageService.setOpenAIKey(openaiKey.trim());
+    await storageService.setLocalBaseUrl(localBaseUrl.trim());
+    await storageService.setLocalApiKey(localApiKey.trim());
+    await storageService.setLocalApiFormat(localApiFormat);
     await storageService.setWebSearchEnabled(webSearchEnabled);
-    const activeKey = aiProvider === 'gemini' ? geminiKey.trim() : aiProvider === 'openai' ? openaiKey.trim() : openRouterKey.trim();
+    await storageService.setQualityAutoRetryEnabled(qualityAutoRetry);
+    const activeKey = aiProvider === 'gemini' ? geminiKey.trim() : aiProvider === 'openai' ? openaiKey.trim() : aiProvider === 'local' ? localBaseUrl.trim() : openRouterKey.trim();
     if (activeKey === '') { setMessage(language === 'si' ? 'Nastavitve shranjene.' : 'Settings saved.'); setIsValidating(false); setTimeout(() => onClose(), 1000); return; }
-    const isValid = await validateProviderKey(aiProvider, activeKey);
+    // ★ v5.4: Local provider — validation checks the saved endpoint is reachable (key optional)
+    const isValid = await validateProviderKey(aiProvider, aiProvider === 'local' ? localApiKey.trim() : activeKey);
     setIsValidating(false);
-    if (isValid) { setMessage(language === 'si' ? 'API klju\u010D potrjen in shranjen!' : 'API Key validated and saved!'); setTimeout(() => onClose(), 1000); }
+    if (isValid && aiProvider === 'local') { setMessage(language === 'si' ? 'Lokalni stre\u017Enik dosegljiv, nastavitve shranjene!' : 'Local endpoint reachable, settings saved!'); setTimeout(() => onClose(), 1000); }
+    else if (isValid) { setMessage(language === 'si' ? 'API klju\u010D potrjen in shranjen!' : 'API Key validated and saved!'); setTimeout(() => onClose(), 1000); }
+    else if (aiProvider === 'local') { setIsError(true); setMessage(language === 'si' ? 'Lokalni stre\u017Enik ni dosegljiv ali nima name\u0161\u010Denih modelov.' : 'Local endpoint is unreachable or has no models installed.'); }
     else { setIsError(true); setMessage(tAuth.invalidKey || "Invalid API Key"); }
   };
 
@@ -1281,7 +1317,10 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ isOpen, onClose, language, init
   const totalSuperAdmins = admin.users.filter(u => u.role === 'superadmin').length;
   const instructionSections = Object.keys(t.instructions.sections) as (keyof typeof t.instructions.sections)[];
   const TAB_ICONS: Record<TabId, string> = { users: '\uD83D\uDC65', organizations: '\uD83C\uDFE2', statistics: '\uD83D\uDCCA', instructions: '\uD83D\uDCCB', guideEditor: '\uD83D\uDCD6', ai: '\uD83E\uDD16', profile: '\uD83D\uDC64', audit: '\uD83D\uDCDC', errors: '\uD83D\uDC1B', knowledge: '\uD83D\uDCDA', changelog: '\uD83D\uDCCB' };
-  const currentModels = aiProvider === 'gemini' ? GEMINI_MODELS : aiProvider === 'openai' ? OPENAI_MODELS : OPENROUTER_MODELS;
+  // ★ v5.4: Local models come from discovery — keep the saved model selectable even before discovery
+  const currentModels = aiProvider === 'gemini' ? GEMINI_MODELS : aiProvider === 'openai' ? OPENAI_MODELS : aiProvider === 'local'
+    ? [...localModels, ...[modelName, secondaryModelName].filter((id, idx, arr) => id && arr.indexOf(id) === idx && !localModels.some(m => m.id === id)).map(id => ({ id, name: id, description: '' }))]
+    : OPENROUTER_MODELS;
   const hasMFA = mfaFactors.length > 0;
 
   const inputStyle: React.CSSProperties = { width: '100%', padding: '10px 12px', border: `1px solid ${colors.border.light}`, borderRadius: radii.lg, fontSize: typography.fontSize.sm, color: colors.text.body, background: colors.surface.card, outline: 'none', transition: `border-color ${animation.duration.fast}`, fontFamily: typography.fontFamily.mono };
@@ -1910,7 +1949,7 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ isOpen, onClose, language, init
                                   var projCount = statsUserProjects[user.id] || 0;
                                   var settings = statsUserSettings[user.id];
                                   var provider = settings ? settings.ai_provider : '—';
-                                  var providerIcons = { gemini: '\uD83D\uDC8E', openai: '\uD83E\uDDE0', openrouter: '\uD83C\uDF10' };
+                                  var providerIcons = { gemini: '\uD83D\uDC8E', openai: '\uD83E\uDDE0', openrouter: '\uD83C\uDF10', local: '\uD83D\uDDA5\uFE0F' };
                                   return (
                                     <tr key={user.id} style={{ borderBottom: '1px solid ' + colors.border.light, background: rowDefaultBg }}
                                       onMouseEnter={function(e) { e.currentTarget.style.background = rowHoverBg; }}
@@ -2205,10 +2244,10 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ isOpen, onClose, language, init
             <div>
               <h3 style={{ color: colors.text.heading, fontSize: typography.fontSize.lg, fontWeight: typography.fontWeight.bold, margin: '0 0 16px' }}>{'\uD83E\uDD16'} {language === 'si' ? 'AI Ponudnik' : 'AI Provider'}</h3>
               <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))', gap: '12px', marginBottom: '20px' }}>
-                {(['gemini', 'openai', 'openrouter'] as AIProviderType[]).map((provider) => {
+                {(['gemini', 'openai', 'openrouter', 'local'] as AIProviderType[]).map((provider) => {
                   const isActive = aiProvider === provider;
-                  const names: Record<string, string> = { gemini: 'Google Gemini', openai: 'OpenAI (ChatGPT)', openrouter: 'OpenRouter' };
-                  const icons: Record<string, string> = { gemini: '\uD83D\uDC8E', openai: '\uD83E\uDDE0', openrouter: '\uD83C\uDF10' };
+                  const names: Record<string, string> = { gemini: 'Google Gemini', openai: 'OpenAI (ChatGPT)', openrouter: 'OpenRouter', local: language === 'si' ? 'Lokalni LLM (Ollama)' : 'Local LLM (Ollama)' };
+                  const icons: Record<string, string> = { gemini: '\uD83D\uDC8E', openai: '\uD83E\uDDE0', openrouter: '\uD83C\uDF10', local: '\uD83D\uDDA5\uFE0F' };
                   return (
                     <button key={provider} onClick={() => handleProviderChange(provider)} style={{ padding: '16px', borderRadius: radii.lg, cursor: 'pointer', textAlign: 'left', border: isActive ? `2px solid ${colors.primary[500]}` : `1px solid ${colors.border.light}`, background: isActive ? primaryBadgeBg : colors.surface.card }}>
                       <div style={{ fontSize: '24px', marginBottom: '8px' }}>{icons[provider]}</div>
@@ -2217,10 +2256,40 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ isOpen, onClose, language, init
                   );
                 })}
               </div>
-              <div style={{ marginBottom: '16px' }}>
-                <label style={labelStyle}>{aiProvider === 'gemini' ? 'Gemini' : aiProvider === 'openai' ? 'OpenAI' : 'OpenRouter'} API Key</label>
-                <input type="password" value={aiProvider === 'gemini' ? geminiKey : aiProvider === 'openai' ? openaiKey : openRouterKey} onChange={(e) => { if (aiProvider === 'gemini') setGeminiKey(e.target.value); else if (aiProvider === 'openai') setOpenaiKey(e.target.value); else setOpenRouterKey(e.target.value); }} placeholder={`Enter ${aiProvider} API key...`} style={inputStyle} />
-              </div>
+              {aiProvider === 'local' ? (
+                <div style={{ marginBottom: '16px' }}>
+                  {/* ★ v5.4: Local LLM endpoint — proposal text never leaves the partner's network */}
+                  <div style={{ marginBottom: '12px', padding: '8px 12px', borderRadius: radii.md, background: secondaryInfoBg, border: `1px solid ${secondaryInfoBorder}`, fontSize: typography.fontSize.xs, color: secondaryInfoText }}>
+                    {language === 'si'
+                      ? '\uD83D\uDD12 Besedilo projekta se po\u0161lje samo na va\u0161 stre\u017Enik (Ollama, LM Studio, vLLM, LiteLLM ...). Stre\u017Enik mora dovoliti CORS za ta izvor.'
+                      : '\uD83D\uDD12 Project text is sent only to your own server (Ollama, LM Studio, vLLM, LiteLLM ...). The server must allow CORS for this origin.'}
+                  </div>
+                  <label style={labelStyle}>{language === 'si' ? 'Format API' : 'API Format'}</label>
+                  <select value={localApiFormat} onChange={(e) => { const fmt = e.target.value as LocalApiFormat; if (localBaseUrl.trim() === '' || localBaseUrl.trim() === LOCAL_DEFAULT_BASE_URLS[localApiFormat]) setLocalBaseUrl(LOCAL_DEFAULT_BASE_URLS[fmt]); setLocalApiFormat(fmt); setLocalModels([]); }} style={{ ...inputStyle, fontFamily: typography.fontFamily.sans, marginBottom: '12px' }}>
+                    <option value="openai">{language === 'si' ? 'OpenAI zdru\u017Eljiv (/v1/chat/completions)' : 'OpenAI-compatible (/v1/chat/completions)'}</option>
+                    <option value="ollama">{language === 'si' ? 'Ollama (/api/chat)' : 'Ollama native (/api/chat)'}</option>
+                  </select>
+                  <label style={labelStyle}>{language === 'si' ? 'Osnovni URL' : 'Base URL'}</label>
+                  <div style={{ display: 'flex', gap: '8px', marginBottom: '12px' }}>
+                    <input type="text" value={localBaseUrl} onChange={(e) => { setLocalBaseUrl(e.target.value); setLocalModels([]); }} placeholder={LOCAL_DEFAULT_BASE_URLS[localApiFormat]} style={{ ...inputStyle, flex: 1 }} />
+                    <button type="button" onClick={handleDiscoverLocalModels} disabled={isDiscoveringModels || !localBaseUrl.trim()} style={{ padding: '8px 14px', borderRadius: radii.lg, border: `1px solid ${colors.border.light}`, background: colors.surface.card, color: colors.text.heading, cursor: isDiscoveringModels ? 'not-allowed' : 'pointer', fontSize: typography.fontSize.sm, fontWeight: typography.fontWeight.semibold, whiteSpace: 'nowrap' }}>
+                      {isDiscoveringModels ? (language === 'si' ? 'I\u0161\u010Dem...' : 'Discovering...') : (language === 'si' ? 'Poi\u0161\u010Di modele' : 'Discover models')}
+                    </button>
+                  </div>
+                  {localModels.length > 0 && (
+                    <div style={{ marginBottom: '12px', fontSize: typography.fontSize.xs, color: colors.text.muted }}>
+                      {language === 'si' ? `Najdenih modelov: ${localModels.length}` : `Models found: ${localModels.length}`}
+                    </div>
+                  )}
+                  <label style={labelStyle}>{language === 'si' ? 'API klju\u010D (neobvezno)' : 'API Key (optional)'}</label>
+                  <input type="password" value={localApiKey} onChange={(e) => setLocalApiKey(e.target.value)} placeholder={language === 'si' ? 'Samo \u010De stre\u017Enik zahteva avtentikacijo' : 'Only if the server requires authentication'} style={inputStyle} />
+                </div>
+              ) : (
+                <div style={{ marginBottom: '16px' }}>
+                  <label style={labelStyle}>{aiProvider === 'gemini' ? 'Gemini' : aiProvider === 'openai' ? 'OpenAI' : 'OpenRouter'} API Key</label>
+                  <input type="password" value={aiProvider === 'gemini' ? geminiKey : aiProvider === 'openai' ? openaiKey : openRouterKey} onChange={(e) => { if (aiProvider === 'gemini') setGeminiKey(e.target.value); else if (aiProvider === 'openai') setOpenaiKey(e.target.value); else setOpenRouterKey(e.target.value); }} placeholder={`Enter ${aiProvider} API key...`} style={inputStyle} />
+                </div>
+              )}
               <div style={{ marginBottom: '16px' }}>
                 <label style={labelStyle}>{language === 'si' ? 'Glavni model (generiranje vsebine)' : 'Primary Model (content generation)'}</label>
                 <select value={modelName} onChange={(e) => setModelName(e.target.value)} style={{ ...inputStyle, fontFamily: typography.fontFamily.body }}>
@@ -2228,10 +2297,10 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ isOpen, onClose, language, init
                 </select>
                 <div style={{ marginTop: '6px', padding: '8px 12px', borderRadius: radii.md, background: secondaryInfoBg, border: `1px solid ${secondaryInfoBorder}`, fontSize: typography.fontSize.xs, color: secondaryInfoText }}>
                   {language === 'si'
-                    ? `\uD83D\uDCA1 Priporo\u010Den: ${aiProvider === 'gemini' ? 'Gemini 2.5 Pro \u2014 najbolj\u0161i za kompleksno generiranje' : aiProvider === 'openai' ? 'GPT-5 Mini \u2014 odli\u010Dno razmerje cena/kvaliteta' : 'DeepSeek V3.2 \u2014 top open-source model'}`
-                    : `\uD83D\uDCA1 Recommended: ${aiProvider === 'gemini' ? 'Gemini 2.5 Pro \u2014 best for complex generation' : aiProvider === 'openai' ? 'GPT-5 Mini \u2014 great price/quality ratio' : 'DeepSeek V3.2 \u2014 top open-source model'}`}
+                    ? `\uD83D\uDCA1 Priporo\u010Den: ${aiProvider === 'gemini' ? 'Gemini 2.5 Pro \u2014 najbolj\u0161i za kompleksno generiranje' : aiProvider === 'openai' ? 'GPT-5 Mini \u2014 odli\u010Dno razmerje cena/kvaliteta' : aiProvider === 'local' ? 'Llama 3.1 8B ali ve\u010Dji \u2014 manj\u0161i modeli pogosto vrnejo neveljaven JSON' : 'DeepSeek V3.2 \u2014 top open-source model'}`
+                    : `\uD83D\uDCA1 Recommended: ${aiProvider === 'gemini' ? 'Gemini 2.5 Pro \u2014 best for complex generation' : aiProvider === 'openai' ? 'GPT-5 Mini \u2014 great price/quality ratio' : aiProvider === 'local' ? 'Llama 3.1 8B or larger \u2014 smaller models often return invalid JSON' : 'DeepSeek V3.2 \u2014 top open-source model'}`}
                   {(() => {
-                    const recommended: Record<string, string> = { gemini: 'gemini-2.5-pro', openai: 'gpt-5-mini', openrouter: 'deepseek/deepseek-v3.2' };
+                    const recommended: Record<string, string> = { gemini: 'gemini-2.5-pro', openai: 'gpt-5-mini', openrouter: 'deepseek/deepseek-v3.2', local: getDefaultModel('local') };
                     return modelName !== recommended[aiProvider] ? (
                       <button
                         type="button"
@@ -2299,6 +2368,11 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ isOpen, onClose, language, init
                     {webSearchEnabled ? (language === 'si' ? 'VKLOPLJENO' : 'ON') : (language === 'si' ? 'IZKLOPLJENO' : 'OFF')}
                   </span>
                 </div>
+                {webSearchEnabled && aiProvider === 'local' && (
+                  <div style={{ marginTop: '10px', padding: '8px 12px', borderRadius: radii.md, background: warningBadgeBg, border: '1px solid ' + warningBadgeBorder, color: warningBadgeText, fontSize: typography.fontSize.xs, fontWeight: typography.fontWeight.medium }}>
+                    {'\u26A0\uFE0F'} {language === 'si' ? 'Spletno iskanje ne deluje z lokalnim LLM ponudnikom.' : 'Web search is not supported with the local LLM provider.'}
+                  </div>
+                )}
                 {webSearchEnabled && aiProvider === 'openai' && (
                   <div style={{ marginTop: '10px', padding: '8px 12px', borderRadius: radii.md, background: warningBadgeBg, border: '1px solid ' + warningBadgeBorder, color: warningBadgeText, fontSize: typography.fontSize.xs, fontWeight: typography.fontWeight.medium }}>
                     {'\u26A0\uFE0F'} {language === 'si' ? 'Spletno iskanje ne deluje z direktnim OpenAI ponudnikom. Uporabite Gemini ali OpenRouter.' : 'Web search is not supported with direct OpenAI provider. Use Gemini or OpenRouter instead.'}
@@ -2306,6 +2380,30 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ isOpen, onClose, language, init
                 )}
               </div>
 
+              {/* ═══ QUALITY GATES ═══ ★ v5.3 */}
+              <div style={{ marginBottom: '20px', padding: '20px', borderRadius: radii.xl, background: colors.surface.card, border: '1px solid ' + colors.border.light }}>
+                <div style={{ display: 'flex', alignItems: 'center', gap: '10px', marginBottom: '16px' }}>
+                  <span style={{ fontSize: '22px' }}>{'\u2705'}</span>
+                  <div>
+                    <h4 style={{ color: colors.text.heading, fontSize: typography.fontSize.base, fontWeight: typography.fontWeight.bold, margin: 0 }}>
+                      {language === 'si' ? 'Preverjanje kakovosti' : 'Quality Gates'}
+                    </h4>
+                    <p style={{ color: colors.text.muted, fontSize: typography.fontSize.xs, margin: '2px 0 0' }}>
+                      {language === 'si'
+                        ? 'Vsak generiran razdelek se programsko preveri (citati, prepovedane fraze, merljivi kazalniki, datumi, prazna polja). Ob FATALNIH napakah lahko AI razdelek samodejno generira še enkrat.'
+                        : 'Every generated section is checked programmatically (citations, banned phrases, measurable indicators, dates, empty fields). On FATAL findings the AI can automatically regenerate the section once.'}
+                    </p>
+                  </div>
+                </div>
+                <label style={{ display: 'flex', alignItems: 'center', gap: '10px', cursor: 'pointer', padding: '12px 16px', borderRadius: radii.lg, border: '1px solid ' + colors.border.light }}>
+                  <input type="checkbox" checked={qualityAutoRetry} onChange={function(e) { setQualityAutoRetry(e.target.checked); }}
+                    style={{ width: '18px', height: '18px', cursor: 'pointer', accentColor: colors.primary[600] }} />
+                  <span style={{ fontSize: typography.fontSize.sm, fontWeight: typography.fontWeight.semibold, color: colors.text.heading }}>
+                    {language === 'si' ? 'Samodejno ponovi generiranje ob FATALNIH napakah' : 'Auto-retry generation on FATAL findings'}
+                  </span>
+                </label>
+              </div>
+
               {message && (<div style={{ padding: '10px 14px', borderRadius: radii.lg, marginBottom: '12px', background: isError ? errorBg : successBg, border: `1px solid ${isError ? errorBorder : successBorder}`, color: isError ? errorText : successText, fontSize: typography.fontSize.sm }}>{isError ? '\u274C' : '\u2705'} {message}</div>)}
               <button onClick={handleAISave} disabled={isValidating} style={{ padding: '10px 24px', borderRadius: radii.lg, border: 'none', background: colors.primary[600], color: '#fff', cursor: isValidating ? 'not-allowed' : 'pointer', fontSize: typography.fontSize.sm, fontWeight: typography.fontWeight.semibold, opacity: isValidating ? 0.7 : 1 }}>
                 {isValidating ? (language === 'si' ? 'Preverjam...' : 'Validating...') : (language === 'si' ? 'Shrani nastavitve' : 'Save Settings')}
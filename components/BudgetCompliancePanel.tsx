@@ -0,0 +1,192 @@
+// components/BudgetCompliancePanel.tsx
+// ═══════════════════════════════════════════════════════════════
+// Programme budget rules + compliance – v1.1 (2026-03-07)
+// ═══════════════════════════════════════════════════════════════
+// Finance sub-step: pick a programme preset (budgetRuleService),
+// adjust / disable / add rules, and see every violation with the
+// offending partner, WP and cost category.
+// ═══════════════════════════════════════════════════════════════
+
+import React, { useMemo, useState } from 'react';
+import {
+    BUDGET_RULE_PRESETS,
+    applyBudgetRulePreset,
+    createBudgetRule,
+    describeBudgetRule,
+    evaluateBudgetRules,
+    isBudgetRuleApplicable,
+    resolveRuleCategories,
+} from '../services/budgetRuleService.ts';
+import { getDirectCostDefs } from '../services/budgetService.ts';
+import type { BudgetRule, BudgetRuleType } from '../types.ts';
+
+const RULE_TYPE_LABEL: Record<BudgetRuleType, { en: string; si: string }> = {
+    indirectRate: { en: 'Indirect cost rate', si: 'Stopnja posrednih stroškov' },
+    maxShare: { en: 'Maximum share of a category', si: 'Največji delež kategorije' },
+    maxAmount: { en: 'Maximum amount of a category', si: 'Največji znesek kategorije' },
+    partnerShare: { en: 'Partner budget share', si: 'Delež partnerja v proračunu' },
+    costModels: { en: 'Allowed cost models', si: 'Dovoljene metode obračuna' },
+};
+
+const numberInput = 'w-20 p-1 rounded border border-slate-300 bg-white text-xs font-mono text-right';
+
+const BudgetCompliancePanel = ({ projectData, onUpdateData, language = 'en' }) => {
+    const si = language === 'si';
+    const lang = si ? 'si' : 'en';
+    const [newType, setNewType] = useState<BudgetRuleType>('maxShare');
+
+    const settings = projectData.budgetRules || { presetId: null, rules: [] };
+    const rules: BudgetRule[] = settings.rules || [];
+    const fundingModel = projectData.fundingModel || 'centralized';
+    const directCostDefs = getDirectCostDefs(fundingModel);
+    const preset = BUDGET_RULE_PRESETS.find(p => p.id === settings.presetId);
+
+    const report = useMemo(
+        () => evaluateBudgetRules(projectData, language),
+        [projectData.activities, projectData.partners, projectData.fundingModel, projectData.indirectCostSettings, projectData.budgetRules, language]
+    );
+
+    const handlePreset = (presetId: string) => {
+        if (rules.length > 0 && !confirm(si ? 'Obstoječa pravila bodo zamenjana. Nadaljujem?' : 'The current rules will be replaced. Continue?')) return;
+        onUpdateData(['budgetRules'], presetId ? applyBudgetRulePreset(presetId) : { presetId: null, rules: [] });
+    };
+
+    const updateRule = (index: number, field: keyof BudgetRule, value: any) =>
+        onUpdateData(['budgetRules', 'rules', index, field], value);
+
+    const handleAdd = () =>
+        onUpdateData(['budgetRules'], { presetId: settings.presetId || null, rules: [...rules, createBudgetRule(newType)] });
+
+    const handleRemove = (index: number) =>
+        onUpdateData(['budgetRules'], { ...settings, rules: rules.filter((_, i) => i !== index) });
+
+    const parseNum = (value: string): number => (value ? parseFloat(value) : 0);
+
+    const renderParams = (rule: BudgetRule, index: number) => {
+        const singleCategory = (rule.categories || []).length <= 1;
+        const categorySelect = (rule.type === 'maxShare' || rule.type === 'maxAmount') && singleCategory && (
+            <select
+                className="p-1 rounded border border-slate-300 bg-white text-xs max-w-[12rem]"
+                value={resolveRuleCategories(rule.categories, fundingModel)[0] || ''}
+                onChange={e => updateRule(index, 'categories', e.target.value ? [e.target.value] : [])}
+            >
+                <option value="">{si ? 'Vsi neposredni stroški' : 'All direct costs'}</option>
+                {directCostDefs.map(c => <option key={c.key} value={c.key}>{c[lang]}</option>)}
+            </select>
+        );
+        const scopeSelect = (rule.type === 'maxShare' || rule.type === 'maxAmount') && (
+            <select className="p-1 rounded border border-slate-300 bg-white text-xs" value={rule.scope || 'project'} onChange={e => updateRule(index, 'scope', e.target.value)}>
+                <option value="project">{si ? 'projekt' : 'project'}</option>
+                <option value="partner">{si ? 'na partnerja' : 'per partner'}</option>
+                <option value="wp">{si ? 'na DS' : 'per WP'}</option>
+            </select>
+        );
+        switch (rule.type) {
+            case 'indirectRate':
+            case 'maxShare':
+                return (
+                    <>
+                        {categorySelect}
+                        <label className="flex items-center gap-1">≤ <input type="number" min={0} step={0.5} className={numberInput} value={rule.percentage ?? ''} onChange={e => updateRule(index, 'percentage', parseNum(e.target.value))} /> %</label>
+                        {scopeSelect}
+                    </>
+                );
+            case 'maxAmount':
+                return (
+                    <>
+                        {categorySelect}
+                        <label className="flex items-center gap-1">≤ € <input type="number" min={0} className={numberInput + ' w-28'} value={rule.amount ?? ''} onChange={e => updateRule(index, 'amount', parseNum(e.target.value))} /></label>
+                        {scopeSelect}
+                    </>
+                );
+            case 'partnerShare':
+                return (
+                    <>
+                        <label className="flex items-center gap-1">min <input type="number" min={0} max={100} step={0.5} className={numberInput} value={rule.minPercentage ?? ''} onChange={e => updateRule(index, 'minPercentage', parseNum(e.target.value))} /> %</label>
+                        <label className="flex items-center gap-1">max <input type="number" min={0} max={100} step={0.5} className={numberInput} value={rule.maxPercentage ?? ''} onChange={e => updateRule(index, 'maxPercentage', parseNum(e.target.value))} /> %</label>
+                    </>
+                );
+            default:
+                return null;
+        }
+    };
+
+    return (
+        <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm mb-6">
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+                <h4 className="text-sm font-bold text-slate-700 uppercase tracking-wider">{si ? 'Pravila programa financiranja' : 'Funding programme rules'}</h4>
+                <label className="flex items-center gap-2 text-sm text-slate-600">
+                    {si ? 'Predloga' : 'Preset'}
+                    <select className="p-1.5 rounded border border-slate-300 bg-white text-sm" value={settings.presetId || ''} onChange={e => handlePreset(e.target.value)}>
+                        <option value="">{!settings.presetId && rules.length > 0 ? (si ? 'Lastna pravila' : 'Custom rules') : (si ? '— brez —' : '— none —')}</option>
+                        {BUDGET_RULE_PRESETS.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                    </select>
+                </label>
+            </div>
+            {preset && <p className="text-xs text-slate-500 mb-3">{preset.description[lang]}</p>}
+
+            {rules.length > 0 && (
+                <div className="space-y-1.5 mb-3">
+                    {rules.map((rule, index) => (
+                        <div key={rule.id} className={`flex flex-wrap items-center gap-2 py-1.5 px-3 rounded-lg border text-xs ${rule.enabled && isBudgetRuleApplicable(rule, fundingModel) ? 'border-slate-200 bg-slate-50' : 'border-slate-100 bg-white opacity-60'}`}>
+                            <input type="checkbox" checked={rule.enabled} onChange={e => updateRule(index, 'enabled', e.target.checked)} title={si ? 'Vključeno' : 'Enabled'} />
+                            <span className="flex-1 min-w-[14rem] text-slate-700">{describeBudgetRule(rule, fundingModel, language)}</span>
+                            {renderParams(rule, index)}
+                            <select
+                                className={`p-1 rounded border bg-white text-xs ${rule.severity === 'error' ? 'border-red-300 text-red-700' : 'border-amber-300 text-amber-700'}`}
+                                value={rule.severity}
+                                onChange={e => updateRule(index, 'severity', e.target.value)}
+                            >
+                                <option value="error">{si ? 'napaka' : 'error'}</option>
+                                <option value="warning">{si ? 'opozorilo' : 'warning'}</option>
+                            </select>
+                            <button onClick={() => handleRemove(index)} className="text-red-400 hover:text-red-600 text-xs font-bold px-1">✕</button>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <div className="flex items-center gap-2 text-xs text-slate-600 mb-4">
+                <select className="p-1 rounded border border-slate-300 bg-white text-xs" value={newType} onChange={e => setNewType(e.target.value as BudgetRuleType)}>
+                    {(Object.keys(RULE_TYPE_LABEL) as BudgetRuleType[]).map(type => <option key={type} value={type}>{RULE_TYPE_LABEL[type][lang]}</option>)}
+                </select>
+                <button onClick={handleAdd} className="px-2 py-1 font-semibold bg-sky-50 text-sky-700 border border-sky-200 rounded hover:bg-sky-100 transition-all">
+                    + {si ? 'Dodaj pravilo' : 'Add rule'}
+                </button>
+            </div>
+
+            {report.rulesEvaluated > 0 && (
+                report.violations.length === 0 ? (
+                    <div className="p-2.5 bg-emerald-50 border border-emerald-200 rounded-lg text-sm text-emerald-800 font-medium">
+                        {si ? `✓ Proračun ustreza vsem pravilom (${report.rulesEvaluated}).` : `✓ The budget meets all ${report.rulesEvaluated} rules.`}
+                    </div>
+                ) : (
+                    <div className="border border-slate-200 rounded-lg overflow-hidden">
+                        <div className="px-3 py-2 bg-slate-50 border-b border-slate-200 text-sm font-semibold text-slate-700">
+                            {si
+                                ? `${report.errorCount} napak, ${report.warningCount} opozoril`
+                                : `${report.errorCount} errors, ${report.warningCount} warnings`}
+                        </div>
+                        <ul className="max-h-72 overflow-y-auto divide-y divide-slate-100">
+                            {report.violations.map((v, i) => (
+                                <li key={i} className="flex items-start gap-2 px-3 py-2 text-xs">
+                                    <span className={`mt-0.5 px-1.5 py-0.5 rounded font-bold uppercase ${v.severity === 'error' ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-700'}`}>
+                                        {v.severity === 'error' ? (si ? 'napaka' : 'error') : (si ? 'opoz.' : 'warn')}
+                                    </span>
+                                    <span className="flex-1 text-slate-700">{v.message}</span>
+                                    <span className="flex flex-wrap gap-1 justify-end">
+                                        {v.partnerCode && <span className="px-1.5 py-0.5 rounded bg-indigo-50 text-indigo-700 font-semibold">{v.partnerCode}</span>}
+                                        {v.wpId && <span className="px-1.5 py-0.5 rounded bg-sky-50 text-sky-700 font-semibold">{v.wpId}</span>}
+                                        {v.category && <span className="px-1.5 py-0.5 rounded bg-green-50 text-green-700">{directCostDefs.find(c => c.key === v.category)?.[lang] || v.category}</span>}
+                                    </span>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )
+            )}
+        </div>
+    );
+};
+
+export default BudgetCompliancePanel;
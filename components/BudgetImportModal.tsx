@@ -0,0 +1,380 @@
+// components/BudgetImportModal.tsx
+// v1.0 — 2026-03-07 — XLSX budget import wizard (budgetImportService)
+//   - Step 1: choose file + sheet
+//   - Step 2: map columns (guessed from the header row)
+//   - Step 3: validation issues + preview of changed allocations → apply
+//   - Dark-mode: isDark + colors pattern
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { lightColors, darkColors, shadows, radii, spacing, typography } from '../design/theme.ts';
+import { getThemeMode, onThemeChange } from '../services/themeService.ts';
+import { readXlsx, columnLetter, type XlsxReadSheet, type XlsxValue } from '../services/xlsxService.ts';
+import {
+  BUDGET_IMPORT_FIELDS,
+  EMPTY_BUDGET_MAPPING,
+  guessBudgetMapping,
+  parseBudgetRows,
+  buildBudgetImport,
+  type BudgetImportMapping,
+  type BudgetImportField,
+} from '../services/budgetImportService.ts';
+import type { LanguageCode } from '../types.ts';
+
+interface BudgetImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectData: any;
+  language: LanguageCode;
+  onApply: (activities: any[]) => void;
+}
+
+type WizardStep = 'file' | 'map' | 'preview';
+
+const fmtEur = (n: number): string =>
+  '€' + n.toLocaleString('de-DE', { minimumFractionDigits: 0, maximumFractionDigits: 2 });
+
+const BudgetImportModal: React.FC<BudgetImportModalProps> = ({ isOpen, onClose, projectData, language, onApply }) => {
+  const [isDark, setIsDark] = useState(getThemeMode() === 'dark');
+  const [step, setStep] = useState<WizardStep>('file');
+  const [fileName, setFileName] = useState('');
+  const [sheets, setSheets] = useState<XlsxReadSheet[]>([]);
+  const [sheetIdx, setSheetIdx] = useState(0);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<BudgetImportMapping>(EMPTY_BUDGET_MAPPING);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  useEffect(() => {
+    const unsub = onThemeChange((m) => setIsDark(m === 'dark'));
+    return unsub;
+  }, []);
+  const colors = isDark ? darkColors : lightColors;
+  const si = language === 'si';
+
+  useEffect(() => {
+    if (isOpen) {
+      setStep('file');
+      setFileName('');
+      setSheets([]);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  const rows: XlsxValue[][] = sheets[sheetIdx]?.rows || [];
+  const columnCount = rows.slice(0, 50).reduce((max, r) => Math.max(max, r.length), 0);
+
+  // New file / sheet → guess the mapping from its first row
+  useEffect(() => {
+    const firstRow = sheets[sheetIdx]?.rows[0];
+    if (firstRow) setMapping(guessBudgetMapping(firstRow));
+  }, [sheets, sheetIdx]);
+
+  const parsed = useMemo(
+    () => (step === 'preview' ? parseBudgetRows(rows, mapping, projectData, { hasHeader, language }) : null),
+    [step, rows, mapping, projectData, hasHeader, language]
+  );
+  const result = useMemo(
+    () => (parsed ? buildBudgetImport(projectData, parsed.lines, language) : null),
+    [parsed, projectData, language]
+  );
+
+  if (!isOpen) return null;
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      const read = await readXlsx(await file.arrayBuffer());
+      const withData = read.filter((s) => s.rows.some((r) => r.some((v) => v !== null && v !== '')));
+      if (withData.length === 0) throw new Error(si ? 'Datoteka ne vsebuje podatkov.' : 'The file contains no data.');
+      setFileName(file.name);
+      setSheets(withData);
+      setSheetIdx(0);
+      setStep('map');
+    } catch (e: any) {
+      console.error('[BudgetImport] Could not read file:', e);
+      setError(si ? `Datoteke ni mogoče prebrati: ${e.message}` : `Could not read the file: ${e.message}`);
+    }
+  };
+
+  const columnLabel = (idx: number): string => {
+    const head = hasHeader && rows[0] ? rows[0][idx] : null;
+    return head !== null && head !== undefined && String(head).trim()
+      ? `${columnLetter(idx)} — ${String(head).trim()}`
+      : columnLetter(idx);
+  };
+
+  const missingRequired = BUDGET_IMPORT_FIELDS.filter((f) => f.required && mapping[f.field] < 0);
+  const hasValueColumn = mapping.hours >= 0 || mapping.pm >= 0 || (mapping.category >= 0 && mapping.amount >= 0);
+  const errors = parsed ? parsed.issues.filter((i) => i.severity === 'error') : [];
+  const warnings = parsed ? parsed.issues.filter((i) => i.severity === 'warning') : [];
+
+  const selectStyle: React.CSSProperties = {
+    fontSize: typography.fontSize.xs,
+    padding: '6px 8px',
+    borderRadius: radii.md,
+    border: `1px solid ${colors.border.light}`,
+    background: colors.surface.card,
+    color: colors.text.body,
+    fontFamily: 'inherit',
+  };
+
+  const buttonStyle = (primary: boolean, disabled: boolean = false): React.CSSProperties => ({
+    padding: `6px ${spacing.md}`,
+    background: primary ? colors.primary.gradient : 'transparent',
+    color: primary ? '#FFFFFF' : colors.text.body,
+    border: primary ? 'none' : `1px solid ${colors.border.light}`,
+    borderRadius: radii.md,
+    fontSize: typography.fontSize.xs,
+    fontWeight: typography.fontWeight.semibold,
+    cursor: disabled ? 'not-allowed' : 'pointer',
+    fontFamily: 'inherit',
+    opacity: disabled ? 0.5 : 1,
+  });
+
+  const cellStyle: React.CSSProperties = {
+    padding: '4px 8px',
+    borderBottom: `1px solid ${colors.border.light}`,
+    fontSize: typography.fontSize.xs,
+    color: colors.text.body,
+    textAlign: 'left',
+    whiteSpace: 'nowrap',
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 150,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: spacing.lg,
+        background: colors.surface.overlayBlur,
+        backdropFilter: 'blur(8px)',
+      }}
+      onClick={(e) => { if (e.target === e.currentTarget) onClose(); }}
+    >
+      <div style={{
+        background: colors.surface.card,
+        borderRadius: radii['2xl'],
+        boxShadow: shadows['2xl'],
+        maxWidth: 900,
+        width: '100%',
+        maxHeight: '90vh',
+        display: 'flex',
+        flexDirection: 'column',
+        overflow: 'hidden',
+        border: `1px solid ${colors.border.light}`,
+        fontFamily: typography.fontFamily.sans,
+      }}>
+        {/* Header */}
+        <div style={{
+          padding: `${spacing.lg} ${spacing['2xl']}`,
+          borderBottom: `1px solid ${colors.border.light}`,
+          background: colors.surface.sidebar,
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          flexShrink: 0,
+        }}>
+          <div>
+            <h3 style={{ margin: 0, fontSize: typography.fontSize.lg, fontWeight: typography.fontWeight.bold, color: colors.text.heading }}>
+              {si ? 'Uvoz proračuna iz XLSX' : 'Import budget from XLSX'}
+            </h3>
+            <p style={{ margin: '4px 0 0', fontSize: typography.fontSize.xs, color: colors.text.muted }}>
+              {step === 'file' && (si ? '1/3 — Izberite datoteko' : '1/3 — Choose a file')}
+              {step === 'map' && (si ? `2/3 — Povežite stolpce (${fileName})` : `2/3 — Map columns (${fileName})`)}
+              {step === 'preview' && (si ? '3/3 — Preverite spremembe' : '3/3 — Review changes')}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            style={{ padding: spacing.xs, border: 'none', background: 'transparent', color: colors.text.muted, cursor: 'pointer', display: 'flex' }}
+          >
+            <svg style={{ width: 22, height: 22 }} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Body */}
+        <div style={{ flex: 1, overflowY: 'auto', padding: `${spacing.lg} ${spacing['2xl']}` }} className="custom-scrollbar">
+          {error && (
+            <p style={{ margin: `0 0 ${spacing.md}`, fontSize: typography.fontSize.xs, color: isDark ? colors.error[200] : colors.error[700] }}>{error}</p>
+          )}
+
+          {step === 'file' && (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: spacing.md, alignItems: 'flex-start' }}>
+              <p style={{ margin: 0, fontSize: typography.fontSize.sm, color: colors.text.body }}>
+                {si
+                  ? 'Ena vrstica na partnerja in nalogo (ali na strošek): partner, naloga, ure ali osebni meseci, kategorija stroška, znesek.'
+                  : 'One row per partner and task (or per cost line): partner, task, hours or person-months, cost category, amount.'}
+              </p>
+              <button onClick={() => fileInputRef.current?.click()} style={buttonStyle(true)}>
+                {si ? 'Izberi .xlsx' : 'Choose .xlsx'}
+              </button>
+              <input ref={fileInputRef} type="file" accept=".xlsx" onChange={handleFile} style={{ display: 'none' }} />
+            </div>
+          )}
+
+          {step === 'map' && (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: spacing.md }}>
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: spacing.lg, alignItems: 'center' }}>
+                {sheets.length > 1 && (
+                  <label style={{ display: 'flex', alignItems: 'center', gap: spacing.sm, fontSize: typography.fontSize.xs, color: colors.text.body }}>
+                    {si ? 'List' : 'Sheet'}
+                    <select value={sheetIdx} onChange={(e) => setSheetIdx(Number(e.target.value))} style={selectStyle}>
+                      {sheets.map((s, i) => <option key={i} value={i}>{s.name}</option>)}
+                    </select>
+                  </label>
+                )}
+                <label style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: typography.fontSize.xs, color: colors.text.body, cursor: 'pointer' }}>
+                  <input type="checkbox" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} />
+                  {si ? 'Prva vrstica je glava' : 'First row is a header'}
+                </label>
+              </div>
+
+              <div style={{ display: 'grid', gridTemplateColumns: 'minmax(180px, 1fr) 2fr', gap: `${spacing.sm} ${spacing.lg}`, alignItems: 'center' }}>
+                {BUDGET_IMPORT_FIELDS.map((f) => (
+                  <React.Fragment key={f.field}>
+                    <span style={{ fontSize: typography.fontSize.xs, color: colors.text.heading, fontWeight: typography.fontWeight.medium }}>
+                      {si ? f.si : f.en}{f.required ? ' *' : ''}
+                    </span>
+                    <select
+                      value={mapping[f.field]}
+                      onChange={(e) => setMapping((prev) => ({ ...prev, [f.field as BudgetImportField]: Number(e.target.value) }))}
+                      style={selectStyle}
+                    >
+                      <option value={-1}>{si ? '— ni v datoteki —' : '— not in file —'}</option>
+                      {Array.from({ length: columnCount }, (_, idx) => (
+                        <option key={idx} value={idx}>{columnLabel(idx)}</option>
+                      ))}
+                    </select>
+                  </React.Fragment>
+                ))}
+              </div>
+
+              {/* First rows of the sheet */}
+              <div style={{ overflowX: 'auto', border: `1px solid ${colors.border.light}`, borderRadius: radii.md }}>
+                <table style={{ borderCollapse: 'collapse', width: '100%' }}>
+                  <tbody>
+                    {rows.slice(0, 6).map((r, rIdx) => (
+                      <tr key={rIdx} style={{ background: hasHeader && rIdx === 0 ? colors.surface.sidebar : 'transparent' }}>
+                        <td style={{ ...cellStyle, color: colors.text.muted }}>{rIdx + 1}</td>
+                        {Array.from({ length: columnCount }, (_, cIdx) => (
+                          <td key={cIdx} style={cellStyle}>{r[cIdx] === null || r[cIdx] === undefined ? '' : String(r[cIdx])}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {(missingRequired.length > 0 || !hasValueColumn) && (
+                <p style={{ margin: 0, fontSize: typography.fontSize.xs, color: isDark ? colors.warning[200] : colors.warning[700] }}>
+                  {missingRequired.length > 0
+                    ? (si ? 'Povežite obvezna polja (*).' : 'Map the required fields (*).')
+                    : (si ? 'Povežite ure, osebne mesece ali kategorijo + znesek.' : 'Map hours, person-months or category + amount.')}
+                </p>
+              )}
+            </div>
+          )}
+
+          {step === 'preview' && parsed && result && (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: spacing.md }}>
+              <p style={{ margin: 0, fontSize: typography.fontSize.sm, color: colors.text.body }}>
+                {si
+                  ? `${parsed.lines.length} veljavnih vrstic → ${result.changes.length} alokacij (${result.changes.filter((c) => c.isNew).length} novih). Alokacije, ki jih ni v datoteki, ostanejo nespremenjene.`
+                  : `${parsed.lines.length} valid rows → ${result.changes.length} allocations (${result.changes.filter((c) => c.isNew).length} new). Allocations not in the file stay unchanged.`}
+              </p>
+
+              {(errors.length > 0 || warnings.length > 0) && (
+                <ul style={{ margin: 0, paddingLeft: spacing.lg, fontSize: typography.fontSize.xs, maxHeight: 140, overflowY: 'auto' }}>
+                  {[...errors, ...warnings].map((issue, idx) => (
+                    <li key={idx} style={{ color: issue.severity === 'error' ? (isDark ? colors.error[200] : colors.error[700]) : (isDark ? colors.warning[200] : colors.warning[700]) }}>
+                      {si ? `Vrstica ${issue.rowNumber}: ` : `Row ${issue.rowNumber}: `}{issue.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {result.changes.length > 0 && (
+                <div style={{ overflowX: 'auto', border: `1px solid ${colors.border.light}`, borderRadius: radii.md }}>
+                  <table style={{ borderCollapse: 'collapse', width: '100%' }}>
+                    <thead>
+                      <tr style={{ background: colors.surface.sidebar }}>
+                        <th style={cellStyle}>{si ? 'Naloga' : 'Task'}</th>
+                        <th style={cellStyle}>Partner</th>
+                        <th style={{ ...cellStyle, textAlign: 'right' }}>{si ? 'OM' : 'PM'}</th>
+                        <th style={{ ...cellStyle, textAlign: 'right' }}>{si ? 'Neposredni stroški' : 'Direct costs'}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {result.changes.map((c, idx) => (
+                        <tr key={idx}>
+                          <td style={cellStyle}>{c.taskId}</td>
+                          <td style={cellStyle}>
+                            {c.partnerCode}
+                            {c.isNew && <span style={{ marginLeft: 6, color: isDark ? colors.success[200] : colors.success[700], fontWeight: typography.fontWeight.bold }}>{si ? 'NOVO' : 'NEW'}</span>}
+                          </td>
+                          <td style={{ ...cellStyle, textAlign: 'right', fontFamily: typography.fontFamily.mono }}>
+                            {c.before ? `${c.before.pm} → ` : ''}{c.after.pm}
+                          </td>
+                          <td style={{ ...cellStyle, textAlign: 'right', fontFamily: typography.fontFamily.mono }}>
+                            {c.before ? `${fmtEur(c.before.directTotal)} → ` : ''}{fmtEur(c.after.directTotal)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div style={{
+          padding: `${spacing.md} ${spacing['2xl']}`,
+          borderTop: `1px solid ${colors.border.light}`,
+          display: 'flex',
+          justifyContent: 'space-between',
+          gap: spacing.sm,
+          flexShrink: 0,
+        }}>
+          <button
+            onClick={() => setStep(step === 'preview' ? 'map' : 'file')}
+            disabled={step === 'file'}
+            style={buttonStyle(false, step === 'file')}
+          >
+            {si ? 'Nazaj' : 'Back'}
+          </button>
+          {step === 'map' && (
+            <button
+              onClick={() => setStep('preview')}
+              disabled={missingRequired.length > 0 || !hasValueColumn}
+              style={buttonStyle(true, missingRequired.length > 0 || !hasValueColumn)}
+            >
+              {si ? 'Preveri' : 'Validate'}
+            </button>
+          )}
+          {step === 'preview' && result && (
+            <button
+              onClick={() => { onApply(result.activities); onClose(); }}
+              disabled={result.changes.length === 0}
+              style={buttonStyle(true, result.changes.length === 0)}
+            >
+              {errors.length > 0
+                ? (si ? `Uvozi (${errors.length} vrstic z napako preskočenih)` : `Import (${errors.length} rows with errors skipped)`)
+                : (si ? 'Uvozi' : 'Import')}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BudgetImportModal;
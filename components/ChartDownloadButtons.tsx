@@ -0,0 +1,56 @@
+// components/ChartDownloadButtons.tsx
+// ═══════════════════════════════════════════════════════════════
+// Per-chart download (SVG / PNG at a chosen DPI) – v1.0 (2026-03-07)
+// ═══════════════════════════════════════════════════════════════
+// Renders the chart from project data with chartSvgService, so the
+// file is the same regardless of scroll position or zoom of the
+// on-screen chart.
+// ═══════════════════════════════════════════════════════════════
+
+import React, { useState } from 'react';
+import { renderChartSvg, downloadChartSvg, downloadChartPng, type ChartKind } from '../services/chartSvgService.ts';
+import { getActiveBaseline } from '../services/scheduleBaselineService.ts';
+
+const DPI_OPTIONS = [96, 150, 300];
+
+const ChartDownloadButtons = ({ kind, projectData, language = 'en' }: { kind: ChartKind; projectData: any; language?: string }) => {
+    const si = language === 'si';
+    const [dpi, setDpi] = useState(150);
+    const [busy, setBusy] = useState(false);
+
+    const render = () => renderChartSvg(kind, projectData, language, { baseline: getActiveBaseline(projectData) });
+    const baseName = `${(projectData.projectIdea?.projectAcronym || '').trim() || 'project'}-${kind}`.replace(/[^\w\-]+/g, '_');
+
+    const handleSvg = () => {
+        const chart = render();
+        if (chart) downloadChartSvg(chart, `${baseName}.svg`);
+    };
+
+    const handlePng = async () => {
+        const chart = render();
+        if (!chart) return;
+        setBusy(true);
+        try {
+            await downloadChartPng(chart, `${baseName}-${dpi}dpi.png`, dpi);
+        } catch (e: any) {
+            alert((si ? 'Izvoz PNG ni uspel: ' : 'PNG export failed: ') + e.message);
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const buttonClass = 'px-2.5 py-1 font-semibold text-slate-700 bg-white border border-slate-300 rounded hover:bg-slate-50 disabled:opacity-50 transition-colors';
+
+    return (
+        <div className="flex items-center gap-1.5 text-xs text-slate-600">
+            <span>{si ? 'Prenos' : 'Download'}:</span>
+            <button onClick={handleSvg} className={buttonClass}>SVG</button>
+            <button onClick={handlePng} disabled={busy} className={buttonClass}>PNG</button>
+            <select className="p-1 rounded border border-slate-300 bg-white" value={dpi} onChange={e => setDpi(parseInt(e.target.value, 10))} title="DPI">
+                {DPI_OPTIONS.map(d => <option key={d} value={d}>{d} dpi</option>)}
+            </select>
+        </div>
+    );
+};
+
+export default ChartDownloadButtons;
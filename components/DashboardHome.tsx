@@ -67,11 +67,12 @@ import type { ExtractedChartData } from '../services/DataExtractionService.ts';
 import ChartRenderer from './ChartRenderer.tsx';
 import { ProgressRing as DesignProgressRing } from '../design/index.ts';
 import { supabase } from '../services/supabaseClient.ts';
+import type { LanguageCode } from '../languages.ts';
 
 // ——— Types ———————————————————————————————————————
 
 interface DashboardHomeProps {
-  language: 'en' | 'si';
+  language: LanguageCode;
   projectsMeta: any[];
   currentProjectId: string | null;
   projectData: any;
@@ -253,7 +254,7 @@ const LocalProgressRing: React.FC<{ percent: number; size?: number; strokeWidth?
 
 interface CardProps {
   id: CardId; title: string; icon: string; children: React.ReactNode;
-  isDark: boolean; colors: any; colSpan: number; language: 'en' | 'si';
+  isDark: boolean; colors: any; colSpan: number; language: LanguageCode;
   gridCols: number;
   onResize: (id: CardId, span: number) => void;
   dragHandlers: { onDragStart: (e: React.DragEvent, id: CardId) => void; onDragOver: (e: React.DragEvent) => void; onDrop: (e: React.DragEvent, id: CardId) => void; onDragEnd: () => void; };
@@ -292,7 +293,7 @@ const DropZone: React.FC<{ index: number; isDark: boolean; colors: any; dragging
 // ——— Project Charts Card — v6.2 — acronyms preloaded + auto-load first ————————
 
 const ProjectChartsCard: React.FC<{
-  language: 'en' | 'si'; isDark: boolean; colors: any; colSpan: number;
+  language: LanguageCode; isDark: boolean; colors: any; colSpan: number;
   projectsMeta: any[]; projectData: any;
   currentProjectId: string | null;
   onOpenProject: (projectId: string) => void;
@@ -630,7 +631,7 @@ interface EmailModalProps {
   recipientEmail: string;
   orgName: string;
   senderName: string;
-  language: 'en' | 'si';
+  language: LanguageCode;
   isDarkMode: boolean;
 }
 
@@ -877,7 +878,7 @@ const EmailModal: React.FC<EmailModalProps> = ({
 // ═══════════════════════════════════════════════════════════════
 
 const OrganizationCard: React.FC<{
-  language: 'en' | 'si';
+  language: LanguageCode;
   isDark: boolean;
   colors: any;
   activeOrg: any;
@@ -1256,7 +1257,7 @@ const OrganizationCard: React.FC<{
 };
 // ——— AI Chatbot — v7.1 — selectable text, copy, regenerate, rating, sources, links ————————
 
-const AIChatbot: React.FC<{ language: 'en' | 'si'; isDark: boolean; colors: any; activeOrg: any | null; projectData: any }> = ({ language, isDark, colors: c, activeOrg, projectData }) => {
+const AIChatbot: React.FC<{ language: LanguageCode; isDark: boolean; colors: any; activeOrg: any | null; projectData: any }> = ({ language, isDark, colors: c, activeOrg, projectData }) => {
   const [conversations, setConversations] = useState<ChatConversation[]>(() => { try { const s = localStorage.getItem(CHAT_STORAGE_KEY); return s ? JSON.parse(s) : []; } catch { return []; } });
   const [activeConvoId, setActiveConvoId] = useState<string | null>(() => conversations[0]?.id || null);
   const [input, setInput] = useState('');
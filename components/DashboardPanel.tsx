@@ -1,6 +1,7 @@
 // components/DashboardPanel.tsx
 // ═══════════════════════════════════════════════════════════════
 // Persistent right-side dashboard panel
+// v2.5 — 2026-03-07 — Funding block: requested EU contribution / co-financing per partner and WP
 // v2.4 — 2026-02-24 — DEFENSIVE ARRAY HANDLING
 //   ★ v2.4: NEW safeArray() utility — handles AI returning objects
 //           instead of arrays (e.g. { objectives: [...] } vs [...])
@@ -17,12 +18,14 @@ import { theme } from '../design/theme.ts';
 import { getThemeMode, onThemeChange } from '../services/themeService.ts';
 import { ProgressRing } from '../design/index.ts';
 import { colors as lightColors, darkColors, shadows, radii, spacing, animation, typography, zIndex } from '../design/theme.ts';
+import type { LanguageCode } from '../languages.ts';
+import { computeFundingSummary } from '../services/budgetService.ts';
 
 // ─── Props ───────────────────────────────────────────────────
 
 interface DashboardPanelProps {
   projectData: any;
-  language: 'en' | 'si';
+  language: LanguageCode;
   onCollapseChange?: (collapsed: boolean) => void;
 }
 
@@ -278,6 +281,7 @@ const DashboardPanel: React.FC<DashboardPanelProps> = ({
 
   const completeness = useMemo(() => calculateCompleteness(projectData), [projectData]);
   const structuralCharts = useMemo(() => extractStructuralData(projectData, language), [projectData, language]);
+  const funding = useMemo(() => computeFundingSummary(projectData), [projectData]);
 
   const orderedStats = useMemo(() => {
     return statOrder.map(id => STAT_DEFINITIONS.find(s => s.id === id)).filter(Boolean) as StatItem[];
@@ -406,6 +410,39 @@ const DashboardPanel: React.FC<DashboardPanelProps> = ({
               {pi?.startDate && <span>{pi.startDate}</span>}
             </div>
           </div>
+          {/* Funding request */}
+          {funding.total > 0 && (
+            <div style={{ marginBottom: 16 }}>
+              <p style={{ fontSize: '11px', fontWeight: 600, color: isDark ? '#8080a0' : theme.colors.text.muted, textTransform: 'uppercase', letterSpacing: '0.05em', margin: '0 0 8px' }}>
+                {t ? 'Financiranje' : 'Funding'}
+              </p>
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 6, marginBottom: 8 }}>
+                {[
+                  { label: t ? 'EU prispevek' : 'EU contribution', value: funding.euContribution, color: theme.colors.primary[500] },
+                  { label: t ? 'Lastni delež' : 'Co-financing', value: funding.ownContribution, color: isDark ? '#c0c0d8' : theme.colors.text.body },
+                ].map(item => (
+                  <div key={item.label} style={{ padding: '6px 8px', borderRadius: theme.radii.md, backgroundColor: isDark ? '#25253a' : '#f8fafc' }}>
+                    <div style={{ fontSize: '10px', color: isDark ? '#8080a0' : theme.colors.text.muted }}>{item.label}</div>
+                    <div style={{ fontSize: '13px', fontWeight: 700, color: item.color }}>€{item.value.toLocaleString('de-DE')}</div>
+                  </div>
+                ))}
+              </div>
+              <div style={{ fontSize: '11px', color: isDark ? '#a0a0b8' : theme.colors.text.muted, marginBottom: 6 }}>
+                {t ? 'Skupaj' : 'Total'} €{funding.total.toLocaleString('de-DE')} · {Math.round(funding.effectiveRate * 10) / 10}%
+              </div>
+              {[funding.partners.filter(l => l.total > 0), funding.workPackages].map((lines, group) => (
+                <div key={group} style={{ borderTop: group > 0 ? `1px dashed ${isDark ? '#2d2d3f' : theme.colors.border.light}` : 'none', paddingTop: group > 0 ? 4 : 0, marginTop: group > 0 ? 4 : 0 }}>
+                  {lines.map(line => (
+                    <div key={line.id} title={line.title} style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: '11px', padding: '3px 0', color: isDark ? '#c0c0d8' : theme.colors.text.body }}>
+                      <span style={{ fontWeight: 700, minWidth: 40 }}>{line.code}</span>
+                      <span style={{ flex: 1, textAlign: 'right', fontFamily: 'monospace' }}>€{line.euContribution.toLocaleString('de-DE')}</span>
+                      <span style={{ width: 72, textAlign: 'right', fontFamily: 'monospace', color: isDark ? '#8080a0' : theme.colors.text.muted }}>€{line.ownContribution.toLocaleString('de-DE')}</span>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
           {/* Stats grid — draggable */}
           <div style={{ marginBottom: 16 }}>
             <p style={{ fontSize: '11px', fontWeight: 600, color: isDark ? '#8080a0' : theme.colors.text.muted, textTransform: 'uppercase', letterSpacing: '0.05em', margin: '0 0 8px' }}>
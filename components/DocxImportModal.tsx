@@ -0,0 +1,362 @@
+// components/DocxImportModal.tsx
+// v1.0 — 2026-03-07 — DOCX proposal import (docxImportService + mapProposalToProjectData)
+//   - Step 1: choose .docx → text extracted by heading
+//   - Step 2: AI maps the text onto the project sections
+//   - Step 3: review — per section: source headings, preview, include / skip
+//   - Creates a new project (onCreate → useProjectManager.handleImportProposal)
+//   - Dark-mode: isDark + colors pattern
+import React, { useState, useEffect, useRef } from 'react';
+import { lightColors, darkColors, shadows, radii, spacing, typography } from '../design/theme.ts';
+import { getThemeMode, onThemeChange } from '../services/themeService.ts';
+import {
+  extractDocxSections,
+  buildProposalText,
+  buildImportedProjectData,
+  hasMappedContent,
+  PROPOSAL_SECTIONS,
+  type DocxSection,
+  type ProposalMapping,
+  type ProposalSectionKey,
+} from '../services/docxImportService.ts';
+import { mapProposalToProjectData } from '../services/geminiService.ts';
+import { detectTextLanguage } from '../utils.ts';
+import { SUPPORTED_LANGUAGES, getLanguageNativeName } from '../languages.ts';
+import type { LanguageCode } from '../types.ts';
+
+interface DocxImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  language: LanguageCode;
+  onCreate: (data: any, projectLanguage: LanguageCode) => Promise<void>;
+}
+
+type WizardStep = 'file' | 'mapping' | 'review';
+
+const truncate = (s: string, max: number): string => (s && s.length > max ? s.slice(0, max) + '…' : s || '');
+
+// Short human-readable preview of one mapped section
+const previewLines = (key: ProposalSectionKey, value: any): string[] => {
+  if (!value) return [];
+  switch (key) {
+    case 'problemAnalysis':
+      return [
+        truncate(value.coreProblem?.title || value.coreProblem?.description || '', 120),
+        ...(value.causes || []).map((c: any) => '↳ ' + truncate(c.title, 80)),
+        ...(value.consequences || []).map((c: any) => '↱ ' + truncate(c.title, 80)),
+      ].filter((l) => l.replace(/[↳↱\s]/g, ''));
+    case 'projectIdea':
+      return [
+        [value.projectAcronym, value.projectTitle].filter(Boolean).join(' — '),
+        truncate(value.mainAim || '', 200),
+      ].filter(Boolean);
+    case 'activities':
+      return value.map((wp: any) => `${wp.id}: ${wp.title} (${(wp.tasks || []).length} / ${(wp.milestones || []).length} / ${(wp.deliverables || []).length})`);
+    default:
+      return Array.isArray(value) ? value.map((item: any) => truncate(item.title || item.description || '', 120)).filter(Boolean) : [];
+  }
+};
+
+const DocxImportModal: React.FC<DocxImportModalProps> = ({ isOpen, onClose, language, onCreate }) => {
+  const [isDark, setIsDark] = useState(getThemeMode() === 'dark');
+  const [step, setStep] = useState<WizardStep>('file');
+  const [fileName, setFileName] = useState('');
+  const [sections, setSections] = useState<DocxSection[]>([]);
+  const [projectLanguage, setProjectLanguage] = useState<LanguageCode>(language);
+  const [mapping, setMapping] = useState<ProposalMapping | null>(null);
+  const [included, setIncluded] = useState<ProposalSectionKey[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  useEffect(() => {
+    const unsub = onThemeChange((m) => setIsDark(m === 'dark'));
+    return unsub;
+  }, []);
+  const colors = isDark ? darkColors : lightColors;
+  const si = language === 'si';
+
+  useEffect(() => {
+    if (isOpen) {
+      setStep('file');
+      setFileName('');
+      setSections([]);
+      setMapping(null);
+      setError(null);
+      setIsBusy(false);
+    }
+    return () => abortRef.current?.abort();
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const proposal = buildProposalText(sections);
+  const headingCount = sections.filter((s) => s.heading).length;
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      const extracted = await extractDocxSections(file);
+      if (!extracted.some((s) => s.text || s.heading)) throw new Error(si ? 'Dokument je prazen.' : 'The document is empty.');
+      const detected = detectTextLanguage(buildProposalText(extracted).text.slice(0, 5000));
+      setFileName(file.name);
+      setSections(extracted);
+      setProjectLanguage(detected !== 'unknown' ? detected : language);
+    } catch (e: any) {
+      console.error('[DocxImport] Could not read file:', e);
+      setError(si ? `Datoteke ni mogoče prebrati: ${e.message}` : `Could not read the file: ${e.message}`);
+    }
+  };
+
+  const handleMap = async () => {
+    setError(null);
+    setIsBusy(true);
+    setStep('mapping');
+    const controller = new AbortController();
+    abortRef.current = controller;
+    try {
+      const result = await mapProposalToProjectData(proposal.text, projectLanguage, controller.signal);
+      const mapped: ProposalMapping = { data: result.data, sources: result.sources };
+      setMapping(mapped);
+      setIncluded(PROPOSAL_SECTIONS.map((s) => s.key).filter((key) => hasMappedContent(mapped, key)));
+      setStep('review');
+    } catch (e: any) {
+      if (e?.name === 'AbortError') return;
+      console.error('[DocxImport] Mapping failed:', e);
+      setError(e?.message === 'MISSING_API_KEY'
+        ? (si ? 'Manjka API ključ — nastavite ga v Nastavitvah.' : 'API key missing — set it in Settings.')
+        : (si ? `Preslikava ni uspela: ${e.message}` : `Mapping failed: ${e.message}`));
+      setStep('file');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!mapping) return;
+    setError(null);
+    setIsBusy(true);
+    try {
+      await onCreate(buildImportedProjectData(mapping, included), projectLanguage);
+      onClose();
+    } catch (e: any) {
+      console.error('[DocxImport] Project creation failed:', e);
+      setError(si ? `Projekta ni mogoče ustvariti: ${e.message}` : `Could not create the project: ${e.message}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const toggleSection = (key: ProposalSectionKey) =>
+    setIncluded((prev) => (prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key]));
+
+  const selectStyle: React.CSSProperties = {
+    fontSize: typography.fontSize.xs,
+    padding: '6px 8px',
+    borderRadius: radii.md,
+    border: `1px solid ${colors.border.light}`,
+    background: colors.surface.card,
+    color: colors.text.body,
+    fontFamily: 'inherit',
+  };
+
+  const buttonStyle = (primary: boolean, disabled: boolean = false): React.CSSProperties => ({
+    padding: `6px ${spacing.md}`,
+    background: primary ? colors.primary.gradient : 'transparent',
+    color: primary ? '#FFFFFF' : colors.text.body,
+    border: primary ? 'none' : `1px solid ${colors.border.light}`,
+    borderRadius: radii.md,
+    fontSize: typography.fontSize.xs,
+    fontWeight: typography.fontWeight.semibold,
+    cursor: disabled ? 'not-allowed' : 'pointer',
+    fontFamily: 'inherit',
+    opacity: disabled ? 0.5 : 1,
+  });
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 150,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: spacing.lg,
+        background: colors.surface.overlayBlur,
+        backdropFilter: 'blur(8px)',
+      }}
+      onClick={(e) => { if (e.target === e.currentTarget && !isBusy) onClose(); }}
+    >
+      <div style={{
+        background: colors.surface.card,
+        borderRadius: radii['2xl'],
+        boxShadow: shadows['2xl'],
+        maxWidth: 820,
+        width: '100%',
+        maxHeight: '90vh',
+        display: 'flex',
+        flexDirection: 'column',
+        overflow: 'hidden',
+        border: `1px solid ${colors.border.light}`,
+        fontFamily: typography.fontFamily.sans,
+      }}>
+        {/* Header */}
+        <div style={{
+          padding: `${spacing.lg} ${spacing['2xl']}`,
+          borderBottom: `1px solid ${colors.border.light}`,
+          background: colors.surface.sidebar,
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          flexShrink: 0,
+        }}>
+          <div>
+            <h3 style={{ margin: 0, fontSize: typography.fontSize.lg, fontWeight: typography.fontWeight.bold, color: colors.text.heading }}>
+              {si ? 'Uvoz predloga iz Worda (DOCX)' : 'Import proposal from Word (DOCX)'}
+            </h3>
+            <p style={{ margin: '4px 0 0', fontSize: typography.fontSize.xs, color: colors.text.muted }}>
+              {step === 'file' && (si ? '1/3 — Izberite dokument' : '1/3 — Choose a document')}
+              {step === 'mapping' && (si ? `2/3 — UI razvršča vsebino (${fileName})` : `2/3 — AI is mapping the content (${fileName})`)}
+              {step === 'review' && (si ? `3/3 — Preglejte razvrstitev (${fileName})` : `3/3 — Review the mapping (${fileName})`)}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            style={{ padding: spacing.xs, border: 'none', background: 'transparent', color: colors.text.muted, cursor: 'pointer', display: 'flex' }}
+          >
+            <svg style={{ width: 22, height: 22 }} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Body */}
+        <div style={{ flex: 1, overflowY: 'auto', padding: `${spacing.lg} ${spacing['2xl']}` }} className="custom-scrollbar">
+          {error && (
+            <p style={{ margin: `0 0 ${spacing.md}`, fontSize: typography.fontSize.xs, color: isDark ? colors.error[200] : colors.error[700] }}>{error}</p>
+          )}
+
+          {step === 'file' && (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: spacing.md, alignItems: 'flex-start' }}>
+              <p style={{ margin: 0, fontSize: typography.fontSize.sm, color: colors.text.body }}>
+                {si
+                  ? 'Besedilo se razdeli po naslovih, nato ga UI razvrsti v analizo problemov, projektno idejo, cilje, delovne sklope, tveganja in KER. Pred ustvarjanjem projekta lahko vsak razdelek pregledate.'
+                  : 'The text is split by headings, then the AI sorts it into problem analysis, project idea, objectives, work packages, risks and KERs. You review every section before the project is created.'}
+              </p>
+              <button onClick={() => fileInputRef.current?.click()} style={buttonStyle(sections.length === 0)}>
+                {sections.length > 0 ? (si ? 'Drug dokument' : 'Other document') : (si ? 'Izberi .docx' : 'Choose .docx')}
+              </button>
+              <input ref={fileInputRef} type="file" accept=".docx" onChange={handleFile} style={{ display: 'none' }} />
+
+              {sections.length > 0 && (
+                <>
+                  <p style={{ margin: 0, fontSize: typography.fontSize.xs, color: colors.text.muted }}>
+                    {fileName}: {si ? `${headingCount} naslovov, ${proposal.text.length.toLocaleString()} znakov` : `${headingCount} headings, ${proposal.text.length.toLocaleString()} characters`}
+                  </p>
+                  {proposal.truncated && (
+                    <p style={{ margin: 0, fontSize: typography.fontSize.xs, color: isDark ? colors.warning[200] : colors.warning[700] }}>
+                      {si ? 'Dokument je predolg — upošteva se le začetni del.' : 'The document is too long — only the first part is used.'}
+                    </p>
+                  )}
+                  <ul style={{ margin: 0, paddingLeft: spacing.lg, fontSize: typography.fontSize.xs, color: colors.text.body, maxHeight: 180, overflowY: 'auto', width: '100%' }}>
+                    {sections.filter((s) => s.heading).map((s, idx) => (
+                      <li key={idx} style={{ marginLeft: (Math.min(s.level, 4) - 1) * 12 }}>{s.heading}</li>
+                    ))}
+                  </ul>
+                  <label style={{ display: 'flex', alignItems: 'center', gap: spacing.sm, fontSize: typography.fontSize.xs, color: colors.text.body }}>
+                    {si ? 'Jezik dokumenta' : 'Document language'}
+                    <select value={projectLanguage} onChange={(e) => setProjectLanguage(e.target.value)} style={selectStyle}>
+                      {SUPPORTED_LANGUAGES.map((code) => <option key={code} value={code}>{getLanguageNativeName(code)}</option>)}
+                    </select>
+                  </label>
+                </>
+              )}
+            </div>
+          )}
+
+          {step === 'mapping' && (
+            <p style={{ margin: 0, fontSize: typography.fontSize.sm, color: colors.text.body }}>
+              {si ? 'Razvrščanje vsebine … To lahko traja do minute.' : 'Mapping the content… This can take up to a minute.'}
+            </p>
+          )}
+
+          {step === 'review' && mapping && (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: spacing.md }}>
+              {PROPOSAL_SECTIONS.map((section) => {
+                const hasContent = hasMappedContent(mapping, section.key);
+                const sources = mapping.sources[section.key] || [];
+                const lines = previewLines(section.key, mapping.data[section.key]);
+                return (
+                  <div key={section.key} style={{
+                    border: `1px solid ${colors.border.light}`,
+                    borderRadius: radii.md,
+                    padding: `${spacing.sm} ${spacing.md}`,
+                    opacity: hasContent ? 1 : 0.6,
+                  }}>
+                    <label style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: typography.fontSize.sm, fontWeight: typography.fontWeight.semibold, color: colors.text.heading, cursor: hasContent ? 'pointer' : 'default' }}>
+                      <input type="checkbox" checked={included.includes(section.key)} disabled={!hasContent} onChange={() => toggleSection(section.key)} />
+                      {si ? section.si : section.en}
+                      {!hasContent && (
+                        <span style={{ fontWeight: typography.fontWeight.normal, fontSize: typography.fontSize.xs, color: colors.text.muted }}>
+                          {si ? '— v dokumentu ni najdeno' : '— not found in the document'}
+                        </span>
+                      )}
+                    </label>
+                    {sources.length > 0 && (
+                      <p style={{ margin: '4px 0 0', fontSize: typography.fontSize.xs, color: colors.text.muted }}>
+                        {si ? 'Vir: ' : 'Source: '}{sources.join(' · ')}
+                      </p>
+                    )}
+                    {lines.length > 0 && (
+                      <ul style={{ margin: '4px 0 0', paddingLeft: spacing.lg, fontSize: typography.fontSize.xs, color: colors.text.body, maxHeight: 120, overflowY: 'auto' }}>
+                        {lines.map((line, idx) => <li key={idx}>{line}</li>)}
+                      </ul>
+                    )}
+                  </div>
+                );
+              })}
+              <p style={{ margin: 0, fontSize: typography.fontSize.xs, color: colors.text.muted }}>
+                {si
+                  ? `Nov projekt bo ustvarjen v jeziku ${getLanguageNativeName(projectLanguage)}. Izpuščeni razdelki ostanejo prazni.`
+                  : `A new project is created in ${getLanguageNativeName(projectLanguage)}. Skipped sections stay empty.`}
+              </p>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div style={{
+          padding: `${spacing.md} ${spacing['2xl']}`,
+          borderTop: `1px solid ${colors.border.light}`,
+          display: 'flex',
+          justifyContent: 'space-between',
+          gap: spacing.sm,
+          flexShrink: 0,
+        }}>
+          <button
+            onClick={() => { abortRef.current?.abort(); setIsBusy(false); setStep('file'); }}
+            disabled={step === 'file'}
+            style={buttonStyle(false, step === 'file')}
+          >
+            {step === 'mapping' ? (si ? 'Prekliči' : 'Cancel') : (si ? 'Nazaj' : 'Back')}
+          </button>
+          {step === 'file' && (
+            <button onClick={handleMap} disabled={sections.length === 0 || isBusy} style={buttonStyle(true, sections.length === 0 || isBusy)}>
+              {si ? 'Razvrsti z UI' : 'Map with AI'}
+            </button>
+          )}
+          {step === 'review' && (
+            <button onClick={handleCreate} disabled={included.length === 0 || isBusy} style={buttonStyle(true, included.length === 0 || isBusy)}>
+              {si ? 'Ustvari projekt' : 'Create project'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DocxImportModal;
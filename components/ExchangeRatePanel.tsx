@@ -0,0 +1,167 @@
+// components/ExchangeRatePanel.tsx
+// ═══════════════════════════════════════════════════════════════
+// Project exchange-rate table – v1.0 (2026-03-07)
+// ═══════════════════════════════════════════════════════════════
+// Finance sub-step: rates used to convert non-EUR direct cost items
+// to EUR (currencyService). Rates are entered by hand or imported
+// from an ECB reference-rate CSV downloaded by the user — there is
+// no live rate service.
+// ═══════════════════════════════════════════════════════════════
+
+import React, { useMemo, useRef, useState } from 'react';
+import {
+    BASE_CURRENCY,
+    COMMON_CURRENCIES,
+    collectForeignCurrencyLines,
+    findMissingExchangeRates,
+    getExchangeRates,
+    mergeEcbRates,
+    normalizeCurrency,
+    parseEcbRatesCsv,
+} from '../services/currencyService.ts';
+import type { ExchangeRate } from '../types.ts';
+
+const ExchangeRatePanel = ({ projectData, onUpdateData, language = 'en' }) => {
+    const si = language === 'si';
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [newCurrency, setNewCurrency] = useState('');
+    const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+    const rates = getExchangeRates(projectData);
+    const lines = useMemo(() => collectForeignCurrencyLines(projectData), [projectData.activities, projectData.partners, projectData.exchangeRates]);
+    const missing = useMemo(() => findMissingExchangeRates(projectData), [lines]);
+    const usedCurrencies: string[] = Array.from(new Set(lines.map(l => l.currency)));
+    const addable = Array.from(new Set([...missing, ...COMMON_CURRENCIES]))
+        .filter(code => !rates.some(r => normalizeCurrency(r.currency) === code));
+
+    const saveRates = (next: ExchangeRate[]) => onUpdateData(['exchangeRates'], { rates: next });
+
+    const updateRate = (index: number, value: number) =>
+        saveRates(rates.map((r, i) => i === index ? { ...r, rate: value, source: 'manual' as const } : r));
+
+    const updateDate = (index: number, value: string) =>
+        saveRates(rates.map((r, i) => i === index ? { ...r, date: value || null } : r));
+
+    const handleAdd = () => {
+        const code = normalizeCurrency(newCurrency);
+        if (!/^[A-Z]{3}$/.test(code) || code === BASE_CURRENCY || rates.some(r => normalizeCurrency(r.currency) === code)) return;
+        saveRates([...rates, { currency: code, rate: 0, date: null, source: 'manual' as const }].sort((a, b) => a.currency.localeCompare(b.currency)));
+        setNewCurrency('');
+    };
+
+    const handleRemove = (index: number) => {
+        const code = normalizeCurrency(rates[index].currency);
+        if (usedCurrencies.includes(code) && !confirm(si
+            ? `Postavke v ${code} bodo brez tečaja štete kot 0 €. Nadaljujem?`
+            : `Items in ${code} will count as €0 without a rate. Continue?`)) return;
+        saveRates(rates.filter((_, i) => i !== index));
+    };
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const imported = parseEcbRatesCsv(await file.text());
+            const next = mergeEcbRates(rates, imported, usedCurrencies, rates.length === 0 && usedCurrencies.length === 0);
+            saveRates(next);
+            setMessage({
+                ok: true,
+                text: si
+                    ? `Uvoženi tečaji ECB${imported.date ? ` z dne ${imported.date}` : ''} (${next.filter(r => r.source === 'ecb').length} valut).`
+                    : `Imported ECB rates${imported.date ? ` of ${imported.date}` : ''} (${next.filter(r => r.source === 'ecb').length} currencies).`,
+            });
+        } catch (err: any) {
+            setMessage({ ok: false, text: (si ? 'Uvoz ni uspel: ' : 'Import failed: ') + (err?.message || String(err)) });
+        }
+    };
+
+    return (
+        <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm mb-6">
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-2">
+                <h4 className="text-sm font-bold text-slate-700 uppercase tracking-wider">{si ? 'Menjalni tečaji' : 'Exchange rates'}</h4>
+                <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="px-2.5 py-1 text-xs font-semibold bg-white text-slate-700 border border-slate-300 rounded hover:bg-slate-50"
+                    title={si ? 'CSV z referenčnimi tečaji ECB (eurofxref.csv ali izvoz ECB Data Portal)' : 'CSV of ECB reference rates (eurofxref.csv or an ECB Data Portal export)'}
+                >
+                    {si ? 'Uvozi tečaje ECB (CSV)' : 'Import ECB rates (CSV)'}
+                </button>
+                <input ref={fileInputRef} type="file" accept=".csv,text/csv" onChange={handleFile} style={{ display: 'none' }} />
+            </div>
+            <p className="text-xs text-slate-500 mb-3">
+                {si
+                    ? `Zneski v drugih valutah se v vseh seštevkih pretvorijo v EUR. Tečaj pomeni 1 EUR = tečaj × valuta (kot pri ECB).`
+                    : `Amounts in other currencies are converted to EUR in every total. A rate means 1 EUR = rate × currency (ECB convention).`}
+            </p>
+
+            {message && (
+                <div className={`mb-3 p-2 rounded-lg text-xs font-medium border ${message.ok ? 'bg-emerald-50 border-emerald-200 text-emerald-800' : 'bg-red-50 border-red-200 text-red-700'}`}>
+                    {message.text}
+                </div>
+            )}
+
+            {missing.length > 0 && (
+                <div className="mb-3 p-2 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-800 font-medium">
+                    {si
+                        ? `Manjka tečaj za: ${missing.join(', ')} — te postavke so v seštevkih štete kot 0 €.`
+                        : `No rate for: ${missing.join(', ')} — these items count as €0 in the totals.`}
+                </div>
+            )}
+
+            {rates.length === 0 ? (
+                <p className="text-xs text-slate-400 italic mb-3">{si ? 'Ni vnesenih tečajev — stroški so v EUR.' : 'No exchange rates yet — costs are in EUR.'}</p>
+            ) : (
+                <div className="space-y-1.5 mb-3">
+                    {rates.map((r, index) => {
+                        const count = lines.filter(l => l.currency === normalizeCurrency(r.currency)).length;
+                        return (
+                            <div key={r.currency} className="flex flex-wrap items-center gap-2 py-1.5 px-3 bg-slate-50 rounded-lg border border-slate-100 text-xs">
+                                <span className="text-slate-600">1 EUR =</span>
+                                <input
+                                    type="number" min={0} step="any"
+                                    value={r.rate || ''}
+                                    onChange={e => updateRate(index, e.target.value ? parseFloat(e.target.value) : 0)}
+                                    className="w-24 p-1 rounded border border-slate-300 bg-white text-xs font-mono text-right"
+                                />
+                                <span className="w-10 font-bold text-slate-700">{r.currency}</span>
+                                <input
+                                    type="date"
+                                    value={r.date || ''}
+                                    onChange={e => updateDate(index, e.target.value)}
+                                    className="p-1 rounded border border-slate-300 bg-white text-xs"
+                                    title={si ? 'Datum tečaja' : 'Rate date'}
+                                />
+                                <span className={`px-1.5 py-0.5 rounded ${r.source === 'ecb' ? 'bg-sky-50 text-sky-700' : 'bg-slate-100 text-slate-500'}`}>
+                                    {r.source === 'ecb' ? 'ECB' : (si ? 'ročno' : 'manual')}
+                                </span>
+                                <span className="flex-1 text-right text-slate-400">
+                                    {count > 0 ? (si ? `postavke: ${count}` : `${count} item${count === 1 ? '' : 's'}`) : ''}
+                                </span>
+                                <button onClick={() => handleRemove(index)} className="text-red-400 hover:text-red-600 text-xs font-bold px-1">✕</button>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+
+            <div className="flex items-center gap-2 text-xs text-slate-600">
+                <input
+                    list="exchange-rate-currencies"
+                    value={newCurrency}
+                    onChange={e => setNewCurrency(e.target.value.toUpperCase().slice(0, 3))}
+                    placeholder="USD"
+                    className="w-20 p-1 rounded border border-slate-300 bg-white text-xs font-mono uppercase"
+                />
+                <datalist id="exchange-rate-currencies">
+                    {addable.map(code => <option key={code} value={code} />)}
+                </datalist>
+                <button onClick={handleAdd} disabled={!/^[A-Za-z]{3}$/.test(newCurrency)} className="px-2 py-1 font-semibold bg-sky-50 text-sky-700 border border-sky-200 rounded hover:bg-sky-100 transition-all disabled:opacity-50">
+                    + {si ? 'Dodaj valuto' : 'Add currency'}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default ExchangeRatePanel;
@@ -15,6 +15,7 @@
 
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { createPortal } from 'react-dom';
+import type { LanguageCode } from '../languages.ts';
 
 interface FieldAIAssistantProps {
   isOpen: boolean;
@@ -23,7 +24,7 @@ interface FieldAIAssistantProps {
   onGenerate: (userInstructions: string) => Promise<string>;
   currentValue: string;
   fieldLabel: string;
-  language: 'en' | 'si';
+  language: LanguageCode;
   anchorRect?: { top: number; right: number; bottom: number; left: number; width: number; height: number } | null;
 }
 
@@ -1,8 +1,17 @@
 // components/GanttChart.tsx
 // ═══════════════════════════════════════════════════════════════
-// Gantt Chart Component – v5.3 (2026-02-15)
+// Gantt Chart Component – v5.7 (2026-03-07)
 // ═══════════════════════════════════════════════════════════════
 // CHANGELOG:
+// v5.7 – MS Project XML export writes PredecessorLink Type per the
+//         schema (0 = FF, 1 = FS, 2 = SF, 3 = SS).
+// v5.6 – Schedule baseline (baseline prop): thin grey baseline bar under
+//         each task, hollow diamond for milestones, slip in days.
+// v5.5 – Dependency lag / lead shown next to the arrow head; exported to
+//         MS Project XML as LinkLag (LagFormat 7 = days, 11 = months).
+// v5.4 – MS Project XML import button (onImportXML prop, handled by
+//         MsProjectImportModal); exported names / notes are XML-escaped
+//         so the file can be read back.
 // v5.3 – FIX: Ctrl+Scroll zoom now works reliably after refresh.
 //         Root cause: useEffect([], []) ran BEFORE the zoomAreaRef
 //         div was mounted (conditional render for containerWidth===0
@@ -24,7 +33,9 @@
 import React, { useState, useMemo, useRef, useEffect, useLayoutEffect, useCallback } from 'react';
 import { TEXT } from '../locales.ts';
 import { ICONS } from '../constants.tsx';
-import { downloadBlob } from '../utils.ts';
+import { downloadBlob, formatDependencyLag } from '../utils.ts';
+import { diffDays, formatSlip } from '../services/scheduleBaselineService.ts';
+import type { ScheduleBaseline } from '../types.ts';
 import { TECHNICAL_CONFIG } from '../services/TechnicalInstructions.ts';
 import { ZoomBadge } from '../hooks/ZoomBadge';
 
@@ -38,6 +49,9 @@ const SIDE_PADDING = LEFT_PAD + RIGHT_PAD;
 
 const isValidDate = (d: string | undefined | null): boolean => !!d && !isNaN(new Date(d).getTime());
 
+const escapeXml = (s: string): string =>
+    String(s || '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
 type ViewMode = 'week' | 'month' | 'quarter' | 'semester' | 'year' | 'project';
 
 interface GanttChartProps {
@@ -46,6 +60,8 @@ interface GanttChartProps {
     id?: string;
     forceViewMode?: ViewMode | null;
     containerWidth?: number;
+    onImportXML?: () => void;
+    baseline?: ScheduleBaseline | null;
 }
 
 const GanttChart: React.FC<GanttChartProps> = ({
@@ -53,7 +69,9 @@ const GanttChart: React.FC<GanttChartProps> = ({
     language = 'en',
     id = 'gantt-chart-content',
     forceViewMode = null,
-    containerWidth: initialWidth = 1200
+    containerWidth: initialWidth = 1200,
+    onImportXML,
+    baseline
 }) => {
     const [hoveredTask, setHoveredTask] = useState<string | null>(null);
     const [viewModeState, setViewModeState] = useState<ViewMode>('project');
@@ -343,8 +361,19 @@ const GanttChart: React.FC<GanttChartProps> = ({
     }
 
     // 2. Determine Timeline Bounds
-    const rawMin = Math.min(...allItems.map(t => t.type === 'milestone' ? t.date.getTime() : t.start.getTime()));
-    const rawMax = Math.max(...allItems.map(t => t.type === 'milestone' ? t.date.getTime() : t.end.getTime()));
+    // ★ v5.6: Baseline dates of the drawn items widen the timeline too
+    const baselineOf = (item: any): { start: Date; end: Date } | null => {
+        if (!baseline) return null;
+        const b = item.type === 'milestone' ? baseline.milestones?.[item.id] : baseline.tasks?.[item.id];
+        if (!b) return null;
+        const start = new Date(item.type === 'milestone' ? (b as any).date : (b as any).startDate);
+        const end = new Date(item.type === 'milestone' ? (b as any).date : (b as any).endDate);
+        return isNaN(start.getTime()) || isNaN(end.getTime()) ? null : { start, end };
+    };
+    const baselineTimes = allItems.map(baselineOf).filter(Boolean) as { start: Date; end: Date }[];
+
+    const rawMin = Math.min(...allItems.map(t => t.type === 'milestone' ? t.date.getTime() : t.start.getTime()), ...baselineTimes.map(b => b.start.getTime()));
+    const rawMax = Math.max(...allItems.map(t => t.type === 'milestone' ? t.date.getTime() : t.end.getTime()), ...baselineTimes.map(b => b.end.getTime()));
 
     let paddingDays = 0;
     if (viewMode === 'project') {
@@ -462,21 +491,27 @@ const GanttChart: React.FC<GanttChartProps> = ({
         });
 
         activities.forEach(wp => {
-            xml += `  <Task>\n    <UID>${uidMap[wp.id]}</UID>\n    <ID>${uidMap[wp.id]}</ID>\n    <Name>${wp.id}: ${wp.title}</Name>\n    <Summary>1</Summary>\n  </Task>\n`;
+            xml += `  <Task>\n    <UID>${uidMap[wp.id]}</UID>\n    <ID>${uidMap[wp.id]}</ID>\n    <Name>${wp.id}: ${escapeXml(wp.title)}</Name>\n    <Summary>1</Summary>\n  </Task>\n`;
 
             (wp.tasks || []).forEach((t: any) => {
                 if (isValidDate(t.startDate) && isValidDate(t.endDate)) {
-                    xml += `  <Task>\n    <UID>${uidMap[t.id]}</UID>\n    <ID>${uidMap[t.id]}</ID>\n    <Name>${t.id}: ${t.title}</Name>\n    <Start>${t.startDate}T08:00:00</Start>\n    <Finish>${t.endDate}T17:00:00</Finish>\n    <Notes>${t.description || ''}</Notes>\n`;
+                    xml += `  <Task>\n    <UID>${uidMap[t.id]}</UID>\n    <ID>${uidMap[t.id]}</ID>\n    <Name>${t.id}: ${escapeXml(t.title)}</Name>\n    <Start>${t.startDate}T08:00:00</Start>\n    <Finish>${t.endDate}T17:00:00</Finish>\n    <Notes>${escapeXml(t.description)}</Notes>\n`;
 
                     if (t.dependencies && t.dependencies.length > 0) {
                         t.dependencies.forEach((dep: any) => {
                             if (uidMap[dep.predecessorId]) {
                                 let typeCode = 1;
-                                if (dep.type === 'SS') typeCode = 0;
+                                // MS Project schema: 0 = FF, 1 = FS, 2 = SF, 3 = SS
+                                if (dep.type === 'FF') typeCode = 0;
                                 if (dep.type === 'SF') typeCode = 2;
-                                if (dep.type === 'FF') typeCode = 3;
-
-                                xml += `    <PredecessorLink>\n      <PredecessorUID>${uidMap[dep.predecessorId]}</PredecessorUID>\n      <Type>${typeCode}</Type>\n    </PredecessorLink>\n`;
+                                if (dep.type === 'SS') typeCode = 3;
+
+                                // LinkLag in tenths of a minute (8 h day, 20-day month)
+                                const lag = Number(dep.lag) || 0;
+                                const lagXml = lag
+                                    ? `\n      <LinkLag>${lag * (dep.lagUnit === 'months' ? 96000 : 4800)}</LinkLag>\n      <LagFormat>${dep.lagUnit === 'months' ? 11 : 7}</LagFormat>`
+                                    : '';
+                                xml += `    <PredecessorLink>\n      <PredecessorUID>${uidMap[dep.predecessorId]}</PredecessorUID>\n      <Type>${typeCode}</Type>${lagXml}\n    </PredecessorLink>\n`;
                             }
                         });
                     }
@@ -486,7 +521,7 @@ const GanttChart: React.FC<GanttChartProps> = ({
 
             (wp.milestones || []).forEach((m: any) => {
                 if (isValidDate(m.date)) {
-                    xml += `  <Task>\n    <UID>${uidMap[m.id]}</UID>\n    <ID>${uidMap[m.id]}</ID>\n    <Name>${m.id}: ${m.description}</Name>\n    <Start>${m.date}T08:00:00</Start>\n    <Finish>${m.date}T08:00:00</Finish>\n    <Milestone>1</Milestone>\n  </Task>\n`;
+                    xml += `  <Task>\n    <UID>${uidMap[m.id]}</UID>\n    <ID>${uidMap[m.id]}</ID>\n    <Name>${m.id}: ${escapeXml(m.description)}</Name>\n    <Start>${m.date}T08:00:00</Start>\n    <Finish>${m.date}T08:00:00</Finish>\n    <Milestone>1</Milestone>\n  </Task>\n`;
                 }
             });
         });
@@ -637,6 +672,24 @@ const GanttChart: React.FC<GanttChartProps> = ({
                         className="opacity-70 hover:opacity-100 hover:stroke-sky-600 hover:stroke-2 transition-all"
                     />
                 );
+
+                const lagLabel = formatDependencyLag(dep, language);
+                if (lagLabel) {
+                    const leftward = dep.type === 'FF' || dep.type === 'SF';
+                    paths.push(
+                        <text
+                            key={`${item.id}-${dep.predecessorId}-lag`}
+                            x={clampX(leftward ? endX + 4 : endX - 4)}
+                            y={targetY - 5}
+                            textAnchor={leftward ? 'start' : 'end'}
+                            fontSize="9"
+                            fill="#475569"
+                            style={{ pointerEvents: 'none' }}
+                        >
+                            {lagLabel}
+                        </text>
+                    );
+                }
             });
         });
 
@@ -664,6 +717,14 @@ const GanttChart: React.FC<GanttChartProps> = ({
                         <button onClick={handleExportXML} className="flex items-center px-3 py-1.5 bg-white border border-slate-300 rounded text-sm text-slate-700 hover:bg-slate-50">
                             <ICONS.DOCX className="w-4 h-4 mr-1" /> XML
                         </button>
+                        {onImportXML && (
+                            <button onClick={onImportXML} className="flex items-center px-3 py-1.5 bg-white border border-slate-300 rounded text-sm text-slate-700 hover:bg-slate-50" title={language === 'si' ? 'Uvozi MS Project XML' : 'Import MS Project XML'}>
+                                <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+                                </svg>
+                                {language === 'si' ? 'Uvoz XML' : 'Import XML'}
+                            </button>
+                        )}
                         <div className="flex bg-slate-200 rounded-lg p-1 ml-2">
                             {(Object.keys(VIEW_SETTINGS) as ViewMode[]).map((mode) => (
                                 <button
@@ -845,6 +906,30 @@ const GanttChart: React.FC<GanttChartProps> = ({
                                                                 title={`${item.id}: ${item.description}`}
                                                             />
 
+                                                            {(() => {
+                                                                const base = baselineOf(item);
+                                                                if (!base) return null;
+                                                                const baseLeft = getLeft(base.start);
+                                                                const slip = diffDays(baseline!.milestones[item.id].date, item.date);
+                                                                return (
+                                                                    <>
+                                                                        <div
+                                                                            className="absolute w-2.5 h-2.5 border-2 border-slate-400 bg-white transform rotate-45 z-10"
+                                                                            style={{ left: `${baseLeft - 5}px`, top: `${ROW_HEIGHT - 12}px` }}
+                                                                            title={`${language === 'si' ? 'Izhodišče' : 'Baseline'}: ${baseline!.milestones[item.id].date}`}
+                                                                        />
+                                                                        {slip !== 0 && (
+                                                                            <span
+                                                                                className={`absolute text-[9px] font-semibold whitespace-nowrap pointer-events-none ${slip > 0 ? 'text-red-600' : 'text-emerald-600'}`}
+                                                                                style={{ left: `${Math.max(left, baseLeft) + 8}px`, top: `${ROW_HEIGHT - 13}px` }}
+                                                                            >
+                                                                                {formatSlip(slip)}
+                                                                            </span>
+                                                                        )}
+                                                                    </>
+                                                                );
+                                                            })()}
+
                                                             {(left + 10 < maxContentRight - 10) && (
                                                                 <div
                                                                     className="absolute text-[11px] font-bold text-slate-800 whitespace-nowrap px-2 pointer-events-none flex items-center overflow-hidden"
@@ -902,6 +987,32 @@ const GanttChart: React.FC<GanttChartProps> = ({
                                                                 )}
                                                             </div>
 
+                                                            {(() => {
+                                                                const base = baselineOf(item);
+                                                                if (!base) return null;
+                                                                const baseLeft = getLeft(base.start);
+                                                                const baseWidth = Math.min(getWidth(base.start, base.end), Math.max(maxContentRight - baseLeft, MIN_BAR_WIDTH));
+                                                                const b = baseline!.tasks[item.id];
+                                                                const slip = diffDays(b.endDate, item.endDate);
+                                                                return (
+                                                                    <>
+                                                                        <div
+                                                                            className="absolute rounded-sm bg-slate-300 border border-slate-400"
+                                                                            style={{ left: `${baseLeft}px`, width: `${baseWidth}px`, height: '6px', top: `${BAR_OFFSET_Y + BAR_HEIGHT + 3}px` }}
+                                                                            title={`${language === 'si' ? 'Izhodišče' : 'Baseline'}: ${b.startDate} – ${b.endDate}`}
+                                                                        />
+                                                                        {slip !== 0 && (
+                                                                            <span
+                                                                                className={`absolute text-[9px] font-semibold whitespace-nowrap pointer-events-none ${slip > 0 ? 'text-red-600' : 'text-emerald-600'}`}
+                                                                                style={{ left: `${Math.min(Math.max(left + width, baseLeft + baseWidth) + 4, maxContentRight - 30)}px`, top: `${BAR_OFFSET_Y + BAR_HEIGHT}px` }}
+                                                                            >
+                                                                                {formatSlip(slip)}
+                                                                            </span>
+                                                                        )}
+                                                                    </>
+                                                                );
+                                                            })()}
+
                                                             {(labelPos === 'right' || labelPos === 'left') && (
                                                                 <div
                                                                     className="absolute text-[11px] font-medium text-slate-600 whitespace-nowrap px-2 pointer-events-none flex items-center"
@@ -931,6 +1042,12 @@ const GanttChart: React.FC<GanttChartProps> = ({
             {!forceViewMode && (
                 <div className="bg-slate-50 p-3 text-xs text-slate-500 border-t border-slate-200 text-center print:hidden rounded-b-xl">
                     {t.ganttChartDesc}
+                    {baseline && (
+                        <span className="ml-3 inline-flex items-center gap-1.5">
+                            <span className="inline-block w-6 h-1.5 rounded-sm bg-slate-300 border border-slate-400" />
+                            {(language === 'si' ? 'Izhodišče: ' : 'Baseline: ') + baseline.name}
+                        </span>
+                    )}
                 </div>
             )}
         </div>
@@ -0,0 +1,294 @@
+// components/GlossaryModal.tsx
+// v1.0 — 2026-03-07 — Translation glossary editor (glossaryService)
+//   - Project / Organization tabs — project entries override org entries
+//   - Add: source term → target term or "do not translate", optional language pair
+//   - Delete per entry
+//   - Dark-mode: isDark + colors pattern
+import React, { useState, useEffect, useCallback } from 'react';
+import { lightColors, darkColors, shadows, radii, spacing, typography } from '../design/theme.ts';
+import { getThemeMode, onThemeChange } from '../services/themeService.ts';
+import { glossaryService } from '../services/glossaryService.ts';
+import { SUPPORTED_LANGUAGES } from '../languages.ts';
+import type { GlossaryEntry, GlossaryScope, LanguageCode } from '../types.ts';
+
+interface GlossaryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId: string | null;
+  language: LanguageCode;
+}
+
+const GlossaryModal: React.FC<GlossaryModalProps> = ({ isOpen, onClose, projectId, language }) => {
+  const [isDark, setIsDark] = useState(getThemeMode() === 'dark');
+  const [scope, setScope] = useState<GlossaryScope>('project');
+  const [entries, setEntries] = useState<GlossaryEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [sourceTerm, setSourceTerm] = useState('');
+  const [targetTerm, setTargetTerm] = useState('');
+  const [doNotTranslate, setDoNotTranslate] = useState(false);
+  const [sourceLang, setSourceLang] = useState<string>('');
+  const [targetLang, setTargetLang] = useState<string>('');
+  const [note, setNote] = useState('');
+  useEffect(() => {
+    const unsub = onThemeChange((m) => setIsDark(m === 'dark'));
+    return unsub;
+  }, []);
+  const colors = isDark ? darkColors : lightColors;
+
+  const loadEntries = useCallback(async () => {
+    setLoading(true);
+    setEntries(await glossaryService.listEntries(projectId));
+    setLoading(false);
+  }, [projectId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setMessage(null);
+      loadEntries();
+    }
+  }, [isOpen, loadEntries]);
+
+  if (!isOpen) return null;
+
+  const visible = entries.filter((e) => e.scope === scope);
+
+  const handleAdd = async () => {
+    setMessage(null);
+    const created = await glossaryService.addEntry({
+      scope,
+      projectId,
+      sourceLang: sourceLang || null,
+      targetLang: targetLang || null,
+      sourceTerm,
+      targetTerm: doNotTranslate ? null : targetTerm,
+      doNotTranslate,
+      note,
+    });
+    if (!created) {
+      setMessage(language === 'si'
+        ? 'Vnosa ni bilo mogoče shraniti (preverite izraz in pravice).'
+        : 'Entry could not be saved (check the terms and your permissions).');
+      return;
+    }
+    setSourceTerm('');
+    setTargetTerm('');
+    setNote('');
+    setDoNotTranslate(false);
+    await loadEntries();
+  };
+
+  const handleDelete = async (entryId: string) => {
+    const result = await glossaryService.deleteEntry(entryId);
+    if (!result.success) {
+      setMessage(result.message || (language === 'si' ? 'Brisanje ni uspelo.' : 'Delete failed.'));
+      return;
+    }
+    setEntries((prev) => prev.filter((e) => e.id !== entryId));
+  };
+
+  const inputStyle: React.CSSProperties = {
+    fontSize: typography.fontSize.xs,
+    padding: '6px 8px',
+    borderRadius: radii.md,
+    border: `1px solid ${colors.border.light}`,
+    background: colors.surface.card,
+    color: colors.text.body,
+    fontFamily: 'inherit',
+    minWidth: 0,
+  };
+
+  const tabStyle = (active: boolean): React.CSSProperties => ({
+    padding: `6px ${spacing.md}`,
+    fontSize: typography.fontSize.xs,
+    fontWeight: active ? typography.fontWeight.bold : typography.fontWeight.medium,
+    border: 'none',
+    borderBottom: `2px solid ${active ? colors.primary[500] : 'transparent'}`,
+    background: 'transparent',
+    color: active ? colors.text.heading : colors.text.muted,
+    cursor: 'pointer',
+    fontFamily: 'inherit',
+  });
+
+  const langLabel = (code: string | null) => (code ? code.toUpperCase() : (language === 'si' ? 'vsi' : 'any'));
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 150,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: spacing.lg,
+        background: colors.surface.overlayBlur,
+        backdropFilter: 'blur(8px)',
+      }}
+      onClick={(e) => { if (e.target === e.currentTarget) onClose(); }}
+    >
+      <div style={{
+        background: colors.surface.card,
+        borderRadius: radii['2xl'],
+        boxShadow: shadows['2xl'],
+        maxWidth: 860,
+        width: '100%',
+        maxHeight: '90vh',
+        display: 'flex',
+        flexDirection: 'column',
+        overflow: 'hidden',
+        border: `1px solid ${colors.border.light}`,
+        fontFamily: typography.fontFamily.sans,
+      }}>
+        {/* Header */}
+        <div style={{
+          padding: `${spacing.lg} ${spacing['2xl']}`,
+          borderBottom: `1px solid ${colors.border.light}`,
+          background: colors.surface.sidebar,
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          flexShrink: 0,
+        }}>
+          <div>
+            <h3 style={{ margin: 0, fontSize: typography.fontSize.lg, fontWeight: typography.fontWeight.bold, color: colors.text.heading }}>
+              {language === 'si' ? 'Glosar prevajanja' : 'Translation glossary'}
+            </h3>
+            <p style={{ margin: '4px 0 0', fontSize: typography.fontSize.xs, color: colors.text.muted }}>
+              {language === 'si'
+                ? 'Obvezni izrazi pri AI prevajanju. Projektni vnosi imajo prednost pred vnosi organizacije.'
+                : 'Required terms for AI translation. Project entries take precedence over organization entries.'}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            style={{ padding: spacing.xs, border: 'none', background: 'transparent', color: colors.text.muted, cursor: 'pointer', display: 'flex' }}
+          >
+            <svg style={{ width: 22, height: 22 }} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Tabs */}
+        <div style={{ display: 'flex', gap: spacing.sm, padding: `0 ${spacing['2xl']}`, borderBottom: `1px solid ${colors.border.light}`, flexShrink: 0 }}>
+          <button style={tabStyle(scope === 'project')} onClick={() => setScope('project')} disabled={!projectId}>
+            {language === 'si' ? 'Projekt' : 'Project'} ({entries.filter((e) => e.scope === 'project').length})
+          </button>
+          <button style={tabStyle(scope === 'organization')} onClick={() => setScope('organization')}>
+            {language === 'si' ? 'Organizacija' : 'Organization'} ({entries.filter((e) => e.scope === 'organization').length})
+          </button>
+        </div>
+
+        {/* Add form */}
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: spacing.sm, alignItems: 'center', padding: `${spacing.md} ${spacing['2xl']}`, borderBottom: `1px solid ${colors.border.light}`, flexShrink: 0 }}>
+          <select value={sourceLang} onChange={(e) => setSourceLang(e.target.value)} style={inputStyle} title={language === 'si' ? 'Izvorni jezik' : 'Source language'}>
+            <option value="">{langLabel(null)}</option>
+            {SUPPORTED_LANGUAGES.map((l) => <option key={l} value={l}>{l.toUpperCase()}</option>)}
+          </select>
+          <input
+            value={sourceTerm}
+            onChange={(e) => setSourceTerm(e.target.value)}
+            placeholder={language === 'si' ? 'Izvorni izraz' : 'Source term'}
+            style={{ ...inputStyle, flex: '1 1 160px' }}
+          />
+          <span style={{ color: colors.text.muted, fontSize: typography.fontSize.xs }}>→</span>
+          <select value={targetLang} onChange={(e) => setTargetLang(e.target.value)} style={inputStyle} title={language === 'si' ? 'Ciljni jezik' : 'Target language'}>
+            <option value="">{langLabel(null)}</option>
+            {SUPPORTED_LANGUAGES.map((l) => <option key={l} value={l}>{l.toUpperCase()}</option>)}
+          </select>
+          <input
+            value={doNotTranslate ? '' : targetTerm}
+            onChange={(e) => setTargetTerm(e.target.value)}
+            disabled={doNotTranslate}
+            placeholder={doNotTranslate
+              ? (language === 'si' ? '(ne prevajaj)' : '(do not translate)')
+              : (language === 'si' ? 'Obvezen prevod' : 'Required translation')}
+            style={{ ...inputStyle, flex: '1 1 160px', opacity: doNotTranslate ? 0.5 : 1 }}
+          />
+          <label style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: typography.fontSize.xs, color: colors.text.body, cursor: 'pointer' }}>
+            <input type="checkbox" checked={doNotTranslate} onChange={(e) => setDoNotTranslate(e.target.checked)} />
+            {language === 'si' ? 'Ne prevajaj' : 'Do not translate'}
+          </label>
+          <input
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder={language === 'si' ? 'Opomba (neobvezno)' : 'Note (optional)'}
+            style={{ ...inputStyle, flex: '1 1 140px' }}
+          />
+          <button
+            onClick={handleAdd}
+            disabled={!sourceTerm.trim() || (!doNotTranslate && !targetTerm.trim()) || (scope === 'project' && !projectId)}
+            style={{
+              padding: `6px ${spacing.md}`,
+              background: colors.primary.gradient,
+              color: '#FFFFFF',
+              border: 'none',
+              borderRadius: radii.md,
+              fontSize: typography.fontSize.xs,
+              fontWeight: typography.fontWeight.semibold,
+              cursor: 'pointer',
+              fontFamily: 'inherit',
+              opacity: !sourceTerm.trim() || (!doNotTranslate && !targetTerm.trim()) ? 0.5 : 1,
+            }}
+          >
+            {language === 'si' ? 'Dodaj' : 'Add'}
+          </button>
+          {message && (
+            <p style={{ width: '100%', margin: 0, fontSize: typography.fontSize.xs, color: isDark ? colors.error[200] : colors.error[700] }}>{message}</p>
+          )}
+        </div>
+
+        {/* Entries */}
+        <div style={{ flex: 1, overflowY: 'auto', padding: `${spacing.md} ${spacing['2xl']} ${spacing.lg}` }} className="custom-scrollbar">
+          {loading ? (
+            <p style={{ fontSize: typography.fontSize.xs, color: colors.text.muted, margin: 0 }}>
+              {language === 'si' ? 'Nalagam glosar...' : 'Loading glossary...'}
+            </p>
+          ) : visible.length === 0 ? (
+            <p style={{ textAlign: 'center', color: colors.text.muted, fontSize: typography.fontSize.sm, padding: spacing['2xl'] }}>
+              {language === 'si' ? 'Ni vnosov.' : 'No entries yet.'}
+            </p>
+          ) : (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
+              {visible.map((entry) => (
+                <div key={entry.id} style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: spacing.sm,
+                  padding: spacing.sm,
+                  borderRadius: radii.md,
+                  border: `1px solid ${colors.border.light}`,
+                  background: colors.surface.background,
+                }}>
+                  <span style={{ fontSize: '10px', fontFamily: typography.fontFamily.mono, color: colors.text.muted, flexShrink: 0 }}>
+                    {langLabel(entry.sourceLang)} → {langLabel(entry.targetLang)}
+                  </span>
+                  <div style={{ flex: 1, minWidth: 0, fontSize: typography.fontSize.xs, color: colors.text.body }}>
+                    <strong style={{ color: colors.text.heading }}>{entry.sourceTerm}</strong>
+                    {' → '}
+                    {entry.doNotTranslate
+                      ? <em style={{ color: colors.text.muted }}>{language === 'si' ? 'ne prevajaj' : 'do not translate'}</em>
+                      : entry.targetTerm}
+                    {entry.note && (
+                      <span style={{ marginLeft: spacing.sm, color: colors.text.muted }}>· {entry.note}</span>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => handleDelete(entry.id)}
+                    title={language === 'si' ? 'Izbriši' : 'Delete'}
+                    style={{ border: 'none', background: 'transparent', color: colors.text.muted, cursor: 'pointer', fontSize: typography.fontSize.sm, flexShrink: 0 }}
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GlossaryModal;
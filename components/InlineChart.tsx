@@ -8,6 +8,7 @@ import { extractEmpiricalData, type ExtractedChartData } from '../services/DataE
 import { resolveAllChartTypes } from '../services/ChartTypeResolver.ts';
 import ChartRenderer from './ChartRenderer.tsx';
 import { theme } from '../design/theme.ts';
+import type { LanguageCode } from '../languages.ts';
 
 // ─── Module-level cache ──────────────────────────────────────
 
@@ -22,7 +23,7 @@ var getTextHash = function (text: string): string {
 interface InlineChartProps {
   text: string;
   fieldContext?: string;
-  language?: 'en' | 'si';
+  language?: LanguageCode;
   minTextLength?: number;
   maxCharts?: number;
   onRateLimitError?: () => void;
@@ -0,0 +1,220 @@
+// components/LumpSumBudgetPanel.tsx
+// ═══════════════════════════════════════════════════════════════
+// Lump-sum budget (EU Part B layout) – v1.0 (2026-03-07)
+// ═══════════════════════════════════════════════════════════════
+// Finance view when ProjectData.budgetMode === 'lumpSum'
+// (lumpSumService):
+//   - Lump sum breakdown: WP × partner shares, editable; an empty
+//     cell uses estimated costs × funding rate
+//   - Detailed budget table: cost groups A–E per partner
+//   - WP completion: deliverables + criteria per WP, open issues
+// ═══════════════════════════════════════════════════════════════
+
+import React, { useMemo } from 'react';
+import {
+    LUMP_SUM_COST_GROUPS,
+    checkLumpSumCompletion,
+    computeLumpSumBreakdown,
+    emptyWorkPackageLumpSum,
+} from '../services/lumpSumService.ts';
+
+const fmtEur = (n: number): string =>
+    n === 0 ? '€0' : '€' + n.toLocaleString('de-DE', { minimumFractionDigits: 0, maximumFractionDigits: 2 });
+
+const LumpSumBudgetPanel = ({ projectData, onUpdateData, language = 'en' }) => {
+    const si = language === 'si';
+    const lang = si ? 'si' : 'en';
+    const activities = Array.isArray(projectData.activities) ? projectData.activities : [];
+
+    const breakdown = useMemo(
+        () => computeLumpSumBreakdown(projectData),
+        [projectData.activities, projectData.partners, projectData.fundingModel, projectData.indirectCostSettings, projectData.budgetRules]
+    );
+    const issues = useMemo(
+        () => checkLumpSumCompletion(projectData, language),
+        [projectData.activities, projectData.partners, projectData.fundingModel, projectData.indirectCostSettings, projectData.budgetRules, language]
+    );
+
+    const updateWpLumpSum = (wpIdx: number, patch: any) => {
+        const current = { ...emptyWorkPackageLumpSum(), ...(activities[wpIdx]?.lumpSum || {}) };
+        onUpdateData(['activities', wpIdx, 'lumpSum'], { ...current, ...patch });
+    };
+
+    const handleShare = (wpIdx: number, partnerId: string, value: string) => {
+        const shares = { ...(activities[wpIdx]?.lumpSum?.shares || {}) };
+        if (value === '') delete shares[partnerId];
+        else shares[partnerId] = Math.max(0, parseFloat(value) || 0);
+        updateWpLumpSum(wpIdx, { shares });
+    };
+
+    const toggleDeliverable = (wpIdx: number, deliverableId: string, checked: boolean) => {
+        const selected: string[] = activities[wpIdx]?.lumpSum?.completionDeliverables || [];
+        updateWpLumpSum(wpIdx, {
+            completionDeliverables: checked ? [...selected, deliverableId] : selected.filter(id => id !== deliverableId),
+        });
+    };
+
+    const th = 'py-2 px-3 font-semibold text-slate-600';
+
+    return (
+        <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-5 mt-6">
+            <h4 className="text-sm font-bold text-slate-700 mb-1 uppercase tracking-wider">{si ? 'Pavšalni proračun' : 'Lump sum budget'}</h4>
+            <p className="text-xs text-slate-500 mb-4">
+                {si
+                    ? 'Pavšalni delež partnerja se izplača ob zaključku delovnega sklopa. Prazno polje pomeni ocenjene stroške × stopnjo sofinanciranja.'
+                    : 'A partner\'s lump share is paid when the work package is completed. An empty cell uses estimated costs × funding rate.'}
+            </p>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-5">
+                <div className="bg-sky-50 border border-sky-200 rounded-xl p-3 text-center">
+                    <p className="text-xs text-sky-600 font-semibold uppercase tracking-wider mb-1">{si ? 'Ocenjeni stroški' : 'Estimated costs'}</p>
+                    <p className="text-xl font-bold text-sky-800">{fmtEur(breakdown.totals.estimatedCost)}</p>
+                </div>
+                <div className="bg-slate-50 border border-slate-200 rounded-xl p-3 text-center">
+                    <p className="text-xs text-slate-600 font-semibold uppercase tracking-wider mb-1">{si ? 'Največji EU prispevek' : 'Maximum EU contribution'}</p>
+                    <p className="text-xl font-bold text-slate-800">{fmtEur(breakdown.totals.maxContribution)}</p>
+                </div>
+                <div className="bg-indigo-50 border border-indigo-200 rounded-xl p-3 text-center">
+                    <p className="text-xs text-indigo-600 font-semibold uppercase tracking-wider mb-1">{si ? 'Pavšalni znesek' : 'Lump sum'}</p>
+                    <p className="text-xl font-bold text-indigo-800">{fmtEur(breakdown.totals.lumpSum)}</p>
+                </div>
+            </div>
+
+            <h5 className="text-xs font-bold text-slate-600 uppercase tracking-wider mb-2">{si ? 'Razčlenitev pavšalnega zneska' : 'Lump sum breakdown'}</h5>
+            <div className="overflow-x-auto mb-6">
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="border-b-2 border-slate-200 bg-slate-50">
+                            <th className={th + ' text-left'}>{si ? 'DS' : 'WP'}</th>
+                            {breakdown.partners.map(p => <th key={p.partnerId} className={th + ' text-right'} title={p.name}>{p.code}</th>)}
+                            <th className={th + ' text-right'}>{si ? 'Skupaj' : 'Total'}</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {breakdown.workPackages.map((wp, wpIdx) => (
+                            <tr key={wp.wpId} className="border-b border-slate-100">
+                                <td className="py-1.5 px-3 font-semibold text-slate-700" title={wp.title}>{wp.wpId}</td>
+                                {wp.cells.map(cell => (
+                                    <td key={cell.partnerId} className="py-1.5 px-2 text-right">
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            className={`w-28 p-1 rounded border text-xs font-mono text-right ${cell.overridden ? 'border-indigo-300 bg-indigo-50' : 'border-slate-300 bg-white'}`}
+                                            value={cell.overridden ? cell.share : ''}
+                                            placeholder={String(cell.suggestedShare)}
+                                            title={si ? `Ocenjeni stroški: ${fmtEur(cell.estimatedCost)}` : `Estimated costs: ${fmtEur(cell.estimatedCost)}`}
+                                            onChange={e => handleShare(wpIdx, cell.partnerId, e.target.value)}
+                                        />
+                                    </td>
+                                ))}
+                                <td className="py-1.5 px-3 text-right font-mono font-semibold text-indigo-800">{fmtEur(wp.total)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                    <tfoot>
+                        <tr className="border-t-2 border-slate-300 bg-slate-50 font-bold">
+                            <td className="py-2 px-3">{si ? 'SKUPAJ' : 'TOTAL'}</td>
+                            {breakdown.partners.map(p => <td key={p.partnerId} className="py-2 px-3 text-right font-mono">{fmtEur(p.lumpSum)}</td>)}
+                            <td className="py-2 px-3 text-right font-mono text-indigo-800">{fmtEur(breakdown.totals.lumpSum)}</td>
+                        </tr>
+                    </tfoot>
+                </table>
+            </div>
+
+            <h5 className="text-xs font-bold text-slate-600 uppercase tracking-wider mb-2">{si ? 'Podrobna tabela proračuna' : 'Detailed budget table'}</h5>
+            <div className="overflow-x-auto mb-6">
+                <table className="w-full text-xs">
+                    <thead>
+                        <tr className="border-b-2 border-slate-200 bg-slate-50">
+                            <th className={th + ' text-left'}>Partner</th>
+                            <th className={th + ' text-right'}>{si ? 'OM' : 'PM'}</th>
+                            {LUMP_SUM_COST_GROUPS.map(g => <th key={g.key} className={th + ' text-right'} title={g[lang]}>{g.key}</th>)}
+                            <th className={th + ' text-right'}>{si ? 'Ocenjeni stroški' : 'Estimated costs'}</th>
+                            <th className={th + ' text-right'}>{si ? 'Stopnja' : 'Rate'}</th>
+                            <th className={th + ' text-right'}>{si ? 'Največji EU prispevek' : 'Max. EU contribution'}</th>
+                            <th className={th + ' text-right'}>{si ? 'Pavšal' : 'Lump sum'}</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {breakdown.partners.map(p => (
+                            <tr key={p.partnerId} className="border-b border-slate-100">
+                                <td className="py-1.5 px-3 font-semibold text-slate-700" title={p.name}>{p.code}</td>
+                                <td className="py-1.5 px-3 text-right font-mono">{Math.round(p.pm * 10) / 10}</td>
+                                {LUMP_SUM_COST_GROUPS.map(g => <td key={g.key} className="py-1.5 px-3 text-right font-mono">{fmtEur(p.groups[g.key])}</td>)}
+                                <td className="py-1.5 px-3 text-right font-mono font-semibold">{fmtEur(p.estimatedCost)}</td>
+                                <td className="py-1.5 px-3 text-right font-mono">{p.fundingRate}%</td>
+                                <td className="py-1.5 px-3 text-right font-mono">{fmtEur(p.maxContribution)}</td>
+                                <td className={`py-1.5 px-3 text-right font-mono font-semibold ${p.lumpSum > p.maxContribution ? 'text-red-600' : 'text-indigo-800'}`}>{fmtEur(p.lumpSum)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                    <tfoot>
+                        <tr className="border-t-2 border-slate-300 bg-slate-50 font-bold">
+                            <td className="py-2 px-3">{si ? 'SKUPAJ' : 'TOTAL'}</td>
+                            <td className="py-2 px-3 text-right font-mono">{Math.round(breakdown.totals.pm * 10) / 10}</td>
+                            {LUMP_SUM_COST_GROUPS.map(g => <td key={g.key} className="py-2 px-3 text-right font-mono">{fmtEur(breakdown.totals.groups[g.key])}</td>)}
+                            <td className="py-2 px-3 text-right font-mono">{fmtEur(breakdown.totals.estimatedCost)}</td>
+                            <td className="py-2 px-3" />
+                            <td className="py-2 px-3 text-right font-mono">{fmtEur(breakdown.totals.maxContribution)}</td>
+                            <td className="py-2 px-3 text-right font-mono text-indigo-800">{fmtEur(breakdown.totals.lumpSum)}</td>
+                        </tr>
+                    </tfoot>
+                </table>
+                <p className="mt-1.5 text-xs text-slate-400">{LUMP_SUM_COST_GROUPS.map(g => g[lang]).join(' · ')}</p>
+            </div>
+
+            <h5 className="text-xs font-bold text-slate-600 uppercase tracking-wider mb-2">{si ? 'Merila zaključka delovnih sklopov' : 'Work package completion'}</h5>
+            <div className="space-y-2 mb-4">
+                {activities.map((wp, wpIdx) => {
+                    const selected: string[] = wp.lumpSum?.completionDeliverables || [];
+                    const deliverables = Array.isArray(wp.deliverables) ? wp.deliverables : [];
+                    return (
+                        <div key={wp.id || wpIdx} className="p-3 rounded-lg border border-slate-200 bg-slate-50 text-xs">
+                            <div className="font-semibold text-slate-700 mb-1.5">{wp.id} — {wp.title}</div>
+                            {deliverables.length === 0 ? (
+                                <p className="text-slate-400 italic mb-1.5">{si ? 'Delovni sklop nima dosežkov.' : 'The work package has no deliverables.'}</p>
+                            ) : (
+                                <div className="flex flex-wrap gap-x-4 gap-y-1 mb-1.5">
+                                    {deliverables.map(d => (
+                                        <label key={d.id} className="flex items-center gap-1.5 text-slate-700" title={d.indicator}>
+                                            <input type="checkbox" checked={selected.includes(d.id)} onChange={e => toggleDeliverable(wpIdx, d.id, e.target.checked)} />
+                                            <span className="font-semibold">{d.id}</span> {d.title}
+                                        </label>
+                                    ))}
+                                </div>
+                            )}
+                            <input
+                                type="text"
+                                className="w-full p-1.5 rounded border border-slate-300 bg-white"
+                                placeholder={si ? 'Merila zaključka (npr. vsi izbrani dosežki oddani in odobreni)' : 'Completion criteria (e.g. all selected deliverables submitted and approved)'}
+                                value={wp.lumpSum?.completionCriteria || ''}
+                                onChange={e => updateWpLumpSum(wpIdx, { completionCriteria: e.target.value })}
+                            />
+                        </div>
+                    );
+                })}
+            </div>
+
+            {issues.length === 0 ? (
+                <div className="p-2.5 bg-emerald-50 border border-emerald-200 rounded-lg text-sm text-emerald-800 font-medium">
+                    {si ? '✓ Vsi delovni sklopi imajo preverljiva merila zaključka.' : '✓ Every work package has verifiable completion criteria.'}
+                </div>
+            ) : (
+                <ul className="border border-slate-200 rounded-lg divide-y divide-slate-100 max-h-60 overflow-y-auto">
+                    {issues.map((issue, i) => (
+                        <li key={i} className="flex items-start gap-2 px-3 py-2 text-xs">
+                            <span className={`mt-0.5 px-1.5 py-0.5 rounded font-bold uppercase ${issue.severity === 'error' ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-700'}`}>
+                                {issue.severity === 'error' ? (si ? 'napaka' : 'error') : (si ? 'opoz.' : 'warn')}
+                            </span>
+                            <span className="flex-1 text-slate-700">{issue.message}</span>
+                            {issue.wpId && <span className="px-1.5 py-0.5 rounded bg-sky-50 text-sky-700 font-semibold">{issue.wpId}</span>}
+                            {issue.partnerCode && <span className="px-1.5 py-0.5 rounded bg-indigo-50 text-indigo-700 font-semibold">{issue.partnerCode}</span>}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default LumpSumBudgetPanel;
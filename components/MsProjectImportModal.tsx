@@ -0,0 +1,274 @@
+// components/MsProjectImportModal.tsx
+// v1.0 — 2026-03-07 — MS Project XML import (msProjectXmlService)
+//   - Choose an .xml file exported from MS Project / ProjectLibre
+//   - Preview of new / changed / removed WPs, tasks and milestones
+//   - Option to keep items that are missing from the file
+//   - Dark-mode: isDark + colors pattern
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { lightColors, darkColors, shadows, radii, spacing, typography } from '../design/theme.ts';
+import { getThemeMode, onThemeChange } from '../services/themeService.ts';
+import {
+  parseMsProjectXml,
+  buildMsProjectMerge,
+  type MsProjectTask,
+  type MsProjectChange,
+} from '../services/msProjectXmlService.ts';
+import type { LanguageCode } from '../types.ts';
+
+interface MsProjectImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectData: any;
+  language: LanguageCode;
+  onApply: (activities: any[]) => void;
+}
+
+const KIND_LABELS: Record<MsProjectChange['itemKind'], { en: string; si: string }> = {
+  wp: { en: 'Work package', si: 'Delovni sklop' },
+  task: { en: 'Task', si: 'Naloga' },
+  milestone: { en: 'Milestone', si: 'Mejnik' },
+};
+
+const MsProjectImportModal: React.FC<MsProjectImportModalProps> = ({ isOpen, onClose, projectData, language, onApply }) => {
+  const [isDark, setIsDark] = useState(getThemeMode() === 'dark');
+  const [fileName, setFileName] = useState('');
+  const [parsed, setParsed] = useState<MsProjectTask[] | null>(null);
+  const [removeMissing, setRemoveMissing] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  useEffect(() => {
+    const unsub = onThemeChange((m) => setIsDark(m === 'dark'));
+    return unsub;
+  }, []);
+  const colors = isDark ? darkColors : lightColors;
+  const si = language === 'si';
+
+  useEffect(() => {
+    if (isOpen) {
+      setFileName('');
+      setParsed(null);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  const result = useMemo(
+    () => (parsed ? buildMsProjectMerge(projectData, parsed, { removeMissing, language }) : null),
+    [parsed, projectData, removeMissing, language]
+  );
+
+  if (!isOpen) return null;
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      const items = parseMsProjectXml(await file.text());
+      if (!items.some((i) => i.kind !== 'wp')) throw new Error(si ? 'Datoteka ne vsebuje nalog.' : 'The file contains no tasks.');
+      setFileName(file.name);
+      setParsed(items);
+    } catch (e: any) {
+      console.error('[MsProjectImport] Could not read file:', e);
+      setParsed(null);
+      setError(si ? `Datoteke ni mogoče prebrati: ${e.message}` : `Could not read the file: ${e.message}`);
+    }
+  };
+
+  const changeColor = (kind: MsProjectChange['kind']): string => {
+    if (kind === 'new') return isDark ? colors.success[200] : colors.success[700];
+    if (kind === 'removed') return isDark ? colors.error[200] : colors.error[700];
+    return isDark ? colors.warning[200] : colors.warning[700];
+  };
+
+  const changeLabel = (kind: MsProjectChange['kind']): string => {
+    if (kind === 'new') return si ? 'NOVO' : 'NEW';
+    if (kind === 'removed') return si ? 'ODSTRANJENO' : 'REMOVED';
+    return si ? 'SPREMENJENO' : 'CHANGED';
+  };
+
+  const counts = result
+    ? {
+        new: result.changes.filter((c) => c.kind === 'new').length,
+        changed: result.changes.filter((c) => c.kind === 'changed').length,
+        removed: result.changes.filter((c) => c.kind === 'removed').length,
+      }
+    : null;
+
+  const buttonStyle = (primary: boolean, disabled: boolean = false): React.CSSProperties => ({
+    padding: `6px ${spacing.md}`,
+    background: primary ? colors.primary.gradient : 'transparent',
+    color: primary ? '#FFFFFF' : colors.text.body,
+    border: primary ? 'none' : `1px solid ${colors.border.light}`,
+    borderRadius: radii.md,
+    fontSize: typography.fontSize.xs,
+    fontWeight: typography.fontWeight.semibold,
+    cursor: disabled ? 'not-allowed' : 'pointer',
+    fontFamily: 'inherit',
+    opacity: disabled ? 0.5 : 1,
+  });
+
+  const cellStyle: React.CSSProperties = {
+    padding: '4px 8px',
+    borderBottom: `1px solid ${colors.border.light}`,
+    fontSize: typography.fontSize.xs,
+    color: colors.text.body,
+    textAlign: 'left',
+    verticalAlign: 'top',
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 150,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: spacing.lg,
+        background: colors.surface.overlayBlur,
+        backdropFilter: 'blur(8px)',
+      }}
+      onClick={(e) => { if (e.target === e.currentTarget) onClose(); }}
+    >
+      <div style={{
+        background: colors.surface.card,
+        borderRadius: radii['2xl'],
+        boxShadow: shadows['2xl'],
+        maxWidth: 900,
+        width: '100%',
+        maxHeight: '90vh',
+        display: 'flex',
+        flexDirection: 'column',
+        overflow: 'hidden',
+        border: `1px solid ${colors.border.light}`,
+        fontFamily: typography.fontFamily.sans,
+      }}>
+        {/* Header */}
+        <div style={{
+          padding: `${spacing.lg} ${spacing['2xl']}`,
+          borderBottom: `1px solid ${colors.border.light}`,
+          background: colors.surface.sidebar,
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          flexShrink: 0,
+        }}>
+          <div>
+            <h3 style={{ margin: 0, fontSize: typography.fontSize.lg, fontWeight: typography.fontWeight.bold, color: colors.text.heading }}>
+              {si ? 'Uvoz terminskega načrta (MS Project XML)' : 'Import schedule (MS Project XML)'}
+            </h3>
+            <p style={{ margin: '4px 0 0', fontSize: typography.fontSize.xs, color: colors.text.muted }}>
+              {fileName || (si ? 'Datoteka iz MS Project ali ProjectLibre' : 'File saved from MS Project or ProjectLibre')}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            style={{ padding: spacing.xs, border: 'none', background: 'transparent', color: colors.text.muted, cursor: 'pointer', display: 'flex' }}
+          >
+            <svg style={{ width: 22, height: 22 }} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Body */}
+        <div style={{ flex: 1, overflowY: 'auto', padding: `${spacing.lg} ${spacing['2xl']}` }} className="custom-scrollbar">
+          {error && (
+            <p style={{ margin: `0 0 ${spacing.md}`, fontSize: typography.fontSize.xs, color: isDark ? colors.error[200] : colors.error[700] }}>{error}</p>
+          )}
+
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: spacing.lg, alignItems: 'center', marginBottom: spacing.md }}>
+            <button onClick={() => fileInputRef.current?.click()} style={buttonStyle(!parsed)}>
+              {parsed ? (si ? 'Druga datoteka' : 'Other file') : (si ? 'Izberi .xml' : 'Choose .xml')}
+            </button>
+            <input ref={fileInputRef} type="file" accept=".xml,application/xml,text/xml" onChange={handleFile} style={{ display: 'none' }} />
+            {parsed && (
+              <label style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: typography.fontSize.xs, color: colors.text.body, cursor: 'pointer' }}>
+                <input type="checkbox" checked={removeMissing} onChange={(e) => setRemoveMissing(e.target.checked)} />
+                {si ? 'Odstrani naloge in mejnike, ki jih ni v datoteki' : 'Remove tasks and milestones missing from the file'}
+              </label>
+            )}
+          </div>
+
+          {!parsed && (
+            <p style={{ margin: 0, fontSize: typography.fontSize.sm, color: colors.text.body }}>
+              {si
+                ? 'Povzetki najvišje ravni postanejo delovni sklopi, naloge in mejniki se povežejo po oznaki (npr. "T1.2: …") ali naslovu. Opisi, partnerji in dosežki ostanejo nespremenjeni.'
+                : 'Top-level summary tasks become work packages; tasks and milestones are matched by their id (e.g. "T1.2: …") or title. Descriptions, partner allocations and deliverables are kept.'}
+            </p>
+          )}
+
+          {result && counts && (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: spacing.md }}>
+              <p style={{ margin: 0, fontSize: typography.fontSize.sm, color: colors.text.body }}>
+                {si
+                  ? `${counts.new} novih, ${counts.changed} spremenjenih, ${counts.removed} odstranjenih, ${result.unchanged} nespremenjenih. Terminski načrt se po uvozu preračuna glede na odvisnosti.`
+                  : `${counts.new} new, ${counts.changed} changed, ${counts.removed} removed, ${result.unchanged} unchanged. The schedule is recalculated from the dependencies after the import.`}
+              </p>
+
+              {result.warnings.length > 0 && (
+                <ul style={{ margin: 0, paddingLeft: spacing.lg, fontSize: typography.fontSize.xs, maxHeight: 120, overflowY: 'auto' }}>
+                  {result.warnings.map((w, idx) => (
+                    <li key={idx} style={{ color: isDark ? colors.warning[200] : colors.warning[700] }}>{w}</li>
+                  ))}
+                </ul>
+              )}
+
+              {result.changes.length > 0 && (
+                <div style={{ overflowX: 'auto', border: `1px solid ${colors.border.light}`, borderRadius: radii.md }}>
+                  <table style={{ borderCollapse: 'collapse', width: '100%' }}>
+                    <thead>
+                      <tr style={{ background: colors.surface.sidebar }}>
+                        <th style={cellStyle}></th>
+                        <th style={cellStyle}>{si ? 'Vrsta' : 'Type'}</th>
+                        <th style={cellStyle}>ID</th>
+                        <th style={cellStyle}>{si ? 'Naslov' : 'Title'}</th>
+                        <th style={cellStyle}>{si ? 'Spremembe' : 'Changes'}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {result.changes.map((c, idx) => (
+                        <tr key={idx}>
+                          <td style={{ ...cellStyle, color: changeColor(c.kind), fontWeight: typography.fontWeight.bold, whiteSpace: 'nowrap' }}>{changeLabel(c.kind)}</td>
+                          <td style={{ ...cellStyle, whiteSpace: 'nowrap' }}>{si ? KIND_LABELS[c.itemKind].si : KIND_LABELS[c.itemKind].en}</td>
+                          <td style={{ ...cellStyle, whiteSpace: 'nowrap', fontFamily: typography.fontFamily.mono }}>{c.id}</td>
+                          <td style={cellStyle}>{c.title}</td>
+                          <td style={{ ...cellStyle, color: colors.text.muted }}>{c.details.join('; ')}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div style={{
+          padding: `${spacing.md} ${spacing['2xl']}`,
+          borderTop: `1px solid ${colors.border.light}`,
+          display: 'flex',
+          justifyContent: 'flex-end',
+          gap: spacing.sm,
+          flexShrink: 0,
+        }}>
+          <button onClick={onClose} style={buttonStyle(false)}>
+            {si ? 'Prekliči' : 'Cancel'}
+          </button>
+          <button
+            onClick={() => { if (result) { onApply(result.activities); onClose(); } }}
+            disabled={!result || result.changes.length === 0}
+            style={buttonStyle(true, !result || result.changes.length === 0)}
+          >
+            {si ? 'Uvozi' : 'Import'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MsProjectImportModal;
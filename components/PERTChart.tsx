@@ -1,6 +1,8 @@
-// components/PERTChart.tsx v1.2
+// components/PERTChart.tsx v1.4
 // ═══════════════════════════════════════════════════════════════
 // CHANGELOG:
+// v1.4 – Expected duration te ± σ on nodes of tasks with a three-point estimate.
+// v1.3 – Dependency lag / lead label in the middle of the edge.
 // v1.2 – FIX: "Full Project" button now works after CTRL+scroll zoom.
 //         Root cause: CTRL+scroll didn't switch viewMode to 'manual',
 //         so clicking "Full Project" (which was already 'fit') didn't
@@ -13,6 +15,8 @@
 
 import React, { useMemo, useState, useEffect, useRef, useCallback } from 'react';
 import { TEXT } from '../locales.ts';
+import { formatDependencyLag } from '../utils.ts';
+import { normalizeEstimate, pertExpected, pertVariance } from '../services/pertService.ts';
 import { TECHNICAL_CONFIG } from '../services/TechnicalInstructions.ts';
 import { useZoomPan } from '../hooks/useZoomPan';
 import { ZoomBadge } from '../hooks/ZoomBadge';
@@ -72,9 +76,9 @@ const PERTChart = ({ activities, language = 'en', id = 'pert-chart-content', pri
 
     // Process Data
     const { nodes, edges, chartDimensions, criticalPathNodes, criticalPathEdges } = useMemo(() => {
-        const nodeList = [];
+        const nodeList: any[] = [];
         const nodeMap = new Map();
-        const edgeList = [];
+        const edgeList: any[] = [];
 
         activities.forEach((wp, wpIndex) => {
             (wp.tasks || []).forEach((task) => {
@@ -87,6 +91,7 @@ const PERTChart = ({ activities, language = 'en', id = 'pert-chart-content', pri
                         startDate: task.startDate ? new Date(task.startDate) : null,
                         endDate: task.endDate ? new Date(task.endDate) : null,
                         duration: 0,
+                        estimate: normalizeEstimate(task.estimate),
                         level: 0,
                         x: 0,
                         y: 0,
@@ -206,7 +211,8 @@ const PERTChart = ({ activities, language = 'en', id = 'pert-chart-content', pri
                     edgeList.push({
                         from: predecessor,
                         to: node,
-                        type: dep.type
+                        type: dep.type,
+                        lagLabel: formatDependencyLag(dep, language)
                     });
                 }
             });
@@ -222,7 +228,7 @@ const PERTChart = ({ activities, language = 'en', id = 'pert-chart-content', pri
                 height: Math.max(totalChartHeight + 100, 500)
             }
         };
-    }, [activities]);
+    }, [activities, language]);
 
     if (nodes.length === 0) {
         return (
@@ -392,15 +398,31 @@ const PERTChart = ({ activities, language = 'en', id = 'pert-chart-content', pri
                                 }
 
                                 return (
-                                    <path
-                                        key={`${edge.from.id}-${edge.to.id}`}
-                                        d={getPath(edge.from, edge.to)}
-                                        fill="none"
-                                        stroke={strokeColor}
-                                        strokeWidth={strokeWidth}
-                                        markerEnd={marker}
-                                        style={{ opacity, transition: 'opacity 0.2s, stroke 0.2s' }}
-                                    />
+                                    <g key={`${edge.from.id}-${edge.to.id}`} style={{ opacity, transition: 'opacity 0.2s' }}>
+                                        <path
+                                            d={getPath(edge.from, edge.to)}
+                                            fill="none"
+                                            stroke={strokeColor}
+                                            strokeWidth={strokeWidth}
+                                            markerEnd={marker}
+                                            style={{ transition: 'stroke 0.2s' }}
+                                        />
+                                        {edge.lagLabel && (
+                                            <text
+                                                x={(edge.from.x + NODE_WIDTH + edge.to.x) / 2}
+                                                y={(edge.from.y + edge.to.y + NODE_HEIGHT) / 2 - 6}
+                                                textAnchor="middle"
+                                                fontSize="11"
+                                                fontWeight="600"
+                                                fill={strokeColor}
+                                                stroke="#ffffff"
+                                                strokeWidth="3"
+                                                paintOrder="stroke"
+                                            >
+                                                {edge.lagLabel}
+                                            </text>
+                                        )}
+                                    </g>
                                 );
                             })}
 
@@ -437,7 +459,14 @@ const PERTChart = ({ activities, language = 'en', id = 'pert-chart-content', pri
                                             >
                                                 <div className="flex justify-between items-start">
                                                     <span className={`font-bold text-xs ${isCritical ? 'text-red-700' : 'text-slate-500'}`}>{node.id}</span>
-                                                    {node.duration > 0 && (
+                                                    {node.estimate ? (
+                                                        <span
+                                                            className="text-[10px] bg-amber-50 border border-amber-200 px-1.5 py-0.5 rounded-full text-amber-700 font-mono"
+                                                            title={`O ${node.estimate.optimistic} / M ${node.estimate.mostLikely} / P ${node.estimate.pessimistic}`}
+                                                        >
+                                                            {pertExpected(node.estimate).toFixed(1)}d ±{Math.sqrt(pertVariance(node.estimate)).toFixed(1)}
+                                                        </span>
+                                                    ) : node.duration > 0 && (
                                                         <span className="text-[10px] bg-slate-100 px-1.5 py-0.5 rounded-full text-slate-500 font-mono">
                                                             {node.duration}d
                                                         </span>
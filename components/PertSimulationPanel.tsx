@@ -0,0 +1,166 @@
+// components/PertSimulationPanel.tsx
+// ═══════════════════════════════════════════════════════════════
+// PERT probabilistic completion – v1.0 (2026-03-07)
+// ═══════════════════════════════════════════════════════════════
+// Under the PERT chart (pertService):
+//   - Classic PERT: expected finish, σ, probability of finishing by
+//     the project end date, driving chain
+//   - Monte Carlo (seeded, client-side): completion date histogram
+//     with the project end date marked, percentiles, criticality index
+//     per task next to te / σ
+// ═══════════════════════════════════════════════════════════════
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { analyzePert, runMonteCarlo, DEFAULT_MC_RUNS, DEFAULT_MC_SEED, type MonteCarloResult } from '../services/pertService.ts';
+
+const HIST_HEIGHT = 120;
+const HIST_BAR = 22;
+
+const pct = (value: number | null | undefined): string =>
+    value === null || value === undefined ? '—' : `${Math.round(value * 1000) / 10}%`;
+
+const PertSimulationPanel = ({ projectData, language = 'en' }) => {
+    const si = language === 'si';
+    const [runs, setRuns] = useState(DEFAULT_MC_RUNS);
+    const [seed, setSeed] = useState(DEFAULT_MC_SEED);
+    const [result, setResult] = useState<MonteCarloResult | null>(null);
+    const [running, setRunning] = useState(false);
+
+    const analysis = useMemo(() => analyzePert(projectData), [projectData.activities, projectData.projectIdea]);
+
+    // A run describes the schedule it was made on
+    useEffect(() => { setResult(null); }, [analysis]);
+
+    if (!analysis) return null;
+
+    const handleRun = () => {
+        setRunning(true);
+        // Let the button state paint before the synchronous simulation
+        setTimeout(() => {
+            setResult(runMonteCarlo(projectData, runs, seed));
+            setRunning(false);
+        }, 20);
+    };
+
+    const maxCount = result ? Math.max(1, ...result.histogram.map(h => h.count)) : 1;
+    const deadlineBin = result && analysis.deadline
+        ? result.histogram.findIndex((h, i) => {
+            const next = result.histogram[i + 1];
+            return h.date <= analysis.deadline! && (!next || next.date > analysis.deadline!);
+        })
+        : -1;
+
+    const rows = [...analysis.tasks].sort((a, b) =>
+        (result ? (result.criticality[b.id] || 0) - (result.criticality[a.id] || 0) : 0) || a.earliestStart - b.earliestStart);
+
+    return (
+        <div className="mt-4 border border-slate-200 rounded-xl bg-white overflow-hidden">
+            <div className="px-4 py-3 bg-slate-50 border-b border-slate-200 flex flex-wrap items-center justify-between gap-3">
+                <strong className="text-sm text-slate-700">{si ? 'Verjetnost pravočasnega zaključka (PERT)' : 'Probability of on-time completion (PERT)'}</strong>
+                <div className="flex items-center gap-2 text-xs text-slate-600">
+                    <label className="flex items-center gap-1">
+                        {si ? 'Ponovitve' : 'Runs'}
+                        <select className="p-1 rounded border border-slate-300 bg-white" value={runs} onChange={e => setRuns(parseInt(e.target.value, 10))}>
+                            {[500, 1000, 2000, 5000, 10000].map(n => <option key={n} value={n}>{n}</option>)}
+                        </select>
+                    </label>
+                    <label className="flex items-center gap-1">
+                        Seed
+                        <input type="number" className="w-20 p-1 rounded border border-slate-300 bg-white" value={seed} onChange={e => setSeed(parseInt(e.target.value, 10) || 0)} />
+                    </label>
+                    <button onClick={handleRun} disabled={running} className="px-3 py-1.5 font-semibold text-white bg-sky-600 rounded hover:bg-sky-700 disabled:opacity-50 transition-colors">
+                        {running ? (si ? 'Simulacija…' : 'Simulating…') : 'Monte Carlo'}
+                    </button>
+                </div>
+            </div>
+
+            <div className="p-4 grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div className="text-sm text-slate-700 space-y-1.5">
+                    <div>{si ? 'Pričakovani zaključek' : 'Expected finish'}: <strong className="font-mono">{analysis.expectedFinish}</strong> <span className="text-slate-500">(σ = {analysis.stdDevDays.toFixed(1)} {si ? 'dni' : 'days'})</span></div>
+                    <div>{si ? 'Konec projekta' : 'Project end'}: <strong className="font-mono">{analysis.deadline || '—'}</strong></div>
+                    <div>
+                        {si ? 'Verjetnost zaključka do konca projekta' : 'Probability of finishing by project end'}:{' '}
+                        <strong className={(analysis.probabilityOnTime ?? 1) < 0.5 ? 'text-red-600' : 'text-emerald-700'}>{pct(analysis.probabilityOnTime)}</strong>
+                        {result && <span className="text-slate-500"> · Monte Carlo: <strong>{pct(result.probabilityOnTime)}</strong></span>}
+                    </div>
+                    <div className="text-xs text-slate-500">{si ? 'Kritična veriga' : 'Driving chain'}: {analysis.criticalPath.join(' → ')}</div>
+                    {analysis.estimatedCount === 0 && (
+                        <div className="text-xs text-amber-700">
+                            {si
+                                ? 'Nobena naloga nima tritočkovne ocene (O/M/P) — trajanja so določena z datumi, zato je izid determinističen.'
+                                : 'No task has a three-point estimate (O/M/P) — durations come from the dates, so the outcome is deterministic.'}
+                        </div>
+                    )}
+                </div>
+
+                {result && (
+                    <div>
+                        <svg width={result.histogram.length * HIST_BAR + 10} height={HIST_HEIGHT + 30} className="block max-w-full">
+                            {result.histogram.map((h, i) => {
+                                const barHeight = (h.count / maxCount) * HIST_HEIGHT;
+                                const late = analysis.deadline ? h.date > analysis.deadline : false;
+                                return (
+                                    <g key={h.date}>
+                                        <rect x={i * HIST_BAR + 5} y={HIST_HEIGHT - barHeight + 5} width={HIST_BAR - 3} height={barHeight} fill={late ? '#f87171' : '#38bdf8'}>
+                                            <title>{`${h.date}: ${h.count}`}</title>
+                                        </rect>
+                                        {i % 4 === 0 && (
+                                            <text x={i * HIST_BAR + 5} y={HIST_HEIGHT + 20} fontSize={9} fill="#64748b">{h.date.slice(2)}</text>
+                                        )}
+                                    </g>
+                                );
+                            })}
+                            {deadlineBin >= 0 && (
+                                <line x1={(deadlineBin + 1) * HIST_BAR + 3} x2={(deadlineBin + 1) * HIST_BAR + 3} y1={0} y2={HIST_HEIGHT + 8} stroke="#dc2626" strokeWidth={1.5} strokeDasharray="4 3" />
+                            )}
+                        </svg>
+                        <div className="mt-1 flex flex-wrap gap-3 text-xs text-slate-600">
+                            {result.percentiles.map(p => <span key={p.p}>P{p.p}: <strong className="font-mono">{p.date}</strong></span>)}
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            <div className="max-h-72 overflow-y-auto border-t border-slate-100">
+                <table className="w-full text-xs">
+                    <thead className="bg-slate-50 sticky top-0">
+                        <tr className="text-slate-600">
+                            <th className="text-left py-2 px-3 font-semibold">{si ? 'Naloga' : 'Task'}</th>
+                            <th className="text-right py-2 px-3 font-semibold">O / M / P</th>
+                            <th className="text-right py-2 px-3 font-semibold">t<sub>e</sub></th>
+                            <th className="text-right py-2 px-3 font-semibold">σ</th>
+                            <th className="text-right py-2 px-3 font-semibold">{si ? 'Rezerva' : 'Slack'}</th>
+                            <th className="text-right py-2 px-3 font-semibold">{si ? 'Indeks kritičnosti' : 'Criticality index'}</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.map(task => {
+                            const ci = result ? result.criticality[task.id] || 0 : null;
+                            return (
+                                <tr key={task.id} className="border-t border-slate-100">
+                                    <td className={`py-1.5 px-3 font-semibold ${task.isCritical ? 'text-red-700' : 'text-slate-700'}`} title={task.title}>{task.id}</td>
+                                    <td className="py-1.5 px-3 text-right font-mono text-slate-500">
+                                        {task.estimate ? `${task.estimate.optimistic} / ${task.estimate.mostLikely} / ${task.estimate.pessimistic}` : `${task.duration} d`}
+                                    </td>
+                                    <td className="py-1.5 px-3 text-right font-mono">{(task.expectedDuration || 0).toFixed(1)}</td>
+                                    <td className="py-1.5 px-3 text-right font-mono">{Math.sqrt(task.variance || 0).toFixed(1)}</td>
+                                    <td className="py-1.5 px-3 text-right font-mono">{task.slack.toFixed(1)}</td>
+                                    <td className="py-1.5 px-3 text-right">
+                                        {ci === null ? '—' : (
+                                            <span className="inline-flex items-center gap-1.5">
+                                                <span className="inline-block h-1.5 bg-red-400 rounded" style={{ width: `${Math.round(ci * 60)}px` }} />
+                                                <span className="font-mono">{pct(ci)}</span>
+                                            </span>
+                                        )}
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+export default PertSimulationPanel;
@@ -1,5 +1,10 @@
 // components/PrintLayout.tsx
 // ═══════════════════════════════════════════════════════════════
+// v6.7 — 2026-03-07 — Finance totals convert non-EUR direct cost items to EUR (currencyService)
+// v6.6 — 2026-03-07 — Finance in lump-sum mode: lump sum breakdown, detailed budget table (A–E), WP completion
+// v6.5 — 2026-03-07 — Gantt printed as landscape pages (renderGanttPages, repeated timeline header)
+// v6.4 — 2026-03-07 — Gantt / PERT / organigram printed as SVG from chartSvgService
+//   ★ v6.4: ChartImage — no live chart components, print does not depend on layout
 // v6.3 — 2026-03-06 — EO-032: Removed Euro-Office logo from print layout
 //   ★ v6.3: Print output no longer shows app logo — clean project-only output
 // v6.2 — 2026-02-24 — DEFENSIVE ARRAY HANDLING (safeArray)
@@ -13,9 +18,10 @@
 import React from 'react';
 import { getSteps, getReadinessLevelsDefinitions, BRAND_ASSETS } from '../constants.tsx';
 import { TEXT } from '../locales.ts';
-import GanttChart from './GanttChart.tsx';
-import PERTChart from './PERTChart.tsx';
-import Organigram from './Organigram.tsx';
+import { renderChartSvg, renderGanttPages, type ChartKind } from '../services/chartSvgService.ts';
+import { getActiveBaseline } from '../services/scheduleBaselineService.ts';
+import { computeLumpSumBreakdown, isLumpSumMode, LUMP_SUM_COST_GROUPS } from '../services/lumpSumService.ts';
+import { directCostAmountEur } from '../services/currencyService.ts';
 import {
     PM_HOURS_PER_MONTH,
     CENTRALIZED_DIRECT_COSTS,
@@ -73,6 +79,27 @@ const Item: React.FC<ItemProps> = ({ title, description, indicator, indicatorLab
     </div>
 );
 
+interface ChartImageProps {
+    kind: ChartKind;
+    projectData: any;
+    language: string;
+    id?: string;
+}
+
+// ★ v6.4: Charts are standalone SVG rendered from data — they scale to the page width and print sharp
+const ChartImage: React.FC<ChartImageProps> = ({ kind, projectData, language, id }) => {
+    const chart = renderChartSvg(kind, projectData, language, { baseline: getActiveBaseline(projectData) });
+    if (!chart) return null;
+    return (
+        <img
+            id={id}
+            src={'data:image/svg+xml;charset=utf-8,' + encodeURIComponent(chart.svg)}
+            alt={kind}
+            style={{ display: 'block', width: '100%', maxWidth: `${chart.width}px`, height: 'auto' }}
+        />
+    );
+};
+
 interface ProblemNodeDisplayProps {
     node: { title: string; description: string };
     prefix: string;
@@ -128,7 +155,7 @@ const PrintLayout = ({ projectData, language = 'en', logo }) => {
         (wp.tasks || []).forEach((task: any) => {
             (task.partnerAllocations || []).forEach((alloc: any) => {
                 const partner = partners.find((p: any) => p.id === alloc.partnerId);
-                const directTotal = (alloc.directCosts || []).reduce((sum: number, dc: any) => sum + (dc.amount || 0), 0);
+                const directTotal = (alloc.directCosts || []).reduce((sum: number, dc: any) => sum + directCostAmountEur(dc, projectData), 0);
                 const indirectTotal = (alloc.indirectCosts || []).reduce((sum: number, ic: any) => {
                     return sum + Math.round(directTotal * ((ic.percentage || 0) / 100));
                 }, 0);
@@ -212,7 +239,7 @@ const PrintLayout = ({ projectData, language = 'en', logo }) => {
                             <p className="whitespace-pre-wrap mb-4">{projectManagement.description}</p>
                             <h4 className="font-bold mb-2">{t.management.organigram}</h4>
                             <div style={{ width: '100%', overflow: 'visible', background: 'white' }}>
-                                <Organigram structure={projectManagement.structure} activities={activities} language={language} id="organigram-print" printMode={true} containerWidth={960} />
+                                <ChartImage kind="organigram" projectData={projectData} language={language} id="organigram-print" />
                             </div>
                         </SubSection>
                     )}
@@ -300,7 +327,7 @@ const PrintLayout = ({ projectData, language = 'en', logo }) => {
                                                 <tbody>
                                                     {taskAllocs.map((alloc, ai) => {
                                                         const partner = partners.find(p => p.id === alloc.partnerId);
-                                                        const dTotal = (alloc.directCosts || []).reduce((s, dc) => s + (dc.amount || 0), 0);
+                                                        const dTotal = (alloc.directCosts || []).reduce((s, dc) => s + directCostAmountEur(dc, projectData), 0);
                                                         const iTotal = (alloc.indirectCosts || []).reduce((s, ic) => s + Math.round(dTotal * ((ic.percentage || 0) / 100)), 0);
                                                         return (
                                                             <tr key={ai}>
@@ -339,19 +366,26 @@ const PrintLayout = ({ projectData, language = 'en', logo }) => {
                         ))}
                     </SubSection>
 
-                    {/* Gantt Chart — print-optimized with fixed dimensions */}
-                    <div style={{ pageBreakBefore: 'always', marginTop: '1.5rem', marginBottom: '1.5rem' }}>
-                         <h3 className="text-xl font-semibold text-gray-800 mb-2">{t.subSteps.ganttChart}</h3>
-                         <div style={{ width: '100%', overflow: 'visible', border: '1px solid #d1d5db', borderRadius: '4px', background: 'white' }}>
-                             <GanttChart activities={activities} language={language} id="gantt-chart-print" forceViewMode="project" containerWidth={960} printMode={true} />
-                         </div>
-                    </div>
+                    {/* Gantt Chart — ★ v6.5: paginated, one landscape page per chunk (ProjectData.ganttExport) */}
+                    {renderGanttPages(activities, language, { ...projectData.ganttExport, baseline: getActiveBaseline(projectData) }).map((page, i) => (
+                        <div key={i} className="print-landscape" style={{ pageBreakBefore: 'always', marginTop: '1.5rem', marginBottom: '1.5rem' }}>
+                            {i === 0 && <h3 className="text-xl font-semibold text-gray-800 mb-2">{t.subSteps.ganttChart}</h3>}
+                            <div style={{ width: '100%', overflow: 'visible', border: '1px solid #d1d5db', borderRadius: '4px', background: 'white' }}>
+                                <img
+                                    id={i === 0 ? 'gantt-chart-print' : undefined}
+                                    src={'data:image/svg+xml;charset=utf-8,' + encodeURIComponent(page.svg)}
+                                    alt={page.title}
+                                    style={{ display: 'block', width: '100%', height: 'auto' }}
+                                />
+                            </div>
+                        </div>
+                    ))}
 
-                    {/* PERT Chart — print-optimized with fixed dimensions */}
+                    {/* PERT Chart — SVG rendered from data (chartSvgService) */}
                     <div style={{ pageBreakBefore: 'always', marginTop: '1.5rem', marginBottom: '1.5rem' }}>
                          <h3 className="text-xl font-semibold text-gray-800 mb-2">{t.subSteps.pertChart}</h3>
                          <div style={{ width: '100%', overflow: 'visible', border: '1px solid #d1d5db', borderRadius: '4px', background: 'white' }}>
-                             <PERTChart activities={activities} language={language} printMode={true} containerWidth={960} />
+                             <ChartImage kind="pert" projectData={projectData} language={language} id="pert-chart-print" />
                          </div>
                     </div>
 
@@ -464,6 +498,106 @@ const PrintLayout = ({ projectData, language = 'en', logo }) => {
                                     </tr>
                                 </tfoot>
                             </table>
+
+                            {/* ★ v6.6: Lump-sum Part B layout */}
+                            {isLumpSumMode(projectData) && (() => {
+                                const lump = computeLumpSumBreakdown(projectData);
+                                const si = language === 'si';
+                                const eur = (n: number) => `€${n.toLocaleString()}`;
+                                const td = 'border border-gray-300 p-1.5 text-right font-mono';
+                                return (
+                                    <>
+                                        <h4 className="font-bold text-gray-700 mb-2 mt-4">{si ? 'Razčlenitev pavšalnega zneska' : 'Lump sum breakdown'}</h4>
+                                        <table className="w-full border-collapse border border-gray-300 text-xs mb-4">
+                                            <thead>
+                                                <tr className="bg-gray-100">
+                                                    <th className="border border-gray-300 p-1.5 text-left">WP</th>
+                                                    {lump.partners.map(p => <th key={p.partnerId} className="border border-gray-300 p-1.5 text-right">{p.code}</th>)}
+                                                    <th className="border border-gray-300 p-1.5 text-right">{tf.grandTotal || 'Total'}</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody>
+                                                {lump.workPackages.map(wp => (
+                                                    <tr key={wp.wpId}>
+                                                        <td className="border border-gray-300 p-1.5 font-bold">{wp.wpId}</td>
+                                                        {wp.cells.map(c => <td key={c.partnerId} className={td}>{eur(c.share)}</td>)}
+                                                        <td className={td + ' font-bold'}>{eur(wp.total)}</td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                            <tfoot>
+                                                <tr className="bg-gray-100 font-bold">
+                                                    <td className="border border-gray-300 p-1.5">{tf.grandTotal || 'TOTAL'}</td>
+                                                    {lump.partners.map(p => <td key={p.partnerId} className={td}>{eur(p.lumpSum)}</td>)}
+                                                    <td className={td}>{eur(lump.totals.lumpSum)}</td>
+                                                </tr>
+                                            </tfoot>
+                                        </table>
+
+                                        <h4 className="font-bold text-gray-700 mb-2">{si ? 'Podrobna tabela proračuna' : 'Detailed budget table'}</h4>
+                                        <table className="w-full border-collapse border border-gray-300 text-xs mb-1">
+                                            <thead>
+                                                <tr className="bg-gray-100">
+                                                    <th className="border border-gray-300 p-1.5 text-left">{tp.code || 'Partner'}</th>
+                                                    <th className="border border-gray-300 p-1.5 text-right">{tp.totalPM || 'PM'}</th>
+                                                    {LUMP_SUM_COST_GROUPS.map(g => <th key={g.key} className="border border-gray-300 p-1.5 text-right">{g.key}</th>)}
+                                                    <th className="border border-gray-300 p-1.5 text-right">{si ? 'Ocenjeni stroški' : 'Estimated costs'}</th>
+                                                    <th className="border border-gray-300 p-1.5 text-right">{si ? 'Stopnja' : 'Rate'}</th>
+                                                    <th className="border border-gray-300 p-1.5 text-right">{si ? 'Največji EU prispevek' : 'Max. EU contribution'}</th>
+                                                    <th className="border border-gray-300 p-1.5 text-right">{si ? 'Pavšal' : 'Lump sum'}</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody>
+                                                {lump.partners.map(p => (
+                                                    <tr key={p.partnerId}>
+                                                        <td className="border border-gray-300 p-1.5 font-bold">{p.code}</td>
+                                                        <td className={td}>{p.pm.toFixed(1)}</td>
+                                                        {LUMP_SUM_COST_GROUPS.map(g => <td key={g.key} className={td}>{eur(p.groups[g.key])}</td>)}
+                                                        <td className={td + ' font-bold'}>{eur(p.estimatedCost)}</td>
+                                                        <td className={td}>{p.fundingRate}%</td>
+                                                        <td className={td}>{eur(p.maxContribution)}</td>
+                                                        <td className={td + ' font-bold'}>{eur(p.lumpSum)}</td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                            <tfoot>
+                                                <tr className="bg-gray-100 font-bold">
+                                                    <td className="border border-gray-300 p-1.5">{tf.grandTotal || 'TOTAL'}</td>
+                                                    <td className={td}>{lump.totals.pm.toFixed(1)}</td>
+                                                    {LUMP_SUM_COST_GROUPS.map(g => <td key={g.key} className={td}>{eur(lump.totals.groups[g.key])}</td>)}
+                                                    <td className={td}>{eur(lump.totals.estimatedCost)}</td>
+                                                    <td className="border border-gray-300 p-1.5" />
+                                                    <td className={td}>{eur(lump.totals.maxContribution)}</td>
+                                                    <td className={td}>{eur(lump.totals.lumpSum)}</td>
+                                                </tr>
+                                            </tfoot>
+                                        </table>
+                                        <p className="text-xs text-gray-500 italic mb-4">{LUMP_SUM_COST_GROUPS.map(g => si ? g.si : g.en).join(' · ')}</p>
+
+                                        <h4 className="font-bold text-gray-700 mb-2">{si ? 'Merila zaključka delovnih sklopov' : 'Work package completion'}</h4>
+                                        <table className="w-full border-collapse border border-gray-300 text-xs">
+                                            <thead>
+                                                <tr className="bg-gray-100">
+                                                    <th className="border border-gray-300 p-1.5 text-left">WP</th>
+                                                    <th className="border border-gray-300 p-1.5 text-right">{si ? 'Pavšal' : 'Lump sum'}</th>
+                                                    <th className="border border-gray-300 p-1.5 text-left">{si ? 'Dosežki' : 'Deliverables'}</th>
+                                                    <th className="border border-gray-300 p-1.5 text-left">{si ? 'Merila zaključka' : 'Completion criteria'}</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody>
+                                                {lump.workPackages.map(wp => (
+                                                    <tr key={wp.wpId}>
+                                                        <td className="border border-gray-300 p-1.5 font-bold">{wp.wpId}</td>
+                                                        <td className={td}>{eur(wp.total)}</td>
+                                                        <td className="border border-gray-300 p-1.5">{wp.completionDeliverables.map(d => `${d.id} ${d.title}`).join('; ') || '—'}</td>
+                                                        <td className="border border-gray-300 p-1.5">{wp.completionCriteria || '—'}</td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    </>
+                                );
+                            })()}
                         </SubSection>
                     )}
 
@@ -14,12 +14,13 @@ import ChartRenderer from './ChartRenderer.tsx';
 import { lightColors, darkColors, shadows, radii, spacing, typography } from '../design/theme.ts';
 import { getThemeMode, onThemeChange } from '../services/themeService.ts';
 import { ProgressRing } from '../design/index.ts';
+import type { LanguageCode } from '../languages.ts';
 
 interface ProjectDashboardProps {
   isOpen: boolean;
   onClose: () => void;
   projectData: any;
-  language: 'en' | 'si';
+  language: LanguageCode;
 }
 
 const DashboardIcons = {
@@ -0,0 +1,246 @@
+// components/ProjectDiffModal.tsx
+// v1.0 — 2026-03-07 — Structural diff viewer (projectDiffService)
+//   - ProjectDiffView: grouped per section, added / removed / modified,
+//     word-level highlighting for modified text
+//   - ProjectDiffModal: standalone modal wrapper around ProjectDiffView
+//   - Dark-mode: isDark + colors pattern
+import React, { useState, useEffect, useMemo } from 'react';
+import { lightColors, darkColors, shadows, radii, spacing, typography } from '../design/theme.ts';
+import { getThemeMode, onThemeChange } from '../services/themeService.ts';
+import { diffProjectData, type ProjectDiffEntry, type ProjectDiffOptions } from '../services/projectDiffService.ts';
+import type { LanguageCode } from '../languages.ts';
+
+// ─── Diff view (embeddable) ──────────────────────────────────────
+
+interface ProjectDiffViewProps {
+  oldData: any;
+  newData: any;
+  options?: ProjectDiffOptions;
+  language: LanguageCode;
+}
+
+export const ProjectDiffView: React.FC<ProjectDiffViewProps> = ({ oldData, newData, options, language }) => {
+  const [isDark, setIsDark] = useState(getThemeMode() === 'dark');
+  const [sectionFilter, setSectionFilter] = useState<string>('all');
+  useEffect(() => {
+    const unsub = onThemeChange((m) => setIsDark(m === 'dark'));
+    return unsub;
+  }, []);
+  const colors = isDark ? darkColors : lightColors;
+
+  const result = useMemo(
+    () => diffProjectData(oldData, newData, options),
+    [oldData, newData, options?.matchBy, options?.includeTextChanges]
+  );
+  const sections = Object.keys(result.bySection);
+
+  useEffect(() => {
+    if (sectionFilter !== 'all' && !result.bySection[sectionFilter]) setSectionFilter('all');
+  }, [result, sectionFilter]);
+
+  const addedBg = isDark ? 'rgba(16,185,129,0.25)' : colors.success[100];
+  const removedBg = isDark ? 'rgba(239,68,68,0.25)' : colors.error[100];
+
+  const typeBadge = (entry: ProjectDiffEntry) => {
+    const map = {
+      added: { bg: addedBg, fg: isDark ? colors.success[200] : colors.success[700], en: 'added', si: 'dodano' },
+      removed: { bg: removedBg, fg: isDark ? colors.error[200] : colors.error[700], en: 'removed', si: 'odstranjeno' },
+      modified: { bg: isDark ? 'rgba(245,158,11,0.2)' : colors.warning[100], fg: isDark ? colors.warning[200] : colors.warning[700], en: 'modified', si: 'spremenjeno' },
+    }[entry.type];
+    return (
+      <span style={{
+        fontSize: '10px',
+        padding: '1px 8px',
+        borderRadius: radii.full,
+        background: map.bg,
+        color: map.fg,
+        fontWeight: typography.fontWeight.bold,
+        textTransform: 'uppercase',
+        flexShrink: 0,
+      }}>
+        {language === 'si' ? map.si : map.en}
+      </span>
+    );
+  };
+
+  const renderValue = (entry: ProjectDiffEntry) => {
+    if (entry.words) {
+      return entry.words.map((part, idx) => (
+        <span
+          key={idx}
+          style={{
+            background: part.type === 'added' ? addedBg : part.type === 'removed' ? removedBg : 'transparent',
+            textDecoration: part.type === 'removed' ? 'line-through' : 'none',
+          }}
+        >
+          {part.text}
+        </span>
+      ));
+    }
+    if (entry.type === 'modified') {
+      return (
+        <>
+          <span style={{ background: removedBg, textDecoration: 'line-through' }}>{entry.oldValue}</span>
+          {' → '}
+          <span style={{ background: addedBg }}>{entry.newValue}</span>
+        </>
+      );
+    }
+    return (
+      <span style={{
+        background: entry.type === 'added' ? addedBg : removedBg,
+        textDecoration: entry.type === 'removed' ? 'line-through' : 'none',
+      }}>
+        {entry.type === 'added' ? entry.newValue : entry.oldValue}
+      </span>
+    );
+  };
+
+  const visibleSections = sectionFilter === 'all' ? sections : [sectionFilter];
+
+  return (
+    <div>
+      {/* Summary + section filter */}
+      <div style={{ display: 'flex', alignItems: 'center', gap: spacing.md, marginBottom: spacing.md, flexWrap: 'wrap' }}>
+        <span style={{ fontSize: typography.fontSize.xs, color: colors.text.muted }}>
+          {language === 'si'
+            ? `${result.stats.added} dodanih · ${result.stats.removed} odstranjenih · ${result.stats.modified} spremenjenih`
+            : `${result.stats.added} added · ${result.stats.removed} removed · ${result.stats.modified} modified`}
+        </span>
+        {sections.length > 1 && (
+          <select
+            value={sectionFilter}
+            onChange={(e) => setSectionFilter(e.target.value)}
+            style={{ fontSize: typography.fontSize.xs, padding: '4px 8px', borderRadius: radii.md, border: `1px solid ${colors.border.light}`, background: colors.surface.card, color: colors.text.body }}
+          >
+            <option value="all">{language === 'si' ? 'Vsi razdelki' : 'All sections'}</option>
+            {sections.map((s) => (
+              <option key={s} value={s}>{s} ({result.bySection[s].length})</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {result.entries.length === 0 ? (
+        <p style={{ textAlign: 'center', color: colors.text.muted, fontSize: typography.fontSize.sm, padding: spacing['2xl'] }}>
+          {language === 'si' ? 'Ni razlik.' : 'No differences.'}
+        </p>
+      ) : visibleSections.map((section) => (
+        <div key={section} style={{ marginBottom: spacing.lg }}>
+          <h4 style={{
+            margin: `0 0 ${spacing.sm}`,
+            fontSize: typography.fontSize.sm,
+            fontWeight: typography.fontWeight.semibold,
+            color: colors.text.heading,
+          }}>
+            {section}
+          </h4>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
+            {result.bySection[section].map((entry, idx) => (
+              <div key={entry.type + entry.path + idx} style={{
+                padding: spacing.sm,
+                borderRadius: radii.md,
+                border: `1px solid ${colors.border.light}`,
+                background: colors.surface.background,
+              }}>
+                <div style={{ display: 'flex', alignItems: 'center', gap: spacing.sm, marginBottom: 4 }}>
+                  {typeBadge(entry)}
+                  <span style={{ fontSize: '11px', color: colors.text.muted, fontFamily: typography.fontFamily.mono, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={entry.path}>
+                    {entry.label}
+                  </span>
+                </div>
+                <div style={{ fontSize: typography.fontSize.xs, lineHeight: 1.5, color: colors.text.body, whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+                  {renderValue(entry)}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// ─── Modal ───────────────────────────────────────────────────────
+
+interface ProjectDiffModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  oldData: any;
+  newData: any;
+  oldLabel: string;
+  newLabel: string;
+  options?: ProjectDiffOptions;
+  language: LanguageCode;
+}
+
+const ProjectDiffModal: React.FC<ProjectDiffModalProps> = ({
+  isOpen, onClose, oldData, newData, oldLabel, newLabel, options, language
+}) => {
+  const [isDark, setIsDark] = useState(getThemeMode() === 'dark');
+  useEffect(() => {
+    const unsub = onThemeChange((m) => setIsDark(m === 'dark'));
+    return unsub;
+  }, []);
+  const colors = isDark ? darkColors : lightColors;
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 150,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: spacing.lg,
+        background: colors.surface.overlayBlur,
+        backdropFilter: 'blur(8px)',
+      }}
+      onClick={(e) => { if (e.target === e.currentTarget) onClose(); }}
+    >
+      <div style={{
+        background: colors.surface.card,
+        borderRadius: radii['2xl'],
+        boxShadow: shadows['2xl'],
+        maxWidth: 900,
+        width: '100%',
+        maxHeight: '90vh',
+        display: 'flex',
+        flexDirection: 'column',
+        overflow: 'hidden',
+        border: `1px solid ${colors.border.light}`,
+        fontFamily: typography.fontFamily.sans,
+      }}>
+        <div style={{
+          padding: `${spacing.lg} ${spacing['2xl']}`,
+          borderBottom: `1px solid ${colors.border.light}`,
+          background: colors.surface.sidebar,
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          flexShrink: 0,
+        }}>
+          <h3 style={{ margin: 0, fontSize: typography.fontSize.lg, fontWeight: typography.fontWeight.bold, color: colors.text.heading }}>
+            {oldLabel} → {newLabel}
+          </h3>
+          <button
+            onClick={onClose}
+            style={{ padding: spacing.xs, border: 'none', background: 'transparent', color: colors.text.muted, cursor: 'pointer', display: 'flex' }}
+          >
+            <svg style={{ width: 22, height: 22 }} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <div style={{ flex: 1, overflowY: 'auto', padding: `${spacing.lg} ${spacing['2xl']}` }} className="custom-scrollbar">
+          <ProjectDiffView oldData={oldData} newData={newData} options={options} language={language} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectDiffModal;
@@ -1,5 +1,24 @@
 // components/ProjectDisplay.tsx
 // ═══════════════════════════════════════════════════════════════
+// v7.30 — 2026-03-07 — AI SUGGESTIONS: field changes reviewed under the field (FieldSuggestion in TextArea), banner lists the rest
+// v7.29 — 2026-03-07 — FINANCE: currency per direct cost item, exchange-rate table (ExchangeRatePanel); all totals converted to EUR
+// v7.28 — 2026-03-07 — FINANCE: unit-cost catalogue (UnitCostCatalogueModal) + UnitCostPicker under each direct cost item
+// v7.27 — 2026-03-07 — FINANCE: budget mode (actual costs / lump sum), LumpSumBudgetPanel in lump-sum mode
+// v7.26 — 2026-03-07 — FINANCE: funding rate per partner, funding request (EU vs own contribution) per partner and WP
+// v7.25 — 2026-03-07 — FINANCE: programme budget rules + compliance (BudgetCompliancePanel); cost model per direct cost item
+// v7.24 — 2026-03-07 — ACTIVITIES: Gantt page settings for print / DOCX (rows per page, split by year)
+// v7.23 — 2026-03-07 — ACTIVITIES: SVG / PNG download (ChartDownloadButtons) for the Gantt, PERT chart and organigram
+// v7.22 — 2026-03-07 — ACTIVITIES: three-point duration estimate per task, PertSimulationPanel under the PERT chart
+// v7.21 — 2026-03-07 — ACTIVITIES: schedule baselines (ScheduleBaselineControls) shown in the Gantt + ScheduleVarianceTable
+// v7.20 — 2026-03-07 — ACTIVITIES: resource loading histogram per partner (ResourceHistogram) under the PERT chart; FTE capacity per partner
+// v7.19 — 2026-03-07 — SCHEDULER: DependencySelector blocks predecessors that would close a dependency loop, flags existing loops
+// v7.18 — 2026-03-07 — SCHEDULER: dependency lag / lead in DependencySelector, schedule calendar select above the Gantt
+// v7.17 — 2026-03-07 — ACTIVITIES: MS Project XML import from the Gantt toolbar (MsProjectImportModal)
+// v7.16 — 2026-03-07 — FINANCE: XLSX budget import wizard (BudgetImportModal, props.onOpenBudgetImport)
+// v7.15 — 2026-03-07 — FINANCE: XLSX budget workbook export (budgetXlsxService)
+// v7.14 — 2026-03-07 — AI SUGGESTIONS: staged AI changes reviewed inline (AISuggestionsPanel, props.aiSuggestions)
+// v7.13 — 2026-03-07 — STREAMING: live preview panel under the loading bar (props.streamPreview)
+// v7.12 — 2026-03-07 — QUALITY GATES: banner lists failed findings (props.qualityReport + onDismissQualityReport)
 // v7.11 — 2026-03-06 — EO-043: Portal anchor — passes anchorRect to FieldAIAssistant
 // v7.9 — 2026-03-06 — EO-039: AI Asistent per-field (FieldAIAssistant popup) — COMPLETE
 //   - TextArea: replaced GenerateButton with AI Assistant popup trigger
@@ -30,7 +49,7 @@ import { TEXT } from '../locales.ts';
 import GanttChart from './GanttChart.tsx';
 import PERTChart from './PERTChart.tsx';
 import Organigram from './Organigram.tsx';
-import { recalculateProjectSchedule } from '../utils.ts';
+import { recalculateProjectSchedule, downloadBlob, formatDependencyLag, findDependencyCycles, wouldCreateCycle, formatDependencyCycle } from '../utils.ts';
 import InlineChart from './InlineChart.tsx';
 import GuideTooltip from './GuideTooltip.tsx';
 import FieldAIAssistant from './FieldAIAssistant.tsx';
@@ -41,6 +60,24 @@ import {
     CENTRALIZED_DIRECT_COSTS,
     DECENTRALIZED_DIRECT_COSTS,
 } from '../types.ts';
+import { getFailedFindings } from '../services/qualityGateValidator.ts';
+import AISuggestionsPanel, { FieldSuggestion, FieldSuggestionsProvider } from './AISuggestionsPanel.tsx';
+import { buildBudgetWorkbook, budgetWorkbookFilename } from '../services/budgetXlsxService.ts';
+import BudgetImportModal from './BudgetImportModal.tsx';
+import BudgetCompliancePanel from './BudgetCompliancePanel.tsx';
+import LumpSumBudgetPanel from './LumpSumBudgetPanel.tsx';
+import UnitCostPicker from './UnitCostPicker.tsx';
+import UnitCostCatalogueModal from './UnitCostCatalogueModal.tsx';
+import ExchangeRatePanel from './ExchangeRatePanel.tsx';
+import { BASE_CURRENCY, directCostAmountEur, getExchangeRates, isForeignCurrency, normalizeCurrency } from '../services/currencyService.ts';
+import { computeFundingSummary, getDefaultFundingRate } from '../services/budgetService.ts';
+import MsProjectImportModal from './MsProjectImportModal.tsx';
+import ResourceHistogram from './ResourceHistogram.tsx';
+import ScheduleVarianceTable from './ScheduleVarianceTable.tsx';
+import PertSimulationPanel from './PertSimulationPanel.tsx';
+import ChartDownloadButtons from './ChartDownloadButtons.tsx';
+import { DEFAULT_GANTT_ROWS_PER_PAGE } from '../services/chartSvgService.ts';
+import { createScheduleBaseline, getActiveBaseline } from '../services/scheduleBaselineService.ts';
 
 const safeArray = (v: any): any[] => {
   if (Array.isArray(v)) return v;
@@ -224,6 +261,7 @@ const TextArea = ({ label, path, value, onUpdate, onGenerate, isLoading, placeho
                     />
                 )}
             </div>
+            <FieldSuggestion path={path} />
         </div>
     );
 };
@@ -327,15 +365,25 @@ const DependencySelector = ({ task, allTasks, onAddDependency, onRemoveDependenc
     const t = TEXT[language] || TEXT['en'];
     const [selectedId, setSelectedId] = React.useState('');
     const [selectedType, setSelectedType] = React.useState('FS');
+    const [lag, setLag] = React.useState('');
+    const [lagUnit, setLagUnit] = React.useState('days');
 
     const handleAdd = () => {
-        if (selectedId) {
-            onAddDependency({ predecessorId: selectedId, type: selectedType });
+        if (selectedId && !wouldCreateCycle(allTasks, task.id, selectedId)) {
+            const lagValue = parseInt(lag, 10);
+            onAddDependency(lagValue
+                ? { predecessorId: selectedId, type: selectedType, lag: lagValue, lagUnit }
+                : { predecessorId: selectedId, type: selectedType });
             setSelectedId('');
+            setLag('');
         }
     };
 
     const availableTasks = allTasks.filter(t => t.id !== task.id && !(task.dependencies || []).some(d => d.predecessorId === t.id));
+    // Predecessors that would close a loop stay listed but cannot be picked
+    const cycleFor: Record<string, string[] | null> = {};
+    availableTasks.forEach(at => { cycleFor[at.id] = wouldCreateCycle(allTasks, task.id, at.id); });
+    const existingCycles = findDependencyCycles(allTasks).filter(chain => chain.includes(task.id));
 
     return (
         <div className="mt-3 p-3 bg-slate-50 rounded-lg border border-slate-200">
@@ -347,9 +395,12 @@ const DependencySelector = ({ task, allTasks, onAddDependency, onRemoveDependenc
                     onChange={e => setSelectedId(e.target.value)}
                 >
                     <option value="">{t.predecessor}...</option>
-                    {availableTasks.map(at => (
-                        <option key={at.id} value={at.id}>{at.id}: {at.title.substring(0, 30)}...</option>
-                    ))}
+                    {availableTasks.map(at => {
+                        const loop = cycleFor[at.id];
+                        return loop
+                            ? <option key={at.id} value={at.id} disabled>{at.id}: {(language === 'si' ? 'zanka ' : 'loop ') + formatDependencyCycle(loop)}</option>
+                            : <option key={at.id} value={at.id}>{at.id}: {(at.title || '').substring(0, 30)}...</option>;
+                    })}
                 </select>
                 <select 
                     className="w-24 text-sm p-1.5 rounded border border-slate-300 bg-white"
@@ -358,12 +409,34 @@ const DependencySelector = ({ task, allTasks, onAddDependency, onRemoveDependenc
                 >
                     {Object.keys(t.depTypes).map(k => <option key={k} value={k}>{k}</option>)}
                 </select>
+                <input
+                    type="number"
+                    className="w-16 text-sm p-1.5 rounded border border-slate-300 bg-white"
+                    value={lag}
+                    onChange={e => setLag(e.target.value)}
+                    placeholder="±0"
+                    title={language === 'si' ? 'Zamik (negativno = prehitevanje)' : 'Lag (negative = lead)'}
+                />
+                <select
+                    className="w-16 text-sm p-1.5 rounded border border-slate-300 bg-white"
+                    value={lagUnit}
+                    onChange={e => setLagUnit(e.target.value)}
+                >
+                    <option value="days">{language === 'si' ? 'dni' : 'days'}</option>
+                    <option value="months">{language === 'si' ? 'mes.' : 'mo'}</option>
+                </select>
                 <button onClick={handleAdd} disabled={!selectedId} className="px-3 bg-sky-600 text-white rounded font-bold hover:bg-sky-700 disabled:opacity-50 transition-colors">+</button>
             </div>
+            {existingCycles.length > 0 && (
+                <div className="mb-2 px-2 py-1.5 rounded border border-red-200 bg-red-50 text-xs text-red-700">
+                    {language === 'si' ? 'Krožna odvisnost — odstranite eno od povezav: ' : 'Circular dependency — remove one of the links: '}
+                    {existingCycles.map(chain => <strong key={chain.join('>')} className="block">{formatDependencyCycle(chain)}</strong>)}
+                </div>
+            )}
             <div className="space-y-1.5">
                 {(task.dependencies || []).map((dep, idx) => (
                     <div key={idx} className="flex justify-between items-center bg-white px-2 py-1.5 rounded border border-slate-200 text-xs shadow-sm">
-                        <span className="text-slate-700">{t.predecessor}: <strong className="text-sky-700">{dep.predecessorId}</strong> <span className="text-slate-400">({dep.type})</span></span>
+                        <span className="text-slate-700">{t.predecessor}: <strong className="text-sky-700">{dep.predecessorId}</strong> <span className="text-slate-400">({dep.type}{dep.lag ? ' ' + formatDependencyLag(dep, language) : ''})</span></span>
                         <button onClick={() => onRemoveDependency(idx)} className="text-red-400 hover:text-red-600 font-bold ml-2 px-1">✕</button>
                     </div>
                 ))}
@@ -372,6 +445,61 @@ const DependencySelector = ({ task, allTasks, onAddDependency, onRemoveDependenc
     );
 };
 
+// Save / select / delete schedule baselines (ProjectData.scheduleBaselines, activeBaselineId)
+const ScheduleBaselineControls = ({ projectData, activities, onUpdateData, onAddItem, onRemoveItem, language }) => {
+    const [name, setName] = React.useState('');
+    const baselines = Array.isArray(projectData.scheduleBaselines) ? projectData.scheduleBaselines : [];
+    const activeId = getActiveBaseline(projectData)?.id || '';
+    const si = language === 'si';
+
+    const handleSave = () => {
+        const baseline = createScheduleBaseline(activities, name || (si ? 'Izhodišče ' : 'Baseline ') + (baselines.length + 1));
+        if (Object.keys(baseline.tasks).length === 0 && Object.keys(baseline.milestones).length === 0) return;
+        onAddItem(['scheduleBaselines'], baseline);
+        onUpdateData(['activeBaselineId'], baseline.id);
+        setName('');
+    };
+
+    const handleDelete = () => {
+        const index = baselines.findIndex(b => b.id === activeId);
+        if (index < 0) return;
+        if (!confirm(si ? `Izbrišem izhodišče "${baselines[index].name}"?` : `Delete baseline "${baselines[index].name}"?`)) return;
+        onRemoveItem(['scheduleBaselines'], index);
+        onUpdateData(['activeBaselineId'], null);
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-2 text-sm text-slate-600">
+            <span>{si ? 'Izhodišče' : 'Baseline'}</span>
+            <select
+                className="text-sm p-1.5 rounded border border-slate-300 bg-white max-w-[14rem]"
+                value={activeId}
+                onChange={e => onUpdateData(['activeBaselineId'], e.target.value || null)}
+            >
+                <option value="">{si ? '— brez —' : '— none —'}</option>
+                {baselines.map(b => <option key={b.id} value={b.id}>{b.name} ({(b.createdAt || '').slice(0, 10)})</option>)}
+            </select>
+            {activeId && (
+                <button onClick={handleDelete} className="text-red-400 hover:text-red-600 font-bold px-1" title={si ? 'Izbriši izhodišče' : 'Delete baseline'}>✕</button>
+            )}
+            <input
+                type="text"
+                className="w-36 text-sm p-1.5 rounded border border-slate-300 bg-white"
+                value={name}
+                onChange={e => setName(e.target.value)}
+                placeholder={si ? 'Ime izhodišča' : 'Baseline name'}
+            />
+            <button
+                onClick={handleSave}
+                className="px-3 py-1.5 text-sm font-semibold text-white bg-sky-600 rounded hover:bg-sky-700 transition-colors"
+                title={si ? 'Shrani trenutne datume nalog in mejnikov kot izhodišče' : 'Save current task and milestone dates as a baseline'}
+            >
+                {si ? 'Shrani izhodišče' : 'Save baseline'}
+            </button>
+        </div>
+    );
+};
+
 // --- Section Renderers ---
    const renderProblemAnalysis = (props) => {
     const { projectData, onUpdateData, onGenerateField, onGenerateSection, onAddItem, onRemoveItem, isLoading, language, missingApiKey, onOpenSettings, vizTrigger, onFieldAIGenerate } = props;
@@ -593,8 +721,9 @@ const renderProjectManagement = (props) => {
                 <TextArea label={t.description} path={[...pmPath, 'description']} value={projectManagement?.description || ''} onUpdate={onUpdateData} onGenerate={onGenerateField} isLoading={isLoading} placeholder={t.management.placeholder} generateTitle={`${t.generateField} ${t.description}`} missingApiKey={missingApiKey} onFieldAIGenerate={onFieldAIGenerate} language={language} />
             </div>
             <div id="organigram">
-                <div className="mb-3 border-b border-slate-200 pb-2">
+                <div className="mb-3 border-b border-slate-200 pb-2 flex flex-wrap items-center justify-between gap-3">
                     <h4 className="text-lg font-bold text-slate-700 flex items-center gap-2">{t.management.organigram}<GuideTooltip stepKey="activities" fieldKey="organigram" language={language} size="sm" /></h4>
+                    <ChartDownloadButtons kind="organigram" projectData={projectData} language={language} />
                 </div>
                 <div className="chart-container-white overflow-hidden rounded-xl border border-slate-200 bg-white">
                     <Organigram structure={projectManagement?.structure} activities={projectData.activities} language={language} id="organigram-interactive" />
@@ -785,7 +914,7 @@ const renderPartners = (props) => {
                         )}
                     </div>
 
-                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 mb-4">
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4 mb-4">
                         <div>
                             <label className="block text-sm font-semibold text-slate-600 mb-1.5">{tp.code || 'Code'}</label>
                             <input
@@ -821,6 +950,32 @@ const renderPartners = (props) => {
                                 className="w-full p-2.5 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500 focus:border-sky-500 text-base font-mono"
                             />
                         </div>
+                        <div>
+                            <label className="block text-sm font-semibold text-slate-600 mb-1.5">{language === 'si' ? 'Kapaciteta (FTE/mesec)' : 'Capacity (FTE/month)'}</label>
+                            <input
+                                type="number"
+                                min={0}
+                                step={0.1}
+                                value={partner.fteCapacity ?? ''}
+                                onChange={(e) => onUpdateData(['partners', index, 'fteCapacity'], e.target.value ? parseFloat(e.target.value) : undefined)}
+                                placeholder="1"
+                                className="w-full p-2.5 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500 focus:border-sky-500 text-base font-mono"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-semibold text-slate-600 mb-1.5">{language === 'si' ? 'Stopnja sofinanciranja (%)' : 'Funding rate (%)'}</label>
+                            <input
+                                type="number"
+                                min={0}
+                                max={100}
+                                step={1}
+                                value={partner.fundingRate ?? ''}
+                                onChange={(e) => onUpdateData(['partners', index, 'fundingRate'], e.target.value ? parseFloat(e.target.value) : undefined)}
+                                placeholder={String(getDefaultFundingRate(partner.partnerType, projectData.budgetRules?.presetId))}
+                                title={language === 'si' ? 'Prazno = privzeto glede na vrsto partnerja in program' : 'Empty = default for the partner type and programme'}
+                                className="w-full p-2.5 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500 focus:border-sky-500 text-base font-mono"
+                            />
+                        </div>
                     </div>
 
                     <div className="mb-4">
@@ -937,7 +1092,7 @@ const renderFinance = (props) => {
             // Normalize: if the key belongs to the OTHER model, remap it to current model
             var catKey = remapToCurrentModel[rawKey] || rawKey;
             if (applicableSet.has(catKey)) {
-                return sum + (dc.amount || 0);
+                return sum + directCostAmountEur(dc, projectData);
             }
             return sum;
         }, 0);
@@ -952,7 +1107,7 @@ const renderFinance = (props) => {
         (wp.tasks || []).forEach((task: any) => {
             (task.partnerAllocations || []).forEach((alloc: any) => {
                 const partner = partners.find((p: any) => p.id === alloc.partnerId);
-                const directTotal = (alloc.directCosts || []).reduce((sum: number, dc: any) => sum + (dc.amount || 0), 0);
+                const directTotal = (alloc.directCosts || []).reduce((sum: number, dc: any) => sum + directCostAmountEur(dc, projectData), 0);
                 const indirectTotal = calcIndirectForAllocation(alloc);
                 allAllocations.push({
                     wpId: wp.id, wpTitle: wp.title || '',
@@ -983,6 +1138,16 @@ const renderFinance = (props) => {
 
     const hasData = allAllocations.length > 0;
 
+    const handleExportXlsx = async () => {
+        try {
+            const blob = await buildBudgetWorkbook(projectData, language);
+            downloadBlob(blob, budgetWorkbookFilename(projectData));
+        } catch (e: any) {
+            console.error('[Finance] XLSX export failed:', e);
+            alert(language === 'si' ? `Izvoz XLSX ni uspel: ${e.message}` : `XLSX export failed: ${e.message}`);
+        }
+    };
+
     const indirectCostReferenceDefs = [
         { key: 'rent', en: 'Rent', si: 'Najemnina' },
         { key: 'operatingCosts', en: 'Operating costs', si: 'Obratovalni stroški' },
@@ -1012,6 +1177,36 @@ const renderFinance = (props) => {
                             <option value="decentralized">{tf.decentralized || 'Decentralized'}</option>
                         </select>
                     </div>
+                    <div>
+                        <label className="block text-sm font-semibold text-slate-700 mb-1.5">{language === 'si' ? 'Način proračuna' : 'Budget mode'}</label>
+                        <select
+                            value={projectData.budgetMode || 'actualCosts'}
+                            onChange={(e) => onUpdateData(['budgetMode'], e.target.value)}
+                            className="w-56 p-2.5 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500 focus:border-sky-500 bg-white text-base"
+                        >
+                            <option value="actualCosts">{language === 'si' ? 'Dejanski stroški' : 'Actual costs'}</option>
+                            <option value="lumpSum">{language === 'si' ? 'Pavšalni znesek' : 'Lump sum'}</option>
+                        </select>
+                    </div>
+                    {props.onOpenBudgetImport && (
+                        <button
+                            onClick={props.onOpenBudgetImport}
+                            className="ml-auto flex items-center gap-1.5 px-3 py-2 bg-white border border-slate-300 rounded-lg text-sm text-slate-700 hover:bg-slate-50 shadow-sm"
+                            title={language === 'si' ? 'Uvozi ure in stroške partnerjev iz Excel datoteke' : 'Import partner hours and costs from an Excel file'}
+                        >
+                            <span className="text-green-700 font-bold">XLSX</span>
+                            {language === 'si' ? 'Uvozi proračun' : 'Import budget'}
+                        </button>
+                    )}
+                    {props.onOpenUnitCostCatalogue && (
+                        <button
+                            onClick={props.onOpenUnitCostCatalogue}
+                            className="flex items-center gap-1.5 px-3 py-2 bg-white border border-slate-300 rounded-lg text-sm text-slate-700 hover:bg-slate-50 shadow-sm"
+                            title={language === 'si' ? 'Postavke organizacije za stroške na enoto' : 'Organization rates for unit costs'}
+                        >
+                            {language === 'si' ? 'Katalog cen na enoto' : 'Unit-cost catalogue'}
+                        </button>
+                    )}
                 </div>
 
                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-0 border border-slate-200 rounded-xl overflow-hidden">
@@ -1107,6 +1302,10 @@ const renderFinance = (props) => {
                 )}
             </div>
 
+            <ExchangeRatePanel projectData={projectData} onUpdateData={onUpdateData} language={language} />
+
+            <BudgetCompliancePanel projectData={projectData} onUpdateData={onUpdateData} language={language} />
+
             {!hasData ? (
                 <div className="text-center py-12 bg-slate-50 rounded-xl border border-dashed border-slate-300">
                     <div className="text-slate-400 text-4xl mb-3">📊</div>
@@ -1119,6 +1318,16 @@ const renderFinance = (props) => {
                 </div>
             ) : (
                 <>
+                    <div className="flex justify-end mb-3">
+                        <button
+                            onClick={handleExportXlsx}
+                            className="flex items-center gap-1.5 px-3 py-1.5 bg-white border border-slate-300 rounded-lg text-sm text-slate-700 hover:bg-slate-50 shadow-sm"
+                            title={language === 'si' ? 'Proračun kot Excel delovni zvezek (s formulami)' : 'Budget as an Excel workbook (with formulas)'}
+                        >
+                            <span className="text-green-700 font-bold">XLSX</span>
+                            {language === 'si' ? 'Izvozi proračun' : 'Export budget'}
+                        </button>
+                    </div>
                     <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
                         <div className="bg-green-50 border border-green-200 rounded-xl p-4 text-center">
                             <p className="text-xs text-green-600 font-semibold uppercase tracking-wider mb-1">{tf.totalDirectCosts || 'Total Direct'}</p>
@@ -1228,8 +1437,80 @@ const renderFinance = (props) => {
                             </table>
                         </div>
                     </div>
+
+                    {projectData.budgetMode !== 'lumpSum' && (() => {
+                        const funding = computeFundingSummary(projectData);
+                        const si = language === 'si';
+                        const fundingTable = (lines, showRate: boolean, firstHeader: string) => (
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="border-b-2 border-slate-200">
+                                        <th className="text-left py-2 px-3 font-semibold text-slate-600">{firstHeader}</th>
+                                        <th className="text-right py-2 px-3 font-semibold text-slate-600">{si ? 'Stopnja' : 'Rate'}</th>
+                                        <th className="text-right py-2 px-3 font-semibold text-sky-600">{tf.grandTotal || 'Total'}</th>
+                                        <th className="text-right py-2 px-3 font-semibold text-indigo-600">{si ? 'Zaprošeni EU prispevek' : 'Requested EU contribution'}</th>
+                                        <th className="text-right py-2 px-3 font-semibold text-slate-600">{si ? 'Lastni delež' : 'Own contribution'}</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {lines.map(line => (
+                                        <tr key={line.id} className="border-b border-slate-100 hover:bg-slate-50 transition-colors">
+                                            <td className="py-2 px-3 font-bold text-sky-700" title={line.title}>{line.code}</td>
+                                            <td className="py-2 px-3 text-right font-mono">
+                                                {showRate ? `${line.fundingRate}%` : `${line.total > 0 ? Math.round(line.euContribution / line.total * 1000) / 10 : 0}%`}
+                                            </td>
+                                            <td className="py-2 px-3 text-right font-mono font-bold">{fmtEur(line.total)}</td>
+                                            <td className="py-2 px-3 text-right font-mono text-indigo-700">{fmtEur(line.euContribution)}</td>
+                                            <td className="py-2 px-3 text-right font-mono">{fmtEur(line.ownContribution)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                                <tfoot>
+                                    <tr className="border-t-2 border-slate-300 font-bold">
+                                        <td className="py-2 px-3">{tf.grandTotal || 'TOTAL'}</td>
+                                        <td className="py-2 px-3 text-right font-mono">{Math.round(funding.effectiveRate * 10) / 10}%</td>
+                                        <td className="py-2 px-3 text-right font-mono text-sky-800">{fmtEur(funding.total)}</td>
+                                        <td className="py-2 px-3 text-right font-mono text-indigo-800">{fmtEur(funding.euContribution)}</td>
+                                        <td className="py-2 px-3 text-right font-mono">{fmtEur(funding.ownContribution)}</td>
+                                    </tr>
+                                </tfoot>
+                            </table>
+                        );
+                        return (
+                            <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-5 mt-6">
+                                <h4 className="text-sm font-bold text-slate-700 mb-1 uppercase tracking-wider">{si ? 'Zaprošeno sofinanciranje' : 'Funding request'}</h4>
+                                <p className="text-xs text-slate-500 mb-4">
+                                    {si
+                                        ? 'Stopnja sofinanciranja se nastavi pri partnerju; brez vnosa velja privzeta vrednost za vrsto partnerja in izbrani program.'
+                                        : 'The funding rate is set on each partner; when empty, the default for the partner type and selected programme applies.'}
+                                </p>
+                                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-5">
+                                    <div className="bg-indigo-50 border border-indigo-200 rounded-xl p-3 text-center">
+                                        <p className="text-xs text-indigo-600 font-semibold uppercase tracking-wider mb-1">{si ? 'EU prispevek' : 'EU contribution'}</p>
+                                        <p className="text-xl font-bold text-indigo-800">{fmtEur(funding.euContribution)}</p>
+                                    </div>
+                                    <div className="bg-slate-50 border border-slate-200 rounded-xl p-3 text-center">
+                                        <p className="text-xs text-slate-600 font-semibold uppercase tracking-wider mb-1">{si ? 'Lastni delež partnerjev' : 'Partner co-financing'}</p>
+                                        <p className="text-xl font-bold text-slate-800">{fmtEur(funding.ownContribution)}</p>
+                                    </div>
+                                    <div className="bg-sky-50 border border-sky-200 rounded-xl p-3 text-center">
+                                        <p className="text-xs text-sky-600 font-semibold uppercase tracking-wider mb-1">{si ? 'Povprečna stopnja' : 'Average rate'}</p>
+                                        <p className="text-xl font-bold text-sky-800">{Math.round(funding.effectiveRate * 10) / 10}%</p>
+                                    </div>
+                                </div>
+                                <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+                                    <div className="overflow-x-auto">{fundingTable(funding.partners, true, tp.code || 'Partner')}</div>
+                                    <div className="overflow-x-auto">{fundingTable(funding.workPackages, false, si ? 'DS' : 'WP')}</div>
+                                </div>
+                            </div>
+                        );
+                    })()}
                 </>
             )}
+
+            {projectData.budgetMode === 'lumpSum' && (
+                <LumpSumBudgetPanel projectData={projectData} onUpdateData={onUpdateData} language={language} />
+            )}
         </div>
     );
 };
@@ -1265,7 +1546,7 @@ const renderActivities = (props) => {
             }
             current[itemPath[itemPath.length-1]] = value;
             const scheduledProjectData = recalculateProjectSchedule(tempProjectData);
-            onUpdateData(['activities'], scheduledProjectData.activities);
+            onUpdateData(['activities'], scheduledProjectData.projectData.activities);
         } else {
             onUpdateData(itemPath, value);
         }
@@ -1274,6 +1555,7 @@ const renderActivities = (props) => {
     const taskPartnersList = Array.isArray(projectData.partners) ? projectData.partners : [];
     const fundingModel = projectData.fundingModel || 'centralized';
     const directCostDefs = fundingModel === 'centralized' ? CENTRALIZED_DIRECT_COSTS : DECENTRALIZED_DIRECT_COSTS;
+    const costCurrencies = [BASE_CURRENCY, ...getExchangeRates(projectData).map(r => normalizeCurrency(r.currency))];
     const lang = language === 'si' ? 'si' : 'en';
     const tp = t.partners || {};
     const tf = t.finance || {};
@@ -1285,7 +1567,7 @@ const renderActivities = (props) => {
         if (applicableCats.length === 0) return 0;
         const applicableSum = (alloc.directCosts || []).reduce((sum: number, dc: any) => {
             const catKey = dc.categoryKey || directCostDefs[dc.categoryIndex]?.key || '';
-            return applicableCats.includes(catKey) ? sum + (dc.amount || 0) : sum;
+            return applicableCats.includes(catKey) ? sum + directCostAmountEur(dc, projectData) : sum;
         }, 0);
         return Math.round(applicableSum * (indirectSettings.percentage / 100));
     };
@@ -1314,7 +1596,7 @@ const renderActivities = (props) => {
                         <div className="mt-6 pl-4 border-l-4 border-sky-100">
                             <SectionHeader title={t.tasks} onAdd={() => onAddItem([...path, wpIndex, 'tasks'], { id: `${taskPrefix}${wpIndex + 1}.${(wp.tasks || []).length + 1}`, title: '', description: '', startDate: '', endDate: '', dependencies: [], partnerAllocations: [] })} addText={t.add} />
                             {(wp.tasks || []).map((task, taskIndex) => (
-                                <div key={taskIndex} className="p-4 border border-slate-200 rounded-lg mb-4 bg-slate-50 relative group">
+                                <div key={taskIndex} id={task.id ? 'task-' + task.id : undefined} className="p-4 border border-slate-200 rounded-lg mb-4 bg-slate-50 relative group">
                                     <div className="absolute top-3 right-3 opacity-0 group-hover:opacity-100 transition-opacity"><RemoveButton onClick={() => onRemoveItem([...path, wpIndex, 'tasks'], taskIndex)} text={t.remove} /></div>
                                     <h5 className="font-bold text-slate-700 mb-3 flex items-center gap-2">
                                         <span className="bg-white border border-slate-200 px-2 py-0.5 rounded text-xs text-slate-500">{task.id}</span>
@@ -1332,6 +1614,31 @@ const renderActivities = (props) => {
                                             <input type="date" value={task.endDate || ''} onChange={(e) => handleTaskUpdate([...path, wpIndex, 'tasks', taskIndex, 'endDate'], e.target.value)} className="w-full p-2.5 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500 focus:border-sky-500 bg-white text-base" />
                                         </div>
                                     </div>
+                                    <div className="mt-3 flex flex-wrap items-center gap-2 text-sm text-slate-600">
+                                        <span className="font-semibold text-slate-700" title={language === 'si' ? 'Tritočkovna ocena trajanja v dnevih (PERT)' : 'Three-point duration estimate in days (PERT)'}>
+                                            {language === 'si' ? 'Ocena trajanja (dni)' : 'Duration estimate (days)'}
+                                        </span>
+                                        {[
+                                            ['optimistic', language === 'si' ? 'Optimistično' : 'Optimistic', 'O'],
+                                            ['mostLikely', language === 'si' ? 'Najverjetnejše' : 'Most likely', 'M'],
+                                            ['pessimistic', language === 'si' ? 'Pesimistično' : 'Pessimistic', 'P'],
+                                        ].map(([key, label, short]) => (
+                                            <input
+                                                key={key}
+                                                type="number"
+                                                min={0}
+                                                className="w-20 text-sm p-1.5 rounded border border-slate-300 bg-white"
+                                                value={task.estimate?.[key] ?? ''}
+                                                placeholder={short}
+                                                title={label}
+                                                onChange={(e) => {
+                                                    const next = { ...(task.estimate || {}), [key]: e.target.value === '' ? undefined : parseFloat(e.target.value) };
+                                                    const empty = ['optimistic', 'mostLikely', 'pessimistic'].every(k => next[k] === undefined);
+                                                    onUpdateData([...path, wpIndex, 'tasks', taskIndex, 'estimate'], empty ? undefined : next);
+                                                }}
+                                            />
+                                        ))}
+                                    </div>
                                     <DependencySelector task={task} allTasks={allTasks} language={language}
                                         onAddDependency={(dep) => { const deps = task.dependencies || []; handleTaskUpdate([...path, wpIndex, 'tasks', taskIndex, 'dependencies'], [...deps, dep]); }}
                                         onRemoveDependency={(depIdx) => { const deps = task.dependencies || []; handleTaskUpdate([...path, wpIndex, 'tasks', taskIndex, 'dependencies'], deps.filter((_, i) => i !== depIdx)); }}
@@ -1393,7 +1700,7 @@ const renderActivities = (props) => {
                                                     const partner = taskPartnersList.find(p => p.id === alloc.partnerId);
                                                     const usedIds = taskAllocations.map(a => a.partnerId);
                                                     const availableForSwitch = taskPartnersList.filter(p => p.id === alloc.partnerId || !usedIds.includes(p.id));
-                                                    const directTotal = (alloc.directCosts || []).reduce((s, dc) => s + (dc.amount || 0), 0);
+                                                    const directTotal = (alloc.directCosts || []).reduce((s, dc) => s + directCostAmountEur(dc, projectData), 0);
                                                     const indirectTotal = calcIndirectForAlloc(alloc);
 
                                                     return (
@@ -1470,33 +1777,79 @@ const renderActivities = (props) => {
                                                                     </button>
                                                                 </div>
                                                                 {(alloc.directCosts || []).map((dc, dcIdx) => (
-                                                                    <div key={dcIdx} className="flex gap-2 mb-1.5 items-end">
-                                                                        <div className="flex-1">
-                                                                            <select
-                                                                                value={dc.categoryKey || directCostDefs[dc.categoryIndex]?.key || ''}
-                                                                                onChange={(e) => {
-                                                                                    const selectedKey = e.target.value;
-                                                                                    const cat = directCostDefs.find(c => c.key === selectedKey);
-                                                                                    onUpdateData([...allocPath, allocIdx, 'directCosts', dcIdx, 'categoryKey'], selectedKey);
-                                                                                    onUpdateData([...allocPath, allocIdx, 'directCosts', dcIdx, 'name'], cat?.[lang] || selectedKey);
-                                                                                }}
-                                                                                className="w-full p-1.5 border border-slate-300 rounded text-xs bg-white"
-                                                                            >
-                                                                                {directCostDefs.map((cat) => (
-                                                                                    <option key={cat.key} value={cat.key}>{cat[lang]}</option>
-                                                                                ))}
-                                                                            </select>
+                                                                    <div key={dcIdx}>
+                                                                        <div className="flex gap-2 mb-1.5 items-end">
+                                                                            <div className="flex-1">
+                                                                                <select
+                                                                                    value={dc.categoryKey || directCostDefs[dc.categoryIndex]?.key || ''}
+                                                                                    onChange={(e) => {
+                                                                                        const selectedKey = e.target.value;
+                                                                                        const cat = directCostDefs.find(c => c.key === selectedKey);
+                                                                                        onUpdateData([...allocPath, allocIdx, 'directCosts', dcIdx, 'categoryKey'], selectedKey);
+                                                                                        onUpdateData([...allocPath, allocIdx, 'directCosts', dcIdx, 'name'], cat?.[lang] || selectedKey);
+                                                                                    }}
+                                                                                    className="w-full p-1.5 border border-slate-300 rounded text-xs bg-white"
+                                                                                >
+                                                                                    {directCostDefs.map((cat) => (
+                                                                                        <option key={cat.key} value={cat.key}>{cat[lang]}</option>
+                                                                                    ))}
+                                                                                </select>
+                                                                            </div>
+                                                                            <div className="w-24">
+                                                                                <select
+                                                                                    value={dc.costModel || 'actual'}
+                                                                                    onChange={(e) => onUpdateData([...allocPath, allocIdx, 'directCosts', dcIdx, 'costModel'], e.target.value)}
+                                                                                    className="w-full p-1.5 border border-slate-300 rounded text-xs bg-white"
+                                                                                    title={tf.costModel || 'Cost Calculation Method'}
+                                                                                >
+                                                                                    <option value="actual">{language === 'si' ? 'Dejanski' : 'Actual'}</option>
+                                                                                    <option value="unit">{language === 'si' ? 'Na enoto' : 'Unit cost'}</option>
+                                                                                    <option value="lumpSum">{language === 'si' ? 'Pavšal' : 'Lump sum'}</option>
+                                                                                    <option value="flatRate">{language === 'si' ? 'Pavšalna stopnja' : 'Flat rate'}</option>
+                                                                                </select>
+                                                                            </div>
+                                                                            <div className="w-28">
+                                                                                <input
+                                                                                    type="number" min={0}
+                                                                                    value={dc.amount || ''}
+                                                                                    onChange={(e) => onUpdateData([...allocPath, allocIdx, 'directCosts', dcIdx, 'amount'], e.target.value ? parseFloat(e.target.value) : 0)}
+                                                                                    readOnly={!!dc.unitCost}
+                                                                                    title={dc.unitCost ? (language === 'si' ? 'Izračunano: enote × postavka' : 'Calculated: units × rate') : undefined}
+                                                                                    placeholder={isForeignCurrency(dc) ? `${normalizeCurrency(dc.currency)} 0` : '€ 0'}
+                                                                                    className={`w-full p-1.5 border border-slate-300 rounded text-xs font-mono text-right ${dc.unitCost ? 'bg-slate-50 text-slate-600' : ''}`}
+                                                                                />
+                                                                            </div>
+                                                                            {(costCurrencies.length > 1 || isForeignCurrency(dc)) && (
+                                                                                <div className="w-16">
+                                                                                    <select
+                                                                                        value={normalizeCurrency(dc.currency)}
+                                                                                        onChange={(e) => onUpdateData([...allocPath, allocIdx, 'directCosts', dcIdx, 'currency'], e.target.value === BASE_CURRENCY ? undefined : e.target.value)}
+                                                                                        disabled={!!dc.unitCost}
+                                                                                        className="w-full p-1.5 border border-slate-300 rounded text-xs bg-white font-mono"
+                                                                                        title={language === 'si' ? 'Valuta' : 'Currency'}
+                                                                                    >
+                                                                                        {Array.from(new Set([...costCurrencies, normalizeCurrency(dc.currency)])).map(code => (
+                                                                                            <option key={code} value={code}>{code}</option>
+                                                                                        ))}
+                                                                                    </select>
+                                                                                </div>
+                                                                            )}
+                                                                            <button onClick={() => onRemoveItem([...allocPath, allocIdx, 'directCosts'], dcIdx)} className="text-red-400 hover:text-red-600 text-xs font-bold px-1">✕</button>
                                                                         </div>
-                                                                        <div className="w-28">
-                                                                            <input
-                                                                                type="number" min={0}
-                                                                                value={dc.amount || ''}
-                                                                                onChange={(e) => onUpdateData([...allocPath, allocIdx, 'directCosts', dcIdx, 'amount'], e.target.value ? parseFloat(e.target.value) : 0)}
-                                                                                placeholder="€ 0"
-                                                                                className="w-full p-1.5 border border-slate-300 rounded text-xs font-mono text-right"
-                                                                            />
-                                                                        </div>
-                                                                        <button onClick={() => onRemoveItem([...allocPath, allocIdx, 'directCosts'], dcIdx)} className="text-red-400 hover:text-red-600 text-xs font-bold px-1">✕</button>
+                                                                        {isForeignCurrency(dc) && (dc.amount || 0) > 0 && (
+                                                                            <div className="text-right text-xs text-slate-500 font-mono mb-1.5 pr-8">
+                                                                                {getExchangeRates(projectData).some(r => normalizeCurrency(r.currency) === normalizeCurrency(dc.currency))
+                                                                                    ? `≈ €${directCostAmountEur(dc, projectData).toLocaleString('de-DE')}`
+                                                                                    : (language === 'si' ? `Ni tečaja za ${normalizeCurrency(dc.currency)} — šteto kot 0 €` : `No ${normalizeCurrency(dc.currency)} rate — counted as €0`)}
+                                                                            </div>
+                                                                        )}
+                                                                        <UnitCostPicker
+                                                                            directCost={dc}
+                                                                            fundingModel={fundingModel}
+                                                                            directCostDefs={directCostDefs}
+                                                                            language={language}
+                                                                            onChange={(item) => onUpdateData([...allocPath, allocIdx, 'directCosts', dcIdx], item)}
+                                                                        />
                                                                     </div>
                                                                 ))}
                                                                 {(alloc.directCosts || []).length > 0 && (
@@ -1589,19 +1942,69 @@ const renderActivities = (props) => {
             </div>
 
             <div id="gantt-chart" className="mt-12 mb-8 border-t-2 border-slate-200 pt-8">
-                <h3 className="text-xl font-bold text-slate-700 mb-4 flex items-center gap-2">{t.subSteps.ganttChart}<GuideTooltip stepKey="activities" fieldKey="ganttChart" language={language} size="sm" /></h3>
+                <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                    <h3 className="text-xl font-bold text-slate-700 flex items-center gap-2">{t.subSteps.ganttChart}<GuideTooltip stepKey="activities" fieldKey="ganttChart" language={language} size="sm" /></h3>
+                    <label className="flex items-center gap-2 text-sm text-slate-600">
+                        {language === 'si' ? 'Koledar terminskega načrta' : 'Schedule calendar'}
+                        <select
+                            className="text-sm p-1.5 rounded border border-slate-300 bg-white"
+                            value={projectData.scheduleCalendar || 'calendarDays'}
+                            onChange={e => onUpdateData(['scheduleCalendar'], e.target.value)}
+                        >
+                            <option value="calendarDays">{language === 'si' ? 'Koledarski dnevi' : 'Calendar days'}</option>
+                            <option value="workingDays">{language === 'si' ? 'Delovni dnevi (pon–pet)' : 'Working days (Mon–Fri)'}</option>
+                            <option value="months">{language === 'si' ? 'Projektni meseci' : 'Project months'}</option>
+                        </select>
+                    </label>
+                    <ScheduleBaselineControls projectData={projectData} activities={activities} onUpdateData={onUpdateData} onAddItem={onAddItem} onRemoveItem={onRemoveItem} language={language} />
+                    <ChartDownloadButtons kind="gantt" projectData={projectData} language={language} />
+                </div>
+                {(() => {
+                    const ganttExport = projectData.ganttExport || { rowsPerPage: DEFAULT_GANTT_ROWS_PER_PAGE, splitBy: 'none' };
+                    return (
+                        <div className="flex flex-wrap items-center justify-end gap-3 -mt-2 mb-3 text-xs text-slate-600">
+                            <span className="font-semibold">{language === 'si' ? 'Strani za tisk / DOCX' : 'Print / DOCX pages'}:</span>
+                            <label className="flex items-center gap-1">
+                                {language === 'si' ? 'vrstic na stran' : 'rows per page'}
+                                <input
+                                    type="number" min={5} max={80}
+                                    className="w-16 p-1 rounded border border-slate-300 bg-white"
+                                    value={ganttExport.rowsPerPage}
+                                    onChange={e => onUpdateData(['ganttExport'], { ...ganttExport, rowsPerPage: parseInt(e.target.value, 10) || DEFAULT_GANTT_ROWS_PER_PAGE })}
+                                />
+                            </label>
+                            <select
+                                className="p-1 rounded border border-slate-300 bg-white"
+                                value={ganttExport.splitBy}
+                                onChange={e => onUpdateData(['ganttExport'], { ...ganttExport, splitBy: e.target.value })}
+                            >
+                                <option value="none">{language === 'si' ? 'Celotno obdobje' : 'Whole timeline'}</option>
+                                <option value="year">{language === 'si' ? 'Po letih' : 'Split by year'}</option>
+                            </select>
+                        </div>
+                    );
+                })()}
                 <div className="chart-container-white bg-white rounded-xl">
                     <GanttChart 
                         activities={activities} 
                         language={language} 
                         id="gantt-chart-interactive"
+                        onImportXML={props.onOpenMsProjectImport}
+                        baseline={getActiveBaseline(projectData)}
                         key={'gantt-' + activities.length + '-' + activities.reduce(function(acc, wp) { return acc + (wp.tasks || []).length + '-' + (wp.tasks || []).reduce(function(s, t) { return s + (t.startDate || '') + (t.endDate || ''); }, ''); }, '')}
                     />
                 </div>
+                {(() => {
+                    const activeBaseline = getActiveBaseline(projectData);
+                    return activeBaseline && <ScheduleVarianceTable activities={activities} baseline={activeBaseline} language={language} />;
+                })()}
             </div>
 
             <div id="pert-chart" className="mt-12 mb-8 border-t-2 border-slate-200 pt-8">
-                <h3 className="text-xl font-bold text-slate-700 mb-4 flex items-center gap-2">{t.subSteps.pertChart}<GuideTooltip stepKey="activities" fieldKey="pertChart" language={language} size="sm" /></h3>
+                <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                    <h3 className="text-xl font-bold text-slate-700 flex items-center gap-2">{t.subSteps.pertChart}<GuideTooltip stepKey="activities" fieldKey="pertChart" language={language} size="sm" /></h3>
+                    <ChartDownloadButtons kind="pert" projectData={projectData} language={language} />
+                </div>
                 <div className="chart-container-white bg-white rounded-xl">
                     <PERTChart 
                         activities={activities} 
@@ -1609,6 +2012,14 @@ const renderActivities = (props) => {
                         key={'pert-' + activities.length + '-' + activities.reduce(function(acc, wp) { return acc + (wp.tasks || []).length; }, 0)}
                     />
                 </div>
+                <PertSimulationPanel projectData={projectData} language={language} />
+            </div>
+
+            <div id="resource-load" className="mt-12 mb-8 border-t-2 border-slate-200 pt-8">
+                <h3 className="text-xl font-bold text-slate-700 mb-4">{language === 'si' ? 'Obremenitev partnerjev' : 'Resource loading'}</h3>
+                <div className="chart-container-white bg-white rounded-xl border border-slate-200">
+                    <ResourceHistogram projectData={projectData} language={language} />
+                </div>
             </div>
 
             {renderFinance(props)}
@@ -1635,7 +2046,11 @@ const ProjectDisplay = (props) => {
     const { activeStepId, onGenerateSection, isLoading, error, language, missingApiKey, completedStepsStatus, onStepClick } = props;
     const [vizTrigger, setVizTrigger] = React.useState(0);
     const [showVizPrompt, setShowVizPrompt] = React.useState(false);
+    const [budgetImportOpen, setBudgetImportOpen] = React.useState(false);
+    const [msProjectImportOpen, setMsProjectImportOpen] = React.useState(false);
+    const [unitCostCatalogueOpen, setUnitCostCatalogueOpen] = React.useState(false);
     const prevLoadingRef = useRef(isLoading);
+    const streamPreviewRef = useRef<HTMLPreElement>(null);
     const STEPS = getSteps(language);
     const activeStep = STEPS.find(step => step.id === activeStepId);
     const t = TEXT[language] || TEXT['en'];
@@ -1648,6 +2063,16 @@ const ProjectDisplay = (props) => {
         }
     }, [isLoading]);
 
+    // ★ v7.13: Keep the newest streamed output in view
+    const streamPreviewText = props.streamPreview
+        ? (props.streamPreview.data !== undefined ? JSON.stringify(props.streamPreview.data, null, 2) : props.streamPreview.text)
+        : '';
+    useEffect(function () {
+        if (streamPreviewRef.current) {
+            streamPreviewRef.current.scrollTop = streamPreviewRef.current.scrollHeight;
+        }
+    }, [streamPreviewText]);
+
     if (!activeStep) return <div className="p-8 text-center text-red-500">Error: Invalid Step Selected</div>;
 
     const sectionKey = activeStep.key;
@@ -1661,7 +2086,7 @@ const ProjectDisplay = (props) => {
         expectedResults: '#10B981',
     };
 
-    const propsWithViz = Object.assign({}, props, { vizTrigger: vizTrigger });
+    const propsWithViz = Object.assign({}, props, { vizTrigger: vizTrigger, onOpenBudgetImport: () => setBudgetImportOpen(true), onOpenMsProjectImport: () => setMsProjectImportOpen(true), onOpenUnitCostCatalogue: () => setUnitCostCatalogueOpen(true) });
 
     const renderContent = () => {
         switch (sectionKey) {
@@ -1678,112 +2103,204 @@ const ProjectDisplay = (props) => {
     const showGenerateButton = ['problemAnalysis', 'projectIdea', 'generalObjectives', 'specificObjectives', 'activities', 'expectedResults'].includes(sectionKey);
 
     return (
-        <main className="flex-1 flex flex-col overflow-hidden bg-slate-50/30">
-            <header className="bg-white border-b border-slate-200 px-4 py-3 flex items-center flex-shrink-0 sticky top-0 z-20 shadow-sm animate-fadeIn" style={{ gap: '12px' }}>
-                <div className="flex items-start gap-2" style={{ flexShrink: 0, minWidth: '180px', maxWidth: '240px' }}>
-                    <span style={{ width: 4, height: 28, borderRadius: 4, background: stepColorMap[sectionKey] || '#6366F1', flexShrink: 0, marginTop: 2 }} />
-                    <div style={{ minWidth: 0 }}>
-                        <h2 className="text-base font-bold text-slate-800 tracking-tight" style={{ lineHeight: 1.2 }}>{activeStep.title}</h2>
-                        <p className="text-xs text-slate-400 mt-0.5 truncate">{t.stepSubtitle}</p>
+        <FieldSuggestionsProvider
+            suggestions={Array.isArray(props.aiSuggestions) ? props.aiSuggestions : []}
+            language={language}
+            onAccept={props.onAcceptSuggestion}
+            onReject={props.onRejectSuggestion}
+        >
+            <main className="flex-1 flex flex-col overflow-hidden bg-slate-50/30">
+                <header className="bg-white border-b border-slate-200 px-4 py-3 flex items-center flex-shrink-0 sticky top-0 z-20 shadow-sm animate-fadeIn" style={{ gap: '12px' }}>
+                    <div className="flex items-start gap-2" style={{ flexShrink: 0, minWidth: '180px', maxWidth: '240px' }}>
+                        <span style={{ width: 4, height: 28, borderRadius: 4, background: stepColorMap[sectionKey] || '#6366F1', flexShrink: 0, marginTop: 2 }} />
+                        <div style={{ minWidth: 0 }}>
+                            <h2 className="text-base font-bold text-slate-800 tracking-tight" style={{ lineHeight: 1.2 }}>{activeStep.title}</h2>
+                            <p className="text-xs text-slate-400 mt-0.5 truncate">{t.stepSubtitle}</p>
+                        </div>
                     </div>
-                </div>
 
-                <div style={{ flex: 1, display: 'flex', justifyContent: 'center', overflow: 'hidden', minWidth: 0 }}>
-                    <StepNavigationBar
-                        language={language}
-                        currentStepId={activeStepId}
-                        completedStepsStatus={completedStepsStatus || []}
-                        onStepClick={onStepClick || (() => {})}
-                        isProblemAnalysisComplete={completedStepsStatus?.[0] || false}
-                    />
-                </div>
+                    <div style={{ flex: 1, display: 'flex', justifyContent: 'center', overflow: 'hidden', minWidth: 0 }}>
+                        <StepNavigationBar
+                            language={language}
+                            currentStepId={activeStepId}
+                            completedStepsStatus={completedStepsStatus || []}
+                            onStepClick={onStepClick || (() => {})}
+                            isProblemAnalysisComplete={completedStepsStatus?.[0] || false}
+                        />
+                    </div>
 
-                <div className="flex items-center gap-4" style={{ flexShrink: 0 }}>
-                    {showGenerateButton && (
-                        (sectionKey === 'expectedResults' || sectionKey === 'activities')
-                            ? <GenerateButton onClick={() => props.onGenerateCompositeSection(sectionKey)} isLoading={!!isLoading} title={t.generateSection} text={t.generateAI} missingApiKey={missingApiKey} />
-                            : <GenerateButton onClick={() => onGenerateSection(sectionKey)} isLoading={isLoading === `${t.generating} ${sectionKey}...`} title={t.generateSection} text={t.generateAI} missingApiKey={missingApiKey} />
-                    )}
-                </div>
-            </header>
+                    <div className="flex items-center gap-4" style={{ flexShrink: 0 }}>
+                        {showGenerateButton && (
+                            (sectionKey === 'expectedResults' || sectionKey === 'activities')
+                                ? <GenerateButton onClick={() => props.onGenerateCompositeSection(sectionKey)} isLoading={!!isLoading} title={t.generateSection} text={t.generateAI} missingApiKey={missingApiKey} />
+                                : <GenerateButton onClick={() => onGenerateSection(sectionKey)} isLoading={isLoading === `${t.generating} ${sectionKey}...`} title={t.generateSection} text={t.generateAI} missingApiKey={missingApiKey} />
+                        )}
+                    </div>
+                </header>
 
-            {showVizPrompt && (
-                <div className="mx-6 mt-4 mb-2 flex items-center gap-3 rounded-xl border border-indigo-200 bg-indigo-50 px-4 py-3 shadow-sm animate-fadeIn">
-                    <span className="text-lg flex-shrink-0">📊</span>
-                    <p className="text-sm text-indigo-800 font-medium flex-1">
-                        {language === 'si'
-                            ? 'Generiranje zakljuceno. Zelite generirati vizualizacije za vse sekcije?'
-                            : 'Generation complete. Would you like to generate visualizations for all sections?'}
-                    </p>
-                    <button
-                        onClick={function () { setVizTrigger(function (v) { return v + 1; }); setShowVizPrompt(false); }}
-                        className="px-3 py-1.5 text-sm font-bold bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 active:scale-95 transition-all shadow-sm flex-shrink-0"
-                    >
-                        {language === 'si' ? 'Da, generiraj' : 'Yes, generate'}
-                    </button>
-                    <button
-                        onClick={function () { setShowVizPrompt(false); }}
-                        className="px-3 py-1.5 text-sm font-medium text-indigo-600 bg-white border border-indigo-200 rounded-lg hover:bg-indigo-100 active:scale-95 transition-all flex-shrink-0"
-                    >
-                        {language === 'si' ? 'Ne, hvala' : 'No, thanks'}
-                    </button>
-                </div>
-            )}
+                {showVizPrompt && (
+                    <div className="mx-6 mt-4 mb-2 flex items-center gap-3 rounded-xl border border-indigo-200 bg-indigo-50 px-4 py-3 shadow-sm animate-fadeIn">
+                        <span className="text-lg flex-shrink-0">📊</span>
+                        <p className="text-sm text-indigo-800 font-medium flex-1">
+                            {language === 'si'
+                                ? 'Generiranje zakljuceno. Zelite generirati vizualizacije za vse sekcije?'
+                                : 'Generation complete. Would you like to generate visualizations for all sections?'}
+                        </p>
+                        <button
+                            onClick={function () { setVizTrigger(function (v) { return v + 1; }); setShowVizPrompt(false); }}
+                            className="px-3 py-1.5 text-sm font-bold bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 active:scale-95 transition-all shadow-sm flex-shrink-0"
+                        >
+                            {language === 'si' ? 'Da, generiraj' : 'Yes, generate'}
+                        </button>
+                        <button
+                            onClick={function () { setShowVizPrompt(false); }}
+                            className="px-3 py-1.5 text-sm font-medium text-indigo-600 bg-white border border-indigo-200 rounded-lg hover:bg-indigo-100 active:scale-95 transition-all flex-shrink-0"
+                        >
+                            {language === 'si' ? 'Ne, hvala' : 'No, thanks'}
+                        </button>
+                    </div>
+                )}
 
-            {error && (() => {
-                const isWarning = error.includes('partially done') || error.includes('delno uspel') || error.includes('fields failed') || error.includes('polj ni uspelo');
-                return (
+                {error && (() => {
+                    const isWarning = error.includes('partially done') || error.includes('delno uspel') || error.includes('fields failed') || error.includes('polj ni uspelo');
+                    return (
+                        <div
+                            className={`mx-6 mt-4 mb-2 flex items-start gap-3 rounded-xl border px-4 py-3 shadow-sm animate-fadeIn ${
+                                isWarning
+                                    ? 'bg-amber-50 border-amber-200 text-amber-800'
+                                    : 'bg-red-50 border-red-200 text-red-800'
+                            }`}
+                            role="alert"
+                        >
+                            <span className="text-lg flex-shrink-0 mt-0.5">{isWarning ? '⚠️' : '❌'}</span>
+                            <div className="flex-1 min-w-0">
+                                <p className="text-sm font-semibold mb-0.5">
+                                    {isWarning
+                                        ? (language === 'si' ? 'Delni prevod' : 'Partial Translation')
+                                        : 'Error'}
+                                </p>
+                                <p className="text-sm leading-relaxed">{error}</p>
+                            </div>
+                        </div>
+                    );
+                })()}
+
+                {!isLoading && props.qualityReport && getFailedFindings(props.qualityReport).length > 0 && (
                     <div
                         className={`mx-6 mt-4 mb-2 flex items-start gap-3 rounded-xl border px-4 py-3 shadow-sm animate-fadeIn ${
-                            isWarning
-                                ? 'bg-amber-50 border-amber-200 text-amber-800'
-                                : 'bg-red-50 border-red-200 text-red-800'
+                            props.qualityReport.fatalCount > 0
+                                ? 'bg-red-50 border-red-200 text-red-800'
+                                : 'bg-amber-50 border-amber-200 text-amber-800'
                         }`}
-                        role="alert"
+                        role="status"
                     >
-                        <span className="text-lg flex-shrink-0 mt-0.5">{isWarning ? '⚠️' : '❌'}</span>
+                        <span className="text-lg flex-shrink-0 mt-0.5">{props.qualityReport.fatalCount > 0 ? '❌' : '⚠️'}</span>
                         <div className="flex-1 min-w-0">
-                            <p className="text-sm font-semibold mb-0.5">
-                                {isWarning
-                                    ? (language === 'si' ? 'Delni prevod' : 'Partial Translation')
-                                    : 'Error'}
+                            <p className="text-sm font-semibold mb-1">
+                                {language === 'si'
+                                    ? `Preverjanje kakovosti: ${props.qualityReport.fatalCount} fatalnih, ${props.qualityReport.warningCount} opozoril`
+                                    : `Quality gates: ${props.qualityReport.fatalCount} fatal, ${props.qualityReport.warningCount} warnings`}
                             </p>
-                            <p className="text-sm leading-relaxed">{error}</p>
+                            <ul className="text-xs leading-relaxed space-y-0.5 max-h-40 overflow-y-auto">
+                                {getFailedFindings(props.qualityReport).map((f, idx) => (
+                                    <li key={idx}>
+                                        <span className="font-bold">{f.severity === 'fatal' ? 'FATAL' : 'WARN'}</span>
+                                        {' '}<code className="font-mono">{f.path}</code>{' — '}{f.message}
+                                    </li>
+                                ))}
+                            </ul>
                         </div>
+                        {props.onDismissQualityReport && (
+                            <button
+                                onClick={props.onDismissQualityReport}
+                                className="text-sm font-bold opacity-60 hover:opacity-100 flex-shrink-0"
+                                title={language === 'si' ? 'Zapri' : 'Dismiss'}
+                            >
+                                ✕
+                            </button>
+                        )}
                     </div>
-                );
-            })()}
-
-            {isLoading && (
-                <div className="p-4 m-6 flex items-center justify-center gap-4 text-sky-700 bg-sky-50 rounded-lg animate-pulse border border-sky-100 font-medium">
-                    <div className="border-2 border-sky-400 border-t-transparent rounded-full animate-spin w-5 h-5 flex-shrink-0" />
-                    <span>{typeof isLoading === 'string' ? isLoading : t.loading}</span>
-                    {props.onCancelGeneration && (
-                        <button
-                            onClick={props.onCancelGeneration}
-                            className="ml-4 px-4 py-1.5 text-sm font-bold bg-red-500 text-white rounded-lg hover:bg-red-600 active:scale-95 transition-all shadow-sm flex items-center gap-1.5 flex-shrink-0 animate-none"
+                )}
+
+                {!isLoading && Array.isArray(props.aiSuggestions) && props.aiSuggestions.length > 0 && (
+                    <AISuggestionsPanel
+                        suggestions={props.aiSuggestions}
+                        language={language}
+                        onAccept={props.onAcceptSuggestion}
+                        onReject={props.onRejectSuggestion}
+                        onAcceptAll={props.onAcceptAllSuggestions}
+                        onRejectAll={props.onRejectAllSuggestions}
+                    />
+                )}
+
+                {isLoading && (
+                    <div className="p-4 m-6 flex items-center justify-center gap-4 text-sky-700 bg-sky-50 rounded-lg animate-pulse border border-sky-100 font-medium">
+                        <div className="border-2 border-sky-400 border-t-transparent rounded-full animate-spin w-5 h-5 flex-shrink-0" />
+                        <span>{typeof isLoading === 'string' ? isLoading : t.loading}</span>
+                        {props.onCancelGeneration && (
+                            <button
+                                onClick={props.onCancelGeneration}
+                                className="ml-4 px-4 py-1.5 text-sm font-bold bg-red-500 text-white rounded-lg hover:bg-red-600 active:scale-95 transition-all shadow-sm flex items-center gap-1.5 flex-shrink-0 animate-none"
+                            >
+                                ✕ {language === 'si' ? 'Prekliči' : 'Cancel'}
+                            </button>
+                        )}
+                    </div>
+                )}
+
+                {isLoading && streamPreviewText && (
+                    <div className="mx-6 -mt-3 mb-4 rounded-lg border border-sky-100 bg-white shadow-sm">
+                        <div className="flex items-center gap-2 px-4 py-2 border-b border-sky-100 text-xs font-semibold text-sky-700">
+                            <span className="inline-block w-2 h-2 rounded-full bg-sky-500 animate-pulse" />
+                            {language === 'si' ? 'Predogled v živo' : 'Live preview'}
+                            <span className="font-normal text-slate-400">— {props.streamPreview.sectionKey}</span>
+                        </div>
+                        <pre
+                            ref={streamPreviewRef}
+                            className="px-4 py-3 max-h-64 overflow-y-auto text-xs font-mono text-slate-700 whitespace-pre-wrap break-words"
                         >
-                            ✕ {language === 'si' ? 'Prekliči' : 'Cancel'}
-                        </button>
-                    )}
-                </div>
-            )}
+                            {streamPreviewText.length > 6000 ? '…' + streamPreviewText.slice(-6000) : streamPreviewText}
+                        </pre>
+                    </div>
+                )}
 
-            <div
-                id="main-scroll-container"
-                className="step-content flex-1 overflow-y-auto p-6 scroll-smooth relative"
-                style={{
-                    '--step-card-bg': stepColors[sectionKey as keyof typeof stepColors]?.light || '#FFFFFF',
-                    '--step-card-border': stepColors[sectionKey as keyof typeof stepColors]?.border || '#E2E8F0',
-                } as React.CSSProperties}
-            >
-                <div className="max-w-5xl mx-auto pb-20">
-                    <div className="animate-fadeIn" key={activeStepId}>
-                        {renderContent()}
+                <div
+                    id="main-scroll-container"
+                    className="step-content flex-1 overflow-y-auto p-6 scroll-smooth relative"
+                    style={{
+                        '--step-card-bg': stepColors[sectionKey as keyof typeof stepColors]?.light || '#FFFFFF',
+                        '--step-card-border': stepColors[sectionKey as keyof typeof stepColors]?.border || '#E2E8F0',
+                    } as React.CSSProperties}
+                >
+                    <div className="max-w-5xl mx-auto pb-20">
+                        <div className="animate-fadeIn" key={activeStepId}>
+                            {renderContent()}
+                        </div>
                     </div>
                 </div>
-            </div>
-        </main>
+
+                <BudgetImportModal
+                    isOpen={budgetImportOpen}
+                    onClose={() => setBudgetImportOpen(false)}
+                    projectData={props.projectData}
+                    language={language}
+                    onApply={(activities) => props.onUpdateData(['activities'], activities)}
+                />
+                <MsProjectImportModal
+                    isOpen={msProjectImportOpen}
+                    onClose={() => setMsProjectImportOpen(false)}
+                    projectData={props.projectData}
+                    language={language}
+                    onApply={(activities) => props.onUpdateData(['activities'], activities)}
+                />
+                <UnitCostCatalogueModal
+                    isOpen={unitCostCatalogueOpen}
+                    onClose={() => setUnitCostCatalogueOpen(false)}
+                    fundingModel={props.projectData.fundingModel || 'centralized'}
+                    language={language}
+                />
+            </main>
+        </FieldSuggestionsProvider>
     );
 };
 
@@ -1,10 +1,18 @@
 // components/ProjectListModal.tsx
+// v3.4 — 2026-03-07 — Language registry: currentData holds every language; structural comparison EN ↔ current (or first other) language
+// v3.3 — 2026-03-07 — EN ↔ SI structural comparison of the current project (ProjectDiffModal)
+// v3.2 — 2026-03-07 — Version history per project (project_versions): list, named snapshot, restore, compare
 // v3.1 — 2026-03-06 — Clone button (EO-038)
 // v3.0 - 2026-02-17  Dark-mode: isDark + colors pattern
 import React, { useState, useEffect, useCallback } from 'react';
 import { lightColors, darkColors, shadows, radii, spacing, animation, typography } from '../design/theme.ts';
 import { getThemeMode, onThemeChange } from '../services/themeService.ts';
-import { TEXT } from '../locales.ts';
+import { getText } from '../locales.ts';
+import { projectVersionService } from '../services/projectVersionService.ts';
+import ProjectVersionCompareModal from './ProjectVersionCompareModal.tsx';
+import ProjectDiffModal from './ProjectDiffModal.tsx';
+import type { ProjectVersion } from '../types.ts';
+import { getLanguageLocale, type LanguageCode } from '../languages.ts';
 
 interface ProjectListModalProps {
   isOpen: boolean;
@@ -15,11 +23,15 @@ interface ProjectListModalProps {
   onCreateProject: () => void;
   onDeleteProject: (id: string) => void;
   onCloneProject?: (id: string) => void;
-  language: 'en' | 'si';
+  onRestoreVersion?: (projectId: string, versionId: string) => void;
+  onCreateSnapshot?: (label: string) => Promise<any>;
+  currentData?: Record<LanguageCode, any>;
+  language: LanguageCode;
 }
 const ProjectListModal: React.FC<ProjectListModalProps> = ({
   isOpen, onClose, projects, currentProjectId,
-  onSelectProject, onCreateProject, onDeleteProject, onCloneProject, language
+  onSelectProject, onCreateProject, onDeleteProject, onCloneProject,
+  onRestoreVersion, onCreateSnapshot, currentData, language
 }) => {
   const [isDark, setIsDark] = useState(getThemeMode() === 'dark');
   useEffect(() => {
@@ -28,9 +40,50 @@ const ProjectListModal: React.FC<ProjectListModalProps> = ({
   }, []);
   const colors = isDark ? darkColors : lightColors;
 
+  // ★ v3.2: Version history state
+  const [historyProjectId, setHistoryProjectId] = useState<string | null>(null);
+  const [versions, setVersions] = useState<ProjectVersion[]>([]);
+  const [versionsLoading, setVersionsLoading] = useState(false);
+  const [snapshotLabel, setSnapshotLabel] = useState('');
+  const [isSavingSnapshot, setIsSavingSnapshot] = useState(false);
+  const [compareVersion, setCompareVersion] = useState<ProjectVersion | null>(null);
+  const [isLanguageDiffOpen, setIsLanguageDiffOpen] = useState(false);
+
+  const loadVersions = useCallback(async (projectId: string) => {
+    setVersionsLoading(true);
+    const list = await projectVersionService.listVersions(projectId);
+    setVersions(list);
+    setVersionsLoading(false);
+  }, []);
+
+  const toggleHistory = useCallback((projectId: string) => {
+    if (historyProjectId === projectId) {
+      setHistoryProjectId(null);
+      return;
+    }
+    setHistoryProjectId(projectId);
+    setVersions([]);
+    setSnapshotLabel('');
+    loadVersions(projectId);
+  }, [historyProjectId, loadVersions]);
+
+  const handleSaveSnapshot = useCallback(async () => {
+    if (!onCreateSnapshot || !snapshotLabel.trim() || !historyProjectId) return;
+    setIsSavingSnapshot(true);
+    await onCreateSnapshot(snapshotLabel.trim());
+    setIsSavingSnapshot(false);
+    setSnapshotLabel('');
+    loadVersions(historyProjectId);
+  }, [onCreateSnapshot, snapshotLabel, historyProjectId, loadVersions]);
+
+  const handleCompare = useCallback(async (versionId: string) => {
+    const full = await projectVersionService.getVersion(versionId);
+    if (full) setCompareVersion(full);
+  }, []);
+
   const handleKeyDown = useCallback((e: KeyboardEvent) => {
-    if (e.key === 'Escape') onClose();
-  }, [onClose]);
+    if (e.key === 'Escape' && !compareVersion && !isLanguageDiffOpen) onClose();
+  }, [onClose, compareVersion, isLanguageDiffOpen]);
 
   useEffect(() => {
     if (isOpen) {
@@ -41,13 +94,20 @@ const ProjectListModal: React.FC<ProjectListModalProps> = ({
 
   if (!isOpen) return null;
 
-  const tLang = TEXT[language] || TEXT['en'];
+  const tLang = getText(language);
   const t = tLang.projects;
 
+  // Language pair for the structural comparison: EN (or first) ↔ current (or next) language
+  const diffLangs = currentData ? Object.keys(currentData).filter((l) => currentData[l]) : [];
+  const diffBaseLang = diffLangs.includes('en') ? 'en' : diffLangs[0];
+  const diffTargetLang = language !== diffBaseLang && diffLangs.includes(language)
+    ? language
+    : diffLangs.find((l) => l !== diffBaseLang);
+
   const formatDate = (isoString: string) => {
     try {
       return new Date(isoString).toLocaleDateString(
-        language === 'si' ? 'sl-SI' : 'en-GB',
+        getLanguageLocale(language),
         { year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' }
       );
     } catch { return isoString; }
@@ -151,8 +211,8 @@ const ProjectListModal: React.FC<ProjectListModalProps> = ({
               {projects.map((proj: any) => {
                 const isCurrent = proj.id === currentProjectId;
                 return (
+                  <div key={proj.id}>
                   <div
-                    key={proj.id}
                     style={{
                       padding: spacing.lg,
                       borderRadius: radii.xl,
@@ -210,6 +270,18 @@ const ProjectListModal: React.FC<ProjectListModalProps> = ({
                             Active
                           </span>
                         )}
+                        {proj.version > 1 && (
+                          <span style={{
+                            fontSize: '10px',
+                            color: colors.text.muted,
+                            border: `1px solid ${colors.border.light}`,
+                            padding: '1px 6px',
+                            borderRadius: radii.full,
+                            flexShrink: 0,
+                          }}>
+                            v{proj.version}
+                          </span>
+                        )}
                       </div>
                       <p style={{
                         fontSize: typography.fontSize.xs,
@@ -219,6 +291,27 @@ const ProjectListModal: React.FC<ProjectListModalProps> = ({
                         {t.lastModified}: {formatDate(proj.updatedAt)}
                       </p>
                     </div>
+                    {onRestoreVersion && (
+                      <button
+                        onClick={(e) => { e.stopPropagation(); toggleHistory(proj.id); }}
+                        style={{
+                          padding: spacing.sm,
+                          borderRadius: radii.lg,
+                          border: 'none',
+                          background: historyProjectId === proj.id ? (isDark ? 'rgba(99,102,241,0.15)' : colors.primary[50]) : 'transparent',
+                          color: historyProjectId === proj.id ? colors.primary[500] : colors.text.muted,
+                          cursor: 'pointer',
+                          display: 'flex',
+                          transition: 'all ' + animation.duration.fast,
+                          flexShrink: 0,
+                        }}
+                        title={language === 'si' ? 'Zgodovina različic' : 'Version history'}
+                      >
+                        <svg style={{ width: 20, height: 20 }} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                        </svg>
+                      </button>
+                    )}
                     {onCloneProject && (
                       <button
                         onClick={(e) => { e.stopPropagation(); onCloneProject(proj.id); }}
@@ -276,6 +369,123 @@ const ProjectListModal: React.FC<ProjectListModalProps> = ({
                       </svg>
                     </button>
                   </div>
+
+                  {/* ★ v3.2: Version history panel */}
+                  {historyProjectId === proj.id && (
+                    <div style={{
+                      margin: `${spacing.xs} ${spacing.md} 0`,
+                      padding: spacing.md,
+                      borderRadius: radii.lg,
+                      border: `1px solid ${colors.border.light}`,
+                      background: colors.surface.card,
+                    }}>
+                      {isCurrent && onCreateSnapshot && (
+                        <div style={{ display: 'flex', gap: spacing.sm, marginBottom: spacing.md }}>
+                          <input
+                            type="text"
+                            value={snapshotLabel}
+                            onChange={(e) => setSnapshotLabel(e.target.value)}
+                            onKeyDown={(e) => { if (e.key === 'Enter') handleSaveSnapshot(); }}
+                            placeholder={language === 'si' ? 'Ime posnetka (npr. "poslano partnerjem v pregled")' : 'Snapshot name (e.g. "submitted to partner review")'}
+                            style={{
+                              flex: 1,
+                              fontSize: typography.fontSize.xs,
+                              padding: `6px ${spacing.sm}`,
+                              borderRadius: radii.md,
+                              border: `1px solid ${colors.border.light}`,
+                              background: colors.surface.background,
+                              color: colors.text.body,
+                              fontFamily: 'inherit',
+                            }}
+                          />
+                          <button
+                            onClick={handleSaveSnapshot}
+                            disabled={!snapshotLabel.trim() || isSavingSnapshot}
+                            style={{
+                              fontSize: typography.fontSize.xs,
+                              padding: `6px ${spacing.md}`,
+                              borderRadius: radii.md,
+                              border: 'none',
+                              background: colors.primary[500],
+                              color: '#FFFFFF',
+                              cursor: snapshotLabel.trim() && !isSavingSnapshot ? 'pointer' : 'not-allowed',
+                              opacity: snapshotLabel.trim() && !isSavingSnapshot ? 1 : 0.5,
+                              fontFamily: 'inherit',
+                            }}
+                          >
+                            {isSavingSnapshot
+                              ? (language === 'si' ? 'Shranjujem...' : 'Saving...')
+                              : (language === 'si' ? 'Shrani posnetek' : 'Save snapshot')}
+                          </button>
+                          {diffBaseLang && diffTargetLang && (
+                            <button
+                              onClick={() => setIsLanguageDiffOpen(true)}
+                              title={language === 'si'
+                                ? `Strukturne razlike med ${diffBaseLang.toUpperCase()} in ${diffTargetLang.toUpperCase()} različico`
+                                : `Structural differences between ${diffBaseLang.toUpperCase()} and ${diffTargetLang.toUpperCase()}`}
+                              style={{
+                                fontSize: typography.fontSize.xs,
+                                padding: `6px ${spacing.md}`,
+                                borderRadius: radii.md,
+                                border: `1px solid ${colors.border.light}`,
+                                background: 'transparent',
+                                color: colors.text.body,
+                                cursor: 'pointer',
+                                fontFamily: 'inherit',
+                                flexShrink: 0,
+                              }}
+                            >
+                              {diffBaseLang.toUpperCase()} ↔ {diffTargetLang.toUpperCase()}
+                            </button>
+                          )}
+                        </div>
+                      )}
+                      {versionsLoading ? (
+                        <p style={{ fontSize: typography.fontSize.xs, color: colors.text.muted, margin: 0 }}>
+                          {language === 'si' ? 'Nalagam zgodovino...' : 'Loading history...'}
+                        </p>
+                      ) : versions.length === 0 ? (
+                        <p style={{ fontSize: typography.fontSize.xs, color: colors.text.muted, margin: 0 }}>
+                          {language === 'si' ? 'Ni shranjenih različic.' : 'No saved versions yet.'}
+                        </p>
+                      ) : (
+                        <div style={{ display: 'flex', flexDirection: 'column', gap: 4, maxHeight: 220, overflowY: 'auto' }} className="custom-scrollbar">
+                          {versions.map((v) => (
+                            <div key={v.id} style={{
+                              display: 'flex',
+                              alignItems: 'center',
+                              gap: spacing.sm,
+                              fontSize: typography.fontSize.xs,
+                              padding: '4px 6px',
+                              borderRadius: radii.md,
+                              background: v.kind === 'named' ? (isDark ? 'rgba(99,102,241,0.12)' : colors.primary[50]) : 'transparent',
+                            }}>
+                              <span style={{ fontWeight: typography.fontWeight.bold, color: colors.text.heading, minWidth: 32 }}>v{v.version}</span>
+                              <span style={{ flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', color: v.kind === 'named' ? colors.text.heading : colors.text.muted }}>
+                                {v.label || v.reason || (language === 'si' ? 'samodejni posnetek' : 'auto snapshot')}
+                              </span>
+                              <span style={{ color: colors.text.muted, flexShrink: 0 }}>{formatDate(v.createdAt)}</span>
+                              {isCurrent && currentData && (
+                                <button
+                                  onClick={() => handleCompare(v.id)}
+                                  style={{ fontSize: '11px', padding: '2px 8px', borderRadius: radii.md, border: `1px solid ${colors.border.light}`, background: 'transparent', color: colors.text.body, cursor: 'pointer', fontFamily: 'inherit' }}
+                                >
+                                  {language === 'si' ? 'Primerjaj' : 'Compare'}
+                                </button>
+                              )}
+                              <button
+                                onClick={() => onRestoreVersion && onRestoreVersion(proj.id, v.id)}
+                                style={{ fontSize: '11px', padding: '2px 8px', borderRadius: radii.md, border: `1px solid ${colors.primary[300]}`, background: 'transparent', color: colors.primary[500], cursor: 'pointer', fontFamily: 'inherit' }}
+                              >
+                                {language === 'si' ? 'Obnovi' : 'Restore'}
+                              </button>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                  </div>
                 );
               })}
             </div>
@@ -341,6 +551,25 @@ const ProjectListModal: React.FC<ProjectListModalProps> = ({
           </button>
         </div>
       </div>
+
+      <ProjectVersionCompareModal
+        isOpen={!!compareVersion}
+        onClose={() => setCompareVersion(null)}
+        version={compareVersion}
+        currentData={currentData || { en: null, si: null }}
+        language={language}
+        onRestore={onRestoreVersion && currentProjectId ? (versionId) => { setCompareVersion(null); onRestoreVersion(currentProjectId, versionId); } : undefined}
+      />
+      <ProjectDiffModal
+        isOpen={isLanguageDiffOpen}
+        onClose={() => setIsLanguageDiffOpen(false)}
+        oldData={currentData && diffBaseLang ? currentData[diffBaseLang] : null}
+        newData={currentData && diffTargetLang ? currentData[diffTargetLang] : null}
+        oldLabel={(diffBaseLang || '').toUpperCase()}
+        newLabel={(diffTargetLang || '').toUpperCase()}
+        options={{ matchBy: 'index', includeTextChanges: false }}
+        language={language}
+      />
     </div>
   );
 };
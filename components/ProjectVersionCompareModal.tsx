@@ -0,0 +1,253 @@
+// components/ProjectVersionCompareModal.tsx
+// v1.2 — 2026-03-07 — Language selector lists every language present in the snapshot or the current project
+// v1.1 — 2026-03-07 — Structural diff (ProjectDiffView) as default view; raw JSON view kept as "JSON"
+// v1.0 — 2026-03-07 — Side-by-side view: saved project version vs current project
+//   - Per top-level section (problemAnalysis, objectives, activities ...)
+//   - "Only changed" toggle (default ON)
+//   - Dark-mode: isDark + colors pattern
+import React, { useState, useEffect, useMemo } from 'react';
+import { lightColors, darkColors, shadows, radii, spacing, typography } from '../design/theme.ts';
+import { getThemeMode, onThemeChange } from '../services/themeService.ts';
+import { ProjectDiffView } from './ProjectDiffModal.tsx';
+import type { ProjectVersion } from '../types.ts';
+import { getLanguageLocale, type LanguageCode } from '../languages.ts';
+
+interface ProjectVersionCompareModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  version: ProjectVersion | null;
+  currentData: Record<LanguageCode, any>;
+  language: LanguageCode;
+  onRestore?: (versionId: string) => void;
+}
+
+const stringifySection = (value: any): string => {
+  if (value === undefined || value === null) return '';
+  return JSON.stringify(value, null, 2);
+};
+
+const ProjectVersionCompareModal: React.FC<ProjectVersionCompareModalProps> = ({
+  isOpen, onClose, version, currentData, language, onRestore
+}) => {
+  const [isDark, setIsDark] = useState(getThemeMode() === 'dark');
+  const [onlyChanged, setOnlyChanged] = useState(true);
+  const [viewMode, setViewMode] = useState<'diff' | 'json'>('diff');
+  const [viewLang, setViewLang] = useState<LanguageCode>(language);
+  const viewLangs = useMemo(() => {
+    const langs = new Set<LanguageCode>([language]);
+    for (const [lang, data] of Object.entries(version?.data || {})) if (data) langs.add(lang);
+    for (const [lang, data] of Object.entries(currentData)) if (data) langs.add(lang);
+    return Array.from(langs);
+  }, [version, currentData, language]);
+  useEffect(() => {
+    const unsub = onThemeChange((m) => setIsDark(m === 'dark'));
+    return unsub;
+  }, []);
+  useEffect(() => { setViewLang(language); }, [language, version]);
+  const colors = isDark ? darkColors : lightColors;
+
+  const sections = useMemo(() => {
+    if (!version || !version.data) return [];
+    const oldData = version.data[viewLang] || {};
+    const newData = currentData[viewLang] || {};
+    const keys = Array.from(new Set([...Object.keys(oldData), ...Object.keys(newData)]));
+    return keys.map((key) => {
+      const oldText = stringifySection(oldData[key]);
+      const newText = stringifySection(newData[key]);
+      return { key, oldText, newText, changed: oldText !== newText };
+    });
+  }, [version, currentData, viewLang]);
+
+  if (!isOpen || !version) return null;
+
+  const visible = onlyChanged ? sections.filter((s) => s.changed) : sections;
+  const changedCount = sections.filter((s) => s.changed).length;
+
+  const columnStyle: React.CSSProperties = {
+    flex: 1,
+    minWidth: 0,
+    margin: 0,
+    padding: spacing.sm,
+    fontSize: '11px',
+    lineHeight: 1.4,
+    fontFamily: typography.fontFamily.mono,
+    whiteSpace: 'pre-wrap',
+    wordBreak: 'break-word',
+    maxHeight: 280,
+    overflowY: 'auto',
+    background: colors.surface.background,
+    color: colors.text.body,
+    border: `1px solid ${colors.border.light}`,
+    borderRadius: radii.md,
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 150,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: spacing.lg,
+        background: colors.surface.overlayBlur,
+        backdropFilter: 'blur(8px)',
+      }}
+      onClick={(e) => { if (e.target === e.currentTarget) onClose(); }}
+    >
+      <div style={{
+        background: colors.surface.card,
+        borderRadius: radii['2xl'],
+        boxShadow: shadows['2xl'],
+        maxWidth: 1100,
+        width: '100%',
+        maxHeight: '90vh',
+        display: 'flex',
+        flexDirection: 'column',
+        overflow: 'hidden',
+        border: `1px solid ${colors.border.light}`,
+        fontFamily: typography.fontFamily.sans,
+      }}>
+        {/* Header */}
+        <div style={{
+          padding: `${spacing.lg} ${spacing['2xl']}`,
+          borderBottom: `1px solid ${colors.border.light}`,
+          background: colors.surface.sidebar,
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          gap: spacing.md,
+          flexShrink: 0,
+        }}>
+          <div>
+            <h3 style={{ margin: 0, fontSize: typography.fontSize.lg, fontWeight: typography.fontWeight.bold, color: colors.text.heading }}>
+              {language === 'si' ? 'Primerjava različic' : 'Compare versions'}: v{version.version}
+              {version.label ? ` — ${version.label}` : ''}
+            </h3>
+            <p style={{ margin: '4px 0 0', fontSize: typography.fontSize.xs, color: colors.text.muted }}>
+              {language === 'si'
+                ? `${changedCount} od ${sections.length} razdelkov spremenjenih`
+                : `${changedCount} of ${sections.length} sections changed`}
+            </p>
+          </div>
+          <div style={{ display: 'flex', alignItems: 'center', gap: spacing.md }}>
+            <select
+              value={viewLang}
+              onChange={(e) => setViewLang(e.target.value)}
+              style={{ fontSize: typography.fontSize.xs, padding: '4px 8px', borderRadius: radii.md, border: `1px solid ${colors.border.light}`, background: colors.surface.card, color: colors.text.body }}
+            >
+              {viewLangs.map((lang) => (
+                <option key={lang} value={lang}>{lang.toUpperCase()}</option>
+              ))}
+            </select>
+            <select
+              value={viewMode}
+              onChange={(e) => setViewMode(e.target.value as 'diff' | 'json')}
+              style={{ fontSize: typography.fontSize.xs, padding: '4px 8px', borderRadius: radii.md, border: `1px solid ${colors.border.light}`, background: colors.surface.card, color: colors.text.body }}
+            >
+              <option value="diff">{language === 'si' ? 'Spremembe' : 'Changes'}</option>
+              <option value="json">JSON</option>
+            </select>
+            {viewMode === 'json' && (
+              <label style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: typography.fontSize.xs, color: colors.text.body, cursor: 'pointer' }}>
+                <input type="checkbox" checked={onlyChanged} onChange={(e) => setOnlyChanged(e.target.checked)} />
+                {language === 'si' ? 'Samo spremembe' : 'Only changed'}
+              </label>
+            )}
+            <button
+              onClick={onClose}
+              style={{ padding: spacing.xs, border: 'none', background: 'transparent', color: colors.text.muted, cursor: 'pointer', display: 'flex' }}
+            >
+              <svg style={{ width: 22, height: 22 }} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        {viewMode === 'diff' ? (
+          <div style={{ flex: 1, overflowY: 'auto', padding: `${spacing.md} ${spacing['2xl']} ${spacing.lg}` }} className="custom-scrollbar">
+            <ProjectDiffView
+              oldData={version.data ? version.data[viewLang] : null}
+              newData={currentData[viewLang]}
+              language={language}
+            />
+          </div>
+        ) : (
+        <>
+        {/* Column titles */}
+        <div style={{ display: 'flex', gap: spacing.md, padding: `${spacing.sm} ${spacing['2xl']}`, fontSize: typography.fontSize.xs, fontWeight: typography.fontWeight.semibold, color: colors.text.muted, flexShrink: 0 }}>
+          <div style={{ flex: 1 }}>
+            v{version.version} · {new Date(version.createdAt).toLocaleString(getLanguageLocale(language))}
+          </div>
+          <div style={{ flex: 1 }}>{language === 'si' ? 'Trenutno stanje' : 'Current'}</div>
+        </div>
+
+        {/* Sections */}
+        <div style={{ flex: 1, overflowY: 'auto', padding: `0 ${spacing['2xl']} ${spacing.lg}` }} className="custom-scrollbar">
+          {visible.length === 0 ? (
+            <p style={{ textAlign: 'center', color: colors.text.muted, fontSize: typography.fontSize.sm, padding: spacing['2xl'] }}>
+              {language === 'si' ? 'Ni razlik.' : 'No differences.'}
+            </p>
+          ) : visible.map((s) => (
+            <div key={s.key} style={{ marginBottom: spacing.lg }}>
+              <div style={{ display: 'flex', alignItems: 'center', gap: spacing.sm, marginBottom: 6 }}>
+                <span style={{ fontSize: typography.fontSize.sm, fontWeight: typography.fontWeight.semibold, color: colors.text.heading }}>{s.key}</span>
+                {s.changed && (
+                  <span style={{
+                    fontSize: '10px',
+                    padding: '1px 8px',
+                    borderRadius: radii.full,
+                    background: isDark ? 'rgba(245,158,11,0.2)' : colors.warning[100],
+                    color: isDark ? colors.warning[200] : colors.warning[700],
+                    fontWeight: typography.fontWeight.bold,
+                    textTransform: 'uppercase',
+                  }}>
+                    {language === 'si' ? 'spremenjeno' : 'changed'}
+                  </span>
+                )}
+              </div>
+              <div style={{ display: 'flex', gap: spacing.md }}>
+                <pre style={columnStyle}>{s.oldText || '—'}</pre>
+                <pre style={columnStyle}>{s.newText || '—'}</pre>
+              </div>
+            </div>
+          ))}
+        </div>
+        </>
+        )}
+
+        {/* Footer */}
+        {onRestore && (
+          <div style={{
+            padding: `${spacing.md} ${spacing['2xl']}`,
+            borderTop: `1px solid ${colors.border.light}`,
+            display: 'flex',
+            justifyContent: 'flex-end',
+            flexShrink: 0,
+          }}>
+            <button
+              onClick={() => onRestore(version.id)}
+              style={{
+                padding: `${spacing.sm} ${spacing.lg}`,
+                background: colors.primary.gradient,
+                color: '#FFFFFF',
+                border: 'none',
+                borderRadius: radii.lg,
+                fontSize: typography.fontSize.sm,
+                fontWeight: typography.fontWeight.semibold,
+                cursor: 'pointer',
+                fontFamily: 'inherit',
+              }}
+            >
+              {language === 'si' ? `Obnovi v${version.version}` : `Restore v${version.version}`}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProjectVersionCompareModal;
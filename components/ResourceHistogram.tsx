@@ -0,0 +1,193 @@
+// components/ResourceHistogram.tsx
+// ═══════════════════════════════════════════════════════════════
+// Resource loading histogram – v1.0 (2026-03-07)
+// ═══════════════════════════════════════════════════════════════
+// Monthly partner load in FTE (resourceLoadService.buildResourceLoad):
+//   - All partners: stacked bars, over-allocated segments outlined red
+//   - Single partner: bar + dashed FTE capacity line
+//   - Over-allocated months listed with the contributing tasks; a task
+//     chip scrolls to its card in the work plan (id "task-<taskId>")
+// ═══════════════════════════════════════════════════════════════
+
+import React, { useMemo, useState } from 'react';
+import { buildResourceLoad } from '../services/resourceLoadService.ts';
+
+const PARTNER_COLORS = ['#0ea5e9', '#8b5cf6', '#10b981', '#f59e0b', '#ec4899', '#6366f1', '#14b8a6', '#f97316', '#84cc16', '#64748b'];
+
+const COL_WIDTH = 26;
+const BAR_GAP = 6;
+const CHART_HEIGHT = 200;
+const AXIS_LEFT = 40;
+const AXIS_BOTTOM = 28;
+const TOP_PAD = 14;
+
+const fmt = (value: number): string => (Math.round(value * 100) / 100).toFixed(2);
+
+const scrollToTask = (taskId: string) => {
+    const el = document.getElementById('task-' + taskId);
+    if (!el) return;
+    el.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    el.classList.add('ring-2', 'ring-red-400');
+    setTimeout(() => el.classList.remove('ring-2', 'ring-red-400'), 1600);
+};
+
+const ResourceHistogram = ({ projectData, language = 'en' }) => {
+    const [partnerFilter, setPartnerFilter] = useState('all');
+    const si = language === 'si';
+
+    const load = useMemo(() => buildResourceLoad(projectData), [projectData.partners, projectData.activities, projectData.projectIdea]);
+    const { months, partners, overAllocations, unscheduledPm } = load;
+
+    const visible = partnerFilter === 'all' ? partners : partners.filter(p => p.partnerId === partnerFilter);
+    const colorOf = (partnerId: string) => PARTNER_COLORS[Math.max(0, partners.findIndex(p => p.partnerId === partnerId)) % PARTNER_COLORS.length];
+    const isOver = (partnerId: string, monthIndex: number) => overAllocations.some(o => o.partnerId === partnerId && o.monthIndex === monthIndex);
+
+    if (partners.length === 0 || months.length === 0) {
+        return (
+            <div className="text-center py-8 text-slate-400 italic bg-slate-50 rounded-xl border border-dashed border-slate-300">
+                {si
+                    ? 'Za prikaz obremenitve vnesite partnerje, datume nalog in osebe-mesece (PM) po nalogah.'
+                    : 'Add partners, task dates and person-months per task to see the resource load.'}
+            </div>
+        );
+    }
+
+    const totals = months.map((_, m) => visible.reduce((sum, p) => sum + p.monthly[m], 0));
+    const single = visible.length === 1 ? visible[0] : null;
+    const maxValue = Math.max(1, ...totals, single ? single.capacity : 0) * 1.1;
+    const yStep = maxValue > 8 ? 2 : maxValue > 4 ? 1 : 0.5;
+    const yTicks: number[] = [];
+    for (let v = 0; v <= maxValue; v += yStep) yTicks.push(v);
+
+    const width = AXIS_LEFT + months.length * COL_WIDTH + 10;
+    const height = TOP_PAD + CHART_HEIGHT + AXIS_BOTTOM;
+    const y = (value: number) => TOP_PAD + CHART_HEIGHT - (value / maxValue) * CHART_HEIGHT;
+    const labelEvery = months.length > 36 ? 6 : months.length > 18 ? 3 : 1;
+
+    const visibleOver = overAllocations.filter(o => partnerFilter === 'all' || o.partnerId === partnerFilter);
+
+    return (
+        <div className="p-4">
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+                <div className="flex flex-wrap items-center gap-3 text-xs text-slate-600">
+                    {partners.map(p => (
+                        <span key={p.partnerId} className="flex items-center gap-1">
+                            <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: colorOf(p.partnerId) }} />
+                            <strong>{p.code || '?'}</strong>
+                            <span className="text-slate-400">{fmt(p.totalPm)} PM · {si ? 'kapaciteta' : 'capacity'} {p.capacity} FTE</span>
+                        </span>
+                    ))}
+                </div>
+                <select
+                    className="text-sm p-1.5 rounded border border-slate-300 bg-white"
+                    value={partnerFilter}
+                    onChange={e => setPartnerFilter(e.target.value)}
+                >
+                    <option value="all">{si ? 'Vsi partnerji (zloženo)' : 'All partners (stacked)'}</option>
+                    {partners.map(p => <option key={p.partnerId} value={p.partnerId}>{p.code} {p.name ? '– ' + p.name.substring(0, 30) : ''}</option>)}
+                </select>
+            </div>
+
+            <div className="overflow-x-auto">
+                <svg width={width} height={height} className="block">
+                    {yTicks.map(v => (
+                        <g key={v}>
+                            <line x1={AXIS_LEFT} x2={width - 10} y1={y(v)} y2={y(v)} stroke="#e2e8f0" strokeWidth={1} />
+                            <text x={AXIS_LEFT - 6} y={y(v) + 3} fontSize={10} textAnchor="end" fill="#64748b">{v}</text>
+                        </g>
+                    ))}
+                    <text x={4} y={TOP_PAD - 4} fontSize={10} fill="#64748b">FTE</text>
+
+                    {months.map((month, m) => {
+                        const x = AXIS_LEFT + m * COL_WIDTH + BAR_GAP / 2;
+                        let stacked = 0;
+                        const monthOver = visible.some(p => isOver(p.partnerId, m));
+                        return (
+                            <g key={month}>
+                                {visible.map(p => {
+                                    const value = p.monthly[m];
+                                    if (value <= 0) return null;
+                                    const top = y(stacked + value);
+                                    const rectHeight = y(stacked) - top;
+                                    stacked += value;
+                                    const over = isOver(p.partnerId, m);
+                                    return (
+                                        <rect key={p.partnerId} x={x} y={top} width={COL_WIDTH - BAR_GAP} height={Math.max(rectHeight, 0.5)}
+                                            fill={colorOf(p.partnerId)} fillOpacity={over ? 1 : 0.8}
+                                            stroke={over ? '#dc2626' : 'none'} strokeWidth={over ? 2 : 0}>
+                                            <title>{`${p.code} · ${month}: ${fmt(value)} FTE / ${p.capacity}`}</title>
+                                        </rect>
+                                    );
+                                })}
+                                {monthOver && (
+                                    <text x={x + (COL_WIDTH - BAR_GAP) / 2} y={y(stacked) - 3} fontSize={10} textAnchor="middle" fill="#dc2626">▲</text>
+                                )}
+                                {m % labelEvery === 0 && (
+                                    <text x={x + (COL_WIDTH - BAR_GAP) / 2} y={TOP_PAD + CHART_HEIGHT + 14} fontSize={9} textAnchor="middle" fill="#64748b">
+                                        {'M' + (m + 1)}
+                                        <title>{month}</title>
+                                    </text>
+                                )}
+                            </g>
+                        );
+                    })}
+
+                    {single && (
+                        <g>
+                            <line x1={AXIS_LEFT} x2={width - 10} y1={y(single.capacity)} y2={y(single.capacity)} stroke="#dc2626" strokeWidth={1.5} strokeDasharray="5 4" />
+                            <text x={width - 12} y={y(single.capacity) - 4} fontSize={10} textAnchor="end" fill="#dc2626">
+                                {(si ? 'kapaciteta ' : 'capacity ') + single.capacity + ' FTE'}
+                            </text>
+                        </g>
+                    )}
+                    <line x1={AXIS_LEFT} x2={AXIS_LEFT} y1={TOP_PAD} y2={TOP_PAD + CHART_HEIGHT} stroke="#94a3b8" strokeWidth={1} />
+                    <line x1={AXIS_LEFT} x2={width - 10} y1={TOP_PAD + CHART_HEIGHT} y2={TOP_PAD + CHART_HEIGHT} stroke="#94a3b8" strokeWidth={1} />
+                </svg>
+            </div>
+
+            {unscheduledPm > 0 && (
+                <p className="mt-2 text-xs text-amber-700">
+                    {si
+                        ? `${fmt(unscheduledPm)} PM je dodeljenih nalogam brez veljavnih datumov in ni prikazanih.`
+                        : `${fmt(unscheduledPm)} PM is allocated to tasks without valid dates and is not shown.`}
+                </p>
+            )}
+
+            <div className="mt-4">
+                {visibleOver.length === 0 ? (
+                    <p className="text-sm text-emerald-700">
+                        {si ? '✓ Noben partner ni preobremenjen.' : '✓ No partner is over-allocated.'}
+                    </p>
+                ) : (
+                    <>
+                        <h4 className="text-sm font-bold text-red-700 mb-2">
+                            {si ? `Preobremenjeni meseci (${visibleOver.length})` : `Over-allocated months (${visibleOver.length})`}
+                        </h4>
+                        <div className="max-h-64 overflow-y-auto space-y-1.5">
+                            {visibleOver.map(o => (
+                                <div key={o.partnerId + '-' + o.monthIndex} className="flex flex-wrap items-center gap-2 px-3 py-2 rounded border border-red-200 bg-red-50 text-xs">
+                                    <span className="font-semibold text-slate-700">M{o.monthIndex + 1} <span className="text-slate-400 font-normal">({months[o.monthIndex]})</span></span>
+                                    <span className="px-1.5 py-0.5 rounded bg-white border border-slate-200 font-bold" style={{ color: colorOf(o.partnerId) }}>{o.code}</span>
+                                    <span className="text-red-700 font-mono">{fmt(o.load)} / {o.capacity} FTE</span>
+                                    <span className="text-slate-500">{si ? 'naloge:' : 'tasks:'}</span>
+                                    {o.tasks.map((share, idx) => (
+                                        <button
+                                            key={share.taskId + '-' + idx}
+                                            onClick={() => scrollToTask(share.taskId)}
+                                            title={share.taskTitle}
+                                            className="px-1.5 py-0.5 rounded bg-white border border-sky-200 text-sky-700 hover:bg-sky-50 font-semibold"
+                                        >
+                                            {share.taskId} <span className="font-normal text-slate-400">{fmt(share.pm)}</span>
+                                        </button>
+                                    ))}
+                                </div>
+                            ))}
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default ResourceHistogram;
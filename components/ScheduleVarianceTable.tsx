@@ -0,0 +1,104 @@
+// components/ScheduleVarianceTable.tsx
+// ═══════════════════════════════════════════════════════════════
+// Schedule variance against the active baseline – v1.0 (2026-03-07)
+// ═══════════════════════════════════════════════════════════════
+// Rows from scheduleBaselineService.computeScheduleVariance(); by
+// default only items that moved, were added or were removed — the
+// toggle shows every task and milestone.
+// ═══════════════════════════════════════════════════════════════
+
+import React, { useMemo, useState } from 'react';
+import { computeScheduleVariance, formatSlip, type VarianceStatus } from '../services/scheduleBaselineService.ts';
+import type { ScheduleBaseline } from '../types.ts';
+
+const STATUS_STYLE: Record<VarianceStatus, string> = {
+    onTrack: 'bg-slate-100 text-slate-600',
+    late: 'bg-red-100 text-red-700',
+    early: 'bg-emerald-100 text-emerald-700',
+    added: 'bg-sky-100 text-sky-700',
+    removed: 'bg-amber-100 text-amber-700',
+};
+
+const STATUS_LABEL: Record<VarianceStatus, { en: string; si: string }> = {
+    onTrack: { en: 'On baseline', si: 'Po izhodišču' },
+    late: { en: 'Late', si: 'Zamuda' },
+    early: { en: 'Early', si: 'Prej' },
+    added: { en: 'Added', si: 'Dodano' },
+    removed: { en: 'Removed', si: 'Odstranjeno' },
+};
+
+const slipClass = (days: number | null): string =>
+    days === null || days === 0 ? 'text-slate-500' : days > 0 ? 'text-red-600 font-semibold' : 'text-emerald-600 font-semibold';
+
+const ScheduleVarianceTable = ({ activities, baseline, language = 'en' }: { activities: any[]; baseline: ScheduleBaseline; language?: string }) => {
+    const [showAll, setShowAll] = useState(false);
+    const si = language === 'si';
+
+    const rows = useMemo(() => computeScheduleVariance(activities, baseline), [activities, baseline]);
+    const changed = rows.filter(r => r.status !== 'onTrack');
+    const visible = showAll ? rows : changed;
+    const lateCount = rows.filter(r => r.status === 'late').length;
+    const maxSlip = Math.max(0, ...rows.map(r => r.finishSlip || 0));
+
+    return (
+        <div className="mt-4 border border-slate-200 rounded-xl bg-white overflow-hidden">
+            <div className="flex flex-wrap items-center justify-between gap-3 px-4 py-3 bg-slate-50 border-b border-slate-200">
+                <div className="text-sm text-slate-700">
+                    <strong>{si ? 'Odstopanja od izhodišča' : 'Variance from baseline'}</strong>
+                    <span className="text-slate-500"> — {baseline.name} ({baseline.createdAt.slice(0, 10)})</span>
+                    <span className="ml-3 text-xs text-slate-500">
+                        {si
+                            ? `${changed.length} sprememb, ${lateCount} z zamudo, največja zamuda ${formatSlip(maxSlip)}`
+                            : `${changed.length} changed, ${lateCount} late, max slip ${formatSlip(maxSlip)}`}
+                    </span>
+                </div>
+                <label className="flex items-center gap-2 text-xs text-slate-600">
+                    <input type="checkbox" checked={showAll} onChange={e => setShowAll(e.target.checked)} />
+                    {si ? 'Prikaži vse' : 'Show all'}
+                </label>
+            </div>
+            {visible.length === 0 ? (
+                <p className="px-4 py-3 text-sm text-emerald-700">{si ? '✓ Terminski načrt se ujema z izhodiščem.' : '✓ The schedule matches the baseline.'}</p>
+            ) : (
+                <div className="max-h-80 overflow-y-auto">
+                    <table className="w-full text-xs">
+                        <thead className="bg-slate-50 sticky top-0">
+                            <tr className="text-slate-600">
+                                <th className="text-left py-2 px-3 font-semibold">ID</th>
+                                <th className="text-left py-2 px-3 font-semibold">{si ? 'Naziv' : 'Title'}</th>
+                                <th className="text-left py-2 px-3 font-semibold">{si ? 'Izhodišče' : 'Baseline'}</th>
+                                <th className="text-left py-2 px-3 font-semibold">{si ? 'Trenutno' : 'Current'}</th>
+                                <th className="text-right py-2 px-3 font-semibold">{si ? 'Zamik začetka' : 'Start slip'}</th>
+                                <th className="text-right py-2 px-3 font-semibold">{si ? 'Zamik konca' : 'Finish slip'}</th>
+                                <th className="text-left py-2 px-3 font-semibold">Status</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {visible.map(r => (
+                                <tr key={r.kind + '-' + r.id} className="border-t border-slate-100">
+                                    <td className="py-1.5 px-3 font-semibold text-slate-700 whitespace-nowrap">{r.kind === 'milestone' ? '◆ ' : ''}{r.id}</td>
+                                    <td className="py-1.5 px-3 text-slate-600 max-w-xs truncate" title={r.title}>{r.title || '—'}</td>
+                                    <td className="py-1.5 px-3 font-mono text-slate-500 whitespace-nowrap">
+                                        {r.baselineStart ? (r.kind === 'milestone' ? r.baselineStart : `${r.baselineStart} – ${r.baselineEnd}`) : '—'}
+                                    </td>
+                                    <td className="py-1.5 px-3 font-mono text-slate-700 whitespace-nowrap">
+                                        {r.currentStart ? (r.kind === 'milestone' ? r.currentStart : `${r.currentStart} – ${r.currentEnd || '?'}`) : '—'}
+                                    </td>
+                                    <td className={`py-1.5 px-3 text-right font-mono ${slipClass(r.startSlip)}`}>{r.kind === 'milestone' ? '' : formatSlip(r.startSlip)}</td>
+                                    <td className={`py-1.5 px-3 text-right font-mono ${slipClass(r.finishSlip)}`}>{formatSlip(r.finishSlip)}</td>
+                                    <td className="py-1.5 px-3">
+                                        <span className={`px-2 py-0.5 rounded-full text-[10px] font-semibold ${STATUS_STYLE[r.status]}`}>
+                                            {si ? STATUS_LABEL[r.status].si : STATUS_LABEL[r.status].en}
+                                        </span>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ScheduleVarianceTable;
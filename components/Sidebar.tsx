@@ -1,6 +1,8 @@
 // components/Sidebar.tsx
 // ═══════════════════════════════════════════════════════════════
 // EURO-OFFICE Sidebar — Design System Edition
+// v3.6 — 2026-03-07 — Language switcher lists every registered language (languages.ts):
+//   EN/SI stay as toggle buttons, further languages via compact select
 // v3.5 — 2026-03-03 — App version display in footer
 // ★ v3.5: Shows current app version (from Supabase global_settings) next to copyright
 // v3.4 — 2026-02-26 — COLLAPSE BUTTON MOVED TO TOP
@@ -23,7 +25,8 @@ import React, { useState, useMemo } from 'react';
 import { colors, colors as lightColors, darkColors, stepColors, shadows, radii, spacing, animation, typography, zIndex, type StepColorKey } from '../design/theme.ts';
 import { ProgressRing } from '../design/components/ProgressRing.tsx';
 import { ICONS, getSteps, getSubSteps } from '../constants.tsx';
-import { TEXT } from '../locales.ts';
+import { getText } from '../locales.ts';
+import { SUPPORTED_LANGUAGES, getLanguageNativeName, type LanguageCode } from '../languages.ts';
 import { isSubStepCompleted } from '../utils.ts';
 import { getThemeMode, toggleTheme, onThemeChange } from '../services/themeService.ts';
 import { storageService } from '../services/storageService.ts';
@@ -178,7 +181,7 @@ function getStepActiveBorder(stepColor: typeof stepColors[StepColorKey], isDark:
 // ─── Props ───────────────────────────────────────────────────
 
 interface SidebarProps {
-  language: 'en' | 'si';
+  language: LanguageCode;
   projectData: ProjectData;
   currentStepId: number | null;
   setCurrentStepId: (id: number) => void;
@@ -197,7 +200,7 @@ interface SidebarProps {
   onOpenProjectList: () => void;
   onOpenAdminPanel: (initialTab?: string) => void;
   onLogout: () => void;
-  onLanguageSwitch: (lang: 'en' | 'si') => void;
+  onLanguageSwitch: (lang: LanguageCode) => void;
   onSubStepClick: (subStepId: string) => void;
   isLoading: boolean;
   onCollapseChange?: (collapsed: boolean) => void;
@@ -239,7 +242,7 @@ const Sidebar: React.FC<SidebarProps> = ({
   }, []);
 
   const tc = isDark ? darkColors : colors;
-  const t = TEXT[language] || TEXT['en'];
+  const t = getText(language);
   const STEPS = getSteps(language);
   const SUB_STEPS = getSubSteps(language);
   const overallCompletion = useMemo(() => getOverallCompletion(projectData), [projectData]);
@@ -304,6 +307,26 @@ const Sidebar: React.FC<SidebarProps> = ({
                     boxShadow: language === lang ? shadows.xs : 'none', transition: 'all ' + animation.duration.fast, opacity: isLoading ? 0.5 : 1,
                   }}>{lang.toUpperCase()}</button>
                 ))}
+                {SUPPORTED_LANGUAGES.length > 2 && (
+                  <select
+                    value={language === 'si' || language === 'en' ? '' : language}
+                    onChange={(e) => { if (e.target.value) onLanguageSwitch(e.target.value); }}
+                    disabled={isLoading}
+                    title={language === 'si' ? 'Drugi jeziki' : 'Other languages'}
+                    style={{
+                      padding: '2px 4px', fontSize: typography.fontSize.xs, borderRadius: radii.sm, border: 'none',
+                      background: language !== 'si' && language !== 'en' ? tc.surface.card : 'transparent',
+                      color: language !== 'si' && language !== 'en' ? (isDark ? '#A5B4FC' : tc.primary[600]) : tc.text.muted,
+                      fontWeight: language !== 'si' && language !== 'en' ? typography.fontWeight.bold : typography.fontWeight.medium,
+                      cursor: isLoading ? 'not-allowed' : 'pointer', opacity: isLoading ? 0.5 : 1,
+                    }}
+                  >
+                    <option value="">…</option>
+                    {SUPPORTED_LANGUAGES.filter((lang) => lang !== 'si' && lang !== 'en').map((lang) => (
+                      <option key={lang} value={lang}>{lang.toUpperCase()} · {getLanguageNativeName(lang)}</option>
+                    ))}
+                  </select>
+                )}
               </div>
             )}
           </div>
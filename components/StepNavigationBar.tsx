@@ -10,9 +10,10 @@ import { ICONS, getSteps } from '../constants.tsx';
 import { stepColors, radii, animation, typography, type StepColorKey } from '../design/theme.ts';
 import { lightColors, darkColors } from '../design/theme.ts';
 import { getThemeMode } from '../services/themeService.ts';
+import type { LanguageCode } from '../languages.ts';
 
 interface StepNavigationBarProps {
-  language: 'en' | 'si';
+  language: LanguageCode;
   currentStepId: number;
   completedStepsStatus: boolean[];
   onStepClick: (stepId: number) => void;
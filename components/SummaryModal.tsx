@@ -4,6 +4,7 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { lightColors, darkColors, shadows, radii, spacing, animation, typography } from '../design/theme.ts';
 import { getThemeMode, onThemeChange } from '../services/themeService.ts';
 import { TEXT } from '../locales.ts';
+import type { LanguageCode } from '../languages.ts';
 
 interface SummaryModalProps {
   isOpen: boolean;
@@ -12,7 +13,7 @@ interface SummaryModalProps {
   isGenerating: boolean;
   onRegenerate: () => void;
   onDownloadDocx: () => void;
-  language: 'en' | 'si';
+  language: LanguageCode;
 }
 
 const SummaryModal: React.FC<SummaryModalProps> = ({
@@ -0,0 +1,326 @@
+// components/UnitCostCatalogueModal.tsx
+// v1.0 — 2026-03-07 — Organization unit-cost catalogue editor (unitCostService)
+//   - Import a programme preset (UNIT_COST_PRESETS), skips rates already present
+//   - Add: catalogue, kind, label, unit, € rate, country, cost category
+//   - Rate editable in place (saved on blur), delete per rate
+//   - Dark-mode: isDark + colors pattern
+import React, { useState, useEffect, useCallback } from 'react';
+import { lightColors, darkColors, shadows, radii, spacing, typography } from '../design/theme.ts';
+import { getThemeMode, onThemeChange } from '../services/themeService.ts';
+import { unitCostService, UNIT_COST_PRESETS, UNIT_COST_KINDS } from '../services/unitCostService.ts';
+import { getDirectCostDefs } from '../services/budgetService.ts';
+import type { UnitCostKind, UnitCostRate } from '../types.ts';
+
+interface UnitCostCatalogueModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  fundingModel: string;
+  language: string;
+}
+
+const UnitCostCatalogueModal: React.FC<UnitCostCatalogueModalProps> = ({ isOpen, onClose, fundingModel, language }) => {
+  const si = language === 'si';
+  const lang = si ? 'si' : 'en';
+  const [isDark, setIsDark] = useState(getThemeMode() === 'dark');
+  const [rates, setRates] = useState<UnitCostRate[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [presetId, setPresetId] = useState(UNIT_COST_PRESETS[0]?.id || '');
+  const [catalogue, setCatalogue] = useState('');
+  const [kind, setKind] = useState<UnitCostKind>('staff');
+  const [label, setLabel] = useState('');
+  const [unit, setUnit] = useState('');
+  const [rate, setRate] = useState('');
+  const [countryCode, setCountryCode] = useState('');
+  const [categoryKey, setCategoryKey] = useState('');
+  useEffect(() => {
+    const unsub = onThemeChange((m) => setIsDark(m === 'dark'));
+    return unsub;
+  }, []);
+  const colors = isDark ? darkColors : lightColors;
+  const directCostDefs = getDirectCostDefs(fundingModel);
+
+  const loadRates = useCallback(async () => {
+    setLoading(true);
+    setRates(await unitCostService.listRates(true));
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      setMessage(null);
+      loadRates();
+    }
+  }, [isOpen, loadRates]);
+
+  if (!isOpen) return null;
+
+  const catalogues = Array.from(new Set(rates.map((r) => r.catalogue)));
+  const canAdd = !!catalogue.trim() && !!label.trim() && !!unit.trim() && rate !== '' && parseFloat(rate) >= 0;
+
+  const handleImport = async () => {
+    setMessage(null);
+    const result = await unitCostService.importPreset(presetId);
+    if (!result.success) {
+      setMessage(result.message || (si ? 'Uvoz ni uspel (preverite pravice).' : 'Import failed (check your permissions).'));
+      return;
+    }
+    setMessage(si ? `Dodanih postavk: ${result.added}.` : `Rates added: ${result.added}.`);
+    await loadRates();
+  };
+
+  const handleAdd = async () => {
+    setMessage(null);
+    const created = await unitCostService.addRate({
+      catalogue, kind, label, unit,
+      rate: parseFloat(rate),
+      countryCode: countryCode || null,
+      categoryKey: categoryKey || null,
+      note: null,
+    });
+    if (!created) {
+      setMessage(si
+        ? 'Postavke ni bilo mogoče shraniti (preverite vnos in pravice).'
+        : 'Rate could not be saved (check the values and your permissions).');
+      return;
+    }
+    setLabel('');
+    setRate('');
+    setCountryCode('');
+    await loadRates();
+  };
+
+  const handleRateBlur = async (entry: UnitCostRate, value: string) => {
+    const parsed = parseFloat(value);
+    if (isNaN(parsed) || parsed < 0 || parsed === entry.rate) return;
+    const result = await unitCostService.updateRate(entry.id, parsed);
+    if (!result.success) {
+      setMessage(result.message || (si ? 'Shranjevanje ni uspelo.' : 'Save failed.'));
+      return;
+    }
+    setRates((prev) => prev.map((r) => (r.id === entry.id ? { ...r, rate: parsed } : r)));
+  };
+
+  const handleDelete = async (rateId: string) => {
+    if (!confirm(si ? 'Izbrišem postavko? Obstoječi izračuni v projektih ostanejo nespremenjeni.' : 'Delete this rate? Existing calculations in projects stay unchanged.')) return;
+    const result = await unitCostService.deleteRate(rateId);
+    if (!result.success) {
+      setMessage(result.message || (si ? 'Brisanje ni uspelo.' : 'Delete failed.'));
+      return;
+    }
+    setRates((prev) => prev.filter((r) => r.id !== rateId));
+  };
+
+  const inputStyle: React.CSSProperties = {
+    fontSize: typography.fontSize.xs,
+    padding: '6px 8px',
+    borderRadius: radii.md,
+    border: `1px solid ${colors.border.light}`,
+    background: colors.surface.card,
+    color: colors.text.body,
+    fontFamily: 'inherit',
+    minWidth: 0,
+  };
+
+  const buttonStyle = (enabled: boolean): React.CSSProperties => ({
+    padding: `6px ${spacing.md}`,
+    background: colors.primary.gradient,
+    color: '#FFFFFF',
+    border: 'none',
+    borderRadius: radii.md,
+    fontSize: typography.fontSize.xs,
+    fontWeight: typography.fontWeight.semibold,
+    cursor: 'pointer',
+    fontFamily: 'inherit',
+    opacity: enabled ? 1 : 0.5,
+  });
+
+  const kindLabel = (key: UnitCostKind) => UNIT_COST_KINDS.find((k) => k.key === key)?.[lang] || key;
+  const categoryLabel = (key: string | null) => (key ? directCostDefs.find((c) => c.key === key)?.[lang] || key : '');
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 150,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: spacing.lg,
+        background: colors.surface.overlayBlur,
+        backdropFilter: 'blur(8px)',
+      }}
+      onClick={(e) => { if (e.target === e.currentTarget) onClose(); }}
+    >
+      <div style={{
+        background: colors.surface.card,
+        borderRadius: radii['2xl'],
+        boxShadow: shadows['2xl'],
+        maxWidth: 920,
+        width: '100%',
+        maxHeight: '90vh',
+        display: 'flex',
+        flexDirection: 'column',
+        overflow: 'hidden',
+        border: `1px solid ${colors.border.light}`,
+        fontFamily: typography.fontFamily.sans,
+      }}>
+        {/* Header */}
+        <div style={{
+          padding: `${spacing.lg} ${spacing['2xl']}`,
+          borderBottom: `1px solid ${colors.border.light}`,
+          background: colors.surface.sidebar,
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          flexShrink: 0,
+        }}>
+          <div>
+            <h3 style={{ margin: 0, fontSize: typography.fontSize.lg, fontWeight: typography.fontWeight.bold, color: colors.text.heading }}>
+              {si ? 'Katalog cen na enoto' : 'Unit-cost catalogue'}
+            </h3>
+            <p style={{ margin: '4px 0 0', fontSize: typography.fontSize.xs, color: colors.text.muted }}>
+              {si
+                ? 'Postavke organizacije za izračun stroškov (enote × postavka). Urejajo jih skrbniki organizacije.'
+                : 'Organization rates for cost items (units × rate). Maintained by organization admins.'}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            style={{ padding: spacing.xs, border: 'none', background: 'transparent', color: colors.text.muted, cursor: 'pointer', display: 'flex' }}
+          >
+            <svg style={{ width: 22, height: 22 }} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Preset import */}
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: spacing.sm, alignItems: 'center', padding: `${spacing.md} ${spacing['2xl']}`, borderBottom: `1px solid ${colors.border.light}`, flexShrink: 0 }}>
+          <span style={{ fontSize: typography.fontSize.xs, color: colors.text.muted }}>{si ? 'Predloga' : 'Preset'}:</span>
+          <select value={presetId} onChange={(e) => setPresetId(e.target.value)} style={{ ...inputStyle, flex: '1 1 220px' }}>
+            {UNIT_COST_PRESETS.map((p) => <option key={p.id} value={p.id}>{p.catalogue}</option>)}
+          </select>
+          <button onClick={handleImport} disabled={!presetId} style={buttonStyle(!!presetId)}>
+            {si ? 'Uvozi' : 'Import'}
+          </button>
+          {UNIT_COST_PRESETS.find((p) => p.id === presetId) && (
+            <p style={{ width: '100%', margin: 0, fontSize: typography.fontSize.xs, color: colors.text.muted }}>
+              {UNIT_COST_PRESETS.find((p) => p.id === presetId)!.description[lang]}
+            </p>
+          )}
+        </div>
+
+        {/* Add form */}
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: spacing.sm, alignItems: 'center', padding: `${spacing.md} ${spacing['2xl']}`, borderBottom: `1px solid ${colors.border.light}`, flexShrink: 0 }}>
+          <input
+            value={catalogue}
+            onChange={(e) => setCatalogue(e.target.value)}
+            list="unit-cost-catalogues"
+            placeholder={si ? 'Katalog' : 'Catalogue'}
+            style={{ ...inputStyle, flex: '1 1 160px' }}
+          />
+          <datalist id="unit-cost-catalogues">
+            {catalogues.map((c) => <option key={c} value={c} />)}
+          </datalist>
+          <select value={kind} onChange={(e) => setKind(e.target.value as UnitCostKind)} style={inputStyle}>
+            {UNIT_COST_KINDS.map((k) => <option key={k.key} value={k.key}>{k[lang]}</option>)}
+          </select>
+          <input
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder={si ? 'Postavka (npr. raziskovalec, 500–1999 km)' : 'Label (e.g. researcher, 500–1999 km)'}
+            style={{ ...inputStyle, flex: '1 1 200px' }}
+          />
+          <input
+            value={countryCode}
+            onChange={(e) => setCountryCode(e.target.value)}
+            placeholder={si ? 'Država' : 'Country'}
+            maxLength={3}
+            style={{ ...inputStyle, width: 64 }}
+          />
+          <input
+            type="number" min={0} step="any"
+            value={rate}
+            onChange={(e) => setRate(e.target.value)}
+            placeholder="€"
+            style={{ ...inputStyle, width: 90, textAlign: 'right' }}
+          />
+          <span style={{ color: colors.text.muted, fontSize: typography.fontSize.xs }}>/</span>
+          <input
+            value={unit}
+            onChange={(e) => setUnit(e.target.value)}
+            placeholder={si ? 'enota (dan, udeleženec)' : 'unit (day, participant)'}
+            style={{ ...inputStyle, width: 140 }}
+          />
+          <select value={categoryKey} onChange={(e) => setCategoryKey(e.target.value)} style={{ ...inputStyle, flex: '1 1 160px' }} title={si ? 'Kategorija stroška' : 'Cost category'}>
+            <option value="">{si ? '— kategorija stroška —' : '— cost category —'}</option>
+            {directCostDefs.map((c) => <option key={c.key} value={c.key}>{c[lang]}</option>)}
+          </select>
+          <button onClick={handleAdd} disabled={!canAdd} style={buttonStyle(canAdd)}>
+            {si ? 'Dodaj' : 'Add'}
+          </button>
+          {message && (
+            <p style={{ width: '100%', margin: 0, fontSize: typography.fontSize.xs, color: isDark ? colors.error[200] : colors.error[700] }}>{message}</p>
+          )}
+        </div>
+
+        {/* Rates */}
+        <div style={{ flex: 1, overflowY: 'auto', padding: `${spacing.md} ${spacing['2xl']} ${spacing.lg}` }} className="custom-scrollbar">
+          {loading ? (
+            <p style={{ fontSize: typography.fontSize.xs, color: colors.text.muted, margin: 0 }}>
+              {si ? 'Nalagam katalog...' : 'Loading catalogue...'}
+            </p>
+          ) : rates.length === 0 ? (
+            <p style={{ textAlign: 'center', color: colors.text.muted, fontSize: typography.fontSize.sm, padding: spacing['2xl'] }}>
+              {si ? 'Ni postavk.' : 'No rates yet.'}
+            </p>
+          ) : catalogues.map((name) => (
+            <div key={name} style={{ marginBottom: spacing.md }}>
+              <h4 style={{ margin: `0 0 6px`, fontSize: typography.fontSize.sm, fontWeight: typography.fontWeight.bold, color: colors.text.heading }}>{name}</h4>
+              <div style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
+                {rates.filter((r) => r.catalogue === name).map((entry) => (
+                  <div key={entry.id} style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: spacing.sm,
+                    padding: spacing.sm,
+                    borderRadius: radii.md,
+                    border: `1px solid ${colors.border.light}`,
+                    background: colors.surface.background,
+                    fontSize: typography.fontSize.xs,
+                    color: colors.text.body,
+                  }}>
+                    <span style={{ fontSize: '10px', color: colors.text.muted, width: 110, flexShrink: 0 }}>{kindLabel(entry.kind)}</span>
+                    <strong style={{ flex: 1, minWidth: 0, color: colors.text.heading }}>
+                      {entry.label}{entry.countryCode ? ` (${entry.countryCode})` : ''}
+                    </strong>
+                    <span style={{ color: colors.text.muted }}>{categoryLabel(entry.categoryKey)}</span>
+                    <span>€</span>
+                    <input
+                      type="number" min={0} step="any"
+                      defaultValue={entry.rate}
+                      onBlur={(e) => handleRateBlur(entry, e.target.value)}
+                      style={{ ...inputStyle, width: 90, textAlign: 'right', fontFamily: typography.fontFamily.mono }}
+                    />
+                    <span style={{ width: 90, color: colors.text.muted }}>/ {entry.unit}</span>
+                    <button
+                      onClick={() => handleDelete(entry.id)}
+                      title={si ? 'Izbriši' : 'Delete'}
+                      style={{ border: 'none', background: 'transparent', color: colors.text.muted, cursor: 'pointer', fontSize: typography.fontSize.sm, flexShrink: 0 }}
+                    >
+                      ✕
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UnitCostCatalogueModal;
@@ -0,0 +1,149 @@
+// components/UnitCostPicker.tsx
+// ═══════════════════════════════════════════════════════════════
+// Unit-cost picker for one direct cost item – v1.1 (2026-03-07)
+// ═══════════════════════════════════════════════════════════════
+// Under a direct cost row in the allocation editor: pick a rate from
+// the organization catalogue (unitCostService), enter units, and the
+// item gets amount = units × rate, costModel 'unit' and the rate
+// snapshot in DirectCostItem.unitCost.
+// ═══════════════════════════════════════════════════════════════
+
+import React, { useEffect, useState } from 'react';
+import {
+    unitCostService,
+    buildUnitCostCalculation,
+    calcUnitCostAmount,
+} from '../services/unitCostService.ts';
+import { normalizeCostCategoryKey, UNCATEGORIZED_COST_KEY } from '../services/budgetService.ts';
+import type { DirectCostItem, UnitCostRate } from '../types.ts';
+
+interface UnitCostPickerProps {
+    directCost: DirectCostItem;
+    fundingModel: string;
+    directCostDefs: { key: string; en: string; si: string }[];
+    language: string;
+    onChange: (item: DirectCostItem) => void;
+}
+
+const UnitCostPicker = ({ directCost, fundingModel, directCostDefs, language, onChange }: UnitCostPickerProps) => {
+    const si = language === 'si';
+    const lang = si ? 'si' : 'en';
+    const calc = directCost.unitCost;
+    const [open, setOpen] = useState(false);
+    const [rates, setRates] = useState<UnitCostRate[] | null>(null);
+    const [rateId, setRateId] = useState('');
+    const [units, setUnits] = useState(1);
+
+    useEffect(() => {
+        if (!open && !calc) return;
+        let cancelled = false;
+        unitCostService.listRates().then((r) => { if (!cancelled) setRates(r); });
+        return () => { cancelled = true; };
+    }, [open, !!calc]);
+
+    const current = calc && rates ? rates.find((r) => r.id === calc.rateId) : undefined;
+
+    const handleApply = () => {
+        const rate = (rates || []).find((r) => r.id === rateId);
+        if (!rate) return;
+        const key = rate.categoryKey ? normalizeCostCategoryKey({ categoryKey: rate.categoryKey }, fundingModel) : UNCATEGORIZED_COST_KEY;
+        const category = key !== UNCATEGORIZED_COST_KEY ? directCostDefs.find((c) => c.key === key) : undefined;
+        // Catalogue rates are in EUR, so the item becomes a EUR item
+        const { currency, ...item } = directCost;
+        onChange({
+            ...item,
+            ...(category ? { categoryKey: category.key, name: category[lang] } : {}),
+            costModel: 'unit',
+            unitCost: buildUnitCostCalculation(rate, units),
+            amount: calcUnitCostAmount(units, rate.rate),
+        });
+        setOpen(false);
+    };
+
+    const handleUnits = (value: number) => {
+        if (!calc) return;
+        onChange({ ...directCost, unitCost: { ...calc, units: value }, amount: calcUnitCostAmount(value, calc.rate) });
+    };
+
+    const handleRefreshRate = () => {
+        if (!calc || !current) return;
+        onChange({ ...directCost, unitCost: buildUnitCostCalculation(current, calc.units), amount: calcUnitCostAmount(calc.units, current.rate) });
+    };
+
+    const handleClear = () => {
+        const { unitCost, ...rest } = directCost;
+        onChange(rest);
+    };
+
+    if (calc) {
+        return (
+            <div className="flex flex-wrap items-center gap-1.5 mb-1.5 ml-1 pl-2 border-l-2 border-green-200 text-xs text-slate-600">
+                <span className="font-semibold text-slate-700">{calc.catalogue}:</span>
+                <span>{calc.label}{calc.countryCode ? ` (${calc.countryCode})` : ''}</span>
+                <input
+                    type="number" min={0} step="any"
+                    value={calc.units}
+                    onChange={(e) => handleUnits(e.target.value ? parseFloat(e.target.value) : 0)}
+                    className="w-16 p-1 border border-slate-300 rounded text-xs font-mono text-right"
+                />
+                <span>{calc.unit} × €{calc.rate.toLocaleString('de-DE')} = <strong className="font-mono">€{calcUnitCostAmount(calc.units, calc.rate).toLocaleString('de-DE')}</strong></span>
+                {current && current.rate !== calc.rate && (
+                    <button onClick={handleRefreshRate} className="px-1.5 py-0.5 rounded bg-amber-50 text-amber-700 border border-amber-200 hover:bg-amber-100">
+                        {si ? `Katalog: €${current.rate.toLocaleString('de-DE')} — posodobi` : `Catalogue: €${current.rate.toLocaleString('de-DE')} — update`}
+                    </button>
+                )}
+                <button onClick={handleClear} className="text-slate-400 hover:text-red-600 px-1" title={si ? 'Odstrani izračun na enoto' : 'Remove unit calculation'}>✕</button>
+            </div>
+        );
+    }
+
+    if (!open) {
+        return (
+            <div className="mb-1.5 ml-1">
+                <button onClick={() => setOpen(true)} className="text-xs text-green-700 hover:underline">
+                    {si ? '+ iz kataloga cen na enoto' : '+ from unit-cost catalogue'}
+                </button>
+            </div>
+        );
+    }
+
+    const catalogues = Array.from(new Set((rates || []).map((r) => r.catalogue)));
+
+    return (
+        <div className="flex flex-wrap items-center gap-1.5 mb-1.5 ml-1 pl-2 border-l-2 border-green-200 text-xs text-slate-600">
+            {rates === null ? (
+                <span>{si ? 'Nalagam katalog…' : 'Loading catalogue…'}</span>
+            ) : rates.length === 0 ? (
+                <span className="text-slate-400 italic">{si ? 'Katalog organizacije je prazen.' : 'The organization catalogue is empty.'}</span>
+            ) : (
+                <>
+                    <select value={rateId} onChange={(e) => setRateId(e.target.value)} className="p-1 border border-slate-300 rounded text-xs bg-white max-w-[18rem]">
+                        <option value="">{si ? '— izberi postavko —' : '— select a rate —'}</option>
+                        {catalogues.map((name) => (
+                            <optgroup key={name} label={name}>
+                                {rates.filter((r) => r.catalogue === name).map((r) => (
+                                    <option key={r.id} value={r.id}>
+                                        {r.label}{r.countryCode ? ` (${r.countryCode})` : ''} — €{r.rate.toLocaleString('de-DE')} / {r.unit}
+                                    </option>
+                                ))}
+                            </optgroup>
+                        ))}
+                    </select>
+                    <input
+                        type="number" min={0} step="any"
+                        value={units}
+                        onChange={(e) => setUnits(e.target.value ? parseFloat(e.target.value) : 0)}
+                        className="w-16 p-1 border border-slate-300 rounded text-xs font-mono text-right"
+                        title={si ? 'Število enot' : 'Units'}
+                    />
+                    <button onClick={handleApply} disabled={!rateId} className="px-2 py-0.5 font-semibold bg-green-50 text-green-700 border border-green-200 rounded hover:bg-green-100 disabled:opacity-50">
+                        {si ? 'Uporabi' : 'Apply'}
+                    </button>
+                </>
+            )}
+            <button onClick={() => setOpen(false)} className="text-slate-400 hover:text-slate-600 px-1">✕</button>
+        </div>
+    );
+};
+
+export default UnitCostPicker;
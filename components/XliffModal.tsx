@@ -0,0 +1,185 @@
+// components/XliffModal.tsx
+// v1.0 — 2026-03-07 — XLIFF 2.0 hand-off for human translators (xliffService)
+//   - Export: current language → chosen target language (.xlf)
+//   - Import: translated .xlf back into its target language
+//   - Dark-mode: isDark + colors pattern
+import React, { useState, useEffect, useRef } from 'react';
+import { lightColors, darkColors, shadows, radii, spacing, typography } from '../design/theme.ts';
+import { getThemeMode, onThemeChange } from '../services/themeService.ts';
+import { getOtherLanguages, getLanguageNativeName } from '../languages.ts';
+import type { LanguageCode } from '../types.ts';
+
+interface XliffModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  language: LanguageCode;
+  onExport: (targetLang: LanguageCode) => Promise<void>;
+  onImport: (file: File) => Promise<void>;
+}
+
+const XliffModal: React.FC<XliffModalProps> = ({ isOpen, onClose, language, onExport, onImport }) => {
+  const [isDark, setIsDark] = useState(getThemeMode() === 'dark');
+  const [targetLang, setTargetLang] = useState<LanguageCode>(getOtherLanguages(language)[0]);
+  const [busy, setBusy] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  useEffect(() => {
+    const unsub = onThemeChange((m) => setIsDark(m === 'dark'));
+    return unsub;
+  }, []);
+  useEffect(() => {
+    if (targetLang === language) setTargetLang(getOtherLanguages(language)[0]);
+  }, [language, targetLang]);
+  const colors = isDark ? darkColors : lightColors;
+
+  if (!isOpen) return null;
+
+  const handleExport = async () => {
+    setBusy(true);
+    await onExport(targetLang);
+    setBusy(false);
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    onClose();
+    await onImport(file);
+  };
+
+  const sectionStyle: React.CSSProperties = {
+    padding: spacing.lg,
+    borderRadius: radii.lg,
+    border: `1px solid ${colors.border.light}`,
+    background: colors.surface.background,
+    display: 'flex',
+    flexDirection: 'column',
+    gap: spacing.sm,
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    alignSelf: 'flex-start',
+    padding: `6px ${spacing.md}`,
+    background: colors.primary.gradient,
+    color: '#FFFFFF',
+    border: 'none',
+    borderRadius: radii.md,
+    fontSize: typography.fontSize.xs,
+    fontWeight: typography.fontWeight.semibold,
+    cursor: busy ? 'wait' : 'pointer',
+    fontFamily: 'inherit',
+    opacity: busy ? 0.6 : 1,
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 150,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: spacing.lg,
+        background: colors.surface.overlayBlur,
+        backdropFilter: 'blur(8px)',
+      }}
+      onClick={(e) => { if (e.target === e.currentTarget) onClose(); }}
+    >
+      <div style={{
+        background: colors.surface.card,
+        borderRadius: radii['2xl'],
+        boxShadow: shadows['2xl'],
+        maxWidth: 520,
+        width: '100%',
+        overflow: 'hidden',
+        border: `1px solid ${colors.border.light}`,
+        fontFamily: typography.fontFamily.sans,
+      }}>
+        {/* Header */}
+        <div style={{
+          padding: `${spacing.lg} ${spacing['2xl']}`,
+          borderBottom: `1px solid ${colors.border.light}`,
+          background: colors.surface.sidebar,
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+        }}>
+          <div>
+            <h3 style={{ margin: 0, fontSize: typography.fontSize.lg, fontWeight: typography.fontWeight.bold, color: colors.text.heading }}>
+              {language === 'si' ? 'XLIFF za prevajalce' : 'XLIFF for translators'}
+            </h3>
+            <p style={{ margin: '4px 0 0', fontSize: typography.fontSize.xs, color: colors.text.muted }}>
+              {language === 'si'
+                ? 'Izmenjava prevodov z orodji CAT (XLIFF 2.0).'
+                : 'Exchange translations with CAT tools (XLIFF 2.0).'}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            style={{ padding: spacing.xs, border: 'none', background: 'transparent', color: colors.text.muted, cursor: 'pointer', display: 'flex' }}
+          >
+            <svg style={{ width: 22, height: 22 }} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div style={{ padding: `${spacing.lg} ${spacing['2xl']} ${spacing['2xl']}`, display: 'flex', flexDirection: 'column', gap: spacing.md }}>
+          {/* Export */}
+          <div style={sectionStyle}>
+            <strong style={{ fontSize: typography.fontSize.sm, color: colors.text.heading }}>
+              {language === 'si' ? 'Izvoz' : 'Export'}
+            </strong>
+            <p style={{ margin: 0, fontSize: typography.fontSize.xs, color: colors.text.body }}>
+              {language === 'si'
+                ? 'Vsa besedilna polja trenutnega jezika. Že prevedena polja so označena kot prevedena.'
+                : 'All text fields of the current language. Fields that are already translated are marked as translated.'}
+            </p>
+            <label style={{ display: 'flex', alignItems: 'center', gap: spacing.sm, fontSize: typography.fontSize.xs, color: colors.text.body }}>
+              {language.toUpperCase()} →
+              <select
+                value={targetLang}
+                onChange={(e) => setTargetLang(e.target.value)}
+                style={{
+                  fontSize: typography.fontSize.xs,
+                  padding: '4px 8px',
+                  borderRadius: radii.md,
+                  border: `1px solid ${colors.border.light}`,
+                  background: colors.surface.card,
+                  color: colors.text.body,
+                  fontFamily: 'inherit',
+                }}
+              >
+                {getOtherLanguages(language).map((l) => (
+                  <option key={l} value={l}>{l.toUpperCase()} — {getLanguageNativeName(l)}</option>
+                ))}
+              </select>
+            </label>
+            <button onClick={handleExport} disabled={busy} style={buttonStyle}>
+              {language === 'si' ? 'Prenesi .xlf' : 'Download .xlf'}
+            </button>
+          </div>
+
+          {/* Import */}
+          <div style={sectionStyle}>
+            <strong style={{ fontSize: typography.fontSize.sm, color: colors.text.heading }}>
+              {language === 'si' ? 'Uvoz' : 'Import'}
+            </strong>
+            <p style={{ margin: 0, fontSize: typography.fontSize.xs, color: colors.text.body }}>
+              {language === 'si'
+                ? 'Prevodi se zapišejo v ciljni jezik datoteke. Pred uvozom se shrani posnetek projekta.'
+                : 'Translations are written into the file\'s target language. A project snapshot is saved first.'}
+            </p>
+            <button onClick={() => fileInputRef.current?.click()} disabled={busy} style={buttonStyle}>
+              {language === 'si' ? 'Izberi .xlf' : 'Choose .xlf'}
+            </button>
+            <input ref={fileInputRef} type="file" accept=".xlf,.xliff,.xml" onChange={handleFile} style={{ display: 'none' }} />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default XliffModal;
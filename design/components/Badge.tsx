@@ -7,6 +7,7 @@
 
 import React from 'react';
 import { colors, radii, animation } from '../theme.ts';
+import type { LanguageCode } from '../../languages.ts';
 
 type BadgeVariant = 'primary' | 'secondary' | 'success' | 'warning' | 'error' | 'neutral';
 type BadgeSize = 'sm' | 'md' | 'lg';
@@ -89,7 +90,7 @@ export const Badge: React.FC<BadgeProps> = ({
 
 interface RoleBadgeProps {
   role: 'admin' | 'user';
-  language?: 'en' | 'si';
+  language?: LanguageCode;
   size?: BadgeSize;
 }
 
@@ -112,7 +113,7 @@ export const RoleBadge: React.FC<RoleBadgeProps> = ({ role, language = 'en', siz
 
 interface StatusBadgeProps {
   status: 'complete' | 'in_progress' | 'not_started' | 'error';
-  language?: 'en' | 'si';
+  language?: LanguageCode;
   size?: BadgeSize;
 }
 
@@ -1,6 +1,23 @@
 // hooks/useGeneration.ts
 // ═══════════════════════════════════════════════════════════════
 // AI content generation — sections, fields, summaries.
+// v7.19 — 2026-03-07 — VERSION HISTORY: handleGenerateField also takes the auto snapshot before generating
+// v7.18 — 2026-03-07 — AI SUGGESTIONS: single-field generation and partner allocations go through commitGeneratedData()
+//   ★ commitGeneratedData(…, changedPath) — direct write via handleUpdateData() → undo history
+// v7.17 — 2026-03-07 — GLOSSARY: translate-from-other-language reports glossary violations
+// v7.16 — 2026-03-07 — LANGUAGE REGISTRY: "translate from other language" searches every
+//   other registered language (languages.ts) and passes it as the explicit translation source
+// v7.15 — 2026-03-07 — AI SUGGESTIONS: generation results that change existing content are staged
+//   ★ NEW: commitGeneratedData() — direct write only for pure additions, otherwise pending proposal
+//   ★ NEW: aiSuggestions + acceptSuggestion / rejectSuggestion / acceptAllSuggestions / rejectAllSuggestions
+//   ★ Accepted suggestions go through handleUpdateData() → undo history
+// v7.14 — 2026-03-07 — VERSION HISTORY: auto snapshot (projectVersionService) before every AI generation / translation
+// v7.13 — 2026-03-07 — STREAMING: live section preview (streamPreview state) while AI generates
+//   ★ NEW: createPreviewHandler(sectionKey) → onPartial for generateSectionContent / generateActivitiesPerWP
+//   ★ streamPreview cleared on finish and in cancelGeneration()
+// v7.12 — 2026-03-07 — QUALITY GATES: executeGeneration validates inserted section (qualityReport state)
+//   ★ NEW: qualityReport state + clearQualityReport() — failed findings surfaced in ProjectDisplay
+//   ★ NEW: qualityOptions passed to generateSectionContent (auto-retry on FATAL when enabled in settings)
 // v7.11 — 2026-03-06 — EO-040: handleFieldAIGenerate uses generateFieldContent (full rules)
 // v7.10 — 2026-03-06 — EO-039: handleFieldAIGenerate + getPrettyName scope fix
 //   ★ NEW: handleFieldAIGenerate() — AI Assistant per-field generation with user instructions
@@ -50,7 +67,7 @@
 // v3.5.2 — 2026-02-14 — AUTO PM + ROBUST CHECKS + 3-OPTION MODAL
 // ═══════════════════════════════════════════════════════════════
 
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useRef, useMemo, useEffect } from 'react';
 import {
   generateSectionContent,
   generateFieldContent,
@@ -63,16 +80,27 @@ import {
 import { getRateLimitStatus } from '../services/aiProvider.ts';
 import { generateSummaryDocx } from '../services/docxGenerator.ts';
 import { recalculateProjectSchedule, downloadBlob, set } from '../utils.ts';
-import { TEXT } from '../locales.ts';
+import { getText } from '../locales.ts';
+import { getOtherLanguages, type LanguageCode } from '../languages.ts';
 import { storageService } from '../services/storageService.ts';
 import { smartTranslateProject } from '../services/translationDiffService.ts';
+import { summarizeGlossaryReport } from '../services/glossaryService.ts';
 import { isValidPartnerType } from '../services/Instructions.ts';
 import { logErrorQuick } from '../services/errorLogService.ts';
+import { validateSectionQuality, type QualityGateReport } from '../services/qualityGateValidator.ts';
+import { projectVersionService } from '../services/projectVersionService.ts';
+import {
+  buildSuggestions,
+  applySuggestion,
+  applySuggestions,
+  suggestionsRequireReview,
+  type AISuggestion,
+} from '../services/aiSuggestionService.ts';
 
 interface UseGenerationProps {
   projectData: any;
   setProjectData: (fn: any) => void;
-  language: 'en' | 'si';
+  language: LanguageCode;
   ensureApiKey: () => boolean;
   setIsSettingsOpen: (val: boolean) => void;
   setHasUnsavedTranslationChanges: (val: boolean) => void;
@@ -81,9 +109,9 @@ interface UseGenerationProps {
   setModalConfig: (config: any) => void;
   closeModal: () => void;
   currentProjectId: string | null;
-  projectVersions: { en: any; si: any };
-  setLanguage: (lang: 'en' | 'si') => void;
-  setProjectVersions: (fn: (prev: { en: any; si: any }) => { en: any; si: any }) => void;
+  projectVersions: Record<LanguageCode, any>;
+  setLanguage: (lang: LanguageCode) => void;
+  setProjectVersions: (fn: (prev: Record<LanguageCode, any>) => Record<LanguageCode, any>) => void;
 }
 
 // ★ v7.7: Helper — check if an array item has real content (excluding 'id' fields)
@@ -127,7 +155,7 @@ var SECTION_PRETTY_NAMES: Record<string, Record<string, string>> = {
   policies: { en: 'EU Policies', si: 'EU politike' },
 };
 
-function getPrettyName(sectionKey: string, lang: 'en' | 'si'): string {
+function getPrettyName(sectionKey: string, lang: LanguageCode): string {
   var entry = SECTION_PRETTY_NAMES[sectionKey];
   if (entry) return entry[lang] || entry.en || sectionKey;
   return sectionKey.replace(/([A-Z])/g, ' $1').replace(/^./, function(s) { return s.toUpperCase(); });
@@ -193,13 +221,145 @@ export const useGeneration = ({
   const [summaryText, setSummaryText] = useState('');
   const [isGeneratingSummary, setIsGeneratingSummary] = useState(false);
 
+  // ★ v7.12: Quality gate report for the last generated section
+  const [qualityReport, setQualityReport] = useState<QualityGateReport | null>(null);
+  const clearQualityReport = useCallback(() => setQualityReport(null), []);
+
+  // ★ v7.13: Live preview of the section currently streaming from the AI
+  const [streamPreview, setStreamPreview] = useState<{ sectionKey: string; text: string; data: any } | null>(null);
+  const createPreviewHandler = useCallback(
+    (sectionKey: string) => (partial: any, rawText: string) => {
+      setStreamPreview({ sectionKey, text: rawText, data: partial });
+    },
+    []
+  );
+
+  // ★ v7.15: Staged AI proposal — suggestions are derived from (projectData, proposedData)
+  const [pendingProposal, setPendingProposal] = useState<{
+    sourceKey: string;
+    proposedData: any;
+    rejectedKeys: string[];
+  } | null>(null);
+
+  const aiSuggestions: AISuggestion[] = useMemo(() => {
+    if (!pendingProposal) return [];
+    return buildSuggestions(projectData, pendingProposal.proposedData)
+      .filter((s) => !pendingProposal.rejectedKeys.includes(s.key));
+  }, [pendingProposal, projectData]);
+
+  useEffect(() => {
+    if (pendingProposal && aiSuggestions.length === 0) setPendingProposal(null);
+  }, [pendingProposal, aiSuggestions]);
+
+  useEffect(() => {
+    setPendingProposal(null);
+  }, [language, currentProjectId]);
+
+  const commitSuggestedData = useCallback(
+    (nextData: any, touchesActivities: boolean) => {
+      let data = nextData;
+      if (touchesActivities) {
+        const schedResult = recalculateProjectSchedule(data);
+        data = schedResult.projectData;
+      }
+      handleUpdateData([], data);
+      if (currentProjectId) {
+        storageService.saveProject(data, language, currentProjectId)
+          .catch((e: any) => console.error('[useGeneration] ★ Save after accepted suggestion failed:', e));
+      }
+    },
+    [handleUpdateData, currentProjectId, language]
+  );
+
+  const acceptSuggestion = useCallback(
+    (key: string) => {
+      if (!pendingProposal) return;
+      const suggestion = aiSuggestions.find((s) => s.key === key);
+      if (!suggestion) return;
+      commitSuggestedData(
+        applySuggestion(projectData, pendingProposal.proposedData, suggestion),
+        suggestion.section === 'activities'
+      );
+    },
+    [pendingProposal, aiSuggestions, projectData, commitSuggestedData]
+  );
+
+  const rejectSuggestion = useCallback((key: string) => {
+    setPendingProposal((prev) => (prev ? { ...prev, rejectedKeys: [...prev.rejectedKeys, key] } : prev));
+  }, []);
+
+  const acceptAllSuggestions = useCallback(() => {
+    if (!pendingProposal || aiSuggestions.length === 0) return;
+    commitSuggestedData(
+      applySuggestions(projectData, pendingProposal.proposedData, aiSuggestions),
+      aiSuggestions.some((s) => s.section === 'activities')
+    );
+    setPendingProposal(null);
+  }, [pendingProposal, aiSuggestions, projectData, commitSuggestedData]);
+
+  const rejectAllSuggestions = useCallback(() => setPendingProposal(null), []);
+
+  // ★ v7.15: Write generated data directly, or stage it when it would change existing content
+  const commitGeneratedData = useCallback(
+    (newData: any, sourceKey: string, logTag: string, changedPath?: (string | number)[]) => {
+      const suggestions = buildSuggestions(projectData, newData);
+      if (suggestionsRequireReview(suggestions)) {
+        console.log(`[${logTag}] ★ ${suggestions.length} AI suggestions staged for review (${sourceKey})`);
+        setPendingProposal({ sourceKey, proposedData: newData, rejectedKeys: [] });
+        return false;
+      }
+
+      // ★ v7.18: Only one path changed → handleUpdateData() so the write can be undone
+      if (changedPath) {
+        const value = changedPath.reduce((obj: any, key) => obj?.[key], newData);
+        handleUpdateData(changedPath, value);
+        let savedData = set(projectData, changedPath, value);
+        if (changedPath[0] === 'activities') {
+          savedData = recalculateProjectSchedule(savedData).projectData;
+        }
+        if (currentProjectId) {
+          storageService.saveProject(savedData, language, currentProjectId)
+            .then(() => console.log(`[${logTag}] ★ Explicit save after ${sourceKey} — lang=${language}`))
+            .catch((e: any) => console.error(`[${logTag}] ★ Explicit save failed:`, e));
+        }
+        return true;
+      }
+
+      setProjectData((prev: any) => {
+        const savedData = { ...prev, ...newData };
+        if (currentProjectId) {
+          storageService.saveProject(savedData, language, currentProjectId)
+            .then(() => console.log(`[${logTag}] ★ Explicit save after ${sourceKey} — lang=${language}`))
+            .catch((e: any) => console.error(`[${logTag}] ★ Explicit save failed:`, e));
+        }
+        return savedData;
+      });
+      setHasUnsavedTranslationChanges(true);
+      return true;
+    },
+    [projectData, setProjectData, handleUpdateData, currentProjectId, language, setHasUnsavedTranslationChanges]
+  );
+
+  // ★ v7.14: Persistent auto snapshot of all languages before AI overwrites content
+  const snapshotBeforeAI = useCallback(
+    async (reason: string) => {
+      if (!currentProjectId) return;
+      await projectVersionService.createSnapshot(
+        currentProjectId,
+        { ...projectVersions, [language]: projectData },
+        { kind: 'auto', reason }
+      );
+    },
+    [currentProjectId, language, projectData, projectVersions]
+  );
+
   // ★ v7.2: Global generation lock
   const isGeneratingRef = useRef(false);
   const sessionCallCountRef = useRef(0);
   // ★ v7.5: AbortController for cancellation
   const abortControllerRef = useRef<AbortController | null>(null);
 
-  const t = TEXT[language] || TEXT['en'];
+  const t = getText(language);
 
   // ★ v7.5: Cancel active generation
   const cancelGeneration = useCallback(() => {
@@ -210,6 +370,7 @@ export const useGeneration = ({
     }
     isGeneratingRef.current = false;
     setIsLoading(false);
+    setStreamPreview(null);
     setError(
       language === 'si'
         ? 'Generiranje preklicano.'
@@ -389,7 +550,7 @@ export const useGeneration = ({
       const parts = msg.split('|');
       const errorCode = parts[0] || '';
       const provider = parts[1] || '';
-      const providerLabel = provider === 'gemini' ? 'Google Gemini' : provider === 'openrouter' ? 'OpenRouter' : 'AI';
+      const providerLabel = provider === 'gemini' ? 'Google Gemini' : provider === 'openrouter' ? 'OpenRouter' : provider === 'local' ? (language === 'si' ? 'Lokalni LLM' : 'Local LLM') : 'AI';
 
       console.warn(`[AI Error] ${context}: ${errorCode} (${provider})`, e);
 
@@ -587,10 +748,9 @@ export const useGeneration = ({
 
   // ─── Check other language content ──────────────────────────────
 
+  // ★ v7.16: first other language (registry order) that has content for the section
   const checkOtherLanguageHasContent = useCallback(
-    async (sectionKey: string): Promise<any | null> => {
-      const otherLang = language === 'en' ? 'si' : 'en';
-
+    async (sectionKey: string): Promise<{ lang: LanguageCode; data: any } | null> => {
       const checkVersion = (projectVersion: any): any | null => {
         if (!projectVersion) return null;
         const sectionData = projectVersion[sectionKey];
@@ -601,15 +761,23 @@ export const useGeneration = ({
         return null;
       };
 
-      const cachedResult = checkVersion(projectVersions[otherLang]);
-      if (cachedResult) return cachedResult;
+      const otherLangs = getOtherLanguages(language);
 
-      try {
-        const loaded = await storageService.loadProject(otherLang, currentProjectId);
-        const loadedResult = checkVersion(loaded);
-        if (loadedResult) return loadedResult;
-      } catch (e) {
-        console.warn('[useGeneration] Could not load other language version:', e);
+      for (const otherLang of otherLangs) {
+        const cachedResult = checkVersion(projectVersions[otherLang]);
+        if (cachedResult) return { lang: otherLang, data: cachedResult };
+      }
+
+      for (const otherLang of otherLangs) {
+        // Only languages stored for this project (loadActiveProject fills the keys)
+        if (!(otherLang in projectVersions)) continue;
+        try {
+          const loaded = await storageService.loadProject(otherLang, currentProjectId);
+          const loadedResult = checkVersion(loaded);
+          if (loadedResult) return { lang: otherLang, data: loadedResult };
+        } catch (e) {
+          console.warn('[useGeneration] Could not load other language version:', e);
+        }
       }
 
       return null;
@@ -620,17 +788,22 @@ export const useGeneration = ({
   // ─── Perform translation from other language ───────────────────
 
   const performTranslationFromOther = useCallback(
-    async (otherLangData: any) => {
+    async (otherLangData: any, sourceLang: LanguageCode) => {
       closeModal();
-      setIsLoading(language === 'si' ? 'Prevajanje iz EN...' : 'Translating from SI...');
+      setIsLoading(language === 'si'
+        ? `Prevajanje iz ${sourceLang.toUpperCase()}...`
+        : `Translating from ${sourceLang.toUpperCase()}...`);
       setError(null);
 
       try {
-        const { translatedData, stats } = await smartTranslateProject(
+        await snapshotBeforeAI('translation');
+        const { translatedData, stats, glossaryReport } = await smartTranslateProject(
           otherLangData,
           language,
           projectData,
-          currentProjectId!
+          currentProjectId!,
+          false,
+          sourceLang
         );
 
         if (stats.failed > 0 && stats.translated === 0) {
@@ -652,6 +825,13 @@ export const useGeneration = ({
               ? `Prevod delno uspel: ${stats.translated}/${stats.changed} polj prevedenih.`
               : `Translation partially done: ${stats.translated}/${stats.changed} fields translated.`
           );
+        } else if (stats.glossaryViolations > 0) {
+          setError(
+            (language === 'si'
+              ? `Prevod končan, a ${stats.glossaryViolations} mest ne uporablja izraza iz glosarja:\n`
+              : `Translation done, but ${stats.glossaryViolations} places do not use the glossary term:\n`)
+            + summarizeGlossaryReport(glossaryReport, language)
+          );
         }
       } catch (e: any) {
         handleAIError(e, 'translateFromOtherLanguage');
@@ -668,6 +848,7 @@ export const useGeneration = ({
       setHasUnsavedTranslationChanges,
       setProjectVersions,
       handleAIError,
+      snapshotBeforeAI,
     ]
   );
 
@@ -683,12 +864,19 @@ export const useGeneration = ({
       const abortController = new AbortController();
       abortControllerRef.current = abortController;
       const signal = abortController.signal;
+      // ★ v7.12: Quality gates — optional single auto-retry on FATAL findings
+      const qualityOptions = { autoRetryOnFatal: storageService.getQualityAutoRetryEnabled() };
+      // ★ v7.13: Stream partial output into ProjectDisplay
+      const onPartial = createPreviewHandler(sectionKey);
 
       closeModal();
       setIsLoading(t.generating + ' ' + getPrettyName(sectionKey, language) + '...');
       setError(null);
+      setQualityReport(null);
+      setPendingProposal(null);
 
       try {
+        await snapshotBeforeAI(`generation:${sectionKey}`);
         let generatedData;
 
         const subMapping = SUB_SECTION_MAP[sectionKey];
@@ -700,7 +888,9 @@ export const useGeneration = ({
             language,
             mode,
             null,
-            signal
+            signal,
+            qualityOptions,
+            onPartial
           );
 
         } else if (sectionKey === 'partnerAllocations') {
@@ -757,11 +947,10 @@ export const useGeneration = ({
           }));
 
           const newAllocData = { ...projectData, activities: updatedActivities };
-          setProjectData(newAllocData);
-          setHasUnsavedTranslationChanges(true);
+          const applied = commitGeneratedData(newAllocData, sectionKey, 'useGeneration', ['activities']);
 
           const totalAllocations = allocResult.reduce((s: number, t: any) => s + (t.allocations?.length || 0), 0);
-          console.log(`[useGeneration] Partner allocations applied: ${totalAllocations} allocations across ${allocResult.length} tasks`);
+          console.log(`[useGeneration] Partner allocations ${applied ? 'applied' : 'staged'}: ${totalAllocations} allocations across ${allocResult.length} tasks`);
 
           setIsLoading(false);
           isGeneratingRef.current = false;
@@ -783,7 +972,9 @@ export const useGeneration = ({
               language,
               'regenerate',
               null,
-              signal
+              signal,
+              qualityOptions,
+              onPartial
             );
           } else if (mode === 'enhance') {
             setIsLoading(
@@ -797,7 +988,9 @@ export const useGeneration = ({
               language,
               'enhance',
               null,
-              signal
+              signal,
+              qualityOptions,
+              onPartial
             );
           } else {
             const needsFill = existingPartners.some((p: any) =>
@@ -815,7 +1008,9 @@ export const useGeneration = ({
                 language,
                 'fill',
                 null,
-                signal
+                signal,
+                qualityOptions,
+                onPartial
               );
             } else {
               generatedData = existingPartners;
@@ -882,7 +1077,8 @@ export const useGeneration = ({
               },
               undefined,
               undefined,
-              signal
+              signal,
+              onPartial
             );
 
           } else if (hasMissingMandatory && mode !== 'enhance') {
@@ -977,7 +1173,8 @@ export const useGeneration = ({
               },
               augmentedWPs,
               finalIndicesToGenerate,
-              signal
+              signal,
+              onPartial
             );
 
           } else if (emptyWPIndices.length > 0) {
@@ -1002,7 +1199,8 @@ export const useGeneration = ({
               },
               existingWPs,
               emptyWPIndices,
-              signal
+              signal,
+              onPartial
             );
 
           } else if (mode === 'enhance') {
@@ -1012,7 +1210,9 @@ export const useGeneration = ({
               language,
               mode,
               null,
-              signal
+              signal,
+              qualityOptions,
+              onPartial
             );
 
           } else {
@@ -1178,7 +1378,9 @@ export const useGeneration = ({
               language,
               'regenerate',
               null,
-              signal
+              signal,
+              qualityOptions,
+              onPartial
             );
 
           } else if (Array.isArray(sectionData)) {
@@ -1369,7 +1571,9 @@ export const useGeneration = ({
               language,
               mode,
               null,
-              signal
+              signal,
+              qualityOptions,
+              onPartial
             );
           }
 
@@ -1380,7 +1584,9 @@ export const useGeneration = ({
             language,
             mode,
             null,
-            signal
+            signal,
+            qualityOptions,
+            onPartial
           );
         }
         // ★ DIAGNOSTIC: Log what AI actually returned
@@ -1782,22 +1988,20 @@ export const useGeneration = ({
           }
         }
 
-        setProjectData((prev: any) => {
-          const savedData = { ...prev, ...newData };
-          if (currentProjectId) {
-            storageService.saveProject(savedData, language, currentProjectId)
-              .then(() => console.log(`[executeGeneration] ★ Explicit save after ${sectionKey} — lang=${language}, generalObjectives: ${Array.isArray(savedData.generalObjectives) && savedData.generalObjectives.some((o: any) => o.title?.trim()) ? '✅ HAS' : '⚠️ EMPTY'}`))
-              .catch((e: any) => console.error(`[executeGeneration] ★ Explicit save failed:`, e));
-          }
-          return savedData;
-        });
-        setHasUnsavedTranslationChanges(true);
+        // ★ v7.12: Programmatic quality gates on the inserted section
+        const sectionQuality = validateSectionQuality(sectionKey, newData);
+        console.log(`[executeGeneration] ★ Quality gates for "${sectionKey}": ${sectionQuality.passed ? 'PASSED' : `${sectionQuality.fatalCount} fatal, ${sectionQuality.warningCount} warnings`}`);
+        setQualityReport(sectionQuality.passed ? null : sectionQuality);
+
+        // ★ v7.15: Staged as suggestions when existing content would change
+        commitGeneratedData(newData, sectionKey, 'executeGeneration');
 
       } catch (e: any) {
         handleAIError(e, `generateSection(${sectionKey})`);
       } finally {
 
         setIsLoading(false);
+        setStreamPreview(null);
         isGeneratingRef.current = false;
         abortControllerRef.current = null;
       }
@@ -1812,6 +2016,9 @@ export const useGeneration = ({
       handleAIError,
       preGenerationGuard,
       currentProjectId,
+      createPreviewHandler,
+      snapshotBeforeAI,
+      commitGeneratedData,
     ]
   );
   // ─── 3-option generation modal helper ──────────────────────────
@@ -1851,8 +2058,6 @@ export const useGeneration = ({
         return;
       }
 
-      const otherLang = language === 'en' ? 'SI' : 'EN';
-
       const subMapping = SUB_SECTION_MAP[sectionKey];
       const contentCheckKey = subMapping ? subMapping.parent : sectionKey;
 
@@ -1895,7 +2100,9 @@ export const useGeneration = ({
       var currentHasContent = freshHasContent;
 
 
-      const otherLangData = await checkOtherLanguageHasContent(contentCheckKey);
+      const otherLangMatch = await checkOtherLanguageHasContent(contentCheckKey);
+      const otherLangData = otherLangMatch ? otherLangMatch.data : null;
+      const otherLang = otherLangMatch ? otherLangMatch.lang.toUpperCase() : '';
 
       if (otherLangData && !currentHasContent) {
         setModalConfig({
@@ -1914,7 +2121,7 @@ export const useGeneration = ({
               : `Translate from ${otherLang}`,
           secondaryText: language === 'si' ? 'Generiraj novo' : 'Generate new',
           cancelText: language === 'si' ? 'Prekliči' : 'Cancel',
-          onConfirm: () => performTranslationFromOther(otherLangData),
+          onConfirm: () => performTranslationFromOther(otherLangData, otherLangMatch!.lang),
           onSecondary: () => executeGeneration(sectionKey, 'regenerate'),
           onCancel: closeModal,
         });
@@ -1951,7 +2158,7 @@ export const useGeneration = ({
               );
             }, 100);
           },
-          onSecondary: () => performTranslationFromOther(otherLangData),
+          onSecondary: () => performTranslationFromOther(otherLangData, otherLangMatch!.lang),
           onCancel: closeModal,
         });
         return;
@@ -2044,8 +2251,6 @@ export const useGeneration = ({
         return robustCheckSectionHasContent(s);
       });
 
-      const otherLang = language === 'en' ? 'SI' : 'EN';
-
       const hasRealContent = (data: any, sectionKey: string): boolean => {
         if (!data) return false;
         const section = data[sectionKey];
@@ -2076,13 +2281,16 @@ export const useGeneration = ({
       };
 
       let otherLangData: any = null;
+      let otherLangCode: LanguageCode = '';
       for (const s of checkableSections) {
         const candidate = await checkOtherLanguageHasContent(s);
           if (candidate) {
-          otherLangData = candidate;
+          otherLangData = candidate.data;
+          otherLangCode = candidate.lang;
           break;
         }
       }
+      const otherLang = otherLangCode.toUpperCase();
 
       // ── Main composite runner ──
       const runComposite = async (mode: string) => {
@@ -2099,7 +2307,10 @@ export const useGeneration = ({
         setIsLoading(true);
         setError(null);
 
+        setPendingProposal(null);
+
         try {
+          await snapshotBeforeAI(`generation:${compositeSectionKey}`);
                     if (isActivities) {
             // ═══════════════════════════════════════════════
             // ACTIVITIES COMPOSITE — sequential with dependencies
@@ -2129,7 +2340,8 @@ export const useGeneration = ({
 
               try {
               var pmContentRaw = await generateSectionContent(
-                'projectManagement', newData, language, mode, null, signal
+                'projectManagement', newData, language, mode, null, signal, undefined,
+                createPreviewHandler('projectManagement')
               );
               // ★ v7.8 FIX: Unwrap PM if AI returned { projectManagement: { ... } }
               var pmContent = pmContentRaw;
@@ -2174,7 +2386,8 @@ export const useGeneration = ({
 
               try {
               let partnersResult = await generateSectionContent(
-                'partners', newData, language, mode, null, signal
+                'partners', newData, language, mode, null, signal, undefined,
+                createPreviewHandler('partners')
               );
               // ★ v7.8 FIX: Unwrap partners if AI returned object wrapper { partners: [...] }
               if (partnersResult && typeof partnersResult === 'object' && !Array.isArray(partnersResult)) {
@@ -2239,11 +2452,13 @@ export const useGeneration = ({
                       );
                     }
                   },
-                  undefined, undefined, signal
+                  undefined, undefined, signal,
+                  createPreviewHandler('activities')
                 );
               } else if (mode === 'enhance') {
                 activitiesResult = await generateSectionContent(
-                  'activities', newData, language, 'enhance', null, signal
+                  'activities', newData, language, 'enhance', null, signal, undefined,
+                  createPreviewHandler('activities')
                 );
               } else {
                 const emptyWPIndices: number[] = [];
@@ -2268,7 +2483,8 @@ export const useGeneration = ({
                         );
                       }
                     },
-                    existingWPs, emptyWPIndices, signal
+                    existingWPs, emptyWPIndices, signal,
+                    createPreviewHandler('activities')
                   );
                 } else {
                   activitiesResult = existingWPs;
@@ -2344,7 +2560,8 @@ export const useGeneration = ({
 
             try {
               const risksContent = await generateSectionContent(
-                'risks', newData, language, mode, null, signal
+                'risks', newData, language, mode, null, signal, undefined,
+                createPreviewHandler('risks')
               );
               if (Array.isArray(risksContent)) {
                 newData.risks = risksContent;
@@ -2373,16 +2590,8 @@ export const useGeneration = ({
               return;
             }
 
-            setProjectData((prev: any) => {
-              const savedData = { ...prev, ...newData };
-              if (currentProjectId) {
-                storageService.saveProject(savedData, language, currentProjectId)
-                  .then(() => console.log(`[Composite/activities] ★ Explicit save — SUCCESS`))
-                  .catch((e: any) => console.error(`[Composite/activities] ★ Explicit save failed:`, e));
-              }
-              return savedData;
-            });
-            setHasUnsavedTranslationChanges(true);
+            // ★ v7.15: Staged as suggestions when existing content would change
+            commitGeneratedData(newData, compositeSectionKey, 'Composite/activities');
             console.log(`[Composite/activities] DONE — ${successCount}/${totalSteps} steps succeeded ✅`);
 
             if (successCount > 0 && successCount < totalSteps && firstFatalError) {
@@ -2414,6 +2623,12 @@ export const useGeneration = ({
             let skippedCount = 0;
             let lastError: any = null;
 
+            // ★ v7.15: Sections are collected here and committed / staged once at the end
+            let resultsData = { ...projectData };
+            const stageResultsData = (updater: (prev: any) => any) => {
+              resultsData = updater(resultsData);
+            };
+
             let sectionsToProcess: { key: string; action: 'fill' | 'generate' | 'enhance' | 'regenerate'; emptyIndices: number[] }[] = [];
 
             if (mode === 'fill') {
@@ -2511,11 +2726,12 @@ export const useGeneration = ({
                   } else {
                     const genMode = action === 'generate' ? 'regenerate' : action;
                     generatedData = await generateSectionContent(
-                      s, projectData, language, genMode, null, signal
+                      s, projectData, language, genMode, null, signal, undefined,
+                      createPreviewHandler(s)
                     );
                   }
 
-                  setProjectData((prev: any) => {
+                  stageResultsData((prev: any) => {
                     const next = { ...prev };
                     // ★ FIX: Auto-assign IDs for kers if missing
                     if (s === 'kers' && Array.isArray(generatedData)) {
@@ -2593,7 +2809,7 @@ export const useGeneration = ({
             }
 
             if (successCount > 0) {
-              setHasUnsavedTranslationChanges(true);
+              commitGeneratedData(resultsData, compositeSectionKey, 'Composite/expectedResults');
             }
 
             if (!lastError && successCount === totalToProcess) {
@@ -2675,6 +2891,7 @@ export const useGeneration = ({
           }
         } finally {
           setIsLoading(false);
+          setStreamPreview(null);
           isGeneratingRef.current = false;
           abortControllerRef.current = null;
         }
@@ -2713,7 +2930,7 @@ export const useGeneration = ({
             : `Translate from ${otherLang}`,
           secondaryText: language === 'si' ? 'Generiraj novo' : 'Generate new',
           cancelText: language === 'si' ? 'Prekliči' : 'Cancel',
-          onConfirm: () => performTranslationFromOther(otherLangData),
+          onConfirm: () => performTranslationFromOther(otherLangData, otherLangCode),
           onSecondary: () => runComposite('regenerate'),
           onCancel: closeModal,
         });
@@ -2743,7 +2960,7 @@ export const useGeneration = ({
               );
             }, 100);
           },
-          onSecondary: () => performTranslationFromOther(otherLangData),
+          onSecondary: () => performTranslationFromOther(otherLangData, otherLangCode),
           onCancel: closeModal,
         });
       } else if (hasContentInSections) {
@@ -2774,6 +2991,9 @@ export const useGeneration = ({
       show3OptionModal,
       preGenerationGuard,
       currentProjectId,
+      createPreviewHandler,
+      snapshotBeforeAI,
+      commitGeneratedData,
     ]
   );
     // ─── Single field generation ───────────────────────────────────
@@ -2788,27 +3008,18 @@ export const useGeneration = ({
       const fieldName = path[path.length - 1];
       setIsLoading(t.generating + ' ' + getPrettyName(String(fieldName), language) + '...');
       setError(null);
+      setPendingProposal(null);
 
       const fieldAbort = new AbortController();
       abortControllerRef.current = fieldAbort;
 
       try {
         const fieldPathStr = path.map(String).join('.');
+        await snapshotBeforeAI(`generation:field:${fieldPathStr}`);
         console.log('[handleGenerateField] ▶ fieldPathStr:', fieldPathStr);
         const content = await generateFieldContent(fieldPathStr, projectData, language, fieldAbort.signal);
         console.log('[handleGenerateField] ◀ content:', JSON.stringify(content).substring(0, 300), '| type:', typeof content, '| length:', content?.length);
-        handleUpdateData(path, content);
-        console.log('[handleGenerateField] ✅ handleUpdateData DONE');
-
-        try {
-          if (currentProjectId) {
-            const updatedData = set(projectData, path, content);
-            await storageService.saveProject(updatedData, language, currentProjectId);
-            console.log('[handleGenerateField] ★ Explicit save — SUCCESS');
-          }
-        } catch (saveErr) {
-          console.error('[handleGenerateField] ★ Explicit save failed:', saveErr);
-        }
+        commitGeneratedData(set(projectData, path, content), `field:${fieldPathStr}`, 'handleGenerateField', path);
 
       } catch (e: any) {
         if (e.name !== 'AbortError') {
@@ -2820,7 +3031,7 @@ export const useGeneration = ({
         abortControllerRef.current = null;
       }
     },
-    [ensureApiKey, projectData, language, t, handleUpdateData, setIsSettingsOpen, handleAIError, currentProjectId]
+    [ensureApiKey, projectData, language, t, snapshotBeforeAI, commitGeneratedData, setIsSettingsOpen, handleAIError]
   );
 
   // ─── Summary generation ────────────────────────────────────────
@@ -2938,5 +3149,13 @@ export const useGeneration = ({
     runSummaryGeneration,
     handleDownloadSummaryDocx,
     cancelGeneration,
+    qualityReport,
+    clearQualityReport,
+    streamPreview,
+    aiSuggestions,
+    acceptSuggestion,
+    rejectSuggestion,
+    acceptAllSuggestions,
+    rejectAllSuggestions,
   };
 };
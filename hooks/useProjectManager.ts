@@ -2,6 +2,24 @@
 // ═══════════════════════════════════════════════════════════════
 // Project CRUD, import/export, save, auto-save, navigation.
 // On login: shows project list instead of auto-loading last project.
+// v1.12 — 2026-03-07 — Restore writes back every language of the snapshot and
+//   deletes language versions created after it (kept in the safety snapshot);
+//   getRestoreLanguagePlan() lists both for the confirmation dialog
+// v1.11 — 2026-03-07 — migrateActivityPrefixes remaps schedule baseline task /
+//   milestone keys, so variance still matches tasks in every language
+// v1.10 — 2026-03-07 — DOCX Gantt exported as pages (renderGanttPages, ProjectData.ganttExport)
+// v1.9 — 2026-03-07 — DOCX charts rendered from data (chartSvgService), no html2canvas
+//   - No 2 s wait and no hidden export containers in App
+// v1.8 — 2026-03-07 — Changing scheduleCalendar re-runs recalculateProjectSchedule
+// v1.7 — 2026-03-07 — DOCX proposal import
+//   - handleImportProposal: creates a new project from reviewed DOCX mapping
+// v1.6 — 2026-03-07 — Language registry (languages.ts)
+//   - projectVersions holds one entry per language stored for the project
+//   - loadActiveProject / save / clone / restore / export cover every language
+//   - migrateActivityPrefixes + coordinator code use registry prefixes
+// v1.5 — 2026-03-07 — Persistent version history (project_versions)
+//   - handleCreateSnapshot: named snapshot of both EN/SI
+//   - handleRestoreVersion: safety auto snapshot, then restores both languages
 // v1.4 — 2026-03-06 — Undo/Redo + Clone (EO-037, EO-038)
 //   - FIX: handleUpdateData double setProjectData bug
 //   - handleCloneProject: copies both EN/SI with _V1.1 suffix
@@ -26,6 +44,7 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { storageService } from '../services/storageService.ts';
 import { generateDocx } from '../services/docxGenerator.ts';
+import { projectVersionService } from '../services/projectVersionService.ts';
 import {
   set,
   createEmptyProjectData,
@@ -34,27 +53,43 @@ import {
   safeMerge,
   detectProjectLanguage,
 } from '../utils.ts';
-import html2canvas from 'html2canvas';
+import {
+  getLanguageDefinition,
+  isSupportedLanguage,
+  SUPPORTED_LANGUAGES,
+  type LanguageCode,
+} from '../languages.ts';
+import { renderChartSvg, renderGanttPages, svgToPng, type ChartKind, type ChartPng } from '../services/chartSvgService.ts';
+import { getActiveBaseline } from '../services/scheduleBaselineService.ts';
+
+// Registered languages with data in a version snapshot
+const snapshotLanguages = (data: any): LanguageCode[] =>
+  Object.entries(data || {}).filter(([lang, value]) => value && isSupportedLanguage(lang)).map(([lang]) => lang);
+
+// Same pixel density the former html2canvas capture used (scale 2)
+const DOCX_CHART_DPI = 192;
 
 // ★ v1.2: Migrate WP/Task ID prefixes based on language
-// EN: WP1, T1.1 | SI: DS1, N1.1
-const migrateActivityPrefixes = (data: any, lang: 'en' | 'si'): any => {
+// EN: WP1, T1.1 | SI: DS1, N1.1 | ★ v1.6: any registered language (languages.ts)
+const hasIdPrefix = (id: string, prefix: string): boolean => new RegExp('^' + prefix + '\\d').test(id);
+
+const migrateActivityPrefixes = (data: any, lang: LanguageCode): any => {
   const activities = data?.activities;
   if (!activities || !Array.isArray(activities) || activities.length === 0) return data;
 
-  const wpPfx = lang === 'si' ? 'DS' : 'WP';
-  const tskPfx = lang === 'si' ? 'N' : 'T';
-  const wrongWpPfx = lang === 'si' ? 'WP' : 'DS';
-  const wrongTskPfx = lang === 'si' ? 'T' : 'N';
+  const { wpPrefix: wpPfx, taskPrefix: tskPfx, coordinatorCode } = getLanguageDefinition(lang);
+  const otherDefs = SUPPORTED_LANGUAGES.map(getLanguageDefinition);
+  const wrongWpPfxs = Array.from(new Set(otherDefs.map((d) => d.wpPrefix))).filter((p) => p !== wpPfx);
+  const wrongTskPfxs = Array.from(new Set(otherDefs.map((d) => d.taskPrefix))).filter((p) => p !== tskPfx);
 
   // Check ALL WP and Task IDs — if ANY has wrong prefix, migrate everything
   let needsMigration = false;
   for (const wp of activities) {
     const wpId = (wp.id || '').toString();
-    if (wpId.startsWith(wrongWpPfx)) { needsMigration = true; break; }
+    if (!hasIdPrefix(wpId, wpPfx) && wrongWpPfxs.some((p) => hasIdPrefix(wpId, p))) { needsMigration = true; break; }
     for (const task of (wp.tasks || [])) {
       const taskId = (task.id || '').toString();
-      if (taskId.startsWith(wrongTskPfx)) { needsMigration = true; break; }
+      if (!hasIdPrefix(taskId, tskPfx) && wrongTskPfxs.some((p) => hasIdPrefix(taskId, p))) { needsMigration = true; break; }
     }
     if (needsMigration) break;
   }
@@ -65,6 +100,7 @@ const migrateActivityPrefixes = (data: any, lang: 'en' | 'si'): any => {
 
   // Build old→new ID map for dependency fixes
   const idMap = new Map<string, string>();
+  const milestoneIdMap = new Map<string, string>();
 
   const migratedActivities = activities.map((wp: any, wpIdx: number) => {
     const newWpId = `${wpPfx}${wpIdx + 1}`;
@@ -76,10 +112,11 @@ const migrateActivityPrefixes = (data: any, lang: 'en' | 'si'): any => {
       return { ...task, id: newTaskId };
     });
 
-    const milestones = (wp.milestones || []).map((ms: any, mIdx: number) => ({
-      ...ms,
-      id: `M${wpIdx + 1}.${mIdx + 1}`,
-    }));
+    const milestones = (wp.milestones || []).map((ms: any, mIdx: number) => {
+      const newMsId = `M${wpIdx + 1}.${mIdx + 1}`;
+      if (ms.id && ms.id !== newMsId) milestoneIdMap.set(ms.id, newMsId);
+      return { ...ms, id: newMsId };
+    });
 
     const deliverables = (wp.deliverables || []).map((del: any, dIdx: number) => ({
       ...del,
@@ -103,12 +140,23 @@ const migrateActivityPrefixes = (data: any, lang: 'en' | 'si'): any => {
 
 console.log('[PrefixMigration] Migrated ' + idMap.size + ' IDs');
 
+  // ★ v1.11: Schedule baselines are keyed by task / milestone id
+  const remapKeys = (entries: Record<string, any> | undefined, map: Map<string, string>) =>
+    Object.fromEntries(Object.entries(entries || {}).map(([id, value]) => [map.get(id) || id, value]));
+  const migratedBaselines = Array.isArray(data.scheduleBaselines)
+    ? data.scheduleBaselines.map((b: any) => ({
+        ...b,
+        tasks: remapKeys(b.tasks, idMap),
+        milestones: remapKeys(b.milestones, milestoneIdMap),
+      }))
+    : data.scheduleBaselines;
+
   // ★ v1.2: Migrate partner coordinator code (EN=CO, SI=KO)
   let migratedPartners = data.partners;
   if (Array.isArray(data.partners) && data.partners.length > 0) {
-    const correctCoCode = lang === 'si' ? 'KO' : 'CO';
-    const wrongCoCode = lang === 'si' ? 'CO' : 'KO';
-    if (data.partners[0]?.code === wrongCoCode) {
+    const correctCoCode = coordinatorCode;
+    const wrongCoCode = data.partners[0]?.code;
+    if (wrongCoCode !== correctCoCode && otherDefs.some((d) => d.coordinatorCode === wrongCoCode)) {
       migratedPartners = data.partners.map((p: any, idx: number) => {
         if (idx === 0) return { ...p, code: correctCoCode };
         return p;
@@ -117,13 +165,13 @@ console.log('[PrefixMigration] Migrated ' + idMap.size + ' IDs');
     }
   }
 
-    return { ...data, activities: migratedActivities, partners: migratedPartners };
+    return { ...data, activities: migratedActivities, partners: migratedPartners, scheduleBaselines: migratedBaselines };
 };
 
 interface UseProjectManagerProps {
 
-  language: 'en' | 'si';
-  setLanguage: (lang: 'en' | 'si') => void;
+  language: LanguageCode;
+  setLanguage: (lang: LanguageCode) => void;
   currentUser: string | null;
 }
 
@@ -133,7 +181,7 @@ export const useProjectManager = ({
   currentUser,
 }: UseProjectManagerProps) => {
   const [projectData, setProjectData] = useState(createEmptyProjectData());
-  const [projectVersions, setProjectVersions] = useState<{ en: any; si: any }>({
+  const [projectVersions, setProjectVersions] = useState<Record<LanguageCode, any>>({
     en: null,
     si: null,
   });
@@ -289,7 +337,8 @@ var handleRedo = useCallback(function() {
   // ★ v1.2: Added migrateActivityPrefixes call after safeMerge
 
     const loadActiveProject = useCallback(
-    async (specificId: string | null = null) => {
+    async (specificId: string | null = null, langOverride?: LanguageCode) => {
+      const lang = langOverride || language;
       // ★ v1.3: Guard — prevent auto-save and sync effect during load
       isLoadingProjectRef.current = true;
       undoStackRef.current = [];
@@ -298,20 +347,25 @@ var handleRedo = useCallback(function() {
       setCanRedo(false);
       
       try {
-        const loadedData = await storageService.loadProject(language, specificId);
+        const loadedData = await storageService.loadProject(lang, specificId);
 
         if (loadedData) {
           // ★ v1.2: Migrate WP/Task prefixes to match current language
-          const mergedData = migrateActivityPrefixes(safeMerge(loadedData), language);
-          const otherLang = language === 'en' ? 'si' : 'en';
-          const otherData = await storageService.loadProject(otherLang, specificId);
-          const mergedOther = otherData ? migrateActivityPrefixes(safeMerge(otherData), otherLang) : null;
+          const mergedData = migrateActivityPrefixes(safeMerge(loadedData), lang);
+
+          // ★ v1.6: Every other language version stored for this project
+          const projectId = specificId || storageService.getCurrentProjectId();
+          const storedLangs = projectId ? await storageService.getProjectLanguages(projectId) : [];
+          const otherLangs = Array.from(new Set(['en', 'si', ...storedLangs]))
+            .filter((l) => l !== lang && isSupportedLanguage(l));
+          const versions: Record<LanguageCode, any> = { en: null, si: null, [lang]: mergedData };
+          for (const otherLang of otherLangs) {
+            const otherData = await storageService.loadProject(otherLang, specificId);
+            versions[otherLang] = otherData ? migrateActivityPrefixes(safeMerge(otherData), otherLang) : null;
+          }
 
           // ★ v1.3: Set projectVersions BEFORE projectData to prevent sync effect from overwriting
-          setProjectVersions({
-            en: language === 'en' ? mergedData : mergedOther,
-            si: language === 'si' ? mergedData : mergedOther,
-          });
+          setProjectVersions(versions);
           setProjectData(mergedData);
         } else {
           setProjectData(createEmptyProjectData());
@@ -361,10 +415,7 @@ var handleRedo = useCallback(function() {
 
   useEffect(() => {
     if (isLoadingProjectRef.current) return;
-    setProjectVersions((prev) => ({
-      en: language === 'en' ? projectData : prev.en,
-      si: language === 'si' ? projectData : prev.si,
-    }));
+    setProjectVersions((prev) => ({ ...prev, [language]: projectData }));
   }, [projectData, language]);
 
   // ─── Auto-save (debounced 2s) ─────────────────────────────────
@@ -456,9 +507,12 @@ var handleRedo = useCallback(function() {
       throw new Error('Failed to create cloned project.');
     }
 
-    // Load source project data in both languages
-    var enData = await storageService.loadProject('en', projectId);
-    var siData = await storageService.loadProject('si', projectId);
+    // Load source project data in every stored language (★ v1.6)
+    var sourceLangs = (await storageService.getProjectLanguages(projectId)).filter(isSupportedLanguage);
+    var sourceVersions: Record<LanguageCode, any> = {};
+    for (var srcLang of sourceLangs) {
+      sourceVersions[srcLang] = await storageService.loadProject(srcLang, projectId);
+    }
 
     // Add version suffix to title and acronym
     var addVersionSuffix = function(data: any) {
@@ -486,21 +540,21 @@ var handleRedo = useCallback(function() {
       return cloned;
     };
 
-    if (enData) {
-      await storageService.saveProject(addVersionSuffix(enData), 'en', newProj.id);
-    }
-    if (siData) {
-      await storageService.saveProject(addVersionSuffix(siData), 'si', newProj.id);
+    for (var cloneLang of Object.keys(sourceVersions)) {
+      if (sourceVersions[cloneLang]) {
+        await storageService.saveProject(addVersionSuffix(sourceVersions[cloneLang]), cloneLang, newProj.id);
+      }
     }
 
-    // Update project title in projects table
-    var sourceTitle = '';
-    if (enData && enData.projectIdea && enData.projectIdea.projectTitle) {
-      sourceTitle = enData.projectIdea.projectTitle;
-    } else if (siData && siData.projectIdea && siData.projectIdea.projectTitle) {
-      sourceTitle = siData.projectIdea.projectTitle;
-    } else {
-      sourceTitle = 'Untitled';
+    // Update project title in projects table (EN first, then any other language)
+    var sourceTitle = 'Untitled';
+    var titleLangs = ['en', ...Object.keys(sourceVersions).filter(function(l) { return l !== 'en'; })];
+    for (var titleLang of titleLangs) {
+      var titleData = sourceVersions[titleLang];
+      if (titleData && titleData.projectIdea && titleData.projectIdea.projectTitle) {
+        sourceTitle = titleData.projectIdea.projectTitle;
+        break;
+      }
     }
     var clonedTitle = sourceTitle + '_V1.1';
     try {
@@ -511,6 +565,82 @@ var handleRedo = useCallback(function() {
     await refreshProjectList();
     return newProj;
   }, [refreshProjectList]);
+
+  // ─── Version history ──────────────────────────────────────────
+  // ★ v1.5: Named snapshot of the current project (all languages)
+
+  const handleCreateSnapshot = useCallback(
+    async (label: string) => {
+      if (!currentProjectId) return null;
+      await storageService.saveProject(projectData, language, currentProjectId);
+      const snapshot = await projectVersionService.createSnapshot(
+        currentProjectId,
+        { ...projectVersions, [language]: projectData },
+        { kind: 'named', label }
+      );
+      await refreshProjectList();
+      return snapshot;
+    },
+    [currentProjectId, projectData, projectVersions, language, refreshProjectList]
+  );
+
+  // ★ v1.12: Languages a restore writes back and stored languages it deletes
+  const getRestoreLanguagePlan = useCallback(
+    async (projectId: string, versionId: string): Promise<{ restored: LanguageCode[]; removed: LanguageCode[] }> => {
+      const version = await projectVersionService.getVersion(versionId);
+      const restored = snapshotLanguages(version?.data);
+      const stored = (await storageService.getProjectLanguages(projectId)).filter(isSupportedLanguage);
+      return { restored, removed: stored.filter((lang) => !restored.includes(lang)) };
+    },
+    []
+  );
+
+  // ★ v1.5: Restore a version — current state is auto-snapshotted first,
+  // so a restore can itself be undone from the history list
+  const handleRestoreVersion = useCallback(
+    async (projectId: string, versionId: string) => {
+      const version = await projectVersionService.getVersion(versionId);
+      const restoredLangs = snapshotLanguages(version?.data);
+      if (!version || restoredLangs.length === 0) {
+        throw new Error('Failed to load project version.');
+      }
+
+      const isCurrent = projectId === currentProjectId;
+      if (isCurrent) {
+        await storageService.saveProject(projectData, language, projectId);
+      }
+      const storedLangs = (await storageService.getProjectLanguages(projectId)).filter(isSupportedLanguage);
+      const currentSnapshot: Record<LanguageCode, any> = {};
+      for (const lang of storedLangs) {
+        currentSnapshot[lang] = isCurrent && lang === language ? projectData : await storageService.loadProject(lang, projectId);
+      }
+      await projectVersionService.createSnapshot(
+        projectId,
+        currentSnapshot,
+        { kind: 'auto', reason: 'before-restore:v' + version.version }
+      );
+
+      isLoadingProjectRef.current = true;
+      for (const lang of restoredLangs) {
+        await storageService.saveProject(version.data![lang], lang, projectId);
+      }
+      // ★ v1.12: No mixed state — versions created after the snapshot are deleted
+      for (const lang of storedLangs) {
+        if (!restoredLangs.includes(lang)) await storageService.deleteProjectLanguage(projectId, lang);
+      }
+
+      const loadLang = restoredLangs.includes(language) ? language : restoredLangs[0];
+      if (loadLang !== language) setLanguage(loadLang);
+
+      storageService.setCurrentProjectId(projectId);
+      setCurrentProjectId(projectId);
+      await loadActiveProject(projectId, loadLang);
+      setHasUnsavedTranslationChanges(false);
+      setShowProjectListOnLogin(false);
+      await refreshProjectList();
+    },
+    [currentProjectId, projectData, language, setLanguage, loadActiveProject, refreshProjectList]
+  );
   // ─── Data update ──────────────────────────────────────────────
 
   const handleUpdateData = useCallback(
@@ -518,7 +648,7 @@ var handleRedo = useCallback(function() {
       setProjectData((prevData: any) => {
         pushToHistory(prevData);
         let newData = set(prevData, path, value);
-        if (path[0] === 'activities') {
+        if (path[0] === 'activities' || path[0] === 'scheduleCalendar') {
           const scheduleResult = recalculateProjectSchedule(newData);
           newData = scheduleResult.projectData;
           if (scheduleResult.warnings.length > 0) {
@@ -568,13 +698,14 @@ var handleRedo = useCallback(function() {
 
     try {
       await storageService.saveProject(projectData, language, currentProjectId);
-      const otherLang = language === 'en' ? 'si' : 'en';
-      if (projectVersions[otherLang]) {
-        await storageService.saveProject(
-          projectVersions[otherLang],
-          otherLang,
-          currentProjectId
-        );
+      for (const otherLang of Object.keys(projectVersions)) {
+        if (otherLang !== language && projectVersions[otherLang]) {
+          await storageService.saveProject(
+            projectVersions[otherLang],
+            otherLang,
+            currentProjectId
+          );
+        }
       }
       await refreshProjectList();
 
@@ -587,8 +718,10 @@ var handleRedo = useCallback(function() {
           projectId: currentProjectId,
         },
         data: {
-          en: language === 'en' ? projectData : projectVersions.en || null,
-          si: language === 'si' ? projectData : projectVersions.si || null,
+          en: null,
+          si: null,
+          ...projectVersions,
+          [language]: projectData,
         },
       };
 
@@ -625,28 +758,29 @@ var handleRedo = useCallback(function() {
             }
 
             let finalData = createEmptyProjectData();
-            let targetLang: 'en' | 'si' = 'en';
+            let targetLang: LanguageCode = 'en';
 
             if (importedJson.meta && importedJson.data) {
-              const { en, si } = importedJson.data;
               const preferredLang = importedJson.meta.activeLanguage || 'en';
-              const safeEn = en ? safeMerge(en) : null;
-              const safeSi = si ? safeMerge(si) : null;
-
-              if (safeEn) await storageService.saveProject(safeEn, 'en', newProj.id);
-              if (safeSi) await storageService.saveProject(safeSi, 'si', newProj.id);
+              const imported: Record<LanguageCode, any> = {};
+              for (const [lang, langData] of Object.entries(importedJson.data)) {
+                if (langData && isSupportedLanguage(lang)) {
+                  imported[lang] = safeMerge(langData);
+                  await storageService.saveProject(imported[lang], lang, newProj.id);
+                }
+              }
 
-              if (preferredLang === 'si' && safeSi) {
-                finalData = safeSi;
-                targetLang = 'si';
+              if (imported[preferredLang]) {
+                finalData = imported[preferredLang];
+                targetLang = preferredLang;
               } else {
-                finalData = safeEn || safeSi || createEmptyProjectData();
-                targetLang = safeEn ? 'en' : 'si';
+                targetLang = imported.en ? 'en' : Object.keys(imported)[0] || 'en';
+                finalData = imported[targetLang] || createEmptyProjectData();
               }
             } else if (importedJson.problemAnalysis) {
               const detectedLang = detectProjectLanguage(importedJson);
               finalData = safeMerge(importedJson);
-              targetLang = detectedLang as 'en' | 'si';
+              targetLang = detectedLang;
               await storageService.saveProject(finalData, targetLang, newProj.id);
             } else {
               throw new Error(
@@ -673,75 +807,70 @@ var handleRedo = useCallback(function() {
     [refreshProjectList, setLanguage]
   );
 
+  // ─── Import DOCX proposal (★ v1.7) ─────────────────────────────
+  // Data comes from DocxImportModal after the mapping review
+
+  const handleImportProposal = useCallback(
+    async (importedData: any, targetLang: LanguageCode) => {
+      if (currentProjectId && hasContent(projectData)) {
+        await storageService.saveProject(projectData, language, currentProjectId);
+      }
+
+      const newProj = await storageService.createProject();
+      if (!newProj || !newProj.id) {
+        throw new Error('Failed to create new project. Please check your login session.');
+      }
+
+      const finalData = migrateActivityPrefixes(safeMerge(importedData), targetLang);
+      await storageService.saveProject(finalData, targetLang, newProj.id);
+
+      await refreshProjectList();
+      setCurrentProjectId(newProj.id);
+      storageService.setCurrentProjectId(newProj.id);
+      setProjectVersions({ en: null, si: null, [targetLang]: finalData });
+      setProjectData(finalData);
+      setLanguage(targetLang);
+      setCurrentStepId(1);
+      setShowProjectListOnLogin(false);
+      return newProj;
+    },
+    [currentProjectId, projectData, language, hasContent, refreshProjectList, setLanguage]
+  );
+
   // ─── Export DOCX ───────────────────────────────────────────────
 
   const handleExportDocx = useCallback(
     async (setIsLoading: (val: boolean | string) => void) => {
       setIsLoading('Rendering Graphs...');
-      await new Promise((r) => setTimeout(r, 2000));
-
-      const exportOptions = {
-        scale: 2,
-        backgroundColor: '#ffffff',
-        useCORS: true,
-        allowTaint: true,
-      };
-
-      let ganttData = null;
-      const ganttEl = document.getElementById('gantt-chart-export');
-      if (ganttEl) {
-        try {
-          const ganttExportOptions = {
-            ...exportOptions,
-            width: ganttEl.scrollWidth,
-            height: ganttEl.scrollHeight,
-            windowWidth: ganttEl.scrollWidth,
-            windowHeight: ganttEl.scrollHeight,
-          };
-          const canvas = await html2canvas(ganttEl as HTMLElement, ganttExportOptions);
-          ganttData = {
-            dataUrl: canvas.toDataURL('image/png'),
-            width: canvas.width,
-            height: canvas.height,
-          };
-        } catch (e) {
-          console.warn('Gantt capture failed', e);
-        }
-      }
 
-      let pertData = null;
-      const pertEl = document.getElementById('pert-chart-export');
-      if (pertEl) {
+      // Charts are rendered from data, so nothing has to be mounted or visible
+      const rasterize = async (kind: ChartKind, label: string) => {
+        const chart = renderChartSvg(kind, projectData, language);
+        if (!chart) return null;
         try {
-          const canvas = await html2canvas(pertEl as HTMLElement, exportOptions);
-          pertData = {
-            dataUrl: canvas.toDataURL('image/png'),
-            width: canvas.width,
-            height: canvas.height,
-          };
+          return await svgToPng(chart, DOCX_CHART_DPI);
         } catch (e) {
-          console.warn('PERT capture failed', e);
+          console.warn(`${label} rendering failed`, e);
+          return null;
         }
-      }
+      };
 
-      let organigramData = null;
-      const orgEl = document.getElementById('organigram-export');
-      if (orgEl) {
+      // Gantt split across landscape pages (ProjectData.ganttExport)
+      const ganttPages: (ChartPng & { title: string })[] = [];
+      const pages = renderGanttPages(projectData.activities, language, { ...projectData.ganttExport, baseline: getActiveBaseline(projectData) });
+      for (const page of pages) {
         try {
-          const canvas = await html2canvas(orgEl as HTMLElement, exportOptions);
-          organigramData = {
-            dataUrl: canvas.toDataURL('image/png'),
-            width: canvas.width,
-            height: canvas.height,
-          };
+          ganttPages.push({ ...(await svgToPng(page, DOCX_CHART_DPI)), title: page.title });
         } catch (e) {
-          console.warn('Organigram capture failed', e);
+          console.warn('Gantt page rendering failed', e);
         }
       }
+      const pertData = await rasterize('pert', 'PERT');
+      const organigramData = await rasterize('organigram', 'Organigram');
 
       setIsLoading('Generating DOCX...');
       try {
-        const blob = await generateDocx(projectData, language, ganttData, pertData, organigramData);
+        const blob = await generateDocx(projectData, language, ganttPages, pertData, organigramData);
         downloadBlob(blob, generateFilename('docx'));
       } catch (e: any) {
         throw new Error('Failed to generate DOCX file: ' + e.message);
@@ -800,11 +929,15 @@ var handleRedo = useCallback(function() {
     handleCreateProject,
     handleDeleteProject,
     handleCloneProject,
+    handleCreateSnapshot,
+    getRestoreLanguagePlan,
+    handleRestoreVersion,
     handleUpdateData,
     handleAddItem,
     handleRemoveItem,
     handleSaveToStorage,
     handleImportProject,
+    handleImportProposal,
     handleExportDocx,
     handleStartEditing,
     handleBackToWelcome,
@@ -1,6 +1,11 @@
 // hooks/useTranslation.ts
 // ═══════════════════════════════════════════════════════════════
 // Language switching and smart diff-based translation.
+// v2.4 — 2026-03-07 — XLIFF 2.0 export / import for human translators (xliffService)
+// v2.3 — 2026-03-07 — Glossary report (glossaryService) shown when translated fields miss required terms
+// v2.2 — 2026-03-07 — Any language pair (languages.ts): source = current language,
+//   snapshot covers every language version, detection limited to the pair
+// v2.1 — 2026-03-07 — Auto snapshot (projectVersionService) of both languages before AI translation
 // v2.0 — 2026-02-15 — RELIABILITY OVERHAUL
 //
 // CHANGES:
@@ -19,16 +24,20 @@
 import { useCallback } from 'react';
 import { storageService } from '../services/storageService.ts';
 import { smartTranslateProject } from '../services/translationDiffService.ts';
-import { createEmptyProjectData, detectProjectLanguage } from '../utils.ts';
-import { TEXT } from '../locales.ts';
+import { projectVersionService } from '../services/projectVersionService.ts';
+import { summarizeGlossaryReport } from '../services/glossaryService.ts';
+import { xliffService, parseXliff } from '../services/xliffService.ts';
+import { createEmptyProjectData, detectProjectLanguage, downloadBlob } from '../utils.ts';
+import { getText } from '../locales.ts';
+import type { LanguageCode } from '../languages.ts';
 
 interface UseTranslationProps {
-  language: 'en' | 'si';
-  setLanguage: (lang: 'en' | 'si') => void;
+  language: LanguageCode;
+  setLanguage: (lang: LanguageCode) => void;
   projectData: any;
   setProjectData: (data: any) => void;
-  projectVersions: { en: any; si: any };
-  setProjectVersions: (fn: (prev: { en: any; si: any }) => { en: any; si: any }) => void;
+  projectVersions: Record<LanguageCode, any>;
+  setProjectVersions: (fn: (prev: Record<LanguageCode, any>) => Record<LanguageCode, any>) => void;
   currentProjectId: string | null;
   currentUser: string | null;
   hasUnsavedTranslationChanges: boolean;
@@ -65,18 +74,19 @@ export const useTranslation = ({
   // ─── Check if data is actually in the expected language ────────
 
   const isDataInCorrectLanguage = useCallback(
-    (data: any, expectedLang: 'en' | 'si'): boolean => {
+    (data: any, expectedLang: LanguageCode): boolean => {
       if (!data || !hasContent(data)) return false;
-      const detectedLang = detectProjectLanguage(data);
+      // ★ v2.2: only compare the two languages involved (SI / HR etc. are close)
+      const detectedLang = detectProjectLanguage(data, [expectedLang, language]);
       return detectedLang === expectedLang;
     },
-    [hasContent]
+    [hasContent, language]
   );
 
   // ─── Friendly translation error handler ────────────────────────
 
   const handleTranslationError = useCallback(
-    (e: any, targetLang: 'en' | 'si') => {
+    (e: any, targetLang: LanguageCode) => {
       const msg = e.message || e.toString();
 
       // Missing API key → open settings
@@ -122,13 +132,13 @@ export const useTranslation = ({
   // every single field regardless of hash status.
 
   const performTranslation = useCallback(
-    async (targetLang: 'en' | 'si', sourceData: any, forceAll: boolean = false) => {
+    async (targetLang: LanguageCode, sourceData: any, forceAll: boolean = false) => {
       if (!ensureApiKey()) {
         setIsSettingsOpen(true);
         return;
       }
 
-      const tTarget = TEXT[targetLang] || TEXT['en'];
+      const tTarget = getText(targetLang);
       const loadingMsg = forceAll
         ? (targetLang === 'si'
             ? `${tTarget.generating} (Popoln prevod vseh polj)...`
@@ -144,13 +154,23 @@ export const useTranslation = ({
           currentProjectId
         );
 
+        // ★ v2.1: Persistent snapshot before the target language is overwritten
+        if (currentProjectId) {
+          await projectVersionService.createSnapshot(
+            currentProjectId,
+            { ...projectVersions, [language]: sourceData, [targetLang]: existingTargetData },
+            { kind: 'auto', reason: forceAll ? 'translation:full' : 'translation' }
+          );
+        }
+
         // ★ v2.0: Pass forceAll to smartTranslateProject
-        const { translatedData, stats } = await smartTranslateProject(
+        const { translatedData, stats, glossaryReport } = await smartTranslateProject(
           sourceData,
           targetLang,
           existingTargetData,
           currentProjectId!,
-          forceAll  // ★ forceTranslateAll
+          forceAll,  // ★ forceTranslateAll
+          language   // ★ v2.2: source = current language
         );
 
         // Check if translation actually succeeded
@@ -179,6 +199,22 @@ export const useTranslation = ({
               ? `Prevod delno uspel: ${stats.translated}/${stats.changed} polj prevedenih (${stats.verified} preverjenih, ${stats.retried} ponovljenih). ${stats.failed} polj ni uspelo — poskusite ponovno.`
               : `Translation partially done: ${stats.translated}/${stats.changed} fields (${stats.verified} verified, ${stats.retried} retried). ${stats.failed} fields failed — try again.`
           );
+        } else if (stats.glossaryViolations > 0) {
+          // ★ v2.3: Translation done, but glossary terms were not respected everywhere
+          setModalConfig({
+            isOpen: true,
+            title: language === 'si' ? 'Preverjanje glosarja' : 'Glossary check',
+            message: (language === 'si'
+              ? `Prevod končan (${stats.translated}/${stats.changed} polj), vendar ${stats.glossaryViolations} mest ne uporablja predpisanega izraza:\n\n`
+              : `Translation done (${stats.translated}/${stats.changed} fields), but ${stats.glossaryViolations} places do not use the required term:\n\n`)
+              + summarizeGlossaryReport(glossaryReport, language),
+            confirmText: 'OK',
+            secondaryText: '',
+            cancelText: '',
+            onConfirm: closeModal,
+            onSecondary: null,
+            onCancel: closeModal,
+          });
         } else if (stats.changed === 0) {
           console.log('[Translation] No changes detected – all fields up to date.');
         } else {
@@ -193,6 +229,8 @@ export const useTranslation = ({
     },
     [
       ensureApiKey,
+      language,
+      projectVersions,
       currentProjectId,
       setProjectData,
       setLanguage,
@@ -201,6 +239,8 @@ export const useTranslation = ({
       setIsLoading,
       setError,
       setIsSettingsOpen,
+      setModalConfig,
+      closeModal,
       handleTranslationError,
     ]
   );
@@ -208,7 +248,7 @@ export const useTranslation = ({
   // ─── Copy source to target (no translation) ───────────────────
 
   const performCopy = useCallback(
-    (targetLang: 'en' | 'si', sourceData: any) => {
+    (targetLang: LanguageCode, sourceData: any) => {
       setProjectData(sourceData);
       setLanguage(targetLang);
       setHasUnsavedTranslationChanges(true);
@@ -219,7 +259,7 @@ export const useTranslation = ({
   // ─── Switch to cached version ──────────────────────────────────
 
   const performSwitchOnly = useCallback(
-    (targetLang: 'en' | 'si', cachedData: any) => {
+    (targetLang: LanguageCode, cachedData: any) => {
       setProjectData(cachedData);
       setLanguage(targetLang);
       setHasUnsavedTranslationChanges(false);
@@ -230,7 +270,7 @@ export const useTranslation = ({
   // ─── Main language switch handler ──────────────────────────────
 
   const handleLanguageSwitchRequest = useCallback(
-    async (newLang: 'en' | 'si') => {
+    async (newLang: LanguageCode) => {
       if (newLang === language) return;
 
       // Save current data before switching (only if logged in)
@@ -253,7 +293,7 @@ export const useTranslation = ({
         cachedVersion = await storageService.loadProject(newLang, currentProjectId);
       }
 
-      const tCurrent = TEXT[language] || TEXT['en'];
+      const tCurrent = getText(language);
 
       // Check if cached version is ACTUALLY in the target language
       const cachedHasContent = hasContent(cachedVersion);
@@ -336,8 +376,125 @@ export const useTranslation = ({
     ]
   );
 
+  // ─── XLIFF export / import (human translators) ─────────────────
+  // ★ v2.4: current language = source; target = any other language
+
+  const loadLanguageVersion = useCallback(
+    async (lang: LanguageCode): Promise<any> => {
+      if (lang === language) return projectData;
+      return projectVersions[lang] || await storageService.loadProject(lang, currentProjectId);
+    },
+    [language, projectData, projectVersions, currentProjectId]
+  );
+
+  const handleExportXliff = useCallback(
+    async (targetLang: LanguageCode) => {
+      if (targetLang === language || !hasContent(projectData)) return;
+      setError(null);
+      try {
+        const targetData = await loadLanguageVersion(targetLang);
+        const { blob, unitCount, translatedCount } = await xliffService.exportPair(
+          currentProjectId, projectData, targetData, language, targetLang
+        );
+        const acronym = (projectData.projectIdea?.projectAcronym || '').trim() || 'eu-project';
+        downloadBlob(blob, `${acronym.replace(/[<>:"/\\|?*]/g, '_')}_${language}-${targetLang}.xlf`);
+        console.log(`[XLIFF] Exported ${unitCount} units (${translatedCount} already translated).`);
+      } catch (e: any) {
+        console.error('[XLIFF] Export failed:', e);
+        setError(language === 'si' ? `Izvoz XLIFF ni uspel: ${e.message}` : `XLIFF export failed: ${e.message}`);
+      }
+    },
+    [language, projectData, currentProjectId, hasContent, loadLanguageVersion, setError]
+  );
+
+  const handleImportXliff = useCallback(
+    async (file: File) => {
+      setError(null);
+      setIsLoading(language === 'si' ? 'Uvažam XLIFF...' : 'Importing XLIFF...');
+      try {
+        const parsed = parseXliff(await file.text());
+        if (parsed.projectId && currentProjectId && parsed.projectId !== currentProjectId) {
+          throw new Error(language === 'si'
+            ? 'Datoteka je bila izvožena iz drugega projekta.'
+            : 'The file was exported from a different project.');
+        }
+        if (parsed.sourceLang === parsed.targetLang) {
+          throw new Error(language === 'si' ? 'Izvorni in ciljni jezik sta enaka.' : 'Source and target language are the same.');
+        }
+
+        const sourceData = await loadLanguageVersion(parsed.sourceLang);
+        if (!hasContent(sourceData)) {
+          throw new Error(language === 'si'
+            ? `Projekt nima vsebine v izvornem jeziku (${parsed.sourceLang.toUpperCase()}).`
+            : `The project has no content in the source language (${parsed.sourceLang.toUpperCase()}).`);
+        }
+        const existingTargetData = await loadLanguageVersion(parsed.targetLang);
+
+        // Persistent snapshot before the target language is overwritten
+        if (currentProjectId) {
+          await projectVersionService.createSnapshot(
+            currentProjectId,
+            { ...projectVersions, [language]: projectData, [parsed.targetLang]: existingTargetData },
+            { kind: 'auto', reason: 'xliff-import' }
+          );
+        }
+
+        const { translatedData, stats } = await xliffService.importParsed(
+          currentProjectId, parsed, sourceData, existingTargetData
+        );
+        await storageService.saveProject(translatedData, parsed.targetLang, currentProjectId);
+        setProjectVersions((prev) => ({ ...prev, [parsed.targetLang]: translatedData }));
+        if (parsed.targetLang === language) {
+          setProjectData(translatedData);
+        }
+
+        const pair = `${parsed.sourceLang.toUpperCase()} → ${parsed.targetLang.toUpperCase()}`;
+        setModalConfig({
+          isOpen: true,
+          title: language === 'si' ? 'Uvoz XLIFF končan' : 'XLIFF import complete',
+          message: language === 'si'
+            ? `${pair}: ${stats.applied}/${stats.units} prevodov uvoženih.`
+              + (stats.empty ? `\n• ${stats.empty} enot brez prevoda (nespremenjeno)` : '')
+              + (stats.stale ? `\n• ${stats.stale} polj je bilo po izvozu spremenjenih — ob naslednjem AI prevodu bodo prevedena znova` : '')
+              + (stats.unknown ? `\n• ${stats.unknown} polj v projektu ne obstaja več (preskočeno)` : '')
+            : `${pair}: ${stats.applied}/${stats.units} translations imported.`
+              + (stats.empty ? `\n• ${stats.empty} units without a translation (unchanged)` : '')
+              + (stats.stale ? `\n• ${stats.stale} fields changed after the export — the next AI translation will update them` : '')
+              + (stats.unknown ? `\n• ${stats.unknown} fields no longer exist in the project (skipped)` : ''),
+          confirmText: 'OK',
+          secondaryText: '',
+          cancelText: '',
+          onConfirm: closeModal,
+          onSecondary: null,
+          onCancel: closeModal,
+        });
+      } catch (e: any) {
+        console.error('[XLIFF] Import failed:', e);
+        setError(language === 'si' ? `Uvoz XLIFF ni uspel: ${e.message}` : `XLIFF import failed: ${e.message}`);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [
+      language,
+      projectData,
+      projectVersions,
+      currentProjectId,
+      hasContent,
+      loadLanguageVersion,
+      setProjectData,
+      setProjectVersions,
+      setIsLoading,
+      setError,
+      setModalConfig,
+      closeModal,
+    ]
+  );
+
   return {
     handleLanguageSwitchRequest,
     performTranslation,
+    handleExportXliff,
+    handleImportXliff,
   };
 };
@@ -0,0 +1,178 @@
+// languages.ts
+// ═══════════════════════════════════════════════════════════════
+// Language registry — every proposal / UI language the app knows.
+// v1.1 — 2026-03-07 — markers: words / letters only one of two close
+//   languages uses (SI vs HR); č, š, ž count for both SI and HR
+// v1.0 — 2026-03-07
+//
+// FEATURES:
+//   - One LanguageDefinition per language: names, Intl locale,
+//     WP/Task ID prefixes, detection keywords + characteristic letters
+//   - A project can hold any number of these as project_data rows;
+//     translation runs between any pair (translationDiffService)
+//   - UI strings: locales.ts fills missing keys from English
+//   - Language detection (utils.detectTextLanguage) scores every
+//     registered language — no more SI/EN-only keyword lists
+//
+// ADDING A LANGUAGE:
+//   1. Add a LanguageDefinition below
+//   2. Optional: LANGUAGE_DIRECTIVES entry in Instructions.ts
+//      (a generic directive is built from the name otherwise)
+//   3. Optional: partial UI strings in locales.ts (PARTIAL_LOCALES)
+// ═══════════════════════════════════════════════════════════════
+
+import type { LanguageCode } from './types.ts';
+
+export type { LanguageCode };
+
+export interface LanguageDefinition {
+  code: LanguageCode;
+  name: string;                // English name — used in AI prompts
+  nativeName: string;          // shown in the language selector
+  promptName: string;          // precise name for AI prompts (variant / script)
+  locale: string;              // Intl locale for dates / numbers
+  wpPrefix: string;            // Work package ID prefix (WP1, DS1 ...)
+  taskPrefix: string;          // Task ID prefix (T1.1, N1.1 ...)
+  coordinatorCode: string;     // Partner code of the lead partner (CO, KO ...)
+  keywords: string[];          // frequent words for language detection
+  specialChars?: RegExp;       // characteristic letters (global flag)
+  markers?: RegExp;            // words / letters no related language uses (global flag, weighted higher)
+}
+
+// ─── REGISTRY ────────────────────────────────────────────────────
+
+export const LANGUAGE_REGISTRY: Record<LanguageCode, LanguageDefinition> = {
+  en: {
+    code: 'en',
+    name: 'English',
+    nativeName: 'English',
+    promptName: 'English (British English)',
+    locale: 'en-GB',
+    wpPrefix: 'WP',
+    taskPrefix: 'T',
+    coordinatorCode: 'CO',
+    keywords: [
+      'project', 'objective', 'activity', 'result', 'risk', 'indicator',
+      'management', 'quality', 'analysis', 'description', 'work', 'package',
+      'duration', 'start', 'end', 'partners', 'leader', 'budget',
+      'funding', 'implementation', 'monitoring', 'reporting', 'dissemination',
+      'sustainability', 'innovation', 'impact', 'outcome', 'output', 'achievement',
+      'methodology', 'approach', 'strategy', 'communication', 'evaluation',
+      'the', 'and', 'for', 'that', 'with', 'will', 'are', 'this', 'from',
+      'has', 'have', 'been', 'not', 'but', 'which', 'their', 'can', 'into'
+    ],
+  },
+  si: {
+    code: 'si',
+    name: 'Slovenian',
+    nativeName: 'Slovenščina',
+    promptName: 'Slovenian (slovenščina)',
+    locale: 'sl-SI',
+    wpPrefix: 'DS',
+    taskPrefix: 'N',
+    coordinatorCode: 'KO',
+    keywords: [
+      'projekt', 'cilj', 'aktivnost', 'rezultat', 'tveganje', 'kazalnik',
+      'upravljanje', 'kakovost', 'analiza', 'opis', 'delovni', 'paket',
+      'trajanje', 'začetek', 'konec', 'partnerji', 'vodja', 'proračun',
+      'financiranje', 'izvedba', 'spremljanje', 'poročanje', 'diseminacija',
+      'trajnost', 'inovacija', 'vpliv', 'učinek', 'izhod', 'dosežek',
+      'metodologija', 'pristop', 'strategija', 'komunikacija', 'vrednotenje',
+      'je', 'in', 'na', 'za', 'ki', 'da', 'se', 'bo', 'so', 'ter', 'ali',
+      'lahko', 'tudi', 'pri', 'med', 'po', 'iz', 'nad', 'pod'
+    ],
+    specialChars: /[čšž]/g,
+    // Slovenian-only function words (Croatian uses će, kao, te, jer, kroz ...)
+    markers: /(?<!\p{L})(?:ki|bo|bodo|bomo|lahko|tudi|kot|ter|ker|zato|vendar|oziroma|skozi|kateri|katere|katerih|sta)(?!\p{L})/gu,
+  },
+  de: {
+    code: 'de',
+    name: 'German',
+    nativeName: 'Deutsch',
+    promptName: 'German (Deutsch)',
+    locale: 'de-DE',
+    wpPrefix: 'AP',
+    taskPrefix: 'A',
+    coordinatorCode: 'KO',
+    keywords: [
+      'projekt', 'ziel', 'ziele', 'aktivität', 'ergebnis', 'ergebnisse', 'risiko',
+      'indikator', 'qualität', 'analyse', 'beschreibung', 'arbeitspaket',
+      'dauer', 'beginn', 'ende', 'partner', 'leitung', 'budget', 'finanzierung',
+      'umsetzung', 'überwachung', 'berichterstattung', 'verbreitung',
+      'nachhaltigkeit', 'innovation', 'wirkung', 'methodik', 'ansatz', 'strategie',
+      'der', 'die', 'das', 'und', 'für', 'mit', 'von', 'wird', 'werden', 'ist',
+      'sind', 'nicht', 'auch', 'durch', 'eine', 'einen', 'zur', 'zum', 'den', 'dem'
+    ],
+    specialChars: /[äöüß]/g,
+  },
+  it: {
+    code: 'it',
+    name: 'Italian',
+    nativeName: 'Italiano',
+    promptName: 'Italian (italiano)',
+    locale: 'it-IT',
+    wpPrefix: 'WP',
+    taskPrefix: 'T',
+    coordinatorCode: 'CO',
+    keywords: [
+      'progetto', 'obiettivo', 'obiettivi', 'attività', 'risultato', 'risultati',
+      'rischio', 'indicatore', 'gestione', 'qualità', 'analisi', 'descrizione',
+      'lavoro', 'pacchetto', 'durata', 'inizio', 'fine', 'partner', 'bilancio',
+      'finanziamento', 'attuazione', 'monitoraggio', 'diffusione', 'sostenibilità',
+      'innovazione', 'impatto', 'metodologia', 'approccio', 'strategia',
+      'il', 'lo', 'la', 'gli', 'le', 'di', 'del', 'della', 'dei', 'e', 'per',
+      'con', 'che', 'sono', 'sarà', 'saranno', 'una', 'uno', 'nel', 'nella', 'non'
+    ],
+    specialChars: /[àèéìòù]/g,
+  },
+  hr: {
+    code: 'hr',
+    name: 'Croatian',
+    nativeName: 'Hrvatski',
+    promptName: 'Croatian (hrvatski)',
+    locale: 'hr-HR',
+    wpPrefix: 'RP',
+    taskPrefix: 'Z',
+    coordinatorCode: 'KO',
+    keywords: [
+      'projekt', 'cilj', 'ciljevi', 'aktivnost', 'rezultat', 'rezultati', 'rizik',
+      'pokazatelj', 'upravljanje', 'kvaliteta', 'kvalitete', 'analiza', 'opis',
+      'radni', 'paket', 'trajanje', 'početak', 'kraj', 'partneri', 'voditelj',
+      'proračun', 'financiranje', 'provedba', 'praćenje', 'izvještavanje',
+      'diseminacija', 'održivost', 'inovacija', 'utjecaj', 'učinak',
+      'metodologija', 'pristup', 'strategija', 'vrednovanje',
+      'je', 'i', 'na', 'za', 'koji', 'koja', 'koje', 'će', 'biti', 'su', 'te',
+      'ili', 'može', 'također', 'kroz', 'od', 'iz', 'u', 'kao', 'što'
+    ],
+    specialChars: /[čšžćđ]/g,
+    // ć / đ, Croatian-only function words and ijekavian forms (prije, vrijeme, tijekom, dio → dijelovi ...)
+    markers: /[ćđ]|(?<!\p{L})(?:će|što|koji|koja|koje|kojih|također|kroz|kao|jer|nije|prije|tijekom|vrijeme|dijel\p{L}*|cijel\p{L}*|svijet\p{L}*|primjen\p{L}*|procjen\p{L}*|mjer\p{L}*|uvjet\p{L}*)(?!\p{L})/gu,
+  },
+};
+
+export const DEFAULT_LANGUAGE: LanguageCode = 'en';
+
+export const SUPPORTED_LANGUAGES: LanguageCode[] = Object.keys(LANGUAGE_REGISTRY);
+
+// ─── HELPERS ─────────────────────────────────────────────────────
+
+export const isSupportedLanguage = (code: string | null | undefined): code is LanguageCode =>
+  !!code && Object.prototype.hasOwnProperty.call(LANGUAGE_REGISTRY, code);
+
+export const getLanguageDefinition = (code: LanguageCode | null | undefined): LanguageDefinition =>
+  (code && LANGUAGE_REGISTRY[code]) || LANGUAGE_REGISTRY[DEFAULT_LANGUAGE];
+
+// English name ("Slovenian") — AI prompts, logs
+export const getLanguageName = (code: LanguageCode): string =>
+  LANGUAGE_REGISTRY[code]?.name || code.toUpperCase();
+
+// Native name ("Slovenščina") — language selector
+export const getLanguageNativeName = (code: LanguageCode): string =>
+  LANGUAGE_REGISTRY[code]?.nativeName || code.toUpperCase();
+
+export const getLanguageLocale = (code: LanguageCode): string =>
+  getLanguageDefinition(code).locale;
+
+// Every other registered language, in registry order
+export const getOtherLanguages = (code: LanguageCode): LanguageCode[] =>
+  SUPPORTED_LANGUAGES.filter((l) => l !== code);
@@ -1,6 +1,12 @@
 // locales.ts
 // ═══════════════════════════════════════════════════════════════
-// UI text strings — English (en) & Slovenian (si)
+// UI text strings — English (en) & Slovenian (si) + partial locales
+// v7.1 — 2026-03-07 — Language registry (languages.ts):
+//   - PARTIAL_LOCALES for de / it / hr — incomplete on purpose
+//   - TEXT gets an entry for EVERY registered language; missing keys
+//     are filled from English (mergeWithEnglish), so TEXT[language]
+//     never returns undefined for a registered language
+//   - getText(language) for unregistered codes → English
 // v7.0 — 2026-02-22 — CHANGES:
 //   - ★ v7.0: Partners refactor:
 //     → SI: "Osebni meseci (OM)" → "Človek/mesec (ČM)" povsod
@@ -17,6 +23,8 @@
 //   - All previous v4.6 changes preserved.
 // ═══════════════════════════════════════════════════════════════
 
+import { SUPPORTED_LANGUAGES, type LanguageCode } from './languages.ts';
+
 export const TEXT = {
   en: {
     appTitle: "EU Project Idea Draft",
@@ -905,3 +913,104 @@ export const TEXT = {
     },
   },
 };
+
+// ─── PARTIAL LOCALES (v7.1) ──────────────────────────────────────
+// Only the most visible strings — everything else falls back to English.
+
+const PARTIAL_LOCALES: Record<LanguageCode, any> = {
+  de: {
+    appTitle: "EU-Projektideen-Entwurf",
+    subtitle: "10 Schlüsselschritte",
+    saveProject: "Projekt speichern",
+    importProject: "Projekt importieren",
+    exportDocx: "Als DOCX exportieren",
+    print: "Drucken",
+    add: "Hinzufügen",
+    remove: "Entfernen",
+    generateAI: "Mit KI generieren",
+    generateField: "Generieren",
+    loading: "Wird geladen...",
+    generating: "Generiere",
+    error: "Fehler",
+    title: "Titel",
+    description: "Beschreibung",
+    indicator: "Indikator",
+    startDate: "Startdatum",
+    endDate: "Enddatum",
+    milestones: "Meilensteine",
+    deliverables: "Leistungen",
+    tasks: "Aufgaben",
+    months: "Monate",
+  },
+  it: {
+    appTitle: "Bozza di idea progettuale UE",
+    subtitle: "10 passi chiave",
+    saveProject: "Salva progetto",
+    importProject: "Importa progetto",
+    exportDocx: "Esporta come DOCX",
+    print: "Stampa",
+    add: "Aggiungi",
+    remove: "Rimuovi",
+    generateAI: "Genera con IA",
+    generateField: "Genera",
+    loading: "Caricamento...",
+    generating: "Generazione",
+    error: "Errore",
+    title: "Titolo",
+    description: "Descrizione",
+    indicator: "Indicatore",
+    startDate: "Data di inizio",
+    endDate: "Data di fine",
+    milestones: "Traguardi",
+    deliverables: "Prodotti",
+    tasks: "Compiti",
+    months: "mesi",
+  },
+  hr: {
+    appTitle: "Nacrt ideje EU projekta",
+    subtitle: "10 ključnih koraka",
+    saveProject: "Spremi projekt",
+    importProject: "Uvezi projekt",
+    exportDocx: "Izvezi kao DOCX",
+    print: "Ispis",
+    add: "Dodaj",
+    remove: "Ukloni",
+    generateAI: "Generiraj s UI",
+    generateField: "Generiraj",
+    loading: "Učitavanje...",
+    generating: "Generiram",
+    error: "Pogreška",
+    title: "Naslov",
+    description: "Opis",
+    indicator: "Pokazatelj",
+    startDate: "Datum početka",
+    endDate: "Datum završetka",
+    milestones: "Ključne točke",
+    deliverables: "Isporuke",
+    tasks: "Zadaci",
+    months: "mjeseci",
+  },
+};
+
+// Deep merge: English structure, localized leaves where present
+const mergeWithEnglish = (base: any, partial: any): any => {
+  if (!partial || typeof partial !== 'object' || Array.isArray(base)) {
+    return partial !== undefined && partial !== null ? partial : base;
+  }
+  const merged: any = { ...base };
+  for (const [key, value] of Object.entries(partial)) {
+    merged[key] = base && typeof base[key] === 'object' && base[key] !== null && !Array.isArray(base[key])
+      ? mergeWithEnglish(base[key], value)
+      : value;
+  }
+  return merged;
+};
+
+for (const code of SUPPORTED_LANGUAGES) {
+  if (!(TEXT as any)[code]) {
+    (TEXT as any)[code] = mergeWithEnglish(TEXT.en, PARTIAL_LOCALES[code] || {});
+  }
+}
+
+export const getText = (language: LanguageCode): typeof TEXT.en =>
+  (TEXT as any)[language] || TEXT.en;
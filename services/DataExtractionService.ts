@@ -1,5 +1,6 @@
 // services/DataExtractionService.ts
 // ═══════════════════════════════════════════════════════════════
+// v1.9 — 2026-03-07 — Finance charts sum direct costs in EUR (directCostAmountEur)
 // v1.8 — 2026-02-25 — Finance charts in extractStructuralData (budget, partners, PM, hours)
 // v1.7 — 2026-02-25 — Reduced token budget via sectionKey 'chartExtraction' (1024 tokens)
 // v1.6 — 2026-02-25 — Lowered extraction thresholds + expanded prompt for objectives/results
@@ -20,6 +21,8 @@ import {
   CENTRALIZED_DIRECT_COSTS,
   DECENTRALIZED_DIRECT_COSTS,
 } from '../types.ts';
+import { directCostAmountEur } from './currencyService.ts';
+import type { LanguageCode } from '../languages.ts';
 
 // ─── Types ───────────────────────────────────────────────────
 
@@ -316,7 +319,7 @@ var normalizeSeverity = function (val: string | undefined): 'low' | 'medium' | '
   return null;
 };
 
-var normalizeCategory = function (val: string | undefined, language: 'en' | 'si'): string {
+var normalizeCategory = function (val: string | undefined, language: LanguageCode): string {
   if (!val) return language === 'si' ? 'Neznano' : 'Unknown';
   var v = val.toString().toLowerCase().trim();
   var catMap: Record<string, { en: string; si: string }> = {
@@ -345,7 +348,7 @@ var normalizeCategory = function (val: string | undefined, language: 'en' | 'si'
 // ─── Extract from structured project data ────────────────────
 // ★ v1.8: Added finance charts (budget overview, per WP, per partner, PM, hours, partner count)
 
-export var extractStructuralData = function (projectData: any, language: 'en' | 'si'): ExtractedChartData[] {
+export var extractStructuralData = function (projectData: any, language: LanguageCode): ExtractedChartData[] {
   if (!language) language = 'en';
   var results: ExtractedChartData[] = [];
   var si = language === 'si';
@@ -502,7 +505,7 @@ export var extractStructuralData = function (projectData: any, language: 'en' |
     var directCostDefs = fundingModel === 'centralized' ? CENTRALIZED_DIRECT_COSTS : DECENTRALIZED_DIRECT_COSTS;
     var applicableSum = (alloc.directCosts || []).reduce(function (sum: number, dc: any) {
       var catKey = dc.categoryKey || (directCostDefs[dc.categoryIndex] ? directCostDefs[dc.categoryIndex].key : '');
-      return applicableCats.includes(catKey) ? sum + (dc.amount || 0) : sum;
+      return applicableCats.includes(catKey) ? sum + directCostAmountEur(dc, projectData) : sum;
     }, 0);
     return Math.round(applicableSum * (indirectSettings.percentage / 100));
   };
@@ -513,7 +516,7 @@ export var extractStructuralData = function (projectData: any, language: 'en' |
     (wp.tasks || []).forEach(function (task: any) {
       (task.partnerAllocations || []).forEach(function (alloc: any) {
         var partner = partners.find(function (p: any) { return p.id === alloc.partnerId; });
-        var directTotal = (alloc.directCosts || []).reduce(function (sum: number, dc: any) { return sum + (dc.amount || 0); }, 0);
+        var directTotal = (alloc.directCosts || []).reduce(function (sum: number, dc: any) { return sum + directCostAmountEur(dc, projectData); }, 0);
         var indirectTotal = calcIndirect(alloc);
         allAllocations.push({
           wpId: wp.id || '',
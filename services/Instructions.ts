@@ -1,7 +1,13 @@
 // services/Instructions.ts
 // ═══════════════════════════════════════════════════════════════════
 // SINGLE SOURCE OF TRUTH for ALL AI content rules.
-// Version 7.4 – 2026-03-06
+// Version 7.6 – 2026-03-07
+// CHANGES v7.6 (2026-03-07):
+//   - NEW: LANGUAGE_DIRECTIVES for de / it / hr; getLanguageDirective() builds a
+//     generic directive from the language registry (languages.ts) for any other code
+// CHANGES v7.5 (2026-03-07):
+//   - NEW: BANNED_AI_PHRASES + getBannedAIPhrases() — machine-checkable banned phrase
+//     list consumed by qualityGateValidator.ts (programmatic QUALITY_GATES check)
 // CHANGES v7.4 (2026-03-06):
 //   - FIX: Removed last 3 "[Insert verified data/project: ...]" placeholders from
 //     SECTION_TASK_INSTRUCTIONS (problemAnalysis, projectIdea) and QUALITY_GATES (problemAnalysis)
@@ -63,6 +69,7 @@
 
 import { storageService } from './storageService';
 import { getEffectiveOverrideSync as getGlobalOverrideSync } from './globalInstructionsService.ts';
+import { getLanguageDefinition, isSupportedLanguage } from '../languages.ts';
 
 // ═══════════════════════════════════════════════════════════════════
 // SECTION 0 — INTERVENTION LOGIC FRAMEWORK
@@ -177,9 +184,44 @@ every indicator, every single text value — EXCLUSIVELY in Slovenian
 (slovenščina). Do NOT use English for ANY field value, even if the
 context below is partially or fully in English. Translate concepts
 into Slovenian; do not copy English phrases.
+═══════════════════════════════════════════════════════════════════`,
+
+  de: `═══ LANGUAGE DIRECTIVE (MANDATORY — OVERRIDES ALL OTHER INSTRUCTIONS) ═══
+You MUST write ALL output content — every title, every description,
+every indicator, every single text value — EXCLUSIVELY in German
+(Deutsch). Do NOT use English for ANY field value, even if the
+context below is partially or fully in another language. Use the
+official German EU terminology; do not copy English phrases.
+═══════════════════════════════════════════════════════════════════`,
+
+  it: `═══ LANGUAGE DIRECTIVE (MANDATORY — OVERRIDES ALL OTHER INSTRUCTIONS) ═══
+You MUST write ALL output content — every title, every description,
+every indicator, every single text value — EXCLUSIVELY in Italian
+(italiano). Do NOT use English for ANY field value, even if the
+context below is partially or fully in another language. Use the
+official Italian EU terminology; do not copy English phrases.
+═══════════════════════════════════════════════════════════════════`,
+
+  hr: `═══ LANGUAGE DIRECTIVE (MANDATORY — OVERRIDES ALL OTHER INSTRUCTIONS) ═══
+You MUST write ALL output content — every title, every description,
+every indicator, every single text value — EXCLUSIVELY in Croatian
+(hrvatski). Do NOT use English or Slovenian for ANY field value, even
+if the context below is partially or fully in another language. Use
+the official Croatian EU terminology; do not copy English phrases.
 ═══════════════════════════════════════════════════════════════════`
 };
 
+// Registered language without its own directive → generic one from the registry
+const buildGenericLanguageDirective = (language: string): string => {
+  const { promptName } = getLanguageDefinition(language);
+  return `═══ LANGUAGE DIRECTIVE (MANDATORY — OVERRIDES ALL OTHER INSTRUCTIONS) ═══
+You MUST write ALL output content — every title, every description,
+every indicator, every single text value — EXCLUSIVELY in ${promptName}.
+Do NOT use any other language for ANY field value, even if the context
+below is partially or fully in another language.
+═══════════════════════════════════════════════════════════════════`;
+};
+
 // ───────────────────────────────────────────────────────────────
 // LANGUAGE MISMATCH TEMPLATE
 // ───────────────────────────────────────────────────────────────
@@ -320,6 +362,49 @@ EU evaluators and AI detection tools easily identify machine-generated text.
 ═══════════════════════════════════════════════════════════════════`
 };
 
+// ───────────────────────────────────────────────────────────────
+// BANNED AI PHRASES — machine-checkable list (EN only)
+// ★ v7.5: Mirrors HUMANIZATION_RULES §2 — used by qualityGateValidator.ts
+// to flag generated text that still contains AI fingerprint phrases.
+// Matching is case-insensitive on whole phrases.
+// ───────────────────────────────────────────────────────────────
+
+export const BANNED_AI_PHRASES: string[] = [
+  "in today's rapidly evolving",
+  'it is important to note that',
+  'plays a crucial role',
+  'plays a pivotal role',
+  'plays a key role',
+  'aims to address',
+  'comprehensive approach',
+  'holistic approach',
+  'multifaceted approach',
+  'holistic',
+  'foster',
+  'leverage',
+  'synergy',
+  'harness',
+  'cutting-edge',
+  'paving the way for',
+  'serves as a catalyst',
+  'the landscape of',
+  'navigating the complexities',
+  'it is worth noting',
+  'a testament to',
+  'in light of the above',
+  'cannot be overstated',
+  'in an era of',
+  'in an increasingly',
+  'game-changer',
+  'paradigm shift',
+  'best practices',
+  'bridge the gap',
+  'fill the gap',
+  'address the gap',
+  'empower',
+  'unlock the potential',
+];
+
 // ───────────────────────────────────────────────────────────────
 // PROJECT TITLE RULES — EN only
 // ───────────────────────────────────────────────────────────────
@@ -1464,11 +1549,13 @@ JSON INTEGRITY RULES:
  * Returns the language directive for the given language.
  * ★ THIS IS THE ONLY FUNCTION THAT RESPECTS THE LANGUAGE PARAMETER ★
  * 'en' → write in English directive, 'si' → write in Slovenian directive.
+ * Other registered languages without an entry get a generic directive.
  */
 export function getLanguageDirective(language: string): string {
   const override = getGlobalOverrideSync('languageDirective');
   if (override) return override;
-  return LANGUAGE_DIRECTIVES[language] || LANGUAGE_DIRECTIVES['en'];
+  if (LANGUAGE_DIRECTIVES[language]) return LANGUAGE_DIRECTIVES[language];
+  return isSupportedLanguage(language) ? buildGenericLanguageDirective(language) : LANGUAGE_DIRECTIVES['en'];
 }
 
 /**
@@ -1554,6 +1641,22 @@ export function getCrossChapterGates(): string[] {
   return QUALITY_GATES['_crossChapter']?.en || [];
 }
 
+/**
+ * Returns the machine-checkable list of banned AI phrases.
+ * Used by qualityGateValidator.ts — not injected into prompts.
+ */
+export function getBannedAIPhrases(): string[] {
+  const override = getGlobalOverrideSync('bannedAIPhrases');
+  if (override) {
+    try {
+      return JSON.parse(override);
+    } catch {
+      return [override];
+    }
+  }
+  return BANNED_AI_PHRASES;
+}
+
 /**
  * Returns task instructions for a given section key.
  * Always returns .en variant.
@@ -1939,6 +2042,7 @@ export function getFullInstructions(): any {
     PROJECT_TITLE_RULES,
     MODE_INSTRUCTIONS,
     QUALITY_GATES,
+    BANNED_AI_PHRASES,
     SECTION_TASK_INSTRUCTIONS,
     CHAPTERS,
     FIELD_RULES,
@@ -1,8 +1,20 @@
 // services/aiProvider.ts
 // ═══════════════════════════════════════════════════════════════
-// Universal AI Provider Abstraction Layer – v5.8 (2026-03-06)
+// Universal AI Provider Abstraction Layer – v5.10 (2026-03-07)
 // ═══════════════════════════════════════════════════════════════
 // CHANGELOG:
+// v5.10 – NEW: Streaming generation
+//         - AIGenerateOptions: onToken(chunk, fullText) + onPartial(partial, fullText)
+//         - All adapters stream when a callback is set (Gemini generateContentStream,
+//           SSE for OpenRouter/OpenAI/OpenAI-compatible local, NDJSON for Ollama)
+//         - parsePartialJson(): best-effort parse of incomplete JSON for live preview
+//         - Streaming is opt-in — without callbacks behaviour is unchanged
+// v5.9 – NEW: Local LLM provider ('local') — configurable base URL speaking
+//         the OpenAI chat-completions API or the native Ollama API.
+//         - generateWithLocal(): same retry/queue/usage path as cloud adapters
+//         - discoverLocalModels(): GET /models (OpenAI) or /api/tags (Ollama)
+//         - API key optional; hasValidProviderKey() checks base URL instead
+//         - JSON schema coerced via schemaToTextInstruction (non-gemini path)
 // v5.8 – EO-042: Native Web Search — google_search tool for Gemini, web plugin for OpenRouter, prompt-level search enforcement
 // v5.7 – EO-031: Smart temperature defaults — differentiated per taskType/sectionKey
 //         Replaces previous global temperature=0. New function getDefaultTemperature()
@@ -220,7 +232,10 @@ export function getRateLimitStatus(): {
 
 // ─── TYPES ───────────────────────────────────────────────────────
 
-export type AIProviderType = 'gemini' | 'openrouter' | 'openai';
+export type AIProviderType = 'gemini' | 'openrouter' | 'openai' | 'local';
+
+// ★ v5.9: Wire format spoken by a local endpoint
+export type LocalApiFormat = 'openai' | 'ollama';
 
 export type AITaskType = 'generation' | 'translation' | 'chatbot' | 'field' | 'allocation' | 'summary';
 
@@ -228,6 +243,8 @@ export interface AIProviderConfig {
   provider: AIProviderType;
   apiKey: string;
   model: string;
+  baseUrl?: string;              // ★ v5.9: local provider only
+  apiFormat?: LocalApiFormat;    // ★ v5.9: local provider only
 }
 
 // ★ v5.5: Added signal?: AbortSignal
@@ -239,6 +256,10 @@ export interface AIGenerateOptions {
   sectionKey?: string;
   taskType?: AITaskType;
   signal?: AbortSignal;
+  // ★ v5.10: Streaming — called per received chunk; fullText restarts on retry
+  onToken?: (chunk: string, fullText: string) => void;
+  // ★ v5.10: Throttled; partial is undefined while the text is not yet parseable
+  onPartial?: (partial: any, fullText: string) => void;
 }
 
 export interface AIGenerateResult {
@@ -251,6 +272,7 @@ export const RECOMMENDED_LIGHT_MODELS: Record<AIProviderType, { id: string; name
   gemini:     { id: 'gemini-2.5-flash-lite',  name: 'Gemini 2.5 Flash-Lite ($0.10/1M)' },
   openai:     { id: 'gpt-4.1-nano',           name: 'GPT-4.1 Nano ($0.05/1M)' },
   openrouter: { id: 'deepseek/deepseek-v3.2', name: 'DeepSeek V3.2 (~$0.14/1M)' },
+  local:      { id: 'llama3.2:3b',            name: 'Llama 3.2 3B (local, free)' },
 };
 
 // ★ v5.5: Added 'allocation' and 'summary'
@@ -378,6 +400,17 @@ export const OPENROUTER_MODELS = [
   { id: 'mistralai/mistral-small-2503', name: '🇫🇷 Mistral Small', description: 'Lightweight — fast responses' },
 ];
 
+// ─── ★ v5.9: LOCAL LLM DEFAULTS ──────────────────────────────────
+
+export const LOCAL_DEFAULT_BASE_URLS: Record<LocalApiFormat, string> = {
+  openai: 'http://localhost:11434/v1',
+  ollama: 'http://localhost:11434',
+};
+
+function normalizeBaseUrl(url: string): string {
+  return (url || '').trim().replace(/\/+$/, '');
+}
+
 // ─── PROVIDER DETECTION ──────────────────────────────────────────
 
 export function getProviderConfig(): AIProviderConfig {
@@ -394,6 +427,16 @@ export function getProviderConfig(): AIProviderConfig {
     apiKey = storageService.getOpenRouterKey() || '';
   } else if (provider === 'openai') {
     apiKey = storageService.getOpenAIKey() || '';
+  } else if (provider === 'local') {
+    // ★ v5.9: Key is optional for local endpoints (e.g. LiteLLM/vLLM behind auth)
+    const apiFormat = storageService.getLocalApiFormat();
+    return {
+      provider,
+      apiKey: storageService.getLocalApiKey() || '',
+      model,
+      baseUrl: normalizeBaseUrl(storageService.getLocalBaseUrl() || ''),
+      apiFormat,
+    };
   }
 
   return { provider, apiKey, model };
@@ -418,6 +461,7 @@ export function getProviderConfigForTask(taskType?: AITaskType): AIProviderConfi
 export function getDefaultModel(provider: AIProviderType): string {
   if (provider === 'openrouter') return 'deepseek/deepseek-v3.2';
   if (provider === 'openai') return 'gpt-5.2';
+  if (provider === 'local') return 'llama3.1:8b';
   return 'gemini-3-pro-preview';
 }
 
@@ -428,9 +472,58 @@ export function getModelsForProvider(provider: AIProviderType): { id: string; na
   return [];
 }
 
+// ─── ★ v5.9: LOCAL MODEL DISCOVERY ───────────────────────────────
+
+export async function discoverLocalModels(
+  baseUrl: string,
+  apiFormat: LocalApiFormat = 'openai',
+  apiKey: string = ''
+): Promise<{ id: string; name: string; description: string }[]> {
+  const base = normalizeBaseUrl(baseUrl);
+  if (!base) return [];
+
+  const headers: Record<string, string> = {};
+  if (apiKey.trim()) headers['Authorization'] = `Bearer ${apiKey.trim()}`;
+
+  try {
+    if (apiFormat === 'ollama') {
+      const response = await fetch(`${base}/api/tags`, { headers });
+      if (!response.ok) return [];
+      const data = await response.json();
+      return (data.models || []).map((m: any) => ({
+        id: m.name,
+        name: m.name,
+        description: [m.details?.parameter_size, m.details?.quantization_level].filter(Boolean).join(' · '),
+      }));
+    }
+
+    const response = await fetch(`${base}/models`, { headers });
+    if (!response.ok) return [];
+    const data = await response.json();
+    return (data.data || []).map((m: any) => ({
+      id: m.id,
+      name: m.id,
+      description: m.owned_by || '',
+    }));
+  } catch (error) {
+    console.warn(`[aiProvider] Local model discovery failed for ${base}:`, error);
+    return [];
+  }
+}
+
 // ─── VALIDATION ──────────────────────────────────────────────────
 
 export async function validateProviderKey(provider: AIProviderType, apiKey: string): Promise<boolean> {
+  // ★ v5.9: Local endpoint — "valid" means reachable and serving at least one model
+  if (provider === 'local') {
+    const models = await discoverLocalModels(
+      storageService.getLocalBaseUrl() || '',
+      storageService.getLocalApiFormat(),
+      apiKey || ''
+    );
+    return models.length > 0;
+  }
+
   if (!apiKey || apiKey.trim().length < 10) return false;
 
   try {
@@ -477,6 +570,9 @@ export function hasValidProviderKey(): boolean {
   if (config.provider === 'openai') {
     return config.apiKey.startsWith('sk-') && config.apiKey.length >= 20;
   }
+  if (config.provider === 'local') {
+    return !!config.baseUrl;
+  }
   return false;
 }
 
@@ -496,7 +592,8 @@ export async function generateContent(options: AIGenerateOptions): Promise<AIGen
     ? getProviderConfigForTask(options.taskType)
     : getProviderConfig();
 
-  if (!config.apiKey) {
+  // ★ v5.9: Local provider needs a base URL, not a key
+  if (config.provider === 'local' ? !config.baseUrl : !config.apiKey) {
     throw new Error('MISSING_API_KEY');
   }
 
@@ -522,6 +619,9 @@ export async function generateContent(options: AIGenerateOptions): Promise<AIGen
       if (config.provider === 'openai') {
         return generateWithOpenAI(config, options);
       }
+      if (config.provider === 'local') {
+        return generateWithLocal(config, options);
+      }
       throw new Error(`Unknown AI provider: ${config.provider}`);
     }, context, options.signal);
 
@@ -560,6 +660,138 @@ export async function generateContent(options: AIGenerateOptions): Promise<AIGen
   }
 }
 
+// ─── ★ v5.10: STREAMING HELPERS ──────────────────────────────────
+
+const PARTIAL_PARSE_INTERVAL_MS = 300;
+
+function isStreamingRequested(options: AIGenerateOptions): boolean {
+  return !!(options.onToken || options.onPartial);
+}
+
+// Closes any open string/object/array so an incomplete JSON prefix can be parsed
+function closeOpenJson(src: string): string {
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '{') stack.push('}');
+    else if (ch === '[') stack.push(']');
+    else if (ch === '}' || ch === ']') stack.pop();
+  }
+
+  let out = src;
+  if (inString) {
+    if (escaped) out = out.slice(0, -1);
+    out += '"';
+  }
+  out = out.replace(/[\s,:]+$/, '');
+  return out + stack.reverse().join('');
+}
+
+/**
+ * Best-effort parse of an incomplete JSON document (e.g. a stream in progress).
+ * Trailing incomplete members are dropped. Returns undefined if nothing parses.
+ */
+export function parsePartialJson(text: string): any {
+  let src = (text || '').replace(/^\s*```(?:json)?\s*/, '').replace(/```\s*$/, '');
+  for (let attempt = 0; attempt < 6 && src.trim().length > 0; attempt++) {
+    try {
+      return JSON.parse(closeOpenJson(src));
+    } catch {
+      const cut = Math.max(src.lastIndexOf(','), src.lastIndexOf('{'), src.lastIndexOf('['));
+      if (cut <= 0) return undefined;
+      src = src.substring(0, src[cut] === ',' ? cut : cut + 1);
+    }
+  }
+  return undefined;
+}
+
+// Accumulates streamed chunks and fans them out to onToken/onPartial
+function createStreamEmitter(options: AIGenerateOptions): { push: (chunk: string) => void; finish: () => string } {
+  const wantsJson = !!(options.jsonSchema || options.jsonMode);
+  let fullText = '';
+  let lastPartialAt = 0;
+
+  const emitPartial = () => {
+    if (!options.onPartial) return;
+    lastPartialAt = Date.now();
+    try {
+      options.onPartial(wantsJson ? parsePartialJson(fullText) : undefined, fullText);
+    } catch (e) { console.warn('[aiProvider] onPartial listener error:', e); }
+  };
+
+  return {
+    push(chunk: string) {
+      if (!chunk) return;
+      fullText += chunk;
+      if (options.onToken) {
+        try { options.onToken(chunk, fullText); } catch (e) { console.warn('[aiProvider] onToken listener error:', e); }
+      }
+      if (Date.now() - lastPartialAt >= PARTIAL_PARSE_INTERVAL_MS) emitPartial();
+    },
+    finish() {
+      emitPartial();
+      return fullText.trim();
+    },
+  };
+}
+
+// Reads a fetch() body line by line (SSE and NDJSON are both line-based)
+async function readStreamLines(response: Response, onLine: (line: string) => void, signal?: AbortSignal): Promise<void> {
+  if (!response.body) throw new Error('Streaming not supported by this browser');
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    if (signal?.aborted) {
+      reader.cancel().catch(() => {});
+      throw new DOMException('Generation cancelled', 'AbortError');
+    }
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    let newlineIdx: number;
+    while ((newlineIdx = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.substring(0, newlineIdx).trim();
+      buffer = buffer.substring(newlineIdx + 1);
+      if (line) onLine(line);
+    }
+  }
+  buffer += decoder.decode();
+  if (buffer.trim()) onLine(buffer.trim());
+}
+
+// OpenAI chat-completions SSE: "data: {...choices[0].delta.content...}" … "data: [DONE]"
+async function readChatCompletionStream(
+  response: Response,
+  options: AIGenerateOptions,
+  provider: string
+): Promise<string> {
+  const emitter = createStreamEmitter(options);
+  await readStreamLines(response, (line) => {
+    if (!line.startsWith('data:')) return;  // SSE comments / keep-alives
+    const payload = line.substring(5).trim();
+    if (payload === '[DONE]') return;
+    let json: any;
+    try { json = JSON.parse(payload); } catch { return; }
+    if (json.error) {
+      throw new Error(`SERVER_ERROR|${provider}|${json.error.message || JSON.stringify(json.error).substring(0, 200)}`);
+    }
+    emitter.push(json.choices?.[0]?.delta?.content || '');
+  }, options.signal);
+  return emitter.finish();
+}
+
 // ─── ★ v5.8 EO-042: Web Search — eligibility + enforcement prompt ──
 
 const WEB_SEARCH_EXCLUDED_SECTIONS = new Set([
@@ -608,6 +840,21 @@ async function generateWithGemini(config: AIProviderConfig, options: AIGenerateO
   }
 
   try {
+    // ★ v5.10: Streaming
+    if (isStreamingRequested(options)) {
+      const stream = await client.models.generateContentStream({
+        model: config.model,
+        contents: geminiPrompt,
+        config: Object.keys(generateConfig).length > 0 ? generateConfig : undefined,
+      });
+      const emitter = createStreamEmitter(options);
+      for await (const chunk of stream) {
+        if (options.signal?.aborted) throw new DOMException('Generation cancelled', 'AbortError');
+        emitter.push(chunk.text || '');
+      }
+      return { text: emitter.finish() };
+    }
+
     const response = await client.models.generateContent({
       model: config.model,
       contents: geminiPrompt,
@@ -670,6 +917,10 @@ async function generateWithOpenRouter(config: AIProviderConfig, options: AIGener
     console.log('[aiProvider] v5.8 OpenRouter web plugin ENABLED for section: ' + (options.sectionKey || 'unknown'));
   }
 
+  if (isStreamingRequested(options)) {
+    body.stream = true;  // ★ v5.10
+  }
+
   try {
     const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
       method: 'POST',
@@ -696,6 +947,13 @@ async function generateWithOpenRouter(config: AIProviderConfig, options: AIGener
       throw new Error(`UNKNOWN_ERROR|openrouter|HTTP ${response.status}: ${errorMsg}`);
     }
 
+    // ★ v5.10: Streaming
+    if (body.stream) {
+      const streamed = await readChatCompletionStream(response, options, 'openrouter');
+      if (!streamed) throw new Error('OpenRouter returned empty response');
+      return { text: streamed };
+    }
+
     const data = await response.json();
     const text = data.choices?.[0]?.message?.content?.trim() || '';
 
@@ -760,6 +1018,10 @@ async function generateWithOpenAI(config: AIProviderConfig, options: AIGenerateO
     body.temperature = options.temperature;
   }
 
+  if (isStreamingRequested(options)) {
+    body.stream = true;  // ★ v5.10
+  }
+
   try {
     const response = await fetch('https://api.openai.com/v1/chat/completions', {
       method: 'POST',
@@ -784,6 +1046,13 @@ async function generateWithOpenAI(config: AIProviderConfig, options: AIGenerateO
       throw new Error(`UNKNOWN_ERROR|openai|HTTP ${response.status}: ${errorMsg}`);
     }
 
+    // ★ v5.10: Streaming
+    if (body.stream) {
+      const streamed = await readChatCompletionStream(response, options, 'openai');
+      if (!streamed) throw new Error('OpenAI returned empty response');
+      return { text: streamed };
+    }
+
     const data = await response.json();
     const text = data.choices?.[0]?.message?.content?.trim() || '';
 
@@ -814,6 +1083,119 @@ async function generateWithOpenAI(config: AIProviderConfig, options: AIGenerateO
   }
 }
 
+// ─── ★ v5.9: LOCAL LLM ADAPTER (Ollama / OpenAI-compatible) ──────
+// No web search; JSON schema is already inlined into the prompt by
+// schemaToTextInstruction() because provider !== 'gemini'.
+
+async function generateWithLocal(config: AIProviderConfig, options: AIGenerateOptions): Promise<AIGenerateResult> {
+  if (options.signal?.aborted) throw new DOMException('Generation cancelled', 'AbortError');
+
+  const messages: any[] = [];
+
+  if (options.jsonSchema || options.jsonMode) {
+    messages.push({
+      role: 'system',
+      content: OPENROUTER_SYSTEM_PROMPT
+    });
+  }
+
+  messages.push({ role: 'user', content: options.prompt });
+
+  const maxTokens = getMaxTokensForSection(options.sectionKey);
+  const isOllama = config.apiFormat === 'ollama';
+  const wantsJson = !!(options.jsonSchema || options.jsonMode);
+
+  const url = isOllama ? `${config.baseUrl}/api/chat` : `${config.baseUrl}/chat/completions`;
+  const body: any = isOllama
+    ? {
+        model: config.model,
+        messages: messages,
+        options: {
+          num_predict: maxTokens,
+          ...(options.temperature !== undefined ? { temperature: options.temperature } : {}),
+        },
+        ...(wantsJson ? { format: 'json' } : {}),
+      }
+    : {
+        model: config.model,
+        messages: messages,
+        max_tokens: maxTokens,
+        ...(options.temperature !== undefined ? { temperature: options.temperature } : {}),
+        ...(wantsJson ? { response_format: { type: 'json_object' } } : {}),
+      };
+
+  // ★ v5.10: Streaming (Ollama streams NDJSON, OpenAI-compatible streams SSE)
+  const streaming = isStreamingRequested(options);
+  body.stream = streaming;
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (config.apiKey) headers['Authorization'] = `Bearer ${config.apiKey}`;
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal: options.signal,
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      const errorMsg = errorData?.error?.message || errorData?.error || `HTTP ${response.status}`;
+
+      if (response.status === 401 || response.status === 403) throw new Error('MISSING_API_KEY');
+      if (response.status === 404) throw new Error(`UNKNOWN_ERROR|local|Model ${config.model} not found at ${config.baseUrl}. ${errorMsg}`);
+      if (response.status === 429) throw new Error(`RATE_LIMIT|local|Rate limit reached for model ${config.model}. ${errorMsg}`);
+      if (response.status === 503) throw new Error(`MODEL_OVERLOADED|local|Model ${config.model} is temporarily unavailable. ${errorMsg}`);
+      if (response.status === 500 || response.status === 502) throw new Error(`SERVER_ERROR|local|${errorMsg}`);
+      if (response.status === 408) throw new Error(`TIMEOUT|local|Request timed out. ${errorMsg}`);
+      throw new Error(`UNKNOWN_ERROR|local|HTTP ${response.status}: ${errorMsg}`);
+    }
+
+    if (streaming) {
+      let streamed = '';
+      if (isOllama) {
+        const emitter = createStreamEmitter(options);
+        await readStreamLines(response, (line) => {
+          let json: any;
+          try { json = JSON.parse(line); } catch { return; }
+          if (json.error) throw new Error(`SERVER_ERROR|local|${json.error}`);
+          emitter.push(json.message?.content || '');
+        }, options.signal);
+        streamed = emitter.finish();
+      } else {
+        streamed = await readChatCompletionStream(response, options, 'local');
+      }
+      if (!streamed) throw new Error('Local model returned empty response');
+      return { text: streamed };
+    }
+
+    const data = await response.json();
+    const text = (isOllama
+      ? data.message?.content
+      : data.choices?.[0]?.message?.content)?.trim() || '';
+
+    if (!text) {
+      throw new Error('Local model returned empty response');
+    }
+
+    return { text };
+  } catch (e: any) {
+    if (e.name === 'AbortError') throw e;
+
+    if (e.message === 'MISSING_API_KEY' ||
+        e.message?.startsWith('RATE_LIMIT|') ||
+        e.message?.startsWith('MODEL_OVERLOADED|') ||
+        e.message?.startsWith('SERVER_ERROR|') ||
+        e.message?.startsWith('TIMEOUT|') ||
+        e.message?.startsWith('UNKNOWN_ERROR|')) {
+      throw e;
+    }
+    handleProviderError(e, 'local');
+    throw e;
+  }
+}
+
 // ─── ERROR HANDLING ──────────────────────────────────────────────
 // ★ v5.5: Added AbortError recognition at the top
 
@@ -0,0 +1,165 @@
+// services/aiSuggestionService.ts
+// ═══════════════════════════════════════════════════════════════
+// AI output as reviewable suggestions instead of direct overwrites.
+// v1.0 — 2026-03-07
+// v1.1 — 2026-03-07 — formatFieldPath(): editor path → suggestion path,
+//   so a field can show its own suggestion inline
+//
+// FEATURES:
+//   - buildSuggestions(): diffs current ProjectData against the AI
+//     proposal (projectDiffService, index matching) and groups the
+//     result into suggestions:
+//       → modified leaf            = one suggestion per field
+//       → added / removed item     = one suggestion per item
+//   - applySuggestion(): applies ONE suggestion to the current data
+//     (value copied from the proposal; removed array items spliced out)
+//   - Suggestion keys are derived from type + value, so a rejected
+//     suggestion stays rejected after other suggestions shift indices
+//   - suggestionsRequireReview(): only proposals that touch existing
+//     content (modified / removed) need a review — pure additions into
+//     empty fields are committed directly by useGeneration
+//
+// Suggestions are always recomputed from (current, proposal), so an
+// accepted suggestion disappears by itself on the next render.
+// ═══════════════════════════════════════════════════════════════
+
+import { diffProjectData, type ProjectDiffChangeType, type ProjectDiffEntry } from './projectDiffService.ts';
+import { set } from '../utils.ts';
+
+// ─── TYPES ───────────────────────────────────────────────────────
+
+export interface AISuggestion {
+  key: string;
+  section: string;
+  path: string;                 // field path, or item path for added / removed items
+  label: string;
+  type: ProjectDiffChangeType;
+  fields: ProjectDiffEntry[];   // underlying diff entries (1 for a modified field)
+}
+
+// ─── HELPERS ─────────────────────────────────────────────────────
+
+const hashString = (str: string): string => {
+  let hash = 0;
+  for (let i = 0; i < str.length; i++) {
+    hash = ((hash << 5) - hash) + str.charCodeAt(i);
+    hash |= 0;
+  }
+  return hash.toString(36);
+};
+
+const parsePath = (path: string): (string | number)[] =>
+  path
+    .replace(/\[(\d+)\]/g, '.$1')
+    .split('.')
+    .filter((p) => p.length > 0)
+    .map((p) => (/^\d+$/.test(p) ? Number(p) : p));
+
+const getAt = (obj: any, segments: (string | number)[]): any => {
+  let current = obj;
+  for (const seg of segments) {
+    if (current === null || current === undefined) return undefined;
+    current = current[seg as any];
+  }
+  return current;
+};
+
+// ['activities', 1, 'tasks', 0, 'title'] → 'activities[1].tasks[0].title'
+export const formatFieldPath = (segments: (string | number)[]): string =>
+  segments.reduce<string>((acc, seg) => {
+    if (typeof seg === 'number' || /^\d+$/.test(String(seg))) return `${acc}[${seg}]`;
+    return acc ? `${acc}.${seg}` : String(seg);
+  }, '');
+
+const deepClone = (value: any): any => (value === undefined ? undefined : JSON.parse(JSON.stringify(value)));
+
+// ─── BUILD ───────────────────────────────────────────────────────
+
+export const buildSuggestions = (currentData: any, proposedData: any): AISuggestion[] => {
+  const diff = diffProjectData(currentData, proposedData, { matchBy: 'index' });
+  const suggestions: AISuggestion[] = [];
+  const byRoot = new Map<string, AISuggestion>();
+
+  for (const entry of diff.entries) {
+    if (entry.type === 'modified' || !entry.rootPath) {
+      suggestions.push({
+        key: `${entry.type}:${entry.path}:${hashString(entry.newValue || entry.oldValue || '')}`,
+        section: entry.section,
+        path: entry.path,
+        label: entry.label,
+        type: entry.type,
+        fields: [entry],
+      });
+      continue;
+    }
+
+    const groupKey = `${entry.type}:${entry.rootPath}`;
+    const existing = byRoot.get(groupKey);
+    if (existing) {
+      existing.fields.push(entry);
+      continue;
+    }
+    const suggestion: AISuggestion = {
+      key: '',
+      section: entry.section,
+      path: entry.rootPath,
+      label: entry.rootLabel || entry.label,
+      type: entry.type,
+      fields: [entry],
+    };
+    byRoot.set(groupKey, suggestion);
+    suggestions.push(suggestion);
+  }
+
+  // Added / removed keys: value-based (index independent)
+  for (const s of suggestions) {
+    if (s.key) continue;
+    const source = s.type === 'added' ? proposedData : currentData;
+    s.key = `${s.type}:${s.section}:${hashString(JSON.stringify(getAt(source, parsePath(s.path)) ?? ''))}`;
+  }
+
+  return suggestions;
+};
+
+export const suggestionsRequireReview = (suggestions: AISuggestion[]): boolean =>
+  suggestions.some((s) => s.type !== 'added');
+
+// ─── APPLY ───────────────────────────────────────────────────────
+
+export const applySuggestion = (currentData: any, proposedData: any, suggestion: AISuggestion): any => {
+  const segments = parsePath(suggestion.path);
+  if (segments.length === 0) return currentData;
+
+  const parentSegments = segments.slice(0, -1);
+  const last = segments[segments.length - 1];
+  const parent = getAt(currentData, parentSegments);
+  const proposedValue = getAt(proposedData, segments);
+
+  // Removed item that no longer exists in the proposal → drop it
+  if (suggestion.type === 'removed' && proposedValue === undefined) {
+    if (Array.isArray(parent) && typeof last === 'number') {
+      return set(currentData, parentSegments, parent.filter((_: any, idx: number) => idx !== last));
+    }
+    if (parent && typeof parent === 'object') {
+      const { [last]: _removed, ...rest } = parent;
+      return set(currentData, parentSegments, rest);
+    }
+    return currentData;
+  }
+
+  // Added array item beyond the current end (an earlier one was rejected) → append
+  if (suggestion.type === 'added' && Array.isArray(parent) && typeof last === 'number' && last > parent.length) {
+    return set(currentData, parentSegments, [...parent, deepClone(proposedValue)]);
+  }
+
+  return set(currentData, segments, deepClone(proposedValue ?? ''));
+};
+
+export const applySuggestions = (currentData: any, proposedData: any, suggestions: AISuggestion[]): any => {
+  // Removals last and from the highest index down, so earlier paths stay valid
+  const ordered = [
+    ...suggestions.filter((s) => s.type !== 'removed'),
+    ...suggestions.filter((s) => s.type === 'removed').reverse(),
+  ];
+  return ordered.reduce((data, s) => applySuggestion(data, proposedData, s), currentData);
+};
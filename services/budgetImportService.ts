@@ -0,0 +1,355 @@
+// services/budgetImportService.ts
+// ═══════════════════════════════════════════════════════════════
+// XLSX budget import into task partner allocations.
+// v1.1 — 2026-03-07 — Hours taken once per task × partner (sheets repeat them
+//   on every cost line); rows that disagree get a warning. Before totals in EUR.
+// v1.0 — 2026-03-07
+//
+// FLOW (BudgetImportModal):
+//   1. readXlsx() → rows of one sheet
+//   2. guessBudgetMapping() proposes columns from the header row,
+//      the user corrects them
+//   3. parseBudgetRows() validates every row against the project:
+//        → partner: code or name of an existing partner
+//        → task: task ID (T1.1 / N1.1 / 1.1), optionally checked
+//          against the WP column
+//        → category: key or EN / SI label of either funding model,
+//          remapped to the current model (normalizeCostCategoryKey)
+//   4. buildBudgetImport() → new activities + change preview
+//
+// MERGE RULES (per task × partner pair found in the file):
+//   - hours / PM of the first row that has them → replace hours (not
+//     summed: a sheet may repeat them on every cost line; other rows with
+//     a different value get a warning); pm recomputed as
+//     hours / PM_HOURS_PER_MONTH (PM only → hours = PM × 143)
+//   - cost rows given → replace directCosts (one item per category)
+//   - allocations not in the file stay unchanged
+// ═══════════════════════════════════════════════════════════════
+
+import {
+  PM_HOURS_PER_MONTH,
+  CENTRALIZED_DIRECT_COSTS,
+  DECENTRALIZED_DIRECT_COSTS,
+  type DirectCostItem,
+  type TaskPartnerAllocation,
+} from '../types.ts';
+import { getDirectCostDefs, normalizeCostCategoryKey, UNCATEGORIZED_COST_KEY } from './budgetService.ts';
+import { directCostAmountEur } from './currencyService.ts';
+import type { XlsxValue } from './xlsxService.ts';
+import type { LanguageCode } from '../languages.ts';
+
+// ─── TYPES ───────────────────────────────────────────────────────
+
+export type BudgetImportField = 'partner' | 'wp' | 'task' | 'hours' | 'pm' | 'category' | 'amount';
+
+// Column index per field, -1 = not in the file
+export type BudgetImportMapping = Record<BudgetImportField, number>;
+
+export interface BudgetImportLine {
+  rowNumber: number;            // 1-based spreadsheet row
+  partnerId: string;
+  partnerCode: string;
+  wpId: string;
+  taskId: string;
+  hours: number | null;
+  pm: number | null;
+  categoryKey: string | null;
+  amount: number | null;
+}
+
+export interface BudgetImportIssue {
+  rowNumber: number;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface BudgetImportChange {
+  wpId: string;
+  taskId: string;
+  partnerId: string;
+  partnerCode: string;
+  isNew: boolean;
+  before: { pm: number; directTotal: number } | null;
+  after: { hours: number; pm: number; directTotal: number };
+}
+
+export const BUDGET_IMPORT_FIELDS: { field: BudgetImportField; required: boolean; en: string; si: string }[] = [
+  { field: 'partner', required: true, en: 'Partner (code or name)', si: 'Partner (oznaka ali ime)' },
+  { field: 'wp', required: false, en: 'Work package ID', si: 'Oznaka delovnega sklopa' },
+  { field: 'task', required: true, en: 'Task ID', si: 'Oznaka naloge' },
+  { field: 'hours', required: false, en: 'Hours', si: 'Ure' },
+  { field: 'pm', required: false, en: 'Person-months', si: 'Osebni meseci' },
+  { field: 'category', required: false, en: 'Cost category', si: 'Kategorija stroška' },
+  { field: 'amount', required: false, en: 'Amount (€)', si: 'Znesek (€)' },
+];
+
+export const EMPTY_BUDGET_MAPPING: BudgetImportMapping = {
+  partner: -1, wp: -1, task: -1, hours: -1, pm: -1, category: -1, amount: -1,
+};
+
+// ─── HELPERS ─────────────────────────────────────────────────────
+
+const HEADER_HINTS: Record<BudgetImportField, RegExp> = {
+  partner: /partner|beneficiar|upravičen/i,
+  wp: /^wp|work\s*package|delovni\s*sklop|^ds\b/i,
+  task: /task|naloga|^t\s*id/i,
+  hours: /hour|^ure|^h$/i,
+  pm: /^pm$|person.?month|osebn.*mesec|^om$/i,
+  category: /categor|kategorij|cost\s*type|vrsta/i,
+  amount: /amount|znesek|€|eur|cost$|strošek$/i,
+};
+
+const cellText = (value: XlsxValue | undefined): string =>
+  value === null || value === undefined ? '' : String(value).trim();
+
+// Numbers from cells: 1234.5, "1.234,50 €", "1,234.50", "12 000"
+export const parseSpreadsheetNumber = (value: XlsxValue | undefined): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'boolean' || value === null || value === undefined) return null;
+  let str = value.replace(/[€\s]|EUR/gi, '');
+  if (!str) return null;
+  const lastComma = str.lastIndexOf(',');
+  const lastDot = str.lastIndexOf('.');
+  if (lastComma > -1 && lastDot > -1) {
+    str = lastComma > lastDot ? str.replace(/\./g, '').replace(',', '.') : str.replace(/,/g, '');
+  } else if (lastComma > -1) {
+    // "1,5" = decimal comma, "12,000" / "1,200,000" = thousands separators
+    const commas = (str.match(/,/g) || []).length;
+    str = commas > 1 || /,\d{3}$/.test(str) ? str.replace(/,/g, '') : str.replace(',', '.');
+  } else if ((str.match(/\./g) || []).length > 1) {
+    str = str.replace(/\./g, '');
+  }
+  const n = Number(str);
+  return Number.isFinite(n) ? n : null;
+};
+
+// "T1.1", "N1.1", "Task 1.1" → "1.1"
+const taskNumber = (id: string): string => id.replace(/^[^\d]*/, '').trim();
+
+export const guessBudgetMapping = (header: XlsxValue[]): BudgetImportMapping => {
+  const mapping: BudgetImportMapping = { ...EMPTY_BUDGET_MAPPING };
+  header.forEach((cell, idx) => {
+    const text = cellText(cell);
+    if (!text) return;
+    for (const { field } of BUDGET_IMPORT_FIELDS) {
+      if (mapping[field] === -1 && HEADER_HINTS[field].test(text)) {
+        mapping[field] = idx;
+        return;
+      }
+    }
+  });
+  return mapping;
+};
+
+// ─── VALIDATION ──────────────────────────────────────────────────
+
+export const parseBudgetRows = (
+  rows: XlsxValue[][],
+  mapping: BudgetImportMapping,
+  projectData: any,
+  options: { hasHeader: boolean; language: LanguageCode }
+): { lines: BudgetImportLine[]; issues: BudgetImportIssue[] } => {
+  const si = options.language === 'si';
+  const partners = Array.isArray(projectData?.partners) ? projectData.partners : [];
+  const activities = Array.isArray(projectData?.activities) ? projectData.activities : [];
+  const fundingModel = projectData?.fundingModel;
+
+  const tasks = activities.flatMap((wp: any) =>
+    (wp.tasks || []).map((task: any) => ({ wpId: wp.id as string, taskId: task.id as string })));
+
+  const findPartner = (text: string) => {
+    const lower = text.toLowerCase();
+    return partners.find((p: any) => (p.code || '').toLowerCase() === lower)
+      || partners.find((p: any) => (p.name || '').trim().toLowerCase() === lower);
+  };
+
+  const findTask = (text: string) => {
+    const lower = text.toLowerCase();
+    const exact = tasks.find((t) => (t.taskId || '').toLowerCase() === lower);
+    if (exact) return exact;
+    const byNumber = tasks.filter((t) => taskNumber(t.taskId || '') === taskNumber(text));
+    return byNumber.length === 1 ? byNumber[0] : undefined;
+  };
+
+  const allCategoryDefs = [...CENTRALIZED_DIRECT_COSTS, ...DECENTRALIZED_DIRECT_COSTS];
+  const findCategory = (text: string): string | null => {
+    const lower = text.toLowerCase();
+    const def = allCategoryDefs.find((c) =>
+      c.key.toLowerCase() === lower || c.en.toLowerCase() === lower || c.si.toLowerCase() === lower);
+    if (!def) return null;
+    const key = normalizeCostCategoryKey({ categoryKey: def.key }, fundingModel);
+    return key === UNCATEGORIZED_COST_KEY ? null : key;
+  };
+
+  const get = (row: XlsxValue[], field: BudgetImportField): XlsxValue | undefined =>
+    mapping[field] >= 0 ? row[mapping[field]] : undefined;
+
+  const lines: BudgetImportLine[] = [];
+  const issues: BudgetImportIssue[] = [];
+
+  rows.forEach((row, idx) => {
+    if (options.hasHeader && idx === 0) return;
+    const rowNumber = idx + 1;
+    if (!row || row.every((v) => cellText(v) === '')) return;
+
+    const error = (message: string) => issues.push({ rowNumber, severity: 'error', message });
+
+    const partnerText = cellText(get(row, 'partner'));
+    const taskText = cellText(get(row, 'task'));
+    const wpText = cellText(get(row, 'wp'));
+    const categoryText = cellText(get(row, 'category'));
+    const hours = parseSpreadsheetNumber(get(row, 'hours'));
+    const pm = parseSpreadsheetNumber(get(row, 'pm'));
+    const amount = parseSpreadsheetNumber(get(row, 'amount'));
+
+    const partner = partnerText ? findPartner(partnerText) : undefined;
+    if (!partnerText) return error(si ? 'Manjka partner.' : 'Partner is missing.');
+    if (!partner) return error(si ? `Neznan partner "${partnerText}".` : `Unknown partner "${partnerText}".`);
+
+    if (!taskText) return error(si ? 'Manjka oznaka naloge.' : 'Task ID is missing.');
+    const task = findTask(taskText);
+    if (!task) return error(si ? `Neznana naloga "${taskText}".` : `Unknown task "${taskText}".`);
+    if (wpText && wpText.toLowerCase() !== (task.wpId || '').toLowerCase() && taskNumber(wpText) !== taskNumber(task.wpId || '')) {
+      return error(si
+        ? `Naloga ${task.taskId} ne spada v ${wpText} (temveč v ${task.wpId}).`
+        : `Task ${task.taskId} does not belong to ${wpText} (it is in ${task.wpId}).`);
+    }
+
+    let categoryKey: string | null = null;
+    if (categoryText) {
+      categoryKey = findCategory(categoryText);
+      if (!categoryKey) return error(si ? `Neznana kategorija stroška "${categoryText}".` : `Unknown cost category "${categoryText}".`);
+      if (amount === null) return error(si ? 'Kategorija brez zneska.' : 'Cost category without an amount.');
+    } else if (amount !== null && amount !== 0) {
+      return error(si ? 'Znesek brez kategorije stroška.' : 'Amount without a cost category.');
+    }
+
+    if ([hours, pm, amount].some((n) => n !== null && n < 0)) {
+      return error(si ? 'Negativne vrednosti niso dovoljene.' : 'Negative values are not allowed.');
+    }
+    if (hours === null && pm === null && !categoryKey) {
+      issues.push({ rowNumber, severity: 'warning', message: si ? 'Vrstica nima ur, OM ali stroškov — preskočeno.' : 'Row has no hours, PM or costs — skipped.' });
+      return;
+    }
+
+    lines.push({
+      rowNumber,
+      partnerId: partner.id,
+      partnerCode: partner.code || '?',
+      wpId: task.wpId,
+      taskId: task.taskId,
+      hours,
+      pm,
+      categoryKey,
+      amount: categoryKey ? amount : null,
+    });
+  });
+
+  // Hours are taken once per task × partner — flag rows that disagree with the first one
+  const firstHours = new Map<string, BudgetImportLine>();
+  lines.forEach((line) => {
+    const hours = lineHours(line);
+    if (hours === null) return;
+    const key = `${line.taskId}::${line.partnerId}`;
+    const first = firstHours.get(key);
+    if (!first) {
+      firstHours.set(key, line);
+    } else if (Math.round(hours) !== Math.round(lineHours(first)!)) {
+      issues.push({
+        rowNumber: line.rowNumber,
+        severity: 'warning',
+        message: si
+          ? `Ure za ${line.partnerCode} / ${line.taskId} se razlikujejo od vrstice ${first.rowNumber} — uporabljene so ure iz vrstice ${first.rowNumber}.`
+          : `Hours for ${line.partnerCode} / ${line.taskId} differ from row ${first.rowNumber} — the hours of row ${first.rowNumber} are used.`,
+      });
+    }
+  });
+  issues.sort((a, b) => a.rowNumber - b.rowNumber);
+
+  return { lines, issues };
+};
+
+// Hours of one line: explicit hours win, PM converted otherwise; null = none given
+const lineHours = (line: BudgetImportLine): number | null =>
+  line.hours !== null ? line.hours : line.pm !== null ? line.pm * PM_HOURS_PER_MONTH : null;
+
+// ─── APPLY ───────────────────────────────────────────────────────
+
+export const buildBudgetImport = (
+  projectData: any,
+  lines: BudgetImportLine[],
+  language: LanguageCode
+): { activities: any[]; changes: BudgetImportChange[] } => {
+  const lang = language === 'si' ? 'si' : 'en';
+  const categoryDefs = getDirectCostDefs(projectData?.fundingModel);
+  const activities = JSON.parse(JSON.stringify(Array.isArray(projectData?.activities) ? projectData.activities : []));
+
+  // Group lines per task × partner, in file order
+  const groups = new Map<string, BudgetImportLine[]>();
+  lines.forEach((line) => {
+    const key = `${line.taskId}::${line.partnerId}`;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(line);
+  });
+
+  const changes: BudgetImportChange[] = [];
+  const stamp = Date.now();
+  let counter = 0;
+
+  groups.forEach((group) => {
+    const { wpId, taskId, partnerId, partnerCode } = group[0];
+    const wp = activities.find((w: any) => w.id === wpId);
+    const task = wp?.tasks?.find((t: any) => t.id === taskId);
+    if (!task) return;
+    if (!Array.isArray(task.partnerAllocations)) task.partnerAllocations = [];
+
+    const existing: TaskPartnerAllocation | undefined = task.partnerAllocations.find((a: any) => a.partnerId === partnerId);
+    const before = existing
+      ? { pm: existing.pm || 0, directTotal: (existing.directCosts || []).reduce((s, dc) => s + directCostAmountEur(dc, projectData), 0) }
+      : null;
+
+    // Hours: first line that has them (differing rows were flagged by parseBudgetRows)
+    const hoursLine = group.find((l) => lineHours(l) !== null);
+    const hours = Math.round(hoursLine ? lineHours(hoursLine)! : existing?.hours || 0);
+    const pm = parseFloat((hours / PM_HOURS_PER_MONTH).toFixed(2));
+
+    // Direct costs: one item per category
+    const costLines = group.filter((l) => l.categoryKey);
+    let directCosts: DirectCostItem[] = existing?.directCosts || [];
+    if (costLines.length > 0) {
+      const byCategory = new Map<string, number>();
+      costLines.forEach((l) => byCategory.set(l.categoryKey!, (byCategory.get(l.categoryKey!) || 0) + (l.amount || 0)));
+      directCosts = Array.from(byCategory.entries()).map(([categoryKey, amount]) => ({
+        id: `dc-import-${stamp}-${counter++}`,
+        categoryKey,
+        name: categoryDefs.find((c) => c.key === categoryKey)?.[lang] || categoryKey,
+        amount: Math.round(amount * 100) / 100,
+      }));
+    }
+    const totalDirectCost = directCosts.reduce((s, dc) => s + directCostAmountEur(dc, projectData), 0);
+
+    const allocation: TaskPartnerAllocation = {
+      ...(existing || {}),
+      partnerId,
+      hours,
+      pm,
+      directCosts,
+      totalDirectCost,
+      totalCost: totalDirectCost,
+    };
+    if (existing) {
+      task.partnerAllocations = task.partnerAllocations.map((a: any) => (a.partnerId === partnerId ? allocation : a));
+    } else {
+      task.partnerAllocations.push(allocation);
+    }
+
+    changes.push({
+      wpId, taskId, partnerId, partnerCode,
+      isNew: !existing,
+      before,
+      after: { hours, pm, directTotal: totalDirectCost },
+    });
+  });
+
+  return { activities, changes };
+};
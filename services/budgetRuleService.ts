@@ -0,0 +1,418 @@
+// services/budgetRuleService.ts
+// ═══════════════════════════════════════════════════════════════
+// Declarative budget rules — funding-programme constraints checked
+// against the budget allocations.
+// v1.2 — 2026-03-07 — Rule categories resolved per funding model by meaning
+//   (RULE_CATEGORY_EQUIVALENTS), not by the positional item remap — a rule
+//   whose capped categories have no counterpart (Interreg travel cap in a
+//   decentralized budget) is skipped and marked as not applicable
+// v1.1 — 2026-03-07 — costModels rule sums offending items in EUR
+// v1.0 — 2026-03-07
+//
+// FEATURES:
+//   - BUDGET_RULE_PRESETS: Horizon Europe, Interreg, Erasmus+ — copied
+//     into ProjectData.budgetRules and editable afterwards
+//   - evaluateBudgetRules(): runs every enabled rule on
+//     collectBudgetAllocations() (budgetService) and reports one
+//     violation per offending project / partner / WP / category
+//   - describeBudgetRule(): one-line text of a rule for the UI
+//   - Rule category keys are resolved to the project funding model
+//     (resolveRuleCategories), so presets written with centralized
+//     keys also work for decentralized projects
+// ═══════════════════════════════════════════════════════════════
+
+import {
+  collectBudgetAllocations,
+  getDirectCostDefs,
+  normalizeCostCategoryKey,
+  type BudgetAllocationRow,
+} from './budgetService.ts';
+import { directCostAmountEur } from './currencyService.ts';
+import type {
+  BudgetRule,
+  BudgetRuleSettings,
+  BudgetRuleScope,
+  BudgetRuleSeverity,
+  BudgetRuleType,
+  CostModelType,
+} from '../types.ts';
+
+// ─── TYPES ───────────────────────────────────────────────────────
+
+export interface BudgetRulePreset {
+  id: string;
+  name: string;
+  description: { en: string; si: string };
+  rules: Omit<BudgetRule, 'id'>[];
+}
+
+export interface BudgetRuleViolation {
+  ruleId: string;
+  ruleType: BudgetRuleType;
+  severity: BudgetRuleSeverity;
+  partnerCode: string | null;
+  wpId: string | null;
+  category: string | null;      // normalized category key
+  actual: number;
+  limit: number;
+  unit: 'eur' | 'percent';
+  message: string;
+}
+
+export interface BudgetComplianceReport {
+  rulesEvaluated: number;
+  errorCount: number;
+  warningCount: number;
+  violations: BudgetRuleViolation[];
+}
+
+// ─── PRESETS ─────────────────────────────────────────────────────
+// Keys are centralized-model category keys. Values are the usual
+// programme defaults — check the call document and adjust per call.
+
+const ALL_EXCEPT_SUBCONTRACTING = ['labourCosts', 'travelCosts', 'materials', 'depreciationEquipment', 'otherProjectCosts', 'investmentCosts'];
+const EQUIPMENT = ['depreciationEquipment', 'investmentCosts'];
+
+export const BUDGET_RULE_PRESETS: BudgetRulePreset[] = [
+  {
+    id: 'horizonEurope',
+    name: 'Horizon Europe',
+    description: {
+      en: '25% flat-rate indirect costs on direct costs excluding subcontracting; equipment only as depreciation; subcontracting kept a minor part.',
+      si: '25 % pavšal posrednih stroškov na neposredne stroške brez podizvajalcev; oprema le kot amortizacija; podizvajalci le manjši del.',
+    },
+    rules: [
+      { type: 'indirectRate', enabled: true, severity: 'error', percentage: 25, baseCategories: ALL_EXCEPT_SUBCONTRACTING },
+      { type: 'maxAmount', enabled: true, severity: 'error', scope: 'project', categories: ['investmentCosts'], amount: 0 },
+      { type: 'maxShare', enabled: true, severity: 'warning', scope: 'project', categories: ['subContractorCosts'], percentage: 30 },
+      { type: 'partnerShare', enabled: true, severity: 'warning', minPercentage: 2 },
+    ],
+  },
+  {
+    id: 'interreg',
+    name: 'Interreg',
+    description: {
+      en: 'Office and administration 15% of staff costs, travel up to 15% of staff costs per partner, equipment capped per partner.',
+      si: 'Pisarniški in administrativni stroški 15 % stroškov osebja, potni stroški do 15 % stroškov osebja na partnerja, omejitev opreme na partnerja.',
+    },
+    rules: [
+      { type: 'indirectRate', enabled: true, severity: 'error', percentage: 15, baseCategories: ['labourCosts'] },
+      { type: 'maxShare', enabled: true, severity: 'error', scope: 'partner', categories: ['travelCosts'], baseCategories: ['labourCosts'], percentage: 15 },
+      { type: 'maxShare', enabled: true, severity: 'warning', scope: 'partner', categories: EQUIPMENT, percentage: 20 },
+      { type: 'partnerShare', enabled: true, severity: 'warning', minPercentage: 5 },
+    ],
+  },
+  {
+    id: 'erasmusPlus',
+    name: 'Erasmus+',
+    description: {
+      en: 'Unit costs and lump sums only, 7% indirect costs, equipment up to 35% of direct costs.',
+      si: 'Le stroški na enoto in pavšali, 7 % posrednih stroškov, oprema do 35 % neposrednih stroškov.',
+    },
+    rules: [
+      { type: 'costModels', enabled: true, severity: 'error', costModels: ['unit', 'lumpSum'] },
+      { type: 'indirectRate', enabled: true, severity: 'error', percentage: 7 },
+      { type: 'maxShare', enabled: true, severity: 'warning', scope: 'project', categories: EQUIPMENT, percentage: 35 },
+    ],
+  },
+];
+
+const newRuleId = (): string => 'rule-' + Date.now().toString(36) + '-' + Math.random().toString(36).slice(2, 7);
+
+export const applyBudgetRulePreset = (presetId: string): BudgetRuleSettings => {
+  const preset = BUDGET_RULE_PRESETS.find((p) => p.id === presetId);
+  if (!preset) return { presetId: null, rules: [] };
+  return {
+    presetId: preset.id,
+    rules: preset.rules.map((rule) => ({
+      ...rule,
+      id: newRuleId(),
+      ...(rule.categories ? { categories: [...rule.categories] } : {}),
+      ...(rule.baseCategories ? { baseCategories: [...rule.baseCategories] } : {}),
+      ...(rule.costModels ? { costModels: [...rule.costModels] } : {}),
+    })),
+  };
+};
+
+// Defaults for a rule added by hand
+export const createBudgetRule = (type: BudgetRuleType): BudgetRule => {
+  const base = { id: newRuleId(), type, enabled: true, severity: 'warning' as BudgetRuleSeverity };
+  switch (type) {
+    case 'indirectRate': return { ...base, percentage: 25 };
+    case 'maxShare': return { ...base, scope: 'project', categories: ['subContractorCosts'], percentage: 30 };
+    case 'maxAmount': return { ...base, scope: 'partner', categories: ['investmentCosts'], amount: 50000 };
+    case 'partnerShare': return { ...base, minPercentage: 5 };
+    case 'costModels': return { ...base, costModels: ['unit', 'lumpSum'] };
+  }
+};
+
+// ─── HELPERS ─────────────────────────────────────────────────────
+
+const fmtEur = (n: number): string =>
+  '€' + (Math.round(n * 100) / 100).toLocaleString('de-DE', { minimumFractionDigits: 0, maximumFractionDigits: 2 });
+
+const fmtPct = (n: number): string => `${Math.round(n * 10) / 10}%`;
+
+// Centralized category → decentralized categories of the same kind of cost.
+// Unlike the item remap in budgetService (position based, travelCosts → vat),
+// categories without a counterpart map to nothing.
+const RULE_CATEGORY_EQUIVALENTS: Record<string, string[]> = {
+  labourCosts: ['salariesReimbursements'],
+  subContractorCosts: ['externalServiceCosts'],
+  travelCosts: [],
+  materials: [],
+  depreciationEquipment: ['depreciationBasicAssets'],
+  investmentCosts: ['tangibleAssetInvestment', 'intangibleAssetInvestment'],
+  otherProjectCosts: ['infoCommunication'],
+};
+
+const RULE_CATEGORY_EQUIVALENTS_REVERSE: Record<string, string[]> = {};
+Object.entries(RULE_CATEGORY_EQUIVALENTS).forEach(([central, decentral]) =>
+  decentral.forEach((d) => { (RULE_CATEGORY_EQUIVALENTS_REVERSE[d] ||= []).push(central); }));
+
+export const resolveRuleCategories = (keys: string[] | undefined, fundingModel: any): string[] => {
+  const defs = getDirectCostDefs(fundingModel);
+  const equivalents = fundingModel === 'decentralized' ? RULE_CATEGORY_EQUIVALENTS : RULE_CATEGORY_EQUIVALENTS_REVERSE;
+  return Array.from(new Set((keys || []).flatMap((k) =>
+    defs.some((d) => d.key === k) ? [k] : (equivalents[k] || []))));
+};
+
+// A rule that caps specific categories none of which exist in the funding model
+export const isBudgetRuleApplicable = (rule: BudgetRule, fundingModel: any): boolean =>
+  !(rule.categories && rule.categories.length > 0 && resolveRuleCategories(rule.categories, fundingModel).length === 0);
+
+const categoryName = (key: string, fundingModel: any, language: string): string => {
+  const def = getDirectCostDefs(fundingModel).find((d) => d.key === key);
+  if (!def) return key;
+  return language === 'si' ? def.si : def.en;
+};
+
+const categoriesLabel = (keys: string[], fundingModel: any, language: string): string =>
+  keys.length === 0
+    ? (language === 'si' ? 'vsi neposredni stroški' : 'all direct costs')
+    : keys.map((k) => categoryName(k, fundingModel, language)).join(' + ');
+
+// Σ of the given categories; every direct cost when the list is empty
+const sumCategories = (rows: BudgetAllocationRow[], keys: string[]): number =>
+  rows.reduce((sum, row) => sum + (keys.length === 0
+    ? row.directTotal
+    : keys.reduce((s, k) => s + (row.directByCategory[k] || 0), 0)), 0);
+
+const groupRows = (rows: BudgetAllocationRow[], scope: BudgetRuleScope): { partnerCode: string | null; wpId: string | null; rows: BudgetAllocationRow[] }[] => {
+  if (scope === 'project') return [{ partnerCode: null, wpId: null, rows }];
+  const groups = new Map<string, { partnerCode: string | null; wpId: string | null; rows: BudgetAllocationRow[] }>();
+  rows.forEach((row) => {
+    const key = scope === 'partner' ? row.partnerId : row.wpId;
+    if (!groups.has(key)) {
+      groups.set(key, { partnerCode: scope === 'partner' ? row.partnerCode : null, wpId: scope === 'wp' ? row.wpId : null, rows: [] });
+    }
+    groups.get(key)!.rows.push(row);
+  });
+  return Array.from(groups.values());
+};
+
+const scopeLabel = (group: { partnerCode: string | null; wpId: string | null }, language: string): string =>
+  group.partnerCode ? group.partnerCode : group.wpId ? group.wpId : (language === 'si' ? 'Projekt' : 'Project');
+
+const COST_MODEL_LABEL: Record<CostModelType, { en: string; si: string }> = {
+  actual: { en: 'actual costs', si: 'dejanski stroški' },
+  unit: { en: 'unit costs', si: 'stroški na enoto' },
+  lumpSum: { en: 'lump sum', si: 'pavšalni znesek' },
+  flatRate: { en: 'flat rate', si: 'pavšalna stopnja' },
+};
+
+// ─── DESCRIPTION ─────────────────────────────────────────────────
+
+export const describeBudgetRule = (rule: BudgetRule, fundingModel: any, language: string = 'en'): string => {
+  const si = language === 'si';
+  if (!isBudgetRuleApplicable(rule, fundingModel)) {
+    const missing = (rule.categories || []).map((k) => categoryName(k, 'centralized', language)).join(' + ');
+    return si
+      ? `${missing} — ni uporabno: model financiranja nima te kategorije`
+      : `${missing} — not applicable: the funding model has no such category`;
+  }
+  const scope = rule.scope || 'project';
+  const per = scope === 'partner' ? (si ? ' na partnerja' : ' per partner') : scope === 'wp' ? (si ? ' na DS' : ' per WP') : '';
+  const cats = categoriesLabel(resolveRuleCategories(rule.categories, fundingModel), fundingModel, language);
+  const base = categoriesLabel(resolveRuleCategories(rule.baseCategories, fundingModel), fundingModel, language);
+  switch (rule.type) {
+    case 'indirectRate':
+      return si
+        ? `Posredni stroški največ ${rule.percentage ?? 0} % na: ${base}`
+        : `Indirect costs at most ${rule.percentage ?? 0}% of: ${base}`;
+    case 'maxShare':
+      return si
+        ? `${cats} največ ${rule.percentage ?? 0} % od: ${base}${per}`
+        : `${cats} at most ${rule.percentage ?? 0}% of ${base}${per}`;
+    case 'maxAmount':
+      return si
+        ? `${cats} največ ${fmtEur(rule.amount ?? 0)}${per}`
+        : `${cats} at most ${fmtEur(rule.amount ?? 0)}${per}`;
+    case 'partnerShare': {
+      const parts: string[] = [];
+      if (rule.minPercentage) parts.push(si ? `najmanj ${rule.minPercentage} %` : `at least ${rule.minPercentage}%`);
+      if (rule.maxPercentage) parts.push(si ? `največ ${rule.maxPercentage} %` : `at most ${rule.maxPercentage}%`);
+      return si
+        ? `Delež vsakega partnerja v proračunu: ${parts.join(', ') || '—'}`
+        : `Each partner's share of the budget: ${parts.join(', ') || '—'}`;
+    }
+    case 'costModels': {
+      const models = (rule.costModels || []).map((m) => COST_MODEL_LABEL[m]?.[si ? 'si' : 'en'] || m).join(' / ');
+      return si ? `${cats}: dovoljeno le ${models}` : `${cats}: only ${models}`;
+    }
+  }
+  return rule.type;
+};
+
+
+// ─── EVALUATION ──────────────────────────────────────────────────
+
+export const evaluateBudgetRules = (projectData: any, language: string = 'en', rules?: BudgetRule[]): BudgetComplianceReport => {
+  const si = language === 'si';
+  const fundingModel = projectData?.fundingModel || 'centralized';
+  const active = (rules || projectData?.budgetRules?.rules || [])
+    .filter((r: BudgetRule) => r && r.enabled && isBudgetRuleApplicable(r, fundingModel));
+  const rows = collectBudgetAllocations(projectData);
+  const violations: BudgetRuleViolation[] = [];
+
+  const push = (rule: BudgetRule, v: Omit<BudgetRuleViolation, 'ruleId' | 'ruleType' | 'severity'>) =>
+    violations.push({ ruleId: rule.id, ruleType: rule.type, severity: rule.severity || 'error', ...v });
+
+  active.forEach((rule: BudgetRule) => {
+    const cats = resolveRuleCategories(rule.categories, fundingModel);
+    const baseCats = resolveRuleCategories(rule.baseCategories, fundingModel);
+
+    switch (rule.type) {
+      case 'indirectRate': {
+        const settings = projectData?.indirectCostSettings || { percentage: 0, appliesToCategories: [] };
+        const limit = rule.percentage ?? 0;
+        if ((settings.percentage || 0) > limit) {
+          push(rule, {
+            partnerCode: null, wpId: null, category: null, actual: settings.percentage, limit, unit: 'percent',
+            message: si
+              ? `Posredni stroški ${fmtPct(settings.percentage)} presegajo dovoljenih ${fmtPct(limit)}.`
+              : `Indirect rate ${fmtPct(settings.percentage)} exceeds the allowed ${fmtPct(limit)}.`,
+          });
+        }
+        if (baseCats.length > 0 && settings.percentage > 0) {
+          resolveRuleCategories(settings.appliesToCategories, fundingModel)
+            .filter((k) => !baseCats.includes(k))
+            .forEach((k) => {
+              const amount = sumCategories(rows, [k]);
+              push(rule, {
+                partnerCode: null, wpId: null, category: k, actual: amount, limit: 0, unit: 'eur',
+                message: si
+                  ? `Posredni stroški se obračunavajo tudi na "${categoryName(k, fundingModel, language)}" (${fmtEur(amount)}), ki ni v osnovi za pavšal.`
+                  : `Indirect costs are also charged on "${categoryName(k, fundingModel, language)}" (${fmtEur(amount)}), which is not in the flat-rate base.`,
+              });
+            });
+        }
+        break;
+      }
+
+      case 'maxShare': {
+        const pct = rule.percentage ?? 0;
+        groupRows(rows, rule.scope || 'project').forEach((group) => {
+          const value = sumCategories(group.rows, cats);
+          if (value <= 0) return;
+          const base = sumCategories(group.rows, baseCats);
+          const share = base > 0 ? (value / base) * 100 : Infinity;
+          if (share <= pct + 1e-9) return;
+          push(rule, {
+            partnerCode: group.partnerCode, wpId: group.wpId, category: cats.length === 1 ? cats[0] : null,
+            actual: isFinite(share) ? share : 100, limit: pct, unit: 'percent',
+            message: si
+              ? `${scopeLabel(group, language)}: ${categoriesLabel(cats, fundingModel, language)} ${fmtEur(value)} = ${isFinite(share) ? fmtPct(share) : '∞'} od ${categoriesLabel(baseCats, fundingModel, language)} (${fmtEur(base)}), dovoljeno ${fmtPct(pct)}.`
+              : `${scopeLabel(group, language)}: ${categoriesLabel(cats, fundingModel, language)} ${fmtEur(value)} = ${isFinite(share) ? fmtPct(share) : '∞'} of ${categoriesLabel(baseCats, fundingModel, language)} (${fmtEur(base)}), allowed ${fmtPct(pct)}.`,
+          });
+        });
+        break;
+      }
+
+      case 'maxAmount': {
+        const limit = rule.amount ?? 0;
+        groupRows(rows, rule.scope || 'project').forEach((group) => {
+          const value = sumCategories(group.rows, cats);
+          if (value <= limit) return;
+          push(rule, {
+            partnerCode: group.partnerCode, wpId: group.wpId, category: cats.length === 1 ? cats[0] : null,
+            actual: value, limit, unit: 'eur',
+            message: si
+              ? `${scopeLabel(group, language)}: ${categoriesLabel(cats, fundingModel, language)} ${fmtEur(value)} presega omejitev ${fmtEur(limit)}.`
+              : `${scopeLabel(group, language)}: ${categoriesLabel(cats, fundingModel, language)} ${fmtEur(value)} exceeds the cap of ${fmtEur(limit)}.`,
+          });
+        });
+        break;
+      }
+
+      case 'partnerShare': {
+        const total = rows.reduce((s, r) => s + r.total, 0);
+        if (total <= 0) break;
+        const partners = Array.isArray(projectData?.partners) ? projectData.partners : [];
+        partners.forEach((partner: any) => {
+          const partnerTotal = rows.filter((r) => r.partnerId === partner.id).reduce((s, r) => s + r.total, 0);
+          const share = (partnerTotal / total) * 100;
+          const code = partner.code || '?';
+          if (rule.minPercentage && share < rule.minPercentage) {
+            push(rule, {
+              partnerCode: code, wpId: null, category: null, actual: share, limit: rule.minPercentage, unit: 'percent',
+              message: si
+                ? `${code}: delež ${fmtPct(share)} (${fmtEur(partnerTotal)}) je pod najmanjšim ${fmtPct(rule.minPercentage)}.`
+                : `${code}: share ${fmtPct(share)} (${fmtEur(partnerTotal)}) is below the minimum ${fmtPct(rule.minPercentage)}.`,
+            });
+          }
+          if (rule.maxPercentage && share > rule.maxPercentage) {
+            push(rule, {
+              partnerCode: code, wpId: null, category: null, actual: share, limit: rule.maxPercentage, unit: 'percent',
+              message: si
+                ? `${code}: delež ${fmtPct(share)} (${fmtEur(partnerTotal)}) presega največji ${fmtPct(rule.maxPercentage)}.`
+                : `${code}: share ${fmtPct(share)} (${fmtEur(partnerTotal)}) exceeds the maximum ${fmtPct(rule.maxPercentage)}.`,
+            });
+          }
+        });
+        break;
+      }
+
+      case 'costModels': {
+        // Needs the individual cost items, so it walks the activities itself
+        const allowed = new Set(rule.costModels || []);
+        const partners = Array.isArray(projectData?.partners) ? projectData.partners : [];
+        const offending = new Map<string, { partnerCode: string; wpId: string; category: string; amount: number; count: number }>();
+        (projectData?.activities || []).forEach((wp: any) => {
+          (wp.tasks || []).forEach((task: any) => {
+            (task.partnerAllocations || []).forEach((alloc: any) => {
+              (alloc.directCosts || []).forEach((dc: any) => {
+                const key = normalizeCostCategoryKey(dc, fundingModel);
+                if (cats.length > 0 && !cats.includes(key)) return;
+                if (allowed.has(dc.costModel || 'actual') || !(dc.amount > 0)) return;
+                const partnerCode = partners.find((p: any) => p.id === alloc.partnerId)?.code || '?';
+                const id = `${partnerCode}|${wp.id}|${key}`;
+                const entry = offending.get(id) || { partnerCode, wpId: wp.id, category: key, amount: 0, count: 0 };
+                entry.amount += directCostAmountEur(dc, projectData);
+                entry.count += 1;
+                offending.set(id, entry);
+              });
+            });
+          });
+        });
+        const models = (rule.costModels || []).map((m) => COST_MODEL_LABEL[m]?.[si ? 'si' : 'en'] || m).join(' / ');
+        offending.forEach((entry) => {
+          push(rule, {
+            partnerCode: entry.partnerCode, wpId: entry.wpId, category: entry.category, actual: entry.amount, limit: 0, unit: 'eur',
+            message: si
+              ? `${entry.partnerCode} / ${entry.wpId}: ${entry.count}× "${categoryName(entry.category, fundingModel, language)}" (${fmtEur(entry.amount)}) ni obračunano kot ${models}.`
+              : `${entry.partnerCode} / ${entry.wpId}: ${entry.count}× "${categoryName(entry.category, fundingModel, language)}" (${fmtEur(entry.amount)}) not costed as ${models}.`,
+          });
+        });
+        break;
+      }
+    }
+  });
+
+  return {
+    rulesEvaluated: active.length,
+    errorCount: violations.filter((v) => v.severity === 'error').length,
+    warningCount: violations.filter((v) => v.severity === 'warning').length,
+    violations,
+  };
+};
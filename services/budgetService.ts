@@ -0,0 +1,210 @@
+// services/budgetService.ts
+// ═══════════════════════════════════════════════════════════════
+// Budget aggregation — same rules as renderFinance (ProjectDisplay).
+// v1.2 — 2026-03-07 — Multi-currency: every sum uses directCostAmountEur()
+//   (currencyService), so totals are in EUR whatever the item currency
+// v1.1 — 2026-03-07 — Co-financing: funding rate per partner, EU vs own contribution
+//   - DEFAULT_FUNDING_RATES by programme (budgetRules.presetId) and PartnerType
+//   - computeFundingSummary(): requested EU contribution / partner
+//     co-financing per partner, per WP and in total
+// v1.0 — 2026-03-07
+//
+// FEATURES:
+//   - getDirectCostDefs(): cost categories of the project funding model
+//   - normalizeCostCategoryKey(): categoryKey / legacy categoryIndex,
+//     keys of the other funding model remapped to the current one
+//   - calcIndirectForAllocation(): indirectCostSettings.percentage on the
+//     applicable direct cost categories, rounded per allocation
+//   - collectBudgetAllocations(): one row per task × partner allocation
+//     with direct costs split by category
+//   - Used by budgetXlsxService; renderFinance keeps its own inline copy
+// ═══════════════════════════════════════════════════════════════
+
+import {
+  CENTRALIZED_DIRECT_COSTS,
+  DECENTRALIZED_DIRECT_COSTS,
+  type FundingModel,
+  type PartnerType,
+} from '../types.ts';
+import { directCostAmountEur } from './currencyService.ts';
+
+// ─── TYPES ───────────────────────────────────────────────────────
+
+export interface CostCategoryDef {
+  key: string;
+  en: string;
+  si: string;
+}
+
+export interface BudgetAllocationRow {
+  wpId: string;
+  wpTitle: string;
+  taskId: string;
+  taskTitle: string;
+  partnerId: string;
+  partnerCode: string;
+  hours: number;
+  pm: number;
+  directByCategory: Record<string, number>;   // normalized category key → amount
+  directTotal: number;
+  indirectTotal: number;
+  total: number;
+}
+
+export interface FundingLine {
+  id: string;               // partner id / WP id
+  code: string;             // partner code / WP id
+  title: string;            // partner name / WP title
+  fundingRate: number | null; // partner rate; null for WPs (mixed rates)
+  total: number;
+  euContribution: number;
+  ownContribution: number;
+}
+
+export interface FundingSummary {
+  partners: FundingLine[];
+  workPackages: FundingLine[];
+  total: number;
+  euContribution: number;
+  ownContribution: number;
+  effectiveRate: number;    // euContribution / total in %
+}
+
+// Key for direct costs without a (known) category
+export const UNCATEGORIZED_COST_KEY = '_uncategorized';
+
+// ─── CATEGORIES ──────────────────────────────────────────────────
+
+const CENTRAL_TO_DECENTRAL: Record<string, string> = {
+  labourCosts: 'salariesReimbursements',
+  subContractorCosts: 'externalServiceCosts',
+  travelCosts: 'vat',
+  depreciationEquipment: 'depreciationBasicAssets',
+  investmentCosts: 'tangibleAssetInvestment',
+  materials: 'intangibleAssetInvestment',
+  otherProjectCosts: 'infoCommunication',
+};
+
+const DECENTRAL_TO_CENTRAL: Record<string, string> = Object.fromEntries(
+  Object.entries(CENTRAL_TO_DECENTRAL).map(([c, d]) => [d, c])
+);
+
+export const getDirectCostDefs = (fundingModel: FundingModel | string | undefined): CostCategoryDef[] =>
+  fundingModel === 'decentralized' ? DECENTRALIZED_DIRECT_COSTS : CENTRALIZED_DIRECT_COSTS;
+
+export const normalizeCostCategoryKey = (dc: any, fundingModel: FundingModel | string | undefined): string => {
+  const defs = getDirectCostDefs(fundingModel);
+  const rawKey = dc?.categoryKey || defs[dc?.categoryIndex]?.key || '';
+  const remap = fundingModel === 'decentralized' ? CENTRAL_TO_DECENTRAL : DECENTRAL_TO_CENTRAL;
+  const key = remap[rawKey] || rawKey;
+  return defs.some((d) => d.key === key) ? key : UNCATEGORIZED_COST_KEY;
+};
+
+// ─── CALCULATION ─────────────────────────────────────────────────
+
+export const calcIndirectForAllocation = (alloc: any, projectData: any): number => {
+  const settings = projectData?.indirectCostSettings || { percentage: 0, appliesToCategories: [] };
+  if (!settings.percentage || settings.percentage <= 0) return 0;
+  const applicable = new Set(settings.appliesToCategories || []);
+  if (applicable.size === 0) return 0;
+
+  const applicableDirectSum = (alloc.directCosts || []).reduce((sum: number, dc: any) =>
+    applicable.has(normalizeCostCategoryKey(dc, projectData.fundingModel)) ? sum + directCostAmountEur(dc, projectData) : sum, 0);
+
+  return Math.round(applicableDirectSum * (settings.percentage / 100));
+};
+
+export const collectBudgetAllocations = (projectData: any): BudgetAllocationRow[] => {
+  const partners = Array.isArray(projectData?.partners) ? projectData.partners : [];
+  const activities = Array.isArray(projectData?.activities) ? projectData.activities : [];
+  const rows: BudgetAllocationRow[] = [];
+
+  activities.forEach((wp: any) => {
+    (wp.tasks || []).forEach((task: any) => {
+      (task.partnerAllocations || []).forEach((alloc: any) => {
+        const partner = partners.find((p: any) => p.id === alloc.partnerId);
+        const directByCategory: Record<string, number> = {};
+        (alloc.directCosts || []).forEach((dc: any) => {
+          const key = normalizeCostCategoryKey(dc, projectData.fundingModel);
+          directByCategory[key] = (directByCategory[key] || 0) + directCostAmountEur(dc, projectData);
+        });
+        const directTotal = (alloc.directCosts || []).reduce((sum: number, dc: any) => sum + directCostAmountEur(dc, projectData), 0);
+        const indirectTotal = calcIndirectForAllocation(alloc, projectData);
+        rows.push({
+          wpId: wp.id, wpTitle: wp.title || '',
+          taskId: task.id, taskTitle: task.title || '',
+          partnerId: alloc.partnerId, partnerCode: partner?.code || '?',
+          hours: alloc.hours || 0, pm: alloc.pm || 0,
+          directByCategory, directTotal, indirectTotal, total: directTotal + indirectTotal,
+        });
+      });
+    });
+  });
+
+  return rows;
+};
+
+// ─── CO-FINANCING ────────────────────────────────────────────────
+// Programme ids match BUDGET_RULE_PRESETS (budgetRuleService); 'default'
+// applies when no preset is chosen. Rates are % of eligible costs.
+
+export const DEFAULT_FUNDING_RATES: Record<string, { default: number } & Partial<Record<PartnerType, number>>> = {
+  default: { default: 85, sme: 70, largeEnterprise: 50 },
+  horizonEurope: { default: 100, sme: 70, largeEnterprise: 70 },
+  interreg: { default: 80 },
+  erasmusPlus: { default: 80 },
+};
+
+export const getDefaultFundingRate = (partnerType: PartnerType | string | undefined, programmeId: string | null | undefined): number => {
+  const rates = DEFAULT_FUNDING_RATES[programmeId || 'default'] || DEFAULT_FUNDING_RATES.default;
+  const byType = partnerType ? rates[partnerType as PartnerType] : undefined;
+  return byType ?? rates.default;
+};
+
+export const getPartnerFundingRate = (partner: any, projectData: any): number => {
+  const rate = partner?.fundingRate;
+  if (typeof rate === 'number' && !isNaN(rate)) return Math.min(100, Math.max(0, rate));
+  return getDefaultFundingRate(partner?.partnerType, projectData?.budgetRules?.presetId);
+};
+
+export const computeFundingSummary = (projectData: any): FundingSummary => {
+  const partners = Array.isArray(projectData?.partners) ? projectData.partners : [];
+  const rows = collectBudgetAllocations(projectData);
+  const rateById = new Map<string, number>(partners.map((p: any) => [p.id, getPartnerFundingRate(p, projectData)] as [string, number]));
+
+  const partnerLines = new Map<string, FundingLine>();
+  partners.forEach((p: any) => partnerLines.set(p.id, {
+    id: p.id, code: p.code || '?', title: p.name || '', fundingRate: rateById.get(p.id) ?? 0,
+    total: 0, euContribution: 0, ownContribution: 0,
+  }));
+  const wpLines = new Map<string, FundingLine>();
+
+  rows.forEach((row) => {
+    const rate = rateById.get(row.partnerId) ?? getDefaultFundingRate(undefined, projectData?.budgetRules?.presetId);
+    const eu = Math.round(row.total * rate / 100);
+    const add = (line: FundingLine) => {
+      line.total += row.total;
+      line.euContribution += eu;
+      line.ownContribution += row.total - eu;
+    };
+    if (!partnerLines.has(row.partnerId)) {
+      partnerLines.set(row.partnerId, { id: row.partnerId, code: row.partnerCode, title: '', fundingRate: rate, total: 0, euContribution: 0, ownContribution: 0 });
+    }
+    add(partnerLines.get(row.partnerId)!);
+    if (!wpLines.has(row.wpId)) {
+      wpLines.set(row.wpId, { id: row.wpId, code: row.wpId, title: row.wpTitle, fundingRate: null, total: 0, euContribution: 0, ownContribution: 0 });
+    }
+    add(wpLines.get(row.wpId)!);
+  });
+
+  const total = rows.reduce((s, r) => s + r.total, 0);
+  const euContribution = Array.from(partnerLines.values()).reduce((s, l) => s + l.euContribution, 0);
+  return {
+    partners: Array.from(partnerLines.values()),
+    workPackages: Array.from(wpLines.values()),
+    total,
+    euContribution,
+    ownContribution: total - euContribution,
+    effectiveRate: total > 0 ? (euContribution / total) * 100 : 0,
+  };
+};
@@ -0,0 +1,444 @@
+// services/budgetXlsxService.ts
+// ═══════════════════════════════════════════════════════════════
+// Budget workbook (XLSX) export for budget officers.
+// v1.4 — 2026-03-07 — Currencies sheet: original amounts without the € format, currency codes normalized
+// v1.3 — 2026-03-07 — Currencies sheet: exchange rates + non-EUR cost items, EUR = ROUND(amount / rate, 2)
+// v1.2 — 2026-03-07 — Unit costs sheet: catalogue-based cost items, amount = units × rate
+// v1.1 — 2026-03-07 — Lump-sum mode: sheets 5–6 (lumpSumService)
+// v1.0 — 2026-03-07
+//
+// SHEETS:
+//   1. Summary          — per partner PM / direct / indirect / total /
+//                         share, every value a formula into sheets 2–4
+//   2. Person-months    — partner × WP person-months, SUM totals
+//   3. Cost categories  — partner × direct cost category, SUM totals
+//   4. Indirect costs   — rate cell + "applies" flag per category;
+//                         indirect = ROUND(Σ category × flag × rate, 0)
+//   5. Lump sum breakdown — WP × partner lump shares, SUM totals
+//   6. Detailed budget  — per partner cost groups A–E, total, rate,
+//                         max. EU contribution = ROUND(total × rate, 0),
+//                         lump sum from sheet 5
+//   Sheets 5–6 only when ProjectData.budgetMode === 'lumpSum'.
+//   +  Unit costs       — every cost item priced from the unit-cost
+//                         catalogue: units, unit, rate, ROUND(units × rate, 2)
+//   +  Currencies       — exchange-rate table (1 EUR = rate × currency)
+//                         and every non-EUR cost item: original amount,
+//                         rate from the table, EUR = ROUND(amount / rate, 2)
+//   All other sheets show amounts already converted to EUR.
+//
+// Changing the rate, a flag or an amount in Excel recalculates the
+// whole workbook. Note: the Finance view rounds indirect costs per
+// allocation, the workbook per partner — totals can differ by a few €.
+// ═══════════════════════════════════════════════════════════════
+
+import { buildXlsx, cellRef, sheetRef, sanitizeSheetName, XLSX_STYLE, type XlsxRow, type XlsxSheet } from './xlsxService.ts';
+import {
+  collectBudgetAllocations,
+  getDirectCostDefs,
+  UNCATEGORIZED_COST_KEY,
+  type BudgetAllocationRow,
+} from './budgetService.ts';
+import { computeLumpSumBreakdown, isLumpSumMode, LUMP_SUM_COST_GROUPS } from './lumpSumService.ts';
+import { collectUnitCostLines } from './unitCostService.ts';
+import { collectForeignCurrencyLines, getExchangeRates, normalizeCurrency } from './currencyService.ts';
+import type { LanguageCode } from '../types.ts';
+
+interface PartnerColumn {
+  key: string;          // partner id, '?' = allocation without a known partner
+  code: string;
+  name: string;
+}
+
+const round2 = (n: number): number => Math.round(n * 100) / 100;
+
+const txt = (value: string, style: number = XLSX_STYLE.default) => ({ value, style });
+const num = (value: number, style: number) => ({ value: round2(value), style });
+const fx = (formula: string, style: number) => ({ formula, style });
+
+// ─── EXPORT ──────────────────────────────────────────────────────
+
+export const buildBudgetWorkbook = async (projectData: any, language: LanguageCode): Promise<Blob> => {
+  const si = language === 'si';
+  const lang = si ? 'si' : 'en';
+  const allocations = collectBudgetAllocations(projectData);
+  const activities = Array.isArray(projectData.activities) ? projectData.activities : [];
+  const settings = projectData.indirectCostSettings || { percentage: 0, appliesToCategories: [] };
+  const acronym = (projectData.projectIdea?.projectAcronym || '').trim();
+  const title = (projectData.projectIdea?.projectTitle || '').trim();
+  const heading = [acronym, title].filter(Boolean).join(' — ') || (si ? 'Projekt' : 'Project');
+
+  // Partner rows — project order, then allocations without a known partner
+  const partners: PartnerColumn[] = (Array.isArray(projectData.partners) ? projectData.partners : [])
+    .map((p: any) => ({ key: p.id, code: p.code || '', name: p.name || '' }));
+  const partnerKey = (a: BudgetAllocationRow): string =>
+    partners.some((p) => p.key === a.partnerId) ? a.partnerId : '?';
+  if (allocations.some((a) => partnerKey(a) === '?')) {
+    partners.push({ key: '?', code: '?', name: si ? '(neznan partner)' : '(unknown partner)' });
+  }
+
+  const categories: { key: string; label: string }[] = getDirectCostDefs(projectData.fundingModel)
+    .map((c) => ({ key: c.key, label: c[lang] }));
+  if (allocations.some((a) => a.directByCategory[UNCATEGORIZED_COST_KEY])) {
+    categories.push({ key: UNCATEGORIZED_COST_KEY, label: si ? 'Nerazvrščeno' : 'Uncategorized' });
+  }
+
+  const sumFor = (predicate: (a: BudgetAllocationRow) => boolean, pick: (a: BudgetAllocationRow) => number): number =>
+    allocations.filter(predicate).reduce((s, a) => s + pick(a), 0);
+
+  const names = {
+    summary: sanitizeSheetName(si ? 'Povzetek' : 'Summary'),
+    pm: sanitizeSheetName(si ? 'Osebni meseci' : 'Person-months'),
+    costs: sanitizeSheetName(si ? 'Kategorije stroškov' : 'Cost categories'),
+    indirect: sanitizeSheetName(si ? 'Posredni stroški' : 'Indirect costs'),
+  };
+  const codeHeader = si ? 'Oznaka' : 'Code';
+  const partnerHeader = si ? 'Partner' : 'Partner';
+  const totalLabel = si ? 'SKUPAJ' : 'TOTAL';
+
+  // Partner rows start at the same row in sheets 2 and 3
+  const FIRST_ROW = 3;
+  const lastPartnerRow = FIRST_ROW + partners.length - 1;
+  const totalRow = FIRST_ROW + partners.length;
+
+  // Partner × column grid with row / column SUM totals
+  const buildGridSheet = (
+    name: string,
+    sheetTitle: string,
+    columns: { label: string; value: (p: PartnerColumn) => number }[],
+    totalHeader: string,
+    style: number,
+    boldStyle: number
+  ): XlsxSheet => {
+    const firstCol = 2;
+    const lastCol = firstCol + columns.length - 1;
+    const totalCol = lastCol + 1;
+    const rows: XlsxRow[] = [
+      [txt(sheetTitle, XLSX_STYLE.title)],
+      [txt(heading)],
+      [txt(codeHeader, XLSX_STYLE.header), txt(partnerHeader, XLSX_STYLE.header),
+        ...columns.map((c) => txt(c.label, XLSX_STYLE.header)), txt(totalHeader, XLSX_STYLE.header)],
+    ];
+    partners.forEach((p, i) => {
+      const r = FIRST_ROW + i;
+      rows.push([
+        txt(p.code), txt(p.name),
+        ...columns.map((c) => num(c.value(p), style)),
+        fx(columns.length > 0 ? `SUM(${cellRef(firstCol, r)}:${cellRef(lastCol, r)})` : '0', boldStyle),
+      ]);
+    });
+    const colSum = (col: number) => partners.length > 0
+      ? fx(`SUM(${cellRef(col, FIRST_ROW)}:${cellRef(col, lastPartnerRow)})`, boldStyle)
+      : num(0, boldStyle);
+    rows.push([
+      txt(totalLabel, XLSX_STYLE.bold), txt('', XLSX_STYLE.bold),
+      ...columns.map((_, j) => colSum(firstCol + j)),
+      colSum(totalCol),
+    ]);
+    return {
+      name,
+      rows,
+      columnWidths: [10, 36, ...columns.map(() => 16), 18],
+      frozenRows: FIRST_ROW,
+    };
+  };
+
+  // 2. Person-months
+  const pmSheet = buildGridSheet(
+    names.pm,
+    si ? 'Osebni meseci po partnerjih in delovnih sklopih' : 'Person-months per partner and work package',
+    activities.map((wp: any) => ({
+      label: wp.id || '',
+      value: (p: PartnerColumn) => sumFor((a) => a.wpId === wp.id && partnerKey(a) === p.key, (a) => a.pm),
+    })),
+    si ? 'Skupaj OM' : 'Total PM',
+    XLSX_STYLE.pm,
+    XLSX_STYLE.pmBold
+  );
+
+  // 3. Cost categories
+  const costSheet = buildGridSheet(
+    names.costs,
+    si ? 'Neposredni stroški po partnerjih in kategorijah' : 'Direct costs per partner and cost category',
+    categories.map((cat) => ({
+      label: cat.label,
+      value: (p: PartnerColumn) => sumFor((a) => partnerKey(a) === p.key, (a) => a.directByCategory[cat.key] || 0),
+    })),
+    si ? 'Skupaj neposredni' : 'Total direct',
+    XLSX_STYLE.money,
+    XLSX_STYLE.moneyBold
+  );
+  const costTotalCol = 2 + categories.length;
+  const pmTotalCol = 2 + activities.length;
+
+  // 4. Indirect costs
+  const RATE_ROW = 2;
+  const FLAG_FIRST_ROW = 5;
+  const flagRow = (j: number) => FLAG_FIRST_ROW + j;
+  const indirectPartnerHeaderRow = FLAG_FIRST_ROW + categories.length + 1;
+  const indirectFirstRow = indirectPartnerHeaderRow + 1;
+  const applicable = new Set(settings.appliesToCategories || []);
+
+  const indirectRows: XlsxRow[] = [
+    [txt(si ? 'Izračun posrednih stroškov' : 'Indirect cost calculation', XLSX_STYLE.title)],
+    [txt(heading)],
+    [txt(si ? 'Stopnja posrednih stroškov' : 'Indirect cost rate', XLSX_STYLE.bold), num((settings.percentage || 0) / 100, XLSX_STYLE.percent)],
+    [],
+    [txt(si ? 'Kategorija neposrednih stroškov' : 'Direct cost category', XLSX_STYLE.header), txt(si ? 'Upošteva se (1 = da)' : 'Applies (1 = yes)', XLSX_STYLE.header)],
+    ...categories.map((cat) => [txt(cat.label), num(applicable.has(cat.key) ? 1 : 0, XLSX_STYLE.default)] as XlsxRow),
+    [],
+    [txt(codeHeader, XLSX_STYLE.header), txt(partnerHeader, XLSX_STYLE.header),
+      txt(si ? 'Upravičena osnova' : 'Applicable direct costs', XLSX_STYLE.header),
+      txt(si ? 'Posredni stroški' : 'Indirect costs', XLSX_STYLE.header)],
+  ];
+  partners.forEach((p, i) => {
+    const costRow = FIRST_ROW + i;
+    const r = indirectFirstRow + i;
+    const terms = categories.map((_, j) =>
+      `${sheetRef(names.costs, cellRef(2 + j, costRow))}*${cellRef(1, flagRow(j), true)}`);
+    indirectRows.push([
+      txt(p.code), txt(p.name),
+      fx(terms.length > 0 ? terms.join('+') : '0', XLSX_STYLE.money),
+      fx(`ROUND(${cellRef(2, r)}*${cellRef(1, RATE_ROW, true)},0)`, XLSX_STYLE.money),
+    ]);
+  });
+  const indirectLastRow = indirectFirstRow + partners.length - 1;
+  const indirectTotalRow = indirectFirstRow + partners.length;
+  indirectRows.push([
+    txt(totalLabel, XLSX_STYLE.bold), txt('', XLSX_STYLE.bold),
+    partners.length > 0 ? fx(`SUM(${cellRef(2, indirectFirstRow)}:${cellRef(2, indirectLastRow)})`, XLSX_STYLE.moneyBold) : num(0, XLSX_STYLE.moneyBold),
+    partners.length > 0 ? fx(`SUM(${cellRef(3, indirectFirstRow)}:${cellRef(3, indirectLastRow)})`, XLSX_STYLE.moneyBold) : num(0, XLSX_STYLE.moneyBold),
+  ]);
+  const indirectSheet: XlsxSheet = { name: names.indirect, rows: indirectRows, columnWidths: [40, 36, 24, 18] };
+
+  // 1. Summary — formulas only
+  const SUMMARY_FIRST_ROW = 4;
+  const summaryTotalRow = SUMMARY_FIRST_ROW + partners.length;
+  const summaryRows: XlsxRow[] = [
+    [txt(si ? 'Proračun projekta' : 'Project budget', XLSX_STYLE.title)],
+    [txt(heading)],
+    [txt(si
+      ? `Model financiranja: ${projectData.fundingModel === 'decentralized' ? 'decentraliziran' : 'centraliziran'}`
+      : `Funding model: ${projectData.fundingModel === 'decentralized' ? 'decentralized' : 'centralized'}`)],
+    [txt(codeHeader, XLSX_STYLE.header), txt(partnerHeader, XLSX_STYLE.header),
+      txt(si ? 'Osebni meseci' : 'Person-months', XLSX_STYLE.header),
+      txt(si ? 'Neposredni stroški' : 'Direct costs', XLSX_STYLE.header),
+      txt(si ? 'Posredni stroški' : 'Indirect costs', XLSX_STYLE.header),
+      txt(si ? 'Skupaj' : 'Total', XLSX_STYLE.header),
+      txt(si ? 'Delež' : 'Share', XLSX_STYLE.header)],
+  ];
+  partners.forEach((p, i) => {
+    const r = SUMMARY_FIRST_ROW + i;
+    summaryRows.push([
+      txt(p.code), txt(p.name),
+      fx(sheetRef(names.pm, cellRef(pmTotalCol, FIRST_ROW + i)), XLSX_STYLE.pm),
+      fx(sheetRef(names.costs, cellRef(costTotalCol, FIRST_ROW + i)), XLSX_STYLE.money),
+      fx(sheetRef(names.indirect, cellRef(3, indirectFirstRow + i)), XLSX_STYLE.money),
+      fx(`${cellRef(3, r)}+${cellRef(4, r)}`, XLSX_STYLE.money),
+      fx(`IF(${cellRef(5, summaryTotalRow, true)}=0,0,${cellRef(5, r)}/${cellRef(5, summaryTotalRow, true)})`, XLSX_STYLE.percent),
+    ]);
+  });
+  const summaryColSum = (col: number, style: number) => partners.length > 0
+    ? fx(`SUM(${cellRef(col, SUMMARY_FIRST_ROW)}:${cellRef(col, summaryTotalRow - 1)})`, style)
+    : num(0, style);
+  summaryRows.push([
+    txt(totalLabel, XLSX_STYLE.bold), txt('', XLSX_STYLE.bold),
+    summaryColSum(2, XLSX_STYLE.pmBold),
+    summaryColSum(3, XLSX_STYLE.moneyBold),
+    summaryColSum(4, XLSX_STYLE.moneyBold),
+    summaryColSum(5, XLSX_STYLE.moneyBold),
+    summaryColSum(6, XLSX_STYLE.percent),
+  ]);
+  // Cross-check against the sheet totals
+  summaryRows.push([]);
+  summaryRows.push([
+    txt(si ? 'Kontrola (seštevki listov)' : 'Check (sheet totals)'), txt(''),
+    fx(sheetRef(names.pm, cellRef(pmTotalCol, totalRow)), XLSX_STYLE.pm),
+    fx(sheetRef(names.costs, cellRef(costTotalCol, totalRow)), XLSX_STYLE.money),
+    fx(sheetRef(names.indirect, cellRef(3, indirectTotalRow)), XLSX_STYLE.money),
+  ]);
+  const summarySheet: XlsxSheet = {
+    name: names.summary,
+    rows: summaryRows,
+    columnWidths: [10, 36, 16, 18, 18, 18, 10],
+    frozenRows: SUMMARY_FIRST_ROW,
+  };
+
+  const sheets: XlsxSheet[] = [summarySheet, pmSheet, costSheet, indirectSheet];
+  if (isLumpSumMode(projectData)) sheets.push(...buildLumpSumSheets(projectData, language, heading));
+
+  // Unit costs — audit trail of catalogue-based amounts
+  const unitLines = collectUnitCostLines(projectData);
+  if (unitLines.length > 0) {
+    const categoryLabel = (key: string) => categories.find((c) => c.key === key)?.label || key;
+    const UNIT_FIRST_ROW = 3;
+    const unitRows: XlsxRow[] = [
+      [txt(si ? 'Stroški na enoto' : 'Unit costs', XLSX_STYLE.title)],
+      [txt(heading)],
+      [si ? 'DS' : 'WP', si ? 'Naloga' : 'Task', partnerHeader, si ? 'Kategorija' : 'Category', si ? 'Katalog' : 'Catalogue',
+        si ? 'Postavka' : 'Rate item', si ? 'Država' : 'Country', si ? 'Enote' : 'Units', si ? 'Enota' : 'Unit',
+        si ? 'Postavka (€)' : 'Rate (€)', si ? 'Znesek' : 'Amount'].map((h) => txt(h, XLSX_STYLE.header)),
+    ];
+    unitLines.forEach((line, i) => {
+      const r = UNIT_FIRST_ROW + i;
+      unitRows.push([
+        txt(line.wpId), txt(line.taskId), txt(line.partnerCode), txt(categoryLabel(line.categoryKey)),
+        txt(line.calculation.catalogue), txt(line.calculation.label), txt(line.calculation.countryCode || ''),
+        num(line.calculation.units, XLSX_STYLE.pm), txt(line.calculation.unit),
+        num(line.calculation.rate, XLSX_STYLE.money),
+        fx(`ROUND(${cellRef(7, r)}*${cellRef(9, r)},2)`, XLSX_STYLE.money),
+      ]);
+    });
+    unitRows.push([
+      txt(totalLabel, XLSX_STYLE.bold), ...Array.from({ length: 9 }, () => txt('', XLSX_STYLE.bold)),
+      fx(`SUM(${cellRef(10, UNIT_FIRST_ROW)}:${cellRef(10, UNIT_FIRST_ROW + unitLines.length - 1)})`, XLSX_STYLE.moneyBold),
+    ]);
+    sheets.push({
+      name: sanitizeSheetName(si ? 'Stroški na enoto' : 'Unit costs'),
+      rows: unitRows,
+      columnWidths: [8, 8, 10, 28, 30, 28, 8, 10, 14, 14, 16],
+      frozenRows: UNIT_FIRST_ROW,
+    });
+  }
+
+  // Currencies — rate table, then the non-EUR items converted with it
+  const currencyLines = collectForeignCurrencyLines(projectData);
+  if (currencyLines.length > 0) {
+    const categoryLabel = (key: string) => categories.find((c) => c.key === key)?.label || key;
+    const rates = getExchangeRates(projectData);
+    const RATE_FIRST_ROW = 3;
+    const currencyRows: XlsxRow[] = [
+      [txt(si ? 'Valute' : 'Currencies', XLSX_STYLE.title)],
+      [txt(heading)],
+      [si ? 'Valuta' : 'Currency', '1 EUR =', si ? 'Datum' : 'Date', si ? 'Vir' : 'Source']
+        .map((h) => txt(h, XLSX_STYLE.header)),
+    ];
+    rates.forEach((r) => {
+      currencyRows.push([txt(normalizeCurrency(r.currency)), { value: r.rate, style: XLSX_STYLE.default }, txt(r.date || ''), txt(r.source === 'ecb' ? 'ECB' : (si ? 'ročno' : 'manual'))]);
+    });
+    currencyRows.push([]);
+    const ITEM_HEADER_ROW = currencyRows.length;
+    const ITEM_FIRST_ROW = ITEM_HEADER_ROW + 1;
+    currencyRows.push([si ? 'DS' : 'WP', si ? 'Naloga' : 'Task', partnerHeader, si ? 'Kategorija' : 'Category',
+      si ? 'Izvirni znesek' : 'Original amount', si ? 'Valuta' : 'Currency', si ? 'Tečaj' : 'Rate', 'EUR']
+      .map((h) => txt(h, XLSX_STYLE.header)));
+    currencyLines.forEach((line, i) => {
+      const r = ITEM_FIRST_ROW + i;
+      const rateIndex = rates.findIndex((rate) => normalizeCurrency(rate.currency) === normalizeCurrency(line.currency) && rate.rate > 0);
+      currencyRows.push([
+        txt(line.wpId), txt(line.taskId), txt(line.partnerCode), txt(categoryLabel(line.categoryKey)),
+        num(line.amount, XLSX_STYLE.amount), txt(line.currency),
+        rateIndex >= 0 ? fx(cellRef(1, RATE_FIRST_ROW + rateIndex, true), XLSX_STYLE.default) : txt(si ? 'ni tečaja' : 'no rate'),
+        rateIndex >= 0 ? fx(`ROUND(${cellRef(4, r)}/${cellRef(6, r)},2)`, XLSX_STYLE.money) : num(0, XLSX_STYLE.money),
+      ]);
+    });
+    currencyRows.push([
+      txt(totalLabel, XLSX_STYLE.bold), ...Array.from({ length: 6 }, () => txt('', XLSX_STYLE.bold)),
+      fx(`SUM(${cellRef(7, ITEM_FIRST_ROW)}:${cellRef(7, ITEM_FIRST_ROW + currencyLines.length - 1)})`, XLSX_STYLE.moneyBold),
+    ]);
+    sheets.push({
+      name: sanitizeSheetName(si ? 'Valute' : 'Currencies'),
+      rows: currencyRows,
+      columnWidths: [10, 12, 10, 28, 16, 10, 12, 16],
+    });
+  }
+
+  return buildXlsx(sheets);
+};
+
+// ─── LUMP SUM SHEETS ─────────────────────────────────────────────
+
+const buildLumpSumSheets = (projectData: any, language: LanguageCode, heading: string): XlsxSheet[] => {
+  const si = language === 'si';
+  const lang = si ? 'si' : 'en';
+  const codeHeader = si ? 'Oznaka' : 'Code';
+  const partnerHeader = si ? 'Partner' : 'Partner';
+  const totalLabel = si ? 'SKUPAJ' : 'TOTAL';
+
+  // 5. Lump sum breakdown — shares are values (overrides are not formulas)
+  const lump = computeLumpSumBreakdown(projectData);
+  const lumpName = sanitizeSheetName(si ? 'Pavšalni zneski' : 'Lump sum breakdown');
+  const LUMP_FIRST_ROW = 3;
+  const lumpTotalRow = LUMP_FIRST_ROW + lump.workPackages.length;
+  const lumpTotalCol = 1 + lump.partners.length;
+  const lumpRows: XlsxRow[] = [
+    [txt(si ? 'Razčlenitev pavšalnega zneska' : 'Lump sum breakdown', XLSX_STYLE.title)],
+    [txt(heading)],
+    [txt(si ? 'DS' : 'WP', XLSX_STYLE.header), ...lump.partners.map((p) => txt(p.code, XLSX_STYLE.header)), txt(totalLabel, XLSX_STYLE.header)],
+  ];
+  lump.workPackages.forEach((wp, i) => {
+    const r = LUMP_FIRST_ROW + i;
+    lumpRows.push([
+      txt(wp.wpId),
+      ...wp.cells.map((c) => num(c.share, XLSX_STYLE.money)),
+      fx(lump.partners.length > 0 ? `SUM(${cellRef(1, r)}:${cellRef(lumpTotalCol - 1, r)})` : '0', XLSX_STYLE.moneyBold),
+    ]);
+  });
+  const lumpColSum = (col: number) => lump.workPackages.length > 0
+    ? fx(`SUM(${cellRef(col, LUMP_FIRST_ROW)}:${cellRef(col, lumpTotalRow - 1)})`, XLSX_STYLE.moneyBold)
+    : num(0, XLSX_STYLE.moneyBold);
+  lumpRows.push([txt(totalLabel, XLSX_STYLE.bold), ...lump.partners.map((_, j) => lumpColSum(1 + j)), lumpColSum(lumpTotalCol)]);
+  const lumpSheet: XlsxSheet = {
+    name: lumpName,
+    rows: lumpRows,
+    columnWidths: [10, ...lump.partners.map(() => 14), 16],
+    frozenRows: LUMP_FIRST_ROW,
+  };
+
+  // 6. Detailed budget table
+  const detailName = sanitizeSheetName(si ? 'Podroben proračun' : 'Detailed budget');
+  const DETAIL_FIRST_ROW = 3;
+  const groupFirstCol = 3;
+  const groupLastCol = groupFirstCol + LUMP_SUM_COST_GROUPS.length - 1;
+  const estCol = groupLastCol + 1;
+  const rateCol = estCol + 1;
+  const maxCol = rateCol + 1;
+  const lumpCol = maxCol + 1;
+  const detailRows: XlsxRow[] = [
+    [txt(si ? 'Podrobna tabela proračuna' : 'Detailed budget table', XLSX_STYLE.title)],
+    [txt(heading)],
+    [txt(codeHeader, XLSX_STYLE.header), txt(partnerHeader, XLSX_STYLE.header), txt(si ? 'Osebni meseci' : 'Person-months', XLSX_STYLE.header),
+      ...LUMP_SUM_COST_GROUPS.map((g) => txt(g[lang], XLSX_STYLE.header)),
+      txt(si ? 'Ocenjeni stroški' : 'Estimated costs', XLSX_STYLE.header),
+      txt(si ? 'Stopnja sofinanciranja' : 'Funding rate', XLSX_STYLE.header),
+      txt(si ? 'Največji EU prispevek' : 'Max. EU contribution', XLSX_STYLE.header),
+      txt(si ? 'Pavšalni znesek' : 'Lump sum', XLSX_STYLE.header)],
+  ];
+  lump.partners.forEach((p, i) => {
+    const r = DETAIL_FIRST_ROW + i;
+    detailRows.push([
+      txt(p.code), txt(p.name),
+      num(p.pm, XLSX_STYLE.pm),
+      ...LUMP_SUM_COST_GROUPS.map((g) => num(p.groups[g.key], XLSX_STYLE.money)),
+      fx(`SUM(${cellRef(groupFirstCol, r)}:${cellRef(groupLastCol, r)})`, XLSX_STYLE.moneyBold),
+      num(p.fundingRate / 100, XLSX_STYLE.percent),
+      fx(`ROUND(${cellRef(estCol, r)}*${cellRef(rateCol, r)},0)`, XLSX_STYLE.money),
+      fx(sheetRef(lumpName, cellRef(1 + i, lumpTotalRow)), XLSX_STYLE.moneyBold),
+    ]);
+  });
+  const detailTotalRow = DETAIL_FIRST_ROW + lump.partners.length;
+  const detailColSum = (col: number, style: number) => lump.partners.length > 0
+    ? fx(`SUM(${cellRef(col, DETAIL_FIRST_ROW)}:${cellRef(col, detailTotalRow - 1)})`, style)
+    : num(0, style);
+  detailRows.push([
+    txt(totalLabel, XLSX_STYLE.bold), txt('', XLSX_STYLE.bold),
+    detailColSum(2, XLSX_STYLE.pmBold),
+    ...LUMP_SUM_COST_GROUPS.map((_, j) => detailColSum(groupFirstCol + j, XLSX_STYLE.moneyBold)),
+    detailColSum(estCol, XLSX_STYLE.moneyBold),
+    txt('', XLSX_STYLE.bold),
+    detailColSum(maxCol, XLSX_STYLE.moneyBold),
+    detailColSum(lumpCol, XLSX_STYLE.moneyBold),
+  ]);
+  const detailSheet: XlsxSheet = {
+    name: detailName,
+    rows: detailRows,
+    columnWidths: [10, 36, 14, ...LUMP_SUM_COST_GROUPS.map(() => 16), 18, 12, 18, 18],
+    frozenRows: DETAIL_FIRST_ROW,
+  };
+
+  return [lumpSheet, detailSheet];
+};
+
+export const budgetWorkbookFilename = (projectData: any): string => {
+  const acronym = (projectData?.projectIdea?.projectAcronym || '').trim() || 'eu-project';
+  return `${acronym.replace(/[<>:"/\\|?*]/g, '_')}_budget.xlsx`;
+};
@@ -0,0 +1,575 @@
+// services/chartSvgService.ts
+// ═══════════════════════════════════════════════════════════════
+// Gantt / PERT / organigram rendered straight from project data to
+// standalone SVG, rasterized to PNG at a chosen DPI.
+// v1.1 — 2026-03-07 — renderGanttPages(): paginated Gantt for print / DOCX
+//   - rows split across pages, timeline header and WP header repeated
+//   - optional split by calendar year, bars clipped to the page window
+// v1.0 — 2026-03-07
+//
+// FEATURES:
+//   - renderGanttSvg(): WP summary bars, tasks, milestones, dependency
+//     arrows, optional schedule baseline; time scale picked from the
+//     project length (months / quarters / years)
+//   - renderPertSvg(): same level layout and critical path tracing as
+//     PERTChart (latest finishing task back through its latest
+//     finishing predecessor)
+//   - renderOrganigramSvg(): steering committee / coordinator /
+//     advisory board, technical manager, one box per WP
+//   - svgToPng(): canvas rasterization, scale = dpi / 96
+//   - No DOM layout involved — DOCX export, PrintLayout and the chart
+//     download buttons use the same output
+// ═══════════════════════════════════════════════════════════════
+
+import { downloadBlob, findDependencyCycles } from '../utils.ts';
+import { normalizeEstimate, pertExpected } from './pertService.ts';
+import type { ScheduleBaseline, GanttExportSettings } from '../types.ts';
+
+// ─── TYPES ───────────────────────────────────────────────────────
+
+export interface ChartSvg {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+export interface ChartPng {
+  dataUrl: string;
+  width: number;     // pixels
+  height: number;
+}
+
+export type ChartKind = 'gantt' | 'pert' | 'organigram';
+
+const FONT = 'Helvetica, Arial, sans-serif';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WP_COLORS = ['#0ea5e9', '#6366f1', '#a855f7', '#ec4899', '#f97316'];
+
+// ─── HELPERS ─────────────────────────────────────────────────────
+
+export const escapeXml = (value: any): string =>
+  String(value ?? '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Average glyph width of Helvetica ≈ 0.55 em
+const fitText = (text: string, maxWidth: number, fontSize: number): string => {
+  const maxChars = Math.max(1, Math.floor(maxWidth / (fontSize * 0.55)));
+  const clean = String(text || '').replace(/\s+/g, ' ').trim();
+  return clean.length > maxChars ? clean.slice(0, Math.max(1, maxChars - 1)) + '…' : clean;
+};
+
+const wrapText = (text: string, maxWidth: number, fontSize: number, maxLines: number): string[] => {
+  const maxChars = Math.max(1, Math.floor(maxWidth / (fontSize * 0.55)));
+  const words = String(text || '').replace(/\s+/g, ' ').trim().split(' ').filter(Boolean);
+  const lines: string[] = [];
+  let line = '';
+  for (let i = 0; i < words.length; i++) {
+    const next = line ? line + ' ' + words[i] : words[i];
+    if (next.length <= maxChars) {
+      line = next;
+      continue;
+    }
+    if (line) lines.push(line);
+    line = words[i];
+    if (lines.length === maxLines - 1) {
+      const rest = [line, ...words.slice(i + 1)].join(' ');
+      lines.push(fitText(rest, maxWidth, fontSize));
+      return lines;
+    }
+  }
+  if (line) lines.push(fitText(line, maxWidth, fontSize));
+  return lines.slice(0, maxLines);
+};
+
+const svgDocument = (width: number, height: number, defs: string, body: string): string =>
+  `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${FONT}">` +
+  `<defs>${defs}</defs><rect width="${width}" height="${height}" fill="#ffffff"/>${body}</svg>`;
+
+const arrowMarker = (id: string, color: string): string =>
+  `<marker id="${id}" markerWidth="10" markerHeight="7" refX="9" refY="3.5" orient="auto"><polygon points="0 0, 10 3.5, 0 7" fill="${color}"/></marker>`;
+
+const parseDay = (value: any): number | null => {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}/.test(value)) return null;
+  const t = new Date(value.slice(0, 10) + 'T00:00:00Z').getTime();
+  return isNaN(t) ? null : t;
+};
+
+// ─── GANTT ───────────────────────────────────────────────────────
+
+type GanttRow = {
+  kind: 'wp' | 'task' | 'milestone';
+  id: string;
+  label: string;
+  start: number;
+  end: number;
+  wpIndex: number;
+  deps?: any[];
+  base?: [number, number] | null;
+  continued?: boolean;
+};
+
+const GANTT_LABEL_W = (width: number) => Math.min(320, Math.round(width * 0.22));
+const GANTT_HEADER_H = 44;
+const GANTT_TITLE_H = 24;
+const GANTT_ROW_H = 26;
+const GANTT_PAD = 16;
+
+const buildGanttRows = (activities: any[], baseline: ScheduleBaseline | null): GanttRow[] => {
+  const rows: GanttRow[] = [];
+  (Array.isArray(activities) ? activities : []).forEach((wp: any, wpIndex: number) => {
+    const items: GanttRow[] = [];
+    (wp?.tasks || []).forEach((task: any) => {
+      const start = parseDay(task?.startDate);
+      const end = parseDay(task?.endDate);
+      if (start === null || end === null) return;
+      const b = baseline?.tasks?.[task.id];
+      const bs = b ? parseDay(b.startDate) : null;
+      const be = b ? parseDay(b.endDate) : null;
+      items.push({ kind: 'task', id: task.id, label: task.title || '', start, end: Math.max(end, start), wpIndex, deps: task.dependencies || [], base: bs !== null && be !== null ? [bs, be] : null });
+    });
+    (wp?.milestones || []).forEach((ms: any) => {
+      const date = parseDay(ms?.date);
+      if (date === null) return;
+      const b = baseline?.milestones?.[ms.id];
+      const bd = b ? parseDay(b.date) : null;
+      items.push({ kind: 'milestone', id: ms.id, label: ms.description || '', start: date, end: date, wpIndex, base: bd !== null ? [bd, bd] : null });
+    });
+    if (items.length === 0) return;
+    items.sort((a, b) => a.start - b.start);
+    rows.push({ kind: 'wp', id: wp.id, label: wp.title || '', start: Math.min(...items.map((i) => i.start)), end: Math.max(...items.map((i) => i.end)), wpIndex });
+    rows.push(...items);
+  });
+  return rows;
+};
+
+// First day of the first month .. first day of the month after the last date
+const ganttRange = (rows: GanttRow[]): [number, number] => {
+  const times = rows.flatMap((r) => [r.start, r.end, ...(r.base || [])]);
+  const first = new Date(Math.min(...times));
+  const last = new Date(Math.max(...times));
+  return [
+    Date.UTC(first.getUTCFullYear(), first.getUTCMonth(), 1),
+    Date.UTC(last.getUTCFullYear(), last.getUTCMonth() + 1, 1),
+  ];
+};
+
+const drawGantt = (rows: GanttRow[], minT: number, maxT: number, language: string, width: number, title: string = ''): ChartSvg => {
+  const LABEL_W = GANTT_LABEL_W(width);
+  const PAD = GANTT_PAD;
+  const ROW_H = GANTT_ROW_H;
+  const TOP = title ? GANTT_TITLE_H : 0;
+  const HEADER_H = TOP + GANTT_HEADER_H;
+  const si = language === 'si';
+
+  const chartX = LABEL_W + PAD;
+  const chartW = width - chartX - PAD;
+  const pxPerDay = chartW / ((maxT - minT) / DAY_MS);
+  const x = (t: number) => chartX + ((t - minT) / DAY_MS) * pxPerDay;
+  const height = HEADER_H + rows.length * ROW_H + PAD;
+
+  const first = new Date(minT);
+  const months = Math.round((maxT - minT) / (30.44 * DAY_MS));
+  const stepMonths = months * 50 / chartW > 6 ? 12 : months * 50 / chartW > 1.5 ? 3 : 1;
+  const locale = si ? 'sl-SI' : language;
+
+  let body = '';
+  if (title) body += `<text x="${PAD}" y="${TOP - 6}" font-size="12" font-weight="bold" fill="#1e293b">${escapeXml(title)}</text>`;
+  // Time scale
+  for (let m = 0; ; m += stepMonths) {
+    const t = Date.UTC(first.getUTCFullYear(), first.getUTCMonth() + m, 1);
+    if (t >= maxT) break;
+    const d = new Date(t);
+    const label = stepMonths === 12 ? String(d.getUTCFullYear())
+      : stepMonths === 3 ? `Q${Math.floor(d.getUTCMonth() / 3) + 1} '${String(d.getUTCFullYear()).slice(2)}`
+      : d.toLocaleDateString(locale, { month: 'short', year: '2-digit', timeZone: 'UTC' });
+    body += `<line x1="${x(t)}" y1="${HEADER_H - 16}" x2="${x(t)}" y2="${height - PAD}" stroke="#e2e8f0" stroke-width="1"/>`;
+    body += `<text x="${x(t) + 3}" y="${HEADER_H - 20}" font-size="10" fill="#64748b">${escapeXml(label)}</text>`;
+  }
+  body += `<line x1="${chartX}" y1="${HEADER_H}" x2="${width - PAD}" y2="${HEADER_H}" stroke="#cbd5e1" stroke-width="1"/>`;
+
+  const rowIndex = new Map<string, number>();
+  rows.forEach((r, i) => { if (r.kind !== 'wp') rowIndex.set(r.id, i); });
+  const yMid = (i: number) => HEADER_H + i * ROW_H + ROW_H / 2;
+
+  // Row backgrounds and labels stay outside the clipped time area
+  let bars = '';
+  rows.forEach((r, i) => {
+    const top = HEADER_H + i * ROW_H;
+    const color = WP_COLORS[r.wpIndex % WP_COLORS.length];
+    if (r.kind === 'wp') {
+      const label = `${r.id}: ${r.label}` + (r.continued ? (si ? ' (nadalj.)' : ' (cont.)') : '');
+      body += `<rect x="0" y="${top}" width="${width}" height="${ROW_H}" fill="#f8fafc"/>`;
+      body += `<text x="${PAD}" y="${top + ROW_H / 2 + 4}" font-size="11" font-weight="bold" fill="#334155">${escapeXml(fitText(label, LABEL_W - PAD, 11))}</text>`;
+      bars += `<rect x="${x(r.start)}" y="${top + 9}" width="${Math.max(x(r.end + DAY_MS) - x(r.start), 3)}" height="8" rx="2" fill="#334155"/>`;
+      return;
+    }
+    body += `<text x="${PAD + 10}" y="${top + ROW_H / 2 + 4}" font-size="10" fill="#475569">${escapeXml(fitText(`${r.id}: ${r.label}`, LABEL_W - PAD - 10, 10))}</text>`;
+    if (r.base) {
+      bars += r.kind === 'milestone'
+        ? `<rect x="${x(r.base[0]) - 4}" y="${top + ROW_H - 9}" width="7" height="7" fill="#ffffff" stroke="#94a3b8" stroke-width="1.5" transform="rotate(45 ${x(r.base[0])} ${top + ROW_H - 5})"/>`
+        : `<rect x="${x(r.base[0])}" y="${top + ROW_H - 7}" width="${Math.max(x(r.base[1] + DAY_MS) - x(r.base[0]), 2)}" height="4" rx="1" fill="#cbd5e1" stroke="#94a3b8" stroke-width="0.5"/>`;
+    }
+    if (r.kind === 'milestone') {
+      const cx = x(r.start);
+      bars += `<rect x="${cx - 6}" y="${top + ROW_H / 2 - 6}" width="12" height="12" fill="#111827" transform="rotate(45 ${cx} ${top + ROW_H / 2})"/>`;
+    } else {
+      bars += `<rect x="${x(r.start)}" y="${top + 5}" width="${Math.max(x(r.end + DAY_MS) - x(r.start), 3)}" height="${ROW_H - 13}" rx="3" fill="${color}" fill-opacity="0.85"/>`;
+    }
+  });
+
+  // Dependencies (orthogonal, same anchors as GanttChart) — only when both ends are on this page
+  rows.forEach((r) => {
+    if (r.kind !== 'task' || !r.deps) return;
+    r.deps.forEach((dep: any) => {
+      const pi = rowIndex.get(dep?.predecessorId);
+      const ti = rowIndex.get(r.id);
+      if (pi === undefined || ti === undefined) return;
+      const p = rows[pi];
+      const fromStart = dep.type === 'SS' || dep.type === 'SF';
+      const toEnd = dep.type === 'FF' || dep.type === 'SF';
+      const sx = fromStart ? x(p.start) : x(p.end + DAY_MS);
+      const ex = toEnd ? x(r.end + DAY_MS) : x(r.start);
+      const sy = yMid(pi);
+      const ey = yMid(ti);
+      const midX = fromStart ? Math.min(sx, ex) - 8 : sx + 8;
+      bars += `<path d="M ${sx} ${sy} L ${midX} ${sy} L ${midX} ${ey} L ${ex} ${ey}" fill="none" stroke="#64748b" stroke-width="1" opacity="0.7" marker-end="url(#gantt-arrow)"/>`;
+    });
+  });
+
+  body += `<g clip-path="url(#gantt-clip)">${bars}</g>`;
+  body += `<line x1="${LABEL_W}" y1="${TOP}" x2="${LABEL_W}" y2="${height}" stroke="#e2e8f0" stroke-width="1"/>`;
+  const defs = arrowMarker('gantt-arrow', '#64748b') +
+    `<clipPath id="gantt-clip"><rect x="${chartX - 10}" y="${HEADER_H}" width="${chartW + 10}" height="${height - HEADER_H}"/></clipPath>`;
+  return { svg: svgDocument(width, height, defs, body), width, height };
+};
+
+export const renderGanttSvg = (
+  activities: any[],
+  language: string = 'en',
+  options: { width?: number; baseline?: ScheduleBaseline | null } = {}
+): ChartSvg | null => {
+  const rows = buildGanttRows(activities, options.baseline || null);
+  if (rows.length === 0) return null;
+  const [minT, maxT] = ganttRange(rows);
+  return drawGantt(rows, minT, maxT, language, options.width || 1600);
+};
+
+// ─── GANTT PAGES (print / DOCX) ──────────────────────────────────
+
+export type GanttSplit = GanttExportSettings['splitBy'];
+
+export interface GanttPageOptions {
+  width?: number;
+  baseline?: ScheduleBaseline | null;
+  rowsPerPage?: number;
+  splitBy?: GanttSplit;
+}
+
+export interface GanttPage extends ChartSvg {
+  title: string;
+}
+
+// Fits a landscape A4 page (1600 px wide chart scaled to the text width)
+export const DEFAULT_GANTT_ROWS_PER_PAGE = 30;
+
+// Row chunks of at most rowsPerPage; a WP header never ends a page and a
+// WP that continues on the next page gets its header repeated there
+const paginateRows = (rows: GanttRow[], rowsPerPage: number): GanttRow[][] => {
+  const perPage = Math.max(rowsPerPage, 3);
+  const pages: GanttRow[][] = [];
+  let page: GanttRow[] = [];
+  let header: GanttRow | null = null;
+  rows.forEach((row) => {
+    const full = row.kind === 'wp' ? page.length >= perPage - 1 : page.length >= perPage;
+    if (full) {
+      pages.push(page);
+      page = row.kind !== 'wp' && header ? [{ ...header, continued: true }] : [];
+    }
+    if (row.kind === 'wp') header = row;
+    page.push(row);
+  });
+  if (page.length > 0) pages.push(page);
+  return pages;
+};
+
+export const renderGanttPages = (activities: any[], language: string = 'en', options: GanttPageOptions = {}): GanttPage[] => {
+  const si = language === 'si';
+  const width = options.width || 1600;
+  const rows = buildGanttRows(activities, options.baseline || null);
+  if (rows.length === 0) return [];
+  const [minT, maxT] = ganttRange(rows);
+
+  // Time windows: the whole project, or one per calendar year
+  const windows: { from: number; to: number; label: string }[] = [];
+  if (options.splitBy === 'year') {
+    for (let y = new Date(minT).getUTCFullYear(); Date.UTC(y, 0, 1) < maxT; y++) {
+      windows.push({ from: Math.max(minT, Date.UTC(y, 0, 1)), to: Math.min(maxT, Date.UTC(y + 1, 0, 1)), label: String(y) });
+    }
+  } else {
+    windows.push({ from: minT, to: maxT, label: '' });
+  }
+
+  const chunks: { rows: GanttRow[]; from: number; to: number; label: string }[] = [];
+  windows.forEach((w) => {
+    const inWindow = (r: GanttRow) => r.start < w.to && r.end + DAY_MS > w.from;
+    const visible: GanttRow[] = [];
+    rows.forEach((r, i) => {
+      if (r.kind !== 'wp') {
+        if (inWindow(r)) visible.push(r);
+        return;
+      }
+      // WP header only when at least one of its items falls in the window
+      let j = i + 1;
+      while (j < rows.length && rows[j].kind !== 'wp') {
+        if (inWindow(rows[j])) { visible.push(r); break; }
+        j++;
+      }
+    });
+    paginateRows(visible, options.rowsPerPage || DEFAULT_GANTT_ROWS_PER_PAGE)
+      .forEach((pageRows) => chunks.push({ rows: pageRows, from: w.from, to: w.to, label: w.label }));
+  });
+
+  return chunks.map((chunk, i) => {
+    const title = [
+      si ? 'Ganttov diagram' : 'Gantt chart',
+      chunk.label,
+      chunks.length > 1 ? (si ? `stran ${i + 1}/${chunks.length}` : `page ${i + 1}/${chunks.length}`) : '',
+    ].filter(Boolean).join(' · ');
+    return { ...drawGantt(chunk.rows, chunk.from, chunk.to, language, width, title), title };
+  });
+};
+
+// ─── PERT ────────────────────────────────────────────────────────
+
+export const renderPertSvg = (activities: any[], language: string = 'en'): ChartSvg | null => {
+  const NODE_W = 190;
+  const NODE_H = 74;
+  const X_GAP = 70;
+  const Y_GAP = 28;
+  const MARGIN = 30;
+
+  const nodes: any[] = [];
+  const byId = new Map<string, any>();
+  (Array.isArray(activities) ? activities : []).forEach((wp: any, wpIndex: number) => {
+    (wp?.tasks || []).forEach((task: any) => {
+      if (!task?.id || byId.has(task.id)) return;
+      const start = parseDay(task.startDate);
+      const end = parseDay(task.endDate);
+      const node = {
+        id: task.id,
+        title: task.title || '',
+        wpIndex,
+        deps: (task.dependencies || []).filter((d: any) => d?.predecessorId),
+        end,
+        duration: start !== null && end !== null ? Math.round((end - start) / DAY_MS) : 0,
+        estimate: normalizeEstimate(task.estimate),
+        level: 0,
+        x: 0,
+        y: 0,
+      };
+      nodes.push(node);
+      byId.set(task.id, node);
+    });
+  });
+  if (nodes.length === 0) return null;
+
+  // Levels on the acyclic part of the graph
+  const cyclic = new Set(findDependencyCycles(nodes.map((n) => ({ id: n.id, dependencies: n.deps })))
+    .map((chain) => chain[chain.length - 2] + '>' + chain[chain.length - 1]));
+  const preds = (n: any) => n.deps.filter((d: any) => byId.has(d.predecessorId) && !cyclic.has(d.predecessorId + '>' + n.id));
+  const levelOf = new Map<string, number>();
+  const level = (n: any): number => {
+    if (levelOf.has(n.id)) return levelOf.get(n.id) as number;
+    levelOf.set(n.id, 0);
+    const l = preds(n).reduce((max: number, d: any) => Math.max(max, level(byId.get(d.predecessorId)) + 1), 0);
+    levelOf.set(n.id, l);
+    return l;
+  };
+  nodes.forEach((n) => { n.level = level(n); });
+
+  const levels: any[][] = [];
+  nodes.forEach((n) => { (levels[n.level] = levels[n.level] || []).push(n); });
+  const maxInLevel = Math.max(...levels.map((l) => (l ? l.length : 0)));
+  const totalH = maxInLevel * (NODE_H + Y_GAP) - Y_GAP;
+  levels.forEach((list, l) => {
+    if (!list) return;
+    const levelH = list.length * (NODE_H + Y_GAP) - Y_GAP;
+    list.forEach((n, i) => {
+      n.x = MARGIN + l * (NODE_W + X_GAP);
+      n.y = MARGIN + (totalH - levelH) / 2 + i * (NODE_H + Y_GAP);
+    });
+  });
+
+  // Critical path — as PERTChart: latest finishing task(s) back through the latest finishing predecessor
+  const criticalNodes = new Set<string>();
+  const criticalEdges = new Set<string>();
+  const maxEnd = Math.max(0, ...nodes.map((n) => n.end || 0));
+  const trace = (n: any) => {
+    criticalNodes.add(n.id);
+    let driver: any = null;
+    preds(n).forEach((d: any) => {
+      const p = byId.get(d.predecessorId);
+      if (p.end !== null && (!driver || p.end > driver.end)) driver = p;
+    });
+    if (driver) {
+      criticalEdges.add(driver.id + '>' + n.id);
+      if (!criticalNodes.has(driver.id)) trace(driver);
+    }
+  };
+  nodes.forEach((n) => { if (n.end !== null && maxEnd - n.end < DAY_MS) trace(n); });
+
+  const width = MARGIN * 2 + levels.length * (NODE_W + X_GAP) - X_GAP;
+  const height = MARGIN * 2 + totalH;
+  let body = '';
+
+  nodes.forEach((n) => {
+    preds(n).forEach((d: any) => {
+      const p = byId.get(d.predecessorId);
+      const critical = criticalEdges.has(p.id + '>' + n.id);
+      const sx = p.x + NODE_W;
+      const sy = p.y + NODE_H / 2;
+      const ex = n.x;
+      const ey = n.y + NODE_H / 2;
+      const dist = Math.abs(ex - sx) / 2;
+      body += `<path d="M ${sx} ${sy} C ${sx + dist} ${sy}, ${ex - dist} ${ey}, ${ex} ${ey}" fill="none" stroke="${critical ? '#dc2626' : '#cbd5e1'}" stroke-width="${critical ? 3 : 1.5}" marker-end="url(#${critical ? 'pert-arrow-critical' : 'pert-arrow'})"/>`;
+      if (d.type && d.type !== 'FS') {
+        body += `<text x="${(sx + ex) / 2}" y="${(sy + ey) / 2 - 4}" font-size="9" text-anchor="middle" fill="#64748b">${escapeXml(d.type)}</text>`;
+      }
+    });
+  });
+
+  nodes.forEach((n) => {
+    const critical = criticalNodes.has(n.id);
+    const stripe = critical ? '#dc2626' : WP_COLORS[n.wpIndex % WP_COLORS.length];
+    body += `<rect x="${n.x}" y="${n.y}" width="${NODE_W}" height="${NODE_H}" rx="10" fill="#ffffff" stroke="${critical ? '#fca5a5' : '#e2e8f0'}" stroke-width="${critical ? 2 : 1}"/>`;
+    body += `<rect x="${n.x}" y="${n.y}" width="5" height="${NODE_H}" rx="2" fill="${stripe}"/>`;
+    body += `<text x="${n.x + 14}" y="${n.y + 18}" font-size="11" font-weight="bold" fill="${critical ? '#b91c1c' : '#64748b'}">${escapeXml(n.id)}</text>`;
+    const badge = n.estimate ? `${pertExpected(n.estimate).toFixed(1)}d` : n.duration > 0 ? `${n.duration}d` : '';
+    if (badge) body += `<text x="${n.x + NODE_W - 10}" y="${n.y + 18}" font-size="10" text-anchor="end" fill="#64748b">${badge}</text>`;
+    wrapText(n.title || (language === 'si' ? 'Naloga brez naziva' : 'Untitled Task'), NODE_W - 24, 11, 3).forEach((line, i) => {
+      body += `<text x="${n.x + 14}" y="${n.y + 36 + i * 13}" font-size="11" font-weight="600" fill="#1e293b">${escapeXml(line)}</text>`;
+    });
+  });
+
+  const defs = arrowMarker('pert-arrow', '#cbd5e1') + arrowMarker('pert-arrow-critical', '#dc2626');
+  return { svg: svgDocument(width, height, defs, body), width, height };
+};
+
+// ─── ORGANIGRAM ──────────────────────────────────────────────────
+
+export const renderOrganigramSvg = (structure: any, activities: any[], language: string = 'en'): ChartSvg => {
+  const si = language === 'si';
+  const BOX_W = 220;
+  const BOX_H = 76;
+  const WP_W = 150;
+  const WP_H = 84;
+  const WP_GAP = 18;
+  const WP_PER_ROW = 6;
+  const wps = Array.isArray(activities) ? activities : [];
+
+  const wpRowW = Math.min(Math.max(wps.length, 1), WP_PER_ROW) * (WP_W + WP_GAP) - WP_GAP;
+  const width = Math.max(3 * BOX_W + 2 * 60, wpRowW) + 80;
+  const cx = width / 2;
+
+  const box = (x: number, y: number, w: number, h: number, accent: string, title: string, role: string): string => {
+    let out = `<rect x="${x}" y="${y}" width="${w}" height="${h}" rx="10" fill="#ffffff" stroke="#e2e8f0"/>`;
+    out += `<rect x="${x}" y="${y}" width="${w}" height="5" rx="2" fill="${accent}"/>`;
+    wrapText(title, w - 20, 12, 2).forEach((line, i) => {
+      out += `<text x="${x + w / 2}" y="${y + 28 + i * 15}" font-size="12" font-weight="bold" text-anchor="middle" fill="#1e293b">${escapeXml(line)}</text>`;
+    });
+    out += `<text x="${x + w / 2}" y="${y + h - 10}" font-size="9" text-anchor="middle" fill="#64748b" letter-spacing="0.5">${escapeXml(role.toUpperCase())}</text>`;
+    return out;
+  };
+
+  const top = 30;
+  const leftX = cx - BOX_W * 1.5 - 60;
+  const rightX = cx + BOX_W * 0.5 + 60;
+  let body = '';
+
+  body += `<line x1="${leftX + BOX_W}" y1="${top + 20 + BOX_H / 2}" x2="${cx - BOX_W / 2}" y2="${top + 20 + BOX_H / 2}" stroke="#cbd5e1" stroke-width="2"/>`;
+  body += `<line x1="${cx + BOX_W / 2}" y1="${top + 20 + BOX_H / 2}" x2="${rightX}" y2="${top + 20 + BOX_H / 2}" stroke="#cbd5e1" stroke-width="2" stroke-dasharray="6 4"/>`;
+  body += box(leftX, top + 20, BOX_W, BOX_H, '#f59e0b', structure?.steeringCommittee || 'Steering Committee', si ? 'Odločanje' : 'Decision Making');
+  body += box(cx - BOX_W / 2, top, BOX_W, BOX_H + 10, '#0284c7', structure?.coordinator || 'Project Coordinator', si ? 'Vodenje & Koordinacija' : 'Management & Coordination');
+  body += box(rightX, top + 20, BOX_W, BOX_H, '#a855f7', structure?.advisoryBoard || 'Advisory Board', si ? 'Strokovno Svetovanje' : 'Expert Consulting');
+
+  const techY = top + BOX_H + 60;
+  body += `<line x1="${cx}" y1="${top + BOX_H + 10}" x2="${cx}" y2="${techY}" stroke="#cbd5e1" stroke-width="2"/>`;
+  body += box(cx - BOX_W / 2, techY, BOX_W, BOX_H, '#10b981', structure?.technical || (si ? 'Tehnični vodja' : 'Technical Manager'), si ? 'Operativa & Kakovost' : 'Ops & Quality Assurance');
+
+  const wpLeaders = structure?.wpLeaders || (si ? 'Vodje DS' : 'WP Leaders');
+  const busY = techY + BOX_H + 30;
+  let height = busY + 20;
+  if (wps.length > 0) {
+    body += `<line x1="${cx}" y1="${techY + BOX_H}" x2="${cx}" y2="${busY}" stroke="#cbd5e1" stroke-width="2"/>`;
+    for (let r = 0; r * WP_PER_ROW < wps.length; r++) {
+      const rowWps = wps.slice(r * WP_PER_ROW, (r + 1) * WP_PER_ROW);
+      const rowW = rowWps.length * (WP_W + WP_GAP) - WP_GAP;
+      const startX = cx - rowW / 2;
+      const busRowY = busY + r * (WP_H + 40);
+      const y = busRowY + 20;
+      if (rowWps.length > 1) {
+        body += `<line x1="${startX + WP_W / 2}" y1="${busRowY}" x2="${startX + rowW - WP_W / 2}" y2="${busRowY}" stroke="#cbd5e1" stroke-width="2"/>`;
+      }
+      if (r > 0) body += `<line x1="${cx}" y1="${busRowY - 40}" x2="${cx}" y2="${busRowY}" stroke="#cbd5e1" stroke-width="2"/>`;
+      rowWps.forEach((wp: any, i: number) => {
+        const x = startX + i * (WP_W + WP_GAP);
+        body += `<line x1="${x + WP_W / 2}" y1="${busRowY}" x2="${x + WP_W / 2}" y2="${y}" stroke="#cbd5e1" stroke-width="2"/>`;
+        body += `<rect x="${x}" y="${y}" width="${WP_W}" height="${WP_H}" rx="10" fill="#ffffff" stroke="#e2e8f0"/>`;
+        body += `<rect x="${x}" y="${y + WP_H - 4}" width="${WP_W}" height="4" rx="2" fill="#cbd5e1"/>`;
+        body += `<text x="${x + WP_W / 2}" y="${y + 18}" font-size="11" font-weight="bold" text-anchor="middle" fill="#475569">${escapeXml(wp.id || '')}</text>`;
+        wrapText(wp.title || 'Untitled WP', WP_W - 16, 10, 3).forEach((line, li) => {
+          body += `<text x="${x + WP_W / 2}" y="${y + 34 + li * 12}" font-size="10" font-weight="bold" text-anchor="middle" fill="#334155">${escapeXml(line)}</text>`;
+        });
+        body += `<text x="${x + WP_W / 2}" y="${y + WP_H - 10}" font-size="8" text-anchor="middle" fill="#94a3b8">${escapeXml(String(wpLeaders).toUpperCase())}</text>`;
+      });
+      height = y + WP_H + 30;
+    }
+  }
+
+  return { svg: svgDocument(width, height, '', body), width, height };
+};
+
+export const renderChartSvg = (kind: ChartKind, projectData: any, language: string = 'en', options: { width?: number; baseline?: ScheduleBaseline | null } = {}): ChartSvg | null => {
+  if (kind === 'gantt') return renderGanttSvg(projectData?.activities, language, options);
+  if (kind === 'pert') return renderPertSvg(projectData?.activities, language);
+  return renderOrganigramSvg(projectData?.projectManagement?.structure, projectData?.activities, language);
+};
+
+// ─── RASTER / DOWNLOAD ───────────────────────────────────────────
+
+export const svgToPng = (chart: ChartSvg, dpi: number = 192): Promise<ChartPng> =>
+  new Promise((resolve, reject) => {
+    const scale = Math.max(dpi, 24) / 96;
+    const url = URL.createObjectURL(new Blob([chart.svg], { type: 'image/svg+xml;charset=utf-8' }));
+    const img = new Image();
+    img.onload = () => {
+      try {
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(chart.width * scale);
+        canvas.height = Math.round(chart.height * scale);
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error('Canvas 2D context not available.');
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+        resolve({ dataUrl: canvas.toDataURL('image/png'), width: canvas.width, height: canvas.height });
+      } catch (e) {
+        reject(e);
+      } finally {
+        URL.revokeObjectURL(url);
+      }
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('SVG could not be rasterized.'));
+    };
+    img.src = url;
+  });
+
+export const downloadChartSvg = (chart: ChartSvg, fileName: string): void =>
+  downloadBlob(new Blob([chart.svg], { type: 'image/svg+xml;charset=utf-8' }), fileName);
+
+export const downloadChartPng = async (chart: ChartSvg, fileName: string, dpi: number = 192): Promise<void> => {
+  const png = await svgToPng(chart, dpi);
+  const blob = await (await fetch(png.dataUrl)).blob();
+  downloadBlob(blob, fileName);
+};
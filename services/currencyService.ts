@@ -0,0 +1,206 @@
+// services/currencyService.ts
+// ═══════════════════════════════════════════════════════════════
+// Multi-currency budgeting — conversion of cost items to EUR.
+// v1.0 — 2026-03-07
+//
+// FEATURES:
+//   - DirectCostItem.currency (ISO 4217, missing = EUR)
+//   - Project exchange-rate table (ProjectData.exchangeRates), ECB
+//     convention: 1 EUR = rate × currency, so EUR = amount / rate
+//   - directCostAmountEur(): the EUR value every budget total uses;
+//     an item without a rate counts as 0 and is reported by
+//     findMissingExchangeRates()
+//   - parseEcbRatesCsv(): ECB reference rates as downloaded —
+//     eurofxref.csv / eurofxref-hist.csv (one column per currency,
+//     newest date taken) or the ECB Data Portal CSV (CURRENCY /
+//     TIME_PERIOD / OBS_VALUE columns). No live service.
+// ═══════════════════════════════════════════════════════════════
+
+import type { ExchangeRate } from '../types.ts';
+
+// ─── TYPES ───────────────────────────────────────────────────────
+
+export interface EcbRatesImport {
+  date: string | null;
+  rates: Record<string, number>;
+}
+
+export interface ForeignCurrencyLine {
+  wpId: string;
+  taskId: string;
+  partnerCode: string;
+  categoryKey: string;
+  name: string;
+  currency: string;
+  amount: number;           // original currency
+  rate: number | null;      // 1 EUR = rate × currency
+  amountEur: number;
+}
+
+// ─── CONSTANTS ───────────────────────────────────────────────────
+
+export const BASE_CURRENCY = 'EUR';
+
+// Non-euro currencies of EU / programme countries offered in the pickers
+export const COMMON_CURRENCIES = ['BGN', 'CZK', 'DKK', 'HUF', 'PLN', 'RON', 'SEK', 'CHF', 'NOK', 'ISK', 'GBP', 'TRY', 'USD'];
+
+// ─── HELPERS ─────────────────────────────────────────────────────
+
+const round2 = (n: number): number => Math.round(n * 100) / 100;
+
+export const normalizeCurrency = (code: string | null | undefined): string =>
+  (code || '').trim().toUpperCase() || BASE_CURRENCY;
+
+export const getExchangeRates = (projectData: any): ExchangeRate[] =>
+  Array.isArray(projectData?.exchangeRates?.rates) ? projectData.exchangeRates.rates : [];
+
+export const getExchangeRate = (projectData: any, currency: string | null | undefined): number | null => {
+  const code = normalizeCurrency(currency);
+  if (code === BASE_CURRENCY) return 1;
+  const entry = getExchangeRates(projectData).find((r) => normalizeCurrency(r.currency) === code);
+  return entry && entry.rate > 0 ? entry.rate : null;
+};
+
+export const convertToEur = (amount: number, currency: string | null | undefined, projectData: any): number | null => {
+  const rate = getExchangeRate(projectData, currency);
+  return rate === null ? null : round2((amount || 0) / rate);
+};
+
+export const directCostAmountEur = (dc: any, projectData: any): number => {
+  if (normalizeCurrency(dc?.currency) === BASE_CURRENCY) return dc?.amount || 0;
+  return convertToEur(dc?.amount || 0, dc.currency, projectData) ?? 0;
+};
+
+export const isForeignCurrency = (dc: any): boolean => normalizeCurrency(dc?.currency) !== BASE_CURRENCY;
+
+export const formatMoney = (amount: number, currency: string | null | undefined): string => {
+  const code = normalizeCurrency(currency);
+  const value = (amount || 0).toLocaleString('de-DE', { minimumFractionDigits: 0, maximumFractionDigits: 2 });
+  return code === BASE_CURRENCY ? `€${value}` : `${code} ${value}`;
+};
+
+// ─── PROJECT SCAN ────────────────────────────────────────────────
+
+export const collectForeignCurrencyLines = (projectData: any): ForeignCurrencyLine[] => {
+  const partners = Array.isArray(projectData?.partners) ? projectData.partners : [];
+  const activities = Array.isArray(projectData?.activities) ? projectData.activities : [];
+  const lines: ForeignCurrencyLine[] = [];
+  activities.forEach((wp: any) => {
+    (wp.tasks || []).forEach((task: any) => {
+      (task.partnerAllocations || []).forEach((alloc: any) => {
+        const partner = partners.find((p: any) => p.id === alloc.partnerId);
+        (alloc.directCosts || []).forEach((dc: any) => {
+          if (!isForeignCurrency(dc)) return;
+          lines.push({
+            wpId: wp.id, taskId: task.id, partnerCode: partner?.code || '?',
+            categoryKey: dc.categoryKey || '', name: dc.name || '',
+            currency: normalizeCurrency(dc.currency),
+            amount: dc.amount || 0,
+            rate: getExchangeRate(projectData, dc.currency),
+            amountEur: directCostAmountEur(dc, projectData),
+          });
+        });
+      });
+    });
+  });
+  return lines;
+};
+
+// Currencies used by cost items that have no rate in the project table
+export const findMissingExchangeRates = (projectData: any): string[] =>
+  Array.from(new Set(collectForeignCurrencyLines(projectData).filter((l) => l.rate === null).map((l) => l.currency))).sort();
+
+// ─── ECB CSV IMPORT ──────────────────────────────────────────────
+
+const splitCsvLine = (line: string): string[] => {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') {
+      if (quoted && line[i + 1] === '"') { current += '"'; i++; } else quoted = !quoted;
+    } else if (ch === ',' && !quoted) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+};
+
+// "2026-10-16" or "16 October 2026" → YYYY-MM-DD
+const parseEcbDate = (value: string): string | null => {
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) return value;
+  const parsed = new Date(`${value} UTC`);
+  return isNaN(parsed.getTime()) ? null : parsed.toISOString().slice(0, 10);
+};
+
+export const parseEcbRatesCsv = (text: string): EcbRatesImport => {
+  const lines = text.replace(/^﻿/, '').split(/\r?\n/).filter((l) => l.trim());
+  if (lines.length < 2) throw new Error('CSV has no data rows');
+  const header = splitCsvLine(lines[0]).map((h) => h.toUpperCase());
+  const rows = lines.slice(1).map(splitCsvLine);
+  const rates: Record<string, number> = {};
+
+  // ECB Data Portal: one observation per row
+  const currencyCol = header.indexOf('CURRENCY');
+  const valueCol = header.indexOf('OBS_VALUE');
+  const periodCol = header.indexOf('TIME_PERIOD');
+  if (currencyCol >= 0 && valueCol >= 0) {
+    const latest: Record<string, string> = {};
+    let date: string | null = null;
+    rows.forEach((cells) => {
+      const code = (cells[currencyCol] || '').toUpperCase();
+      const value = parseFloat(cells[valueCol]);
+      const period = periodCol >= 0 ? cells[periodCol] || '' : '';
+      if (!/^[A-Z]{3}$/.test(code) || !(value > 0)) return;
+      if (latest[code] && latest[code] > period) return;
+      latest[code] = period;
+      rates[code] = value;
+      if (!date || period > date) date = period;
+    });
+    if (Object.keys(rates).length === 0) throw new Error('No exchange rates found in CSV');
+    return { date: date ? parseEcbDate(date) : null, rates };
+  }
+
+  // eurofxref(-hist).csv: Date, USD, JPY, ... — newest row
+  if (header[0] !== 'DATE') throw new Error('Unrecognized CSV format (expected an ECB reference rate file)');
+  const dated = rows
+    .map((cells) => ({ cells, date: parseEcbDate(cells[0] || '') }))
+    .filter((r) => r.date)
+    .sort((a, b) => (a.date! < b.date! ? 1 : -1));
+  if (dated.length === 0) throw new Error('No dated rows found in CSV');
+  const newest = dated[0];
+  header.forEach((code, col) => {
+    if (col === 0 || !/^[A-Z]{3}$/.test(code)) return;
+    const value = parseFloat(newest.cells[col]);
+    if (value > 0) rates[code] = value;
+  });
+  if (Object.keys(rates).length === 0) throw new Error('No exchange rates found in CSV');
+  return { date: newest.date, rates };
+};
+
+// Merges imported rates into the table — only currencies already in the
+// table or used by cost items, unless all = true
+export const mergeEcbRates = (
+  current: ExchangeRate[],
+  imported: EcbRatesImport,
+  usedCurrencies: string[],
+  all: boolean = false
+): ExchangeRate[] => {
+  const wanted = new Set([...current.map((r) => normalizeCurrency(r.currency)), ...usedCurrencies]);
+  const next = current.map((r) => {
+    const value = imported.rates[normalizeCurrency(r.currency)];
+    return value ? { ...r, rate: value, date: imported.date, source: 'ecb' as const } : r;
+  });
+  Object.entries(imported.rates).forEach(([code, value]) => {
+    if (code === BASE_CURRENCY || next.some((r) => normalizeCurrency(r.currency) === code)) return;
+    if (!all && !wanted.has(code)) return;
+    next.push({ currency: code, rate: value, date: imported.date, source: 'ecb' });
+  });
+  return next.sort((a, b) => a.currency.localeCompare(b.currency));
+};
@@ -1,5 +1,14 @@
 // services/docxGenerator.ts
 // ═══════════════════════════════════════════════════════════════
+// v6.9 — 2026-03-07 — Finance: totals in EUR (directCostAmountEur); foreign currency table with original and EUR amounts + rates used
+// v6.8 — 2026-03-07 — Finance: unit cost table (catalogue, units × rate) for catalogue-priced cost items
+// v6.7 — 2026-03-07 — Finance in lump-sum mode: lump sum breakdown (WP × partner), detailed budget
+//   table (cost groups A–E) and WP completion table instead of the funding request
+// v6.6 — 2026-03-07 — Finance: funding request tables (EU vs own contribution per partner / WP);
+//   allocations from budgetService so indirect costs follow indirectCostSettings
+// v6.5 — 2026-03-07 — Paginated Gantt (one image per page) in a landscape section
+// v6.4 — 2026-03-07 — Chart images typed as ChartImageData (PNG from chartSvgService)
+// v6.3 — 2026-03-07 — Task table: dependencies column with type and lag ("T1.1 FS +2 mo")
 // v6.2 — 2026-02-24 — DEFENSIVE ARRAY HANDLING (safeArray)
 //   ★ v6.2: NEW safeArray() utility — handles AI returning objects
 //           instead of arrays (e.g. { objectives: [...] } vs [...])
@@ -11,6 +20,11 @@
 import * as docx from 'docx';
 import { getSteps, getReadinessLevelsDefinitions } from '../constants.tsx';
 import { TEXT } from '../locales.ts';
+import { formatDependency } from '../utils.ts';
+import { collectBudgetAllocations, computeFundingSummary, getDirectCostDefs } from './budgetService.ts';
+import { computeLumpSumBreakdown, isLumpSumMode, LUMP_SUM_COST_GROUPS } from './lumpSumService.ts';
+import { collectUnitCostLines } from './unitCostService.ts';
+import { collectForeignCurrencyLines, directCostAmountEur, getExchangeRates, normalizeCurrency } from './currencyService.ts';
 import {
     PM_HOURS_PER_MONTH,
     CENTRALIZED_DIRECT_COSTS,
@@ -29,7 +43,7 @@ const safeArray = (v: any): any[] => {
   return [];
 };
 
-const { Document, Packer, Paragraph, HeadingLevel, TextRun, Table, TableRow, TableCell, WidthType, ShadingType, AlignmentType, VerticalAlign, ImageRun, TableOfContents } = docx;
+const { Document, Packer, Paragraph, HeadingLevel, TextRun, Table, TableRow, TableCell, WidthType, ShadingType, AlignmentType, VerticalAlign, ImageRun, TableOfContents, PageOrientation } = docx;
 
 // Helper to handle multi-line text from textareas
 const splitText = (text) => {
@@ -84,14 +98,16 @@ const headerCell = (text, width = undefined) => new TableCell({
     ...(width ? { width: { size: width, type: WidthType.PERCENTAGE } } : {}),
 });
 
+type CellAlignment = (typeof AlignmentType)[keyof typeof AlignmentType];
+
 // Helper: create a regular cell
-const cell = (text, align = AlignmentType.LEFT) => new TableCell({
+const cell = (text, align: CellAlignment = AlignmentType.LEFT) => new TableCell({
     children: [new Paragraph({ children: [new TextRun(text || '—')], alignment: align })],
     verticalAlign: VerticalAlign.CENTER,
 });
 
 // Helper: create a bold total cell
-const totalCell = (text, align = AlignmentType.LEFT) => new TableCell({
+const totalCell = (text, align: CellAlignment = AlignmentType.LEFT) => new TableCell({
     children: [new Paragraph({ children: [Bold(text || '—')], alignment: align })],
     shading: { type: ShadingType.SOLID, color: 'f2f2f2' },
     verticalAlign: VerticalAlign.CENTER,
@@ -140,32 +156,9 @@ const parseMarkdownToDocx = (text) => {
 // ═══════════════════════════════════════════════════════════════
 // ★ v6.1: Collect finance allocations from project data
 // ═══════════════════════════════════════════════════════════════
-const collectAllocations = (projectData) => {
-    const partners = projectData.partners || [];
-    const activities = Array.isArray(projectData.activities) ? projectData.activities : [];
-    const allAllocations: any[] = [];
-
-    activities.forEach((wp: any) => {
-        (wp.tasks || []).forEach((task: any) => {
-            (task.partnerAllocations || []).forEach((alloc: any) => {
-                const partner = partners.find((p: any) => p.id === alloc.partnerId);
-                const directTotal = (alloc.directCosts || []).reduce((sum: number, dc: any) => sum + (dc.amount || 0), 0);
-                const indirectTotal = (alloc.indirectCosts || []).reduce((sum: number, ic: any) => {
-                    return sum + Math.round(directTotal * ((ic.percentage || 0) / 100));
-                }, 0);
-                allAllocations.push({
-                    wpId: wp.id, wpTitle: wp.title || '',
-                    taskId: task.id, taskTitle: task.title || '',
-                    partnerId: alloc.partnerId, partnerCode: partner?.code || '?',
-                    hours: alloc.hours || 0, pm: alloc.pm || 0,
-                    directTotal, indirectTotal, total: directTotal + indirectTotal,
-                });
-            });
-        });
-    });
-
-    return allAllocations;
-};
+// ★ v6.6: Delegates to budgetService — indirect costs from indirectCostSettings,
+// same figures as the Finance view and the funding request
+const collectAllocations = (projectData) => collectBudgetAllocations(projectData);
 
 
 // ═══════════════════════════════════════════════════════════════
@@ -204,7 +197,19 @@ export const generateSummaryDocx = async (summaryText, projectTitle, language =
 // ═══════════════════════════════════════════════════════════════
 //  FULL PROJECT DOCX EXPORT (with TOC and page breaks)
 // ═══════════════════════════════════════════════════════════════
-export const generateDocx = async (projectData, language = 'en', ganttData = null, pertData = null, organigramData = null) => {
+// PNG data URL + pixel size; only the aspect ratio is used for placement
+interface ChartImageData {
+  dataUrl: string;
+  width: number;
+  height: number;
+  title?: string;
+}
+
+// Text area of a landscape A4 page with the default 1" margins, in px (96 dpi),
+// less room for the page caption
+const LANDSCAPE_IMAGE_MAX = { width: 930, height: 560 };
+
+export const generateDocx = async (projectData, language = 'en', ganttPages: ChartImageData[] = [], pertData: ChartImageData | null = null, organigramData: ChartImageData | null = null) => {
   const { problemAnalysis, projectIdea, generalObjectives, specificObjectives, activities, outputs, outcomes, impacts, risks, kers, projectManagement } = projectData;
   const STEPS = getSteps(language);
   const t = TEXT[language];
@@ -355,12 +360,13 @@ export const generateDocx = async (projectData, language = 'en', ganttData = nul
             new TableCell({ children: [P(task.description)] }),
             new TableCell({ children: [P(task.startDate)] }),
             new TableCell({ children: [P(task.endDate)] }),
+            new TableCell({ children: [P((task.dependencies || []).map(dep => formatDependency(dep, language)).join(', '))] }),
         ]
     }));
     children.push(new Table({
         rows: [
             new TableRow({
-                children: [t.id, t.title, t.description, t.startDate, t.endDate].map(header => new TableCell({ children: [new Paragraph({ children: [Bold(header)] })], shading: { type: ShadingType.SOLID, color: 'f2f2f2' } })),
+                children: [t.id, t.title, t.description, t.startDate, t.endDate, t.dependencies].map(header => new TableCell({ children: [new Paragraph({ children: [Bold(header)] })], shading: { type: ShadingType.SOLID, color: 'f2f2f2' } })),
                 tableHeader: true,
             }),
             ...taskRows
@@ -388,7 +394,7 @@ export const generateDocx = async (projectData, language = 'en', ganttData = nul
         });
         const allocRows = taskAllocs.map(alloc => {
             const partner = partners.find(p => p.id === alloc.partnerId);
-            const dTotal = (alloc.directCosts || []).reduce((s, dc) => s + (dc.amount || 0), 0);
+            const dTotal = (alloc.directCosts || []).reduce((s, dc) => s + directCostAmountEur(dc, projectData), 0);
             const iTotal = (alloc.indirectCosts || []).reduce((s, ic) => s + Math.round(dTotal * ((ic.percentage || 0) / 100)), 0);
             return new TableRow({
                 children: [
@@ -420,19 +426,23 @@ export const generateDocx = async (projectData, language = 'en', ganttData = nul
     }
   });
 
-  // Gantt Chart
-  children.push(H2(t.ganttChart));
-  if (ganttData && ganttData.dataUrl) {
-      try {
-          const imgWidth = 680;
-          const aspectRatio = ganttData.height / ganttData.width;
-          const imgHeight = imgWidth * aspectRatio;
-          const base64Data = ganttData.dataUrl.split(',')[1] || ganttData.dataUrl;
-          const imageBuffer = base64DataToUint8Array(base64Data);
-          children.push(new Paragraph({ children: [new ImageRun({ data: imageBuffer, transformation: { width: imgWidth, height: imgHeight }, type: "png" })] }));
-      } catch (e) { console.warn("Could not embed Gantt image", e); }
+  // Gantt Chart — ★ v6.5: one image per page in its own landscape section
+  const beforeGantt = children.splice(0, children.length);
+  const ganttChildren: docx.Paragraph[] = [H2(t.ganttChart)];
+  if (ganttPages.length > 0) {
+      ganttPages.forEach((page, i) => {
+          try {
+              const scale = Math.min(LANDSCAPE_IMAGE_MAX.width / page.width, LANDSCAPE_IMAGE_MAX.height / page.height);
+              const base64Data = page.dataUrl.split(',')[1] || page.dataUrl;
+              const imageBuffer = base64DataToUint8Array(base64Data);
+              if (ganttPages.length > 1) {
+                  ganttChildren.push(new Paragraph({ pageBreakBefore: i > 0, children: [new TextRun({ text: page.title || `${i + 1}/${ganttPages.length}`, italics: true, size: 18, color: "666666" })] }));
+              }
+              ganttChildren.push(new Paragraph({ children: [new ImageRun({ data: imageBuffer, transformation: { width: Math.round(page.width * scale), height: Math.round(page.height * scale) }, type: "png" })] }));
+          } catch (e) { console.warn("Could not embed Gantt image", e); }
+      });
   } else {
-      children.push(new Paragraph({ children: [new TextRun({ text: "[Gantt Chart Image Missing]", italics: true, color: "FF0000" })] }));
+      ganttChildren.push(new Paragraph({ children: [new TextRun({ text: "[Gantt Chart Image Missing]", italics: true, color: "FF0000" })] }));
   }
 
   // PERT Chart
@@ -506,6 +516,173 @@ export const generateDocx = async (projectData, language = 'en', ganttData = nul
       });
       const pTotalRow = new TableRow({ children: [totalCell(tf.grandTotal || 'TOTAL'), totalCell(`€${grandDirect.toLocaleString()}`, AlignmentType.RIGHT), totalCell(`€${grandIndirect.toLocaleString()}`, AlignmentType.RIGHT), totalCell(`€${grandTotal.toLocaleString()}`, AlignmentType.RIGHT), totalCell(String(grandHours), AlignmentType.RIGHT), totalCell(grandPM.toFixed(1), AlignmentType.RIGHT)] });
       children.push(new Table({ rows: [pHeaderRow, ...pDataRows, pTotalRow], width: { size: 100, type: WidthType.PERCENTAGE } }));
+
+      const si = language === 'si';
+      if (isLumpSumMode(projectData)) {
+          // ★ v6.7: Lump-sum Part B layout
+          const lump = computeLumpSumBreakdown(projectData);
+          const eur = (n: number) => `€${n.toLocaleString()}`;
+          children.push(H3(si ? 'Razčlenitev pavšalnega zneska' : 'Lump sum breakdown'));
+          children.push(new Paragraph({ children: [
+              Bold(`${si ? 'Ocenjeni stroški' : 'Estimated costs'}: `), new TextRun(`${eur(lump.totals.estimatedCost)}  |  `),
+              Bold(`${si ? 'Pavšalni znesek' : 'Lump sum'}: `), new TextRun({ text: eur(lump.totals.lumpSum), bold: true }),
+          ], spacing: { before: 100, after: 150 } }));
+          children.push(new Table({
+              rows: [
+                  new TableRow({ children: [headerCell('WP'), ...lump.partners.map(p => headerCell(p.code)), headerCell(tf.grandTotal || 'Total')], tableHeader: true }),
+                  ...lump.workPackages.map(wp => new TableRow({ children: [
+                      cell(wp.wpId),
+                      ...wp.cells.map(c => cell(eur(c.share), AlignmentType.RIGHT)),
+                      totalCell(eur(wp.total), AlignmentType.RIGHT),
+                  ] })),
+                  new TableRow({ children: [
+                      totalCell(tf.grandTotal || 'TOTAL'),
+                      ...lump.partners.map(p => totalCell(eur(p.lumpSum), AlignmentType.RIGHT)),
+                      totalCell(eur(lump.totals.lumpSum), AlignmentType.RIGHT),
+                  ] }),
+              ],
+              width: { size: 100, type: WidthType.PERCENTAGE },
+          }));
+
+          children.push(H3(si ? 'Podrobna tabela proračuna' : 'Detailed budget table'));
+          children.push(new Table({
+              rows: [
+                  new TableRow({ children: [
+                      headerCell(tp.code || 'Partner'), headerCell(tp.totalPM || 'PM'),
+                      ...LUMP_SUM_COST_GROUPS.map(g => headerCell(g.key)),
+                      headerCell(si ? 'Ocenjeni stroški' : 'Estimated costs'), headerCell(si ? 'Stopnja' : 'Rate'),
+                      headerCell(si ? 'Največji EU prispevek' : 'Max. EU contribution'), headerCell(si ? 'Pavšal' : 'Lump sum'),
+                  ], tableHeader: true }),
+                  ...lump.partners.map(p => new TableRow({ children: [
+                      cell(p.code), cell(p.pm.toFixed(1), AlignmentType.RIGHT),
+                      ...LUMP_SUM_COST_GROUPS.map(g => cell(eur(p.groups[g.key]), AlignmentType.RIGHT)),
+                      cell(eur(p.estimatedCost), AlignmentType.RIGHT), cell(`${p.fundingRate}%`, AlignmentType.RIGHT),
+                      cell(eur(p.maxContribution), AlignmentType.RIGHT), cell(eur(p.lumpSum), AlignmentType.RIGHT),
+                  ] })),
+                  new TableRow({ children: [
+                      totalCell(tf.grandTotal || 'TOTAL'), totalCell(lump.totals.pm.toFixed(1), AlignmentType.RIGHT),
+                      ...LUMP_SUM_COST_GROUPS.map(g => totalCell(eur(lump.totals.groups[g.key]), AlignmentType.RIGHT)),
+                      totalCell(eur(lump.totals.estimatedCost), AlignmentType.RIGHT), totalCell(''),
+                      totalCell(eur(lump.totals.maxContribution), AlignmentType.RIGHT), totalCell(eur(lump.totals.lumpSum), AlignmentType.RIGHT),
+                  ] }),
+              ],
+              width: { size: 100, type: WidthType.PERCENTAGE },
+          }));
+          children.push(new Paragraph({ children: [new TextRun({ text: LUMP_SUM_COST_GROUPS.map(g => si ? g.si : g.en).join(' · '), italics: true, size: 16 })], spacing: { before: 60, after: 150 } }));
+
+          children.push(H3(si ? 'Merila zaključka delovnih sklopov' : 'Work package completion'));
+          children.push(new Table({
+              rows: [
+                  new TableRow({ children: [headerCell('WP'), headerCell(si ? 'Pavšal' : 'Lump sum'), headerCell(si ? 'Dosežki' : 'Deliverables'), headerCell(si ? 'Merila zaključka' : 'Completion criteria')], tableHeader: true }),
+                  ...lump.workPackages.map(wp => new TableRow({ children: [
+                      cell(wp.wpId),
+                      cell(eur(wp.total), AlignmentType.RIGHT),
+                      cell(wp.completionDeliverables.map(d => `${d.id} ${d.title}`).join('; ')),
+                      cell(wp.completionCriteria),
+                  ] })),
+              ],
+              width: { size: 100, type: WidthType.PERCENTAGE },
+          }));
+      } else {
+          // ★ v6.6: Funding request — EU contribution vs partner co-financing
+          const funding = computeFundingSummary(projectData);
+          children.push(H3(si ? 'Zaprošeno sofinanciranje' : 'Funding request'));
+          children.push(new Paragraph({ children: [
+              Bold(`${si ? 'EU prispevek' : 'EU contribution'}: `), new TextRun(`€${funding.euContribution.toLocaleString()}  |  `),
+              Bold(`${si ? 'Lastni delež partnerjev' : 'Partner co-financing'}: `), new TextRun(`€${funding.ownContribution.toLocaleString()}  |  `),
+              Bold(`${si ? 'Povprečna stopnja' : 'Average rate'}: `), new TextRun(`${Math.round(funding.effectiveRate * 10) / 10}%`),
+          ], spacing: { before: 100, after: 150 } }));
+          const fundingTable = (lines, firstHeader: string, showRate: boolean) => new Table({
+              rows: [
+                  new TableRow({
+                      children: [headerCell(firstHeader), headerCell(si ? 'Stopnja' : 'Rate'), headerCell(tf.grandTotal || 'Total'), headerCell(si ? 'EU prispevek' : 'EU contribution'), headerCell(si ? 'Lastni delež' : 'Own contribution')],
+                      tableHeader: true,
+                  }),
+                  ...lines.map(line => new TableRow({ children: [
+                      cell(line.code),
+                      cell(showRate ? `${line.fundingRate}%` : `${line.total > 0 ? Math.round(line.euContribution / line.total * 1000) / 10 : 0}%`, AlignmentType.RIGHT),
+                      cell(`€${line.total.toLocaleString()}`, AlignmentType.RIGHT),
+                      cell(`€${line.euContribution.toLocaleString()}`, AlignmentType.RIGHT),
+                      cell(`€${line.ownContribution.toLocaleString()}`, AlignmentType.RIGHT),
+                  ] })),
+                  new TableRow({ children: [
+                      totalCell(tf.grandTotal || 'TOTAL'),
+                      totalCell(`${Math.round(funding.effectiveRate * 10) / 10}%`, AlignmentType.RIGHT),
+                      totalCell(`€${funding.total.toLocaleString()}`, AlignmentType.RIGHT),
+                      totalCell(`€${funding.euContribution.toLocaleString()}`, AlignmentType.RIGHT),
+                      totalCell(`€${funding.ownContribution.toLocaleString()}`, AlignmentType.RIGHT),
+                  ] }),
+              ],
+              width: { size: 100, type: WidthType.PERCENTAGE },
+          });
+          children.push(fundingTable(funding.partners, tp.code || 'Partner', true));
+          children.push(new Paragraph({ text: '', spacing: { after: 150 } }));
+          children.push(fundingTable(funding.workPackages, 'WP', false));
+      }
+
+      // ★ v6.8: Unit costs — how catalogue-priced amounts were calculated
+      const unitLines = collectUnitCostLines(projectData);
+      if (unitLines.length > 0) {
+          const costDefs = getDirectCostDefs(fundingModel);
+          children.push(H3(si ? 'Stroški na enoto' : 'Unit costs'));
+          children.push(new Table({
+              rows: [
+                  new TableRow({ children: [
+                      headerCell('WP'), headerCell(si ? 'Naloga' : 'Task'), headerCell(tp.code || 'Partner'),
+                      headerCell(si ? 'Kategorija' : 'Category'), headerCell(si ? 'Katalog / postavka' : 'Catalogue / rate item'),
+                      headerCell(si ? 'Enote × postavka' : 'Units × rate'), headerCell(si ? 'Znesek' : 'Amount'),
+                  ], tableHeader: true }),
+                  ...unitLines.map(line => new TableRow({ children: [
+                      cell(line.wpId), cell(line.taskId), cell(line.partnerCode),
+                      cell(costDefs.find(c => c.key === line.categoryKey)?.[lang] || line.name),
+                      cell(`${line.calculation.catalogue}: ${line.calculation.label}${line.calculation.countryCode ? ` (${line.calculation.countryCode})` : ''}`),
+                      cell(`${line.calculation.units} ${line.calculation.unit} × €${line.calculation.rate.toLocaleString()}`, AlignmentType.RIGHT),
+                      cell(`€${line.amount.toLocaleString()}`, AlignmentType.RIGHT),
+                  ] })),
+                  new TableRow({ children: [
+                      totalCell(tf.grandTotal || 'TOTAL'), totalCell(''), totalCell(''), totalCell(''), totalCell(''), totalCell(''),
+                      totalCell(`€${unitLines.reduce((sum, l) => sum + l.amount, 0).toLocaleString()}`, AlignmentType.RIGHT),
+                  ] }),
+              ],
+              width: { size: 100, type: WidthType.PERCENTAGE },
+          }));
+      }
+
+      // ★ v6.9: Cost items in other currencies — original amount and EUR value used in the totals
+      const currencyLines = collectForeignCurrencyLines(projectData);
+      if (currencyLines.length > 0) {
+          const costDefs = getDirectCostDefs(fundingModel);
+          const usedCodes = new Set(currencyLines.map(l => l.currency));
+          const usedRates = getExchangeRates(projectData).filter(r => usedCodes.has(normalizeCurrency(r.currency)));
+          children.push(H3(si ? 'Stroški v drugih valutah' : 'Costs in other currencies'));
+          if (usedRates.length > 0) {
+              children.push(new Paragraph({ children: [
+                  Bold(si ? 'Uporabljeni tečaji (1 EUR = ): ' : 'Exchange rates used (1 EUR = ): '),
+                  new TextRun(usedRates.map(r => `${r.rate} ${normalizeCurrency(r.currency)}${r.date ? ` (${r.source === 'ecb' ? 'ECB ' : ''}${r.date})` : r.source === 'ecb' ? ' (ECB)' : ''}`).join('; ')),
+              ], spacing: { after: 100 } }));
+          }
+          children.push(new Table({
+              rows: [
+                  new TableRow({ children: [
+                      headerCell('WP'), headerCell(si ? 'Naloga' : 'Task'), headerCell(tp.code || 'Partner'),
+                      headerCell(si ? 'Kategorija' : 'Category'), headerCell(si ? 'Izvirni znesek' : 'Original amount'),
+                      headerCell(si ? 'Tečaj' : 'Rate'), headerCell('EUR'),
+                  ], tableHeader: true }),
+                  ...currencyLines.map(line => new TableRow({ children: [
+                      cell(line.wpId), cell(line.taskId), cell(line.partnerCode),
+                      cell(costDefs.find(c => c.key === line.categoryKey)?.[lang] || line.name),
+                      cell(`${line.amount.toLocaleString()} ${line.currency}`, AlignmentType.RIGHT),
+                      cell(line.rate !== null ? String(line.rate) : (si ? 'ni tečaja' : 'no rate'), AlignmentType.RIGHT),
+                      cell(`€${line.amountEur.toLocaleString()}`, AlignmentType.RIGHT),
+                  ] })),
+                  new TableRow({ children: [
+                      totalCell(tf.grandTotal || 'TOTAL'), totalCell(''), totalCell(''), totalCell(''), totalCell(''), totalCell(''),
+                      totalCell(`€${currencyLines.reduce((sum, l) => sum + l.amountEur, 0).toLocaleString()}`, AlignmentType.RIGHT),
+                  ] }),
+              ],
+              width: { size: 100, type: WidthType.PERCENTAGE },
+          }));
+      }
   }
 
   // Risks
@@ -552,7 +729,11 @@ export const generateDocx = async (projectData, language = 'en', ganttData = nul
         title: { run: { font: "Calibri", bold: true, size: 56, color: "2E74B5" } }
       },
     },
-    sections: [{ properties: {}, children }],
+    sections: [
+      { properties: {}, children: beforeGantt },
+      { properties: { page: { size: { orientation: PageOrientation.LANDSCAPE } } }, children: ganttChildren },
+      { properties: {}, children },
+    ],
   });
 
   return Packer.toBlob(doc);
@@ -0,0 +1,199 @@
+// services/docxImportService.ts
+// ═══════════════════════════════════════════════════════════════
+// DOCX proposal import — text by heading + assembly of ProjectData.
+// v1.0 — 2026-03-07
+//
+// FEATURES:
+//   - extractDocxSections(): word/document.xml read with JSZip (same
+//     approach as knowledgeBaseService.extractTextFromFile), paragraphs
+//     grouped under their headings; heading level from the paragraph
+//     style (Heading 1–9, Title, localized names via styles.xml) or
+//     w:outlineLvl; tables flattened to "cell | cell" lines
+//   - buildProposalText(): outline-preserving text for the AI mapping
+//     (markdown-style # headings), capped at MAX_PROPOSAL_CHARS
+//   - buildImportedProjectData(): sections accepted on the review
+//     screen merged into an empty project (safeMerge)
+//   - The AI mapping itself is geminiService.mapProposalToProjectData
+// ═══════════════════════════════════════════════════════════════
+
+import { safeMerge, createEmptyProjectData } from '../utils.ts';
+
+// ─── TYPES ───────────────────────────────────────────────────────
+
+export interface DocxSection {
+  level: number;          // 0 = text before the first heading
+  heading: string;
+  text: string;
+}
+
+export type ProposalSectionKey =
+  | 'problemAnalysis'
+  | 'projectIdea'
+  | 'generalObjectives'
+  | 'specificObjectives'
+  | 'activities'
+  | 'risks'
+  | 'kers';
+
+export interface ProposalMapping {
+  data: Partial<Record<ProposalSectionKey, any>>;
+  sources: Partial<Record<ProposalSectionKey, string[]>>;   // DOCX headings used per section
+}
+
+export const PROPOSAL_SECTIONS: { key: ProposalSectionKey; en: string; si: string }[] = [
+  { key: 'problemAnalysis', en: 'Problem analysis', si: 'Analiza problemov' },
+  { key: 'projectIdea', en: 'Project idea', si: 'Projektna ideja' },
+  { key: 'generalObjectives', en: 'General objectives', si: 'Splošni cilji' },
+  { key: 'specificObjectives', en: 'Specific objectives', si: 'Specifični cilji' },
+  { key: 'activities', en: 'Work packages', si: 'Delovni sklopi' },
+  { key: 'risks', en: 'Risks', si: 'Tveganja' },
+  { key: 'kers', en: 'Key exploitable results', si: 'Ključni izkoristljivi rezultati' },
+];
+
+// ~40 pages — keeps the mapping prompt within the context of every provider
+export const MAX_PROPOSAL_CHARS = 120000;
+
+// ─── EXTRACTION ──────────────────────────────────────────────────
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+const HEADING_STYLE_RE = /^(?:heading|berschrift|naslov|titre|titolo|encabezado|kop|nagłówek|nadpis)\s*(\d)$/i;
+
+const wAttr = (el: Element | undefined | null, name: string): string =>
+  el ? (el.getAttributeNS(W_NS, name) || el.getAttribute(`w:${name}`) || '') : '';
+
+const firstChild = (el: Element, localName: string): Element | undefined =>
+  Array.from(el.children).find((c) => c.localName === localName);
+
+// styleId → heading level (localized Word templates use ids like "Naslov1")
+const readHeadingStyles = (stylesXml: string | undefined): Record<string, number> => {
+  const levels: Record<string, number> = {};
+  if (!stylesXml) return levels;
+  const doc = new DOMParser().parseFromString(stylesXml, 'application/xml');
+  Array.from(doc.getElementsByTagNameNS(W_NS, 'style')).forEach((style) => {
+    const id = wAttr(style, 'styleId');
+    const name = wAttr(style.getElementsByTagNameNS(W_NS, 'name')[0], 'val');
+    const outline = wAttr(style.getElementsByTagNameNS(W_NS, 'outlineLvl')[0], 'val');
+    const m = name.match(HEADING_STYLE_RE) || id.match(HEADING_STYLE_RE);
+    if (m) levels[id] = parseInt(m[1], 10);
+    else if (/^title$/i.test(name)) levels[id] = 1;
+    else if (outline && /^\d$/.test(outline)) levels[id] = parseInt(outline, 10) + 1;
+  });
+  return levels;
+};
+
+const paragraphText = (p: Element): string => {
+  let text = '';
+  const walk = (el: Element) => {
+    Array.from(el.children).forEach((c) => {
+      if (c.localName === 't') text += c.textContent || '';
+      else if (c.localName === 'tab') text += '\t';
+      else if (c.localName === 'br' || c.localName === 'cr') text += '\n';
+      else if (c.localName !== 'pPr' && c.localName !== 'rPr' && c.localName !== 'del') walk(c);
+    });
+  };
+  walk(p);
+  return text.trim();
+};
+
+const paragraphLevel = (p: Element, styleLevels: Record<string, number>): number => {
+  const pPr = firstChild(p, 'pPr');
+  if (!pPr) return 0;
+  const styleId = wAttr(firstChild(pPr, 'pStyle'), 'val');
+  if (styleId) {
+    if (styleLevels[styleId]) return styleLevels[styleId];
+    const m = styleId.match(HEADING_STYLE_RE);
+    if (m) return parseInt(m[1], 10);
+    if (/^title$/i.test(styleId)) return 1;
+  }
+  const outline = wAttr(firstChild(pPr, 'outlineLvl'), 'val');
+  return outline && /^\d$/.test(outline) ? parseInt(outline, 10) + 1 : 0;
+};
+
+const tableText = (tbl: Element): string =>
+  Array.from(tbl.children)
+    .filter((c) => c.localName === 'tr')
+    .map((tr) => Array.from(tr.children)
+      .filter((c) => c.localName === 'tc')
+      .map((tc) => Array.from(tc.children).filter((c) => c.localName === 'p').map(paragraphText).filter(Boolean).join(' '))
+      .join(' | '))
+    .filter((line) => line.replace(/[|\s]/g, ''))
+    .join('\n');
+
+export const extractDocxSections = async (file: File): Promise<DocxSection[]> => {
+  const arrayBuffer = await file.arrayBuffer();
+  const JSZip = (await import('jszip')).default;
+  const zip = await JSZip.loadAsync(arrayBuffer);
+  const docXml = await zip.file('word/document.xml')?.async('string');
+  if (!docXml) throw new Error('Not a Word document (word/document.xml missing).');
+  const styleLevels = readHeadingStyles(await zip.file('word/styles.xml')?.async('string'));
+
+  const doc = new DOMParser().parseFromString(docXml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('Invalid document XML.');
+  const body = doc.getElementsByTagNameNS(W_NS, 'body')[0];
+  if (!body) return [];
+
+  const sections: DocxSection[] = [];
+  let current: DocxSection = { level: 0, heading: '', text: '' };
+  const append = (text: string) => {
+    if (text) current.text += (current.text ? '\n' : '') + text;
+  };
+
+  const visit = (el: Element) => {
+    Array.from(el.children).forEach((child) => {
+      if (child.localName === 'p') {
+        const text = paragraphText(child);
+        const level = paragraphLevel(child, styleLevels);
+        if (level > 0 && text) {
+          if (current.heading || current.text) sections.push(current);
+          current = { level, heading: text.replace(/\s+/g, ' '), text: '' };
+        } else {
+          append(text);
+        }
+      } else if (child.localName === 'tbl') {
+        append(tableText(child));
+      } else if (child.localName === 'sdt' || child.localName === 'sdtContent') {
+        visit(child);   // content controls (e.g. table of contents)
+      }
+    });
+  };
+  visit(body);
+  if (current.heading || current.text) sections.push(current);
+
+  return sections;
+};
+
+export const buildProposalText = (sections: DocxSection[]): { text: string; truncated: boolean } => {
+  const full = sections
+    .map((s) => (s.heading ? `${'#'.repeat(Math.min(s.level, 6))} ${s.heading}\n` : '') + s.text)
+    .join('\n\n')
+    .trim();
+  return full.length > MAX_PROPOSAL_CHARS
+    ? { text: full.slice(0, MAX_PROPOSAL_CHARS), truncated: true }
+    : { text: full, truncated: false };
+};
+
+// ─── ASSEMBLY ────────────────────────────────────────────────────
+
+const isNonEmpty = (value: any): boolean => {
+  if (Array.isArray(value)) return value.length > 0;
+  if (value && typeof value === 'object') return Object.values(value).some(isNonEmpty);
+  return typeof value === 'number' || (typeof value === 'string' && value.trim().length > 0);
+};
+
+export const hasMappedContent = (mapping: ProposalMapping, key: ProposalSectionKey): boolean =>
+  isNonEmpty(mapping.data[key]);
+
+export const buildImportedProjectData = (mapping: ProposalMapping, included: ProposalSectionKey[]): any => {
+  const empty = createEmptyProjectData();
+  const data: any = { ...empty };
+  included.forEach((key) => {
+    const value = mapping.data[key];
+    if (!isNonEmpty(value)) return;
+    // projectIdea keeps the dates / readiness defaults the document did not provide
+    data[key] = key === 'projectIdea' || key === 'problemAnalysis'
+      ? { ...(empty as any)[key], ...value }
+      : value;
+  });
+  return safeMerge(data);
+};
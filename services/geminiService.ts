@@ -1,5 +1,10 @@
 // ═══════════════════════════════════════════════════════════════
 // services/geminiService.ts
+// v7.15 — 2026-03-07 — SCHEDULER: sanitizeActivities removes the loop-closing dependency of every generated dependency cycle
+// v7.14 — 2026-03-07 — DOCX IMPORT: mapProposalToProjectData maps an existing proposal onto the section schemas
+// v7.13 — 2026-03-07 — LANGUAGE REGISTRY: WP/task prefixes, coordinator code and language-mismatch names from languages.ts
+// v7.12 — 2026-03-07 — STREAMING: generateSectionContent + generateActivitiesPerWP accept onPartial for live preview
+// v7.11 — 2026-03-07 — QUALITY GATES: generateSectionContent validates output via qualityGateValidator (optional auto-retry on FATAL)
 // v7.10 — 2026-03-06 — EO-042 FIX: Removed Serper web search — now handled natively by aiProvider (google_search for Gemini, web plugin for OpenRouter)
 // v7.9 — 2026-03-06 — EO-042: Web Search integration — searchForEvidence injected into prompts (REPLACED by v7.10)
 // v7.8 — 2026-03-06 — EO-040: generateFieldContent supports userInstructions + currentValue + full rules
@@ -54,7 +59,8 @@ import {
   isValidPartnerType,
   SECTION_TO_CHAPTER_MAP,
 } from './Instructions.ts';
-import { detectProjectLanguage as detectLanguage, detectTextLanguage } from '../utils.ts';
+import { detectProjectLanguage as detectLanguage, detectTextLanguage, findDependencyCycles, formatDependencyCycle } from '../utils.ts';
+import { getLanguageDefinition, getLanguageName, type LanguageCode } from '../languages.ts';
 import {
   generateContent,
   hasValidProviderKey,
@@ -62,6 +68,12 @@ import {
   getProviderConfig,
   type AIProviderType
 } from './aiProvider.ts';
+import {
+  validateSectionQuality,
+  hasFatalFindings,
+  formatQualityFindingsForPrompt,
+  type QualityGateReport
+} from './qualityGateValidator.ts';
 
 // ─── BACKWARD COMPATIBILITY EXPORTS ─────────────────────────────
 
@@ -74,6 +86,20 @@ export const validateApiKey = async (apiKey: string): Promise<boolean> => {
 
 export const validateProviderApiKey = validateProviderKey;
 
+// ─── QUALITY GATE OPTIONS (v7.11) ────────────────────────────────
+
+export interface SectionQualityOptions {
+  autoRetryOnFatal?: boolean;
+  onQualityReport?: (report: QualityGateReport) => void;
+}
+
+const MAX_QUALITY_RETRIES = 1;
+
+// ─── STREAMING PREVIEW (v7.12) ───────────────────────────────────
+// partial = best-effort parse of the JSON received so far (undefined if not parseable yet)
+
+export type SectionPartialCallback = (partial: any, rawText: string) => void;
+
 // ─── SAFE RULES FORMATTER ────────────────────────────────────────
 
 const formatRules = (rules: string | string[]): string => {
@@ -112,11 +138,18 @@ const calculateProjectEndDate = (startDateStr: string, durationMonths: number):
   return `${y}-${m}-${d}`;
 };
 
+// ─── WP / TASK ID PREFIXES ───────────────────────────────────────
+
+const getIdPrefixRule = (language: LanguageCode): string => {
+  const { wpPrefix, taskPrefix } = getLanguageDefinition(language);
+  return `Use ${wpPrefix} prefix for WP IDs (${wpPrefix}1, ${wpPrefix}2...) and ${taskPrefix} prefix for Task IDs (${taskPrefix}1.1, ${taskPrefix}1.2...).`;
+};
+
 // ─── INPUT LANGUAGE DETECTION ────────────────────────────────────
 
 const detectInputLanguageMismatch = (
   projectData: any,
-  uiLanguage: 'en' | 'si'
+  uiLanguage: LanguageCode
 ): string => {
   const sampleTexts: string[] = [];
 
@@ -139,20 +172,22 @@ const detectInputLanguageMismatch = (
   if (sampleTexts.length === 0) return '';
 
   let mismatchCount = 0;
+  const detectedCounts: Record<string, number> = {};
   const checked = Math.min(sampleTexts.length, 5);
 
   for (let i = 0; i < checked; i++) {
     const detected = detectTextLanguage(sampleTexts[i]);
     if (detected !== 'unknown' && detected !== uiLanguage) {
       mismatchCount++;
+      detectedCounts[detected] = (detectedCounts[detected] || 0) + 1;
     }
   }
 
   if (mismatchCount > checked / 2) {
     const template = getLanguageMismatchTemplate();
-    const detectedLang = uiLanguage === 'en' ? 'si' : 'en';
-    const detectedName = detectedLang === 'en' ? 'English' : 'Slovenian';
-    const targetName = uiLanguage === 'en' ? 'English' : 'Slovenian';
+    const detectedLang = Object.keys(detectedCounts).sort((a, b) => detectedCounts[b] - detectedCounts[a])[0];
+    const detectedName = getLanguageName(detectedLang);
+    const targetName = getLanguageName(uiLanguage);
     return template
       .replace(/\{\{detectedName\}\}/g, detectedName)
       .replace(/\{\{targetName\}\}/g, targetName);
@@ -804,6 +839,16 @@ const sanitizeActivities = (activities: any[]): any[] => {
       });
     }
   });
+  // ★ v7.15: Generated loops — drop the dependency that closes each chain
+  const allTasks = activities.flatMap(wp => (Array.isArray(wp.tasks) ? wp.tasks : []));
+  findDependencyCycles(allTasks).forEach((chain) => {
+    const successorId = chain[chain.length - 1];
+    const predecessorId = chain[chain.length - 2];
+    const task = allTasks.find((t: any) => t.id === successorId);
+    if (!task || !Array.isArray(task.dependencies)) return;
+    task.dependencies = task.dependencies.filter((dep: any) => dep.predecessorId !== predecessorId);
+    console.warn(`[sanitizeActivities] Dependency cycle ${formatDependencyCycle(chain)} — removed ${successorId} ← ${predecessorId}`);
+  });
   return activities;
 };
 
@@ -922,7 +967,7 @@ const smartMerge = (original: any, generated: any): any => {
 const buildTaskInstruction = (
   sectionKey: string,
   projectData: any,
-  language: 'en' | 'si'
+  language: LanguageCode
 ): string => {
   const SUB_TO_PARENT_TASK: Record<string, string> = {
     coreProblem: 'problemAnalysis', causes: 'problemAnalysis', consequences: 'problemAnalysis',
@@ -987,7 +1032,7 @@ const buildTaskInstruction = (
 const getPromptAndSchemaForSection = (
   sectionKey: string,
   projectData: any,
-  language: 'en' | 'si' = 'en',
+  language: LanguageCode = 'en',
   mode: string = 'regenerate',
   currentSectionData: any = null
 ) => {
@@ -1090,10 +1135,12 @@ const getPromptAndSchemaForSection = (
 export const generateSectionContent = async (
   sectionKey: string,
   projectData: any,
-  language: 'en' | 'si' = 'en',
+  language: LanguageCode = 'en',
   mode: string = 'regenerate',
   currentSectionData: any = null,
-  signal?: AbortSignal  // ★ v7.5: AbortSignal
+  signal?: AbortSignal,  // ★ v7.5: AbortSignal
+  qualityOptions?: SectionQualityOptions,  // ★ v7.11: Quality gate validation
+  onPartial?: SectionPartialCallback  // ★ v7.12: Streaming preview
 ): Promise<any> => {
   // ★ v7.5: Check abort before starting
   if (signal?.aborted) throw new DOMException('Generation cancelled', 'AbortError');
@@ -1110,80 +1157,103 @@ export const generateSectionContent = async (
   // ★ v7.5: Check abort after KB load
   if (signal?.aborted) throw new DOMException('Generation cancelled', 'AbortError');
 
-  const result = await generateContent({
-    prompt: fullPrompt,
-    schema: schema || undefined,
-    jsonMode: true,
-    sectionKey,
-    signal,  // ★ v7.5: Forward signal
-  });
+  // ★ v7.11: Single generation attempt — parse + post-process
+  const generateOnce = async (promptText: string): Promise<any> => {
+    const result = await generateContent({
+      prompt: promptText,
+      schema: schema || undefined,
+      jsonMode: true,
+      sectionKey,
+      signal,  // ★ v7.5: Forward signal
+      onPartial,  // ★ v7.12: Stream when a preview listener is attached
+    });
 
-  let parsed: any;
-  try {
-    const jsonStr = result.text.replace(/^```json\s*/, '').replace(/```$/, '').trim();
-    parsed = JSON.parse(jsonStr);
-  } catch (e) {
-    console.error('[geminiService] Failed to parse AI response as JSON:', e);
-    throw new Error('AI response was not valid JSON');
-  }
+    let parsed: any;
+    try {
+      const jsonStr = result.text.replace(/^```json\s*/, '').replace(/```$/, '').trim();
+      parsed = JSON.parse(jsonStr);
+    } catch (e) {
+      console.error('[geminiService] Failed to parse AI response as JSON:', e);
+      throw new Error('AI response was not valid JSON');
+    }
 
-  parsed = stripMarkdown(parsed);
+    parsed = stripMarkdown(parsed);
 
-  if (['mainAim', 'stateOfTheArt', 'proposedSolution'].includes(sectionKey)) {
-    if (parsed && typeof parsed === 'object' && parsed[sectionKey]) {
-      return parsed[sectionKey];
+    if (['mainAim', 'stateOfTheArt', 'proposedSolution'].includes(sectionKey)) {
+      if (parsed && typeof parsed === 'object' && parsed[sectionKey]) {
+        return parsed[sectionKey];
+      }
     }
-  }
 
-  if (sectionKey === 'projectIdea' && parsed?.projectTitle) {
-    parsed.projectTitle = sanitizeProjectTitle(parsed.projectTitle);
-  }
-  if (sectionKey === 'projectTitleAcronym' && parsed?.projectTitle) {
-    parsed.projectTitle = sanitizeProjectTitle(parsed.projectTitle);
-  }
+    if (sectionKey === 'projectIdea' && parsed?.projectTitle) {
+      parsed.projectTitle = sanitizeProjectTitle(parsed.projectTitle);
+    }
+    if (sectionKey === 'projectTitleAcronym' && parsed?.projectTitle) {
+      parsed.projectTitle = sanitizeProjectTitle(parsed.projectTitle);
+    }
 
-  if (sectionKey === 'activities' && Array.isArray(parsed)) {
-    parsed = sanitizeActivities(parsed);
-    parsed = enforceTemporalIntegrity(parsed, projectData);
-  }
+    if (sectionKey === 'activities' && Array.isArray(parsed)) {
+      parsed = sanitizeActivities(parsed);
+      parsed = enforceTemporalIntegrity(parsed, projectData);
+    }
 
-  if (sectionKey === 'partners' && Array.isArray(parsed)) {
-    parsed = parsed.map((p: any, idx: number) => ({
-      ...p,
-      id: p.id || `partner-${idx + 1}`,
-      code: p.code || (idx === 0 ? (language === 'si' ? 'KO' : 'CO') : `P${idx + 1}`),
-      partnerType: (p.partnerType && isValidPartnerType(p.partnerType))
-        ? p.partnerType
-        : 'other',
-    }));
-  }
+    if (sectionKey === 'partners' && Array.isArray(parsed)) {
+      parsed = parsed.map((p: any, idx: number) => ({
+        ...p,
+        id: p.id || `partner-${idx + 1}`,
+        code: p.code || (idx === 0 ? getLanguageDefinition(language).coordinatorCode : `P${idx + 1}`),
+        partnerType: (p.partnerType && isValidPartnerType(p.partnerType))
+          ? p.partnerType
+          : 'other',
+      }));
+    }
 
     if (mode === 'fill' && currentSectionData) {
-    parsed = smartMerge(currentSectionData, parsed);
-  }
-
-  // ★ v7.6: UNIVERSAL POST-PROCESSING — ensure ALL fields are non-empty
-  // Applies to EVERY section, EVERY field — no exceptions.
-  const ensureNonEmptyFields = (obj: any): any => {
-    if (Array.isArray(obj)) {
-      return obj.map((item: any) => ensureNonEmptyFields(item));
+      parsed = smartMerge(currentSectionData, parsed);
     }
-    if (obj && typeof obj === 'object') {
-      const fixed: any = { ...obj };
-      for (const [key, value] of Object.entries(fixed)) {
-        if (typeof value === 'string' && value.trim() === '') {
-          fixed[key] = `[AI did not generate this field — please fill manually or regenerate]`;
-          console.warn(`[geminiService] ★ Empty field detected: "${key}" in section "${sectionKey}" — placeholder inserted.`);
-        } else if (typeof value === 'object' && value !== null) {
-          fixed[key] = ensureNonEmptyFields(value);
+
+    // ★ v7.6: UNIVERSAL POST-PROCESSING — ensure ALL fields are non-empty
+    // Applies to EVERY section, EVERY field — no exceptions.
+    const ensureNonEmptyFields = (obj: any): any => {
+      if (Array.isArray(obj)) {
+        return obj.map((item: any) => ensureNonEmptyFields(item));
+      }
+      if (obj && typeof obj === 'object') {
+        const fixed: any = { ...obj };
+        for (const [key, value] of Object.entries(fixed)) {
+          if (typeof value === 'string' && value.trim() === '') {
+            fixed[key] = `[AI did not generate this field — please fill manually or regenerate]`;
+            console.warn(`[geminiService] ★ Empty field detected: "${key}" in section "${sectionKey}" — placeholder inserted.`);
+          } else if (typeof value === 'object' && value !== null) {
+            fixed[key] = ensureNonEmptyFields(value);
+          }
         }
+        return fixed;
       }
-      return fixed;
-    }
-    return obj;
+      return obj;
+    };
+
+    parsed = ensureNonEmptyFields(parsed);
+
+    return parsed;
   };
 
-  parsed = ensureNonEmptyFields(parsed);
+  let parsed = await generateOnce(fullPrompt);
+
+  // ★ v7.11: Programmatic QUALITY GATE check (+ optional auto-retry on FATAL)
+  let qualityReport = validateSectionQuality(sectionKey, projectData, parsed);
+  let qualityAttempt = 0;
+  while (qualityOptions?.autoRetryOnFatal && hasFatalFindings(qualityReport) && qualityAttempt < MAX_QUALITY_RETRIES) {
+    qualityAttempt++;
+    if (signal?.aborted) throw new DOMException('Generation cancelled', 'AbortError');
+    console.warn(`[geminiService] ★ Quality gates FATAL for "${sectionKey}" (${qualityReport.fatalCount}) — auto-retry ${qualityAttempt}/${MAX_QUALITY_RETRIES}`);
+    parsed = await generateOnce(fullPrompt + '\n' + formatQualityFindingsForPrompt(qualityReport));
+    qualityReport = validateSectionQuality(sectionKey, projectData, parsed);
+  }
+  if (!qualityReport.passed) {
+    console.warn(`[geminiService] Quality gates for "${sectionKey}": ${qualityReport.fatalCount} fatal, ${qualityReport.warningCount} warnings`);
+  }
+  qualityOptions?.onQualityReport?.(qualityReport);
 
   return parsed;
 };
@@ -1195,12 +1265,13 @@ export const generateSectionContent = async (
 
 export const generateActivitiesPerWP = async (
   projectData: any,
-  language: 'en' | 'si' = 'en',
+  language: LanguageCode = 'en',
   mode: string = 'regenerate',
   onProgress?: ((wpIndex: number, wpTotal: number, wpTitle: string) => void) | ((msg: string) => void),
   existingActivities?: any[],
   onlyIndices?: number[],
-  signal?: AbortSignal  // ★ v7.5: AbortSignal
+  signal?: AbortSignal,  // ★ v7.5: AbortSignal
+  onPartial?: SectionPartialCallback  // ★ v7.12: Streaming preview
 ): Promise<any[]> => {
   if (signal?.aborted) throw new DOMException('Generation cancelled', 'AbortError');
 
@@ -1249,7 +1320,7 @@ export const generateActivitiesPerWP = async (
 MANDATORY WPs: Second-to-last WP MUST be "Dissemination, Communication & Exploitation", last WP MUST be "Project Management & Coordination". Both must span the full project duration (${pStart} to ${pEnd}).
 WP1 MUST be foundational/analytical and include a "Capitalisation and Synergies" task.
 Total 5-8 WPs.
-WP/TASK ID PREFIX RULES: ${language === 'si' ? 'Use DS prefix for WP IDs (DS1, DS2...) and N prefix for Task IDs (N1.1, N1.2...).' : 'Use WP prefix for WP IDs (WP1, WP2...) and T prefix for Task IDs (T1.1, T1.2...).'}`,
+WP/TASK ID PREFIX RULES: ${getIdPrefixRule(language)}`,
     `\n${temporalRule}`
   ].filter(Boolean).join('\n');
 
@@ -1266,6 +1337,7 @@ WP/TASK ID PREFIX RULES: ${language === 'si' ? 'Use DS prefix for WP IDs (DS1, D
     jsonMode: true,
     sectionKey: 'activities',
     signal,  // ★ v7.5
+    onPartial,  // ★ v7.12
   });
 
   let scaffold: any[];
@@ -1286,7 +1358,7 @@ WP/TASK ID PREFIX RULES: ${language === 'si' ? 'Use DS prefix for WP IDs (DS1, D
     if (signal?.aborted) throw new DOMException('Generation cancelled', 'AbortError');
 
     const wpScaffold = scaffold[wpIdx];
-    const wpPfx = language === 'si' ? 'DS' : 'WP';
+    const wpPfx = getLanguageDefinition(language).wpPrefix;
     const wpId = wpScaffold.id || `${wpPfx}${wpIdx + 1}`;
 
     if (onProgress) {
@@ -1322,7 +1394,7 @@ WP/TASK ID PREFIX RULES: ${language === 'si' ? 'Use DS prefix for WP IDs (DS1, D
       previousWPsContext,
       `\nSCAFFOLD:\n${JSON.stringify(scaffold, null, 2)}`,
       `\nTASK: Generate the COMPLETE work package ${wpId} ("${wpScaffold.title}").
-WP/TASK ID PREFIX RULES: ${language === 'si' ? 'Use DS prefix for WP IDs (DS1, DS2...) and N prefix for Task IDs (N1.1, N1.2...). Milestone IDs: M1.1, Deliverable IDs: D1.1.' : 'Use WP prefix for WP IDs (WP1, WP2...) and T prefix for Task IDs (T1.1, T1.2...). Milestone IDs: M1.1, Deliverable IDs: D1.1.'}
+WP/TASK ID PREFIX RULES: ${getIdPrefixRule(language)} Milestone IDs: M1.1, Deliverable IDs: D1.1.
 Return ONE JSON object with: id, title, tasks (3-5 tasks with id, title, description, startDate, endDate, dependencies), milestones (1-2), deliverables (1-3 with id, title, description, indicator).
 
 All task dates must be within ${wpScaffold.dateRange?.startDate || pStart} - ${wpScaffold.dateRange?.endDate || pEnd}.
@@ -1342,6 +1414,10 @@ If this is the Dissemination WP, strictly separate CDE tasks (Communication, Dis
       jsonMode: true,
       sectionKey: 'activities',
       signal,  // ★ v7.5
+      // ★ v7.12: Preview shows finished WPs + the one streaming now
+      onPartial: onPartial
+        ? (partial: any, rawText: string) => onPartial(partial !== undefined ? [...fullActivities, partial] : undefined, rawText)
+        : undefined,
     });
 
     try {
@@ -1363,8 +1439,8 @@ If this is the Dissemination WP, strictly separate CDE tasks (Communication, Dis
   result = enforceTemporalIntegrity(result, projectData);
 
   // Force correct prefixes
-  const wpPfxFinal = language === 'si' ? 'DS' : 'WP';
-  const tskPfxFinal = language === 'si' ? 'N' : 'T';
+  const wpPfxFinal = getLanguageDefinition(language).wpPrefix;
+  const tskPfxFinal = getLanguageDefinition(language).taskPrefix;
   result.forEach((wp: any, wpIdx: number) => {
     wp.id = `${wpPfxFinal}${wpIdx + 1}`;
     if (wp.tasks && Array.isArray(wp.tasks)) {
@@ -1400,7 +1476,7 @@ export const generateTargetedFill = async (
   sectionKey: string,
   projectData: any,
   currentData: any,
-  language: 'en' | 'si' = 'en',
+  language: LanguageCode = 'en',
   signal?: AbortSignal  // ★ v7.5
 ): Promise<any> => {
   const result = await generateSectionContent(sectionKey, projectData, language, 'fill', currentData, signal);
@@ -1424,7 +1500,7 @@ export const generateObjectFill = async (
   projectData: any,
   currentData: any,
   emptyFields: string[],
-  language: 'en' | 'si' = 'en',
+  language: LanguageCode = 'en',
   signal?: AbortSignal  // ★ v7.5
 ): Promise<any> => {
   if (signal?.aborted) throw new DOMException('Generation cancelled', 'AbortError');
@@ -1469,7 +1545,7 @@ export const generateObjectFill = async (
 
 export const generateProjectSummary = async (
   projectData: any,
-  language: 'en' | 'si' = 'en',
+  language: LanguageCode = 'en',
   signal?: AbortSignal  // ★ v7.5
 ): Promise<string> => {
   if (signal?.aborted) throw new DOMException('Generation cancelled', 'AbortError');
@@ -1497,6 +1573,104 @@ export const generateProjectSummary = async (
   return result.text.trim();
 };
 
+// ═══════════════════════════════════════════════════════════════
+// PUBLIC API: PROPOSAL IMPORT (DOCX → ProjectData)
+// ★ v7.14: Extraction only — the AI must not invent or translate content
+// ═══════════════════════════════════════════════════════════════
+
+const PROPOSAL_IMPORT_KEYS = [
+  'problemAnalysis', 'projectIdea', 'generalObjectives', 'specificObjectives', 'activities', 'risks', 'kers',
+];
+
+export const mapProposalToProjectData = async (
+  documentText: string,
+  language: LanguageCode = 'en',
+  signal?: AbortSignal
+): Promise<{ data: Record<string, any>; sources: Record<string, string[]> }> => {
+  if (signal?.aborted) throw new DOMException('Generation cancelled', 'AbortError');
+
+  const { wpPrefix, taskPrefix } = getLanguageDefinition(language);
+  const proposalSchema = {
+    type: Type.OBJECT,
+    properties: {
+      problemAnalysis: schemas.problemAnalysis,
+      projectIdea: { ...schemas.projectIdea, required: [] },
+      generalObjectives: schemas.objectives,
+      specificObjectives: schemas.objectives,
+      activities: schemas.activities,
+      risks: schemas.risks,
+      kers: schemas.kers,
+      sources: {
+        type: Type.OBJECT,
+        properties: Object.fromEntries(PROPOSAL_IMPORT_KEYS.map((key) => [key, { type: Type.ARRAY, items: { type: Type.STRING } }])),
+      },
+    },
+    required: PROPOSAL_IMPORT_KEYS,
+  };
+
+  const config = getProviderConfig();
+  const needsTextSchema = config.provider !== 'gemini';
+
+  const prompt = [
+    'You receive the text of an existing EU project proposal, extracted from a Word document. Headings are marked with #, table rows with |.',
+    '\nTASK: Map the document onto the JSON structure below.',
+    '- EXTRACT ONLY. Copy or condense the wording of the document; do NOT invent content, numbers, dates or partners that are not in the document.',
+    '- Keep the language of the document. Do NOT translate.',
+    '- A section that has no matching content in the document stays empty ("" or []).',
+    '- problemAnalysis: core problem, causes and consequences (problem tree, needs analysis, background).',
+    '- projectIdea: title, acronym, main aim, state of the art, proposed solution / methodology, relevant policies, readiness levels (TRL, SRL, ORL, LRL; level 0 if not stated).',
+    '- generalObjectives = overall / wider objectives; specificObjectives = specific / operational objectives with their indicators.',
+    `- activities: one entry per work package with id ${wpPrefix}1, ${wpPrefix}2 ...; tasks ${taskPrefix}1.1, ${taskPrefix}1.2 ...; milestones M1.1 ...; deliverables D1.1 ... Dates as YYYY-MM-DD only when the document gives them (convert "month 3" only if the project start date is stated), otherwise "". Dependencies only when stated.`,
+    '- risks: category technical / social / economic / environmental, likelihood and impact low / medium / high.',
+    '- kers: key exploitable results with their exploitation strategy.',
+    '- sources: for each section, the document headings (exact text) you used.',
+    needsTextSchema ? schemaToTextInstruction(proposalSchema) : '',
+    '\nDOCUMENT:\n"""\n' + documentText + '\n"""',
+  ].filter(Boolean).join('\n');
+
+  const result = await generateContent({
+    prompt,
+    jsonSchema: needsTextSchema ? undefined : proposalSchema,
+    jsonMode: true,
+    temperature: 0.1,
+    sectionKey: 'proposalImport',
+    signal,
+  });
+
+  let parsed: any;
+  try {
+    const jsonStr = result.text.replace(/^```json\s*/, '').replace(/```$/, '').trim();
+    parsed = JSON.parse(jsonStr);
+  } catch (e) {
+    console.error('[mapProposalToProjectData] Failed to parse AI response as JSON:', e);
+    throw new Error('AI response was not valid JSON');
+  }
+
+  parsed = stripMarkdown(parsed || {});
+  const data: Record<string, any> = {};
+  PROPOSAL_IMPORT_KEYS.forEach((key) => {
+    if (parsed[key] !== undefined && parsed[key] !== null) data[key] = parsed[key];
+  });
+  if (data.projectIdea?.projectTitle) {
+    data.projectIdea.projectTitle = sanitizeProjectTitle(data.projectIdea.projectTitle);
+  }
+  if (Array.isArray(data.activities)) {
+    data.activities = sanitizeActivities(data.activities.map((wp: any) => ({
+      ...wp,
+      tasks: (wp.tasks || []).map((t: any) => ({ ...t, dependencies: t.dependencies || [], partnerAllocations: [] })),
+      milestones: wp.milestones || [],
+      deliverables: wp.deliverables || [],
+    })));
+  }
+
+  const sources: Record<string, string[]> = {};
+  PROPOSAL_IMPORT_KEYS.forEach((key) => {
+    sources[key] = Array.isArray(parsed.sources?.[key]) ? parsed.sources[key].filter((h: any) => typeof h === 'string') : [];
+  });
+
+  return { data, sources };
+};
+
 // ═══════════════════════════════════════════════════════════════
 // PUBLIC API: FIELD-LEVEL GENERATION
 // ★ v7.5: No KB for field-level (too granular)
@@ -1505,7 +1679,7 @@ export const generateProjectSummary = async (
 export const generateFieldContent = async (
   fieldPath: string,
   projectData: any,
-  language: 'en' | 'si' = 'en',
+  language: LanguageCode = 'en',
   signal?: AbortSignal,
   options?: { userInstructions?: string; currentValue?: string; fieldLabel?: string }
 ): Promise<string> => {
@@ -1579,7 +1753,7 @@ export const generateFieldContent = async (
 
 export const generatePartnerAllocations = async (
   projectData: any,
-  language: 'en' | 'si' = 'en',
+  language: LanguageCode = 'en',
   onProgress?: (msg: string) => void,
   signal?: AbortSignal  // ★ v7.5
 ): Promise<any[]> => {
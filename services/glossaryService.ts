@@ -0,0 +1,256 @@
+// services/glossaryService.ts
+// ═══════════════════════════════════════════════════════════════
+// Translation glossary / termbase — translation_glossary table
+// v1.0 — 2026-03-07
+//
+// FEATURES:
+//   - Two scopes: organization (shared by all org projects) and
+//     project (overrides an org entry with the same source term)
+//   - Entry = source term → required target term, or a
+//     do-not-translate term (programme names, acronyms ...)
+//   - sourceLang / targetLang null = entry applies to any language pair
+//   - getEffectiveGlossary(): merged entries for one language pair,
+//     plus the project acronym as implicit do-not-translate entry
+//   - Prompt + verification helpers used by translationDiffService:
+//       → filterGlossaryForText()   — only entries occurring in a text
+//       → formatGlossaryForPrompt() — GLOSSARY block for the AI prompt
+//       → findGlossaryViolations()  — required term missing in translation
+//
+// MATCHING:
+//   - Case-insensitive, whole words (Unicode letters / digits)
+//   - Target terms match inflected forms: words longer than 4 letters
+//     are compared by stem (last 2 letters free) — SI/HR/DE decline nouns
+//
+// SECURITY:
+//   - RLS: org entries readable by org members, editable by org admins;
+//     project entries readable / editable by the project owner
+// ═══════════════════════════════════════════════════════════════
+
+import { supabase } from './supabaseClient.ts';
+import { storageService } from './storageService.ts';
+import { organizationService } from './organizationService.ts';
+import { logErrorQuick } from './errorLogService.ts';
+import type { GlossaryEntry, GlossaryScope, GlossaryViolation, LanguageCode } from '../types.ts';
+
+// ——— Types ———————————————————————————————————————
+
+// Effective entry used during translation ('auto' = implicit entry)
+export interface EffectiveGlossaryEntry {
+  sourceTerm: string;
+  targetTerm: string | null;
+  doNotTranslate: boolean;
+  scope: GlossaryScope | 'auto';
+}
+
+export interface NewGlossaryEntry {
+  scope: GlossaryScope;
+  projectId?: string | null;
+  sourceLang: LanguageCode | null;
+  targetLang: LanguageCode | null;
+  sourceTerm: string;
+  targetTerm: string | null;
+  doNotTranslate: boolean;
+  note?: string | null;
+}
+
+// ——— Helpers ————————————————————————————————————————
+
+const mapRow = (row: any): GlossaryEntry => ({
+  id: row.id,
+  scope: row.project_id ? 'project' : 'organization',
+  organizationId: row.organization_id,
+  projectId: row.project_id,
+  sourceLang: row.source_lang,
+  targetLang: row.target_lang,
+  sourceTerm: row.source_term,
+  targetTerm: row.target_term,
+  doNotTranslate: !!row.do_not_translate,
+  note: row.note,
+});
+
+const escapeRegExp = (str: string): string => str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const BOUNDARY_START = '(?:^|[^\\p{L}\\p{N}])';
+const BOUNDARY_END = '(?:$|[^\\p{L}\\p{N}])';
+
+// Exact term (source side, do-not-translate)
+const exactTermRegex = (term: string): RegExp =>
+  new RegExp(BOUNDARY_START + escapeRegExp(term.trim()).replace(/\s+/g, '\\s+') + BOUNDARY_END, 'iu');
+
+// Inflection-tolerant term (target side)
+const stemTermRegex = (term: string): RegExp => {
+  const words = term.trim().split(/\s+/).map((word) =>
+    word.length > 4 ? escapeRegExp(word.slice(0, -2)) + '\\p{L}{0,4}' : escapeRegExp(word)
+  );
+  return new RegExp(BOUNDARY_START + words.join('\\s+') + BOUNDARY_END, 'iu');
+};
+
+const appliesToPair = (entry: GlossaryEntry, sourceLang: LanguageCode, targetLang: LanguageCode): boolean =>
+  (!entry.sourceLang || entry.sourceLang === sourceLang) && (!entry.targetLang || entry.targetLang === targetLang);
+
+// ——— Prompt / verification helpers ————————————————————————
+
+export const filterGlossaryForText = (entries: EffectiveGlossaryEntry[], text: string): EffectiveGlossaryEntry[] =>
+  entries.filter((e) => exactTermRegex(e.sourceTerm).test(text));
+
+export const formatGlossaryForPrompt = (entries: EffectiveGlossaryEntry[]): string => {
+  if (entries.length === 0) return '';
+  const lines = entries.map((e) =>
+    e.doNotTranslate
+      ? `- "${e.sourceTerm}" → keep EXACTLY as "${e.sourceTerm}" (do not translate)`
+      : `- "${e.sourceTerm}" → "${e.targetTerm}" (inflect if grammar requires, never use a synonym)`
+  );
+  return [
+    `GLOSSARY (MANDATORY TERMINOLOGY — overrides your own term choice):`,
+    ...lines,
+  ].join('\n');
+};
+
+export const findGlossaryViolations = (
+  fieldPath: string,
+  sourceText: string,
+  translatedText: string,
+  entries: EffectiveGlossaryEntry[]
+): GlossaryViolation[] => {
+  const violations: GlossaryViolation[] = [];
+  for (const entry of filterGlossaryForText(entries, sourceText)) {
+    const expected = entry.doNotTranslate ? entry.sourceTerm : (entry.targetTerm || '');
+    if (!expected) continue;
+    const ok = entry.doNotTranslate
+      ? exactTermRegex(expected).test(translatedText)
+      : stemTermRegex(expected).test(translatedText);
+    if (!ok) {
+      violations.push({
+        fieldPath,
+        sourceTerm: entry.sourceTerm,
+        expected,
+        doNotTranslate: entry.doNotTranslate,
+        scope: entry.scope,
+      });
+    }
+  }
+  return violations;
+};
+
+// Human-readable report for the translation result message (max 8 lines)
+export const summarizeGlossaryReport = (report: GlossaryViolation[], language: LanguageCode): string => {
+  const lines = report.slice(0, 8).map((v) =>
+    v.doNotTranslate
+      ? (language === 'si'
+          ? `• ${v.fieldPath}: "${v.sourceTerm}" mora ostati nepreveden`
+          : `• ${v.fieldPath}: "${v.sourceTerm}" must stay untranslated`)
+      : (language === 'si'
+          ? `• ${v.fieldPath}: "${v.sourceTerm}" → pričakovano "${v.expected}"`
+          : `• ${v.fieldPath}: "${v.sourceTerm}" → expected "${v.expected}"`)
+  );
+  if (report.length > 8) {
+    lines.push(language === 'si' ? `... in še ${report.length - 8}` : `... and ${report.length - 8} more`);
+  }
+  return lines.join('\n');
+};
+
+// ——— Service ————————————————————————————————————————
+
+export const glossaryService = {
+
+  // All entries of the active organization + the given project
+  async listEntries(projectId: string | null): Promise<GlossaryEntry[]> {
+    const orgId = organizationService.getActiveOrgId();
+    const filters: string[] = [];
+    if (orgId) filters.push(`and(organization_id.eq.${orgId},project_id.is.null)`);
+    if (projectId) filters.push(`project_id.eq.${projectId}`);
+    if (filters.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('translation_glossary')
+      .select('*')
+      .or(filters.join(','))
+      .order('source_term', { ascending: true });
+
+    if (error) {
+      console.error('[glossaryService] Failed to list entries:', error);
+      logErrorQuick('glossaryService.listEntries', error, { projectId, orgId });
+      return [];
+    }
+    return (data || []).map(mapRow);
+  },
+
+  async addEntry(entry: NewGlossaryEntry): Promise<GlossaryEntry | null> {
+    const sourceTerm = entry.sourceTerm.trim();
+    const targetTerm = entry.doNotTranslate ? null : (entry.targetTerm || '').trim();
+    if (!sourceTerm || (!entry.doNotTranslate && !targetTerm)) return null;
+
+    const orgId = organizationService.getActiveOrgId();
+    if (entry.scope === 'organization' && !orgId) return null;
+    if (entry.scope === 'project' && !entry.projectId) return null;
+
+    const userId = await storageService.getCurrentUserId();
+    const { data, error } = await supabase
+      .from('translation_glossary')
+      .insert({
+        organization_id: entry.scope === 'organization' ? orgId : null,
+        project_id: entry.scope === 'project' ? entry.projectId : null,
+        source_lang: entry.sourceLang,
+        target_lang: entry.targetLang,
+        source_term: sourceTerm,
+        target_term: targetTerm,
+        do_not_translate: entry.doNotTranslate,
+        note: entry.note?.trim() || null,
+        created_by: userId,
+      })
+      .select('*')
+      .single();
+
+    if (error || !data) {
+      console.error('[glossaryService] Failed to add entry:', error);
+      logErrorQuick('glossaryService.addEntry', error, { scope: entry.scope, sourceTerm });
+      return null;
+    }
+    return mapRow(data);
+  },
+
+  async deleteEntry(entryId: string): Promise<{ success: boolean; message?: string }> {
+    const { error } = await supabase
+      .from('translation_glossary')
+      .delete()
+      .eq('id', entryId);
+
+    if (error) {
+      logErrorQuick('glossaryService.deleteEntry', error, { entryId });
+      return { success: false, message: error.message };
+    }
+    return { success: true };
+  },
+
+  // Merged glossary for one language pair — project entries win over org entries
+  async getEffectiveGlossary(
+    projectId: string | null,
+    sourceLang: LanguageCode,
+    targetLang: LanguageCode,
+    sourceData?: any
+  ): Promise<EffectiveGlossaryEntry[]> {
+    const entries = (await this.listEntries(projectId)).filter((e) => appliesToPair(e, sourceLang, targetLang));
+    const byTerm = new Map<string, EffectiveGlossaryEntry>();
+
+    const ordered = [
+      ...entries.filter((e) => e.scope === 'organization'),
+      ...entries.filter((e) => e.scope === 'project'),
+    ];
+    for (const e of ordered) {
+      byTerm.set(e.sourceTerm.trim().toLowerCase(), {
+        sourceTerm: e.sourceTerm.trim(),
+        targetTerm: e.targetTerm,
+        doNotTranslate: e.doNotTranslate,
+        scope: e.scope,
+      });
+    }
+
+    // Project acronym is never translated
+    const acronym = (sourceData?.projectIdea?.projectAcronym || '').trim();
+    if (acronym && !byTerm.has(acronym.toLowerCase())) {
+      byTerm.set(acronym.toLowerCase(), { sourceTerm: acronym, targetTerm: null, doNotTranslate: true, scope: 'auto' });
+    }
+
+    return Array.from(byTerm.values());
+  },
+};
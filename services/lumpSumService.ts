@@ -0,0 +1,248 @@
+// services/lumpSumService.ts
+// ═══════════════════════════════════════════════════════════════
+// Lump-sum budget mode (ProjectData.budgetMode === 'lumpSum').
+// v1.0 — 2026-03-07
+//
+// The detailed cost estimate (task partner allocations) stays the
+// basis; it is regrouped into the EU lump-sum Part B layout:
+//   - Detailed budget table: per partner, cost groups A–E, total
+//     estimated costs, funding rate, maximum EU contribution
+//   - Lump sum breakdown: WP × partner lump shares. A share defaults
+//     to ROUND(estimated costs × funding rate); an amount in
+//     WorkPackage.lumpSum.shares overrides it
+//   - WP completion: deliverables that prove the WP is done
+//     (WorkPackage.lumpSum.completionDeliverables) + criteria text;
+//     checkLumpSumCompletion() lists what blocks payment of a WP
+// ═══════════════════════════════════════════════════════════════
+
+import { collectBudgetAllocations, getPartnerFundingRate, UNCATEGORIZED_COST_KEY } from './budgetService.ts';
+import type { WorkPackageLumpSum } from '../types.ts';
+
+// ─── TYPES ───────────────────────────────────────────────────────
+
+export type LumpSumCostGroupKey = 'A' | 'B' | 'C1' | 'C2' | 'C3' | 'D' | 'E';
+
+export interface LumpSumCostGroup {
+  key: LumpSumCostGroupKey;
+  en: string;
+  si: string;
+  categories: string[];     // direct cost category keys of both funding models
+}
+
+export interface LumpSumShare {
+  partnerId: string;
+  estimatedCost: number;
+  suggestedShare: number;   // ROUND(estimatedCost × funding rate)
+  share: number;            // override or suggestedShare
+  overridden: boolean;
+}
+
+export interface LumpSumWorkPackage {
+  wpId: string;
+  title: string;
+  cells: LumpSumShare[];    // same order as LumpSumBreakdown.partners
+  estimatedCost: number;
+  total: number;            // Σ shares
+  completionDeliverables: { id: string; title: string; indicator: string }[];
+  completionCriteria: string;
+}
+
+export interface LumpSumPartnerLine {
+  partnerId: string;
+  code: string;
+  name: string;
+  fundingRate: number;
+  pm: number;
+  groups: Record<LumpSumCostGroupKey, number>;
+  estimatedCost: number;
+  maxContribution: number;  // ROUND(estimatedCost × funding rate)
+  lumpSum: number;          // Σ shares over all WPs
+}
+
+export interface LumpSumBreakdown {
+  partners: LumpSumPartnerLine[];
+  workPackages: LumpSumWorkPackage[];
+  totals: {
+    pm: number;
+    groups: Record<LumpSumCostGroupKey, number>;
+    estimatedCost: number;
+    maxContribution: number;
+    lumpSum: number;
+  };
+}
+
+export interface LumpSumIssue {
+  severity: 'error' | 'warning';
+  wpId: string | null;
+  partnerCode: string | null;
+  message: string;
+}
+
+// ─── COST GROUPS ─────────────────────────────────────────────────
+// Part B detailed budget table. E (indirect) is not a direct cost
+// category — it takes the indirect costs of indirectCostSettings.
+
+export const LUMP_SUM_COST_GROUPS: LumpSumCostGroup[] = [
+  { key: 'A', en: 'A. Personnel costs', si: 'A. Stroški osebja', categories: ['labourCosts', 'salariesReimbursements'] },
+  { key: 'B', en: 'B. Subcontracting costs', si: 'B. Stroški podizvajalcev', categories: ['subContractorCosts', 'externalServiceCosts'] },
+  { key: 'C1', en: 'C.1 Travel and subsistence', si: 'C.1 Potni stroški', categories: ['travelCosts'] },
+  { key: 'C2', en: 'C.2 Equipment', si: 'C.2 Oprema', categories: ['depreciationEquipment', 'investmentCosts', 'depreciationBasicAssets', 'tangibleAssetInvestment', 'intangibleAssetInvestment'] },
+  { key: 'C3', en: 'C.3 Other goods, works and services', si: 'C.3 Drugo blago, gradnje in storitve', categories: ['materials', 'otherProjectCosts', 'infoCommunication'] },
+  { key: 'D', en: 'D. Other cost categories', si: 'D. Druge kategorije stroškov', categories: ['vat', UNCATEGORIZED_COST_KEY] },
+  { key: 'E', en: 'E. Indirect costs', si: 'E. Posredni stroški', categories: [] },
+];
+
+const emptyGroups = (): Record<LumpSumCostGroupKey, number> =>
+  ({ A: 0, B: 0, C1: 0, C2: 0, C3: 0, D: 0, E: 0 });
+
+export const getLumpSumCostGroup = (categoryKey: string): LumpSumCostGroupKey =>
+  LUMP_SUM_COST_GROUPS.find((g) => g.categories.includes(categoryKey))?.key || 'D';
+
+export const isLumpSumMode = (projectData: any): boolean => projectData?.budgetMode === 'lumpSum';
+
+export const emptyWorkPackageLumpSum = (): WorkPackageLumpSum =>
+  ({ shares: {}, completionDeliverables: [], completionCriteria: '' });
+
+// ─── CALCULATION ─────────────────────────────────────────────────
+
+export const computeLumpSumBreakdown = (projectData: any): LumpSumBreakdown => {
+  const projectPartners = Array.isArray(projectData?.partners) ? projectData.partners : [];
+  const activities = Array.isArray(projectData?.activities) ? projectData.activities : [];
+  const rows = collectBudgetAllocations(projectData);
+
+  // Project partners first, then allocations without a known partner
+  const partners: LumpSumPartnerLine[] = projectPartners.map((p: any) => ({
+    partnerId: p.id, code: p.code || '?', name: p.name || '',
+    fundingRate: getPartnerFundingRate(p, projectData),
+    pm: 0, groups: emptyGroups(), estimatedCost: 0, maxContribution: 0, lumpSum: 0,
+  }));
+  rows.forEach((row) => {
+    if (partners.some((p) => p.partnerId === row.partnerId)) return;
+    partners.push({
+      partnerId: row.partnerId, code: row.partnerCode, name: '',
+      fundingRate: getPartnerFundingRate(null, projectData),
+      pm: 0, groups: emptyGroups(), estimatedCost: 0, maxContribution: 0, lumpSum: 0,
+    });
+  });
+  const lineOf = (partnerId: string) => partners.find((p) => p.partnerId === partnerId)!;
+
+  rows.forEach((row) => {
+    const line = lineOf(row.partnerId);
+    line.pm += row.pm;
+    Object.entries(row.directByCategory).forEach(([key, amount]) => {
+      line.groups[getLumpSumCostGroup(key)] += amount;
+    });
+    line.groups.E += row.indirectTotal;
+    line.estimatedCost += row.total;
+  });
+  partners.forEach((p) => { p.maxContribution = Math.round(p.estimatedCost * p.fundingRate / 100); });
+
+  const workPackages: LumpSumWorkPackage[] = activities.map((wp: any) => {
+    const settings: WorkPackageLumpSum = { ...emptyWorkPackageLumpSum(), ...(wp.lumpSum || {}) };
+    const cells: LumpSumShare[] = partners.map((p) => {
+      const estimatedCost = rows
+        .filter((r) => r.wpId === wp.id && r.partnerId === p.partnerId)
+        .reduce((s, r) => s + r.total, 0);
+      const suggestedShare = Math.round(estimatedCost * p.fundingRate / 100);
+      const override = settings.shares?.[p.partnerId];
+      const overridden = typeof override === 'number' && !isNaN(override);
+      return { partnerId: p.partnerId, estimatedCost, suggestedShare, share: overridden ? override : suggestedShare, overridden };
+    });
+    const deliverables = Array.isArray(wp.deliverables) ? wp.deliverables : [];
+    return {
+      wpId: wp.id,
+      title: wp.title || '',
+      cells,
+      estimatedCost: cells.reduce((s, c) => s + c.estimatedCost, 0),
+      total: cells.reduce((s, c) => s + c.share, 0),
+      completionDeliverables: (settings.completionDeliverables || [])
+        .map((id) => deliverables.find((d: any) => d.id === id))
+        .filter(Boolean)
+        .map((d: any) => ({ id: d.id, title: d.title || '', indicator: d.indicator || '' })),
+      completionCriteria: settings.completionCriteria || '',
+    };
+  });
+
+  workPackages.forEach((wp) => wp.cells.forEach((c, i) => { partners[i].lumpSum += c.share; }));
+
+  const groups = emptyGroups();
+  partners.forEach((p) => (Object.keys(groups) as LumpSumCostGroupKey[]).forEach((k) => { groups[k] += p.groups[k]; }));
+  return {
+    partners,
+    workPackages,
+    totals: {
+      pm: partners.reduce((s, p) => s + p.pm, 0),
+      groups,
+      estimatedCost: partners.reduce((s, p) => s + p.estimatedCost, 0),
+      maxContribution: partners.reduce((s, p) => s + p.maxContribution, 0),
+      lumpSum: partners.reduce((s, p) => s + p.lumpSum, 0),
+    },
+  };
+};
+
+// ─── COMPLETION CHECK ────────────────────────────────────────────
+// A lump share is paid when its WP is completed, so every WP needs
+// at least one deliverable with a binary, verifiable indicator.
+
+export const checkLumpSumCompletion = (projectData: any, language: string = 'en'): LumpSumIssue[] => {
+  const si = language === 'si';
+  const activities = Array.isArray(projectData?.activities) ? projectData.activities : [];
+  const breakdown = computeLumpSumBreakdown(projectData);
+  const issues: LumpSumIssue[] = [];
+
+  activities.forEach((wp: any) => {
+    const deliverables = Array.isArray(wp.deliverables) ? wp.deliverables : [];
+    const selected: string[] = wp.lumpSum?.completionDeliverables || [];
+    const existing = selected.filter((id) => deliverables.some((d: any) => d.id === id));
+
+    if (existing.length === 0) {
+      issues.push({
+        severity: 'error', wpId: wp.id, partnerCode: null,
+        message: si
+          ? 'Delovni sklop nima izbranega dosežka, s katerim se dokaže njegov zaključek.'
+          : 'No deliverable is selected to prove completion of this work package.',
+      });
+    }
+    if (existing.length < selected.length) {
+      issues.push({
+        severity: 'warning', wpId: wp.id, partnerCode: null,
+        message: si
+          ? `${selected.length - existing.length} izbranih dosežkov ne obstaja več.`
+          : `${selected.length - existing.length} selected deliverable(s) no longer exist.`,
+      });
+    }
+    existing.forEach((id) => {
+      const d = deliverables.find((x: any) => x.id === id);
+      if (!(d.indicator || '').trim()) {
+        issues.push({
+          severity: 'warning', wpId: wp.id, partnerCode: null,
+          message: si
+            ? `Dosežek ${d.id} nima kazalnika — zaključka ni mogoče preveriti.`
+            : `Deliverable ${d.id} has no indicator — completion cannot be verified.`,
+        });
+      }
+    });
+  });
+
+  breakdown.workPackages.forEach((wp) => {
+    if (wp.total <= 0) {
+      issues.push({
+        severity: 'warning', wpId: wp.wpId, partnerCode: null,
+        message: si ? 'Delovni sklop nima pavšalnega deleža.' : 'The work package has no lump share.',
+      });
+    }
+  });
+
+  breakdown.partners.forEach((p) => {
+    if (p.lumpSum > p.maxContribution) {
+      issues.push({
+        severity: 'warning', wpId: null, partnerCode: p.code,
+        message: si
+          ? `Pavšalni znesek (${p.lumpSum.toLocaleString('de-DE')} €) presega ocenjene stroške × stopnjo sofinanciranja (${p.maxContribution.toLocaleString('de-DE')} €).`
+          : `Lump sum (€${p.lumpSum.toLocaleString('de-DE')}) exceeds estimated costs × funding rate (€${p.maxContribution.toLocaleString('de-DE')}).`,
+      });
+    }
+  });
+
+  return issues;
+};
@@ -0,0 +1,359 @@
+// services/msProjectXmlService.ts
+// ═══════════════════════════════════════════════════════════════
+// MS Project XML import — reverse path of GanttChart.handleExportXML.
+// v1.2 — 2026-03-07 — PredecessorLink Type per the MS Project schema (0 = FF, 3 = SS)
+// v1.1 — 2026-03-07 — LinkLag / LagFormat → TaskDependency.lag + lagUnit
+// v1.0 — 2026-03-07
+//
+// FEATURES:
+//   - parseMsProjectXml(): <Task> list of an MS Project / ProjectLibre
+//     XML file (namespace-agnostic, project summary task UID 0 skipped)
+//   - Top-level summary tasks → work packages, <Milestone>1 → milestones,
+//     other tasks → tasks with Start / Finish (date part)
+//   - PredecessorLink <Type> 0–3 → TaskDependency.type (FF, FS, SF, SS)
+//   - buildMsProjectMerge(): matches WPs / tasks / milestones by id
+//     ("T1.2: Title" names written by our export) or by title, keeps
+//     descriptions, partner allocations and deliverables of matched items,
+//     lists new / changed / removed items for the preview and runs
+//     recalculateProjectSchedule on the result
+//   - Tasks without dates are never exported, so they are never removed
+// ═══════════════════════════════════════════════════════════════
+
+import { recalculateProjectSchedule, formatDependency } from '../utils.ts';
+import { getLanguageDefinition } from '../languages.ts';
+import type { TaskDependency, DependencyLagUnit } from '../types.ts';
+
+// ─── TYPES ───────────────────────────────────────────────────────
+
+export type MsProjectItemKind = 'wp' | 'task' | 'milestone';
+
+export interface MsProjectTask {
+  uid: string;
+  kind: MsProjectItemKind;
+  code: string | null;          // "T1.2" from "T1.2: Title", null for foreign names
+  title: string;
+  start: string;                // YYYY-MM-DD ('' when missing)
+  finish: string;
+  notes: string;
+  predecessors: { uid: string; type: TaskDependency['type']; lag: number; lagUnit: DependencyLagUnit }[];
+  parentUid: string | null;     // UID of the work package summary task
+}
+
+export interface MsProjectChange {
+  kind: 'new' | 'changed' | 'removed';
+  itemKind: MsProjectItemKind;
+  id: string;
+  title: string;
+  wpId: string;
+  details: string[];
+}
+
+export interface MsProjectMergeResult {
+  activities: any[];
+  changes: MsProjectChange[];
+  unchanged: number;
+  warnings: string[];
+}
+
+export interface MsProjectMergeOptions {
+  removeMissing: boolean;
+  language: string;
+}
+
+// ─── PARSE ───────────────────────────────────────────────────────
+
+// MS Project XML schema: 0 = FF, 1 = FS, 2 = SF, 3 = SS
+const LINK_TYPES: Record<string, TaskDependency['type']> = { '0': 'FF', '1': 'FS', '2': 'SF', '3': 'SS' };
+
+const childElements = (el: Element, name: string): Element[] =>
+  Array.from(el.children).filter((c) => c.localName === name);
+
+const childText = (el: Element, name: string): string =>
+  (childElements(el, name)[0]?.textContent || '').trim();
+
+// LinkLag is in tenths of a minute: 4800 per working day (8 h), 14400 per
+// elapsed day; months are 20 working / 30 elapsed days. Even LagFormat = elapsed.
+const readLinkLag = (link: Element): { lag: number; lagUnit: DependencyLagUnit } => {
+  const raw = parseInt(childText(link, 'LinkLag') || '0', 10);
+  const format = parseInt(childText(link, 'LagFormat') || '7', 10);
+  if (!raw || format === 19 || format === 20) return { lag: 0, lagUnit: 'days' };   // percent lags not supported
+  const elapsed = format % 2 === 0;
+  if (format === 11 || format === 12) {
+    return { lag: Math.round(raw / (elapsed ? 432000 : 96000)), lagUnit: 'months' };
+  }
+  return { lag: Math.round(raw / (elapsed ? 14400 : 4800)), lagUnit: 'days' };
+};
+
+const NAME_CODE_RE = /^([A-Za-zČŠŽčšž]{1,4}\d+(?:\.\d+)*)\s*[:\-–]\s*(.*)$/;
+
+const splitName = (name: string): { code: string | null; title: string } => {
+  const m = name.match(NAME_CODE_RE);
+  return m ? { code: m[1], title: m[2].trim() } : { code: null, title: name.trim() };
+};
+
+export const parseMsProjectXml = (xml: string): MsProjectTask[] => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Invalid XML file.');
+  }
+  const root = doc.documentElement;
+  if (root.localName !== 'Project') {
+    throw new Error('Not an MS Project XML file.');
+  }
+
+  const tasksEl = childElements(root, 'Tasks')[0];
+  if (!tasksEl) return [];
+
+  const items: MsProjectTask[] = [];
+  let currentWpUid: string | null = null;
+
+  childElements(tasksEl, 'Task').forEach((el) => {
+    const uid = childText(el, 'UID');
+    const outlineLevel = childText(el, 'OutlineLevel');
+    if (!uid || childText(el, 'IsNull') === '1') return;
+    if (outlineLevel === '0' || (uid === '0' && !outlineLevel)) return;   // project summary task
+
+    const isSummary = childText(el, 'Summary') === '1';
+    const level = outlineLevel ? parseInt(outlineLevel, 10) : 1;
+    const { code, title } = splitName(childText(el, 'Name'));
+
+    if (isSummary) {
+      // Only top-level summaries are work packages; deeper ones just group tasks
+      if (level <= 1) {
+        currentWpUid = uid;
+        items.push({ uid, kind: 'wp', code, title, start: '', finish: '', notes: '', predecessors: [], parentUid: null });
+      }
+      return;
+    }
+    if (level <= 1 && outlineLevel) currentWpUid = null;   // top-level task outside any summary
+
+    const predecessors = childElements(el, 'PredecessorLink')
+      .map((link) => ({ uid: childText(link, 'PredecessorUID'), type: LINK_TYPES[childText(link, 'Type') || '1'] || 'FS', ...readLinkLag(link) }))
+      .filter((p) => p.uid);
+
+    items.push({
+      uid,
+      kind: childText(el, 'Milestone') === '1' ? 'milestone' : 'task',
+      code,
+      title,
+      start: childText(el, 'Start').slice(0, 10),
+      finish: childText(el, 'Finish').slice(0, 10),
+      notes: childText(el, 'Notes'),
+      predecessors,
+      parentUid: currentWpUid,
+    });
+  });
+
+  return items;
+};
+
+// ─── MERGE ───────────────────────────────────────────────────────
+
+const normalizeTitle = (s: string): string => (s || '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+const isValidDate = (d: string | undefined | null): boolean => !!d && !isNaN(new Date(d).getTime());
+
+const numericPart = (id: string): number => {
+  const m = (id || '').match(/(\d+)/);
+  return m ? parseInt(m[1], 10) : 0;
+};
+
+const depsKey = (deps: TaskDependency[] | undefined): string =>
+  (deps || []).map((d) => `${d.predecessorId}:${d.type}:${Number(d.lag) || 0}${d.lagUnit === 'months' ? 'mo' : 'd'}`).sort().join(',');
+
+export const buildMsProjectMerge = (
+  projectData: any,
+  parsed: MsProjectTask[],
+  options: MsProjectMergeOptions
+): MsProjectMergeResult => {
+  const si = options.language === 'si';
+  const { wpPrefix, taskPrefix } = getLanguageDefinition(options.language);
+  const existing: any[] = JSON.parse(JSON.stringify(Array.isArray(projectData?.activities) ? projectData.activities : []));
+  const warnings: string[] = [];
+  const changes: MsProjectChange[] = [];
+  let unchanged = 0;
+
+  // ── Index existing items ──
+  const wpOfItem: Record<string, string> = {};
+  const existingTasks: any[] = [];
+  const existingMilestones: any[] = [];
+  existing.forEach((wp) => {
+    (wp.tasks || []).forEach((t: any) => { wpOfItem[t.id] = wp.id; existingTasks.push(t); });
+    (wp.milestones || []).forEach((m: any) => { wpOfItem[m.id] = wp.id; existingMilestones.push(m); });
+  });
+  const usedIds = new Set<string>([...existing.map((wp) => wp.id), ...Object.keys(wpOfItem)]);
+
+  const claimed = new Set<any>();
+  const matchExisting = (pool: any[], code: string | null, title: string, titleOf: (x: any) => string): any | null => {
+    const byId = code ? pool.find((x) => x.id === code && !claimed.has(x)) : null;
+    const found = byId || pool.find((x) => !claimed.has(x) && title && normalizeTitle(titleOf(x)) === normalizeTitle(title));
+    if (found) claimed.add(found);
+    return found || null;
+  };
+
+  // ── Work packages ──
+  const wpByUid: Record<string, any> = {};
+  const orderedWps: any[] = [];
+  let nextWpNumber = existing.reduce((max, wp) => Math.max(max, numericPart(wp.id)), 0);
+  const hasWpSummaries = parsed.some((p) => p.kind === 'wp');
+
+  parsed.filter((p) => p.kind === 'wp').forEach((p) => {
+    const match = matchExisting(existing, p.code, p.title, (wp) => wp.title);
+    if (match) {
+      const details: string[] = [];
+      if (p.title && p.title !== match.title) {
+        details.push(si ? `naslov: "${match.title}" → "${p.title}"` : `title: "${match.title}" → "${p.title}"`);
+      }
+      const wp = { ...match, title: p.title || match.title, tasks: [], milestones: [] };
+      wpByUid[p.uid] = wp;
+      orderedWps.push({ wp, original: match });
+      if (details.length > 0) changes.push({ kind: 'changed', itemKind: 'wp', id: wp.id, title: wp.title, wpId: wp.id, details });
+      else unchanged++;
+    } else {
+      let id = `${wpPrefix}${++nextWpNumber}`;
+      while (usedIds.has(id)) id = `${wpPrefix}${++nextWpNumber}`;
+      usedIds.add(id);
+      const wp = { id, title: p.title, tasks: [], milestones: [], deliverables: [] };
+      wpByUid[p.uid] = wp;
+      orderedWps.push({ wp, original: null });
+      changes.push({ kind: 'new', itemKind: 'wp', id, title: p.title, wpId: id, details: [] });
+    }
+  });
+  // Existing WPs not in the file keep their place after the imported ones
+  existing.filter((wp) => !claimed.has(wp)).forEach((wp) => {
+    orderedWps.push({ wp: { ...wp, tasks: [], milestones: [] }, original: wp, notInFile: true });
+  });
+  const wpById: Record<string, any> = {};
+  orderedWps.forEach(({ wp }) => { wpById[wp.id] = wp; });
+
+  // ── Tasks and milestones: resolve ids first (dependencies need them) ──
+  const resolved: { p: MsProjectTask; match: any | null; wp: any; id: string }[] = [];
+  const idByUid: Record<string, string> = {};
+
+  parsed.filter((p) => p.kind !== 'wp').forEach((p) => {
+    const pool = p.kind === 'task' ? existingTasks : existingMilestones;
+    const match = matchExisting(pool, p.code, p.title, (x) => (p.kind === 'task' ? x.title : x.description));
+    const wp = p.parentUid ? wpByUid[p.parentUid] : (match ? wpById[wpOfItem[match.id]] : null);
+    if (!wp) {
+      warnings.push(si
+        ? `"${p.title}" ni v nobenem delovnem sklopu — preskočeno.`
+        : `"${p.title}" is not inside any work package — skipped.`);
+      return;
+    }
+    resolved.push({ p, match, wp, id: match ? match.id : '' });
+  });
+
+  resolved.forEach((r) => {
+    if (!r.id) {
+      const wpNumber = numericPart(r.wp.id) || orderedWps.findIndex((o) => o.wp === r.wp) + 1;
+      const prefix = r.p.kind === 'task' ? taskPrefix : 'M';
+      let n = 1;
+      while (usedIds.has(`${prefix}${wpNumber}.${n}`)) n++;
+      r.id = `${prefix}${wpNumber}.${n}`;
+      usedIds.add(r.id);
+    }
+    idByUid[r.p.uid] = r.id;
+  });
+
+  const fileUids = new Set(parsed.map((p) => p.uid));
+  const taskIdsInFile = new Set(resolved.filter((r) => r.p.kind === 'task').map((r) => r.id));
+
+  resolved.forEach(({ p, match, wp, id }) => {
+    const details: string[] = [];
+    const movedFrom = match && wpOfItem[match.id] !== wp.id ? wpOfItem[match.id] : null;
+    if (movedFrom) details.push(si ? `premaknjeno iz ${movedFrom}` : `moved from ${movedFrom}`);
+
+    if (p.kind === 'milestone') {
+      const date = isValidDate(p.start) ? p.start : (match?.date || '');
+      const description = p.title || match?.description || '';
+      if (match && match.date !== date) details.push(`${match.date || '—'} → ${date}`);
+      if (match && description !== match.description) details.push(si ? 'opis' : 'description');
+      wp.milestones.push({ ...(match || {}), id, description, date });
+    } else {
+      const dependencies: TaskDependency[] = [];
+      p.predecessors.forEach((link) => {
+        const predId = idByUid[link.uid];
+        if (predId && taskIdsInFile.has(predId)) {
+          dependencies.push(link.lag
+            ? { predecessorId: predId, type: link.type, lag: link.lag, lagUnit: link.lagUnit }
+            : { predecessorId: predId, type: link.type });
+        } else if (fileUids.has(link.uid)) {
+          warnings.push(si
+            ? `${id}: odvisnost od povzetka ali mejnika ni podprta — prezrto.`
+            : `${id}: dependency on a summary task or milestone is not supported — ignored.`);
+        }
+      });
+      // Links to undated tasks were never exported — keep them
+      (match?.dependencies || []).forEach((dep: TaskDependency) => {
+        const pred = existingTasks.find((t) => t.id === dep.predecessorId);
+        if (pred && !taskIdsInFile.has(pred.id) && !(isValidDate(pred.startDate) && isValidDate(pred.endDate))) {
+          dependencies.push(dep);
+        }
+      });
+
+      const startDate = isValidDate(p.start) ? p.start : (match?.startDate || '');
+      const endDate = isValidDate(p.finish) ? p.finish : (match?.endDate || '');
+      const title = p.title || match?.title || '';
+      const description = p.notes || match?.description || '';
+      if (match) {
+        if (match.startDate !== startDate || match.endDate !== endDate) {
+          details.push(`${match.startDate || '—'} – ${match.endDate || '—'} → ${startDate} – ${endDate}`);
+        }
+        if (title !== match.title) details.push(si ? `naslov: "${match.title}" → "${title}"` : `title: "${match.title}" → "${title}"`);
+        if (description !== (match.description || '')) details.push(si ? 'opis' : 'description');
+        if (depsKey(dependencies) !== depsKey(match.dependencies)) {
+          details.push((si ? 'odvisnosti: ' : 'dependencies: ') + (dependencies.map((d) => formatDependency(d, options.language)).join(', ') || '—'));
+        }
+      }
+      wp.tasks.push({
+        ...(match || { partnerAllocations: [] }),
+        id, title, description, startDate, endDate, dependencies,
+      });
+    }
+
+    if (!match) changes.push({ kind: 'new', itemKind: p.kind, id, title: p.title, wpId: wp.id, details: [] });
+    else if (details.length > 0) changes.push({ kind: 'changed', itemKind: p.kind, id, title: p.title, wpId: wp.id, details });
+    else unchanged++;
+  });
+
+  // ── Items not in the file ──
+  const removedTaskIds = new Set<string>();
+  const keepOrRemove = (item: any, itemKind: MsProjectItemKind, dated: boolean, target: any[]) => {
+    if (claimed.has(item)) return;
+    if (options.removeMissing && dated) {
+      if (itemKind === 'task') removedTaskIds.add(item.id);
+      changes.push({
+        kind: 'removed', itemKind, id: item.id,
+        title: itemKind === 'task' ? item.title : item.description,
+        wpId: wpOfItem[item.id], details: [],
+      });
+    } else {
+      target.push(item);
+    }
+  };
+  orderedWps.forEach(({ wp, original }) => {
+    if (!original) return;
+    (original.tasks || []).forEach((t: any) => keepOrRemove(t, 'task', isValidDate(t.startDate) && isValidDate(t.endDate), wp.tasks));
+    (original.milestones || []).forEach((m: any) => keepOrRemove(m, 'milestone', isValidDate(m.date), wp.milestones));
+  });
+
+  const activities = orderedWps
+    .filter(({ wp, notInFile }) => {
+      const drop = notInFile && hasWpSummaries && options.removeMissing && wp.tasks.length === 0 && wp.milestones.length === 0;
+      if (drop) changes.push({ kind: 'removed', itemKind: 'wp', id: wp.id, title: wp.title, wpId: wp.id, details: [] });
+      return !drop;
+    })
+    .map(({ wp }) => wp);
+
+  // Dependencies on removed tasks would only produce schedule warnings
+  if (removedTaskIds.size > 0) {
+    activities.forEach((wp) => wp.tasks.forEach((t: any) => {
+      t.dependencies = (t.dependencies || []).filter((d: TaskDependency) => !removedTaskIds.has(d.predecessorId));
+    }));
+  }
+
+  const schedule = recalculateProjectSchedule({ ...projectData, activities });
+  warnings.push(...schedule.warnings);
+
+  return { activities: schedule.projectData.activities, changes, unchanged, warnings };
+};
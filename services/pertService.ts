@@ -0,0 +1,367 @@
+// services/pertService.ts
+// ═══════════════════════════════════════════════════════════════
+// PERT analysis — three-point estimates, probability of finishing
+// by the project end date, seeded Monte Carlo simulation.
+// v1.0 — 2026-03-07
+//
+// FEATURES:
+//   - Network from dated tasks: a task never starts before its planned
+//     start (release), dependencies FS/SS/FF/SF with lag; months lag
+//     counted as 30 days; loop-closing dependencies (findDependencyCycles)
+//     are left out
+//   - Durations in calendar days: Task.estimate (o / m / p) when set,
+//     otherwise the duration of the task dates (o = m = p)
+//   - analyzePert(): classic PERT — te = (o + 4m + p) / 6,
+//     σ² = ((p − o) / 6)², forward / backward pass on te, σ of the
+//     driving chain, P(finish ≤ project end) from the normal CDF
+//   - runMonteCarlo(): Beta-PERT samples from a seeded PRNG (mulberry32),
+//     same runs for the same seed; completion date percentiles and
+//     histogram, criticality index = share of runs with zero slack
+// ═══════════════════════════════════════════════════════════════
+
+import { calculateProjectEndDateFromIdea, findDependencyCycles } from '../utils.ts';
+import type { DurationEstimate, PERTTask } from '../types.ts';
+
+// ─── TYPES ───────────────────────────────────────────────────────
+
+export interface PertAnalysis {
+  tasks: PERTTask[];              // earliest / latest in days from origin
+  origin: string;                 // day 0 (YYYY-MM-DD)
+  expectedFinish: string;         // last day of the expected schedule
+  expectedDays: number;
+  stdDevDays: number;
+  criticalPath: string[];         // driving chain on expected durations
+  deadline: string | null;        // project end date (projectIdea)
+  probabilityOnTime: number | null;
+  estimatedCount: number;         // tasks with a three-point estimate
+}
+
+export interface MonteCarloResult {
+  runs: number;
+  seed: number;
+  meanDays: number;
+  percentiles: { p: number; date: string }[];
+  histogram: { date: string; count: number }[];   // bin start date
+  probabilityOnTime: number | null;
+  criticality: Record<string, number>;            // task id → 0..1
+}
+
+interface NetLink {
+  index: number;
+  type: string;
+  lag: number;
+}
+
+interface NetTask {
+  id: string;
+  wpId: string;
+  title: string;
+  release: number;
+  duration: number;
+  estimate: DurationEstimate | null;
+  preds: NetLink[];
+  succs: NetLink[];
+}
+
+interface Network {
+  tasks: NetTask[];
+  order: number[];
+  origin: number;                 // UTC ms
+  deadline: number | null;        // exclusive finish offset
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_MONTH = 30;
+const SLACK_EPSILON = 0.5;
+
+export const DEFAULT_MC_RUNS = 2000;
+export const DEFAULT_MC_SEED = 42;
+
+// ─── HELPERS ─────────────────────────────────────────────────────
+
+const parseDay = (value: any): number | null => {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}/.test(value)) return null;
+  const t = new Date(value.slice(0, 10) + 'T00:00:00Z').getTime();
+  return isNaN(t) ? null : t;
+};
+
+const dayToDate = (origin: number, day: number): string =>
+  new Date(origin + Math.round(day) * DAY_MS).toISOString().slice(0, 10);
+
+// Valid estimate with o ≤ m ≤ p, or null
+export const normalizeEstimate = (estimate: any): DurationEstimate | null => {
+  if (!estimate) return null;
+  const values = [estimate.optimistic, estimate.mostLikely, estimate.pessimistic].map(Number);
+  if (values.some((v) => !isFinite(v) || v < 0)) return null;
+  const [optimistic, mostLikely, pessimistic] = values.sort((a, b) => a - b);
+  return pessimistic > 0 ? { optimistic, mostLikely, pessimistic } : null;
+};
+
+export const pertExpected = (e: DurationEstimate): number => (e.optimistic + 4 * e.mostLikely + e.pessimistic) / 6;
+
+export const pertVariance = (e: DurationEstimate): number => Math.pow((e.pessimistic - e.optimistic) / 6, 2);
+
+// Abramowitz & Stegun 7.1.26 (|error| < 1.5e-7)
+const normalCdf = (z: number): number => {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+};
+
+const mulberry32 = (seed: number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const sampleNormal = (rand: () => number): number => {
+  const u = Math.max(rand(), 1e-12);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rand());
+};
+
+// Marsaglia & Tsang, shape ≥ 1 (Beta-PERT shapes are always ≥ 1)
+const sampleGamma = (shape: number, rand: () => number): number => {
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number, v: number;
+    do {
+      x = sampleNormal(rand);
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = rand();
+    if (u < 1 - 0.0331 * x * x * x * x || Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
+  }
+};
+
+const sampleBetaPert = (e: DurationEstimate, rand: () => number): number => {
+  const range = e.pessimistic - e.optimistic;
+  if (range <= 0) return e.mostLikely;
+  const alpha = 1 + 4 * (e.mostLikely - e.optimistic) / range;
+  const beta = 1 + 4 * (e.pessimistic - e.mostLikely) / range;
+  const x = sampleGamma(alpha, rand);
+  const y = sampleGamma(beta, rand);
+  return e.optimistic + range * (x / (x + y));
+};
+
+// ─── NETWORK ─────────────────────────────────────────────────────
+
+const buildNetwork = (projectData: any): Network | null => {
+  const activities = Array.isArray(projectData?.activities) ? projectData.activities : [];
+  const dated: { wp: any; task: any; start: number; end: number }[] = [];
+  activities.forEach((wp: any) => {
+    (Array.isArray(wp?.tasks) ? wp.tasks : []).forEach((task: any) => {
+      const start = parseDay(task?.startDate);
+      const end = parseDay(task?.endDate);
+      if (task?.id && start !== null && end !== null && end >= start) dated.push({ wp, task, start, end });
+    });
+  });
+  if (dated.length === 0) return null;
+
+  const projectStart = parseDay(projectData?.projectIdea?.startDate);
+  const origin = projectStart !== null ? Math.min(projectStart, ...dated.map((d) => d.start)) : Math.min(...dated.map((d) => d.start));
+  const months = projectData?.projectIdea?.durationMonths;
+  const projectEnd = projectStart !== null && months
+    ? parseDay(calculateProjectEndDateFromIdea(projectData.projectIdea.startDate, months))
+    : null;
+
+  const indexById = new Map<string, number>();
+  const tasks: NetTask[] = dated.map(({ wp, task, start, end }, i) => {
+    indexById.set(task.id, i);
+    return {
+      id: task.id,
+      wpId: wp?.id || '',
+      title: task.title || '',
+      release: (start - origin) / DAY_MS,
+      duration: (end - start) / DAY_MS + 1,
+      estimate: normalizeEstimate(task.estimate),
+      preds: [],
+      succs: [],
+    };
+  });
+
+  const cyclic = new Set(findDependencyCycles(dated.map((d) => d.task)).map((chain) => chain[chain.length - 2] + '>' + chain[chain.length - 1]));
+  dated.forEach(({ task }, i) => {
+    (Array.isArray(task.dependencies) ? task.dependencies : []).forEach((dep: any) => {
+      const p = indexById.get(dep?.predecessorId);
+      if (p === undefined || p === i || cyclic.has(dep.predecessorId + '>' + task.id)) return;
+      const lag = (Number(dep.lag) || 0) * (dep.lagUnit === 'months' ? DAYS_PER_MONTH : 1);
+      const type = ['SS', 'FF', 'SF'].includes(dep.type) ? dep.type : 'FS';
+      tasks[i].preds.push({ index: p, type, lag });
+      tasks[p].succs.push({ index: i, type, lag });
+    });
+  });
+
+  // Kahn — cyclic links are already removed
+  const inDegree = tasks.map((t) => t.preds.length);
+  const queue = tasks.map((_, i) => i).filter((i) => inDegree[i] === 0);
+  const order: number[] = [];
+  while (queue.length > 0) {
+    const i = queue.shift() as number;
+    order.push(i);
+    tasks[i].succs.forEach((s) => { if (--inDegree[s.index] === 0) queue.push(s.index); });
+  }
+
+  return {
+    tasks,
+    order,
+    origin,
+    deadline: projectEnd !== null ? (projectEnd - origin) / DAY_MS + 1 : null,
+  };
+};
+
+const schedule = (net: Network, durations: number[]) => {
+  const n = net.tasks.length;
+  const es = new Array<number>(n).fill(0);
+  const ef = new Array<number>(n).fill(0);
+  const ls = new Array<number>(n).fill(0);
+  const lf = new Array<number>(n).fill(0);
+
+  net.order.forEach((i) => {
+    let start = net.tasks[i].release;
+    net.tasks[i].preds.forEach(({ index: p, type, lag }) => {
+      const candidate = type === 'SS' ? es[p] + lag
+        : type === 'FF' ? ef[p] + lag - durations[i]
+        : type === 'SF' ? es[p] + lag - durations[i]
+        : ef[p] + lag;
+      if (candidate > start) start = candidate;
+    });
+    es[i] = start;
+    ef[i] = start + durations[i];
+  });
+
+  const finish = Math.max(...ef);
+
+  [...net.order].reverse().forEach((i) => {
+    let latest = finish;
+    net.tasks[i].succs.forEach(({ index: s, type, lag }) => {
+      const candidate = type === 'SS' ? ls[s] - lag + durations[i]
+        : type === 'FF' ? lf[s] - lag
+        : type === 'SF' ? lf[s] - lag + durations[i]
+        : ls[s] - lag;
+      if (candidate < latest) latest = candidate;
+    });
+    lf[i] = latest;
+    ls[i] = latest - durations[i];
+  });
+
+  return { es, ef, ls, lf, finish };
+};
+
+// Chain of predecessors that set each start, back from the last finishing task
+const drivingChain = (net: Network, durations: number[], s: { es: number[]; ef: number[]; finish: number }): number[] => {
+  let current = s.ef.findIndex((f) => Math.abs(f - s.finish) < 1e-9);
+  const chain: number[] = [];
+  const seen = new Set<number>();
+  while (current >= 0 && !seen.has(current)) {
+    chain.unshift(current);
+    seen.add(current);
+    const i = current;
+    const driver = net.tasks[i].preds.find(({ index: p, type, lag }) => {
+      const candidate = type === 'SS' ? s.es[p] + lag
+        : type === 'FF' ? s.ef[p] + lag - durations[i]
+        : type === 'SF' ? s.es[p] + lag - durations[i]
+        : s.ef[p] + lag;
+      return Math.abs(candidate - s.es[i]) < 1e-9;
+    });
+    current = driver ? driver.index : -1;
+  }
+  return chain;
+};
+
+// ─── ANALYSIS ────────────────────────────────────────────────────
+
+export const analyzePert = (projectData: any): PertAnalysis | null => {
+  const net = buildNetwork(projectData);
+  if (!net) return null;
+
+  const expected = net.tasks.map((t) => (t.estimate ? pertExpected(t.estimate) : t.duration));
+  const variances = net.tasks.map((t) => (t.estimate ? pertVariance(t.estimate) : 0));
+  const s = schedule(net, expected);
+  const chain = drivingChain(net, expected, s);
+  const stdDevDays = Math.sqrt(chain.reduce((sum, i) => sum + variances[i], 0));
+
+  let probabilityOnTime: number | null = null;
+  if (net.deadline !== null) {
+    probabilityOnTime = stdDevDays > 0
+      ? normalCdf((net.deadline - s.finish) / stdDevDays)
+      : (s.finish <= net.deadline + 1e-9 ? 1 : 0);
+  }
+
+  const tasks: PERTTask[] = net.tasks.map((t, i) => ({
+    id: t.id,
+    wpId: t.wpId,
+    title: t.title,
+    duration: t.duration,
+    earliestStart: s.es[i],
+    earliestFinish: s.ef[i],
+    latestStart: s.ls[i],
+    latestFinish: s.lf[i],
+    slack: s.ls[i] - s.es[i],
+    isCritical: s.ls[i] - s.es[i] < SLACK_EPSILON,
+    dependencies: t.preds.map((p) => net.tasks[p.index].id),
+    estimate: t.estimate || undefined,
+    expectedDuration: expected[i],
+    variance: variances[i],
+  }));
+
+  return {
+    tasks,
+    origin: dayToDate(net.origin, 0),
+    expectedFinish: dayToDate(net.origin, s.finish - 1),
+    expectedDays: s.finish,
+    stdDevDays,
+    criticalPath: chain.map((i) => net.tasks[i].id),
+    deadline: net.deadline !== null ? dayToDate(net.origin, net.deadline - 1) : null,
+    probabilityOnTime,
+    estimatedCount: net.tasks.filter((t) => t.estimate).length,
+  };
+};
+
+export const runMonteCarlo = (projectData: any, runs: number = DEFAULT_MC_RUNS, seed: number = DEFAULT_MC_SEED): MonteCarloResult | null => {
+  const net = buildNetwork(projectData);
+  if (!net || runs <= 0) return null;
+
+  const rand = mulberry32(seed);
+  const finishes: number[] = [];
+  const criticalCounts = new Array<number>(net.tasks.length).fill(0);
+  let onTime = 0;
+
+  for (let r = 0; r < runs; r++) {
+    const durations = net.tasks.map((t) => (t.estimate ? sampleBetaPert(t.estimate, rand) : t.duration));
+    const s = schedule(net, durations);
+    finishes.push(s.finish);
+    if (net.deadline !== null && s.finish <= net.deadline + 1e-9) onTime++;
+    s.ls.forEach((ls, i) => { if (ls - s.es[i] < SLACK_EPSILON) criticalCounts[i]++; });
+  }
+
+  finishes.sort((a, b) => a - b);
+  const at = (p: number) => finishes[Math.min(finishes.length - 1, Math.floor(p / 100 * finishes.length))];
+
+  // ~20 bins of whole days
+  const min = Math.floor(finishes[0]);
+  const max = Math.ceil(finishes[finishes.length - 1]);
+  const binDays = Math.max(1, Math.ceil((max - min + 1) / 20));
+  const bins = new Array<number>(Math.floor((max - min) / binDays) + 1).fill(0);
+  finishes.forEach((f) => { bins[Math.min(bins.length - 1, Math.floor((f - min) / binDays))]++; });
+
+  const criticality: Record<string, number> = {};
+  net.tasks.forEach((t, i) => { criticality[t.id] = criticalCounts[i] / runs; });
+
+  return {
+    runs,
+    seed,
+    meanDays: finishes.reduce((a, b) => a + b, 0) / runs,
+    percentiles: [10, 50, 80, 90].map((p) => ({ p, date: dayToDate(net.origin, Math.ceil(at(p)) - 1) })),
+    histogram: bins.map((count, b) => ({ date: dayToDate(net.origin, min + b * binDays - 1), count })),
+    probabilityOnTime: net.deadline !== null ? onTime / runs : null,
+    criticality,
+  };
+};
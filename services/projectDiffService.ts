@@ -0,0 +1,290 @@
+// services/projectDiffService.ts
+// ═══════════════════════════════════════════════════════════════
+// Structural diff between two ProjectData states.
+// v1.1 — 2026-03-07 — rootPath / rootLabel on added & removed entries
+//   (groups expanded fields back to their item — aiSuggestionService)
+// v1.0 — 2026-03-07
+//
+// FEATURES:
+//   - Walks the typed structure: arrays of items with an `id`
+//     (work packages, tasks, milestones, deliverables, risks, KERs,
+//     partners) are aligned by id, everything else (objectives,
+//     problem causes/consequences ...) by index
+//   - Reports added / removed / modified fields; text fields carry a
+//     word-level diff (LCS over words + whitespace)
+//   - Added / removed items are expanded into their text fields via
+//     translationDiffService.flattenTranslatableFields()
+//   - matchBy: 'index' for EN ↔ SI comparison (WP1 vs DS1 ids differ)
+//   - includeTextChanges: false → structure only (useful EN ↔ SI)
+//
+// PATHS:
+//   Same format as flattenTranslatableFields: activities[1].tasks[0].title
+//   (index of the NEW state; of the old state for removed items)
+// ═══════════════════════════════════════════════════════════════
+
+import { flattenTranslatableFields } from './translationDiffService.ts';
+
+// ─── TYPES ───────────────────────────────────────────────────────
+
+export type ProjectDiffChangeType = 'added' | 'removed' | 'modified';
+
+export interface WordDiffPart {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+export interface ProjectDiffEntry {
+  section: string;            // top-level ProjectData key
+  path: string;               // activities[1].tasks[0].title
+  label: string;              // activities › WP2 › tasks › T2.1 › title
+  type: ProjectDiffChangeType;
+  oldValue?: string;
+  newValue?: string;
+  words?: WordDiffPart[];     // only for modified text fields
+  rootPath?: string;          // added / removed: path of the whole added / removed item
+  rootLabel?: string;
+}
+
+export interface ProjectDiffResult {
+  entries: ProjectDiffEntry[];
+  bySection: Record<string, ProjectDiffEntry[]>;
+  stats: { added: number; removed: number; modified: number };
+}
+
+export interface ProjectDiffOptions {
+  matchBy?: 'id' | 'index';
+  includeTextChanges?: boolean;
+}
+
+// ─── CONSTANTS ───────────────────────────────────────────────────
+
+// Above this many LCS cells the word diff falls back to remove + add
+const MAX_WORD_DIFF_CELLS = 250000;
+
+// ─── WORD DIFF ───────────────────────────────────────────────────
+
+const tokenize = (text: string): string[] => text.split(/(\s+)/).filter((t) => t.length > 0);
+
+const pushPart = (parts: WordDiffPart[], type: WordDiffPart['type'], text: string) => {
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    parts.push({ type, text });
+  }
+};
+
+export const diffWords = (oldText: string, newText: string): WordDiffPart[] => {
+  const a = tokenize(oldText || '');
+  const b = tokenize(newText || '');
+  const parts: WordDiffPart[] = [];
+
+  if (a.length * b.length > MAX_WORD_DIFF_CELLS) {
+    if (oldText) parts.push({ type: 'removed', text: oldText });
+    if (newText) parts.push({ type: 'added', text: newText });
+    return parts;
+  }
+
+  // LCS table (suffix lengths)
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const lcs = new Uint32Array(rows * cols);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * cols + j] = a[i] === b[j]
+        ? lcs[(i + 1) * cols + j + 1] + 1
+        : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushPart(parts, 'equal', a[i]);
+      i++; j++;
+    } else if (lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1]) {
+      pushPart(parts, 'removed', a[i++]);
+    } else {
+      pushPart(parts, 'added', b[j++]);
+    }
+  }
+  while (i < a.length) pushPart(parts, 'removed', a[i++]);
+  while (j < b.length) pushPart(parts, 'added', b[j++]);
+
+  return parts;
+};
+
+// ─── HELPERS ─────────────────────────────────────────────────────
+
+const isPlainObject = (v: any): boolean => v !== null && typeof v === 'object' && !Array.isArray(v);
+
+const isEmptyValue = (v: any): boolean =>
+  v === undefined || v === null || (typeof v === 'string' && v.trim() === '');
+
+const isIdArray = (arr: any[]): boolean =>
+  arr.length > 0 && arr.every((item) => isPlainObject(item) && typeof item.id === 'string' && item.id.length > 0);
+
+const valueToText = (v: any): string => {
+  if (isEmptyValue(v)) return '';
+  if (typeof v === 'string') return v.trim();
+  if (typeof v === 'object') return JSON.stringify(v);
+  return String(v);
+};
+
+const sectionOf = (path: string): string => path.split(/[.[]/)[0];
+
+// ─── WALKER ──────────────────────────────────────────────────────
+
+interface WalkContext {
+  entries: ProjectDiffEntry[];
+  matchBy: 'id' | 'index';
+  includeTextChanges: boolean;
+}
+
+const pushSubtree = (
+  ctx: WalkContext,
+  type: 'added' | 'removed',
+  value: any,
+  path: string,
+  label: string
+) => {
+  if (isEmptyValue(value)) return;
+
+  if (typeof value !== 'object') {
+    const text = valueToText(value);
+    ctx.entries.push({
+      section: sectionOf(path), path, label, type, rootPath: path, rootLabel: label,
+      ...(type === 'added' ? { newValue: text } : { oldValue: text }),
+    });
+    return;
+  }
+
+  // Expand the item into its text fields (same flattening as translation)
+  const fields = flattenTranslatableFields(value, path);
+  if (fields.length === 0) {
+    const text = valueToText(value);
+    ctx.entries.push({
+      section: sectionOf(path), path, label, type, rootPath: path, rootLabel: label,
+      ...(type === 'added' ? { newValue: text } : { oldValue: text }),
+    });
+    return;
+  }
+  for (const field of fields) {
+    const suffix = field.path
+      .slice(path.length)
+      .replace(/\[(\d+)\]/g, (_m, idx) => `.#${Number(idx) + 1}`)
+      .split('.')
+      .filter(Boolean)
+      .join(' › ');
+    ctx.entries.push({
+      section: sectionOf(field.path),
+      path: field.path,
+      label: suffix ? `${label} › ${suffix}` : label,
+      type,
+      rootPath: path,
+      rootLabel: label,
+      ...(type === 'added' ? { newValue: field.value } : { oldValue: field.value }),
+    });
+  }
+};
+
+const walk = (ctx: WalkContext, oldVal: any, newVal: any, path: string, label: string) => {
+  const oldEmpty = isEmptyValue(oldVal);
+  const newEmpty = isEmptyValue(newVal);
+  if (oldEmpty && newEmpty) return;
+  if (oldEmpty) { pushSubtree(ctx, 'added', newVal, path, label); return; }
+  if (newEmpty) { pushSubtree(ctx, 'removed', oldVal, path, label); return; }
+
+  // ── Arrays ──
+  if (Array.isArray(oldVal) && Array.isArray(newVal)) {
+    if (ctx.matchBy === 'id' && (isIdArray(oldVal) || isIdArray(newVal))) {
+      const oldById = new Map<string, { item: any; index: number }>();
+      oldVal.forEach((item, index) => { if (item?.id) oldById.set(item.id, { item, index }); });
+      const seen = new Set<string>();
+
+      newVal.forEach((item, index) => {
+        const id = item?.id;
+        const itemPath = `${path}[${index}]`;
+        const itemLabel = `${label} › ${id || '#' + (index + 1)}`;
+        const match = id ? oldById.get(id) : undefined;
+        if (match) {
+          seen.add(id);
+          walk(ctx, match.item, item, itemPath, itemLabel);
+        } else {
+          pushSubtree(ctx, 'added', item, itemPath, itemLabel);
+        }
+      });
+
+      oldVal.forEach((item, index) => {
+        if (item?.id && seen.has(item.id)) return;
+        pushSubtree(ctx, 'removed', item, `${path}[${index}]`, `${label} › ${item?.id || '#' + (index + 1)}`);
+      });
+      return;
+    }
+
+    const len = Math.max(oldVal.length, newVal.length);
+    for (let i = 0; i < len; i++) {
+      walk(ctx, oldVal[i], newVal[i], `${path}[${i}]`, `${label} › #${i + 1}`);
+    }
+    return;
+  }
+
+  // ── Objects ──
+  if (isPlainObject(oldVal) && isPlainObject(newVal)) {
+    const keys = Array.from(new Set([...Object.keys(oldVal), ...Object.keys(newVal)]));
+    for (const key of keys) {
+      walk(
+        ctx,
+        oldVal[key],
+        newVal[key],
+        path ? `${path}.${key}` : key,
+        label ? `${label} › ${key}` : key
+      );
+    }
+    return;
+  }
+
+  // ── Leaves (or type change) ──
+  const oldText = valueToText(oldVal);
+  const newText = valueToText(newVal);
+  if (oldText === newText) return;
+
+  const isText = typeof oldVal === 'string' && typeof newVal === 'string';
+  if (isText && !ctx.includeTextChanges) return;
+
+  ctx.entries.push({
+    section: sectionOf(path),
+    path,
+    label,
+    type: 'modified',
+    oldValue: oldText,
+    newValue: newText,
+    ...(isText ? { words: diffWords(oldText, newText) } : {}),
+  });
+};
+
+// ─── MAIN ENTRY ──────────────────────────────────────────────────
+
+export const diffProjectData = (
+  oldData: any,
+  newData: any,
+  options: ProjectDiffOptions = {}
+): ProjectDiffResult => {
+  const ctx: WalkContext = {
+    entries: [],
+    matchBy: options.matchBy || 'id',
+    includeTextChanges: options.includeTextChanges !== false,
+  };
+
+  walk(ctx, oldData || {}, newData || {}, '', '');
+
+  const bySection: Record<string, ProjectDiffEntry[]> = {};
+  const stats = { added: 0, removed: 0, modified: 0 };
+  for (const entry of ctx.entries) {
+    (bySection[entry.section] = bySection[entry.section] || []).push(entry);
+    stats[entry.type]++;
+  }
+
+  return { entries: ctx.entries, bySection, stats };
+};
@@ -0,0 +1,198 @@
+// services/projectVersionService.ts
+// ═══════════════════════════════════════════════════════════════
+// Project version history — persistent snapshots in project_versions
+// v1.1 — 2026-03-07 — Snapshots hold every language version ({ en, si, de, ... })
+// v1.0 — 2026-03-07
+//
+// FEATURES:
+//   - createSnapshot(): stores ALL language versions ({ en, si, ... }) of a project
+//     → kind 'auto'  — taken before AI generation / translation / restore
+//     → kind 'named' — user label ("submitted to partner review")
+//   - Each snapshot records projects.version, then increments it
+//     (SavedProject.meta.version / ProjectListModal badge)
+//   - Identical consecutive auto snapshots are skipped (per session)
+//   - Only the newest MAX_AUTO_SNAPSHOTS auto snapshots are kept per
+//     project — named snapshots are never pruned
+//
+// SECURITY:
+//   - RLS: only the project owner can read/insert/delete versions
+// ═══════════════════════════════════════════════════════════════
+
+import { supabase } from './supabaseClient.ts';
+import { storageService } from './storageService.ts';
+import { logErrorQuick } from './errorLogService.ts';
+import type { ProjectVersion, ProjectVersionKind, ProjectVersionSnapshot } from '../types.ts';
+
+// ——— Constants ——————————————————————————————————————
+
+const MAX_AUTO_SNAPSHOTS = 30;
+
+// Last auto snapshot JSON per project — avoids duplicates when the user
+// regenerates several sections without editing in between
+const lastAutoSnapshotJson = new Map<string, string>();
+
+// ——— Helpers ————————————————————————————————————————
+
+// Language keys sorted, empty versions dropped — stable JSON for duplicate check
+const normalizeSnapshot = (snapshot: ProjectVersionSnapshot): ProjectVersionSnapshot => {
+  const normalized: ProjectVersionSnapshot = { en: null, si: null };
+  for (const lang of Object.keys(snapshot).sort()) {
+    normalized[lang] = snapshot[lang] || null;
+  }
+  return normalized;
+};
+
+const mapRow = (row: any): ProjectVersion => ({
+  id: row.id,
+  projectId: row.project_id,
+  version: row.version,
+  kind: row.kind,
+  label: row.label,
+  reason: row.reason,
+  createdAt: row.created_at,
+  ...(row.data ? { data: normalizeSnapshot(row.data) } : {}),
+});
+
+const pruneAutoSnapshots = async (projectId: string): Promise<void> => {
+  const { data, error } = await supabase
+    .from('project_versions')
+    .select('id')
+    .eq('project_id', projectId)
+    .eq('kind', 'auto')
+    .order('created_at', { ascending: false })
+    .range(MAX_AUTO_SNAPSHOTS, MAX_AUTO_SNAPSHOTS + 100);
+
+  if (error || !data || data.length === 0) return;
+
+  await supabase
+    .from('project_versions')
+    .delete()
+    .in('id', data.map((r: any) => r.id));
+};
+
+// ——— Service ——————————————————————————————————————
+
+export const projectVersionService = {
+
+  MAX_AUTO_SNAPSHOTS,
+
+  // Returns the project's current version number (projects.version)
+  async getCurrentVersion(projectId: string): Promise<number> {
+    const { data, error } = await supabase
+      .from('projects')
+      .select('version')
+      .eq('id', projectId)
+      .single();
+
+    if (error || !data) return 1;
+    return data.version || 1;
+  },
+
+  // Snapshot all languages, then bump projects.version
+  async createSnapshot(
+    projectId: string,
+    snapshot: ProjectVersionSnapshot,
+    options: { kind?: ProjectVersionKind; label?: string; reason?: string } = {}
+  ): Promise<ProjectVersion | null> {
+    if (!projectId || !Object.values(snapshot).some(Boolean)) return null;
+
+    const kind = options.kind || 'auto';
+    const snapshotJson = JSON.stringify(normalizeSnapshot(snapshot));
+
+    if (kind === 'auto' && lastAutoSnapshotJson.get(projectId) === snapshotJson) {
+      console.log(`[projectVersionService] Auto snapshot skipped (unchanged) — ${options.reason || ''}`);
+      return null;
+    }
+
+    try {
+      const userId = await storageService.getCurrentUserId();
+      const version = await this.getCurrentVersion(projectId);
+
+      const { data, error } = await supabase
+        .from('project_versions')
+        .insert({
+          project_id: projectId,
+          version,
+          kind,
+          label: options.label?.trim() || null,
+          reason: options.reason || null,
+          data: JSON.parse(snapshotJson),
+          created_by: userId,
+        })
+        .select('id, project_id, version, kind, label, reason, created_at')
+        .single();
+
+      if (error || !data) {
+        console.error('[projectVersionService] Snapshot failed:', error);
+        logErrorQuick('projectVersionService.createSnapshot', error, { projectId, kind });
+        return null;
+      }
+
+      const { error: bumpError } = await supabase
+        .from('projects')
+        .update({ version: version + 1 })
+        .eq('id', projectId);
+
+      if (bumpError) {
+        logErrorQuick('projectVersionService.createSnapshot.bump', bumpError, { projectId, version });
+      }
+
+      if (kind === 'auto') {
+        lastAutoSnapshotJson.set(projectId, snapshotJson);
+        await pruneAutoSnapshots(projectId);
+      }
+
+      console.log(`[projectVersionService] Snapshot v${version} (${kind}${options.label ? ': ' + options.label : ''}${options.reason ? ', ' + options.reason : ''}) — project ${projectId}`);
+      return mapRow(data);
+    } catch (e: any) {
+      console.error('[projectVersionService] Snapshot error:', e);
+      logErrorQuick('projectVersionService.createSnapshot', e, { projectId, kind });
+      return null;
+    }
+  },
+
+  // List versions (without data) — newest first
+  async listVersions(projectId: string): Promise<ProjectVersion[]> {
+    const { data, error } = await supabase
+      .from('project_versions')
+      .select('id, project_id, version, kind, label, reason, created_at')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('[projectVersionService] Failed to list versions:', error);
+      logErrorQuick('projectVersionService.listVersions', error, { projectId });
+      return [];
+    }
+    return (data || []).map(mapRow);
+  },
+
+  // Load one version including its { en, si, ... } data
+  async getVersion(versionId: string): Promise<ProjectVersion | null> {
+    const { data, error } = await supabase
+      .from('project_versions')
+      .select('*')
+      .eq('id', versionId)
+      .single();
+
+    if (error || !data) {
+      console.error('[projectVersionService] Failed to load version:', error);
+      logErrorQuick('projectVersionService.getVersion', error, { versionId });
+      return null;
+    }
+    return mapRow(data);
+  },
+
+  async deleteVersion(versionId: string): Promise<{ success: boolean; message?: string }> {
+    const { error } = await supabase
+      .from('project_versions')
+      .delete()
+      .eq('id', versionId);
+
+    if (error) {
+      logErrorQuick('projectVersionService.deleteVersion', error, { versionId });
+      return { success: false, message: error.message };
+    }
+    return { success: true };
+  },
+};
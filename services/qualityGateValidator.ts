@@ -0,0 +1,362 @@
+// services/qualityGateValidator.ts
+// ═══════════════════════════════════════════════════════════════
+// Programmatic QUALITY GATE validator for generated sections.
+// v1.2 — 2026-03-07 — emptyFields skips NON_PROSE_KEYS (ids, dates, enum
+//   keys) like the other gates — it only flags missing prose
+// v1.1 — 2026-03-07 — lumpSumCompletion gate (lump-sum budget mode)
+// v1.0 — 2026-03-07
+//
+// QUALITY_GATES in Instructions.ts are injected into prompts only.
+// This module evaluates the machine-checkable subset of those gates
+// against the actual output and returns structured findings per
+// item path (same path format as translationDiffService:
+// "activities[2].deliverables[0].indicator").
+//
+// Gates checked:
+//   - emptyFields        — ZERO EMPTY FIELDS (FATAL per QUALITY_GATES), prose only
+//   - bannedPhrases      — no banned AI phrases (Instructions.BANNED_AI_PHRASES)
+//   - citationFormat     — causes/consequences cite (Source Name, Year)
+//   - wpCount            — total number of WPs is between 6 and 10
+//   - lastWpManagement   — last WP is Project Management and Coordination
+//   - binaryIndicator    — deliverable/output indicators state a quantity
+//   - datesWithinProject — task/milestone dates within {{projectStart}}–{{projectEnd}}
+//   - lumpSumCompletion  — lump-sum mode: every WP names the deliverables
+//                          that prove its completion
+// ═══════════════════════════════════════════════════════════════
+
+import { getBannedAIPhrases } from './Instructions.ts';
+import { calculateProjectEndDateFromIdea } from '../utils.ts';
+
+// ─── TYPES ───────────────────────────────────────────────────────
+
+export type QualityGateId =
+  | 'emptyFields'
+  | 'bannedPhrases'
+  | 'citationFormat'
+  | 'wpCount'
+  | 'lastWpManagement'
+  | 'binaryIndicator'
+  | 'datesWithinProject'
+  | 'lumpSumCompletion';
+
+export type QualityGateSeverity = 'fatal' | 'warning';
+
+export interface QualityGateFinding {
+  gateId: QualityGateId;
+  severity: QualityGateSeverity;
+  path: string;
+  passed: boolean;
+  message: string;
+}
+
+export interface QualityGateReport {
+  sectionKey: string;
+  passed: boolean;
+  fatalCount: number;
+  warningCount: number;
+  findings: QualityGateFinding[];
+  checkedAt: string;
+}
+
+// ─── CONSTANTS ───────────────────────────────────────────────────
+
+const GATE_SEVERITY: Record<QualityGateId, QualityGateSeverity> = {
+  emptyFields: 'fatal',
+  bannedPhrases: 'warning',
+  citationFormat: 'warning',
+  wpCount: 'warning',
+  lastWpManagement: 'warning',
+  binaryIndicator: 'warning',
+  datesWithinProject: 'warning',
+  lumpSumCompletion: 'warning',
+};
+
+// Sub-section keys (used by useGeneration SUB_SECTION_MAP) → path in ProjectData
+const SECTION_BASE_PATH: Record<string, string> = {
+  coreProblem: 'problemAnalysis.coreProblem',
+  causes: 'problemAnalysis.causes',
+  consequences: 'problemAnalysis.consequences',
+  projectTitleAcronym: 'projectIdea',
+  mainAim: 'projectIdea.mainAim',
+  stateOfTheArt: 'projectIdea.stateOfTheArt',
+  proposedSolution: 'projectIdea.proposedSolution',
+  readinessLevels: 'projectIdea.readinessLevels',
+  policies: 'projectIdea.policies',
+};
+
+// Keys that hold ids, dates, enums or numbers — never prose
+const NON_PROSE_KEYS = new Set([
+  'id', 'startDate', 'endDate', 'date', 'level',
+  'category', 'likelihood', 'impact', 'type', 'predecessorId',
+  'projectAcronym', 'code', 'partnerType', 'partnerId', 'categoryKey', 'costModel',
+]);
+
+// Subtrees that are not generated prose and may legitimately be empty
+const SKIP_SUBTREES = new Set(['partnerAllocations', 'dependencies']);
+
+const EMPTY_PLACEHOLDER_MARKER = '[AI did not generate';
+
+const CITATION_REGEX = /\([^()]{2,}?,\s*(?:19|20)\d{2}[a-z]?\)/;
+
+const QUANTITY_REGEX = /\d|\b(one|two|three|four|five|six|seven|eight|nine|ten|twelve|single|ena|dva|dve|tri|štiri|pet|šest|sedem|osem|devet|deset)\b/i;
+
+const ISO_DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+// ─── HELPERS ─────────────────────────────────────────────────────
+
+const getByPath = (obj: any, path: string): any => {
+  const parts = path.replace(/\[(\d+)\]/g, '.$1').split('.');
+  let current = obj;
+  for (const part of parts) {
+    if (current === null || current === undefined) return undefined;
+    const idx = Number(part);
+    current = Number.isNaN(idx) ? current[part] : current[idx];
+  }
+  return current;
+};
+
+const joinPath = (prefix: string, key: string | number): string => {
+  if (typeof key === 'number') return `${prefix}[${key}]`;
+  return prefix ? `${prefix}.${key}` : key;
+};
+
+const walkStrings = (
+  obj: any,
+  prefix: string,
+  visit: (value: string, path: string, key: string) => void,
+  key: string = ''
+): void => {
+  if (obj === null || obj === undefined) return;
+  if (typeof obj === 'string') {
+    visit(obj, prefix, key);
+    return;
+  }
+  if (Array.isArray(obj)) {
+    obj.forEach((item, index) => walkStrings(item, joinPath(prefix, index), visit, key));
+    return;
+  }
+  if (typeof obj === 'object') {
+    for (const [k, v] of Object.entries(obj)) {
+      if (SKIP_SUBTREES.has(k)) continue;
+      walkStrings(v, joinPath(prefix, k), visit, k);
+    }
+  }
+};
+
+const isEmptyValue = (value: string): boolean => {
+  const trimmed = value.trim();
+  if (trimmed.length === 0) return true;
+  if (/^n\/?a\.?$/i.test(trimmed)) return true;
+  return trimmed.includes(EMPTY_PLACEHOLDER_MARKER);
+};
+
+const isManagementTitle = (title: string): boolean => {
+  const t = (title || '').toLowerCase();
+  return t.includes('management') || t.includes('coordination')
+    || t.includes('upravljanje') || t.includes('koordinacija');
+};
+
+const finding = (
+  gateId: QualityGateId,
+  path: string,
+  passed: boolean,
+  message: string
+): QualityGateFinding => ({
+  gateId,
+  severity: GATE_SEVERITY[gateId],
+  path,
+  passed,
+  message,
+});
+
+// ─── GATE CHECKS ─────────────────────────────────────────────────
+
+const checkEmptyFields = (data: any, basePath: string): QualityGateFinding[] => {
+  const failed: QualityGateFinding[] = [];
+  walkStrings(data, basePath, (value, path, key) => {
+    if (NON_PROSE_KEYS.has(key)) return;
+    if (isEmptyValue(value)) {
+      failed.push(finding('emptyFields', path, false, 'Field is empty, "N/A" or an AI placeholder.'));
+    }
+  });
+  return failed.length > 0 ? failed : [finding('emptyFields', basePath, true, 'All fields contain content.')];
+};
+
+const checkBannedPhrases = (data: any, basePath: string): QualityGateFinding[] => {
+  const phrases = getBannedAIPhrases().map(p => p.toLowerCase());
+  const failed: QualityGateFinding[] = [];
+  walkStrings(data, basePath, (value, path, key) => {
+    if (NON_PROSE_KEYS.has(key)) return;
+    const lower = value.toLowerCase();
+    const hits = phrases.filter(p => {
+      const idx = lower.indexOf(p);
+      if (idx < 0) return false;
+      // whole-word start: avoid matching "leverage" inside unrelated tokens
+      return idx === 0 || !/[a-z]/.test(lower.charAt(idx - 1));
+    });
+    if (hits.length > 0) {
+      failed.push(finding('bannedPhrases', path, false, `Contains banned phrase(s): ${hits.map(h => `"${h}"`).join(', ')}.`));
+    }
+  });
+  return failed.length > 0 ? failed : [finding('bannedPhrases', basePath, true, 'No banned AI phrases found.')];
+};
+
+const checkCitations = (items: any, basePath: string): QualityGateFinding[] => {
+  if (!Array.isArray(items)) return [];
+  return items.map((item: any, idx: number) => {
+    const path = joinPath(joinPath(basePath, idx), 'description');
+    const desc = typeof item?.description === 'string' ? item.description : '';
+    const ok = CITATION_REGEX.test(desc);
+    return finding('citationFormat', path, ok, ok
+      ? 'Contains a (Source Name, Year) citation.'
+      : 'Missing a citation in the format (Source Name, Year).');
+  });
+};
+
+const checkBinaryIndicators = (items: any[], pathOf: (idx: number) => string): QualityGateFinding[] => {
+  return items.map((item: any, idx: number) => {
+    const path = pathOf(idx);
+    const indicator = typeof item?.indicator === 'string' ? item.indicator.trim() : '';
+    const ok = indicator.length > 0 && !isEmptyValue(indicator) && QUANTITY_REGEX.test(indicator);
+    return finding('binaryIndicator', path, ok, ok
+      ? 'Indicator states a verifiable quantity.'
+      : 'Indicator is not binary/verifiable — state quantity, format and verification method.');
+  });
+};
+
+const checkActivities = (activities: any, basePath: string, projectData: any): QualityGateFinding[] => {
+  const findings: QualityGateFinding[] = [];
+  if (!Array.isArray(activities)) return findings;
+
+  const wpCount = activities.length;
+  const countOk = wpCount >= 6 && wpCount <= 10;
+  findings.push(finding('wpCount', basePath, countOk, countOk
+    ? `${wpCount} work packages (6–10 required).`
+    : `${wpCount} work packages — total must be between 6 and 10.`));
+
+  if (wpCount > 0) {
+    const lastIdx = wpCount - 1;
+    const lastOk = isManagementTitle(activities[lastIdx]?.title);
+    findings.push(finding('lastWpManagement', joinPath(joinPath(basePath, lastIdx), 'title'), lastOk, lastOk
+      ? 'Last WP is Project Management and Coordination.'
+      : 'The last WP must be "Project Management and Coordination".'));
+  }
+
+  activities.forEach((wp: any, wpIdx: number) => {
+    const wpPath = joinPath(basePath, wpIdx);
+    const deliverables = Array.isArray(wp?.deliverables) ? wp.deliverables : [];
+    findings.push(...checkBinaryIndicators(deliverables, (dIdx) =>
+      joinPath(joinPath(joinPath(wpPath, 'deliverables'), dIdx), 'indicator')));
+
+    if (projectData?.budgetMode === 'lumpSum') {
+      const selected: string[] = wp?.lumpSum?.completionDeliverables || [];
+      const ok = selected.some(id => deliverables.some((d: any) => d?.id === id));
+      findings.push(finding('lumpSumCompletion', joinPath(joinPath(wpPath, 'lumpSum'), 'completionDeliverables'), ok, ok
+        ? 'WP completion is tied to at least one deliverable.'
+        : 'Lump sum: select the deliverable(s) that prove completion of this WP.'));
+    }
+  });
+
+  const startStr = projectData?.projectIdea?.startDate;
+  if (startStr && ISO_DATE_REGEX.test(startStr)) {
+    const endStr = calculateProjectEndDateFromIdea(startStr, projectData?.projectIdea?.durationMonths || 24);
+    const checkDate = (value: any, path: string) => {
+      const ok = typeof value === 'string' && ISO_DATE_REGEX.test(value) && value >= startStr && value <= endStr;
+      findings.push(finding('datesWithinProject', path, ok, ok
+        ? `Date within ${startStr} – ${endStr}.`
+        : `Date "${value || ''}" is missing, not YYYY-MM-DD, or outside ${startStr} – ${endStr}.`));
+    };
+    activities.forEach((wp: any, wpIdx: number) => {
+      const wpPath = joinPath(basePath, wpIdx);
+      (Array.isArray(wp?.tasks) ? wp.tasks : []).forEach((task: any, tIdx: number) => {
+        const taskPath = joinPath(joinPath(wpPath, 'tasks'), tIdx);
+        checkDate(task?.startDate, joinPath(taskPath, 'startDate'));
+        checkDate(task?.endDate, joinPath(taskPath, 'endDate'));
+      });
+      (Array.isArray(wp?.milestones) ? wp.milestones : []).forEach((ms: any, mIdx: number) => {
+        checkDate(ms?.date, joinPath(joinPath(joinPath(wpPath, 'milestones'), mIdx), 'date'));
+      });
+    });
+  }
+
+  return findings;
+};
+
+const buildReport = (sectionKey: string, findings: QualityGateFinding[]): QualityGateReport => {
+  const failed = findings.filter(f => !f.passed);
+  const fatalCount = failed.filter(f => f.severity === 'fatal').length;
+  return {
+    sectionKey,
+    passed: failed.length === 0,
+    fatalCount,
+    warningCount: failed.length - fatalCount,
+    findings,
+    checkedAt: new Date().toISOString(),
+  };
+};
+
+// ─── PUBLIC API ──────────────────────────────────────────────────
+
+/**
+ * Returns the ProjectData path that holds a (sub-)section.
+ */
+export const getSectionBasePath = (sectionKey: string): string =>
+  SECTION_BASE_PATH[sectionKey] || sectionKey;
+
+/**
+ * Evaluates one generated section against the machine-checkable quality gates.
+ * If sectionData is omitted, it is read from projectData at the section's base path.
+ */
+export const validateSectionQuality = (
+  sectionKey: string,
+  projectData: any,
+  sectionData?: any
+): QualityGateReport => {
+  if (sectionKey === 'expectedResults') {
+    const parts = ['outputs', 'outcomes', 'impacts'].map(k =>
+      validateSectionQuality(k, projectData, sectionData ? sectionData[k] : undefined));
+    return buildReport(sectionKey, parts.flatMap(r => r.findings));
+  }
+
+  const basePath = getSectionBasePath(sectionKey);
+  const data = sectionData !== undefined ? sectionData : getByPath(projectData, basePath);
+  const findings: QualityGateFinding[] = [];
+
+  if (data === undefined || data === null) {
+    findings.push(finding('emptyFields', basePath, false, 'Section is missing.'));
+    return buildReport(sectionKey, findings);
+  }
+
+  findings.push(...checkEmptyFields(data, basePath));
+  findings.push(...checkBannedPhrases(data, basePath));
+
+  if (sectionKey === 'problemAnalysis') {
+    findings.push(...checkCitations(data.causes, joinPath(basePath, 'causes')));
+    findings.push(...checkCitations(data.consequences, joinPath(basePath, 'consequences')));
+  } else if (sectionKey === 'causes' || sectionKey === 'consequences') {
+    findings.push(...checkCitations(data, basePath));
+  } else if (sectionKey === 'activities') {
+    findings.push(...checkActivities(data, basePath, projectData));
+  } else if (sectionKey === 'outputs' && Array.isArray(data)) {
+    findings.push(...checkBinaryIndicators(data, (idx) => joinPath(joinPath(basePath, idx), 'indicator')));
+  }
+
+  return buildReport(sectionKey, findings);
+};
+
+export const getFailedFindings = (report: QualityGateReport | null): QualityGateFinding[] =>
+  report ? report.findings.filter(f => !f.passed) : [];
+
+export const hasFatalFindings = (report: QualityGateReport | null): boolean =>
+  !!report && report.fatalCount > 0;
+
+/**
+ * Formats failed findings as a prompt block — appended on auto-retry so the
+ * AI knows exactly which gates the previous attempt violated.
+ */
+export const formatQualityFindingsForPrompt = (report: QualityGateReport): string => {
+  const failed = getFailedFindings(report);
+  if (failed.length === 0) return '';
+  const lines = failed.slice(0, 40).map(f => `- [${f.severity.toUpperCase()}] ${f.path}: ${f.message}`);
+  return `\nQUALITY GATE VIOLATIONS IN YOUR PREVIOUS ATTEMPT — fix ALL of these:\n${lines.join('\n')}\n`;
+};
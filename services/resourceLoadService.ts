@@ -0,0 +1,178 @@
+// services/resourceLoadService.ts
+// ═══════════════════════════════════════════════════════════════
+// Resource loading — partner person-months spread over task dates.
+// v1.1 — 2026-03-07 — fteCapacity 0 is a capacity of 0 (any load is over-allocated),
+//   only a missing / invalid value falls back to DEFAULT_FTE_CAPACITY
+// v1.0 — 2026-03-07
+//
+// FEATURES:
+//   - buildResourceLoad(): every TaskPartnerAllocation.pm spread over
+//     the task duration in proportion to the calendar days falling in
+//     each month; one PM in one month = 1 FTE for that month
+//   - Month range covers the project envelope (projectIdea) and every
+//     dated task
+//   - Over-allocation: monthly load above ProjectPartner.fteCapacity
+//     (DEFAULT_FTE_CAPACITY when not set; 0 = not available), listed with the tasks that
+//     contribute to that month
+//   - PM of tasks without valid dates is reported as unscheduledPm
+//   - Used by ResourceHistogram (activities step)
+// ═══════════════════════════════════════════════════════════════
+
+import { calculateProjectEndDateFromIdea } from '../utils.ts';
+
+// ─── TYPES ───────────────────────────────────────────────────────
+
+export interface TaskLoadShare {
+  taskId: string;
+  taskTitle: string;
+  wpId: string;
+  pm: number;          // part of the task's PM that falls in the month
+}
+
+export interface PartnerLoad {
+  partnerId: string;
+  code: string;
+  name: string;
+  capacity: number;    // FTE
+  totalPm: number;
+  monthly: number[];   // FTE per month, index = months[]
+  shares: TaskLoadShare[][];
+}
+
+export interface OverAllocation {
+  partnerId: string;
+  code: string;
+  monthIndex: number;
+  load: number;
+  capacity: number;
+  tasks: TaskLoadShare[];
+}
+
+export interface ResourceLoad {
+  months: string[];    // 'YYYY-MM'
+  partners: PartnerLoad[];
+  overAllocations: OverAllocation[];
+  unscheduledPm: number;
+}
+
+export const DEFAULT_FTE_CAPACITY = 1;
+
+// Loads within this margin of the capacity are not flagged (rounding of spread PM)
+const CAPACITY_TOLERANCE = 0.005;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ─── HELPERS ─────────────────────────────────────────────────────
+
+const parseDay = (value: any): Date | null => {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}/.test(value)) return null;
+  const d = new Date(value.slice(0, 10) + 'T00:00:00Z');
+  return isNaN(d.getTime()) ? null : d;
+};
+
+const monthKey = (d: Date): string =>
+  d.getUTCFullYear() + '-' + String(d.getUTCMonth() + 1).padStart(2, '0');
+
+const monthIndexOf = (first: Date, d: Date): number =>
+  (d.getUTCFullYear() - first.getUTCFullYear()) * 12 + d.getUTCMonth() - first.getUTCMonth();
+
+export const getPartnerCapacity = (partner: any): number => {
+  const raw = partner?.fteCapacity;
+  const value = raw === undefined || raw === null || raw === '' ? NaN : Number(raw);
+  return Number.isFinite(value) && value >= 0 ? value : DEFAULT_FTE_CAPACITY;
+};
+
+// ─── LOAD ────────────────────────────────────────────────────────
+
+export const buildResourceLoad = (projectData: any): ResourceLoad => {
+  const partners = Array.isArray(projectData?.partners) ? projectData.partners : [];
+  const activities = Array.isArray(projectData?.activities) ? projectData.activities : [];
+
+  const tasks: { wp: any; task: any; start: Date | null; end: Date | null }[] = [];
+  activities.forEach((wp: any) => {
+    (Array.isArray(wp?.tasks) ? wp.tasks : []).forEach((task: any) => {
+      const start = parseDay(task?.startDate);
+      const end = parseDay(task?.endDate);
+      const valid = start && end && end.getTime() >= start.getTime();
+      tasks.push({ wp, task, start: valid ? start : null, end: valid ? end : null });
+    });
+  });
+
+  // Month range: project envelope ∪ task dates
+  let rangeStart: Date | null = parseDay(projectData?.projectIdea?.startDate);
+  let rangeEnd: Date | null = rangeStart && projectData?.projectIdea?.durationMonths
+    ? parseDay(calculateProjectEndDateFromIdea(projectData.projectIdea.startDate, projectData.projectIdea.durationMonths))
+    : null;
+  tasks.forEach(({ start, end }) => {
+    if (!start || !end) return;
+    if (!rangeStart || start < rangeStart) rangeStart = start;
+    if (!rangeEnd || end > rangeEnd) rangeEnd = end;
+  });
+
+  const months: string[] = [];
+  let first: Date | null = null;
+  if (rangeStart && rangeEnd) {
+    first = new Date(Date.UTC(rangeStart.getUTCFullYear(), rangeStart.getUTCMonth(), 1));
+    const count = monthIndexOf(first, rangeEnd) + 1;
+    for (let i = 0; i < count; i++) {
+      months.push(monthKey(new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth() + i, 1))));
+    }
+  }
+
+  const loads: PartnerLoad[] = partners.map((p: any) => ({
+    partnerId: p.id,
+    code: p.code || '',
+    name: p.name || '',
+    capacity: getPartnerCapacity(p),
+    totalPm: 0,
+    monthly: months.map(() => 0),
+    shares: months.map(() => [] as TaskLoadShare[]),
+  }));
+  const loadById = new Map<string, PartnerLoad>(loads.map((l) => [l.partnerId, l]));
+
+  let unscheduledPm = 0;
+
+  tasks.forEach(({ wp, task, start, end }) => {
+    (Array.isArray(task?.partnerAllocations) ? task.partnerAllocations : []).forEach((alloc: any) => {
+      const pm = Number(alloc?.pm) || 0;
+      const load = loadById.get(alloc?.partnerId);
+      if (pm <= 0 || !load) return;
+      load.totalPm += pm;
+      if (!start || !end || !first) {
+        unscheduledPm += pm;
+        return;
+      }
+
+      const totalDays = Math.round((end.getTime() - start.getTime()) / DAY_MS) + 1;
+      let cursor = start;
+      while (cursor <= end) {
+        const nextMonth = new Date(Date.UTC(cursor.getUTCFullYear(), cursor.getUTCMonth() + 1, 1));
+        const sliceEnd = nextMonth.getTime() - DAY_MS < end.getTime() ? new Date(nextMonth.getTime() - DAY_MS) : end;
+        const days = Math.round((sliceEnd.getTime() - cursor.getTime()) / DAY_MS) + 1;
+        const share = pm * days / totalDays;
+        const index = monthIndexOf(first, cursor);
+        load.monthly[index] += share;
+        load.shares[index].push({ taskId: task.id, taskTitle: task.title || '', wpId: wp?.id || '', pm: share });
+        cursor = nextMonth;
+      }
+    });
+  });
+
+  const overAllocations: OverAllocation[] = [];
+  months.forEach((_, monthIndex) => {
+    loads.forEach((load) => {
+      if (load.monthly[monthIndex] > load.capacity + CAPACITY_TOLERANCE) {
+        overAllocations.push({
+          partnerId: load.partnerId,
+          code: load.code,
+          monthIndex,
+          load: load.monthly[monthIndex],
+          capacity: load.capacity,
+          tasks: [...load.shares[monthIndex]].sort((a, b) => b.pm - a.pm),
+        });
+      }
+    });
+  });
+
+  return { months, partners: loads, overAllocations, unscheduledPm };
+};
@@ -0,0 +1,151 @@
+// services/scheduleBaselineService.ts
+// ═══════════════════════════════════════════════════════════════
+// Schedule baselines — frozen task / milestone dates and variance.
+// v1.0 — 2026-03-07
+//
+// FEATURES:
+//   - createScheduleBaseline(): snapshot of every dated task and
+//     milestone, stored in ProjectData.scheduleBaselines (saved with
+//     the project like any other field)
+//   - getActiveBaseline(): ProjectData.activeBaselineId → baseline
+//   - computeScheduleVariance(): one row per task / milestone with
+//     start and finish slip in calendar days (positive = later than
+//     the baseline); items added or removed since the baseline are
+//     reported with status 'added' / 'removed'
+//   - Used by GanttChart (baseline bars) and the variance table in
+//     ProjectDisplay
+// ═══════════════════════════════════════════════════════════════
+
+import type { ScheduleBaseline } from '../types.ts';
+
+// ─── TYPES ───────────────────────────────────────────────────────
+
+export type VarianceStatus = 'onTrack' | 'late' | 'early' | 'added' | 'removed';
+
+export interface ScheduleVarianceRow {
+  id: string;
+  kind: 'task' | 'milestone';
+  wpId: string;
+  title: string;
+  baselineStart: string | null;
+  baselineEnd: string | null;
+  currentStart: string | null;
+  currentEnd: string | null;
+  startSlip: number | null;     // days
+  finishSlip: number | null;    // days
+  status: VarianceStatus;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ─── HELPERS ─────────────────────────────────────────────────────
+
+const isValidDateStr = (value: any): boolean =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value) && !isNaN(new Date(value.slice(0, 10) + 'T00:00:00Z').getTime());
+
+export const diffDays = (from: string, to: string): number =>
+  Math.round((new Date(to.slice(0, 10) + 'T00:00:00Z').getTime() - new Date(from.slice(0, 10) + 'T00:00:00Z').getTime()) / DAY_MS);
+
+// "+12 d" / "−3 d" / "0 d"
+export const formatSlip = (days: number | null): string => {
+  if (days === null || days === undefined) return '—';
+  if (days === 0) return '0 d';
+  return (days > 0 ? '+' : '−') + Math.abs(days) + ' d';
+};
+
+// ─── BASELINES ───────────────────────────────────────────────────
+
+export const createScheduleBaseline = (activities: any[], name: string): ScheduleBaseline => {
+  const tasks: ScheduleBaseline['tasks'] = {};
+  const milestones: ScheduleBaseline['milestones'] = {};
+  (Array.isArray(activities) ? activities : []).forEach((wp: any) => {
+    (wp?.tasks || []).forEach((task: any) => {
+      if (task?.id && isValidDateStr(task.startDate) && isValidDateStr(task.endDate)) {
+        tasks[task.id] = { startDate: task.startDate, endDate: task.endDate };
+      }
+    });
+    (wp?.milestones || []).forEach((ms: any) => {
+      if (ms?.id && isValidDateStr(ms.date)) milestones[ms.id] = { date: ms.date };
+    });
+  });
+  return {
+    id: 'baseline-' + Date.now(),
+    name: name.trim() || 'Baseline',
+    createdAt: new Date().toISOString(),
+    tasks,
+    milestones,
+  };
+};
+
+export const getActiveBaseline = (projectData: any): ScheduleBaseline | null => {
+  const baselines: ScheduleBaseline[] = Array.isArray(projectData?.scheduleBaselines) ? projectData.scheduleBaselines : [];
+  return baselines.find((b) => b.id === projectData?.activeBaselineId) || null;
+};
+
+// ─── VARIANCE ────────────────────────────────────────────────────
+
+const statusFor = (startSlip: number | null, finishSlip: number | null): VarianceStatus => {
+  const slip = finishSlip ?? startSlip ?? 0;
+  if (slip > 0) return 'late';
+  if (slip < 0) return 'early';
+  return 'onTrack';
+};
+
+export const computeScheduleVariance = (activities: any[], baseline: ScheduleBaseline): ScheduleVarianceRow[] => {
+  const rows: ScheduleVarianceRow[] = [];
+  const seenTasks = new Set<string>();
+  const seenMilestones = new Set<string>();
+
+  (Array.isArray(activities) ? activities : []).forEach((wp: any) => {
+    (wp?.tasks || []).forEach((task: any) => {
+      if (!task?.id) return;
+      seenTasks.add(task.id);
+      const base = baseline.tasks?.[task.id];
+      const currentStart = isValidDateStr(task.startDate) ? task.startDate : null;
+      const currentEnd = isValidDateStr(task.endDate) ? task.endDate : null;
+      if (!base) {
+        if (currentStart || currentEnd) {
+          rows.push({ id: task.id, kind: 'task', wpId: wp.id, title: task.title || '', baselineStart: null, baselineEnd: null, currentStart, currentEnd, startSlip: null, finishSlip: null, status: 'added' });
+        }
+        return;
+      }
+      const startSlip = currentStart ? diffDays(base.startDate, currentStart) : null;
+      const finishSlip = currentEnd ? diffDays(base.endDate, currentEnd) : null;
+      rows.push({
+        id: task.id, kind: 'task', wpId: wp.id, title: task.title || '',
+        baselineStart: base.startDate, baselineEnd: base.endDate, currentStart, currentEnd,
+        startSlip, finishSlip, status: statusFor(startSlip, finishSlip),
+      });
+    });
+
+    (wp?.milestones || []).forEach((ms: any) => {
+      if (!ms?.id) return;
+      seenMilestones.add(ms.id);
+      const base = baseline.milestones?.[ms.id];
+      const current = isValidDateStr(ms.date) ? ms.date : null;
+      if (!base) {
+        if (current) {
+          rows.push({ id: ms.id, kind: 'milestone', wpId: wp.id, title: ms.description || '', baselineStart: null, baselineEnd: null, currentStart: current, currentEnd: current, startSlip: null, finishSlip: null, status: 'added' });
+        }
+        return;
+      }
+      const slip = current ? diffDays(base.date, current) : null;
+      rows.push({
+        id: ms.id, kind: 'milestone', wpId: wp.id, title: ms.description || '',
+        baselineStart: base.date, baselineEnd: base.date, currentStart: current, currentEnd: current,
+        startSlip: slip, finishSlip: slip, status: statusFor(slip, slip),
+      });
+    });
+  });
+
+  Object.entries(baseline.tasks || {}).forEach(([id, base]) => {
+    if (seenTasks.has(id)) return;
+    rows.push({ id, kind: 'task', wpId: '', title: '', baselineStart: base.startDate, baselineEnd: base.endDate, currentStart: null, currentEnd: null, startSlip: null, finishSlip: null, status: 'removed' });
+  });
+  Object.entries(baseline.milestones || {}).forEach(([id, base]) => {
+    if (seenMilestones.has(id)) return;
+    rows.push({ id, kind: 'milestone', wpId: '', title: '', baselineStart: base.date, baselineEnd: base.date, currentStart: null, currentEnd: null, startSlip: null, finishSlip: null, status: 'removed' });
+  });
+
+  return rows;
+};
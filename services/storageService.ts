@@ -1,6 +1,11 @@
 // services/storageService.ts
 // ═══════════════════════════════════════════════════════════════
 // Supabase-backed storage service — replaces localStorage completely
+// ★ v5.13: deleteProjectLanguage() — drops one language version (version restore)
+// ★ v5.12: getProjectLanguages() — language versions stored for a project (any registered code)
+// ★ v5.11: getUserProjects()/createProject() expose project version counter (projects.version)
+// ★ v5.10: Local LLM endpoint settings (local_base_url, local_api_key, local_api_format)
+// ★ v5.9: Quality gate auto-retry getter/setter (quality_auto_retry)
 // ★ v5.8: Removed web_search_key methods — web search uses existing AI provider keys (EO-042 fix)
 // ★ v5.7: Web Search getters/setters (EO-042)\n// ★ v5.6:
 // ★ v5.5: SAVE GUARD — blocks saving empty skeleton over existing real data
@@ -35,7 +40,7 @@
 
 import { supabase } from './supabaseClient.ts';
 import { createEmptyProjectData } from '../utils.ts';
-import type { AIProviderType } from './aiProvider.ts';
+import type { AIProviderType, LocalApiFormat } from './aiProvider.ts';
 import { BRAND_ASSETS } from '../constants.tsx';
 import { organizationService } from './organizationService.ts';
 import { logErrorQuick } from './errorLogService.ts';
@@ -569,6 +574,31 @@ export const storageService = {
     await this.updateSettings({ openai_key: key.trim() || null });
   },
 
+  // ★ v5.10: Local LLM (Ollama / OpenAI-compatible) — key is optional
+  getLocalBaseUrl(): string | null {
+    return cachedSettings?.local_base_url || null;
+  },
+
+  async setLocalBaseUrl(url: string) {
+    await this.updateSettings({ local_base_url: url.trim() || null });
+  },
+
+  getLocalApiKey(): string | null {
+    return cachedSettings?.local_api_key || null;
+  },
+
+  async setLocalApiKey(key: string) {
+    await this.updateSettings({ local_api_key: key.trim() || null });
+  },
+
+  getLocalApiFormat(): LocalApiFormat {
+    return (cachedSettings?.local_api_format as LocalApiFormat) || 'openai';
+  },
+
+  async setLocalApiFormat(format: LocalApiFormat) {
+    await this.updateSettings({ local_api_format: format });
+  },
+
   getCustomModel(): string | null {
     return cachedSettings?.model || null;
   },
@@ -593,6 +623,15 @@ export const storageService = {
     await this.updateSettings({ web_search_enabled: enabled });
   },
 
+  // ★ v5.9: Re-generate once when programmatic quality gates report FATAL findings
+  getQualityAutoRetryEnabled(): boolean {
+    return cachedSettings?.quality_auto_retry || false;
+  },
+
+  async setQualityAutoRetryEnabled(enabled: boolean) {
+    await this.updateSettings({ quality_auto_retry: enabled });
+  },
+
   getCustomLogo(): string | null {
     if (this.isSuperAdmin()) {
       return cachedSettings?.custom_logo || null;
@@ -634,7 +673,7 @@ export const storageService = {
 
     const { data, error } = await supabase
       .from('projects')
-      .select('id, title, created_at, updated_at, organization_id')
+      .select('id, title, created_at, updated_at, organization_id, version')
       .eq('owner_id', userId)
       .order('updated_at', { ascending: false });
 
@@ -650,6 +689,7 @@ export const storageService = {
       createdAt: p.created_at,
       updatedAt: p.updated_at,
       organizationId: p.organization_id,
+      version: p.version || 1,
     }));
 
     cachedProjectsMeta = projects;
@@ -701,6 +741,7 @@ export const storageService = {
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
       organizationId: activeOrgId,
+      version: 1,
     };
 
     cachedProjectsMeta = null;
@@ -729,6 +770,34 @@ export const storageService = {
     return sessionStorage.getItem('current_project_id');
   },
 
+  async getProjectLanguages(projectId: string): Promise<string[]> {
+    const { data, error } = await supabase
+      .from('project_data')
+      .select('language')
+      .eq('project_id', projectId);
+
+    if (error) {
+      console.warn('getProjectLanguages error:', error.message);
+      logErrorQuick('storageService.getProjectLanguages', error, { projectId });
+      return [];
+    }
+
+    return (data || []).map((row: any) => row.language);
+  },
+
+  async deleteProjectLanguage(projectId: string, language: string): Promise<void> {
+    const { error } = await supabase
+      .from('project_data')
+      .delete()
+      .eq('project_id', projectId)
+      .eq('language', language);
+
+    if (error) {
+      console.error('Error deleting project language:', error);
+      logErrorQuick('storageService.deleteProjectLanguage', error, { projectId, language });
+    }
+  },
+
   async loadProject(language: string = 'en', projectId: string | null = null): Promise<any> {
     const userId = await this.getCurrentUserId();
     if (!userId) return createEmptyProjectData();
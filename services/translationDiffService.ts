@@ -1,6 +1,42 @@
 // services/translationDiffService.ts
 // ═══════════════════════════════════════════════════════════════
 // Granular diff-based translation engine.
+// v4.13 — 2026-03-07 — Glossary retry
+//   - The individual retry replaces the batch translation only when it is
+//     in the target language and uses the glossary terms
+//   - Fields with an open glossary violation get no hash (stale hashes are
+//     deleted), so the next incremental run translates them again
+// v4.12 — 2026-03-07 — scheduleBaselines / activeBaselineId excluded from
+//   translation, copied from the source (baseline keys are task ids)
+// v4.11 — 2026-03-07 — partners[].fteCapacity copied from the source
+// v4.10 — 2026-03-07 — partners[].fundingRate copied from the source
+// v4.9 — 2026-03-07 — budgetRules (preset id, rule types, severities,
+//   scopes, category keys) excluded from translation, copied as a whole
+// v4.8 — 2026-03-07 — Currencies: cost item currency codes and the whole
+//   exchangeRates table (codes, rates, dates, source) copied from the source
+// v4.7 — 2026-03-07 — Lump-sum settings: budgetMode, lumpSum.shares and
+//   completionDeliverables (deliverable ids) copied from the source;
+//   completionCriteria is the only translated lump-sum text
+// v4.6 — 2026-03-07 — Schedule settings are structure, not text
+//   - dependency lag / lagUnit and scheduleCalendar are never sent to
+//     the translator and are copied from the source into an existing
+//     target version (the scheduler reads lagUnit literally)
+//   - copyNonTranslatableFromSource() copies object values as deep copies
+// v4.5 — 2026-03-07 — getByPath / setByPath / copyNonTranslatableFromSource,
+//   loadStoredHashes / saveHashes and simpleHash exported (xliffService)
+// v4.4 — 2026-03-07 — Translation glossary (glossaryService)
+//   - Org + project glossary loaded once per run, relevant entries
+//     injected into every batch / single-field prompt
+//   - Post-translation glossary check: violated fields get one
+//     individual retry; remaining violations returned as glossaryReport
+//   - stats.glossaryViolations next to verified / retried
+// v4.3 — 2026-03-07 — Any language pair (languages.ts registry)
+//   - smartTranslateProject() takes the source language explicitly
+//     instead of flipping en ↔ si
+//   - Prompt language names come from the registry (promptName / name)
+//   - Language verification only compares source vs target language
+// v4.2 — 2026-03-07 — flattenTranslatableFields + FieldEntry exported
+//   (reused by projectDiffService for added/removed subtrees)
 // v4.1 — 2026-02-21 — CONSOLIDATED LANGUAGE DETECTION
 //   - CHANGED: detectLanguageOfText() now delegates to shared
 //     detectTextLanguage() from utils.ts for consistency.
@@ -29,10 +65,19 @@ import { generateContent } from './aiProvider.ts';
 import { storageService } from './storageService.ts';
 import { getTranslationRules } from './Instructions.ts';
 import { detectTextLanguage } from '../utils.ts';
+import { getLanguageDefinition, type LanguageCode } from '../languages.ts';
+import {
+  glossaryService,
+  filterGlossaryForText,
+  formatGlossaryForPrompt,
+  findGlossaryViolations,
+  type EffectiveGlossaryEntry,
+} from './glossaryService.ts';
+import type { GlossaryViolation } from '../types.ts';
 
 // ─── SIMPLE HASH ─────────────────────────────────────────────────
 
-const simpleHash = (str: string): string => {
+export const simpleHash = (str: string): string => {
   let hash = 0;
   const s = str.trim();
   if (s.length === 0) return '0';
@@ -49,7 +94,12 @@ const simpleHash = (str: string): string => {
 const SKIP_KEYS = new Set([
   'id', 'startDate', 'endDate', 'date', 'level',
   'category', 'likelihood', 'impact', 'type', 'predecessorId',
-  'projectAcronym'
+  'projectAcronym',
+  'lag', 'lagUnit', 'scheduleCalendar',
+  'budgetMode', 'shares', 'completionDeliverables',
+  'currency', 'exchangeRates',
+  'budgetRules', 'fundingRate', 'fteCapacity',
+  'scheduleBaselines', 'activeBaselineId',
 ]);
 
 const SKIP_VALUES = new Set([
@@ -61,13 +111,13 @@ const SKIP_VALUES = new Set([
 
 // ─── FLATTEN ─────────────────────────────────────────────────────
 
-interface FieldEntry {
+export interface FieldEntry {
   path: string;
   value: string;
   hash: string;
 }
 
-const flattenTranslatableFields = (obj: any, prefix: string = ''): FieldEntry[] => {
+export const flattenTranslatableFields = (obj: any, prefix: string = ''): FieldEntry[] => {
   const entries: FieldEntry[] = [];
   if (obj === null || obj === undefined) return entries;
 
@@ -99,7 +149,7 @@ const flattenTranslatableFields = (obj: any, prefix: string = ''): FieldEntry[]
 
 // ─── PATH HELPERS ────────────────────────────────────────────────
 
-const getByPath = (obj: any, path: string): any => {
+export const getByPath = (obj: any, path: string): any => {
   const parts = path.replace(/\[(\d+)\]/g, '.$1').split('.');
   let current = obj;
   for (const part of parts) {
@@ -110,7 +160,7 @@ const getByPath = (obj: any, path: string): any => {
   return current;
 };
 
-const setByPath = (obj: any, path: string, value: any): void => {
+export const setByPath = (obj: any, path: string, value: any): void => {
   const parts = path.replace(/\[(\d+)\]/g, '.$1').split('.');
   let current = obj;
   for (let i = 0; i < parts.length - 1; i++) {
@@ -141,7 +191,7 @@ const setByPath = (obj: any, path: string, value: any): void => {
 
 // ─── SUPABASE HASH STORAGE ──────────────────────────────────────
 
-const loadStoredHashes = async (
+export const loadStoredHashes = async (
   projectId: string,
   sourceLang: string,
   targetLang: string
@@ -163,7 +213,7 @@ const loadStoredHashes = async (
   return map;
 };
 
-const saveHashes = async (
+export const saveHashes = async (
   projectId: string,
   sourceLang: string,
   targetLang: string,
@@ -189,11 +239,34 @@ const saveHashes = async (
   }
 };
 
+export const deleteHashes = async (
+  projectId: string,
+  sourceLang: string,
+  targetLang: string,
+  paths: string[]
+): Promise<void> => {
+  if (paths.length === 0) return;
+
+  const { error } = await supabase
+    .from('translation_hashes')
+    .delete()
+    .eq('project_id', projectId)
+    .eq('source_lang', sourceLang)
+    .eq('target_lang', targetLang)
+    .in('field_path', paths);
+
+  if (error) {
+    console.warn('[TranslationDiff] Error deleting hashes:', error.message);
+  }
+};
+
 // ─── LANGUAGE DETECTION HELPER ───────────────────────────────────
 // ★ v4.1 (2026-02-21): Consolidated — uses shared detectTextLanguage from utils.ts
+// ★ v4.3: candidates = the language pair being translated (closely related
+//   languages such as SI / HR would otherwise be confused with each other)
 
-const detectLanguageOfText = (text: string): 'en' | 'si' | 'unknown' => {
-  return detectTextLanguage(text);
+const detectLanguageOfText = (text: string, candidates?: LanguageCode[]): LanguageCode | 'unknown' => {
+  return detectTextLanguage(text, candidates);
 };
 
 // ─── VERIFY TRANSLATION LANGUAGE ─────────────────────────────────
@@ -201,7 +274,8 @@ const detectLanguageOfText = (text: string): 'en' | 'si' | 'unknown' => {
 const verifyTranslationLanguage = (
   translatedValue: string,
   sourceValue: string,
-  targetLang: 'en' | 'si'
+  targetLang: LanguageCode,
+  sourceLang: LanguageCode
 ): boolean => {
   // Short strings (< 15 chars) are hard to detect — accept them
   if (translatedValue.trim().length < 15) return true;
@@ -210,7 +284,7 @@ const verifyTranslationLanguage = (
   if (translatedValue.trim() === sourceValue.trim()) return false;
 
   // Check detected language
-  const detected = detectLanguageOfText(translatedValue);
+  const detected = detectLanguageOfText(translatedValue, [sourceLang, targetLang]);
   if (detected === 'unknown') return true; // Can't determine — accept
   return detected === targetLang;
 };
@@ -239,11 +313,12 @@ const formatRulesForPrompt = (rules: string | string[]): string => {
 
 const translateFieldBatch = async (
   fields: FieldEntry[],
-  targetLanguage: 'en' | 'si',
-  sourceLanguage: 'en' | 'si'
+  targetLanguage: LanguageCode,
+  sourceLanguage: LanguageCode,
+  glossary: EffectiveGlossaryEntry[] = []
 ): Promise<Map<string, string>> => {
-  const targetName = targetLanguage === 'si' ? 'Slovenian (slovenščina)' : 'English (British English)';
-  const sourceName = sourceLanguage === 'si' ? 'Slovenian' : 'English';
+  const targetName = getLanguageDefinition(targetLanguage).promptName;
+  const sourceName = getLanguageDefinition(sourceLanguage).name;
 
   const translationRules = getTranslationRules(targetLanguage);
   const formattedRules = formatRulesForPrompt(translationRules);
@@ -254,6 +329,11 @@ const translateFieldBatch = async (
     toTranslate[`field_${i}`] = f.value;
   });
 
+  // ★ v4.4: Only glossary entries that occur in this batch
+  const glossaryBlock = formatGlossaryForPrompt(
+    filterGlossaryForText(glossary, fields.map((f) => f.value).join('\n'))
+  );
+
   const prompt = [
     `You are a PROFESSIONAL TRANSLATOR specializing in EU Project Proposals.`,
     ``,
@@ -272,10 +352,12 @@ const translateFieldBatch = async (
     `TRANSLATION QUALITY RULES:`,
     `- ${formattedRules}`,
     ``,
+    ...(glossaryBlock ? [glossaryBlock, ``] : []),
     `VERIFICATION: After translating, CHECK each field:`,
     `- Is it actually in ${targetName}? If not, fix it.`,
     `- Is the meaning preserved? If not, improve it.`,
     `- Is the EU terminology correct? If not, correct it.`,
+    ...(glossaryBlock ? [`- Is every GLOSSARY term used exactly as required? If not, fix it.`] : []),
     ``,
     `TRANSLATE THIS JSON (${fields.length} fields):`,
     JSON.stringify(toTranslate, null, 2)
@@ -306,16 +388,19 @@ const translateFieldBatch = async (
 
 const translateSingleField = async (
   field: FieldEntry,
-  targetLanguage: 'en' | 'si',
-  sourceLanguage: 'en' | 'si'
+  targetLanguage: LanguageCode,
+  sourceLanguage: LanguageCode,
+  glossary: EffectiveGlossaryEntry[] = []
 ): Promise<string | null> => {
-  const targetName = targetLanguage === 'si' ? 'Slovenian (slovenščina)' : 'English (British English)';
-  const sourceName = sourceLanguage === 'si' ? 'Slovenian' : 'English';
+  const targetName = getLanguageDefinition(targetLanguage).promptName;
+  const sourceName = getLanguageDefinition(sourceLanguage).name;
+  const glossaryBlock = formatGlossaryForPrompt(filterGlossaryForText(glossary, field.value));
 
   const prompt = [
     `Translate the following text from ${sourceName} to ${targetName}.`,
     `This is EU project proposal content — use correct EU terminology.`,
     `Return ONLY the translated text, nothing else. No quotes, no explanation.`,
+    ...(glossaryBlock ? [``, glossaryBlock] : []),
     ``,
     `TEXT TO TRANSLATE:`,
     field.value
@@ -344,8 +429,9 @@ const MAX_RETRIES = 3;
 
 const translateFieldBatchWithRetry = async (
   fields: FieldEntry[],
-  targetLanguage: 'en' | 'si',
-  sourceLanguage: 'en' | 'si'
+  targetLanguage: LanguageCode,
+  sourceLanguage: LanguageCode,
+  glossary: EffectiveGlossaryEntry[] = []
 ): Promise<Map<string, string>> => {
   let lastError: any = null;
 
@@ -356,7 +442,7 @@ const translateFieldBatchWithRetry = async (
         console.log(`[TranslationDiff] Rate limited — retry ${attempt}/${MAX_RETRIES}, waiting ${delay}ms...`);
         await new Promise(r => setTimeout(r, delay));
       }
-      return await translateFieldBatch(fields, targetLanguage, sourceLanguage);
+      return await translateFieldBatch(fields, targetLanguage, sourceLanguage, glossary);
     } catch (e: any) {
       lastError = e;
       const msg = e.message || '';
@@ -372,7 +458,7 @@ const translateFieldBatchWithRetry = async (
 
 // ─── COPY NON-TRANSLATABLE DATA ─────────────────────────────────
 
-const copyNonTranslatableFromSource = (source: any, target: any): void => {
+export const copyNonTranslatableFromSource = (source: any, target: any): void => {
   if (!source || typeof source !== 'object') return;
 
   if (Array.isArray(source)) {
@@ -394,7 +480,7 @@ const copyNonTranslatableFromSource = (source: any, target: any): void => {
 
   for (const [key, val] of Object.entries(source)) {
     if (SKIP_KEYS.has(key)) {
-      target[key] = val;
+      target[key] = typeof val === 'object' && val !== null ? JSON.parse(JSON.stringify(val)) : val;
     } else if (typeof val === 'object' && val !== null) {
       if (target[key] === undefined || target[key] === null) {
         target[key] = Array.isArray(val) ? [] : {};
@@ -410,15 +496,18 @@ const copyNonTranslatableFromSource = (source: any, target: any): void => {
 
 export const smartTranslateProject = async (
   sourceData: any,
-  targetLanguage: 'en' | 'si',
+  targetLanguage: LanguageCode,
   existingTargetData: any,
   projectId: string,
-  forceTranslateAll: boolean = false
+  forceTranslateAll: boolean = false,
+  sourceLanguage?: LanguageCode
 ): Promise<{
   translatedData: any;
-  stats: { total: number; changed: number; translated: number; failed: number; verified: number; retried: number };
+  stats: { total: number; changed: number; translated: number; failed: number; verified: number; retried: number; glossaryViolations: number };
+  glossaryReport: GlossaryViolation[];
 }> => {
-  const sourceLang: 'en' | 'si' = targetLanguage === 'si' ? 'en' : 'si';
+  // ★ v4.3: explicit source language; legacy callers (no source) = en ↔ si
+  const sourceLang: LanguageCode = sourceLanguage || (targetLanguage === 'en' ? 'si' : 'en');
 
   // 1. Flatten all translatable fields
   const sourceFields = flattenTranslatableFields(sourceData);
@@ -451,7 +540,7 @@ export const smartTranslateProject = async (
           : null;
 
         if (existingTranslation && typeof existingTranslation === 'string') {
-          const isCorrectLang = verifyTranslationLanguage(existingTranslation, field.value, targetLanguage);
+          const isCorrectLang = verifyTranslationLanguage(existingTranslation, field.value, targetLanguage, sourceLang);
           if (!isCorrectLang) {
             console.warn(`[TranslationDiff] Field "${field.path}" hash matches but translation is in WRONG LANGUAGE — re-translating.`);
             changedFields.push(field);
@@ -485,16 +574,30 @@ export const smartTranslateProject = async (
     failed: 0,
     verified: 0,
     retried: 0,
+    glossaryViolations: 0,
   };
+  const glossaryReport: GlossaryViolation[] = [];
 
   if (changedFields.length === 0) {
     console.log('[TranslationDiff] Nothing changed – no translation needed!');
-    return { translatedData, stats };
+    return { translatedData, stats, glossaryReport };
+  }
+
+  // ★ v4.4: Org + project glossary for this language pair
+  let glossary: EffectiveGlossaryEntry[] = [];
+  try {
+    glossary = await glossaryService.getEffectiveGlossary(projectId, sourceLang, targetLanguage, sourceData);
+    if (glossary.length > 0) console.log(`[TranslationDiff] Glossary: ${glossary.length} entries.`);
+  } catch (e: any) {
+    console.warn('[TranslationDiff] Glossary could not be loaded — translating without it:', e?.message);
   }
+  const violatesGlossary = (field: FieldEntry, translated: string): boolean =>
+    glossary.length > 0 && findGlossaryViolations(field.path, field.value, translated, glossary).length > 0;
 
   const sectionGroups = groupBySection(changedFields);
   const successfullyTranslated: FieldEntry[] = [];
   const fieldsNeedingRetry: FieldEntry[] = [];
+  const glossaryRetryPaths = new Set<string>();   // ★ v4.4: valid translation, glossary retry only
   let batchIndex = 0;
 
   // ★ v4.0: Reduced batch size from 30 to 15 for better reliability
@@ -513,7 +616,7 @@ export const smartTranslateProject = async (
       batchIndex++;
 
       try {
-        const results = await translateFieldBatchWithRetry(batch, targetLanguage, sourceLang);
+        const results = await translateFieldBatchWithRetry(batch, targetLanguage, sourceLang, glossary);
 
         for (const field of batch) {
           const translatedValue = results.get(field.path);
@@ -526,7 +629,7 @@ export const smartTranslateProject = async (
           }
 
           // ★ v4.0: Verify the translation is actually in the target language
-          const isCorrectLang = verifyTranslationLanguage(translatedValue, field.value, targetLanguage);
+          const isCorrectLang = verifyTranslationLanguage(translatedValue, field.value, targetLanguage, sourceLang);
 
           if (!isCorrectLang) {
             console.warn(`[TranslationDiff] Field "${field.path}" translation appears to be in wrong language — queuing for retry.`);
@@ -534,6 +637,15 @@ export const smartTranslateProject = async (
             continue;
           }
 
+          // ★ v4.4: Glossary term missing → one individual retry
+          if (violatesGlossary(field, translatedValue)) {
+            console.warn(`[TranslationDiff] Field "${field.path}" violates the glossary — queuing for retry.`);
+            setByPath(translatedData, field.path, translatedValue);
+            glossaryRetryPaths.add(field.path);
+            fieldsNeedingRetry.push(field);
+            continue;
+          }
+
           // Translation is good — apply it
           setByPath(translatedData, field.path, translatedValue);
           stats.translated++;
@@ -560,10 +672,26 @@ export const smartTranslateProject = async (
       await new Promise(r => setTimeout(r, 500));
 
       try {
-        const translated = await translateSingleField(field, targetLanguage, sourceLang);
+        const translated = await translateSingleField(field, targetLanguage, sourceLang, glossary);
 
-        if (translated) {
-          const isCorrectLang = verifyTranslationLanguage(translated, field.value, targetLanguage);
+        const isGlossaryRetry = glossaryRetryPaths.has(field.path);
+
+        if (translated && isGlossaryRetry) {
+          // ★ v4.13: The batch value is a valid translation — the retry replaces it
+          // only when it is in the target language AND uses the glossary terms
+          const isCorrectLang = verifyTranslationLanguage(translated, field.value, targetLanguage, sourceLang);
+          if (isCorrectLang && !violatesGlossary(field, translated)) {
+            setByPath(translatedData, field.path, translated);
+            stats.retried++;
+            console.log(`[TranslationDiff] ✓ Glossary retry succeeded for "${field.path}"`);
+          } else {
+            console.warn(`[TranslationDiff] ✗ Glossary retry for "${field.path}" not usable — keeping the batch translation.`);
+          }
+          stats.translated++;
+          stats.verified++;
+          successfullyTranslated.push(field);
+        } else if (translated) {
+          const isCorrectLang = verifyTranslationLanguage(translated, field.value, targetLanguage, sourceLang);
 
           if (isCorrectLang) {
             setByPath(translatedData, field.path, translated);
@@ -581,6 +709,11 @@ export const smartTranslateProject = async (
             stats.retried++;
             successfullyTranslated.push(field);
           }
+        } else if (isGlossaryRetry) {
+          // ★ v4.4: Batch translation stays — only the glossary term is off (reported below)
+          stats.translated++;
+          stats.verified++;
+          successfullyTranslated.push(field);
         } else {
           // ★ v4.0: If retry also fails, keep existing target value (don't copy source)
           const existingTarget = getByPath(translatedData, field.path);
@@ -592,17 +725,35 @@ export const smartTranslateProject = async (
           console.warn(`[TranslationDiff] ✗ Retry failed for "${field.path}" — keeping existing value.`);
         }
       } catch (e: any) {
-        stats.failed++;
+        if (glossaryRetryPaths.has(field.path)) {
+          stats.translated++;
+          stats.verified++;
+          successfullyTranslated.push(field);
+        } else {
+          stats.failed++;
+        }
         console.warn(`[TranslationDiff] ✗ Retry error for "${field.path}":`, (e as any).message);
       }
     }
   }
 
-  // 7. Save hashes
-  const allToSave = [...successfullyTranslated, ...unchangedFields];
+  // 6b. ★ v4.4: Glossary report — final values of every translated field
+  if (glossary.length > 0) {
+    for (const field of changedFields) {
+      const finalValue = getByPath(translatedData, field.path);
+      if (typeof finalValue !== 'string' || finalValue === field.value) continue;
+      glossaryReport.push(...findGlossaryViolations(field.path, field.value, finalValue, glossary));
+    }
+    stats.glossaryViolations = glossaryReport.length;
+  }
+
+  // 7. Save hashes — ★ v4.13: not for fields that still violate the glossary
+  const openViolationPaths = new Set(glossaryReport.map((v) => v.fieldPath));
+  const allToSave = [...successfullyTranslated, ...unchangedFields].filter((f) => !openViolationPaths.has(f.path));
   await saveHashes(projectId, sourceLang, targetLanguage, allToSave);
+  await deleteHashes(projectId, sourceLang, targetLanguage, Array.from(openViolationPaths));
 
-  console.log(`[TranslationDiff] DONE: ${stats.translated}/${stats.changed} translated, ${stats.verified} verified, ${stats.retried} retried, ${stats.failed} failed, ${unchangedFields.length} skipped.`);
+  console.log(`[TranslationDiff] DONE: ${stats.translated}/${stats.changed} translated, ${stats.verified} verified, ${stats.retried} retried, ${stats.failed} failed, ${stats.glossaryViolations} glossary violations, ${unchangedFields.length} skipped.`);
 
-  return { translatedData, stats };
+  return { translatedData, stats, glossaryReport };
 };
@@ -0,0 +1,251 @@
+// services/unitCostService.ts
+// ═══════════════════════════════════════════════════════════════
+// Unit-cost catalogue — unit_cost_rates table
+// v1.0 — 2026-03-07
+//
+// FEATURES:
+//   - Organization catalogue: rates grouped by catalogue name, each
+//     with unit, € rate, optional country and direct cost category
+//   - UNIT_COST_PRESETS: programme tables an org admin can import
+//     (values as published; check the current programme guide)
+//   - buildUnitCostCalculation(): snapshot stored on the cost item
+//     (DirectCostItem.unitCost), amount = ROUND(units × rate, 2)
+//   - collectUnitCostLines(): every catalogue-based cost item of the
+//     project for the DOCX / XLSX audit tables
+//
+// SECURITY:
+//   - RLS: rates readable by org members, editable by org admins
+// ═══════════════════════════════════════════════════════════════
+
+import { supabase } from './supabaseClient.ts';
+import { storageService } from './storageService.ts';
+import { organizationService } from './organizationService.ts';
+import { logErrorQuick } from './errorLogService.ts';
+import type { DirectCostUnitCalculation, UnitCostKind, UnitCostRate } from '../types.ts';
+
+// ——— Types ———————————————————————————————————————
+
+export type NewUnitCostRate = Omit<UnitCostRate, 'id' | 'organizationId'>;
+
+export interface UnitCostPreset {
+  id: string;
+  catalogue: string;
+  description: { en: string; si: string };
+  rates: NewUnitCostRate[];
+}
+
+export interface UnitCostLine {
+  wpId: string;
+  taskId: string;
+  partnerCode: string;
+  categoryKey: string;
+  name: string;
+  calculation: DirectCostUnitCalculation;
+  amount: number;
+}
+
+// ——— Presets ————————————————————————————————————————
+
+const ERASMUS_TRAVEL = 'Erasmus+ travel distance bands';
+
+const travelBand = (label: string, rate: number, note: string | null = null): NewUnitCostRate => ({
+  catalogue: ERASMUS_TRAVEL, kind: 'travel', label, unit: 'participant', rate,
+  countryCode: null, categoryKey: 'travelCosts', note,
+});
+
+export const UNIT_COST_PRESETS: UnitCostPreset[] = [
+  {
+    id: 'erasmusTravelBands',
+    catalogue: ERASMUS_TRAVEL,
+    description: {
+      en: 'Erasmus+ 2021–2027 standard travel costs per participant (return trip) by distance band; green travel where applicable.',
+      si: 'Erasmus+ 2021–2027 standardni potni stroški na udeleženca (povratna pot) po razdalji; zeleno potovanje, kjer velja.',
+    },
+    rates: [
+      travelBand('10–99 km', 23),
+      travelBand('100–499 km', 180),
+      travelBand('100–499 km (green travel)', 210),
+      travelBand('500–1999 km', 275),
+      travelBand('500–1999 km (green travel)', 320),
+      travelBand('2000–2999 km', 360),
+      travelBand('2000–2999 km (green travel)', 410),
+      travelBand('3000–3999 km', 530),
+      travelBand('3000–3999 km (green travel)', 610),
+      travelBand('4000–7999 km', 820),
+      travelBand('8000 km or more', 1500),
+    ],
+  },
+];
+
+export const UNIT_COST_KINDS: { key: UnitCostKind; en: string; si: string }[] = [
+  { key: 'staff', en: 'Staff day rate', si: 'Dnevna postavka osebja' },
+  { key: 'travel', en: 'Travel', si: 'Potovanje' },
+  { key: 'subsistence', en: 'Subsistence', si: 'Bivanje' },
+  { key: 'other', en: 'Other', si: 'Drugo' },
+];
+
+// ——— Helpers ————————————————————————————————————————
+
+const mapRow = (row: any): UnitCostRate => ({
+  id: row.id,
+  organizationId: row.organization_id,
+  catalogue: row.catalogue,
+  kind: row.kind,
+  label: row.label,
+  unit: row.unit,
+  rate: Number(row.rate) || 0,
+  countryCode: row.country_code,
+  categoryKey: row.category_key,
+  note: row.note,
+});
+
+const toRow = (rate: NewUnitCostRate) => ({
+  catalogue: rate.catalogue.trim(),
+  kind: rate.kind,
+  label: rate.label.trim(),
+  unit: rate.unit.trim(),
+  rate: rate.rate,
+  country_code: rate.countryCode?.trim().toUpperCase() || null,
+  category_key: rate.categoryKey || null,
+  note: rate.note?.trim() || null,
+});
+
+export const calcUnitCostAmount = (units: number, rate: number): number =>
+  Math.round((units || 0) * (rate || 0) * 100) / 100;
+
+export const buildUnitCostCalculation = (rate: UnitCostRate, units: number): DirectCostUnitCalculation => ({
+  rateId: rate.id,
+  catalogue: rate.catalogue,
+  label: rate.label,
+  unit: rate.unit,
+  countryCode: rate.countryCode,
+  rate: rate.rate,
+  units,
+});
+
+export const formatUnitCostCalculation = (calc: DirectCostUnitCalculation): string =>
+  `${calc.units} ${calc.unit} × €${calc.rate.toLocaleString('de-DE')} (${calc.catalogue}: ${calc.label}${calc.countryCode ? `, ${calc.countryCode}` : ''})`;
+
+export const collectUnitCostLines = (projectData: any): UnitCostLine[] => {
+  const partners = Array.isArray(projectData?.partners) ? projectData.partners : [];
+  const activities = Array.isArray(projectData?.activities) ? projectData.activities : [];
+  const lines: UnitCostLine[] = [];
+  activities.forEach((wp: any) => {
+    (wp.tasks || []).forEach((task: any) => {
+      (task.partnerAllocations || []).forEach((alloc: any) => {
+        const partner = partners.find((p: any) => p.id === alloc.partnerId);
+        (alloc.directCosts || []).forEach((dc: any) => {
+          if (!dc?.unitCost) return;
+          lines.push({
+            wpId: wp.id, taskId: task.id, partnerCode: partner?.code || '?',
+            categoryKey: dc.categoryKey || '', name: dc.name || '',
+            calculation: dc.unitCost, amount: dc.amount || 0,
+          });
+        });
+      });
+    });
+  });
+  return lines;
+};
+
+// ——— Service ————————————————————————————————————————
+
+let cachedRates: { orgId: string; rates: UnitCostRate[] } | null = null;
+
+export const unitCostService = {
+
+  // Catalogue of the active organization (cached per org until a write)
+  async listRates(force: boolean = false): Promise<UnitCostRate[]> {
+    const orgId = organizationService.getActiveOrgId();
+    if (!orgId) return [];
+    if (!force && cachedRates?.orgId === orgId) return cachedRates.rates;
+
+    const { data, error } = await supabase
+      .from('unit_cost_rates')
+      .select('*')
+      .eq('organization_id', orgId)
+      .order('catalogue', { ascending: true })
+      .order('label', { ascending: true });
+
+    if (error) {
+      console.error('[unitCostService] Failed to list rates:', error);
+      logErrorQuick('unitCostService.listRates', error, { orgId });
+      return [];
+    }
+    const rates = (data || []).map(mapRow);
+    cachedRates = { orgId, rates };
+    return rates;
+  },
+
+  async addRate(rate: NewUnitCostRate): Promise<UnitCostRate | null> {
+    const orgId = organizationService.getActiveOrgId();
+    if (!orgId || !rate.catalogue.trim() || !rate.label.trim() || !rate.unit.trim() || !(rate.rate >= 0)) return null;
+
+    const userId = await storageService.getCurrentUserId();
+    const { data, error } = await supabase
+      .from('unit_cost_rates')
+      .insert({ ...toRow(rate), organization_id: orgId, created_by: userId })
+      .select('*')
+      .single();
+
+    if (error || !data) {
+      console.error('[unitCostService] Failed to add rate:', error);
+      logErrorQuick('unitCostService.addRate', error, { catalogue: rate.catalogue, label: rate.label });
+      return null;
+    }
+    cachedRates = null;
+    return mapRow(data);
+  },
+
+  async updateRate(rateId: string, value: number): Promise<{ success: boolean; message?: string }> {
+    const { error } = await supabase
+      .from('unit_cost_rates')
+      .update({ rate: value, updated_at: new Date().toISOString() })
+      .eq('id', rateId);
+
+    if (error) {
+      logErrorQuick('unitCostService.updateRate', error, { rateId });
+      return { success: false, message: error.message };
+    }
+    cachedRates = null;
+    return { success: true };
+  },
+
+  async deleteRate(rateId: string): Promise<{ success: boolean; message?: string }> {
+    const { error } = await supabase
+      .from('unit_cost_rates')
+      .delete()
+      .eq('id', rateId);
+
+    if (error) {
+      logErrorQuick('unitCostService.deleteRate', error, { rateId });
+      return { success: false, message: error.message };
+    }
+    cachedRates = null;
+    return { success: true };
+  },
+
+  // Adds the preset rates that are not in the catalogue yet (same catalogue + label)
+  async importPreset(presetId: string): Promise<{ success: boolean; added: number; message?: string }> {
+    const preset = UNIT_COST_PRESETS.find((p) => p.id === presetId);
+    const orgId = organizationService.getActiveOrgId();
+    if (!preset || !orgId) return { success: false, added: 0 };
+
+    const existing = await this.listRates(true);
+    const missing = preset.rates.filter((r) =>
+      !existing.some((e) => e.catalogue === r.catalogue && e.label === r.label));
+    if (missing.length === 0) return { success: true, added: 0 };
+
+    const userId = await storageService.getCurrentUserId();
+    const { error } = await supabase
+      .from('unit_cost_rates')
+      .insert(missing.map((r) => ({ ...toRow(r), organization_id: orgId, created_by: userId })));
+
+    if (error) {
+      logErrorQuick('unitCostService.importPreset', error, { presetId });
+      return { success: false, added: 0, message: error.message };
+    }
+    cachedRates = null;
+    return { success: true, added: missing.length };
+  },
+};
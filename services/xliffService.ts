@@ -0,0 +1,298 @@
+// services/xliffService.ts
+// ═══════════════════════════════════════════════════════════════
+// XLIFF 2.0 export / import for human translators (CAT tools).
+// v1.0 — 2026-03-07
+//
+// FEATURES:
+//   - buildXliff(): one <unit> per translatable field path
+//     (flattenTranslatableFields), unit name = field path,
+//     source hash stored as metadata (mda:meta type="sourceHash")
+//   - Up-to-date translations (stored hash = current hash) are exported
+//     with their target and state="translated"; new / changed fields
+//     have no target and state="initial"
+//   - parseXliff() + applyXliffTranslations(): targets written into the
+//     target ProjectData with setByPath; non-translatable data copied
+//     from the source like smartTranslateProject does
+//   - xliffService.importParsed(): updates translation_hashes for every
+//     imported unit whose source did not change after the export, so the
+//     next smart translation only touches fields edited afterwards
+//   - Units split into several segments by a CAT tool are joined again
+//
+// LANGUAGE TAGS:
+//   - srcLang / trgLang = BCP 47 locale from the registry (sl-SI, de-DE ...)
+//   - App language codes (si, en ...) are kept in file metadata and
+//     preferred on import; otherwise resolved from the BCP 47 tag
+// ═══════════════════════════════════════════════════════════════
+
+import {
+  flattenTranslatableFields,
+  getByPath,
+  setByPath,
+  copyNonTranslatableFromSource,
+  loadStoredHashes,
+  saveHashes,
+  type FieldEntry,
+} from './translationDiffService.ts';
+import { LANGUAGE_REGISTRY, getLanguageLocale, isSupportedLanguage, type LanguageCode } from '../languages.ts';
+
+// ─── TYPES ───────────────────────────────────────────────────────
+
+export interface XliffUnit {
+  path: string;
+  sourceHash: string | null;
+  source: string;
+  target: string | null;
+  state: string;
+}
+
+export interface ParsedXliff {
+  projectId: string | null;
+  sourceLang: LanguageCode;
+  targetLang: LanguageCode;
+  units: XliffUnit[];
+}
+
+export interface XliffImportStats {
+  units: number;
+  applied: number;     // target written into the project
+  empty: number;       // unit without a target — left untouched
+  stale: number;       // source changed after export — applied, hash not updated
+  unknown: number;     // field path no longer exists in the source
+}
+
+// ─── CONSTANTS ───────────────────────────────────────────────────
+
+const XLIFF_NS = 'urn:oasis:names:tc:xliff:document:2.0';
+const MDA_NS = 'urn:oasis:names:tc:xliff:metadata:2.0';
+const META_CATEGORY = 'euro-office';
+
+// ─── HELPERS ─────────────────────────────────────────────────────
+
+// XML 1.0 does not allow most control characters, even escaped
+const stripInvalidXmlChars = (str: string): string =>
+  str.replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, '');
+
+const escapeXml = (str: string): string =>
+  stripInvalidXmlChars(str)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+
+const escapeAttr = (str: string): string => escapeXml(str).replace(/"/g, '&quot;');
+
+const metaGroup = (indent: string, meta: Record<string, string>): string => [
+  `${indent}<mda:metadata>`,
+  `${indent}  <mda:metaGroup category="${META_CATEGORY}">`,
+  ...Object.entries(meta).map(([type, value]) => `${indent}    <mda:meta type="${type}">${escapeXml(value)}</mda:meta>`),
+  `${indent}  </mda:metaGroup>`,
+  `${indent}</mda:metadata>`,
+].join('\n');
+
+// Own metadata of an element (not of its descendant units)
+const readMeta = (el: Element): Record<string, string> => {
+  const meta: Record<string, string> = {};
+  const metadata = Array.from(el.children).find((c) => c.localName === 'metadata' && c.namespaceURI === MDA_NS);
+  if (!metadata) return meta;
+  Array.from(metadata.getElementsByTagNameNS(MDA_NS, 'meta')).forEach((m) => {
+    const type = m.getAttribute('type');
+    if (type) meta[type] = m.textContent || '';
+  });
+  return meta;
+};
+
+// BCP 47 tag → registered language (exact locale, then primary subtag)
+const resolveLanguageTag = (tag: string | null): LanguageCode | null => {
+  if (!tag) return null;
+  const normalized = tag.trim().toLowerCase();
+  const defs = Object.values(LANGUAGE_REGISTRY);
+  const exact = defs.find((d) => d.locale.toLowerCase() === normalized);
+  if (exact) return exact.code;
+  const primary = normalized.split(/[-_]/)[0];
+  const byPrimary = defs.find((d) => d.locale.toLowerCase().split('-')[0] === primary || d.code === primary);
+  return byPrimary ? byPrimary.code : null;
+};
+
+// Joined text of all <segment> / <ignorable> parts of a unit (CAT tools
+// may split one field into several segments). Missing target on an
+// <ignorable> falls back to its source (whitespace between segments).
+const readUnitParts = (unit: Element): { source: string; target: string | null } => {
+  let source = '';
+  let target = '';
+  let hasTarget = false;
+  Array.from(unit.children)
+    .filter((c) => c.namespaceURI === XLIFF_NS && (c.localName === 'segment' || c.localName === 'ignorable'))
+    .forEach((part) => {
+      const src = part.getElementsByTagNameNS(XLIFF_NS, 'source')[0]?.textContent || '';
+      const trg = part.getElementsByTagNameNS(XLIFF_NS, 'target')[0];
+      source += src;
+      if (trg) {
+        hasTarget = true;
+        target += trg.textContent || '';
+      } else if (part.localName === 'ignorable') {
+        target += src;
+      }
+    });
+  return { source, target: hasTarget ? target : null };
+};
+
+// ─── EXPORT ──────────────────────────────────────────────────────
+
+export const buildXliff = (
+  sourceData: any,
+  targetData: any,
+  sourceLang: LanguageCode,
+  targetLang: LanguageCode,
+  projectId: string | null,
+  storedHashes: Map<string, string> = new Map()
+): { xml: string; unitCount: number; translatedCount: number } => {
+  const fields = flattenTranslatableFields(sourceData);
+  let translatedCount = 0;
+
+  const units = fields.map((field, idx) => {
+    const existing = targetData ? getByPath(targetData, field.path) : undefined;
+    const upToDate = storedHashes.get(field.path) === field.hash
+      && typeof existing === 'string' && existing.trim().length > 0;
+    if (upToDate) translatedCount++;
+
+    return [
+      `    <unit id="u${idx + 1}" name="${escapeAttr(field.path)}">`,
+      metaGroup('      ', { sourceHash: field.hash }),
+      `      <segment state="${upToDate ? 'translated' : 'initial'}">`,
+      `        <source xml:space="preserve">${escapeXml(field.value)}</source>`,
+      ...(upToDate ? [`        <target xml:space="preserve">${escapeXml(existing)}</target>`] : []),
+      `      </segment>`,
+      `    </unit>`,
+    ].join('\n');
+  });
+
+  const fileMeta: Record<string, string> = { sourceLang, targetLang };
+  if (projectId) fileMeta.projectId = projectId;
+
+  const xml = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<xliff xmlns="${XLIFF_NS}" xmlns:mda="${MDA_NS}" version="2.0" srcLang="${getLanguageLocale(sourceLang)}" trgLang="${getLanguageLocale(targetLang)}">`,
+    `  <file id="f1" original="${escapeAttr(projectId ? `project/${projectId}` : 'project')}">`,
+    metaGroup('    ', fileMeta),
+    ...units,
+    `  </file>`,
+    `</xliff>`,
+    '',
+  ].join('\n');
+
+  return { xml, unitCount: fields.length, translatedCount };
+};
+
+// ─── IMPORT ──────────────────────────────────────────────────────
+
+export const parseXliff = (xml: string): ParsedXliff => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Invalid XML file.');
+  }
+
+  const root = doc.documentElement;
+  if (root.localName !== 'xliff' || !(root.getAttribute('version') || '').startsWith('2.')) {
+    throw new Error('Not an XLIFF 2.x file.');
+  }
+
+  const file = root.getElementsByTagNameNS(XLIFF_NS, 'file')[0];
+  const fileMeta = file ? readMeta(file) : {};
+
+  const sourceLang = isSupportedLanguage(fileMeta.sourceLang)
+    ? fileMeta.sourceLang
+    : resolveLanguageTag(root.getAttribute('srcLang'));
+  const targetLang = isSupportedLanguage(fileMeta.targetLang)
+    ? fileMeta.targetLang
+    : resolveLanguageTag(root.getAttribute('trgLang'));
+  if (!sourceLang || !targetLang) {
+    throw new Error(`Unsupported XLIFF languages: ${root.getAttribute('srcLang')} → ${root.getAttribute('trgLang')}`);
+  }
+
+  const units: XliffUnit[] = Array.from(root.getElementsByTagNameNS(XLIFF_NS, 'unit')).map((unit) => {
+    const segment = unit.getElementsByTagNameNS(XLIFF_NS, 'segment')[0];
+    const { source, target } = readUnitParts(unit);
+    return {
+      path: unit.getAttribute('name') || '',
+      sourceHash: readMeta(unit).sourceHash || null,
+      source,
+      target,
+      state: segment?.getAttribute('state') || 'initial',
+    };
+  }).filter((u) => u.path.length > 0);
+
+  return { projectId: fileMeta.projectId || null, sourceLang, targetLang, units };
+};
+
+export const applyXliffTranslations = (
+  parsed: ParsedXliff,
+  sourceData: any,
+  targetData: any
+): { translatedData: any; hashEntries: FieldEntry[]; stats: XliffImportStats } => {
+  const sourceFields = new Map(flattenTranslatableFields(sourceData).map((f) => [f.path, f]));
+  const translatedData = targetData
+    ? JSON.parse(JSON.stringify(targetData))
+    : JSON.parse(JSON.stringify(sourceData));
+  copyNonTranslatableFromSource(sourceData, translatedData);
+
+  const hashEntries: FieldEntry[] = [];
+  const stats: XliffImportStats = { units: parsed.units.length, applied: 0, empty: 0, stale: 0, unknown: 0 };
+
+  for (const unit of parsed.units) {
+    const field = sourceFields.get(unit.path);
+    if (!field) {
+      stats.unknown++;
+      continue;
+    }
+    const target = (unit.target || '').trim();
+    if (!target) {
+      stats.empty++;
+      continue;
+    }
+
+    setByPath(translatedData, unit.path, target);
+    stats.applied++;
+
+    // Source edited after the export → keep the translation, but let the
+    // next smart translation pick the field up again
+    if (unit.sourceHash && unit.sourceHash === field.hash) {
+      hashEntries.push(field);
+    } else {
+      stats.stale++;
+    }
+  }
+
+  return { translatedData, hashEntries, stats };
+};
+
+// ─── SERVICE ─────────────────────────────────────────────────────
+
+export const xliffService = {
+
+  async exportPair(
+    projectId: string | null,
+    sourceData: any,
+    targetData: any,
+    sourceLang: LanguageCode,
+    targetLang: LanguageCode
+  ): Promise<{ blob: Blob; unitCount: number; translatedCount: number }> {
+    const storedHashes = projectId
+      ? await loadStoredHashes(projectId, sourceLang, targetLang)
+      : new Map<string, string>();
+    const { xml, unitCount, translatedCount } = buildXliff(sourceData, targetData, sourceLang, targetLang, projectId, storedHashes);
+    return { blob: new Blob([xml], { type: 'application/xliff+xml' }), unitCount, translatedCount };
+  },
+
+  // Applies an already parsed file and records hashes for up-to-date units
+  async importParsed(
+    projectId: string | null,
+    parsed: ParsedXliff,
+    sourceData: any,
+    targetData: any
+  ): Promise<{ translatedData: any; stats: XliffImportStats }> {
+    const { translatedData, hashEntries, stats } = applyXliffTranslations(parsed, sourceData, targetData);
+    if (projectId) {
+      await saveHashes(projectId, parsed.sourceLang, parsed.targetLang, hashEntries);
+    }
+    return { translatedData, stats };
+  },
+};
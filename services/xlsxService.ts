@@ -0,0 +1,278 @@
+// services/xlsxService.ts
+// ═══════════════════════════════════════════════════════════════
+// Minimal SpreadsheetML (XLSX) writer / reader on top of jszip.
+// v1.2 — 2026-03-07 — XLSX_STYLE.amount: #,##0.00 without a currency sign (non-EUR amounts)
+// v1.1 — 2026-03-07 — readXlsx(): cell values of every sheet (budget import)
+// v1.0 — 2026-03-07
+//
+// FEATURES:
+//   - buildXlsx(): sheets of rows → .xlsx Blob, no extra dependency
+//   - Cells: string (inline string), number, or formula (no cached
+//     value — workbook is flagged fullCalcOnLoad, Excel / LibreOffice
+//     compute every formula when the file is opened)
+//   - Fixed style table (XLSX_STYLE): header, money (€), amount (no
+//     currency sign), person-months, percent + bold variants for total rows
+//   - Helpers: columnLetter(), cellRef(), sheetRef() for formulas
+//   - readXlsx(): shared / inline strings, numbers, booleans and cached
+//     formula results; no styles (dates stay Excel serial numbers)
+// ═══════════════════════════════════════════════════════════════
+
+// ─── TYPES ───────────────────────────────────────────────────────
+
+export interface XlsxCell {
+  value?: string | number | null;
+  formula?: string;                 // without leading "="
+  style?: number;                   // XLSX_STYLE
+}
+
+export type XlsxRow = (XlsxCell | null)[];
+
+export type XlsxValue = string | number | boolean | null;
+
+export interface XlsxReadSheet {
+  name: string;
+  rows: XlsxValue[][];
+}
+
+export interface XlsxSheet {
+  name: string;
+  rows: XlsxRow[];
+  columnWidths?: number[];          // characters, per column from A
+  frozenRows?: number;              // header rows kept visible
+}
+
+// ─── STYLES ──────────────────────────────────────────────────────
+
+export const XLSX_STYLE = {
+  default: 0,
+  header: 1,
+  money: 2,
+  moneyBold: 3,
+  pm: 4,
+  pmBold: 5,
+  percent: 6,
+  bold: 7,
+  title: 8,
+  amount: 9,
+} as const;
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+  <numFmts count="2">
+    <numFmt numFmtId="164" formatCode="#,##0.00\\ &quot;€&quot;"/>
+    <numFmt numFmtId="165" formatCode="0.0%"/>
+  </numFmts>
+  <fonts count="3">
+    <font><sz val="11"/><name val="Calibri"/></font>
+    <font><b/><sz val="11"/><name val="Calibri"/></font>
+    <font><b/><sz val="14"/><color rgb="FF2E74B5"/><name val="Calibri"/></font>
+  </fonts>
+  <fills count="3">
+    <fill><patternFill patternType="none"/></fill>
+    <fill><patternFill patternType="gray125"/></fill>
+    <fill><patternFill patternType="solid"><fgColor rgb="FFE0E7FF"/><bgColor indexed="64"/></patternFill></fill>
+  </fills>
+  <borders count="2">
+    <border><left/><right/><top/><bottom/><diagonal/></border>
+    <border><left/><right/><top style="thin"><color auto="1"/></top><bottom/><diagonal/></border>
+  </borders>
+  <cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+  <cellXfs count="10">
+    <xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+    <xf numFmtId="0" fontId="1" fillId="2" borderId="0" xfId="0" applyFont="1" applyFill="1"/>
+    <xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+    <xf numFmtId="164" fontId="1" fillId="0" borderId="1" xfId="0" applyNumberFormat="1" applyFont="1" applyBorder="1"/>
+    <xf numFmtId="2" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+    <xf numFmtId="2" fontId="1" fillId="0" borderId="1" xfId="0" applyNumberFormat="1" applyFont="1" applyBorder="1"/>
+    <xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+    <xf numFmtId="0" fontId="1" fillId="0" borderId="1" xfId="0" applyFont="1" applyBorder="1"/>
+    <xf numFmtId="0" fontId="2" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+    <xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+  </cellXfs>
+  <cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>
+</styleSheet>`;
+
+// ─── HELPERS ─────────────────────────────────────────────────────
+
+const escapeXml = (str: string): string =>
+  str
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// 0 → A, 25 → Z, 26 → AA
+export const columnLetter = (index: number): string => {
+  let n = index + 1;
+  let letters = '';
+  while (n > 0) {
+    const rem = (n - 1) % 26;
+    letters = String.fromCharCode(65 + rem) + letters;
+    n = Math.floor((n - 1) / 26);
+  }
+  return letters;
+};
+
+// 0-based column / row → "B3"
+export const cellRef = (col: number, row: number, absolute: boolean = false): string =>
+  absolute ? `$${columnLetter(col)}$${row + 1}` : `${columnLetter(col)}${row + 1}`;
+
+// Reference into another sheet: 'Cost categories'!C5
+export const sheetRef = (sheetName: string, ref: string): string =>
+  `'${sheetName.replace(/'/g, "''")}'!${ref}`;
+
+// Excel: max 31 chars, no : \ / ? * [ ]
+export const sanitizeSheetName = (name: string): string =>
+  name.replace(/[:\\/?*[\]]/g, ' ').trim().slice(0, 31) || 'Sheet';
+
+const cellXml = (cell: XlsxCell, col: number, row: number): string => {
+  const ref = cellRef(col, row);
+  const style = cell.style ? ` s="${cell.style}"` : '';
+  if (cell.formula) {
+    return `<c r="${ref}"${style}><f>${escapeXml(cell.formula)}</f></c>`;
+  }
+  if (typeof cell.value === 'number' && Number.isFinite(cell.value)) {
+    return `<c r="${ref}"${style}><v>${cell.value}</v></c>`;
+  }
+  if (cell.value === null || cell.value === undefined || cell.value === '') {
+    return style ? `<c r="${ref}"${style}/>` : '';
+  }
+  return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(cell.value))}</t></is></c>`;
+};
+
+const sheetXml = (sheet: XlsxSheet): string => {
+  const rowsXml = sheet.rows.map((row, r) => {
+    const cells = row.map((cell, c) => (cell ? cellXml(cell, c, r) : '')).join('');
+    return cells ? `<row r="${r + 1}">${cells}</row>` : '';
+  }).join('');
+
+  const cols = sheet.columnWidths && sheet.columnWidths.length > 0
+    ? `<cols>${sheet.columnWidths.map((w, i) => `<col min="${i + 1}" max="${i + 1}" width="${w}" customWidth="1"/>`).join('')}</cols>`
+    : '';
+
+  const pane = sheet.frozenRows
+    ? `<sheetViews><sheetView workbookViewId="0"><pane ySplit="${sheet.frozenRows}" topLeftCell="A${sheet.frozenRows + 1}" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>`
+    : '';
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">${pane}${cols}<sheetData>${rowsXml}</sheetData></worksheet>`;
+};
+
+// ─── BUILD ───────────────────────────────────────────────────────
+
+export const buildXlsx = async (sheets: XlsxSheet[]): Promise<Blob> => {
+  const JSZip = (await import('jszip')).default;
+  const zip = new JSZip();
+
+  zip.file('[Content_Types].xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+  <Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+${sheets.map((_, i) => `  <Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('\n')}
+</Types>`);
+
+  zip.file('_rels/.rels', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`);
+
+  zip.file('xl/workbook.xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+  <sheets>
+${sheets.map((s, i) => `    <sheet name="${escapeXml(sanitizeSheetName(s.name))}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('\n')}
+  </sheets>
+  <calcPr calcId="191029" fullCalcOnLoad="1"/>
+</workbook>`);
+
+  zip.file('xl/_rels/workbook.xml.rels', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+${sheets.map((_, i) => `  <Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('\n')}
+  <Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`);
+
+  zip.file('xl/styles.xml', STYLES_XML);
+  sheets.forEach((sheet, i) => zip.file(`xl/worksheets/sheet${i + 1}.xml`, sheetXml(sheet)));
+
+  return zip.generateAsync({
+    type: 'blob',
+    mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  });
+};
+
+// ─── READ ────────────────────────────────────────────────────────
+
+// "BC12" → 54 (0-based column of a cell reference)
+export const columnIndex = (ref: string): number => {
+  const letters = (ref.match(/^[A-Z]+/i)?.[0] || 'A').toUpperCase();
+  let n = 0;
+  for (const ch of letters) n = n * 26 + (ch.charCodeAt(0) - 64);
+  return n - 1;
+};
+
+const parseXml = (xml: string): Document => new DOMParser().parseFromString(xml, 'application/xml');
+
+const byLocalName = (node: Document | Element, name: string): Element[] =>
+  Array.from(node.getElementsByTagNameNS('*', name));
+
+// Text of <t> runs, without phonetic hints (<rPh>)
+const richText = (el: Element): string =>
+  byLocalName(el, 't')
+    .filter((t) => t.parentElement?.localName !== 'rPh')
+    .map((t) => t.textContent || '')
+    .join('');
+
+export const readXlsx = async (data: ArrayBuffer): Promise<XlsxReadSheet[]> => {
+  const JSZip = (await import('jszip')).default;
+  const zip = await JSZip.loadAsync(data);
+  const readPart = async (path: string): Promise<string | null> => {
+    const file = zip.file(path);
+    return file ? file.async('string') : null;
+  };
+
+  const workbookXml = await readPart('xl/workbook.xml');
+  if (!workbookXml) throw new Error('Not an XLSX workbook.');
+
+  const relsXml = await readPart('xl/_rels/workbook.xml.rels');
+  const targets = new Map<string, string>();
+  if (relsXml) {
+    byLocalName(parseXml(relsXml), 'Relationship').forEach((rel) => {
+      const target = rel.getAttribute('Target') || '';
+      targets.set(rel.getAttribute('Id') || '', target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+    });
+  }
+
+  const sharedXml = await readPart('xl/sharedStrings.xml');
+  const sharedStrings = sharedXml ? byLocalName(parseXml(sharedXml), 'si').map(richText) : [];
+
+  const sheets: XlsxReadSheet[] = [];
+  for (const sheetEl of byLocalName(parseXml(workbookXml), 'sheet')) {
+    const relId = Array.from(sheetEl.attributes).find((a) => a.localName === 'id')?.value || '';
+    const sheetXml = await readPart(targets.get(relId) || '');
+    if (!sheetXml) continue;
+
+    const rows: XlsxValue[][] = [];
+    byLocalName(parseXml(sheetXml), 'row').forEach((rowEl, idx) => {
+      const rowNumber = parseInt(rowEl.getAttribute('r') || '', 10) || idx + 1;
+      const row: XlsxValue[] = [];
+      byLocalName(rowEl, 'c').forEach((c, cIdx) => {
+        const ref = c.getAttribute('r');
+        const col = ref ? columnIndex(ref) : cIdx;
+        const type = c.getAttribute('t');
+        const v = byLocalName(c, 'v')[0]?.textContent ?? null;
+        let value: XlsxValue = null;
+        if (type === 's') value = v !== null ? (sharedStrings[parseInt(v, 10)] ?? null) : null;
+        else if (type === 'inlineStr') value = byLocalName(c, 'is')[0] ? richText(byLocalName(c, 'is')[0]) : null;
+        else if (type === 'b') value = v === '1';
+        else if (type === 'str' || type === 'e') value = v;
+        else if (v !== null && v !== '') value = Number(v);
+        row[col] = value;
+      });
+      rows[rowNumber - 1] = Array.from(row, (val) => (val === undefined ? null : val));
+    });
+    sheets.push({ name: sheetEl.getAttribute('name') || `Sheet${sheets.length + 1}`, rows: Array.from(rows, (r) => r || []) });
+  }
+  return sheets;
+};
@@ -135,12 +135,20 @@ CREATE TABLE IF NOT EXISTS user_settings (
   created_at TIMESTAMPTZ DEFAULT now()
 );
 
--- Add openai_key if missing (safe re-run)
+-- Add openai_key / quality_auto_retry / local_* if missing (safe re-run)
 DO $$
 BEGIN
   IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='user_settings' AND column_name='openai_key') THEN
     ALTER TABLE user_settings ADD COLUMN openai_key TEXT;
   END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='user_settings' AND column_name='quality_auto_retry') THEN
+    ALTER TABLE user_settings ADD COLUMN quality_auto_retry BOOLEAN DEFAULT false;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='user_settings' AND column_name='local_base_url') THEN
+    ALTER TABLE user_settings ADD COLUMN local_base_url TEXT;
+    ALTER TABLE user_settings ADD COLUMN local_api_key TEXT;
+    ALTER TABLE user_settings ADD COLUMN local_api_format TEXT DEFAULT 'openai';
+  END IF;
 END $$;
 
 
@@ -208,22 +216,32 @@ CREATE TABLE IF NOT EXISTS projects (
 CREATE INDEX IF NOT EXISTS idx_projects_owner_id ON projects(owner_id);
 CREATE INDEX IF NOT EXISTS idx_projects_org_id ON projects(organization_id);
 
--- Add organization_id if missing (safe re-run)
+-- Add organization_id / version if missing (safe re-run)
 DO $$
 BEGIN
   IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='projects' AND column_name='organization_id') THEN
     ALTER TABLE projects ADD COLUMN organization_id UUID REFERENCES organizations(id) ON DELETE SET NULL;
   END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='projects' AND column_name='version') THEN
+    ALTER TABLE projects ADD COLUMN version INTEGER DEFAULT 1;
+  END IF;
 END $$;
 
 CREATE TABLE IF NOT EXISTS project_data (
   project_id TEXT REFERENCES projects(id) ON DELETE CASCADE,
-  language TEXT NOT NULL CHECK (language IN ('en', 'si')),
+  language TEXT NOT NULL CONSTRAINT project_data_language_check CHECK (language ~ '^[a-z]{2,3}$'),
   data JSONB DEFAULT '{}',
   updated_at TIMESTAMPTZ DEFAULT now(),
   PRIMARY KEY (project_id, language)
 );
 
+-- Any registered language code (languages.ts) — was: IN ('en', 'si') (safe re-run)
+DO $$
+BEGIN
+  ALTER TABLE project_data DROP CONSTRAINT IF EXISTS project_data_language_check;
+  ALTER TABLE project_data ADD CONSTRAINT project_data_language_check CHECK (language ~ '^[a-z]{2,3}$');
+END $$;
+
 
 -- ═══════════════════════════════════════════════════════════════
 -- 5. TRANSLATION HASHES TABLE
@@ -240,6 +258,78 @@ CREATE TABLE IF NOT EXISTS translation_hashes (
 );
 
 
+-- ═══════════════════════════════════════════════════════════════
+-- 5a. PROJECT VERSIONS TABLE (snapshot history)
+-- ═══════════════════════════════════════════════════════════════
+-- data = { "en": {...ProjectData}, "si": {...ProjectData}, ...one key per language }
+-- kind: 'auto' (before AI generation/translation/restore) | 'named' (user)
+
+CREATE TABLE IF NOT EXISTS project_versions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id TEXT REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  version INTEGER NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'auto' CHECK (kind IN ('auto', 'named')),
+  label TEXT,
+  reason TEXT,
+  data JSONB NOT NULL DEFAULT '{}',
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_versions_project ON project_versions(project_id, created_at DESC);
+
+
+-- ═══════════════════════════════════════════════════════════════
+-- 5b. TRANSLATION GLOSSARY TABLE (termbase)
+-- ═══════════════════════════════════════════════════════════════
+-- Exactly one scope per row: organization_id (org glossary) OR project_id
+-- source_lang / target_lang NULL = any language pair
+
+CREATE TABLE IF NOT EXISTS translation_glossary (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  project_id TEXT REFERENCES projects(id) ON DELETE CASCADE,
+  source_lang TEXT,
+  target_lang TEXT,
+  source_term TEXT NOT NULL,
+  target_term TEXT,
+  do_not_translate BOOLEAN NOT NULL DEFAULT false,
+  note TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  CHECK ((organization_id IS NULL) <> (project_id IS NULL)),
+  CHECK (do_not_translate OR target_term IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_translation_glossary_org ON translation_glossary(organization_id);
+CREATE INDEX IF NOT EXISTS idx_translation_glossary_project ON translation_glossary(project_id);
+
+
+-- ═══════════════════════════════════════════════════════════════
+-- 5c. UNIT COST RATES TABLE (organization unit-cost catalogue)
+-- ═══════════════════════════════════════════════════════════════
+-- One row per rate (travel band, subsistence country, staff day rate ...)
+-- category_key = direct cost category the computed amount is booked to
+
+CREATE TABLE IF NOT EXISTS unit_cost_rates (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  catalogue TEXT NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'other' CHECK (kind IN ('staff', 'travel', 'subsistence', 'other')),
+  label TEXT NOT NULL,
+  unit TEXT NOT NULL,
+  rate NUMERIC(12, 2) NOT NULL CHECK (rate >= 0),
+  country_code TEXT,
+  category_key TEXT,
+  note TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_unit_cost_rates_org ON unit_cost_rates(organization_id, catalogue);
+
+
 -- ═══════════════════════════════════════════════════════════════
 -- 6. KNOWLEDGE BASE DOCUMENTS TABLE
 -- ═══════════════════════════════════════════════════════════════
@@ -297,6 +387,9 @@ ALTER TABLE organization_instructions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE projects ENABLE ROW LEVEL SECURITY;
 ALTER TABLE project_data ENABLE ROW LEVEL SECURITY;
 ALTER TABLE translation_hashes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE project_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE translation_glossary ENABLE ROW LEVEL SECURITY;
+ALTER TABLE unit_cost_rates ENABLE ROW LEVEL SECURITY;
 ALTER TABLE knowledge_base_documents ENABLE ROW LEVEL SECURITY;
 ALTER TABLE admin_log ENABLE ROW LEVEL SECURITY;
 ALTER TABLE global_settings ENABLE ROW LEVEL SECURITY;
@@ -575,6 +668,128 @@ CREATE POLICY "translation_hashes_delete_own"
   USING (EXISTS (SELECT 1 FROM projects WHERE projects.id = translation_hashes.project_id AND projects.owner_id = auth.uid()));
 
 
+-- ═══════════════════════════════════════════════════════════════
+-- 16a. RLS POLICIES — PROJECT_VERSIONS
+-- ═══════════════════════════════════════════════════════════════
+
+DROP POLICY IF EXISTS "project_versions_select_own" ON project_versions;
+DROP POLICY IF EXISTS "project_versions_insert_own" ON project_versions;
+DROP POLICY IF EXISTS "project_versions_delete_own" ON project_versions;
+
+CREATE POLICY "project_versions_select_own"
+  ON project_versions FOR SELECT
+  USING (EXISTS (SELECT 1 FROM projects WHERE projects.id = project_versions.project_id AND projects.owner_id = auth.uid()));
+
+CREATE POLICY "project_versions_insert_own"
+  ON project_versions FOR INSERT
+  WITH CHECK (EXISTS (SELECT 1 FROM projects WHERE projects.id = project_versions.project_id AND projects.owner_id = auth.uid()));
+
+CREATE POLICY "project_versions_delete_own"
+  ON project_versions FOR DELETE
+  USING (EXISTS (SELECT 1 FROM projects WHERE projects.id = project_versions.project_id AND projects.owner_id = auth.uid()));
+
+
+-- ═══════════════════════════════════════════════════════════════
+-- 16b. RLS POLICIES — TRANSLATION_GLOSSARY
+-- ═══════════════════════════════════════════════════════════════
+-- Org entries: members read, org admins/owners write
+-- Project entries: project owner reads and writes
+
+DROP POLICY IF EXISTS "glossary_select" ON translation_glossary;
+DROP POLICY IF EXISTS "glossary_insert" ON translation_glossary;
+DROP POLICY IF EXISTS "glossary_delete" ON translation_glossary;
+
+CREATE POLICY "glossary_select"
+  ON translation_glossary FOR SELECT
+  USING (
+    (project_id IS NOT NULL AND EXISTS (
+      SELECT 1 FROM projects WHERE projects.id = translation_glossary.project_id AND projects.owner_id = auth.uid()
+    ))
+    OR
+    (organization_id IS NOT NULL AND EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_members.organization_id = translation_glossary.organization_id
+      AND organization_members.user_id = auth.uid()
+    ))
+  );
+
+CREATE POLICY "glossary_insert"
+  ON translation_glossary FOR INSERT
+  WITH CHECK (
+    (project_id IS NOT NULL AND EXISTS (
+      SELECT 1 FROM projects WHERE projects.id = translation_glossary.project_id AND projects.owner_id = auth.uid()
+    ))
+    OR
+    (organization_id IS NOT NULL AND EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_members.organization_id = translation_glossary.organization_id
+      AND organization_members.user_id = auth.uid()
+      AND organization_members.org_role IN ('admin', 'owner')
+    ))
+  );
+
+CREATE POLICY "glossary_delete"
+  ON translation_glossary FOR DELETE
+  USING (
+    (project_id IS NOT NULL AND EXISTS (
+      SELECT 1 FROM projects WHERE projects.id = translation_glossary.project_id AND projects.owner_id = auth.uid()
+    ))
+    OR
+    (organization_id IS NOT NULL AND EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_members.organization_id = translation_glossary.organization_id
+      AND organization_members.user_id = auth.uid()
+      AND organization_members.org_role IN ('admin', 'owner')
+    ))
+  );
+
+
+-- ═══════════════════════════════════════════════════════════════
+-- 16c. RLS POLICIES — UNIT_COST_RATES
+-- ═══════════════════════════════════════════════════════════════
+-- Members read the catalogue, org admins/owners maintain it
+
+DROP POLICY IF EXISTS "unit_cost_rates_select" ON unit_cost_rates;
+DROP POLICY IF EXISTS "unit_cost_rates_insert" ON unit_cost_rates;
+DROP POLICY IF EXISTS "unit_cost_rates_update" ON unit_cost_rates;
+DROP POLICY IF EXISTS "unit_cost_rates_delete" ON unit_cost_rates;
+
+CREATE POLICY "unit_cost_rates_select"
+  ON unit_cost_rates FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM organization_members
+    WHERE organization_members.organization_id = unit_cost_rates.organization_id
+    AND organization_members.user_id = auth.uid()
+  ));
+
+CREATE POLICY "unit_cost_rates_insert"
+  ON unit_cost_rates FOR INSERT
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM organization_members
+    WHERE organization_members.organization_id = unit_cost_rates.organization_id
+    AND organization_members.user_id = auth.uid()
+    AND organization_members.org_role IN ('admin', 'owner')
+  ));
+
+CREATE POLICY "unit_cost_rates_update"
+  ON unit_cost_rates FOR UPDATE
+  USING (EXISTS (
+    SELECT 1 FROM organization_members
+    WHERE organization_members.organization_id = unit_cost_rates.organization_id
+    AND organization_members.user_id = auth.uid()
+    AND organization_members.org_role IN ('admin', 'owner')
+  ));
+
+CREATE POLICY "unit_cost_rates_delete"
+  ON unit_cost_rates FOR DELETE
+  USING (EXISTS (
+    SELECT 1 FROM organization_members
+    WHERE organization_members.organization_id = unit_cost_rates.organization_id
+    AND organization_members.user_id = auth.uid()
+    AND organization_members.org_role IN ('admin', 'owner')
+  ));
+
+
 -- ═══════════════════════════════════════════════════════════════
 -- 17. RLS POLICIES — KNOWLEDGE_BASE_DOCUMENTS
 -- ═══════════════════════════════════════════════════════════════
@@ -0,0 +1,120 @@
+// tests/budgetImportService.test.ts
+// Spreadsheet rows validated against the project before the budget import is applied
+
+import { describe, expect, it } from 'vitest';
+import { parseBudgetRows, parseSpreadsheetNumber, type BudgetImportMapping } from '../services/budgetImportService.ts';
+
+const mapping: BudgetImportMapping = { partner: 0, wp: 1, task: 2, hours: 3, pm: 4, category: 5, amount: 6 };
+const HEADER = ['Partner', 'WP', 'Task', 'Hours', 'PM', 'Category', 'Amount'];
+
+const project = (extra: any = {}) => ({
+  fundingModel: 'centralized',
+  partners: [{ id: 'p1', code: 'UL', name: 'University of Ljubljana' }, { id: 'p2', code: 'ACME', name: 'Acme d.o.o.' }],
+  activities: [
+    { id: 'WP1', tasks: [{ id: 'T1.1' }, { id: 'T1.2' }] },
+    { id: 'WP2', tasks: [{ id: 'T2.1' }] },
+  ],
+  ...extra,
+});
+
+const parse = (rows: any[][], data: any = project(), language: 'en' | 'si' = 'en') =>
+  parseBudgetRows([HEADER, ...rows], mapping, data, { hasHeader: true, language });
+
+describe('parseBudgetRows — matching', () => {
+  it('matches partners by code or name and tasks by ID or number', () => {
+    const { lines, issues } = parse([
+      ['ul', 'WP1', 'T1.1', 120, null, null, null],
+      ['Acme d.o.o.', '', 'Task 2.1', null, 0.5, null, null],
+      ['UL', 'DS1', '1.2', null, null, 'Potni stroški', '1.234,50 €'],
+    ]);
+    expect(issues).toEqual([]);
+    expect(lines.map((l) => [l.rowNumber, l.partnerId, l.wpId, l.taskId, l.hours, l.pm, l.categoryKey, l.amount])).toEqual([
+      [2, 'p1', 'WP1', 'T1.1', 120, null, null, null],
+      [3, 'p2', 'WP2', 'T2.1', null, 0.5, null, null],
+      [4, 'p1', 'WP1', 'T1.2', null, null, 'travelCosts', 1234.5],
+    ]);
+  });
+
+  it('remaps categories of the other funding model to the current one', () => {
+    const { lines } = parse([['UL', '', 'T1.1', null, null, 'Staff/Personnel costs', 1000]], project({ fundingModel: 'decentralized' }));
+    expect(lines[0].categoryKey).toBe('salariesReimbursements');
+  });
+
+  it('rejects a task number that matches several tasks', () => {
+    const data = project({ activities: [{ id: 'WP1', tasks: [{ id: 'T1.1' }, { id: 'N1.1' }] }] });
+    const { lines, issues } = parse([['UL', '', '1.1', 10, null, null, null]], data);
+    expect(lines).toEqual([]);
+    expect(issues[0].message).toBe('Unknown task "1.1".');
+  });
+
+  it('skips the header and empty rows', () => {
+    const { lines, issues } = parse([[], ['', null, '', null, null, null, null], ['UL', '', 'T1.1', 8, null, null, null]]);
+    expect(issues).toEqual([]);
+    expect(lines.map((l) => l.rowNumber)).toEqual([4]);
+  });
+});
+
+describe('parseBudgetRows — issues', () => {
+  it('reports one error per invalid row, sorted by row', () => {
+    const { lines, issues } = parse([
+      ['', '', 'T1.1', 10, null, null, null],
+      ['XYZ', '', 'T1.1', 10, null, null, null],
+      ['UL', '', '', 10, null, null, null],
+      ['UL', '', 'T9.9', 10, null, null, null],
+      ['UL', 'WP2', 'T1.1', 10, null, null, null],
+      ['UL', '', 'T1.1', null, null, 'Catering', 100],
+      ['UL', '', 'T1.1', null, null, 'Travel costs', null],
+      ['UL', '', 'T1.1', null, null, null, 100],
+      ['UL', '', 'T1.1', -5, null, null, null],
+    ]);
+    expect(lines).toEqual([]);
+    expect(issues.map((i) => [i.rowNumber, i.severity, i.message])).toEqual([
+      [2, 'error', 'Partner is missing.'],
+      [3, 'error', 'Unknown partner "XYZ".'],
+      [4, 'error', 'Task ID is missing.'],
+      [5, 'error', 'Unknown task "T9.9".'],
+      [6, 'error', 'Task T1.1 does not belong to WP2 (it is in WP1).'],
+      [7, 'error', 'Unknown cost category "Catering".'],
+      [8, 'error', 'Cost category without an amount.'],
+      [9, 'error', 'Amount without a cost category.'],
+      [10, 'error', 'Negative values are not allowed.'],
+    ]);
+  });
+
+  it('warns about rows without hours, PM or costs and skips them', () => {
+    const { lines, issues } = parse([['UL', '', 'T1.1', null, null, null, 0]], project(), 'si');
+    expect(lines).toEqual([]);
+    expect(issues).toEqual([{ rowNumber: 2, severity: 'warning', message: 'Vrstica nima ur, OM ali stroškov — preskočeno.' }]);
+  });
+
+  it('warns when a later row gives different hours for the same task and partner', () => {
+    const { lines, issues } = parse([
+      ['UL', '', 'T1.1', 143, null, 'Travel costs', 500],
+      ['UL', '', 'T1.1', null, 1, 'Materials / Consumables', 200],
+      ['UL', '', 'T1.1', 160, null, 'Other project costs', 50],
+      ['ACME', '', 'T1.1', 40, null, null, null],
+    ]);
+    expect(lines).toHaveLength(4);
+    expect(issues.map((i) => [i.rowNumber, i.severity])).toEqual([[4, 'warning']]);
+    expect(issues[0].message).toContain('differ from row 2');
+  });
+});
+
+describe('parseSpreadsheetNumber', () => {
+  it('reads decimal commas, thousands separators and currency signs', () => {
+    expect(parseSpreadsheetNumber(1234.5)).toBe(1234.5);
+    expect(parseSpreadsheetNumber('1.234,50 €')).toBe(1234.5);
+    expect(parseSpreadsheetNumber('1,234.50')).toBe(1234.5);
+    expect(parseSpreadsheetNumber('12 000 EUR')).toBe(12000);
+    expect(parseSpreadsheetNumber('1,5')).toBe(1.5);
+    expect(parseSpreadsheetNumber('12,000')).toBe(12000);
+    expect(parseSpreadsheetNumber('1.200.000')).toBe(1200000);
+  });
+
+  it('returns null for empty and non-numeric cells', () => {
+    expect(parseSpreadsheetNumber('')).toBeNull();
+    expect(parseSpreadsheetNumber(null)).toBeNull();
+    expect(parseSpreadsheetNumber(true)).toBeNull();
+    expect(parseSpreadsheetNumber('n/a')).toBeNull();
+  });
+});
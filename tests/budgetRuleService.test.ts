@@ -0,0 +1,146 @@
+// tests/budgetRuleService.test.ts
+// Budget rules checked against the allocations — one violation per offending scope
+
+import { describe, expect, it } from 'vitest';
+import { evaluateBudgetRules } from '../services/budgetRuleService.ts';
+import type { BudgetRule } from '../types.ts';
+
+const cost = (categoryKey: string, amount: number, extra: any = {}) => ({ categoryKey, amount, ...extra });
+const alloc = (partnerId: string, directCosts: any[]) => ({ partnerId, hours: 0, pm: 0, directCosts });
+
+const project = (extra: any = {}) => ({
+  fundingModel: 'centralized',
+  partners: [{ id: 'p1', code: 'P1' }, { id: 'p2', code: 'P2' }],
+  activities: [
+    {
+      id: 'WP1',
+      tasks: [{
+        id: 'T1.1',
+        partnerAllocations: [
+          alloc('p1', [cost('labourCosts', 10000), cost('travelCosts', 1000)]),
+          alloc('p2', [cost('labourCosts', 1000), cost('travelCosts', 500)]),
+        ],
+      }],
+    },
+    {
+      id: 'WP2',
+      tasks: [{ id: 'T2.1', partnerAllocations: [alloc('p1', [cost('investmentCosts', 300)])] }],
+    },
+  ],
+  ...extra,
+});
+
+const rule = (type: BudgetRule['type'], fields: Partial<BudgetRule> = {}): BudgetRule =>
+  ({ id: `r-${type}`, type, enabled: true, severity: 'error', ...fields });
+
+describe('evaluateBudgetRules — caps', () => {
+  it('checks a share per partner against its own base categories', () => {
+    const report = evaluateBudgetRules(project(), 'en', [
+      rule('maxShare', { scope: 'partner', categories: ['travelCosts'], baseCategories: ['labourCosts'], percentage: 15 }),
+    ]);
+    expect(report.violations).toHaveLength(1);
+    expect(report.violations[0]).toMatchObject({ partnerCode: 'P2', wpId: null, category: 'travelCosts', actual: 50, limit: 15, unit: 'percent' });
+  });
+
+  it('reports a capped category without any base as 100%', () => {
+    const report = evaluateBudgetRules(project(), 'en', [
+      rule('maxShare', { scope: 'wp', categories: ['investmentCosts'], baseCategories: ['labourCosts'], percentage: 20 }),
+    ]);
+    expect(report.violations.map((v) => [v.wpId, v.actual])).toEqual([['WP2', 100]]);
+    expect(report.violations[0].message).toContain('∞');
+  });
+
+  it('checks an amount cap per scope in EUR', () => {
+    const rates = { exchangeRates: { rates: [{ currency: 'CZK', rate: 25, date: null, source: 'manual' }] } };
+    const data = project(rates);
+    data.activities[1].tasks[0].partnerAllocations.push(alloc('p2', [cost('investmentCosts', 5000, { currency: 'CZK' })]));
+
+    const report = evaluateBudgetRules(data, 'en', [
+      rule('maxAmount', { scope: 'partner', categories: ['investmentCosts'], amount: 250 }),
+    ]);
+    expect(report.violations.map((v) => [v.partnerCode, v.actual, v.limit])).toEqual([['P1', 300, 250]]);
+  });
+});
+
+describe('evaluateBudgetRules — indirect rate', () => {
+  it('flags a rate above the limit and indirect costs charged outside the base', () => {
+    const report = evaluateBudgetRules(
+      project({ indirectCostSettings: { percentage: 30, appliesToCategories: ['labourCosts', 'subContractorCosts'] } }),
+      'en',
+      [rule('indirectRate', { percentage: 25, baseCategories: ['labourCosts', 'travelCosts'] })]
+    );
+    expect(report.violations.map((v) => [v.category, v.actual, v.limit, v.unit])).toEqual([
+      [null, 30, 25, 'percent'],
+      ['subContractorCosts', 0, 0, 'eur'],
+    ]);
+  });
+
+  it('accepts a rate at the limit', () => {
+    const report = evaluateBudgetRules(
+      project({ indirectCostSettings: { percentage: 25, appliesToCategories: ['labourCosts'] } }),
+      'en',
+      [rule('indirectRate', { percentage: 25, baseCategories: ['labourCosts'] })]
+    );
+    expect(report.violations).toEqual([]);
+  });
+});
+
+describe('evaluateBudgetRules — partners and cost models', () => {
+  it('checks each partner share of the total budget', () => {
+    // P1 11 300 of 12 800, P2 1 500
+    const report = evaluateBudgetRules(project(), 'en', [rule('partnerShare', { minPercentage: 15, maxPercentage: 85 })]);
+    expect(report.violations.map((v) => [v.partnerCode, v.limit])).toEqual([['P1', 85], ['P2', 15]]);
+    expect(report.violations[1].actual).toBeCloseTo(1500 / 12800 * 100);
+  });
+
+  it('sums items not costed with an allowed model per partner, WP and category', () => {
+    const data = project();
+    data.activities[0].tasks[0].partnerAllocations[0].directCosts = [
+      cost('labourCosts', 4000),
+      cost('labourCosts', 6000, { costModel: 'unit' }),
+      cost('travelCosts', 700),
+      cost('travelCosts', 300, { costModel: 'lumpSum' }),
+      cost('travelCosts', 0),
+    ];
+    const report = evaluateBudgetRules(data, 'en', [rule('costModels', { costModels: ['unit', 'lumpSum'] })]);
+    expect(report.violations.map((v) => [v.partnerCode, v.wpId, v.category, v.actual])).toEqual([
+      ['P1', 'WP1', 'labourCosts', 4000],
+      ['P1', 'WP1', 'travelCosts', 700],
+      ['P2', 'WP1', 'labourCosts', 1000],
+      ['P2', 'WP1', 'travelCosts', 500],
+      ['P1', 'WP2', 'investmentCosts', 300],
+    ]);
+  });
+});
+
+describe('evaluateBudgetRules — rule selection', () => {
+  it('uses the project rules and skips disabled ones', () => {
+    const report = evaluateBudgetRules(project({
+      budgetRules: {
+        presetId: null,
+        rules: [
+          rule('maxAmount', { scope: 'project', categories: ['investmentCosts'], amount: 0, severity: 'warning' }),
+          rule('partnerShare', { minPercentage: 50, enabled: false }),
+        ],
+      },
+    }));
+    expect(report.rulesEvaluated).toBe(1);
+    expect(report).toMatchObject({ errorCount: 0, warningCount: 1 });
+  });
+
+  it('skips a rule whose categories do not exist in a decentralized budget', () => {
+    const report = evaluateBudgetRules(project({ fundingModel: 'decentralized' }), 'en', [
+      rule('maxShare', { scope: 'partner', categories: ['travelCosts'], baseCategories: ['labourCosts'], percentage: 15 }),
+    ]);
+    expect(report.rulesEvaluated).toBe(0);
+    expect(report.violations).toEqual([]);
+  });
+
+  it('resolves centralized rule categories to their decentralized counterparts', () => {
+    const data = project({ fundingModel: 'decentralized' });
+    data.activities[1].tasks[0].partnerAllocations = [alloc('p1', [cost('tangibleAssetInvestment', 200), cost('intangibleAssetInvestment', 100)])];
+    const report = evaluateBudgetRules(data, 'si', [rule('maxAmount', { scope: 'project', categories: ['investmentCosts'], amount: 250 })]);
+    expect(report.violations.map((v) => [v.category, v.actual])).toEqual([[null, 300]]);
+    expect(report.violations[0].message).toContain('presega');
+  });
+});
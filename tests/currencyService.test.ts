@@ -0,0 +1,90 @@
+// tests/currencyService.test.ts
+// ECB reference-rate CSV import (eurofxref and Data Portal layouts) and conversion to EUR
+
+import { describe, expect, it } from 'vitest';
+import { directCostAmountEur, findMissingExchangeRates, mergeEcbRates, parseEcbRatesCsv } from '../services/currencyService.ts';
+
+describe('parseEcbRatesCsv — eurofxref', () => {
+  it('reads the daily file with its trailing comma and spaces', () => {
+    const csv = 'Date, USD, JPY, BGN, \n16 October 2026, 1.0812, 162.51, 1.9558, \n';
+    expect(parseEcbRatesCsv(csv)).toEqual({ date: '2026-10-16', rates: { USD: 1.0812, JPY: 162.51, BGN: 1.9558 } });
+  });
+
+  it('takes the newest row of the history file and skips missing values', () => {
+    const csv = [
+      'Date,USD,CYP,HUF',
+      '2026-10-14,1.0790,N/A,401.2',
+      '2026-10-16,1.0812,N/A,399.8',
+      '2026-10-15,1.0801,N/A,400.1',
+    ].join('\r\n');
+    expect(parseEcbRatesCsv(csv)).toEqual({ date: '2026-10-16', rates: { USD: 1.0812, HUF: 399.8 } });
+  });
+
+  it('ignores a byte order mark', () => {
+    expect(parseEcbRatesCsv('\uFEFFDate,USD\n2026-10-16,1.08').rates).toEqual({ USD: 1.08 });
+  });
+});
+
+describe('parseEcbRatesCsv — ECB Data Portal', () => {
+  it('keeps the latest observation per currency and the newest period as the date', () => {
+    const csv = [
+      'KEY,FREQ,CURRENCY,CURRENCY_DENOM,TIME_PERIOD,OBS_VALUE,TITLE',
+      'EXR.D.USD.EUR.SP00.A,D,USD,EUR,2026-10-15,1.0801,"US dollar/Euro, daily"',
+      'EXR.D.USD.EUR.SP00.A,D,USD,EUR,2026-10-16,1.0812,"US dollar/Euro, daily"',
+      'EXR.D.CZK.EUR.SP00.A,D,CZK,EUR,2026-10-15,24.95,"Czech koruna/Euro, daily"',
+      'EXR.D.CZK.EUR.SP00.A,D,CZK,EUR,2026-10-14,25.10,"Czech koruna/Euro, daily"',
+      'EXR.D.GBP.EUR.SP00.A,D,GBP,EUR,2026-10-16,,"UK pound sterling/Euro, daily"',
+    ].join('\n');
+    expect(parseEcbRatesCsv(csv)).toEqual({ date: '2026-10-16', rates: { USD: 1.0812, CZK: 24.95 } });
+  });
+
+  it('works without a TIME_PERIOD column', () => {
+    expect(parseEcbRatesCsv('CURRENCY,OBS_VALUE\nsek,11.2')).toEqual({ date: null, rates: { SEK: 11.2 } });
+  });
+});
+
+describe('parseEcbRatesCsv — errors', () => {
+  it('rejects files without data, of another layout or without rates', () => {
+    expect(() => parseEcbRatesCsv('Date,USD\n')).toThrow('CSV has no data rows');
+    expect(() => parseEcbRatesCsv('Name,Amount\nTravel,100')).toThrow('Unrecognized CSV format');
+    expect(() => parseEcbRatesCsv('Date,USD\nyesterday-ish,1.08')).toThrow('No dated rows found');
+    expect(() => parseEcbRatesCsv('Date,USD\n2026-10-16,N/A')).toThrow('No exchange rates found');
+    expect(() => parseEcbRatesCsv('CURRENCY,OBS_VALUE\nUSD,0')).toThrow('No exchange rates found');
+  });
+});
+
+describe('mergeEcbRates', () => {
+  const imported = { date: '2026-10-16', rates: { USD: 1.08, CZK: 24.95, HUF: 399.8 } };
+
+  it('updates rates in the table and adds only currencies in use', () => {
+    const current = [{ currency: 'usd', rate: 1.0, date: null, source: 'manual' as const }];
+    expect(mergeEcbRates(current, imported, ['CZK'])).toEqual([
+      { currency: 'CZK', rate: 24.95, date: '2026-10-16', source: 'ecb' },
+      { currency: 'usd', rate: 1.08, date: '2026-10-16', source: 'ecb' },
+    ]);
+  });
+
+  it('keeps rates the file does not contain and adds everything when asked', () => {
+    const current = [{ currency: 'SEK', rate: 11, date: null, source: 'manual' as const }];
+    expect(mergeEcbRates(current, imported, [], true).map((r) => [r.currency, r.source])).toEqual([
+      ['CZK', 'ecb'], ['HUF', 'ecb'], ['SEK', 'manual'], ['USD', 'ecb'],
+    ]);
+  });
+});
+
+describe('directCostAmountEur', () => {
+  const projectData = {
+    exchangeRates: { rates: [{ currency: 'CZK', rate: 25, date: null, source: 'manual' }, { currency: 'HUF', rate: 0, date: null, source: 'manual' }] },
+    activities: [{
+      id: 'WP1',
+      tasks: [{ id: 'T1', partnerAllocations: [{ partnerId: 'p1', directCosts: [{ amount: 100, currency: 'HUF' }, { amount: 5, currency: 'PLN' }] }] }],
+    }],
+  };
+
+  it('converts with the ECB convention and counts items without a usable rate as 0', () => {
+    expect(directCostAmountEur({ amount: 1000 }, projectData)).toBe(1000);
+    expect(directCostAmountEur({ amount: 1000, currency: 'czk' }, projectData)).toBe(40);
+    expect(directCostAmountEur({ amount: 1000, currency: 'HUF' }, projectData)).toBe(0);
+    expect(findMissingExchangeRates(projectData)).toEqual(['HUF', 'PLN']);
+  });
+});
@@ -0,0 +1,43 @@
+// tests/detectTextLanguage.test.ts
+// Slovenian vs Croatian — close languages sharing č, š, ž and many keywords
+
+import { describe, expect, it } from 'vitest';
+import { detectTextLanguage } from '../utils.ts';
+
+const HR = [
+  'Projekt će razviti zajednički pristup upravljanju kvalitetom voda u pograničnom području.',
+  'Glavni cilj je poboljšati suradnju između lokalnih dionika kroz radionice koje će se održati tijekom prve godine.',
+  'Rezultati projekta bit će također dostupni široj javnosti, što će osigurati održivost nakon završetka financiranja.',
+  'Partneri koji sudjeluju u provedbi odgovorni su za praćenje pokazatelja i izvještavanje voditelja projekta.',
+  'Procjena rizika provodi se svaka tri mjeseca, a mjere za ublažavanje uključene su u plan upravljanja.',
+];
+
+const SI = [
+  'Projekt bo razvil skupni pristop k upravljanju kakovosti voda na obmejnem območju.',
+  'Glavni cilj je izboljšati sodelovanje med lokalnimi deležniki z delavnicami, ki bodo potekale v prvem letu.',
+  'Rezultati projekta bodo dostopni tudi širši javnosti, kar bo zagotovilo trajnost po koncu financiranja.',
+  'Partnerji, ki sodelujejo pri izvedbi, so odgovorni za spremljanje kazalnikov in poročanje vodji projekta.',
+  'Ocena tveganj se izvaja vsake tri mesece, ukrepi za zmanjšanje pa so vključeni v načrt upravljanja.',
+];
+
+describe('detectTextLanguage — SI vs HR', () => {
+  it.each(HR)('detects Croatian among [si, hr]: %s', (text) => {
+    expect(detectTextLanguage(text, ['si', 'hr'])).toBe('hr');
+  });
+
+  it.each(SI)('detects Slovenian among [si, hr]: %s', (text) => {
+    expect(detectTextLanguage(text, ['si', 'hr'])).toBe('si');
+  });
+
+  it.each(HR)('detects Croatian among all languages: %s', (text) => {
+    expect(detectTextLanguage(text)).toBe('hr');
+  });
+
+  it.each(SI)('detects Slovenian among all languages: %s', (text) => {
+    expect(detectTextLanguage(text)).toBe('si');
+  });
+
+  it('still tells English apart', () => {
+    expect(detectTextLanguage('The project will develop a joint approach to water quality management.')).toBe('en');
+  });
+});
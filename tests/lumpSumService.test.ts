@@ -0,0 +1,103 @@
+// tests/lumpSumService.test.ts
+// Detailed cost estimate regrouped into the lump-sum table: cost groups, shares per WP × partner
+
+import { describe, expect, it } from 'vitest';
+import { checkLumpSumCompletion, computeLumpSumBreakdown } from '../services/lumpSumService.ts';
+
+const cost = (categoryKey: string, amount: number) => ({ categoryKey, amount });
+
+const project = (wpLumpSums: any[] = [{}, {}]) => ({
+  fundingModel: 'centralized',
+  budgetMode: 'lumpSum',
+  indirectCostSettings: { percentage: 10, appliesToCategories: ['labourCosts'] },
+  partners: [
+    { id: 'p1', code: 'P1', name: 'Lead', fundingRate: 80 },
+    { id: 'p2', code: 'P2', name: 'Second' },
+  ],
+  activities: [
+    {
+      id: 'WP1', title: 'Research',
+      deliverables: [{ id: 'D1.1', title: 'Report', indicator: 'Published' }, { id: 'D1.2', title: 'Dataset', indicator: '' }],
+      lumpSum: wpLumpSums[0],
+      tasks: [{
+        id: 'T1.1',
+        partnerAllocations: [
+          { partnerId: 'p1', pm: 0, directCosts: [cost('labourCosts', 1000), cost('travelCosts', 200)] },
+          { partnerId: 'p2', pm: 2, directCosts: [cost('subContractorCosts', 500)] },
+        ],
+      }],
+    },
+    {
+      id: 'WP2', title: 'Pilots',
+      lumpSum: wpLumpSums[1],
+      tasks: [{
+        id: 'T2.1',
+        partnerAllocations: [
+          { partnerId: 'p1', pm: 0, directCosts: [cost('materials', 300), cost('unknownCategory', 50)] },
+          { partnerId: 'p9', pm: 0, directCosts: [cost('labourCosts', 100)] },
+        ],
+      }],
+    },
+  ],
+});
+
+describe('computeLumpSumBreakdown — detailed budget table', () => {
+  const { partners, totals } = computeLumpSumBreakdown(project());
+  const line = (id: string) => partners.find((p) => p.partnerId === id)!;
+
+  it('sorts direct costs into cost groups and indirect costs into E', () => {
+    expect(line('p1').groups).toEqual({ A: 1000, B: 0, C1: 200, C2: 0, C3: 300, D: 50, E: 100 });
+    expect(line('p1').estimatedCost).toBe(1650);
+  });
+
+  it('applies the partner funding rate, or the programme default when none is set', () => {
+    expect([line('p1').fundingRate, line('p1').maxContribution]).toEqual([80, 1320]);
+    expect([line('p2').fundingRate, line('p2').maxContribution]).toEqual([85, 425]);
+  });
+
+  it('adds allocations of unknown partners as their own line after the project partners', () => {
+    expect(partners.map((p) => p.partnerId)).toEqual(['p1', 'p2', 'p9']);
+    expect(line('p9')).toMatchObject({ code: '?', fundingRate: 85, estimatedCost: 110, maxContribution: 94 });
+  });
+
+  it('totals every column', () => {
+    expect(totals).toMatchObject({ pm: 2, estimatedCost: 2260, maxContribution: 1839 });
+    expect(totals.groups).toEqual({ A: 1100, B: 500, C1: 200, C2: 0, C3: 300, D: 50, E: 110 });
+  });
+});
+
+describe('computeLumpSumBreakdown — lump shares', () => {
+  it('suggests ROUND(estimated cost × funding rate) per WP and partner', () => {
+    const { workPackages, totals } = computeLumpSumBreakdown(project());
+    expect(workPackages.map((wp) => wp.cells.map((c) => c.share))).toEqual([[1040, 425, 0], [280, 0, 94]]);
+    expect(workPackages.map((wp) => wp.total)).toEqual([1465, 374]);
+    expect(totals.lumpSum).toBe(1839);
+  });
+
+  it('lets a stored share override the suggestion, including 0', () => {
+    const { workPackages, partners } = computeLumpSumBreakdown(project([{ shares: { p2: 400 } }, { shares: { p9: 0 } }]));
+    expect(workPackages[0].cells[1]).toEqual({ partnerId: 'p2', estimatedCost: 500, suggestedShare: 425, share: 400, overridden: true });
+    expect(workPackages[1].cells[2]).toMatchObject({ suggestedShare: 94, share: 0, overridden: true });
+    expect(workPackages[0].cells[0].overridden).toBe(false);
+    expect(partners.map((p) => p.lumpSum)).toEqual([1320, 400, 0]);
+  });
+
+  it('lists the selected completion deliverables that still exist, in selection order', () => {
+    const { workPackages } = computeLumpSumBreakdown(project([{ completionDeliverables: ['D1.2', 'D9', 'D1.1'], completionCriteria: 'Accepted' }, {}]));
+    expect(workPackages[0].completionDeliverables.map((d) => d.id)).toEqual(['D1.2', 'D1.1']);
+    expect(workPackages[0].completionCriteria).toBe('Accepted');
+    expect(workPackages[1].completionDeliverables).toEqual([]);
+  });
+});
+
+describe('checkLumpSumCompletion', () => {
+  it('blocks WPs without a completion deliverable and warns about stale or unverifiable ones', () => {
+    const issues = checkLumpSumCompletion(project([{ completionDeliverables: ['D1.2', 'D9'] }, { shares: { p1: 0, p9: 0 } }]));
+    expect(issues.map((i) => [i.severity, i.wpId])).toEqual([
+      ['warning', 'WP1'],   // D9 no longer exists
+      ['warning', 'WP1'],   // D1.2 has no indicator
+      ['error', 'WP2'],     // nothing selected
+      ['warning', 'WP2'],   // no lump share
+    ]);
+  });
+});
@@ -0,0 +1,32 @@
+// @vitest-environment jsdom
+// tests/msProjectXmlService.test.ts
+// PredecessorLink Type of a file saved by MS Project (0 = FF, 1 = FS, 2 = SF, 3 = SS)
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { parseMsProjectXml } from '../services/msProjectXmlService.ts';
+
+const fixture = readFileSync(path.join(__dirname, 'fixtures', 'msproject-ff-ss.xml'), 'utf-8');
+
+describe('parseMsProjectXml', () => {
+  const items = parseMsProjectXml(fixture);
+  const byUid = (uid: string) => items.find((i) => i.uid === uid)!;
+
+  it('skips the project summary task and reads the WP and its tasks', () => {
+    expect(items.map((i) => [i.uid, i.kind])).toEqual([['1', 'wp'], ['2', 'task'], ['3', 'task'], ['4', 'task'], ['5', 'task']]);
+    expect(byUid('3').parentUid).toBe('1');
+  });
+
+  it('reads Type 3 as start-to-start with its lag', () => {
+    expect(byUid('3').predecessors).toEqual([{ uid: '2', type: 'SS', lag: 5, lagUnit: 'days' }]);
+  });
+
+  it('reads Type 0 as finish-to-finish', () => {
+    expect(byUid('4').predecessors).toEqual([{ uid: '3', type: 'FF', lag: 0, lagUnit: 'days' }]);
+  });
+
+  it('reads Type 1 and 2 as finish-to-start and start-to-finish', () => {
+    expect(byUid('5').predecessors.map((p) => p.type)).toEqual(['FS', 'SF']);
+  });
+});
@@ -0,0 +1,28 @@
+// tests/qualityGateValidator.test.ts
+// emptyFields is FATAL (auto-retry) — only missing prose may trigger it
+
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../services/Instructions.ts', () => ({ getBannedAIPhrases: () => [] }));
+
+import { validateSectionQuality } from '../services/qualityGateValidator.ts';
+
+const emptyFieldPaths = (sectionKey: string, data: any) =>
+  validateSectionQuality(sectionKey, {}, data).findings
+    .filter((f) => f.gateId === 'emptyFields' && !f.passed)
+    .map((f) => f.path);
+
+describe('validateSectionQuality — emptyFields', () => {
+  it('ignores empty ids, dates and enum keys', () => {
+    const risks = [{ id: '', category: '', title: 'Delay', description: 'Partner leaves', likelihood: '', impact: 'high', mitigation: 'Backup partner' }];
+    expect(emptyFieldPaths('risks', risks)).toEqual([]);
+  });
+
+  it('still flags empty and placeholder prose', () => {
+    const kers = [
+      { id: 'KER1', title: '', description: 'N/A', exploitationStrategy: 'Licensing' },
+      { id: '', title: 'Toolkit', description: '[AI did not generate this field]', exploitationStrategy: 'Open access' },
+    ];
+    expect(emptyFieldPaths('kers', kers)).toEqual(['kers[0].title', 'kers[0].description', 'kers[1].description']);
+  });
+});
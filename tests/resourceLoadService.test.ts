@@ -0,0 +1,102 @@
+// tests/resourceLoadService.test.ts
+// Partner PM spread over task months by calendar days; over-allocation against fteCapacity
+
+import { describe, expect, it } from 'vitest';
+import { buildResourceLoad, getPartnerCapacity } from '../services/resourceLoadService.ts';
+
+const partner = (id: string, extra: any = {}) => ({ id, code: id.toUpperCase(), name: `Partner ${id}`, ...extra });
+const task = (id: string, startDate: any, endDate: any, allocations: [string, number][]) => ({
+  id, title: `Task ${id}`, startDate, endDate,
+  partnerAllocations: allocations.map(([partnerId, pm]) => ({ partnerId, pm })),
+});
+const project = (partners: any[], tasks: any[], projectIdea: any = {}) =>
+  ({ projectIdea, partners, activities: [{ id: 'WP1', tasks }] });
+
+describe('buildResourceLoad — spreading', () => {
+  it('spreads PM over the months in proportion to the calendar days in each', () => {
+    // 1 Jan – 31 Mar 2026 = 31 + 28 + 31 days
+    const load = buildResourceLoad(project([partner('p1', { fteCapacity: 4 })], [task('T1', '2026-01-01', '2026-03-31', [['p1', 9]])]));
+    expect(load.months).toEqual(['2026-01', '2026-02', '2026-03']);
+    const [jan, feb, mar] = load.partners[0].monthly;
+    expect(jan).toBeCloseTo(9 * 31 / 90);
+    expect(feb).toBeCloseTo(9 * 28 / 90);
+    expect(mar).toBeCloseTo(9 * 31 / 90);
+    expect(load.partners[0].totalPm).toBe(9);
+    expect(load.overAllocations).toEqual([]);
+  });
+
+  it('counts a one-day task fully in its month', () => {
+    const load = buildResourceLoad(project([partner('p1')], [task('T1', '2026-02-28', '2026-02-28', [['p1', 0.5]])]));
+    expect(load.months).toEqual(['2026-02']);
+    expect(load.partners[0].monthly).toEqual([0.5]);
+  });
+
+  it('covers the whole project envelope, extended by tasks outside it', () => {
+    const load = buildResourceLoad(project(
+      [partner('p1')],
+      [task('T1', '2026-04-10', '2026-04-20', [['p1', 0.2]])],
+      { startDate: '2026-01-01', durationMonths: 3 }
+    ));
+    expect(load.months).toEqual(['2026-01', '2026-02', '2026-03', '2026-04']);
+    expect(load.partners[0].monthly).toEqual([0, 0, 0, 0.2]);
+  });
+
+  it('reports PM of undated or inverted tasks as unscheduled', () => {
+    const load = buildResourceLoad(project([partner('p1')], [
+      task('T1', '', '', [['p1', 2]]),
+      task('T2', '2026-05-01', '2026-04-01', [['p1', 1]]),
+      task('T3', '2026-01-01', '2026-01-31', [['p1', 0.5]]),
+    ]));
+    expect(load.unscheduledPm).toBe(3);
+    expect(load.partners[0].totalPm).toBe(3.5);
+    expect(load.months).toEqual(['2026-01']);
+  });
+
+  it('ignores allocations to unknown partners and without PM', () => {
+    const load = buildResourceLoad(project([partner('p1')], [
+      task('T1', '2026-01-01', '2026-01-31', [['p9', 4], ['p1', 0], ['p1', -1]]),
+    ]));
+    expect(load.partners[0].totalPm).toBe(0);
+    expect(load.partners[0].monthly).toEqual([0]);
+    expect(load.unscheduledPm).toBe(0);
+  });
+
+  it('returns an empty load for a project without partners or activities', () => {
+    expect(buildResourceLoad({})).toEqual({ months: [], partners: [], overAllocations: [], unscheduledPm: 0 });
+  });
+});
+
+describe('buildResourceLoad — over-allocation', () => {
+  it('flags months above capacity with the contributing tasks, largest first', () => {
+    const load = buildResourceLoad(project([partner('p1')], [
+      task('T1', '2026-01-01', '2026-01-31', [['p1', 0.5]]),
+      task('T2', '2026-01-01', '2026-01-31', [['p1', 0.75]]),
+    ]));
+    expect(load.overAllocations).toHaveLength(1);
+    const over = load.overAllocations[0];
+    expect(over).toMatchObject({ partnerId: 'p1', code: 'P1', monthIndex: 0, load: 1.25, capacity: 1 });
+    expect(over.tasks.map((t) => [t.taskId, t.pm])).toEqual([['T2', 0.75], ['T1', 0.5]]);
+  });
+
+  it('does not flag a load within the rounding tolerance of the capacity', () => {
+    const load = buildResourceLoad(project([partner('p1')], [task('T1', '2026-01-01', '2026-01-31', [['p1', 1.004]])]));
+    expect(load.overAllocations).toEqual([]);
+  });
+
+  it('treats a capacity of 0 as not available', () => {
+    const load = buildResourceLoad(project([partner('p1', { fteCapacity: 0 })], [task('T1', '2026-01-01', '2026-01-31', [['p1', 0.1]])]));
+    expect(load.partners[0].capacity).toBe(0);
+    expect(load.overAllocations.map((o) => o.monthIndex)).toEqual([0]);
+  });
+});
+
+describe('getPartnerCapacity', () => {
+  it('falls back to 1 FTE only for a missing or invalid capacity', () => {
+    expect(getPartnerCapacity({})).toBe(1);
+    expect(getPartnerCapacity({ fteCapacity: '' })).toBe(1);
+    expect(getPartnerCapacity({ fteCapacity: 'abc' })).toBe(1);
+    expect(getPartnerCapacity({ fteCapacity: -1 })).toBe(1);
+    expect(getPartnerCapacity({ fteCapacity: 0 })).toBe(0);
+    expect(getPartnerCapacity({ fteCapacity: '0.5' })).toBe(0.5);
+  });
+});
@@ -0,0 +1,275 @@
+// tests/translationDiffService.test.ts
+// Translation into an existing target-language version — what is sent to
+// the translator and which structure is copied from the source
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { aiCalls, savedHashes, deletedHashes, fake } = vi.hoisted(() => ({
+  aiCalls: [] as string[],
+  savedHashes: [] as string[],
+  deletedHashes: [] as string[],
+  fake: {
+    // value → translation; batch = false for the single-field retry prompt
+    translate: (value: string, _batch: boolean): string => `${value} (si)`,
+    glossary: [] as any[],
+  },
+}));
+
+vi.mock('../services/supabaseClient.ts', () => {
+  const query: any = {
+    select: () => query,
+    delete: () => query,
+    eq: () => query,
+    in: async (_column: string, paths: string[]) => {
+      deletedHashes.push(...paths);
+      return { error: null };
+    },
+    then: (resolve: any) => resolve({ data: [], error: null }),
+    upsert: async (rows: any[]) => {
+      savedHashes.push(...rows.map((r) => r.field_path));
+      return { error: null };
+    },
+  };
+  return { supabase: { from: () => query } };
+});
+
+vi.mock('../services/aiProvider.ts', () => ({
+  generateContent: async ({ prompt }: { prompt: string }) => {
+    aiCalls.push(prompt);
+    if (!prompt.includes('TRANSLATE THIS JSON')) {
+      return { text: fake.translate(prompt.split('TEXT TO TRANSLATE:\n')[1], false) };
+    }
+    const json = JSON.parse(prompt.slice(prompt.lastIndexOf('TRANSLATE THIS JSON')).replace(/^[^\n]*\n/, ''));
+    const out: Record<string, string> = {};
+    Object.entries(json).forEach(([key, value]) => { out[key] = fake.translate(value as string, true); });
+    return { text: JSON.stringify(out) };
+  },
+}));
+
+vi.mock('../services/storageService.ts', () => ({ storageService: {} }));
+vi.mock('../services/organizationService.ts', () => ({ organizationService: {} }));
+vi.mock('../services/errorLogService.ts', () => ({ logErrorQuick: () => {} }));
+vi.mock('../services/Instructions.ts', () => ({ getTranslationRules: () => [] }));
+vi.mock('../services/glossaryService.ts', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../services/glossaryService.ts')>()),
+  glossaryService: { getEffectiveGlossary: async () => fake.glossary },
+}));
+
+import { flattenTranslatableFields, smartTranslateProject } from '../services/translationDiffService.ts';
+
+const task = (id: string, title: string, dependencies: any[] = []) => ({
+  id, title, description: '', startDate: '2026-01-01', endDate: '2026-02-01', dependencies,
+});
+
+const sourceProject = () => ({
+  scheduleCalendar: 'workingDays',
+  activities: [{
+    id: 'WP1',
+    title: 'Pilot',
+    tasks: [
+      task('T1.1', 'Survey'),
+      task('T1.2', 'Analysis', [{ predecessorId: 'T1.1', type: 'FS', lag: 2, lagUnit: 'months' }]),
+      task('T1.3', 'Report', [{ predecessorId: 'T1.2', type: 'SS', lag: -5, lagUnit: 'days' }]),
+    ],
+    milestones: [],
+    deliverables: [],
+  }],
+});
+
+// Earlier SI version: old lags, calendar and titles
+const existingTarget = () => ({
+  scheduleCalendar: 'calendarDays',
+  activities: [{
+    id: 'WP1',
+    title: 'Pilot SI',
+    tasks: [
+      task('T1.1', 'Anketa'),
+      task('T1.2', 'Analiza', [{ predecessorId: 'T1.1', type: 'FS', lag: 0, lagUnit: 'days' }]),
+      task('T1.3', 'Poročilo', [{ predecessorId: 'T1.2', type: 'SS' }]),
+    ],
+    milestones: [],
+    deliverables: [],
+  }],
+});
+
+const translate = (source: any, target: any) => smartTranslateProject(source, 'si', target, 'p1', false, 'en');
+
+beforeEach(() => {
+  aiCalls.length = 0;
+  savedHashes.length = 0;
+  deletedHashes.length = 0;
+  fake.translate = (value) => `${value} (si)`;
+  fake.glossary = [];
+});
+
+describe('smartTranslateProject — schedule settings', () => {
+  it('does not flatten lagUnit or scheduleCalendar as translatable text', () => {
+    const paths = flattenTranslatableFields(sourceProject()).map((f) => f.path);
+    expect(paths.some((p) => /lagUnit|scheduleCalendar|\.lag$/.test(p))).toBe(false);
+  });
+
+  it('copies lags, lag units and the calendar into the existing target version', async () => {
+    const { translatedData } = await translate(sourceProject(), existingTarget());
+    expect(translatedData.scheduleCalendar).toBe('workingDays');
+    expect(translatedData.activities[0].tasks.map((t: any) => t.dependencies)).toEqual([
+      [],
+      [{ predecessorId: 'T1.1', type: 'FS', lag: 2, lagUnit: 'months' }],
+      [{ predecessorId: 'T1.2', type: 'SS', lag: -5, lagUnit: 'days' }],
+    ]);
+    expect(translatedData.activities[0].tasks[1].title).toBe('Analysis (si)');
+    expect(aiCalls.join('\n')).not.toMatch(/months|workingDays/);
+  });
+});
+
+describe('smartTranslateProject — lump sum', () => {
+  const withLumpSum = (project: any, lumpSum: any, budgetMode: string) => {
+    project.budgetMode = budgetMode;
+    project.activities[0].lumpSum = lumpSum;
+    return project;
+  };
+
+  it('translates only the completion criteria and copies mode, shares and deliverable ids', async () => {
+    const source = withLumpSum(sourceProject(), {
+      shares: { p1: 12000, p2: 8000 },
+      completionDeliverables: ['D1.1', 'D1.2'],
+      completionCriteria: 'Report approved',
+    }, 'lumpSum');
+    const target = withLumpSum(existingTarget(), {
+      shares: { p1: 5000 },
+      completionDeliverables: ['D1.1'],
+      completionCriteria: 'Poročilo',
+    }, 'actualCosts');
+
+    const paths = flattenTranslatableFields(source).map((f) => f.path);
+    expect(paths.filter((p) => p.includes('lumpSum') || p === 'budgetMode')).toEqual(['activities[0].lumpSum.completionCriteria']);
+
+    const { translatedData } = await translate(source, target);
+    expect(translatedData.budgetMode).toBe('lumpSum');
+    expect(translatedData.activities[0].lumpSum).toEqual({
+      shares: { p1: 12000, p2: 8000 },
+      completionDeliverables: ['D1.1', 'D1.2'],
+      completionCriteria: 'Report approved (si)',
+    });
+  });
+});
+
+describe('smartTranslateProject — currencies', () => {
+  const withCosts = (project: any, currency: string, rates: any[]) => {
+    project.activities[0].tasks[0].partnerAllocations = [{
+      partnerId: 'p1', hours: 0, pm: 0, totalDirectCost: 1000, totalCost: 1000,
+      directCosts: [{ id: 'dc1', categoryKey: 'travel', name: 'Flights', amount: 4300, currency }],
+    }];
+    project.exchangeRates = { rates };
+    return project;
+  };
+
+  it('copies currency codes and rate entries with their numbers', async () => {
+    const rates = [
+      { currency: 'PLN', rate: 4.3, date: '2026-01-02', source: 'ecb' },
+      { currency: 'USD', rate: 1.1, date: null, source: 'manual' },
+    ];
+    const source = withCosts(sourceProject(), 'PLN', rates);
+    const target = withCosts(existingTarget(), 'EUR', [{ date: '2026-01-01' }]);
+
+    const paths = flattenTranslatableFields(source).map((f) => f.path);
+    expect(paths.filter((p) => /currency|exchangeRates/.test(p))).toEqual([]);
+
+    const { translatedData } = await translate(source, target);
+    expect(translatedData.exchangeRates).toEqual({ rates });
+    expect(translatedData.activities[0].tasks[0].partnerAllocations[0].directCosts[0].currency).toBe('PLN');
+    expect(aiCalls.join('\n')).not.toMatch(/PLN|manual|ecb/);
+  });
+});
+
+describe('smartTranslateProject — budget rules', () => {
+  it('copies the budget rules unchanged and sends none of them to the translator', async () => {
+    const budgetRules = {
+      presetId: 'interreg',
+      rules: [
+        { id: 'r1', type: 'maxShare', enabled: true, severity: 'warning', scope: 'partner', categories: ['travel'], baseCategories: [], percentage: 15 },
+        { id: 'r2', type: 'indirectRate', enabled: false, severity: 'error', baseCategories: ['labour', 'subContractor'], percentage: 7 },
+      ],
+    };
+    const source = { ...sourceProject(), budgetRules };
+    const target = { ...existingTarget(), budgetRules: { presetId: null, rules: [{ id: 'r1', type: 'maxAmount', enabled: true, severity: 'error' }] } };
+
+    const paths = flattenTranslatableFields(source).map((f) => f.path);
+    expect(paths.filter((p) => p.startsWith('budgetRules'))).toEqual([]);
+
+    const { translatedData } = await translate(source, target);
+    expect(translatedData.budgetRules).toEqual(budgetRules);
+  });
+});
+
+describe('smartTranslateProject — partner settings', () => {
+  it('copies the partner funding rates and FTE capacities into the target version', async () => {
+    const source = { ...sourceProject(), partners: [{ id: 'p1', code: 'CO', name: 'Uni', expertise: '', pmRate: 5000, fundingRate: 80, fteCapacity: 0 }] };
+    const target = { ...existingTarget(), partners: [{ id: 'p1', code: 'KO', name: 'Uni', expertise: '', pmRate: 5000, fundingRate: 100, fteCapacity: 2 }] };
+
+    const { translatedData } = await translate(source, target);
+    expect(translatedData.partners[0].fundingRate).toBe(80);
+    expect(translatedData.partners[0].fteCapacity).toBe(0);
+  });
+});
+
+describe('smartTranslateProject — schedule baselines', () => {
+  it('copies baselines and the active baseline id without translating them', async () => {
+    const scheduleBaselines = [{
+      id: 'baseline-1', name: 'Submitted', createdAt: '2026-03-01T10:00:00.000Z',
+      tasks: { 'T1.1': { startDate: '2026-01-01', endDate: '2026-02-01' } },
+      milestones: {},
+    }];
+    const source = { ...sourceProject(), scheduleBaselines, activeBaselineId: 'baseline-1' };
+    const target = { ...existingTarget(), scheduleBaselines: [], activeBaselineId: null };
+
+    const paths = flattenTranslatableFields(source).map((f) => f.path);
+    expect(paths.filter((p) => /baseline/i.test(p))).toEqual([]);
+
+    const { translatedData } = await translate(source, target);
+    expect(translatedData.scheduleBaselines).toEqual(scheduleBaselines);
+    expect(translatedData.activeBaselineId).toBe('baseline-1');
+  });
+});
+
+describe('smartTranslateProject — glossary retry', () => {
+  const SOURCE = 'The survey collects answers from all partner organisations';
+  const BATCH_SI = 'Vprašalnik zbira odgovore vseh partnerskih organizacij, ki sodelujejo';
+  const project = (description: string) => {
+    const p = sourceProject();
+    p.activities[0].tasks[0].description = description;
+    return p;
+  };
+  const PATH = 'activities[0].tasks[0].description';
+
+  beforeEach(() => {
+    fake.glossary = [{ sourceTerm: 'answers', targetTerm: 'odzivi', doNotTranslate: false, scope: 'project' }];
+  });
+
+  it('keeps the batch translation when the retry comes back in the source language', async () => {
+    fake.translate = (value, batch) => value !== SOURCE ? `${value} (si)`
+      : batch ? BATCH_SI : 'The survey collects the replies of all partner organisations';
+
+    const { translatedData, glossaryReport } = await translate(project(SOURCE), existingTarget());
+    expect(translatedData.activities[0].tasks[0].description).toBe(BATCH_SI);
+    expect(glossaryReport.map((v) => v.fieldPath)).toEqual([PATH]);
+  }, 10000);
+
+  it('does not store a hash for a field that still violates the glossary', async () => {
+    fake.translate = (value) => value === SOURCE ? BATCH_SI : `${value} (si)`;
+
+    await translate(project(SOURCE), existingTarget());
+    expect(savedHashes).not.toContain(PATH);
+    expect(savedHashes).toContain('activities[0].tasks[1].title');
+    expect(deletedHashes).toEqual([PATH]);
+  }, 10000);
+
+  it('takes the retry when it uses the glossary term', async () => {
+    const RETRY_SI = 'Vprašalnik zbira odzive vseh partnerskih organizacij, ki sodelujejo';
+    fake.translate = (value, batch) => value !== SOURCE ? `${value} (si)` : batch ? BATCH_SI : RETRY_SI;
+
+    const { translatedData, glossaryReport } = await translate(project(SOURCE), existingTarget());
+    expect(translatedData.activities[0].tasks[0].description).toBe(RETRY_SI);
+    expect(glossaryReport).toEqual([]);
+    expect(savedHashes).toContain(PATH);
+  }, 10000);
+});
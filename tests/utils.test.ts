@@ -0,0 +1,157 @@
+// tests/utils.test.ts
+// Scheduler: lag / lead per dependency type and the three schedule calendars;
+// dependency loops reported as task-id chains
+
+import { describe, expect, it } from 'vitest';
+import { findDependencyCycles, recalculateProjectSchedule, wouldCreateCycle } from '../utils.ts';
+
+// One WP only, so the PM / dissemination WP envelope rules do not apply
+const schedule = (tasks: any[], extra: any = {}) => {
+  const result = recalculateProjectSchedule({ activities: [{ id: 'WP1', tasks }], ...extra });
+  const dates = Object.fromEntries(
+    result.projectData.activities[0].tasks.map((t: any) => [t.id, [t.startDate, t.endDate]])
+  );
+  return { ...result, dates };
+};
+
+// Mon 2 – Fri 6 March 2026
+const T1 = { id: 'T1', startDate: '2026-03-02', endDate: '2026-03-06' };
+const dependent = (dep: any, startDate = '2026-03-01', endDate = '2026-03-03') =>
+  ({ id: 'T2', startDate, endDate, dependencies: [{ predecessorId: 'T1', type: 'FS', ...dep }] });
+
+describe('recalculateProjectSchedule — calendar days', () => {
+  it('starts a finish-to-start successor the day after and keeps its duration', () => {
+    const { dates, warnings } = schedule([T1, dependent({})]);
+    expect(dates.T2).toEqual(['2026-03-07', '2026-03-09']);
+    expect(warnings).toEqual([]);
+  });
+
+  it('adds a lag in days and pulls the successor in with a lead', () => {
+    expect(schedule([T1, dependent({ lag: 3 })]).dates.T2).toEqual(['2026-03-10', '2026-03-12']);
+    expect(schedule([T1, dependent({ lag: -2 })]).dates.T2).toEqual(['2026-03-05', '2026-03-07']);
+  });
+
+  it('adds a lag in months', () => {
+    expect(schedule([T1, dependent({ lag: 1, lagUnit: 'months' })]).dates.T2).toEqual(['2026-04-07', '2026-04-09']);
+  });
+
+  it('handles start-to-start and finish-to-finish', () => {
+    expect(schedule([T1, dependent({ type: 'SS', lag: 2 })]).dates.T2).toEqual(['2026-03-04', '2026-03-06']);
+    expect(schedule([T1, dependent({ type: 'FF' })]).dates.T2).toEqual(['2026-03-04', '2026-03-06']);
+  });
+
+  it('takes the latest constraint when a task has several predecessors', () => {
+    const T3 = { id: 'T3', startDate: '2026-03-05', endDate: '2026-03-10' };
+    const T2 = { ...dependent({}), dependencies: [{ predecessorId: 'T1', type: 'FS' }, { predecessorId: 'T3', type: 'FS' }] };
+    expect(schedule([T1, T3, T2]).dates.T2).toEqual(['2026-03-11', '2026-03-13']);
+  });
+
+  it('never moves a successor earlier than it already starts', () => {
+    expect(schedule([T1, dependent({}, '2026-03-20', '2026-03-22')]).dates.T2).toEqual(['2026-03-20', '2026-03-22']);
+  });
+});
+
+describe('recalculateProjectSchedule — working days', () => {
+  const workingDays = { scheduleCalendar: 'workingDays' };
+
+  it('skips the weekend after a Friday finish', () => {
+    expect(schedule([T1, dependent({}, '2026-03-02', '2026-03-04')], workingDays).dates.T2).toEqual(['2026-03-09', '2026-03-11']);
+  });
+
+  it('counts day lags in working days', () => {
+    expect(schedule([T1, dependent({ lag: 1 }, '2026-03-02', '2026-03-04')], workingDays).dates.T2).toEqual(['2026-03-10', '2026-03-12']);
+  });
+
+  it('moves a task that lies on a weekend to the next Monday', () => {
+    const { dates } = schedule([{ id: 'T1', startDate: '2026-03-07', endDate: '2026-03-08' }], workingDays);
+    expect(dates.T1).toEqual(['2026-03-09', '2026-03-09']);
+  });
+});
+
+describe('recalculateProjectSchedule — project months', () => {
+  it('snaps tasks to whole project months and shifts by month lags', () => {
+    const { dates } = schedule(
+      [
+        { id: 'T1', startDate: '2026-01-01', endDate: '2026-01-31' },
+        dependent({ lag: 2, lagUnit: 'months' }, '2026-01-10', '2026-02-20'),
+      ],
+      { scheduleCalendar: 'months', projectIdea: { startDate: '2026-01-01', durationMonths: 36 } }
+    );
+    // T2 spans two project months (M1–M2) and starts two months after M1
+    expect(dates.T2).toEqual(['2026-04-01', '2026-05-31']);
+  });
+});
+
+describe('recalculateProjectSchedule — invalid dependencies', () => {
+  it('ignores unknown predecessors and the dependency that closes a loop', () => {
+    const { dates, warnings, converged } = schedule([
+      { ...T1, dependencies: [{ predecessorId: 'T2', type: 'FS' }] },
+      dependent({}),
+      { id: 'T3', startDate: '2026-03-01', endDate: '2026-03-02', dependencies: [{ predecessorId: 'T9', type: 'FS' }] },
+    ]);
+    expect(converged).toBe(true);
+    expect(dates).toEqual({
+      T1: ['2026-03-02', '2026-03-06'],
+      T2: ['2026-03-07', '2026-03-09'],
+      T3: ['2026-03-01', '2026-03-02'],
+    });
+    expect(warnings).toHaveLength(2);
+    expect(warnings[0]).toContain('unknown predecessor "T9"');
+    expect(warnings[1]).toContain('Dependency cycle T1 → T2 → T1');
+  });
+});
+
+const task = (id: string, ...predecessors: string[]) =>
+  ({ id, dependencies: predecessors.map((predecessorId) => ({ predecessorId, type: 'FS' })) });
+
+describe('findDependencyCycles', () => {
+  it('finds nothing in an acyclic graph', () => {
+    expect(findDependencyCycles([task('A'), task('B', 'A'), task('C', 'B', 'A')])).toEqual([]);
+  });
+
+  it('reports a loop from its first task, ending with the closing dependency', () => {
+    // A depends on C closes A → B → C
+    expect(findDependencyCycles([task('A', 'C'), task('B', 'A'), task('C', 'B')])).toEqual([['A', 'B', 'C', 'A']]);
+  });
+
+  it('reports a task that depends on itself', () => {
+    expect(findDependencyCycles([task('A', 'A')])).toEqual([['A', 'A']]);
+  });
+
+  it('reports separate loops and ignores unknown predecessors', () => {
+    const tasks = [task('A', 'B'), task('B', 'A'), task('C', 'D'), task('D', 'C'), task('E', 'X')];
+    expect(findDependencyCycles(tasks)).toEqual([['A', 'B', 'A'], ['C', 'D', 'C']]);
+  });
+
+  it('reports overlapping loops so removing every closing dependency breaks them all', () => {
+    const tasks = [task('A', 'B'), task('B', 'A', 'C'), task('C', 'B')];
+    const cycles = findDependencyCycles(tasks);
+    expect(cycles).toEqual([['A', 'B', 'A'], ['B', 'C', 'B']]);
+
+    const closing = new Set(cycles.map((c) => `${c[c.length - 2]}>${c[c.length - 1]}`));
+    const pruned = tasks.map((t) => ({
+      ...t,
+      dependencies: t.dependencies.filter((d) => !closing.has(`${d.predecessorId}>${t.id}`)),
+    }));
+    expect(findDependencyCycles(pruned)).toEqual([]);
+  });
+
+  it('copes with missing tasks, ids and dependency lists', () => {
+    expect(findDependencyCycles(undefined as any)).toEqual([]);
+    expect(findDependencyCycles([{ dependencies: [{ predecessorId: 'A' }] }, { id: 'A' }])).toEqual([]);
+  });
+});
+
+describe('wouldCreateCycle', () => {
+  const chain = [task('A'), task('B', 'A'), task('C', 'B')];
+
+  it('returns the chain a new dependency would close', () => {
+    expect(wouldCreateCycle(chain, 'A', 'C')).toEqual(['A', 'B', 'C', 'A']);
+    expect(wouldCreateCycle(chain, 'A', 'A')).toEqual(['A', 'A']);
+  });
+
+  it('returns null for a dependency that keeps the graph acyclic', () => {
+    expect(wouldCreateCycle(chain, 'C', 'A')).toBeNull();
+    expect(wouldCreateCycle([...chain, task('D')], 'D', 'C')).toBeNull();
+  });
+});
@@ -1,6 +1,22 @@
 // types.ts
 // ═══════════════════════════════════════════════════════════════
 // TypeScript type definitions for the EU Project Idea Draft app.
+// v7.13 — 2026-03-07 — NEW: DirectCostItem.currency, ExchangeRate / ExchangeRateSettings (ProjectData.exchangeRates)
+// v7.12 — 2026-03-07 — NEW: UnitCostRate (unit_cost_rates catalogue), DirectCostItem.unitCost (units × rate snapshot)
+// v7.11 — 2026-03-07 — NEW: BudgetMode (ProjectData.budgetMode), WorkPackageLumpSum (WorkPackage.lumpSum: lump shares
+//   per partner + completion deliverables)
+// v7.10 — 2026-03-07 — NEW: ProjectPartner.fundingRate (co-financing rate, % of partner costs requested from the programme)
+// v7.9 — 2026-03-07 — NEW: BudgetRule / BudgetRuleSettings (ProjectData.budgetRules, programme budget constraints)
+// v7.8 — 2026-03-07 — NEW: GanttExportSettings (ProjectData.ganttExport, paginated Gantt in print / DOCX)
+// v7.7 — 2026-03-07 — NEW: DurationEstimate (Task.estimate, three-point PERT); PERTTask expected
+//   duration / variance / criticality index
+// v7.6 — 2026-03-07 — NEW: ScheduleBaseline (ProjectData.scheduleBaselines / activeBaselineId)
+// v7.5 — 2026-03-07 — NEW: ProjectPartner.fteCapacity (monthly FTE capacity for the resource loading view)
+// v7.4 — 2026-03-07 — NEW: TaskDependency.lag / lagUnit, ScheduleCalendar (ProjectData.scheduleCalendar)
+// v7.3 — 2026-03-07 — NEW: GlossaryEntry / GlossaryViolation (translation_glossary termbase)
+// v7.2 — 2026-03-07 — NEW: LanguageCode (languages.ts registry); ProjectMeta.language and
+//   ProjectVersionSnapshot no longer limited to en/si
+// v7.1 — 2026-03-07 — NEW: ProjectVersion / ProjectVersionSnapshot (project_versions history)
 // v7.0 — 2026-02-22 — CHANGES:
 //   - ★ v7.0: BREAKING CHANGES for Finance/Partners refactor:
 //     → FIX: "Potovalni stroški" → "Potni stroški"
@@ -23,6 +39,8 @@ export const PM_HOURS_PER_MONTH = 143;
 // ─── FUNDING MODEL ───────────────────────────────────────────────
 export type FundingModel = 'centralized' | 'decentralized';
 export type CostModelType = 'actual' | 'unit' | 'lumpSum' | 'flatRate';
+// ★ v7.11: 'lumpSum' = budget expressed as lump shares per WP per partner, paid on WP completion
+export type BudgetMode = 'actualCosts' | 'lumpSum';
 
 // ─── PARTNER TYPES ───────────────────────────────────────────────
 // ★ v7.0: Strongly-typed partner categories
@@ -131,6 +149,8 @@ export interface ProjectPartner {
   expertise: string;
   pmRate: number;
   partnerType?: PartnerType;
+  fteCapacity?: number;   // ★ v7.5: FTE available per month (default 1)
+  fundingRate?: number;   // ★ v7.10: % of the partner's costs requested as EU contribution (default by partnerType + programme)
 }
 
 // ─── FINANCE: COST ITEMS ─────────────────────────────────────────
@@ -141,6 +161,47 @@ export interface DirectCostItem {
   name: string;
   amount: number;
   costModel?: CostModelType;
+  unitCost?: DirectCostUnitCalculation;  // ★ v7.12: amount = units × rate from a catalogue
+  currency?: string;                     // ★ v7.13: ISO 4217 code of amount; missing = EUR
+}
+
+// ★ v7.13: Project exchange-rate table — ECB convention, 1 EUR = rate × currency
+export interface ExchangeRate {
+  currency: string;
+  rate: number;
+  date: string | null;            // reference date of the rate (YYYY-MM-DD)
+  source: 'manual' | 'ecb';
+}
+
+export interface ExchangeRateSettings {
+  rates: ExchangeRate[];
+}
+
+// ★ v7.12: Organization unit-cost catalogue (unit_cost_rates table)
+export type UnitCostKind = 'staff' | 'travel' | 'subsistence' | 'other';
+
+export interface UnitCostRate {
+  id: string;
+  organizationId: string;
+  catalogue: string;              // e.g. "Erasmus+ travel distance bands"
+  kind: UnitCostKind;
+  label: string;                  // band / country / staff category
+  unit: string;                   // participant, day, person-day ...
+  rate: number;                   // € per unit
+  countryCode: string | null;
+  categoryKey: string | null;     // direct cost category the amount is booked to
+  note: string | null;
+}
+
+// Snapshot stored on the cost item — stays auditable when the catalogue changes
+export interface DirectCostUnitCalculation {
+  rateId: string | null;
+  catalogue: string;
+  label: string;
+  unit: string;
+  countryCode: string | null;
+  rate: number;
+  units: number;
 }
 
 // ★ v7.0: Kept for backward compat but no longer used on task level
@@ -159,6 +220,41 @@ export interface IndirectCostSettings {
   appliesToCategories: string[];     // keys from direct cost categories that this % applies to
 }
 
+// ─── FINANCE: PROGRAMME BUDGET RULES ─────────────────────────────
+// Evaluated by budgetRuleService against collectBudgetAllocations().
+// Category keys may belong to either funding model; they are remapped
+// to the project model before evaluation.
+
+export type BudgetRuleType =
+  | 'indirectRate'     // indirect % ≤ percentage, applied only to baseCategories
+  | 'maxShare'         // Σ categories ≤ percentage % of Σ baseCategories (all direct costs when empty)
+  | 'maxAmount'        // Σ categories ≤ amount
+  | 'partnerShare'     // each partner's total between minPercentage and maxPercentage % of the project total
+  | 'costModels';      // direct costs in categories use one of costModels
+
+export type BudgetRuleScope = 'project' | 'partner' | 'wp';
+export type BudgetRuleSeverity = 'error' | 'warning';
+
+export interface BudgetRule {
+  id: string;
+  type: BudgetRuleType;
+  enabled: boolean;
+  severity: BudgetRuleSeverity;
+  scope?: BudgetRuleScope;          // maxShare / maxAmount; 'project' when missing
+  categories?: string[];            // empty = all direct cost categories
+  baseCategories?: string[];
+  percentage?: number;
+  minPercentage?: number;
+  maxPercentage?: number;
+  amount?: number;
+  costModels?: CostModelType[];
+}
+
+export interface BudgetRuleSettings {
+  presetId: string | null;          // BUDGET_RULE_PRESETS id the rules were copied from, null = custom
+  rules: BudgetRule[];
+}
+
 // ─── TASK-LEVEL PARTNER ALLOCATION ───────────────────────────────
 // ★ v7.0: Simplified — indirect costs calculated centrally, not per-task
 
@@ -176,9 +272,23 @@ export interface TaskPartnerAllocation {
 
 // ─── TASKS, WPs ──────────────────────────────────────────────────
 
+export type DependencyLagUnit = 'days' | 'months';
+
 export interface TaskDependency {
   predecessorId: string;
   type: 'FS' | 'SS' | 'FF' | 'SF';
+  lag?: number;                 // negative = lead
+  lagUnit?: DependencyLagUnit;  // 'days' when missing; working days in the workingDays calendar
+}
+
+// Granularity used by recalculateProjectSchedule (utils.ts)
+export type ScheduleCalendar = 'calendarDays' | 'workingDays' | 'months';
+
+// Three-point duration estimate in calendar days
+export interface DurationEstimate {
+  optimistic: number;
+  mostLikely: number;
+  pessimistic: number;
 }
 
 export interface Task {
@@ -189,6 +299,7 @@ export interface Task {
   endDate: string;
   dependencies: TaskDependency[];
   partnerAllocations?: TaskPartnerAllocation[];
+  estimate?: DurationEstimate;   // ★ v7.7: three-point PERT estimate (days)
 }
 
 export interface Milestone {
@@ -204,12 +315,20 @@ export interface Deliverable {
   indicator: string;
 }
 
+// ★ v7.11: Lump-sum mode — WP share per partner and what proves the WP is completed
+export interface WorkPackageLumpSum {
+  shares: Record<string, number>;        // partner id → lump share (€); missing = estimate × funding rate
+  completionDeliverables: string[];       // deliverable ids of this WP required for payment
+  completionCriteria: string;
+}
+
 export interface WorkPackage {
   id: string;
   title: string;
   tasks: Task[];
   milestones: Milestone[];
   deliverables: Deliverable[];
+  lumpSum?: WorkPackageLumpSum;
 }
 
 // ─── RISK ────────────────────────────────────────────────────────
@@ -269,6 +388,22 @@ export interface ProjectIdea {
   policies: PolicyItem[];
 }
 
+// ─── SCHEDULE BASELINES ──────────────────────────────────────────
+
+export interface ScheduleBaseline {
+  id: string;
+  name: string;
+  createdAt: string;                                            // ISO timestamp
+  tasks: Record<string, { startDate: string; endDate: string }>;  // by task id
+  milestones: Record<string, { date: string }>;                   // by milestone id
+}
+
+// Paginated Gantt in PrintLayout / DOCX (chartSvgService.renderGanttPages)
+export interface GanttExportSettings {
+  rowsPerPage: number;
+  splitBy: 'none' | 'year';
+}
+
 // ─── FULL PROJECT DATA ───────────────────────────────────────────
 // ★ v7.0: Added indirectCostSettings
 
@@ -286,10 +421,21 @@ export interface ProjectData {
   kers: KERItem[];
   partners?: ProjectPartner[];
   fundingModel?: FundingModel;
+  budgetMode?: BudgetMode;
   maxPartners?: number;
   indirectCostSettings?: IndirectCostSettings;
+  scheduleCalendar?: ScheduleCalendar;
+  scheduleBaselines?: ScheduleBaseline[];
+  activeBaselineId?: string | null;
+  ganttExport?: GanttExportSettings;
+  budgetRules?: BudgetRuleSettings;
+  exchangeRates?: ExchangeRateSettings;
 }
 
+// ─── LANGUAGE ────────────────────────────────────────────────────
+// Registered codes live in languages.ts (LANGUAGE_REGISTRY): 'en', 'si', 'de' ...
+export type LanguageCode = string;
+
 // ─── VERSIONING & META ───────────────────────────────────────────
 
 export interface ProjectMeta {
@@ -297,7 +443,7 @@ export interface ProjectMeta {
   name: string;
   createdAt: string;
   updatedAt: string;
-  language: 'en' | 'si';
+  language: LanguageCode;
   version: number;
 }
 
@@ -307,6 +453,47 @@ export interface SavedProject {
   translations?: Record<string, ProjectData>;
 }
 
+export type ProjectVersionKind = 'auto' | 'named';
+
+// One entry per language version of the project: { en: {...}, si: {...}, de: {...} }
+export type ProjectVersionSnapshot = Record<LanguageCode, ProjectData | null>;
+
+export interface ProjectVersion {
+  id: string;
+  projectId: string;
+  version: number;
+  kind: ProjectVersionKind;
+  label: string | null;
+  reason: string | null;
+  createdAt: string;
+  data?: ProjectVersionSnapshot;   // only loaded by projectVersionService.getVersion()
+}
+
+// ─── TRANSLATION GLOSSARY ────────────────────────────────────────
+
+export type GlossaryScope = 'organization' | 'project';
+
+export interface GlossaryEntry {
+  id: string;
+  scope: GlossaryScope;
+  organizationId: string | null;
+  projectId: string | null;
+  sourceLang: LanguageCode | null;   // null = any language
+  targetLang: LanguageCode | null;   // null = any language
+  sourceTerm: string;
+  targetTerm: string | null;         // required translation (null when doNotTranslate)
+  doNotTranslate: boolean;
+  note: string | null;
+}
+
+export interface GlossaryViolation {
+  fieldPath: string;
+  sourceTerm: string;
+  expected: string;                  // required target term, or the source term itself
+  doNotTranslate: boolean;
+  scope: GlossaryScope | 'auto';     // 'auto' = implicit entry (project acronym)
+}
+
 // ─── MODAL CONFIGURATION ─────────────────────────────────────────
 
 export interface ModalConfig {
@@ -383,6 +570,11 @@ export interface PERTTask {
   slack: number;
   isCritical: boolean;
   dependencies: string[];
+  // ★ v7.7: three-point estimate — te = (o + 4m + p) / 6, σ² = ((p − o) / 6)²
+  estimate?: DurationEstimate;
+  expectedDuration?: number;
+  variance?: number;
+  criticalityIndex?: number;     // share of Monte Carlo runs with the task on the critical path
 }
 
 // ─── READINESS LEVEL DEFINITIONS ─────────────────────────────────
@@ -2,6 +2,16 @@
 // ═══════════════════════════════════════════════════════════════
 // Utility functions: deep-setter, validation, project factory,
 // completion checks, scheduling logic, language detection.
+// v5.5 — 2026-03-07 — detectTextLanguage(): LanguageDefinition.markers (×5) separate
+//   SI from HR; words split on non-letters so punctuation does not hide keywords
+// v5.4 — 2026-03-07 — SCHEDULER: findDependencyCycles()/wouldCreateCycle() — every
+//   dependency loop reported as its task-id chain; loop-closing dependencies are
+//   skipped during propagation instead of iterating until MAX_ITERATIONS
+// v5.3 — 2026-03-07 — SCHEDULER: dependency lag / lead (days or months) and
+//   project calendar (calendar days, working days, project months);
+//   several predecessors → the latest constraint wins; UTC date arithmetic
+// v5.2 — 2026-03-07 — detectTextLanguage()/detectProjectLanguage() work over the
+//   languages.ts registry (optional candidates list), return LanguageCode
 // v5.1 — 2026-03-01 — CHANGES:
 //   ★ v5.1: recalculateProjectSchedule() — POST-PROCESSING TEMPORAL CLAMP
 //     → After dependency propagation, clamp ALL task dates to project envelope
@@ -19,6 +29,8 @@
 // ═══════════════════════════════════════════════════════════════
 
 import { SUB_STEPS } from './constants.tsx';
+import { getLanguageDefinition, SUPPORTED_LANGUAGES, DEFAULT_LANGUAGE, type LanguageCode } from './languages.ts';
+import type { ScheduleCalendar, DependencyLagUnit, TaskDependency } from './types.ts';
 
 // ─── SCHEDULING RESULT TYPE ──────────────────────────────────────
 
@@ -319,53 +331,54 @@ export const downloadBlob = (blob: Blob, fileName: string): void => {
 };
 
 // ─── CONSOLIDATED LANGUAGE DETECTION (v4.5, 2026-02-21) ─────────
+// ★ v5.2: Generalized — scores every language in LANGUAGE_REGISTRY
+//   (keywords + characteristic letters) instead of fixed SI/EN lists.
 
-const SI_KEYWORDS = [
-  'projekt', 'cilj', 'aktivnost', 'rezultat', 'tveganje', 'kazalnik',
-  'upravljanje', 'kakovost', 'analiza', 'opis', 'delovni', 'paket',
-  'trajanje', 'začetek', 'konec', 'partnerji', 'vodja', 'proračun',
-  'financiranje', 'izvedba', 'spremljanje', 'poročanje', 'diseminacija',
-  'trajnost', 'inovacija', 'vpliv', 'učinek', 'izhod', 'dosežek',
-  'metodologija', 'pristop', 'strategija', 'komunikacija', 'vrednotenje',
-  'je', 'in', 'na', 'za', 'ki', 'da', 'se', 'bo', 'so', 'ter', 'ali',
-  'lahko', 'tudi', 'pri', 'med', 'po', 'iz', 'nad', 'pod'
-];
-
-const EN_KEYWORDS = [
-  'project', 'objective', 'activity', 'result', 'risk', 'indicator',
-  'management', 'quality', 'analysis', 'description', 'work', 'package',
-  'duration', 'start', 'end', 'partners', 'leader', 'budget',
-  'funding', 'implementation', 'monitoring', 'reporting', 'dissemination',
-  'sustainability', 'innovation', 'impact', 'outcome', 'output', 'achievement',
-  'methodology', 'approach', 'strategy', 'communication', 'evaluation',
-  'the', 'and', 'for', 'that', 'with', 'will', 'are', 'this', 'from',
-  'has', 'have', 'been', 'not', 'but', 'which', 'their', 'can', 'into'
-];
-
-export const detectTextLanguage = (text: string): 'en' | 'si' | 'unknown' => {
+const keywordSetCache = new Map<LanguageCode, Set<string>>();
+
+const getKeywordSet = (code: LanguageCode): Set<string> => {
+  let set = keywordSetCache.get(code);
+  if (!set) {
+    set = new Set(getLanguageDefinition(code).keywords);
+    keywordSetCache.set(code, set);
+  }
+  return set;
+};
+
+export const detectTextLanguage = (
+  text: string,
+  candidates: LanguageCode[] = SUPPORTED_LANGUAGES
+): LanguageCode | 'unknown' => {
   if (!text || text.trim().length < 10) return 'unknown';
 
   const lower = text.toLowerCase();
-  const words = lower.split(/\s+/);
-
-  const siChars = (lower.match(/[čšžćđ]/g) || []).length;
+  const words = lower.split(/[^\p{L}]+/u);
+
+  const scores = candidates.map((code) => {
+    const def = getLanguageDefinition(code);
+    const keywords = getKeywordSet(code);
+    let score = def.specialChars ? (lower.match(def.specialChars) || []).length * 3 : 0;
+    if (def.markers) score += (lower.match(def.markers) || []).length * 5;
+    for (const word of words) {
+      if (keywords.has(word)) score++;
+    }
+    return { code, score };
+  });
 
-  let siScore = siChars * 3;
-  let enScore = 0;
+  // Highest score first; on a tie the non-default language wins (was: SI over EN)
+  scores.sort((a, b) =>
+    b.score - a.score || (a.code === DEFAULT_LANGUAGE ? 1 : 0) - (b.code === DEFAULT_LANGUAGE ? 1 : 0)
+  );
 
-  for (const word of words) {
-    if (SI_KEYWORDS.includes(word)) siScore++;
-    if (EN_KEYWORDS.includes(word)) enScore++;
-  }
-
-  if (siScore === 0 && enScore === 0) return 'unknown';
-  if (siScore > enScore * 1.2) return 'si';
-  if (enScore > siScore * 1.2) return 'en';
-  return siScore >= enScore ? 'si' : 'en';
+  if (scores.length === 0 || scores[0].score === 0) return 'unknown';
+  return scores[0].code;
 };
 
-export const detectProjectLanguage = (data: any): 'en' | 'si' => {
-  if (!data) return 'en';
+export const detectProjectLanguage = (
+  data: any,
+  candidates: LanguageCode[] = SUPPORTED_LANGUAGES
+): LanguageCode => {
+  if (!data) return DEFAULT_LANGUAGE;
 
   const sampleTexts: string[] = [];
 
@@ -388,11 +401,11 @@ export const detectProjectLanguage = (data: any): 'en' | 'si' => {
     if (sampleTexts.length >= 5) break;
   }
 
-  if (sampleTexts.length === 0) return 'en';
+  if (sampleTexts.length === 0) return DEFAULT_LANGUAGE;
 
   const combined = sampleTexts.join(' ');
-  const result = detectTextLanguage(combined);
-  return result === 'unknown' ? 'en' : result;
+  const result = detectTextLanguage(combined, candidates);
+  return result === 'unknown' ? DEFAULT_LANGUAGE : result;
 };
 
 // ─── SCHEDULING LOGIC ────────────────────────────────────────────
@@ -401,12 +414,20 @@ const formatDate = (date: Date): string => {
   return date.toISOString().split('T')[0];
 };
 
+// ★ v5.3: UTC — dates are parsed as UTC midnight; local setDate() drifted a day across DST
 const addDays = (date: Date, days: number): Date => {
   const result = new Date(date);
-  result.setDate(result.getDate() + days);
+  result.setUTCDate(result.getUTCDate() + days);
   return result;
 };
 
+const addMonths = (date: Date, months: number): Date => {
+  const y = date.getUTCFullYear();
+  const m = date.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(y, m + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(y, m, Math.min(date.getUTCDate(), lastDay)));
+};
+
 const getDuration = (startStr: string, endStr: string): number => {
   const start = new Date(startStr);
   const end = new Date(endStr);
@@ -415,8 +436,180 @@ const getDuration = (startStr: string, endStr: string): number => {
   return diffDays;
 };
 
+// ─── ★ v5.3: SCHEDULE CALENDARS ──────────────────────────────────
+// calendarDays — durations and day lags in calendar days (FS = next day)
+// workingDays  — Mon–Fri only; durations and day lags in working days
+// months       — tasks snap to project months (M1 starts on projectIdea.startDate)
+
+interface CalendarOps {
+  duration: (start: Date, end: Date) => number;
+  endFrom: (start: Date, duration: number) => Date;
+  startFrom: (end: Date, duration: number) => Date;
+  snapStart: (date: Date) => Date;                      // first valid start on / after date
+  normalize: (start: Date, end: Date) => { start: Date; end: Date };
+  nextStart: (end: Date) => Date;                       // first start after a finish (FS)
+  prevEnd: (start: Date) => Date;                       // last finish before a start (SF)
+  shift: (date: Date, lag: number, unit: DependencyLagUnit) => Date;
+}
+
+const isWorkingDay = (date: Date): boolean => date.getUTCDay() !== 0 && date.getUTCDay() !== 6;
+
+const addWorkingDays = (date: Date, days: number): Date => {
+  let result = new Date(date);
+  const step = days < 0 ? -1 : 1;
+  let remaining = Math.abs(days);
+  while (remaining > 0) {
+    result = addDays(result, step);
+    if (isWorkingDay(result)) remaining--;
+  }
+  return result;
+};
+
+const getCalendarOps = (calendar: ScheduleCalendar | undefined, projectStartStr: string | undefined): CalendarOps => {
+  if (calendar === 'workingDays') {
+    const snapStart = (d: Date): Date => { let r = new Date(d); while (!isWorkingDay(r)) r = addDays(r, 1); return r; };
+    const snapEnd = (d: Date): Date => { let r = new Date(d); while (!isWorkingDay(r)) r = addDays(r, -1); return r; };
+    return {
+      duration: (start, end) => {
+        let count = 0;
+        for (let d = addDays(start, 1); d <= end; d = addDays(d, 1)) if (isWorkingDay(d)) count++;
+        return count;
+      },
+      endFrom: (start, duration) => addWorkingDays(start, duration),
+      startFrom: (end, duration) => addWorkingDays(end, -duration),
+      snapStart,
+      normalize: (start, end) => {
+        const s = snapStart(start);
+        const e = snapEnd(end);
+        return { start: s, end: e < s ? s : e };
+      },
+      nextStart: (end) => addWorkingDays(end, 1),
+      prevEnd: (start) => addWorkingDays(start, -1),
+      shift: (date, lag, unit) => (unit === 'months' ? addMonths(date, lag) : addWorkingDays(date, lag)),
+    };
+  }
+
+  if (calendar === 'months') {
+    const anchor = projectStartStr && !isNaN(new Date(projectStartStr).getTime())
+      ? new Date(projectStartStr)
+      : new Date(Date.UTC(2000, 0, 1));
+    const monthStart = (k: number): Date => addMonths(anchor, k);
+    const monthEnd = (k: number): Date => addDays(monthStart(k + 1), -1);
+    const monthIndex = (d: Date): number => {
+      let k = (d.getUTCFullYear() - anchor.getUTCFullYear()) * 12 + (d.getUTCMonth() - anchor.getUTCMonth());
+      while (monthStart(k) > d) k--;
+      while (monthStart(k + 1) <= d) k++;
+      return k;
+    };
+    return {
+      duration: (start, end) => monthIndex(end) - monthIndex(start),
+      endFrom: (start, duration) => monthEnd(monthIndex(start) + duration),
+      startFrom: (end, duration) => monthStart(monthIndex(end) - duration),
+      snapStart: (d) => {
+        const k = monthIndex(d);
+        return monthStart(k).getTime() === d.getTime() ? d : monthStart(k + 1);
+      },
+      normalize: (start, end) => ({ start: monthStart(monthIndex(start)), end: monthEnd(Math.max(monthIndex(end), monthIndex(start))) }),
+      nextStart: (end) => monthStart(monthIndex(end) + 1),
+      prevEnd: (start) => monthEnd(monthIndex(start) - 1),
+      shift: (date, lag, unit) => (unit === 'months' ? addMonths(date, lag) : addDays(date, lag)),
+    };
+  }
+
+  return {
+    duration: (start, end) => getDuration(formatDate(start), formatDate(end)),
+    endFrom: (start, duration) => addDays(start, duration),
+    startFrom: (end, duration) => addDays(end, -duration),
+    snapStart: (d) => d,
+    normalize: (start, end) => ({ start, end }),
+    nextStart: (end) => addDays(end, 1),
+    prevEnd: (start) => addDays(start, -1),
+    shift: (date, lag, unit) => (unit === 'months' ? addMonths(date, lag) : addDays(date, lag)),
+  };
+};
+
+// "+2 mo" / "−5 d" — empty when the dependency has no lag
+export const formatDependencyLag = (dep: TaskDependency | any, language: string = 'en'): string => {
+  const lag = Number(dep?.lag) || 0;
+  if (!lag) return '';
+  const unit = dep.lagUnit === 'months' ? (language === 'si' ? 'mes.' : 'mo') : 'd';
+  return (lag > 0 ? '+' : '−') + Math.abs(lag) + ' ' + unit;
+};
+
+// "T1.1 FS +2 mo"
+export const formatDependency = (dep: TaskDependency | any, language: string = 'en'): string =>
+  [dep?.predecessorId, dep?.type, formatDependencyLag(dep, language)].filter(Boolean).join(' ');
+
+// ─── DEPENDENCY CYCLES ───────────────────────────────────────────
+// Chains run predecessor → successor and end where they start:
+// ['T1.1', 'T1.2', 'T1.3', 'T1.1']. The last link is the dependency that
+// closes the loop (task chain[n-1] depends on chain[n-2]).
+
+const buildSuccessorGraph = (tasks: any[]): Map<string, string[]> => {
+  const graph = new Map<string, string[]>();
+  tasks.forEach((task) => { if (task?.id && !graph.has(task.id)) graph.set(task.id, []); });
+  tasks.forEach((task) => {
+    if (!task?.id || !Array.isArray(task.dependencies)) return;
+    task.dependencies.forEach((dep: any) => {
+      const successors = graph.get(dep?.predecessorId);
+      if (successors && !successors.includes(task.id)) successors.push(task.id);
+    });
+  });
+  return graph;
+};
+
+// One chain per back edge of a depth-first walk — removing the closing
+// dependency of every reported chain leaves an acyclic dependency graph.
+export const findDependencyCycles = (tasks: any[]): string[][] => {
+  const graph = buildSuccessorGraph(tasks || []);
+  const state = new Map<string, 'active' | 'done'>();
+  const stack: string[] = [];
+  const cycles: string[][] = [];
+
+  const visit = (id: string) => {
+    state.set(id, 'active');
+    stack.push(id);
+    for (const next of graph.get(id) || []) {
+      const nextState = state.get(next);
+      if (nextState === 'active') {
+        cycles.push([...stack.slice(stack.indexOf(next)), next]);
+      } else if (!nextState) {
+        visit(next);
+      }
+    }
+    stack.pop();
+    state.set(id, 'done');
+  };
+
+  graph.forEach((_, id) => { if (!state.has(id)) visit(id); });
+  return cycles;
+};
+
+// Chain that adding "taskId depends on predecessorId" would close, or null
+export const wouldCreateCycle = (tasks: any[], taskId: string, predecessorId: string): string[] | null => {
+  if (taskId === predecessorId) return [predecessorId, taskId];
+  const graph = buildSuccessorGraph(tasks || []);
+  const cameFrom = new Map<string, string>([[taskId, '']]);
+  const queue = [taskId];
+  while (queue.length > 0) {
+    const id = queue.shift() as string;
+    if (id === predecessorId) {
+      const chain = [id];
+      let prev = cameFrom.get(id);
+      while (prev) { chain.unshift(prev); prev = cameFrom.get(prev); }
+      return [...chain, taskId];
+    }
+    for (const next of graph.get(id) || []) {
+      if (!cameFrom.has(next)) { cameFrom.set(next, id); queue.push(next); }
+    }
+  }
+  return null;
+};
+
+export const formatDependencyCycle = (chain: string[]): string => chain.join(' → ');
+
 // ★ v5.1: Helper — calculate project end date from start + months
-const calculateProjectEndDateFromIdea = (startDateStr: string, durationMonths: number): string => {
+export const calculateProjectEndDateFromIdea = (startDateStr: string, durationMonths: number): string => {
   var parts = startDateStr.split('-').map(Number);
   var startYear = parts[0];
   var startMonth = parts[1] - 1;
@@ -463,6 +656,7 @@ export const recalculateProjectSchedule = (projectData: any): ScheduleResult =>
 
   const taskMap = new Map();
   const tasksArray: any[] = [];
+  const calendar = getCalendarOps(projectData.scheduleCalendar, projectData.projectIdea?.startDate);
 
   const newActivities = JSON.parse(JSON.stringify(projectData.activities));
 
@@ -470,13 +664,21 @@ export const recalculateProjectSchedule = (projectData: any): ScheduleResult =>
     if (wp.tasks && Array.isArray(wp.tasks)) {
       wp.tasks.forEach((task: any, taskIndex: number) => {
         if (task.startDate && task.endDate) {
+          // ★ v5.3: Working days / project months — snap dates to the calendar first
+          let start = new Date(task.startDate);
+          let end = new Date(task.endDate);
+          if (!isNaN(start.getTime()) && !isNaN(end.getTime())) {
+            ({ start, end } = calendar.normalize(start, end));
+            task.startDate = formatDate(start);
+            task.endDate = formatDate(end);
+          }
           const tObj = {
             ...task,
             wpIndex,
             taskIndex,
-            start: new Date(task.startDate),
-            end: new Date(task.endDate),
-            duration: getDuration(task.startDate, task.endDate)
+            start,
+            end,
+            duration: calendar.duration(start, end)
           };
           taskMap.set(task.id, tObj);
           tasksArray.push(tObj);
@@ -495,6 +697,18 @@ export const recalculateProjectSchedule = (projectData: any): ScheduleResult =>
     }
   }
 
+  // ★ v5.4: Loops are reported with their chain; the closing dependency is not propagated
+  const cyclicLinks = new Set<string>();
+  findDependencyCycles(tasksArray).forEach((chain) => {
+    const successor = chain[chain.length - 1];
+    const predecessor = chain[chain.length - 2];
+    cyclicLinks.add(predecessor + '>' + successor);
+    warnings.push(
+      'Dependency cycle ' + formatDependencyCycle(chain) + ' - dependency of "' + successor +
+      '" on "' + predecessor + '" ignored until the loop is removed.'
+    );
+  });
+
   let changed = true;
   let iterations = 0;
   const MAX_ITERATIONS = 50;
@@ -506,54 +720,39 @@ export const recalculateProjectSchedule = (projectData: any): ScheduleResult =>
     for (const task of tasksArray) {
       if (!task.dependencies || task.dependencies.length === 0) continue;
 
-      let earliestStart = new Date(task.start);
-      let earliestEnd = new Date(task.end);
-      let shiftRequired = false;
+      // ★ v5.3: Lag / lead per dependency; several predecessors → latest constraint wins
+      let earliestStart: Date | null = null;
 
       for (const dep of task.dependencies) {
         const predecessor = taskMap.get(dep.predecessorId);
-        if (!predecessor) continue;
+        if (!predecessor || cyclicLinks.has(dep.predecessorId + '>' + task.id)) continue;
 
-        if (dep.type === 'FS') {
-          const constraintDate = addDays(predecessor.end, 1);
-          if (task.start < constraintDate) {
-            earliestStart = constraintDate;
-            shiftRequired = true;
-          }
-        } else if (dep.type === 'SS') {
-          const constraintDate = new Date(predecessor.start);
-          if (task.start < constraintDate) {
-            earliestStart = constraintDate;
-            shiftRequired = true;
-          }
+        const lag = Number(dep.lag) || 0;
+        const unit: DependencyLagUnit = dep.lagUnit === 'months' ? 'months' : 'days';
+        let candidate: Date;
+
+        if (dep.type === 'SS') {
+          candidate = calendar.snapStart(calendar.shift(predecessor.start, lag, unit));
         } else if (dep.type === 'FF') {
-          const constraintDate = new Date(predecessor.end);
-          if (task.end < constraintDate) {
-            earliestEnd = constraintDate;
-            earliestStart = addDays(constraintDate, -task.duration);
-            shiftRequired = true;
-          }
+          candidate = calendar.startFrom(calendar.shift(predecessor.end, lag, unit), task.duration);
         } else if (dep.type === 'SF') {
-          const constraintDate = addDays(predecessor.start, -1);
-          if (task.end < constraintDate) {
-            earliestEnd = constraintDate;
-            earliestStart = addDays(constraintDate, -task.duration);
-            shiftRequired = true;
-          }
+          candidate = calendar.startFrom(calendar.shift(calendar.prevEnd(predecessor.start), lag, unit), task.duration);
+        } else {
+          candidate = calendar.snapStart(calendar.shift(calendar.nextStart(predecessor.end), lag, unit));
         }
+
+        if (!earliestStart || candidate > earliestStart) earliestStart = candidate;
       }
 
-      if (shiftRequired) {
+      if (earliestStart && earliestStart.getTime() > task.start.getTime()) {
         const newStart = earliestStart;
-        const newEnd = addDays(newStart, task.duration);
-
-        if (newStart.getTime() !== task.start.getTime()) {
-          task.start = newStart;
-          task.end = newEnd;
-          newActivities[task.wpIndex].tasks[task.taskIndex].startDate = formatDate(newStart);
-          newActivities[task.wpIndex].tasks[task.taskIndex].endDate = formatDate(newEnd);
-          changed = true;
-        }
+        const newEnd = calendar.endFrom(newStart, task.duration);
+
+        task.start = newStart;
+        task.end = newEnd;
+        newActivities[task.wpIndex].tasks[task.taskIndex].startDate = formatDate(newStart);
+        newActivities[task.wpIndex].tasks[task.taskIndex].endDate = formatDate(newEnd);
+        changed = true;
       }
     }
   }
@@ -563,8 +762,7 @@ export const recalculateProjectSchedule = (projectData: any): ScheduleResult =>
   if (!converged) {
     warnings.push(
       'Schedule did not converge after ' + MAX_ITERATIONS + ' iterations. ' +
-      'This usually indicates circular dependencies between tasks. ' +
-      'Please check task dependencies for loops.'
+      'Please check task dates and dependencies.'
     );
   }
 